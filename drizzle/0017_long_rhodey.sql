@@ -0,0 +1,18 @@
+CREATE TABLE `permission_audit` (
+	`id` text PRIMARY KEY NOT NULL,
+	`conversation_id` text NOT NULL,
+	`provider` text NOT NULL,
+	`tool_call_id` text NOT NULL,
+	`tool_kind` text,
+	`title` text,
+	`command` text,
+	`paths` text,
+	`decision` text NOT NULL,
+	`option_id` text,
+	`source` text NOT NULL,
+	`rule_id` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`conversation_id`) REFERENCES `conversations`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_permission_audit_conversation_id` ON `permission_audit` (`conversation_id`);
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `checkpoints` (
+	`id` text PRIMARY KEY NOT NULL,
+	`conversation_id` text NOT NULL,
+	`message_id` text NOT NULL,
+	`worktree_path` text NOT NULL,
+	`commit_sha` text NOT NULL,
+	`head_sha` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`conversation_id`) REFERENCES `conversations`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_checkpoints_conversation_id` ON `checkpoints` (`conversation_id`);
\ No newline at end of file
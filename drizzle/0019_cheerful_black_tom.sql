@@ -0,0 +1,18 @@
+CREATE TABLE `usage_entries` (
+	`id` text PRIMARY KEY NOT NULL,
+	`conversation_id` text NOT NULL,
+	`message_id` text,
+	`provider_id` text NOT NULL,
+	`model_id` text,
+	`input_tokens` integer DEFAULT 0 NOT NULL,
+	`output_tokens` integer DEFAULT 0 NOT NULL,
+	`cached_read_tokens` integer DEFAULT 0 NOT NULL,
+	`cached_write_tokens` integer DEFAULT 0 NOT NULL,
+	`total_tokens` integer DEFAULT 0 NOT NULL,
+	`cost_usd` real DEFAULT 0 NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`conversation_id`) REFERENCES `conversations`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_usage_entries_conversation_id` ON `usage_entries` (`conversation_id`);--> statement-breakpoint
+CREATE INDEX `idx_usage_entries_created_at` ON `usage_entries` (`created_at`);
\ No newline at end of file
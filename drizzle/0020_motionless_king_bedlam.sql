@@ -0,0 +1,15 @@
+CREATE TABLE `verify_runs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`task_id` text NOT NULL,
+	`status` text NOT NULL,
+	`exit_code` integer,
+	`head_sha` text,
+	`tree_sha` text,
+	`summary` text NOT NULL,
+	`error` text,
+	`started_at` text NOT NULL,
+	`finished_at` text NOT NULL,
+	FOREIGN KEY (`task_id`) REFERENCES `tasks`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_verify_runs_task_id` ON `verify_runs` (`task_id`);
\ No newline at end of file
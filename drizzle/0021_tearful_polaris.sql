@@ -0,0 +1 @@
+ALTER TABLE `projects` ADD `merge_strategy` text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `checkpoints` ADD `sequence` integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+UPDATE `checkpoints` SET `sequence` = rowid;
\ No newline at end of file
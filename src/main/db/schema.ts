@@ -1,5 +1,5 @@
 import { relations, sql } from 'drizzle-orm';
-import { index, integer, sqliteTable, text, uniqueIndex } from 'drizzle-orm/sqlite-core';
+import { index, integer, real, sqliteTable, text, uniqueIndex } from 'drizzle-orm/sqlite-core';
 
 export const appState = sqliteTable('app_state', {
   id: integer('id').primaryKey().default(1),
@@ -71,6 +71,7 @@ export const projects = sqliteTable(
     gitRemote: text('git_remote'),
     gitBranch: text('git_branch'),
     baseRef: text('base_ref'),
+    mergeStrategy: text('merge_strategy'), // MergeStrategy; null picks one from the GitHub connection
     githubRepository: text('github_repository'),
     githubConnected: integer('github_connected').notNull().default(0),
     sshConnectionId: text('ssh_connection_id').references(() => sshConnections.id, {
@@ -204,6 +205,100 @@ export const lineComments = sqliteTable(
   })
 );
 
+export const permissionAudit = sqliteTable(
+  'permission_audit',
+  {
+    id: text('id').primaryKey(),
+    conversationId: text('conversation_id')
+      .notNull()
+      .references(() => conversations.id, { onDelete: 'cascade' }),
+    provider: text('provider').notNull(),
+    toolCallId: text('tool_call_id').notNull(),
+    toolKind: text('tool_kind'),
+    title: text('title'),
+    command: text('command'),
+    paths: text('paths'), // JSON array of paths the tool call touches
+    decision: text('decision').notNull(), // 'allow_once' | 'allow_always' | 'reject' | 'cancelled'
+    optionId: text('option_id'),
+    source: text('source').notNull(), // 'project_policy' | 'global_policy' | 'user'
+    ruleId: text('rule_id'),
+    createdAt: text('created_at')
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    conversationIdIdx: index('idx_permission_audit_conversation_id').on(table.conversationId),
+  })
+);
+
+export const checkpoints = sqliteTable(
+  'checkpoints',
+  {
+    id: text('id').primaryKey(),
+    conversationId: text('conversation_id')
+      .notNull()
+      .references(() => conversations.id, { onDelete: 'cascade' }),
+    messageId: text('message_id').notNull(), // User message that started the turn
+    worktreePath: text('worktree_path').notNull(),
+    commitSha: text('commit_sha').notNull(), // Snapshot commit, kept alive by refs/valkyr/checkpoints/<id>
+    headSha: text('head_sha'), // HEAD when the snapshot was taken
+    sequence: integer('sequence').notNull().default(0), // Creation order within the conversation
+    createdAt: text('created_at')
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    conversationIdIdx: index('idx_checkpoints_conversation_id').on(table.conversationId),
+  })
+);
+
+export const verifyRuns = sqliteTable(
+  'verify_runs',
+  {
+    id: text('id').primaryKey(),
+    taskId: text('task_id')
+      .notNull()
+      .references(() => tasks.id, { onDelete: 'cascade' }),
+    status: text('status').notNull(), // 'passed' | 'failed' | 'error'
+    exitCode: integer('exit_code'),
+    headSha: text('head_sha'),
+    treeSha: text('tree_sha'), // Worktree contents the run saw, for staleness checks
+    summary: text('summary').notNull(), // JSON VerifySummary
+    error: text('error'),
+    startedAt: text('started_at').notNull(),
+    finishedAt: text('finished_at').notNull(),
+  },
+  (table) => ({
+    taskIdIdx: index('idx_verify_runs_task_id').on(table.taskId),
+  })
+);
+
+export const usageEntries = sqliteTable(
+  'usage_entries',
+  {
+    id: text('id').primaryKey(),
+    conversationId: text('conversation_id')
+      .notNull()
+      .references(() => conversations.id, { onDelete: 'cascade' }),
+    messageId: text('message_id'), // User message that started the turn
+    providerId: text('provider_id').notNull(),
+    modelId: text('model_id'),
+    inputTokens: integer('input_tokens').notNull().default(0),
+    outputTokens: integer('output_tokens').notNull().default(0),
+    cachedReadTokens: integer('cached_read_tokens').notNull().default(0),
+    cachedWriteTokens: integer('cached_write_tokens').notNull().default(0),
+    totalTokens: integer('total_tokens').notNull().default(0),
+    costUsd: real('cost_usd').notNull().default(0),
+    createdAt: text('created_at')
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    conversationIdIdx: index('idx_usage_entries_conversation_id').on(table.conversationId),
+    createdAtIdx: index('idx_usage_entries_created_at').on(table.createdAt),
+  })
+);
+
 export const terminalSessions = sqliteTable(
   'terminal_sessions',
   {
@@ -268,6 +363,7 @@ export const tasksRelations = relations(tasks, ({ one, many }) => ({
   }),
   conversations: many(conversations),
   lineComments: many(lineComments),
+  verifyRuns: many(verifyRuns),
 }));
 
 export const conversationsRelations = relations(conversations, ({ one, many }) => ({
@@ -276,6 +372,9 @@ export const conversationsRelations = relations(conversations, ({ one, many }) =
     references: [tasks.id],
   }),
   messages: many(messages),
+  permissionAudit: many(permissionAudit),
+  checkpoints: many(checkpoints),
+  usageEntries: many(usageEntries),
 }));
 
 export const messagesRelations = relations(messages, ({ one }) => ({
@@ -285,6 +384,34 @@ export const messagesRelations = relations(messages, ({ one }) => ({
   }),
 }));
 
+export const permissionAuditRelations = relations(permissionAudit, ({ one }) => ({
+  conversation: one(conversations, {
+    fields: [permissionAudit.conversationId],
+    references: [conversations.id],
+  }),
+}));
+
+export const checkpointsRelations = relations(checkpoints, ({ one }) => ({
+  conversation: one(conversations, {
+    fields: [checkpoints.conversationId],
+    references: [conversations.id],
+  }),
+}));
+
+export const verifyRunsRelations = relations(verifyRuns, ({ one }) => ({
+  task: one(tasks, {
+    fields: [verifyRuns.taskId],
+    references: [tasks.id],
+  }),
+}));
+
+export const usageEntriesRelations = relations(usageEntries, ({ one }) => ({
+  conversation: one(conversations, {
+    fields: [usageEntries.conversationId],
+    references: [conversations.id],
+  }),
+}));
+
 export const lineCommentsRelations = relations(lineComments, ({ one }) => ({
   task: one(tasks, {
     fields: [lineComments.taskId],
@@ -302,6 +429,14 @@ export type ConversationRow = typeof conversations.$inferSelect;
 export type MessageRow = typeof messages.$inferSelect;
 export type LineCommentRow = typeof lineComments.$inferSelect;
 export type LineCommentInsert = typeof lineComments.$inferInsert;
+export type PermissionAuditRow = typeof permissionAudit.$inferSelect;
+export type PermissionAuditInsert = typeof permissionAudit.$inferInsert;
+export type CheckpointRow = typeof checkpoints.$inferSelect;
+export type CheckpointInsert = typeof checkpoints.$inferInsert;
+export type VerifyRunRow = typeof verifyRuns.$inferSelect;
+export type VerifyRunInsert = typeof verifyRuns.$inferInsert;
+export type UsageEntryRow = typeof usageEntries.$inferSelect;
+export type UsageEntryInsert = typeof usageEntries.$inferInsert;
 export type AppStateRow = typeof appState.$inferSelect;
 export type TerminalSessionRow = typeof terminalSessions.$inferSelect;
 export type KanbanColumnRow = typeof kanbanColumns.$inferSelect;
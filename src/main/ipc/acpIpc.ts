@@ -2,8 +2,14 @@ import { ipcMain, WebContents } from 'electron';
 import { z } from 'zod';
 import { acpSessionManager, type AcpUpdateEvent } from '../services/AcpSessionManager';
 import { mcpConfigService } from '../services/McpConfigService';
+import { valkyrMcpServer } from '../services/mcp/ValkyrMcpServer';
 import { claudeUsageService } from '../services/ClaudeUsageService';
+import { databaseService } from '../services/DatabaseService';
+import { checkpointService } from '../services/CheckpointService';
+import { sshService } from '../services/ssh/SshService';
+import { resolveRemoteConnectionId } from '../services/ssh/remoteProject';
 import { log } from '../lib/logger';
+import { USAGE_GROUP_BYS } from '@shared/usage';
 
 // ---------------------------------------------------------------------------
 // Zod schemas for input validation (S3)
@@ -28,6 +34,31 @@ const AcpPromptSchema = z.object({
   sessionKey: z.string().min(1),
   message: z.string(),
   files: z.array(AcpFileSchema).optional(),
+  messageId: z.string().min(1).optional(),
+});
+
+const AcpQueuePromptSchema = z.object({
+  sessionKey: z.string().min(1),
+  message: z.string(),
+  files: z.array(AcpFileSchema).optional(),
+  position: z.number().int().min(0).optional(),
+});
+
+const AcpQueueReorderSchema = z.object({
+  sessionKey: z.string().min(1),
+  itemId: z.string().min(1),
+  toIndex: z.number().int().min(0),
+});
+
+const AcpQueueEditSchema = z.object({
+  sessionKey: z.string().min(1),
+  itemId: z.string().min(1),
+  message: z.string().min(1),
+});
+
+const AcpQueueItemSchema = z.object({
+  sessionKey: z.string().min(1),
+  itemId: z.string().min(1),
 });
 
 const AcpSessionKeySchema = z.object({
@@ -40,6 +71,35 @@ const AcpApproveSchema = z.object({
   optionId: z.string().nullable(),
 });
 
+const AcpReviewWritesSchema = z.object({
+  sessionKey: z.string().min(1),
+  enabled: z.boolean(),
+});
+
+const AcpResolveWriteSchema = z.object({
+  sessionKey: z.string().min(1),
+  writeId: z.string().min(1),
+  accept: z.boolean(),
+});
+
+const AcpListCheckpointsSchema = z.object({
+  conversationId: z.string().min(1),
+});
+
+const AcpRestoreCheckpointSchema = z.object({
+  checkpointId: z.string().min(1),
+  sessionKey: z.string().min(1).optional(),
+});
+
+const AcpPermissionAuditSchema = z.object({
+  taskId: z.string().min(1),
+});
+
+const AcpUsageSummarySchema = z.object({
+  groupBy: z.enum(USAGE_GROUP_BYS),
+  since: z.string().datetime().optional(),
+});
+
 const AcpSetModeSchema = z.object({
   sessionKey: z.string().min(1),
   mode: z.string().min(1),
@@ -101,6 +161,11 @@ export function registerAcpIpc(): void {
     }
   });
 
+  // Built-in MCP server tokens live as long as their session
+  acpSessionManager.setSessionEndedListener((sessionKey) =>
+    valkyrMcpServer.revokeSession(sessionKey)
+  );
+
   // -------------------------------------------------------------------------
   // acp:start — Create an ACP session
   // -------------------------------------------------------------------------
@@ -109,7 +174,15 @@ export function registerAcpIpc(): void {
     try {
       const parsed = AcpStartSchema.parse(args);
       const tParsed = performance.now();
-      const mcpServers = await mcpConfigService.getMergedServersForSession(parsed.projectPath);
+      const remoteConnectionId = await resolveRemoteConnectionId(parsed.cwd, parsed.projectPath);
+      if (remoteConnectionId && !sshService.isConnected(remoteConnectionId)) {
+        return { success: false, error: 'SSH connection for this remote project is not open' };
+      }
+      const mcpServers = await mcpConfigService.getMergedServersForSession(parsed.projectPath, {
+        remote: !!remoteConnectionId,
+        taskPath: parsed.cwd,
+        sessionKey: `${parsed.providerId}-acp-${parsed.conversationId}`,
+      });
       const tMcp = performance.now();
       const result = await acpSessionManager.createSession(
         parsed.conversationId,
@@ -117,7 +190,9 @@ export function registerAcpIpc(): void {
         parsed.cwd,
         parsed.env,
         parsed.acpSessionId,
-        mcpServers
+        mcpServers,
+        parsed.projectPath,
+        remoteConnectionId
       );
       const tSession = performance.now();
       log.info(
@@ -166,7 +241,107 @@ export function registerAcpIpc(): void {
   ipcMain.handle('acp:prompt', async (_event, args: unknown) => {
     try {
       const parsed = AcpPromptSchema.parse(args);
-      return await acpSessionManager.sendPrompt(parsed.sessionKey, parsed.message, parsed.files);
+      return await acpSessionManager.sendPrompt(
+        parsed.sessionKey,
+        parsed.message,
+        parsed.files,
+        parsed.messageId
+      );
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          error: `Validation error: ${error.errors.map((e) => e.message).join(', ')}`,
+        };
+      }
+      return { success: false, error: error.message || 'Unknown error' };
+    }
+  });
+
+  // -------------------------------------------------------------------------
+  // acp:queuePrompt — Add a follow-up prompt to the session queue
+  // -------------------------------------------------------------------------
+  ipcMain.handle('acp:queuePrompt', async (_event, args: unknown) => {
+    try {
+      const parsed = AcpQueuePromptSchema.parse(args);
+      return acpSessionManager.queuePrompt(
+        parsed.sessionKey,
+        parsed.message,
+        parsed.files,
+        parsed.position
+      );
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          error: `Validation error: ${error.errors.map((e) => e.message).join(', ')}`,
+        };
+      }
+      return { success: false, error: error.message || 'Unknown error' };
+    }
+  });
+
+  // -------------------------------------------------------------------------
+  // acp:listQueue — List queued prompts in dispatch order
+  // -------------------------------------------------------------------------
+  ipcMain.handle('acp:listQueue', async (_event, args: unknown) => {
+    try {
+      const parsed = AcpSessionKeySchema.parse(args);
+      return acpSessionManager.getQueue(parsed.sessionKey);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          error: `Validation error: ${error.errors.map((e) => e.message).join(', ')}`,
+        };
+      }
+      return { success: false, error: error.message || 'Unknown error' };
+    }
+  });
+
+  // -------------------------------------------------------------------------
+  // acp:reorderQueue — Move a queued prompt to a new position
+  // -------------------------------------------------------------------------
+  ipcMain.handle('acp:reorderQueue', async (_event, args: unknown) => {
+    try {
+      const parsed = AcpQueueReorderSchema.parse(args);
+      return acpSessionManager.reorderQueue(parsed.sessionKey, parsed.itemId, parsed.toIndex);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          error: `Validation error: ${error.errors.map((e) => e.message).join(', ')}`,
+        };
+      }
+      return { success: false, error: error.message || 'Unknown error' };
+    }
+  });
+
+  // -------------------------------------------------------------------------
+  // acp:editQueuedPrompt — Replace the text of a queued prompt
+  // -------------------------------------------------------------------------
+  ipcMain.handle('acp:editQueuedPrompt', async (_event, args: unknown) => {
+    try {
+      const parsed = AcpQueueEditSchema.parse(args);
+      return acpSessionManager.editQueuedPrompt(parsed.sessionKey, parsed.itemId, parsed.message);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          error: `Validation error: ${error.errors.map((e) => e.message).join(', ')}`,
+        };
+      }
+      return { success: false, error: error.message || 'Unknown error' };
+    }
+  });
+
+  // -------------------------------------------------------------------------
+  // acp:removeQueuedPrompt — Drop a queued prompt
+  // -------------------------------------------------------------------------
+  ipcMain.handle('acp:removeQueuedPrompt', async (_event, args: unknown) => {
+    try {
+      const parsed = AcpQueueItemSchema.parse(args);
+      return acpSessionManager.removeQueuedPrompt(parsed.sessionKey, parsed.itemId);
     } catch (error: any) {
       if (error instanceof z.ZodError) {
         return {
@@ -258,6 +433,107 @@ export function registerAcpIpc(): void {
     }
   });
 
+  // -------------------------------------------------------------------------
+  // acp:setReviewWrites — Stage agent file writes for review
+  // -------------------------------------------------------------------------
+  ipcMain.handle('acp:setReviewWrites', async (_event, args: unknown) => {
+    try {
+      const parsed = AcpReviewWritesSchema.parse(args);
+      return acpSessionManager.setReviewWrites(parsed.sessionKey, parsed.enabled);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          error: `Validation error: ${error.errors.map((e) => e.message).join(', ')}`,
+        };
+      }
+      return { success: false, error: error.message || 'Unknown error' };
+    }
+  });
+
+  // -------------------------------------------------------------------------
+  // acp:resolveWrite — Accept or reject a staged file write
+  // -------------------------------------------------------------------------
+  ipcMain.handle('acp:resolveWrite', async (_event, args: unknown) => {
+    try {
+      const parsed = AcpResolveWriteSchema.parse(args);
+      return await acpSessionManager.resolveWrite(parsed.sessionKey, parsed.writeId, parsed.accept);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          error: `Validation error: ${error.errors.map((e) => e.message).join(', ')}`,
+        };
+      }
+      return { success: false, error: error.message || 'Unknown error' };
+    }
+  });
+
+  // -------------------------------------------------------------------------
+  // acp:listCheckpoints — Per-turn worktree checkpoints for a conversation
+  // -------------------------------------------------------------------------
+  ipcMain.handle('acp:listCheckpoints', async (_event, args: unknown) => {
+    try {
+      const parsed = AcpListCheckpointsSchema.parse(args);
+      const checkpoints = await checkpointService.list(parsed.conversationId);
+      return {
+        success: true,
+        checkpoints: checkpoints.map((c) => ({
+          id: c.id,
+          messageId: c.messageId,
+          createdAt: c.createdAt,
+        })),
+      };
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          error: `Validation error: ${error.errors.map((e) => e.message).join(', ')}`,
+        };
+      }
+      log.error('acp:listCheckpoints failed', error);
+      return { success: false, error: error.message || 'Unknown error' };
+    }
+  });
+
+  // -------------------------------------------------------------------------
+  // acp:restoreCheckpoint — Roll files and conversation back to a turn
+  // -------------------------------------------------------------------------
+  ipcMain.handle('acp:restoreCheckpoint', async (_event, args: unknown) => {
+    try {
+      const parsed = AcpRestoreCheckpointSchema.parse(args);
+      return await acpSessionManager.restoreCheckpoint(parsed.checkpointId, parsed.sessionKey);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          error: `Validation error: ${error.errors.map((e) => e.message).join(', ')}`,
+        };
+      }
+      return { success: false, error: error.message || 'Unknown error' };
+    }
+  });
+
+  // -------------------------------------------------------------------------
+  // acp:listPermissionAudit — Permission decisions recorded for a task
+  // -------------------------------------------------------------------------
+  ipcMain.handle('acp:listPermissionAudit', async (_event, args: unknown) => {
+    try {
+      const parsed = AcpPermissionAuditSchema.parse(args);
+      const entries = await databaseService.getPermissionAudit(parsed.taskId);
+      return { success: true, entries };
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          error: `Validation error: ${error.errors.map((e) => e.message).join(', ')}`,
+        };
+      }
+      log.error('acp:listPermissionAudit failed', error);
+      return { success: false, error: error.message || 'Unknown error' };
+    }
+  });
+
   // -------------------------------------------------------------------------
   // acp:setMode — Set the session mode
   // -------------------------------------------------------------------------
@@ -386,4 +662,24 @@ export function registerAcpIpc(): void {
       return { success: false, error: error.message || 'Unknown error' };
     }
   });
+
+  // -------------------------------------------------------------------------
+  // acp:getUsageSummary — Token/cost ledger aggregated by task, project, provider or day
+  // -------------------------------------------------------------------------
+  ipcMain.handle('acp:getUsageSummary', async (_event, args: unknown) => {
+    try {
+      const parsed = AcpUsageSummarySchema.parse(args);
+      const rows = await databaseService.getUsageSummary(parsed.groupBy, parsed.since);
+      return { success: true, rows };
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          error: `Validation error: ${error.errors.map((e) => e.message).join(', ')}`,
+        };
+      }
+      log.error('acp:getUsageSummary failed', error);
+      return { success: false, error: error.message || 'Unknown error' };
+    }
+  });
 }
@@ -12,6 +12,10 @@ const UninstallSchema = z.object({
   agentId: z.string().min(1),
 });
 
+const AgentSchema = z.object({
+  agentId: z.string().min(1),
+});
+
 export function registerAcpRegistryIpc(): void {
   ipcMain.handle('acpRegistry:fetch', async () => {
     try {
@@ -64,4 +68,46 @@ export function registerAcpRegistryIpc(): void {
       return { success: false, error: error.message };
     }
   });
+
+  ipcMain.handle('acpRegistry:updates', async () => {
+    try {
+      const updates = await acpRegistryService.checkUpdates();
+      return { success: true, data: updates };
+    } catch (error: any) {
+      log.error('acpRegistry:updates failed', error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle('acpRegistry:upgrade', async (_event, args: unknown) => {
+    try {
+      const parsed = AgentSchema.parse(args);
+      return await acpRegistryService.upgradeAgent(parsed.agentId);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          error: `Validation error: ${error.errors.map((e) => e.message).join(', ')}`,
+        };
+      }
+      log.error('acpRegistry:upgrade failed', error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle('acpRegistry:rollback', async (_event, args: unknown) => {
+    try {
+      const parsed = AgentSchema.parse(args);
+      return await acpRegistryService.rollbackAgent(parsed.agentId);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return {
+          success: false,
+          error: `Validation error: ${error.errors.map((e) => e.message).join(', ')}`,
+        };
+      }
+      log.error('acpRegistry:rollback failed', error);
+      return { success: false, error: error.message };
+    }
+  });
 }
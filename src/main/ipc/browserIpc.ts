@@ -4,10 +4,13 @@ import { browserViewService } from '../services/browserViewService';
 export function registerBrowserIpc() {
   ipcMain.handle(
     'browser:view:show',
-    (_e, args: { x: number; y: number; width: number; height: number; url?: string }) => {
+    (
+      _e,
+      args: { x: number; y: number; width: number; height: number; url?: string; taskId?: string }
+    ) => {
       try {
-        const { x, y, width, height, url } = args || ({} as any);
-        browserViewService.show({ x, y, width, height }, url);
+        const { x, y, width, height, url, taskId } = args || ({} as any);
+        browserViewService.show({ x, y, width, height }, url, taskId);
         return { success: true };
       } catch (error) {
         return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
@@ -87,4 +90,33 @@ export function registerBrowserIpc() {
       return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
     }
   });
+
+  // Preview page output and screenshots, for attaching to agent chats
+  ipcMain.handle('browser:preview:getLogs', (_e, args: { taskId: string }) => {
+    try {
+      return {
+        success: true,
+        entries: browserViewService.getLogs(args.taskId),
+        url: browserViewService.getURL(),
+      };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  });
+  ipcMain.handle('browser:preview:clearLogs', (_e, args: { taskId: string }) => {
+    try {
+      browserViewService.clearLogs(args.taskId);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  });
+  ipcMain.handle('browser:preview:screenshot', async (_e, args: { taskId: string }) => {
+    try {
+      const dataUrl = await browserViewService.captureScreenshot(args.taskId);
+      return { success: true, dataUrl };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  });
 }
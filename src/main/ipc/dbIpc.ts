@@ -1,6 +1,9 @@
 import { ipcMain } from 'electron';
 import { log } from '../lib/logger';
 import { databaseService } from '../services/DatabaseService';
+import { checkpointService } from '../services/CheckpointService';
+import { browserViewService } from '../services/browserViewService';
+import { collectTaskPtys } from '../services/ptyManager';
 import fs from 'fs';
 import path from 'path';
 
@@ -206,6 +209,10 @@ export function registerDatabaseIpc() {
   ipcMain.handle('db:deleteTask', async (_, taskId: string) => {
     try {
       await databaseService.deleteTask(taskId);
+      browserViewService.clearLogs(taskId);
+      await collectTaskPtys(taskId).catch((err) => {
+        log.warn('Failed to collect terminals for deleted task:', err);
+      });
       return { success: true };
     } catch (error) {
       log.error('Failed to delete task:', error);
@@ -216,6 +223,15 @@ export function registerDatabaseIpc() {
   ipcMain.handle('db:archiveTask', async (_, taskId: string) => {
     try {
       await databaseService.archiveTask(taskId);
+      browserViewService.clearLogs(taskId);
+      // Checkpoints are only useful while the task is active — drop refs and rows
+      await checkpointService.pruneTask(taskId).catch((err) => {
+        log.warn('Failed to prune checkpoints for archived task:', err);
+      });
+      // Terminals kept alive by the PTY host would otherwise outlive the task
+      await collectTaskPtys(taskId).catch((err) => {
+        log.warn('Failed to collect terminals for archived task:', err);
+      });
       return { success: true };
     } catch (error) {
       log.error('Failed to archive task:', error);
@@ -423,7 +439,13 @@ export function registerDatabaseIpc() {
         provider,
         isMain,
         mode,
-      }: { taskId: string; title: string; provider?: string; isMain?: boolean; mode?: 'pty' | 'acp' }
+      }: {
+        taskId: string;
+        title: string;
+        provider?: string;
+        isMain?: boolean;
+        mode?: 'pty' | 'acp';
+      }
     ) => {
       try {
         const conversation = await databaseService.createConversation(
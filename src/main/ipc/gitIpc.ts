@@ -15,11 +15,31 @@ import {
   stageAllFiles as gitStageAllFiles,
   unstageFile as gitUnstageFile,
   revertFile as gitRevertFile,
+  getFileHunks as gitGetFileHunks,
+  applyHunks as gitApplyHunks,
+  getLog as gitGetLog,
+  getCommitDetail as gitGetCommitDetail,
+  getCommitFileDiff as gitGetCommitFileDiff,
+  getBlame as gitGetBlame,
+  runHistoryAction as gitRunHistoryAction,
 } from '../services/GitService';
 import type { RepoMapping } from '../services/GitService';
 import { gitQueue } from '../services/GitQueue';
+import { RemoteGitService } from '../services/RemoteGitService';
+import { sshService } from '../services/ssh/SshService';
+import { resolveRemoteConnectionId } from '../services/ssh/remoteProject';
+import { issueService } from '../services/issues';
+import { localMergeService } from '../services/LocalMergeService';
+import { conflictService } from '../services/ConflictService';
+import { verifyService } from '../services/verify/VerifyService';
+import type { VerifyGate } from '@shared/verify';
+import type { HunkAction, HunkSelection } from '@shared/diffHunks';
+import { isMergeStrategy, type MergeRequest, type MergeResult } from '@shared/merge';
+import type { UpdateFromBaseResult, UpdateStrategy } from '@shared/conflicts';
+import type { HistoryAction } from '@shared/gitHistory';
 
 const execFileAsync = promisify(execFile);
+const remoteGitService = new RemoteGitService(sshService);
 
 const GIT_STATUS_DEBOUNCE_MS = 500;
 const supportsRecursiveWatch = process.platform === 'darwin' || process.platform === 'win32';
@@ -133,6 +153,32 @@ export function registerGitIpc() {
     if (!fs.existsSync(taskPath)) throw new Error(`Path does not exist: ${taskPath}`);
   }
 
+  /**
+   * Apply the project's verify gate to a commit, PR or merge. `blocked` is the
+   * result to return instead of acting; `warning` goes along with a success.
+   */
+  async function checkVerifyGate(taskPath: string): Promise<{
+    blocked?: { success: false; error: string; verifyGate: VerifyGate };
+    warning?: string;
+  }> {
+    let gate: VerifyGate;
+    try {
+      gate = await verifyService.checkGate(taskPath);
+    } catch (error) {
+      // Without the project's gate mode, a block-mode project must not slip through
+      log.warn('Failed to check verify gate:', error);
+      const message = 'Could not check verification for this task';
+      const unknown: VerifyGate = { state: 'failed', mode: 'block', message };
+      return { blocked: { success: false, error: message, verifyGate: unknown } };
+    }
+    if (gate.state === 'ok' || gate.mode === 'off') return {};
+    const message = gate.message ?? 'Verification has not passed';
+    if (gate.mode === 'block') {
+      return { blocked: { success: false, error: message, verifyGate: gate } };
+    }
+    return { warning: message };
+  }
+
   function resolveGitBin(): string {
     // Allow override via env
     const fromEnv = (process.env.GIT_PATH || '').trim();
@@ -263,6 +309,150 @@ export function registerGitIpc() {
       }
     }
   );
+
+  // Git: Unstaged and staged hunks of a file
+  ipcMain.handle(
+    'git:get-file-hunks',
+    async (_, args: { taskPath: string; filePath: string; repoCwd?: string }) => {
+      try {
+        const cwd = args.repoCwd || args.taskPath;
+        const connectionId = await resolveRemoteConnectionId(cwd);
+        const hunks = connectionId
+          ? await remoteGitService.getFileHunks(connectionId, cwd, args.filePath)
+          : await gitGetFileHunks(cwd, args.filePath);
+        return { success: true, hunks };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+  );
+
+  // Git: Stage, unstage or discard selected hunks or lines of a file
+  ipcMain.handle(
+    'git:apply-hunks',
+    async (
+      _,
+      args: {
+        taskPath: string;
+        filePath: string;
+        repoCwd?: string;
+        action: HunkAction;
+        selections: HunkSelection[];
+      }
+    ) => {
+      try {
+        const cwd = args.repoCwd || args.taskPath;
+        log.info('Applying hunks:', {
+          cwd,
+          filePath: args.filePath,
+          action: args.action,
+          hunks: args.selections.length,
+        });
+        const connectionId = await resolveRemoteConnectionId(cwd);
+        if (connectionId) {
+          await remoteGitService.applyHunks(
+            connectionId,
+            cwd,
+            args.filePath,
+            args.action,
+            args.selections
+          );
+        } else {
+          await gitApplyHunks(cwd, args.filePath, args.action, args.selections);
+        }
+        return { success: true };
+      } catch (error) {
+        log.error('Failed to apply hunks:', { filePath: args.filePath, error });
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+  );
+  // Git: Commits of the task branch and its base, for the history graph
+  ipcMain.handle('git:get-log', async (_, args: { taskPath: string; limit?: number }) => {
+    try {
+      const bases = await localMergeService
+        .resolveTarget(args.taskPath)
+        .then(({ target, remote }) => (remote ? [`${remote}/${target}`, target] : [target]))
+        .catch(() => [] as string[]);
+      const connectionId = await resolveRemoteConnectionId(args.taskPath);
+      const log = connectionId
+        ? await remoteGitService.getLog(connectionId, args.taskPath, bases, args.limit)
+        : await gitGetLog(args.taskPath, bases, args.limit);
+      return { success: true, log };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  // Git: Message and changed files of a commit
+  ipcMain.handle('git:get-commit', async (_, args: { taskPath: string; sha: string }) => {
+    try {
+      const connectionId = await resolveRemoteConnectionId(args.taskPath);
+      const commit = connectionId
+        ? await remoteGitService.getCommitDetail(connectionId, args.taskPath, args.sha)
+        : await gitGetCommitDetail(args.taskPath, args.sha);
+      return { success: true, commit };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  // Git: Diff of one file in a commit
+  ipcMain.handle(
+    'git:get-commit-file-diff',
+    async (_, args: { taskPath: string; sha: string; filePath: string; oldPath?: string }) => {
+      try {
+        const connectionId = await resolveRemoteConnectionId(args.taskPath);
+        const diff = connectionId
+          ? await remoteGitService.getCommitFileDiff(
+              connectionId,
+              args.taskPath,
+              args.sha,
+              args.filePath,
+              args.oldPath
+            )
+          : await gitGetCommitFileDiff(args.taskPath, args.sha, args.filePath, args.oldPath);
+        return { success: true, diff };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+  );
+
+  // Git: Last commit of every line of a file
+  ipcMain.handle('git:get-blame', async (_, args: { taskPath: string; filePath: string }) => {
+    try {
+      const connectionId = await resolveRemoteConnectionId(args.taskPath);
+      const blame = connectionId
+        ? await remoteGitService.getBlame(connectionId, args.taskPath, args.filePath)
+        : await gitGetBlame(args.taskPath, args.filePath);
+      return { success: true, blame };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  // Git: Revert or cherry-pick a commit, or reset the task branch to it
+  ipcMain.handle(
+    'git:history-action',
+    async (_, args: { taskPath: string; action: HistoryAction }) => {
+      try {
+        log.info('Running history action:', { taskPath: args.taskPath, action: args.action });
+        const connectionId = await resolveRemoteConnectionId(args.taskPath);
+        if (connectionId) {
+          await remoteGitService.runHistoryAction(connectionId, args.taskPath, args.action);
+        } else {
+          await gitRunHistoryAction(args.taskPath, args.action);
+        }
+        broadcastGitStatusChange(args.taskPath);
+        return { success: true };
+      } catch (error) {
+        log.error('Failed to run history action:', { action: args?.action, error });
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+  );
+
   // Git: Create Pull Request via GitHub CLI
   ipcMain.handle(
     'git:create-pr',
@@ -293,6 +483,8 @@ export function registerGitIpc() {
         });
       try {
         validateTaskPath(taskPath);
+        const verifyGate = await checkVerifyGate(taskPath);
+        if (verifyGate.blocked) return verifyGate.blocked;
         const outputs: string[] = [];
 
         // Stage, commit, and push under the queue lock to prevent concurrent git operations
@@ -507,7 +699,9 @@ current branch '${currentBranch}' ahead of base '${baseRef}'.`,
         const urlMatch = out.match(/https?:\/\/\S+/);
         const url = urlMatch ? urlMatch[0] : null;
 
-        return { success: true, url, output: out };
+        if (url) void issueService.notifyPrEvent(taskPath, 'opened', url);
+
+        return { success: true, url, output: out, verifyWarning: verifyGate.warning };
       } catch (error: any) {
         // Capture rich error info from gh/child_process
         const errMsg = typeof error?.message === 'string' ? error.message : String(error);
@@ -820,6 +1014,8 @@ current branch '${currentBranch}' ahead of base '${baseRef}'.`,
 
       try {
         validateTaskPath(taskPath);
+        const verifyGate = await checkVerifyGate(taskPath);
+        if (verifyGate.blocked) return verifyGate.blocked;
         // Ensure we're in a git repo
         await execFileAsync(GIT, ['rev-parse', '--is-inside-work-tree'], { cwd: taskPath });
 
@@ -934,7 +1130,12 @@ current branch '${currentBranch}' ahead of base '${baseRef}'.`,
           }
 
           const { stdout: out } = await execFileAsync(GIT, ['status', '-sb'], { cwd: taskPath });
-          return { success: true, branch: activeBranch, output: (out || '').trim() };
+          return {
+            success: true,
+            branch: activeBranch,
+            output: (out || '').trim(),
+            verifyWarning: verifyGate.warning,
+          };
         });
       } catch (error) {
         log.error('Failed to commit and push:', error);
@@ -1162,26 +1363,56 @@ current branch '${currentBranch}' ahead of base '${baseRef}'.`,
     }
   );
 
-  // Git: Merge current branch to main via GitHub (create PR + merge immediately)
-  ipcMain.handle('git:merge-to-main', async (_, args: { taskPath: string }) => {
-    const { taskPath } = args || ({} as { taskPath: string });
+  // Git: What landing the task on its base branch involves, for the merge dialog
+  ipcMain.handle('git:merge-preview', async (_, args: { taskPath: string }) => {
+    try {
+      validateTaskPath(args?.taskPath);
+      const preview = await localMergeService.preview(args.taskPath);
+      return { success: true, preview };
+    } catch (e) {
+      log.error('Failed to preview merge:', e);
+      return { success: false, error: (e as { message?: string })?.message || String(e) };
+    }
+  });
+
+  // Git: Land the task on the project's base branch, locally or via a GitHub PR
+  ipcMain.handle('git:merge-to-main', async (_, args: MergeRequest): Promise<MergeResult> => {
+    const { taskPath } = args || ({} as MergeRequest);
 
     try {
       validateTaskPath(taskPath);
-      // Get current and default branch names
+      const verifyGate = await checkVerifyGate(taskPath);
+      if (verifyGate.blocked) return verifyGate.blocked;
+
+      // Only a request without a strategy needs the project's default
+      const strategy = isMergeStrategy(args.strategy)
+        ? args.strategy
+        : await localMergeService
+            .resolveTarget(taskPath)
+            .then((resolved) => resolved.strategy)
+            .catch(() => 'pull-request' as const);
+      if (strategy !== 'pull-request') {
+        const result = await localMergeService.merge({ ...args, strategy });
+        if (result.success) {
+          void issueService.notifyPrEvent(taskPath, 'merged', null);
+          return { ...result, verifyWarning: verifyGate.warning };
+        }
+        return result;
+      }
+
       const { stdout: currentOut } = await execFileAsync(GIT, ['branch', '--show-current'], {
         cwd: taskPath,
       });
       const currentBranch = (currentOut || '').trim();
 
-      let defaultBranch = 'main';
+      let baseBranch = 'main';
       try {
         const { stdout } = await execFileAsync(
           'gh',
           ['repo', 'view', '--json', 'defaultBranchRef', '-q', '.defaultBranchRef.name'],
           { cwd: taskPath }
         );
-        if (stdout?.trim()) defaultBranch = stdout.trim();
+        if (stdout?.trim()) baseBranch = stdout.trim();
       } catch {
         // gh not available or not a GitHub repo - fall back to 'main'
       }
@@ -1190,10 +1421,10 @@ current branch '${currentBranch}' ahead of base '${baseRef}'.`,
       if (!currentBranch) {
         return { success: false, error: 'Not on a branch (detached HEAD state).' };
       }
-      if (currentBranch === defaultBranch) {
+      if (currentBranch === baseBranch) {
         return {
           success: false,
-          error: `Already on ${defaultBranch}. Create a feature branch first.`,
+          error: `Already on ${baseBranch}. Create a feature branch first.`,
         };
       }
 
@@ -1206,7 +1437,7 @@ current branch '${currentBranch}' ahead of base '${baseRef}'.`,
       if (statusOut?.trim()) {
         await execFileAsync(GIT, ['add', '-A'], { cwd: taskPath });
         try {
-          await execFileAsync(GIT, ['commit', '-m', 'chore: prepare for merge to main'], {
+          await execFileAsync(GIT, ['commit', '-m', args.message?.trim() || currentBranch], {
             cwd: taskPath,
           });
         } catch (e) {
@@ -1230,7 +1461,7 @@ current branch '${currentBranch}' ahead of base '${baseRef}'.`,
       try {
         const { stdout: prOut } = await execFileAsync(
           'gh',
-          ['pr', 'create', '--fill', '--base', defaultBranch],
+          ['pr', 'create', '--fill', '--base', baseBranch],
           { cwd: taskPath }
         );
         const urlMatch = prOut?.match(/https?:\/\/\S+/);
@@ -1246,7 +1477,14 @@ current branch '${currentBranch}' ahead of base '${baseRef}'.`,
       // Merge PR (branch cleanup happens when workspace is deleted)
       try {
         await execFileAsync('gh', ['pr', 'merge', '--merge'], { cwd: taskPath });
-        return { success: true, prUrl };
+        void issueService.notifyPrEvent(taskPath, 'merged', prUrl || null);
+        return {
+          success: true,
+          strategy,
+          prUrl,
+          pushed: true,
+          verifyWarning: verifyGate.warning,
+        };
       } catch (e) {
         const errMsg = (e as { stderr?: string })?.stderr || String(e);
         return { success: false, error: `PR created but merge failed: ${errMsg}`, prUrl };
@@ -1257,6 +1495,92 @@ current branch '${currentBranch}' ahead of base '${baseRef}'.`,
     }
   });
 
+  // Git: How far the task is behind its base, and any update stopped on conflicts
+  ipcMain.handle('git:base-sync-status', async (_, args: { taskPath: string }) => {
+    try {
+      validateTaskPath(args?.taskPath);
+      const status = await conflictService.status(args.taskPath);
+      return { success: true, status };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  // Git: Rebase the task onto its base or merge the base into it
+  ipcMain.handle(
+    'git:update-from-base',
+    async (
+      _,
+      args: { taskPath: string; strategy: UpdateStrategy }
+    ): Promise<UpdateFromBaseResult> => {
+      try {
+        validateTaskPath(args?.taskPath);
+        return await conflictService.updateFromBase(
+          args.taskPath,
+          args.strategy === 'merge' ? 'merge' : 'rebase'
+        );
+      } catch (error) {
+        log.error('Failed to update from base:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+  );
+
+  // Git: Base, ours, theirs and current content of a conflicted file
+  ipcMain.handle(
+    'git:get-conflict-file',
+    async (_, args: { taskPath: string; filePath: string }) => {
+      try {
+        validateTaskPath(args?.taskPath);
+        const file = await conflictService.getFile(args.taskPath, args.filePath);
+        return { success: true, file };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+  );
+
+  // Git: Save a conflict resolution and stage it (null content deletes the file)
+  ipcMain.handle(
+    'git:resolve-conflict',
+    async (_, args: { taskPath: string; filePath: string; content: string | null }) => {
+      try {
+        validateTaskPath(args?.taskPath);
+        await conflictService.resolveFile(args.taskPath, args.filePath, args.content);
+        return { success: true };
+      } catch (error) {
+        log.error('Failed to resolve conflict:', { filePath: args?.filePath, error });
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+  );
+
+  // Git: Continue the rebase or merge once conflicts are resolved
+  ipcMain.handle(
+    'git:continue-update',
+    async (_, args: { taskPath: string }): Promise<UpdateFromBaseResult> => {
+      try {
+        validateTaskPath(args?.taskPath);
+        return await conflictService.continue(args.taskPath);
+      } catch (error) {
+        log.error('Failed to continue update:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+  );
+
+  // Git: Abort the rebase or merge in progress
+  ipcMain.handle('git:abort-update', async (_, args: { taskPath: string }) => {
+    try {
+      validateTaskPath(args?.taskPath);
+      await conflictService.abort(args.taskPath);
+      return { success: true };
+    } catch (error) {
+      log.error('Failed to abort update:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
   // Git: Rename branch (local and optionally remote)
   ipcMain.handle(
     'git:rename-branch',
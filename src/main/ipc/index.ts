@@ -25,6 +25,7 @@ import { registerAcpRegistryIpc } from './acpRegistryIpc';
 import { registerModelMetadataIpc } from './modelMetadataIpc';
 import { registerMcpIpc } from './mcpIpc';
 import { registerWhisperIpc } from './whisperIpc';
+import { registerIssuesIpc } from './issuesIpc';
 
 export function registerAllIpc() {
   // Core app/utility IPC
@@ -43,6 +44,7 @@ export function registerAllIpc() {
   registerBrowserIpc();
   registerNetIpc();
   registerLineCommentsIpc();
+  registerIssuesIpc();
 
   // Existing modules
   registerPtyIpc();
@@ -0,0 +1,169 @@
+import { ipcMain } from 'electron';
+import { log } from '../lib/logger';
+import { issueService, jiraCredentialService, jiraIssueProvider } from '../services/issues';
+import type { JiraCredentials } from '../services/issues';
+import type { IssueProviderId } from '@shared/issues';
+
+export function registerIssuesIpc() {
+  ipcMain.handle('issues:getProviders', async (_, args: { projectPath: string }) => {
+    try {
+      const providers = await issueService.getAvailableProviders(args.projectPath);
+      return { success: true, providers };
+    } catch (error) {
+      log.error('Failed to get issue providers:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(
+    'issues:search',
+    async (
+      _,
+      args: { provider: IssueProviderId; projectPath: string; searchTerm?: string; limit?: number }
+    ) => {
+      try {
+        const issues = await issueService.search(
+          args.provider,
+          args.projectPath,
+          args.searchTerm ?? '',
+          args.limit
+        );
+        return { success: true, issues };
+      } catch (error) {
+        log.error('Failed to search issues:', error);
+        return { success: false, error: (error as Error).message };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    'issues:get',
+    async (_, args: { provider: IssueProviderId; projectPath: string; key: string }) => {
+      try {
+        const issue = await issueService.get(args.provider, args.projectPath, args.key);
+        return { success: true, issue };
+      } catch (error) {
+        log.error('Failed to get issue:', error);
+        return { success: false, error: (error as Error).message };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    'issues:link',
+    async (
+      _,
+      args: { taskId: string; provider: IssueProviderId; projectPath: string; key: string }
+    ) => {
+      try {
+        const issue = await issueService.linkToTask(
+          args.taskId,
+          args.provider,
+          args.projectPath,
+          args.key
+        );
+        return { success: true, issue };
+      } catch (error) {
+        log.error('Failed to link issue:', error);
+        return { success: false, error: (error as Error).message };
+      }
+    }
+  );
+
+  // GitHub issues
+  ipcMain.handle('github:issues:list', async (_, projectPath: string, limit?: number) => {
+    try {
+      const issues = await issueService.list('github', projectPath, limit);
+      return { success: true, issues };
+    } catch (error) {
+      log.error('Failed to list GitHub issues:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle(
+    'github:issues:search',
+    async (_, projectPath: string, searchTerm: string, limit?: number) => {
+      try {
+        const issues = await issueService.search('github', projectPath, searchTerm, limit);
+        return { success: true, issues };
+      } catch (error) {
+        log.error('Failed to search GitHub issues:', error);
+        return { success: false, error: (error as Error).message };
+      }
+    }
+  );
+
+  ipcMain.handle('github:issue:get', async (_, projectPath: string, number: number) => {
+    try {
+      const issue = await issueService.get('github', projectPath, String(number));
+      return { success: true, issue };
+    } catch (error) {
+      log.error('Failed to get GitHub issue:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  // Jira
+  ipcMain.handle('jira:saveCredentials', async (_, args: JiraCredentials) => {
+    try {
+      const credentials = {
+        siteUrl: String(args?.siteUrl ?? '')
+          .trim()
+          .replace(/\/+$/, ''),
+        email: String(args?.email ?? '').trim(),
+        token: String(args?.token ?? '').trim(),
+      };
+      if (!/^https?:\/\//.test(credentials.siteUrl) || !credentials.email || !credentials.token) {
+        return { success: false, error: 'Site URL, email and API token are required.' };
+      }
+      const displayName = await jiraIssueProvider.checkConnection(credentials);
+      await jiraCredentialService.store(credentials);
+      return { success: true, displayName };
+    } catch (error) {
+      log.error('Failed to save Jira credentials:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('jira:clearCredentials', async () => {
+    try {
+      await jiraCredentialService.clear();
+      return { success: true };
+    } catch (error) {
+      log.error('Failed to clear Jira credentials:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('jira:checkConnection', async () => {
+    const credentials = await jiraCredentialService.get();
+    if (!credentials) return { connected: false };
+    try {
+      const displayName = await jiraIssueProvider.checkConnection();
+      return { connected: true, displayName, siteUrl: credentials.siteUrl };
+    } catch (error) {
+      return { connected: false, siteUrl: credentials.siteUrl, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('jira:initialFetch', async (_, limit?: number) => {
+    try {
+      const issues = await issueService.list('jira', '', limit);
+      return { success: true, issues };
+    } catch (error) {
+      log.error('Failed to fetch Jira issues:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  ipcMain.handle('jira:searchIssues', async (_, searchTerm: string, limit?: number) => {
+    try {
+      const issues = await issueService.search('jira', '', searchTerm, limit);
+      return { success: true, issues };
+    } catch (error) {
+      log.error('Failed to search Jira issues:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+}
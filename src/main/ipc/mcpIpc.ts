@@ -1,12 +1,14 @@
 import { ipcMain } from 'electron';
 import { z } from 'zod';
 import { mcpConfigService } from '../services/McpConfigService';
+import { valkyrMcpServer } from '../services/mcp/ValkyrMcpServer';
 import { log } from '../lib/logger';
 
 const McpServerBaseSchema = z.object({
   id: z.string().min(1),
   name: z.string().min(1),
   enabled: z.boolean(),
+  disabledTools: z.array(z.string()).optional(),
 });
 
 const McpServerStdioSchema = McpServerBaseSchema.extend({
@@ -96,6 +98,26 @@ export function registerMcpIpc() {
     }
   });
 
+  ipcMain.handle('mcp:testServer', async (_event, args: unknown) => {
+    try {
+      const { server } = z.object({ server: McpServerSchema }).parse(args);
+      const data = await mcpConfigService.testServer(server);
+      return { success: true, data };
+    } catch (err: any) {
+      log.error('mcp:testServer failed:', err);
+      return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('mcp:getTaskProgress', async () => {
+    try {
+      return { success: true, data: valkyrMcpServer.getProgress() };
+    } catch (err: any) {
+      log.error('mcp:getTaskProgress failed:', err);
+      return { success: false, error: err.message };
+    }
+  });
+
   ipcMain.handle('mcp:searchRegistry', async (_event, args: unknown) => {
     try {
       const { query, limit, cursor } = z
@@ -1,10 +1,15 @@
 import { ipcMain } from 'electron';
 import { log } from '../lib/logger';
+import { isMergeStrategy, type MergeStrategy } from '@shared/merge';
 import { projectSettingsService } from '../services/ProjectSettingsService';
 import { worktreeService } from '../services/WorktreeService';
 
 type ProjectSettingsArgs = { projectId: string };
-type UpdateProjectSettingsArgs = { projectId: string; baseRef: string };
+type UpdateProjectSettingsArgs = {
+  projectId: string;
+  baseRef?: string;
+  mergeStrategy?: MergeStrategy | null;
+};
 
 const resolveProjectId = (input: ProjectSettingsArgs | string | undefined): string => {
   if (!input) return '';
@@ -36,18 +41,23 @@ export function registerProjectSettingsIpc() {
       try {
         const projectId = args?.projectId;
         const baseRef = args?.baseRef;
+        const mergeStrategy = args?.mergeStrategy;
         if (!projectId) {
           throw new Error('projectId is required');
         }
-        if (typeof baseRef !== 'string') {
+        if (typeof baseRef !== 'string' && mergeStrategy === undefined) {
           throw new Error('baseRef is required');
         }
-        const trimmed = baseRef.trim();
-        if (!trimmed) {
+        const trimmed = typeof baseRef === 'string' ? baseRef.trim() : undefined;
+        if (trimmed === '') {
           throw new Error('baseRef cannot be empty');
         }
+        if (mergeStrategy != null && !isMergeStrategy(mergeStrategy)) {
+          throw new Error(`Unknown merge strategy: ${mergeStrategy}`);
+        }
         const settings = await projectSettingsService.updateProjectSettings(projectId, {
           baseRef: trimmed,
+          mergeStrategy,
         });
         return { success: true, settings };
       } catch (error) {
@@ -1,6 +1,7 @@
 import { ipcMain } from 'electron';
 import { AppSettings, getAppSettings, updateAppSettings } from '../settings';
 import { log } from '../lib/logger';
+import { customAgentService } from '../services/CustomAgentService';
 
 const KEYTAR_SERVICE = 'valkyr-provider-keys';
 
@@ -17,26 +18,35 @@ export function registerSettingsIpc() {
   ipcMain.handle('settings:update', async (_, partial: Partial<AppSettings>) => {
     try {
       const settings = updateAppSettings(partial || {});
+      if (partial?.customAgents) await customAgentService.refresh();
       return { success: true, settings };
     } catch (error) {
       return { success: false, error: (error as Error).message };
     }
   });
 
+  // Custom agents from settings plus the project's .valkyr.json
+  ipcMain.handle('customAgents:list', async (_, args?: { projectPath?: string }) => {
+    try {
+      const agents = await customAgentService.refresh(args?.projectPath);
+      return { success: true, agents };
+    } catch (error) {
+      log.error('customAgents:list failed', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
   // Provider API key management via keytar
-  ipcMain.handle(
-    'providerKeys:set',
-    async (_, args: { envVar: string; value: string }) => {
-      try {
-        const keytar = await import('keytar');
-        await keytar.setPassword(KEYTAR_SERVICE, args.envVar, args.value);
-        return { success: true };
-      } catch (error) {
-        log.error('Failed to store provider key', error);
-        return { success: false, error: (error as Error).message };
-      }
+  ipcMain.handle('providerKeys:set', async (_, args: { envVar: string; value: string }) => {
+    try {
+      const keytar = await import('keytar');
+      await keytar.setPassword(KEYTAR_SERVICE, args.envVar, args.value);
+      return { success: true };
+    } catch (error) {
+      log.error('Failed to store provider key', error);
+      return { success: false, error: (error as Error).message };
     }
-  );
+  });
 
   ipcMain.handle('providerKeys:get', async (_, args: { envVar: string }) => {
     try {
@@ -33,6 +33,36 @@ export function registerSkillsIpc(): void {
     }
   });
 
+  ipcMain.handle('skills:update', async (_, args: { skillId: string }) => {
+    try {
+      const skill = await skillsService.updateSkill(args.skillId);
+      return { success: true, data: skill };
+    } catch (error) {
+      log.error('Failed to update skill:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  ipcMain.handle('skills:checkUpdates', async () => {
+    try {
+      const updates = await skillsService.checkUpdates();
+      return { success: true, data: updates };
+    } catch (error) {
+      log.error('Failed to check skill updates:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+  ipcMain.handle('skills:getProjectSkills', async (_, args: { projectPath: string }) => {
+    try {
+      const skills = await skillsService.getProjectSkills(args.projectPath);
+      return { success: true, data: skills };
+    } catch (error) {
+      log.error('Failed to get project skills:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
   ipcMain.handle('skills:uninstall', async (_, args: { skillId: string }) => {
     try {
       await skillsService.uninstallSkill(args.skillId);
@@ -5,6 +5,7 @@ import { sshService } from '../services/ssh/SshService';
 import { SshCredentialService } from '../services/ssh/SshCredentialService';
 import { SshHostKeyService } from '../services/ssh/SshHostKeyService';
 import { SshConnectionMonitor } from '../services/ssh/SshConnectionMonitor';
+import { sshPortForwardService } from '../services/ssh/SshPortForwardService';
 import { getDrizzleClient } from '../db/drizzleClient';
 import { sshConnections as sshConnectionsTable, type SshConnectionInsert } from '../db/schema';
 import { eq, desc } from 'drizzle-orm';
@@ -110,6 +111,15 @@ export function registerSshIpc() {
       monitor.updateState(connectionId, 'error', err.message);
     }
   });
+  // Dev-server forwards for remote tasks cannot outlive their connection
+  monitor.on('stateChange', (connectionId: string, state: ConnectionState) => {
+    if (state === 'disconnected' || state === 'error') {
+      sshPortForwardService.closeConnection(connectionId);
+    }
+  });
+  sshService.on('disconnected', (connectionId: string) => {
+    sshPortForwardService.closeConnection(connectionId);
+  });
   // Test connection
   ipcMain.handle(
     SSH_IPC_CHANNELS.TEST_CONNECTION,
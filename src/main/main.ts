@@ -123,6 +123,7 @@ process.on('unhandledRejection', (reason: unknown) => {
 import { createMainWindow } from './app/window';
 import { registerAppLifecycle } from './app/lifecycle';
 import { registerAllIpc } from './ipc';
+import { customAgentService } from './services/CustomAgentService';
 import { databaseService } from './services/DatabaseService';
 import { autoUpdateService } from './services/AutoUpdateService';
 import { worktreePoolService } from './services/WorktreePoolService';
@@ -130,6 +131,7 @@ import { warmAcpSdk, acpSessionManager } from './services/AcpSessionManager';
 import { acpRegistryService } from './services/AcpRegistryService';
 import { sshService } from './services/ssh/SshService';
 import { taskLifecycleService } from './services/TaskLifecycleService';
+import { collectOrphanedPtys } from './services/ptyManager';
 import * as telemetry from './telemetry';
 import { errorTracking } from './errorTracking';
 import { join } from 'path';
@@ -221,6 +223,9 @@ app.whenReady().then(async () => {
   // Register IPC handlers before window creation so renderer can call them immediately
   registerAllIpc();
 
+  // Publish custom agents from settings before the renderer lists providers
+  customAgentService.refresh().catch(() => {});
+
   // Create main window as early as possible for fast perceived startup
   createMainWindow();
 
@@ -280,6 +285,14 @@ app.whenReady().then(async () => {
     console.warn('Failed to cleanup orphaned reserves:', error);
   });
 
+  // Kill terminals the PTY host kept running for tasks removed while the app was closed.
+  // Skipped without a database, where every task would look removed.
+  if (dbInitOk) {
+    collectOrphanedPtys().catch((error) => {
+      console.warn('Failed to collect orphaned terminals:', error);
+    });
+  }
+
   // Remove stale Git lock files left by interrupted operations
   import('./services/GitService').then(({ cleanupStaleLockFiles }) => {
     cleanupStaleLockFiles().catch((error) => {
@@ -1,10 +1,25 @@
 import { contextBridge, ipcRenderer } from 'electron';
 import type { TerminalSnapshotPayload } from './types/terminalSnapshot';
 import type { OpenInAppId } from '../shared/openInApps';
+import type {
+  PickWinnerResult,
+  VariantComparison,
+  VariantRef,
+  WinnerStrategy,
+} from '../shared/variants';
+import type { IssueProviderId } from '../shared/issues';
+import type { VerifyGate, VerifyRun } from '../shared/verify';
+import type { PreviewLogEntry } from '../shared/previewLogs';
+import type { HunkAction, HunkSelection } from '../shared/diffHunks';
+import type { MergeRequest, MergeStrategy } from '../shared/merge';
+import type { UpdateStrategy } from '../shared/conflicts';
+import type { HistoryAction } from '../shared/gitHistory';
 
 // Keep preload self-contained: sandboxed preload cannot reliably require local runtime modules.
 const LIFECYCLE_EVENT_CHANNEL = 'lifecycle:event';
 const GIT_STATUS_CHANGED_CHANNEL = 'git:status-changed';
+const TASK_PROGRESS_CHANNEL = 'valkyrMcp:progress';
+const TASK_SPAWNED_CHANNEL = 'valkyrMcp:taskSpawned';
 
 const gitStatusChangedListeners = new Set<(data: { taskPath: string; error?: string }) => void>();
 let gitStatusBridgeAttached = false;
@@ -139,12 +154,9 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Provider API key management
   setProviderKey: (args: { envVar: string; value: string }) =>
     ipcRenderer.invoke('providerKeys:set', args),
-  getProviderKey: (args: { envVar: string }) =>
-    ipcRenderer.invoke('providerKeys:get', args),
-  deleteProviderKey: (args: { envVar: string }) =>
-    ipcRenderer.invoke('providerKeys:delete', args),
-  listProviderKeys: () =>
-    ipcRenderer.invoke('providerKeys:list'),
+  getProviderKey: (args: { envVar: string }) => ipcRenderer.invoke('providerKeys:get', args),
+  deleteProviderKey: (args: { envVar: string }) => ipcRenderer.invoke('providerKeys:delete', args),
+  listProviderKeys: () => ipcRenderer.invoke('providerKeys:list'),
 
   // Whisper (voice input)
   whisperDownloadModel: () => ipcRenderer.invoke('whisper:download-model'),
@@ -178,6 +190,22 @@ contextBridge.exposeInMainWorld('electronAPI', {
   worktreeStatus: (args: { worktreePath: string }) => ipcRenderer.invoke('worktree:status', args),
   worktreeMerge: (args: { projectPath: string; worktreeId: string }) =>
     ipcRenderer.invoke('worktree:merge', args),
+  worktreeCompareVariants: (args: {
+    projectPath: string;
+    variants: VariantRef[];
+    baseRef?: string;
+  }) => ipcRenderer.invoke('worktree:compareVariants', args),
+  worktreeVariantFileDiff: (args: { variantPath: string; baseSha: string; filePath: string }) =>
+    ipcRenderer.invoke('worktree:variantFileDiff', args),
+  worktreePickWinner: (args: {
+    projectPath: string;
+    projectId: string;
+    taskName: string;
+    baseSha: string;
+    winner: VariantRef;
+    losers: VariantRef[];
+    strategy: WinnerStrategy;
+  }) => ipcRenderer.invoke('worktree:pickWinner', args),
   worktreeGet: (args: { worktreeId: string }) => ipcRenderer.invoke('worktree:get', args),
   worktreeGetAll: () => ipcRenderer.invoke('worktree:getAll'),
 
@@ -194,6 +222,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
   }) => ipcRenderer.invoke('worktree:claimReserve', args),
   worktreeRemoveReserve: (args: { projectId: string }) =>
     ipcRenderer.invoke('worktree:removeReserve', args),
+  worktreePoolMetrics: (args?: { projectId?: string }) =>
+    ipcRenderer.invoke('worktree:poolMetrics', args),
 
   // Multi-repo worktree management
   worktreeCreateMultiRepo: (args: {
@@ -220,15 +250,23 @@ contextBridge.exposeInMainWorld('electronAPI', {
   }) => ipcRenderer.invoke('worktree:removeMultiRepo', args),
 
   // Lifecycle scripts
-  lifecycleGetScript: (args: { projectPath: string; phase: 'setup' | 'run' | 'teardown' }) =>
-    ipcRenderer.invoke('lifecycle:getScript', args),
+  lifecycleGetScript: (args: {
+    projectPath: string;
+    phase: 'setup' | 'run' | 'teardown' | 'verify';
+  }) => ipcRenderer.invoke('lifecycle:getScript', args),
   lifecycleSetup: (args: { taskId: string; taskPath: string; projectPath: string }) =>
     ipcRenderer.invoke('lifecycle:setup', args),
   lifecycleRunStart: (args: { taskId: string; taskPath: string; projectPath: string }) =>
     ipcRenderer.invoke('lifecycle:run:start', args),
   lifecycleRunStop: (args: { taskId: string }) => ipcRenderer.invoke('lifecycle:run:stop', args),
+  lifecycleServiceRestart: (args: { taskId: string; service: string }) =>
+    ipcRenderer.invoke('lifecycle:service:restart', args),
   lifecycleTeardown: (args: { taskId: string; taskPath: string; projectPath: string }) =>
     ipcRenderer.invoke('lifecycle:teardown', args),
+  lifecycleVerify: (args: { taskId: string; taskPath: string; projectPath: string }) =>
+    ipcRenderer.invoke('lifecycle:verify', args),
+  lifecycleVerifyStatus: (args: { taskId: string; taskPath: string; projectPath: string }) =>
+    ipcRenderer.invoke('lifecycle:verify:status', args),
   lifecycleGetState: (args: { taskId: string }) => ipcRenderer.invoke('lifecycle:getState', args),
   lifecycleClearTask: (args: { taskId: string }) => ipcRenderer.invoke('lifecycle:clearTask', args),
   onLifecycleEvent: (listener: (data: any) => void) => {
@@ -273,8 +311,11 @@ contextBridge.exposeInMainWorld('electronAPI', {
   openProject: () => ipcRenderer.invoke('project:open'),
   getProjectSettings: (projectId: string) =>
     ipcRenderer.invoke('projectSettings:get', { projectId }),
-  updateProjectSettings: (args: { projectId: string; baseRef: string }) =>
-    ipcRenderer.invoke('projectSettings:update', args),
+  updateProjectSettings: (args: {
+    projectId: string;
+    baseRef?: string;
+    mergeStrategy?: MergeStrategy | null;
+  }) => ipcRenderer.invoke('projectSettings:update', args),
   fetchProjectBaseRef: (args: { projectId: string; projectPath: string }) =>
     ipcRenderer.invoke('projectSettings:fetchBaseRef', args),
   getGitInfo: (projectPath: string) => ipcRenderer.invoke('git:getInfo', projectPath),
@@ -314,6 +355,15 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('git:unstage-file', args),
   revertFile: (args: { taskPath: string; filePath: string; repoCwd?: string }) =>
     ipcRenderer.invoke('git:revert-file', args),
+  getFileHunks: (args: { taskPath: string; filePath: string; repoCwd?: string }) =>
+    ipcRenderer.invoke('git:get-file-hunks', args),
+  applyHunks: (args: {
+    taskPath: string;
+    filePath: string;
+    repoCwd?: string;
+    action: HunkAction;
+    selections: HunkSelection[];
+  }) => ipcRenderer.invoke('git:apply-hunks', args),
   gitCommitAndPush: (args: {
     taskPath: string;
     commitMessage?: string;
@@ -331,7 +381,32 @@ contextBridge.exposeInMainWorld('electronAPI', {
     web?: boolean;
     fill?: boolean;
   }) => ipcRenderer.invoke('git:create-pr', args),
-  mergeToMain: (args: { taskPath: string }) => ipcRenderer.invoke('git:merge-to-main', args),
+  mergePreview: (args: { taskPath: string }) => ipcRenderer.invoke('git:merge-preview', args),
+  mergeToMain: (args: MergeRequest) => ipcRenderer.invoke('git:merge-to-main', args),
+  getBaseSyncStatus: (args: { taskPath: string }) =>
+    ipcRenderer.invoke('git:base-sync-status', args),
+  updateFromBase: (args: { taskPath: string; strategy: UpdateStrategy }) =>
+    ipcRenderer.invoke('git:update-from-base', args),
+  getConflictFile: (args: { taskPath: string; filePath: string }) =>
+    ipcRenderer.invoke('git:get-conflict-file', args),
+  resolveConflict: (args: { taskPath: string; filePath: string; content: string | null }) =>
+    ipcRenderer.invoke('git:resolve-conflict', args),
+  continueUpdate: (args: { taskPath: string }) => ipcRenderer.invoke('git:continue-update', args),
+  abortUpdate: (args: { taskPath: string }) => ipcRenderer.invoke('git:abort-update', args),
+  getGitLog: (args: { taskPath: string; limit?: number }) =>
+    ipcRenderer.invoke('git:get-log', args),
+  getCommit: (args: { taskPath: string; sha: string }) =>
+    ipcRenderer.invoke('git:get-commit', args),
+  getCommitFileDiff: (args: {
+    taskPath: string;
+    sha: string;
+    filePath: string;
+    oldPath?: string;
+  }) => ipcRenderer.invoke('git:get-commit-file-diff', args),
+  getBlame: (args: { taskPath: string; filePath: string }) =>
+    ipcRenderer.invoke('git:get-blame', args),
+  runHistoryAction: (args: { taskPath: string; action: HistoryAction }) =>
+    ipcRenderer.invoke('git:history-action', args),
   getBranchStatus: (args: { taskPath: string }) =>
     ipcRenderer.invoke('git:get-branch-status', args),
   renameBranch: (args: { repoPath: string; oldBranch: string; newBranch: string }) =>
@@ -400,8 +475,13 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('db:cleanupSessionDirectory', args),
 
   // Multi-chat support
-  createConversation: (params: { taskId: string; title: string; provider?: string; isMain?: boolean; mode?: 'pty' | 'acp' }) =>
-    ipcRenderer.invoke('db:createConversation', params),
+  createConversation: (params: {
+    taskId: string;
+    title: string;
+    provider?: string;
+    isMain?: boolean;
+    mode?: 'pty' | 'acp';
+  }) => ipcRenderer.invoke('db:createConversation', params),
   setActiveConversation: (params: { taskId: string; conversationId: string }) =>
     ipcRenderer.invoke('db:setActiveConversation', params),
   getActiveConversation: (taskId: string) => ipcRenderer.invoke('db:getActiveConversation', taskId),
@@ -450,6 +530,37 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('lineComments:markSent', commentIds),
   lineCommentsGetUnsent: (taskId: string) => ipcRenderer.invoke('lineComments:getUnsent', taskId),
 
+  // Issue trackers
+  issuesGetProviders: (args: { projectPath: string }) =>
+    ipcRenderer.invoke('issues:getProviders', args),
+  issuesSearch: (args: {
+    provider: IssueProviderId;
+    projectPath: string;
+    searchTerm?: string;
+    limit?: number;
+  }) => ipcRenderer.invoke('issues:search', args),
+  issuesGet: (args: { provider: IssueProviderId; projectPath: string; key: string }) =>
+    ipcRenderer.invoke('issues:get', args),
+  issuesLink: (args: {
+    taskId: string;
+    provider: IssueProviderId;
+    projectPath: string;
+    key: string;
+  }) => ipcRenderer.invoke('issues:link', args),
+  githubIssuesList: (projectPath: string, limit?: number) =>
+    ipcRenderer.invoke('github:issues:list', projectPath, limit),
+  githubIssuesSearch: (projectPath: string, searchTerm: string, limit?: number) =>
+    ipcRenderer.invoke('github:issues:search', projectPath, searchTerm, limit),
+  githubIssueGet: (projectPath: string, number: number) =>
+    ipcRenderer.invoke('github:issue:get', projectPath, number),
+  jiraSaveCredentials: (args: { siteUrl: string; email: string; token: string }) =>
+    ipcRenderer.invoke('jira:saveCredentials', args),
+  jiraClearCredentials: () => ipcRenderer.invoke('jira:clearCredentials'),
+  jiraCheckConnection: () => ipcRenderer.invoke('jira:checkConnection'),
+  jiraInitialFetch: (limit?: number) => ipcRenderer.invoke('jira:initialFetch', limit),
+  jiraSearchIssues: (searchTerm: string, limit?: number) =>
+    ipcRenderer.invoke('jira:searchIssues', searchTerm, limit),
+
   // Debug helpers
   debugAppendLog: (filePath: string, content: string, options?: { reset?: boolean }) =>
     ipcRenderer.invoke('debug:append-log', filePath, content, options ?? {}),
@@ -482,9 +593,14 @@ contextBridge.exposeInMainWorld('electronAPI', {
   getProviderStatuses: (opts?: { refresh?: boolean; providers?: string[]; providerId?: string }) =>
     ipcRenderer.invoke('provider:getStatuses', opts) as Promise<{
       success: boolean;
-      statuses?: Record<string, { installed: boolean; path?: string | null; version?: string | null; lastChecked: number }>;
+      statuses?: Record<
+        string,
+        { installed: boolean; path?: string | null; version?: string | null; lastChecked: number }
+      >;
       error?: string;
     }>,
+  listCustomAgents: (args?: { projectPath?: string }) =>
+    ipcRenderer.invoke('customAgents:list', args),
 
   // Host preview (non-container)
   hostPreviewStart: (args: {
@@ -505,8 +621,11 @@ contextBridge.exposeInMainWorld('electronAPI', {
   },
 
   // Main-managed browser (WebContentsView)
-  browserShow: (bounds: { x: number; y: number; width: number; height: number }, url?: string) =>
-    ipcRenderer.invoke('browser:view:show', { ...bounds, url }),
+  browserShow: (
+    bounds: { x: number; y: number; width: number; height: number },
+    url?: string,
+    taskId?: string
+  ) => ipcRenderer.invoke('browser:view:show', { ...bounds, url, taskId }),
   browserHide: () => ipcRenderer.invoke('browser:view:hide'),
   browserSetBounds: (bounds: { x: number; y: number; width: number; height: number }) =>
     ipcRenderer.invoke('browser:view:setBounds', bounds),
@@ -517,6 +636,11 @@ contextBridge.exposeInMainWorld('electronAPI', {
   browserReload: () => ipcRenderer.invoke('browser:view:reload'),
   browserOpenDevTools: () => ipcRenderer.invoke('browser:view:openDevTools'),
   browserClear: () => ipcRenderer.invoke('browser:view:clear'),
+  browserGetLogs: (args: { taskId: string }) => ipcRenderer.invoke('browser:preview:getLogs', args),
+  browserClearLogs: (args: { taskId: string }) =>
+    ipcRenderer.invoke('browser:preview:clearLogs', args),
+  browserCaptureScreenshot: (args: { taskId: string }) =>
+    ipcRenderer.invoke('browser:preview:screenshot', args),
   onBrowserViewEvent: (listener: (data: any) => void) => {
     const channel = 'browser:view:event';
     const wrapped = (_: Electron.IpcRendererEvent, data: any) => listener(data);
@@ -617,6 +741,19 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('mcp:saveProjectServers', { projectPath, servers }),
   mcpDetectAgentServers: (args?: { projectPath?: string }) =>
     ipcRenderer.invoke('mcp:detectAgentServers', args ?? {}),
+  mcpTestServer: (server: any) => ipcRenderer.invoke('mcp:testServer', { server }),
+  mcpGetTaskProgress: () => ipcRenderer.invoke('mcp:getTaskProgress'),
+  onTaskProgress: (listener: (data: any) => void) => {
+    const wrapped = (_: Electron.IpcRendererEvent, data: any) => listener(data);
+    ipcRenderer.on(TASK_PROGRESS_CHANNEL, wrapped);
+    return () => ipcRenderer.removeListener(TASK_PROGRESS_CHANNEL, wrapped);
+  },
+  onTaskSpawned: (listener: (data: { projectId: string; taskId: string }) => void) => {
+    const wrapped = (_: Electron.IpcRendererEvent, data: { projectId: string; taskId: string }) =>
+      listener(data);
+    ipcRenderer.on(TASK_SPAWNED_CHANNEL, wrapped);
+    return () => ipcRenderer.removeListener(TASK_SPAWNED_CHANNEL, wrapped);
+  },
   mcpSearchRegistry: (args: { query: string; limit?: number; cursor?: string }) =>
     ipcRenderer.invoke('mcp:searchRegistry', args),
 
@@ -625,6 +762,10 @@ contextBridge.exposeInMainWorld('electronAPI', {
   skillsRefreshCatalog: () => ipcRenderer.invoke('skills:refreshCatalog'),
   skillsInstall: (args: { skillId: string }) => ipcRenderer.invoke('skills:install', args),
   skillsUninstall: (args: { skillId: string }) => ipcRenderer.invoke('skills:uninstall', args),
+  skillsUpdate: (args: { skillId: string }) => ipcRenderer.invoke('skills:update', args),
+  skillsCheckUpdates: () => ipcRenderer.invoke('skills:checkUpdates'),
+  skillsGetProjectSkills: (args: { projectPath: string }) =>
+    ipcRenderer.invoke('skills:getProjectSkills', args),
   skillsGetDetail: (args: { skillId: string }) => ipcRenderer.invoke('skills:getDetail', args),
   skillsGetDetectedAgents: () => ipcRenderer.invoke('skills:getDetectedAgents'),
   skillsCreate: (args: { name: string; description: string }) =>
@@ -674,6 +815,11 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('acpRegistry:install', args),
   acpRegistryUninstall: (args: { agentId: string }) =>
     ipcRenderer.invoke('acpRegistry:uninstall', args),
+  acpRegistryCheckUpdates: () => ipcRenderer.invoke('acpRegistry:updates'),
+  acpRegistryUpgrade: (args: { agentId: string }) =>
+    ipcRenderer.invoke('acpRegistry:upgrade', args),
+  acpRegistryRollback: (args: { agentId: string }) =>
+    ipcRenderer.invoke('acpRegistry:rollback', args),
 
   // ACP (Agent Communication Protocol) session management
   acpStart: (args: {
@@ -687,12 +833,36 @@ contextBridge.exposeInMainWorld('electronAPI', {
     sessionKey: string;
     message: string;
     files?: Array<{ url: string; mediaType: string; filename?: string }>;
+    messageId?: string;
   }) => ipcRenderer.invoke('acp:prompt', args),
+  acpQueuePrompt: (args: {
+    sessionKey: string;
+    message: string;
+    files?: Array<{ url: string; mediaType: string; filename?: string }>;
+    position?: number;
+  }) => ipcRenderer.invoke('acp:queuePrompt', args),
+  acpListQueue: (args: { sessionKey: string }) => ipcRenderer.invoke('acp:listQueue', args),
+  acpReorderQueue: (args: { sessionKey: string; itemId: string; toIndex: number }) =>
+    ipcRenderer.invoke('acp:reorderQueue', args),
+  acpEditQueuedPrompt: (args: { sessionKey: string; itemId: string; message: string }) =>
+    ipcRenderer.invoke('acp:editQueuedPrompt', args),
+  acpRemoveQueuedPrompt: (args: { sessionKey: string; itemId: string }) =>
+    ipcRenderer.invoke('acp:removeQueuedPrompt', args),
   acpCancel: (args: { sessionKey: string }) => ipcRenderer.invoke('acp:cancel', args),
   acpKill: (args: { sessionKey: string }) => ipcRenderer.invoke('acp:kill', args),
   acpDetach: (args: { sessionKey: string }) => ipcRenderer.invoke('acp:detach', args),
   acpApprove: (args: { sessionKey: string; toolCallId: string; optionId: string | null }) =>
     ipcRenderer.invoke('acp:approve', args),
+  acpListCheckpoints: (args: { conversationId: string }) =>
+    ipcRenderer.invoke('acp:listCheckpoints', args),
+  acpRestoreCheckpoint: (args: { checkpointId: string; sessionKey?: string }) =>
+    ipcRenderer.invoke('acp:restoreCheckpoint', args),
+  acpSetReviewWrites: (args: { sessionKey: string; enabled: boolean }) =>
+    ipcRenderer.invoke('acp:setReviewWrites', args),
+  acpResolveWrite: (args: { sessionKey: string; writeId: string; accept: boolean }) =>
+    ipcRenderer.invoke('acp:resolveWrite', args),
+  acpListPermissionAudit: (args: { taskId: string }) =>
+    ipcRenderer.invoke('acp:listPermissionAudit', args),
   acpSetMode: (args: { sessionKey: string; mode: string }) =>
     ipcRenderer.invoke('acp:setMode', args),
   acpSetModel: (args: { sessionKey: string; modelId: string }) =>
@@ -704,6 +874,10 @@ contextBridge.exposeInMainWorld('electronAPI', {
   acpExtMethod: (args: { sessionKey: string; method: string; params?: Record<string, unknown> }) =>
     ipcRenderer.invoke('acp:extMethod', args),
   acpGetClaudeUsageLimits: () => ipcRenderer.invoke('acp:getClaudeUsageLimits'),
+  acpGetUsageSummary: (args: {
+    groupBy: 'task' | 'project' | 'provider' | 'day';
+    since?: string;
+  }) => ipcRenderer.invoke('acp:getUsageSummary', args),
   onAcpUpdate: (sessionKey: string, listener: (event: any) => void) => {
     const channel = `acp:update:${sessionKey}`;
     const wrapped = (_: Electron.IpcRendererEvent, event: any) => listener(event);
@@ -770,7 +944,7 @@ export interface ElectronAPI {
     rows?: number;
     autoApprove?: boolean;
     initialPrompt?: string;
-  }) => Promise<{ ok: boolean; error?: string }>;
+  }) => Promise<{ ok: boolean; reused?: boolean; replay?: string; error?: string }>;
   ptyInput: (args: { id: string; data: string }) => void;
   ptyResize: (args: { id: string; cols: number; rows: number }) => void;
   ptyKill: (id: string) => void;
@@ -813,6 +987,25 @@ export interface ElectronAPI {
     projectPath: string;
     worktreeId: string;
   }) => Promise<{ success: boolean; error?: string }>;
+  worktreeCompareVariants: (args: {
+    projectPath: string;
+    variants: VariantRef[];
+    baseRef?: string;
+  }) => Promise<{ success: boolean; error?: string } & Partial<VariantComparison>>;
+  worktreeVariantFileDiff: (args: {
+    variantPath: string;
+    baseSha: string;
+    filePath: string;
+  }) => Promise<{ success: boolean; diff?: string; error?: string }>;
+  worktreePickWinner: (args: {
+    projectPath: string;
+    projectId: string;
+    taskName: string;
+    baseSha: string;
+    winner: VariantRef;
+    losers: VariantRef[];
+    strategy: WinnerStrategy;
+  }) => Promise<{ success: boolean; error?: string } & Partial<PickWinnerResult>>;
   worktreeGet: (args: {
     worktreeId: string;
   }) => Promise<{ success: boolean; worktree?: any; error?: string }>;
@@ -821,7 +1014,7 @@ export interface ElectronAPI {
   // Lifecycle scripts
   lifecycleGetScript: (args: {
     projectPath: string;
-    phase: 'setup' | 'run' | 'teardown';
+    phase: 'setup' | 'run' | 'teardown' | 'verify';
   }) => Promise<{ success: boolean; script?: string | null; error?: string }>;
   lifecycleSetup: (args: {
     taskId: string;
@@ -836,11 +1029,30 @@ export interface ElectronAPI {
   lifecycleRunStop: (args: {
     taskId: string;
   }) => Promise<{ success: boolean; skipped?: boolean; error?: string }>;
+  lifecycleServiceRestart: (args: {
+    taskId: string;
+    service: string;
+  }) => Promise<{ success: boolean; error?: string }>;
   lifecycleTeardown: (args: {
     taskId: string;
     taskPath: string;
     projectPath: string;
   }) => Promise<{ success: boolean; skipped?: boolean; error?: string }>;
+  lifecycleVerify: (args: {
+    taskId: string;
+    taskPath: string;
+    projectPath: string;
+  }) => Promise<{ success: boolean; skipped?: boolean; error?: string }>;
+  lifecycleVerifyStatus: (args: {
+    taskId: string;
+    taskPath: string;
+    projectPath: string;
+  }) => Promise<{
+    success: boolean;
+    run?: VerifyRun | null;
+    gate?: VerifyGate;
+    error?: string;
+  }>;
   lifecycleGetState: (args: { taskId: string }) => Promise<{
     success: boolean;
     state?: {
@@ -867,6 +1079,25 @@ export interface ElectronAPI {
         exitCode?: number | null;
         error?: string | null;
       };
+      verify: {
+        status: 'idle' | 'running' | 'succeeded' | 'failed';
+        startedAt?: string;
+        finishedAt?: string;
+        exitCode?: number | null;
+        error?: string | null;
+      };
+      services?: Array<{
+        name: string;
+        status: 'waiting' | 'starting' | 'ready' | 'stopped' | 'exited' | 'failed';
+        port: number;
+        pid?: number | null;
+        startedAt?: string;
+        readyAt?: string;
+        finishedAt?: string;
+        exitCode?: number | null;
+        error?: string | null;
+        restarts: number;
+      }>;
     };
     error?: string;
   }>;
@@ -929,7 +1160,14 @@ export interface ElectronAPI {
     commitMessage?: string;
     createBranchIfOnDefault?: boolean;
     branchPrefix?: string;
-  }) => Promise<{ success: boolean; branch?: string; output?: string; error?: string }>;
+  }) => Promise<{
+    success: boolean;
+    branch?: string;
+    output?: string;
+    error?: string;
+    verifyGate?: VerifyGate;
+    verifyWarning?: string;
+  }>;
   gitPush: (args: {
     repoPath: string;
   }) => Promise<{ success: boolean; branch?: string; error?: string }>;
@@ -942,7 +1180,14 @@ export interface ElectronAPI {
     draft?: boolean;
     web?: boolean;
     fill?: boolean;
-  }) => Promise<{ success: boolean; url?: string; output?: string; error?: string }>;
+  }) => Promise<{
+    success: boolean;
+    url?: string;
+    output?: string;
+    error?: string;
+    verifyGate?: VerifyGate;
+    verifyWarning?: string;
+  }>;
   // Filesystem helpers
   fsList: (
     root: string,
@@ -1043,7 +1288,8 @@ export interface ElectronAPI {
   // Main-managed browser (WebContentsView)
   browserShow: (
     bounds: { x: number; y: number; width: number; height: number },
-    url?: string
+    url?: string,
+    taskId?: string
   ) => Promise<{ ok: boolean }>;
   browserHide: () => Promise<{ ok: boolean }>;
   browserSetBounds: (bounds: {
@@ -1057,6 +1303,16 @@ export interface ElectronAPI {
   browserGoForward: () => Promise<{ ok: boolean }>;
   browserReload: () => Promise<{ ok: boolean }>;
   browserOpenDevTools: () => Promise<{ ok: boolean }>;
+  browserGetLogs: (args: { taskId: string }) => Promise<{
+    success: boolean;
+    entries?: PreviewLogEntry[];
+    url?: string | null;
+    error?: string;
+  }>;
+  browserClearLogs: (args: { taskId: string }) => Promise<{ success: boolean; error?: string }>;
+  browserCaptureScreenshot: (args: {
+    taskId: string;
+  }) => Promise<{ success: boolean; dataUrl?: string; error?: string }>;
   onBrowserViewEvent: (listener: (data: any) => void) => () => void;
 
   // TCP probe (no HTTP requests)
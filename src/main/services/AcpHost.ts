@@ -0,0 +1,161 @@
+/**
+ * Where an ACP agent runs: the local machine or the SSH host of a remote project.
+ *
+ * AcpSessionManager spawns agents and serves their fs and terminal requests
+ * through a host, so remote tasks share the local protocol handling while
+ * process I/O goes over an SSH exec channel and file access over SFTP.
+ */
+
+import { spawn } from 'child_process';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import type { Readable, Writable } from 'stream';
+import type { SshService } from './ssh/SshService';
+import { buildRemoteCommand, SshChannelProcess } from './ssh/SshChannelProcess';
+import { quoteShellArg } from '../utils/shellEscape';
+import {
+  resolveGuardedPath,
+  type PathAccess,
+  type PathGuardRoots,
+  type PathResolver,
+} from '../utils/pathGuard';
+
+/** The part of `ChildProcess` the session manager relies on. */
+export interface AcpProcess {
+  readonly stdin: Writable | null;
+  readonly stdout: Readable | null;
+  readonly stderr: Readable | null;
+  readonly killed: boolean;
+  kill(signal?: NodeJS.Signals): boolean;
+  on(
+    event: 'exit' | 'close',
+    listener: (code: number | null, signal: NodeJS.Signals | null) => void
+  ): this;
+  on(event: 'error', listener: (err: Error) => void): this;
+}
+
+export interface AcpSpawnOptions {
+  cwd: string;
+  env: Record<string, string>;
+  /** The agent speaks ACP over stdin; terminal commands get no input. */
+  stdin: 'pipe' | 'ignore';
+}
+
+export interface AcpHost {
+  /** SSH connection id for remote hosts, null for the local machine. */
+  readonly connectionId: string | null;
+  /** Path semantics of the host filesystem. */
+  readonly path: path.PlatformPath;
+  /**
+   * Start a process on the host. Returns synchronously so spawn errors,
+   * which are emitted asynchronously, always reach the caller's listeners.
+   */
+  spawn(command: string, args: string[], options: AcpSpawnOptions): AcpProcess;
+  /** Read a UTF-8 file. Rejects with `code: 'ENOENT'` when it does not exist. */
+  readTextFile(filePath: string): Promise<string>;
+  /** Write a UTF-8 file, creating parent directories as needed. */
+  writeTextFile(filePath: string, content: string): Promise<void>;
+  /** Resolve an agent-supplied path with the path guard, using the host's filesystem. */
+  resolvePath(requested: string, roots: PathGuardRoots, access: PathAccess): Promise<string>;
+}
+
+export class LocalAcpHost implements AcpHost {
+  readonly connectionId = null;
+  readonly path = path;
+
+  spawn(command: string, args: string[], options: AcpSpawnOptions): AcpProcess {
+    return spawn(command, args, {
+      cwd: options.cwd,
+      env: options.env,
+      stdio: [options.stdin, 'pipe', 'pipe'],
+    });
+  }
+
+  readTextFile(filePath: string): Promise<string> {
+    return fsp.readFile(filePath, 'utf-8');
+  }
+
+  async writeTextFile(filePath: string, content: string): Promise<void> {
+    await fsp.mkdir(path.dirname(filePath), { recursive: true });
+    await fsp.writeFile(filePath, content, 'utf-8');
+  }
+
+  resolvePath(requested: string, roots: PathGuardRoots, access: PathAccess): Promise<string> {
+    return resolveGuardedPath(requested, roots, access);
+  }
+}
+
+export const localAcpHost = new LocalAcpHost();
+
+/** SFTP status code for a missing file (SSH_FX_NO_SUCH_FILE). */
+const SFTP_NO_SUCH_FILE = 2;
+
+/** Runs agents and terminals over an open `SshService` connection. */
+export class RemoteAcpHost implements AcpHost {
+  readonly path = path.posix;
+  private readonly resolver: PathResolver;
+
+  constructor(
+    private readonly ssh: SshService,
+    readonly connectionId: string
+  ) {
+    this.resolver = { path: path.posix, realpath: (target) => this.realpath(target) };
+  }
+
+  spawn(command: string, args: string[], options: AcpSpawnOptions): AcpProcess {
+    const connection = this.ssh.getConnection(this.connectionId);
+    if (!connection) {
+      throw new Error(`Connection ${this.connectionId} not found`);
+    }
+    const remote = buildRemoteCommand(command, args, options);
+    return new SshChannelProcess(connection.client, remote.command, {
+      stdin: options.stdin,
+      input: remote.input,
+    });
+  }
+
+  async readTextFile(filePath: string): Promise<string> {
+    const sftp = await this.ssh.getSftp(this.connectionId);
+    return new Promise((resolve, reject) => {
+      sftp.readFile(filePath, 'utf-8', (err, data) => {
+        if (err) {
+          const { code } = err as Error & { code?: unknown };
+          reject(code === SFTP_NO_SUCH_FILE ? Object.assign(err, { code: 'ENOENT' }) : err);
+          return;
+        }
+        resolve(data.toString());
+      });
+    });
+  }
+
+  async writeTextFile(filePath: string, content: string): Promise<void> {
+    const mkdir = await this.ssh.executeCommand(
+      this.connectionId,
+      `mkdir -p ${quoteShellArg(path.posix.dirname(filePath))}`
+    );
+    if (mkdir.exitCode !== 0) {
+      throw new Error(mkdir.stderr || `Failed to create ${path.posix.dirname(filePath)}`);
+    }
+
+    const sftp = await this.ssh.getSftp(this.connectionId);
+    await new Promise<void>((resolve, reject) => {
+      sftp.writeFile(filePath, content, 'utf-8', (err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  resolvePath(requested: string, roots: PathGuardRoots, access: PathAccess): Promise<string> {
+    return resolveGuardedPath(requested, roots, access, this.resolver);
+  }
+
+  /** `realpath -m` follows symlinks like the local guard, including for paths not yet created. */
+  private async realpath(target: string): Promise<string> {
+    const result = await this.ssh.executeCommand(
+      this.connectionId,
+      `realpath -m -- ${quoteShellArg(target)}`
+    );
+    if (result.exitCode !== 0 || !result.stdout) {
+      throw new Error(result.stderr || `Failed to resolve ${target}`);
+    }
+    return result.stdout;
+  }
+}
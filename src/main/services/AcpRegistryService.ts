@@ -1,9 +1,17 @@
 import { app } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs/promises';
+import { createHash } from 'crypto';
 import { execFile } from 'child_process';
 import { log } from '../lib/logger';
-import type { AcpRegistry, AcpRegistryEntry, InstalledAcpAgent } from '../../shared/acpRegistry';
+import type {
+  AcpAgentPin,
+  AcpAgentUpdate,
+  AcpRegistry,
+  AcpRegistryEntry,
+  InstalledAcpAgent,
+  InstalledAcpVersion,
+} from '../../shared/acpRegistry';
 
 const REGISTRY_URL = 'https://cdn.agentclientprotocol.com/registry/v1/latest/registry.json';
 const CACHE_TTL_MS = 15 * 60 * 1000; // 15 minutes
@@ -12,8 +20,10 @@ export class AcpRegistryService {
   private memoryCache: { registry: AcpRegistry; fetchedAt: number } | null = null;
   private installedCache: InstalledAcpAgent[] | null = null;
 
+  constructor(private readonly options: { registryUrl?: string; baseDir?: string } = {}) {}
+
   private get baseDir(): string {
-    return path.join(app.getPath('userData'), 'acp-agents');
+    return this.options.baseDir ?? path.join(app.getPath('userData'), 'acp-agents');
   }
 
   private get registryCachePath(): string {
@@ -24,6 +34,15 @@ export class AcpRegistryService {
     return path.join(this.baseDir, 'installed.json');
   }
 
+  /**
+   * Archive hashes by `<agent>@<version>/<platform>`. Recorded on first
+   * install and checked on every later download of the same archive; entries
+   * can also be added by hand to pin hashes the registry doesn't publish.
+   */
+  private get lockPath(): string {
+    return path.join(this.baseDir, 'lock.json');
+  }
+
   private async ensureBaseDir(): Promise<void> {
     await fs.mkdir(this.baseDir, { recursive: true });
   }
@@ -32,14 +51,18 @@ export class AcpRegistryService {
   // Registry fetch
   // -----------------------------------------------------------------------
 
-  async fetchRegistry(): Promise<AcpRegistryEntry[]> {
+  async fetchRegistry(options: { refresh?: boolean } = {}): Promise<AcpRegistryEntry[]> {
     // Check memory cache
-    if (this.memoryCache && Date.now() - this.memoryCache.fetchedAt < CACHE_TTL_MS) {
+    if (
+      !options.refresh &&
+      this.memoryCache &&
+      Date.now() - this.memoryCache.fetchedAt < CACHE_TTL_MS
+    ) {
       return this.memoryCache.registry.agents;
     }
 
     try {
-      const resp = await fetch(REGISTRY_URL);
+      const resp = await fetch(this.options.registryUrl ?? REGISTRY_URL);
       if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
       const data = (await resp.json()) as AcpRegistry;
 
@@ -111,19 +134,14 @@ export class AcpRegistryService {
       if (!entry.distribution.npx) {
         return { success: false, error: 'No npx distribution available' };
       }
-      const agent: InstalledAcpAgent = {
-        id: agentId,
+      await this.recordInstall(agentId, {
         version: entry.version,
         method: 'npx',
         npxPackage: entry.distribution.npx.package,
         npxArgs: entry.distribution.npx.args,
         npxEnv: entry.distribution.npx.env,
         installedAt: new Date().toISOString(),
-      };
-      const installed = await this.getInstalledAgents();
-      const filtered = installed.filter((a) => a.id !== agentId);
-      filtered.push(agent);
-      await this.saveInstalledAgents(filtered);
+      });
       return { success: true };
     }
 
@@ -138,11 +156,11 @@ export class AcpRegistryService {
       return { success: false, error: `No binary for platform "${platformKey}"` };
     }
 
+    // Each version gets its own directory so the previous one survives for rollback
+    const agentDir = path.join(this.baseDir, `${agentId}@${entry.version}`);
     try {
-      const agentDir = path.join(this.baseDir, agentId);
       const tmpDir = path.join(this.baseDir, '.tmp');
       await fs.mkdir(tmpDir, { recursive: true });
-      await fs.mkdir(agentDir, { recursive: true });
 
       // Download
       const archiveName = path.basename(new URL(target.archive).pathname);
@@ -150,37 +168,59 @@ export class AcpRegistryService {
       const resp = await fetch(target.archive);
       if (!resp.ok) throw new Error(`Download failed: HTTP ${resp.status}`);
       const buffer = Buffer.from(await resp.arrayBuffer());
-      await fs.writeFile(archivePath, buffer);
 
-      // Extract
-      if (archiveName.endsWith('.tar.gz') || archiveName.endsWith('.tgz')) {
-        await this.exec('tar', ['xzf', archivePath, '-C', agentDir]);
-      } else if (archiveName.endsWith('.zip')) {
-        await this.exec('unzip', ['-o', archivePath, '-d', agentDir]);
-      } else {
-        return { success: false, error: `Unsupported archive format: ${archiveName}` };
+      // Verify before anything from the archive touches the disk
+      const lockKey = `${agentId}@${entry.version}/${platformKey}`;
+      const sha256 = createHash('sha256').update(buffer).digest('hex');
+      const lock = await this.readLock();
+      // A locked hash is never overridden: the registry cannot change what was installed
+      for (const expected of [lock[lockKey], target.sha256]) {
+        if (expected && expected.toLowerCase() !== sha256) {
+          throw new Error(
+            `Checksum mismatch for ${archiveName}: expected ${expected.toLowerCase()}, got ${sha256}`
+          );
+        }
       }
+      await fs.writeFile(archivePath, buffer);
 
-      // chmod +x on macOS/Linux
-      if (process.platform !== 'win32') {
-        const cmdPath = path.join(agentDir, target.cmd);
-        await fs.chmod(cmdPath, 0o755);
+      // Extract next to the version's directory, replacing it only once complete
+      const stagingDir = `${agentDir}.partial`;
+      await fs.rm(stagingDir, { recursive: true, force: true });
+      await fs.mkdir(stagingDir, { recursive: true });
+      try {
+        if (archiveName.endsWith('.tar.gz') || archiveName.endsWith('.tgz')) {
+          await this.exec('tar', ['xzf', archivePath, '-C', stagingDir]);
+        } else if (archiveName.endsWith('.zip')) {
+          await this.exec('unzip', ['-o', archivePath, '-d', stagingDir]);
+        } else {
+          return { success: false, error: `Unsupported archive format: ${archiveName}` };
+        }
+
+        // chmod +x on macOS/Linux
+        if (process.platform !== 'win32') {
+          const cmdPath = path.join(stagingDir, target.cmd);
+          await fs.chmod(cmdPath, 0o755);
+        }
+
+        await fs.rm(agentDir, { recursive: true, force: true });
+        await fs.rename(stagingDir, agentDir);
+      } finally {
+        await fs.rm(stagingDir, { recursive: true, force: true });
+        await fs.rm(archivePath, { force: true });
       }
 
-      // Cleanup archive
-      await fs.rm(archivePath, { force: true });
-
-      const agent: InstalledAcpAgent = {
-        id: agentId,
+      if (!lock[lockKey]) {
+        await this.writeLock({ ...lock, [lockKey]: sha256 });
+      }
+      await this.recordInstall(agentId, {
         version: entry.version,
         method: 'binary',
         binaryPath: agentDir,
+        cmd: target.cmd,
+        args: target.args,
+        sha256,
         installedAt: new Date().toISOString(),
-      };
-      const installed = await this.getInstalledAgents();
-      const filtered = installed.filter((a) => a.id !== agentId);
-      filtered.push(agent);
-      await this.saveInstalledAgents(filtered);
+      });
       return { success: true };
     } catch (err: any) {
       log.error(`Failed to install binary agent ${agentId}`, err);
@@ -188,46 +228,162 @@ export class AcpRegistryService {
     }
   }
 
+  /**
+   * Make `version` the installed one. The version it replaces is kept for
+   * rollback; the one kept before that is removed.
+   */
+  private async recordInstall(agentId: string, version: InstalledAcpVersion): Promise<void> {
+    const installed = await this.getInstalledAgents();
+    const current = installed.find((a) => a.id === agentId);
+    let previous = current?.previous;
+    if (current && current.version !== version.version) {
+      const { id: _id, previous: dropped, ...replaced } = current;
+      if (dropped && dropped.binaryPath !== version.binaryPath) {
+        await this.removeBinary(dropped);
+      }
+      previous = replaced;
+    } else if (current && current.binaryPath !== version.binaryPath) {
+      // Same version reinstalled into a new directory
+      await this.removeBinary(current);
+    }
+    const filtered = installed.filter((a) => a.id !== agentId);
+    filtered.push({ id: agentId, ...version, ...(previous && { previous }) });
+    await this.saveInstalledAgents(filtered);
+  }
+
+  /** Installed agents whose registry version differs from the installed one. */
+  async checkUpdates(): Promise<AcpAgentUpdate[]> {
+    const [registry, installed] = await Promise.all([
+      this.fetchRegistry({ refresh: true }),
+      this.getInstalledAgents(),
+    ]);
+    const updates: AcpAgentUpdate[] = [];
+    for (const agent of installed) {
+      const entry = registry.find((e) => e.id === agent.id);
+      if (entry && entry.version !== agent.version) {
+        updates.push({
+          id: agent.id,
+          name: entry.name,
+          installedVersion: agent.version,
+          latestVersion: entry.version,
+        });
+      }
+    }
+    return updates;
+  }
+
+  /** Install the registry version of an installed agent, keeping its install method. */
+  async upgradeAgent(agentId: string): Promise<{ success: boolean; error?: string }> {
+    const agent = (await this.getInstalledAgents()).find((a) => a.id === agentId);
+    if (!agent) return { success: false, error: 'Agent not installed' };
+    await this.fetchRegistry({ refresh: true });
+    return this.installAgent(agentId, agent.method);
+  }
+
+  /** Swap the installed version with the one the last upgrade replaced. */
+  async rollbackAgent(agentId: string): Promise<{ success: boolean; error?: string }> {
+    const installed = await this.getInstalledAgents();
+    const agent = installed.find((a) => a.id === agentId);
+    if (!agent) return { success: false, error: 'Agent not installed' };
+    if (!agent.previous) return { success: false, error: 'No previous version to roll back to' };
+
+    const { id: _id, previous, ...current } = agent;
+    const filtered = installed.filter((a) => a.id !== agentId);
+    filtered.push({ id: agentId, ...previous, previous: current });
+    await this.saveInstalledAgents(filtered);
+    return { success: true };
+  }
+
   async uninstallAgent(agentId: string): Promise<{ success: boolean; error?: string }> {
     const installed = await this.getInstalledAgents();
     const agent = installed.find((a) => a.id === agentId);
     if (!agent) return { success: false, error: 'Agent not installed' };
 
+    await this.removeBinary(agent);
+    if (agent.previous) await this.removeBinary(agent.previous);
+
+    const filtered = installed.filter((a) => a.id !== agentId);
+    await this.saveInstalledAgents(filtered);
+    return { success: true };
+  }
+
+  private async removeBinary(version: InstalledAcpVersion): Promise<void> {
     // Remove binary directory if exists
-    if (agent.method === 'binary' && agent.binaryPath) {
+    if (version.method === 'binary' && version.binaryPath) {
       try {
-        await fs.rm(agent.binaryPath, { recursive: true, force: true });
+        await fs.rm(version.binaryPath, { recursive: true, force: true });
       } catch {
         // ignore cleanup errors
       }
     }
+  }
 
-    const filtered = installed.filter((a) => a.id !== agentId);
-    await this.saveInstalledAgents(filtered);
-    return { success: true };
+  private async readLock(): Promise<Record<string, string>> {
+    try {
+      return JSON.parse(await fs.readFile(this.lockPath, 'utf-8')) as Record<string, string>;
+    } catch {
+      return {};
+    }
+  }
+
+  private async writeLock(lock: Record<string, string>): Promise<void> {
+    await this.ensureBaseDir();
+    await fs.writeFile(this.lockPath, JSON.stringify(lock, null, 2), 'utf-8');
   }
 
   // -----------------------------------------------------------------------
   // Command resolution
   // -----------------------------------------------------------------------
 
+  /**
+   * Command for an installed agent. With a project `pin`, the pinned version
+   * must be installed (as the current or the previous version) and match the
+   * pinned hash; otherwise this throws instead of running another version.
+   */
   async resolveCommand(
-    agentId: string
+    agentId: string,
+    pin?: AcpAgentPin
   ): Promise<{ command: string; args: string[]; env: Record<string, string> } | null> {
     const installed = await this.getInstalledAgents();
     const agent = installed.find((a) => a.id === agentId);
-    if (!agent) return null;
+    if (!agent) {
+      if (pin)
+        throw new Error(`${agentId} ${pin.version} is pinned by this project but not installed`);
+      return null;
+    }
 
-    if (agent.method === 'npx' && agent.npxPackage) {
+    let version: InstalledAcpVersion = agent;
+    if (pin) {
+      const match = [agent, agent.previous].find((v) => v?.version === pin.version);
+      if (!match) {
+        throw new Error(
+          `${agentId} is pinned to ${pin.version} by this project, but ${agent.version} is installed`
+        );
+      }
+      if (pin.sha256 && match.sha256 !== pin.sha256) {
+        throw new Error(`${agentId} ${pin.version} does not match the hash pinned by this project`);
+      }
+      version = match;
+    }
+
+    if (version.method === 'npx' && version.npxPackage) {
       return {
         command: 'npx',
-        args: ['--yes', agent.npxPackage, ...(agent.npxArgs || [])],
-        env: agent.npxEnv || {},
+        args: ['--yes', version.npxPackage, ...(version.npxArgs || [])],
+        env: version.npxEnv || {},
       };
     }
 
-    if (agent.method === 'binary' && agent.binaryPath) {
-      // Need to look up cmd from registry
+    if (version.method === 'binary' && version.binaryPath) {
+      if (version.cmd) {
+        return {
+          command: path.join(version.binaryPath, version.cmd),
+          args: version.args || [],
+          env: {},
+        };
+      }
+
+      // Installed before the command was recorded: look it up in the registry
       const registry = await this.fetchRegistry();
       const entry = registry.find((e) => e.id === agentId);
       const platformKey = this.getPlatformKey();
@@ -235,7 +391,7 @@ export class AcpRegistryService {
       if (!target) return null;
 
       return {
-        command: path.join(agent.binaryPath, target.cmd),
+        command: path.join(version.binaryPath, target.cmd),
         args: target.args || [],
         env: {},
       };
@@ -1,7 +1,4 @@
-import { spawn, type ChildProcess } from 'child_process';
 import * as crypto from 'crypto';
-import * as path from 'path';
-import * as fsp from 'fs/promises';
 // ACP SDK is ESM-only — use type imports statically, runtime imports dynamically
 import type {
   ClientSideConnection,
@@ -23,13 +20,32 @@ import type {
   KillTerminalCommandResponse,
   ReleaseTerminalRequest,
   ReleaseTerminalResponse,
+  Usage,
 } from '@agentclientprotocol/sdk';
 import { log } from '../lib/logger';
+import { getAppSettings } from '../settings';
 import { getProvider, type ProviderId } from '../../shared/providers/registry';
 import { getStoredProviderKeys } from '../ipc/settingsIpc';
 import { acpRegistryService } from './AcpRegistryService';
-import { PROVIDER_TO_ACP_ID } from '../../shared/acpRegistry';
+import { customAgentService } from './CustomAgentService';
+import { isCustomProviderId } from '../../shared/providers/customAgents';
+import { normalizeAcpAgentPins, PROVIDER_TO_ACP_ID } from '../../shared/acpRegistry';
+import { lifecycleScriptsService } from './LifecycleScriptsService';
 import { databaseService } from './DatabaseService';
+import { approvalPolicyService, type PermissionRequestContext } from './ApprovalPolicyService';
+import { buildSandboxCommand, findBwrap, scrubSecretEnv } from '../utils/terminalSandbox';
+import { PathGuardError, type PathAccess } from '../utils/pathGuard';
+import { localAcpHost, RemoteAcpHost, type AcpHost, type AcpProcess } from './AcpHost';
+import { sshService } from './ssh/SshService';
+import { getContentDiff } from './GitService';
+import { checkpointService } from './CheckpointService';
+import {
+  findExceededBudget,
+  formatBudgetBreach,
+  type UsageBudgetBreach,
+  type UsageBudgets,
+  type UsageSpend,
+} from '@shared/usage';
 
 // Cached dynamic import for ESM-only ACP SDK
 // Use indirect eval to prevent TypeScript from converting import() to require()
@@ -58,6 +74,12 @@ export function warmAcpSdk(): void {
 
 export type AcpSessionStatus = 'initializing' | 'ready' | 'submitted' | 'streaming' | 'error';
 
+export type AcpPathBlockedDetail = {
+  operation: 'read' | 'write' | 'terminal';
+  path: string;
+  resolvedPath: string;
+};
+
 export type AcpUpdateEvent =
   | {
       type: 'session_update';
@@ -75,6 +97,9 @@ export type AcpUpdateEvent =
   | {
       type: 'session_error';
       error: string;
+      /** Set for recoverable errors that don't end the session. */
+      code?: 'path_blocked';
+      detail?: AcpPathBlockedDetail;
     }
   | {
       type: 'prompt_error';
@@ -83,8 +108,61 @@ export type AcpUpdateEvent =
   | {
       type: 'prompt_complete';
       stopReason: string;
+    }
+  | {
+      type: 'queue_update';
+      queue: AcpQueuedPrompt[];
+    }
+  | {
+      type: 'prompt_dequeued';
+      item: AcpQueuedPrompt;
+    }
+  | {
+      type: 'write_proposed';
+      write: AcpProposedWrite;
+    }
+  | {
+      type: 'write_resolved';
+      writeId: string;
+      accepted: boolean;
+    }
+  | {
+      type: 'checkpoint_created';
+      checkpoint: AcpCheckpoint;
+    }
+  | {
+      type: 'budget_exceeded';
+      breach: UsageBudgetBreach;
     };
 
+export type AcpPromptFile = { url: string; mediaType: string; filename?: string };
+
+/** A follow-up prompt waiting for the session to become ready. */
+export type AcpQueuedPrompt = {
+  id: string;
+  message: string;
+  files?: AcpPromptFile[];
+  queuedAt: string;
+};
+
+/** Worktree snapshot taken when the turn started by `messageId` was dispatched. */
+export type AcpCheckpoint = {
+  id: string;
+  messageId: string;
+  createdAt: string;
+};
+
+/** An agent file write held for review before it reaches the worktree. */
+export type AcpProposedWrite = {
+  id: string;
+  /** Path relative to the session worktree. */
+  path: string;
+  /** Unified diff from the current file contents to the proposed contents. */
+  diff: string;
+  isNewFile: boolean;
+  proposedAt: string;
+};
+
 export type AcpSessionMode = {
   id: string;
   name: string;
@@ -115,8 +193,10 @@ type AcpConnection = {
   connectionKey: string;
   providerId: string;
   cwd: string;
+  /** Machine the agent process runs on; remote for SSH projects. */
+  host: AcpHost;
   connection: ClientSideConnection;
-  childProcess: ChildProcess;
+  childProcess: AcpProcess;
   initResp: any;
   spawnError: Promise<never>;
   refCount: number;
@@ -131,10 +211,12 @@ type AcpConnection = {
 const MAX_TERMINALS_PER_SESSION = 10;
 const DEFAULT_OUTPUT_BYTE_LIMIT = 10 * 1024 * 1024; // 10 MB
 const KILL_TIMEOUT_MS = 5000;
+const SANDBOX_UNAVAILABLE_NOTICE =
+  '[valkyr] bubblewrap (bwrap) is not installed; this command runs without the terminal sandbox';
 
 type AcpTerminal = {
   id: string;
-  process: ChildProcess;
+  process: AcpProcess;
   outputChunks: string[];
   outputBytes: number;
   outputByteLimit: number;
@@ -175,6 +257,24 @@ function getTerminalOutput(terminal: AcpTerminal): string {
   return terminal.outputChunks.join('');
 }
 
+/** Reject all writes awaiting review and clear the map. */
+function rejectPendingWrites(session: AcpSession, reason: string): void {
+  for (const [, pending] of session.pendingWrites) {
+    pending.reject(new Error(reason));
+  }
+  session.pendingWrites.clear();
+}
+
+function getUsageBudgets(): UsageBudgets | undefined {
+  return getAppSettings().usageBudgets;
+}
+
+/** ISO timestamp of local midnight, the start of the daily budget window. */
+function startOfLocalDay(): string {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate()).toISOString();
+}
+
 /** Kill all terminals for a session and clear the map. */
 function cleanupSessionTerminals(session: AcpSession): void {
   for (const [, terminal] of session.terminals) {
@@ -196,6 +296,10 @@ type AcpSession = {
   conversationId: string;
   providerId: ProviderId;
   cwd: string;
+  /** Project root, used to read the project's .valkyr.json approval policy. */
+  projectPath?: string;
+  /** Host of the session's connection; serves fs and terminal requests. */
+  host: AcpHost;
   status: AcpSessionStatus;
   connectionKey: string; // Key into connections pool
   acpSessionId: string | null;
@@ -207,15 +311,40 @@ type AcpSession = {
       resolve: (resp: RequestPermissionResponse) => void;
       reject: (err: Error) => void;
       options: Array<{ optionId: string; kind: string; name: string }>;
+      context: PermissionRequestContext;
+    }
+  >;
+  /** Ordered follow-up prompts, drained head-first each time the session becomes ready. */
+  promptQueue: AcpQueuedPrompt[];
+  /** When true, agent file writes are staged for review instead of written directly. */
+  reviewWrites: boolean;
+  /** Staged writes awaiting accept/reject, keyed by write id. */
+  pendingWrites: Map<
+    string,
+    {
+      resolvedPath: string;
+      content: string;
+      resolve: (resp: WriteTextFileResponse) => void;
+      reject: (err: Error) => void;
     }
   >;
-  /** Queued prompt to send when session becomes ready (avoids status desync errors). */
-  pendingPrompt: {
-    message: string;
-    files?: Array<{ url: string; mediaType: string; filename?: string }>;
-  } | null;
   /** ACP terminal instances (non-interactive command execution). */
   terminals: Map<string, AcpTerminal>;
+  /** Last cumulative session cost (USD) reported through `usage_update`. */
+  reportedCostUsd: number;
+  /** Usage of the in-flight turn; written to the ledger when the turn ends. */
+  usageTurn: AcpUsageTurn | null;
+};
+
+type AcpUsageTurn = {
+  messageId?: string;
+  /** `reportedCostUsd` when the turn started — the turn's cost is the difference. */
+  startCostUsd: number;
+  costUsd: number;
+  /** Ledger spend before this turn, loaded on first use when budgets are enabled. */
+  spendBefore: UsageSpend | null;
+  /** Set once the turn has been cancelled for exceeding a budget. */
+  budgetBreach: UsageBudgetBreach | null;
 };
 
 type SessionCreateResult = {
@@ -235,6 +364,9 @@ type SessionCreateResult = {
 
 const EVENT_FLUSH_MS = 16;
 
+/** Upper bound on queued follow-up prompts per session. */
+const MAX_QUEUED_PROMPTS = 50;
+
 /** Idle timeout before killing an unused connection (ms). */
 const CONNECTION_IDLE_MS = 60_000;
 
@@ -250,6 +382,8 @@ export class AcpSessionManager {
   private eventTimers = new Map<string, NodeJS.Timeout>();
   /** Collects session_update events during loadSession so they can be returned to the renderer. */
   private historyBuffers = new Map<string, AcpUpdateEvent[]>();
+  /** Conversations rolled back to a checkpoint — their next session gets a context replay. */
+  private pendingContextReplays = new Set<string>();
 
   // Connection pool
   private connections = new Map<string, AcpConnection>();
@@ -265,6 +399,13 @@ export class AcpSessionManager {
     this.eventSender = sender;
   }
 
+  // Callback for sessions that ended for good — set by acpIpc.ts
+  private sessionEndedListener: ((sessionKey: string) => void) | null = null;
+
+  setSessionEndedListener(listener: (sessionKey: string) => void): void {
+    this.sessionEndedListener = listener;
+  }
+
   // -----------------------------------------------------------------------
   // Event buffering
   // -----------------------------------------------------------------------
@@ -308,15 +449,18 @@ export class AcpSessionManager {
   // -----------------------------------------------------------------------
 
   /**
-   * Get or create a shared ACP connection for the given (providerId, cwd) pair.
-   * Uses promise-based deduplication to prevent concurrent spawns for the same key.
+   * Get or create a shared ACP connection for the given (providerId, cwd) pair
+   * on a host. Uses promise-based deduplication to prevent concurrent spawns for the same key.
    */
   private async getOrCreateConnection(
     providerId: string,
     cwd: string,
-    env?: Record<string, string>
+    env: Record<string, string> | undefined,
+    host: AcpHost
   ): Promise<AcpConnection> {
-    const connectionKey = `${providerId}::${cwd}`;
+    const connectionKey = host.connectionId
+      ? `${providerId}::ssh:${host.connectionId}::${cwd}`
+      : `${providerId}::${cwd}`;
 
     // Return existing healthy connection
     const existing = this.connections.get(connectionKey);
@@ -341,7 +485,7 @@ export class AcpSessionManager {
     }
 
     // Spawn a new connection
-    const promise = this.spawnConnection(connectionKey, providerId, cwd, env);
+    const promise = this.spawnConnection(connectionKey, providerId, cwd, env, host);
     this.connectionPromises.set(connectionKey, promise);
 
     try {
@@ -366,16 +510,30 @@ export class AcpSessionManager {
     connectionKey: string,
     providerId: string,
     cwd: string,
-    env?: Record<string, string>
+    env: Record<string, string> | undefined,
+    host: AcpHost
   ): Promise<AcpConnection> {
     const t0 = performance.now();
     const sdkPromise = getAcpSdk();
 
-    // Resolve ACP command: try registry first, then hardcoded acpSupport
+    // Resolve ACP command: try registry first, then hardcoded acpSupport.
+    // Custom agents only come with their own command.
+    const isCustom = isCustomProviderId(providerId);
+    if (isCustom) {
+      await customAgentService.refresh(cwd);
+    }
     const acpId = PROVIDER_TO_ACP_ID[providerId] ?? providerId;
-    const resolved = await acpRegistryService.resolveCommand(acpId);
+    // Version pins apply to the agents installed on this machine
+    const pin = host.connectionId
+      ? undefined
+      : normalizeAcpAgentPins(lifecycleScriptsService.readConfig(cwd)?.acpAgents)[acpId];
+    let resolved = isCustom ? null : await acpRegistryService.resolveCommand(acpId, pin);
+    // Downloaded registry binaries live on this machine; remote hosts can only use npx
+    if (host.connectionId && resolved && resolved.command !== 'npx') {
+      resolved = null;
+    }
     const tResolve = performance.now();
-    const provider = getProvider(providerId as any);
+    const provider = getProvider(providerId as any, cwd);
 
     const fallback = provider?.acpSupport
       ? {
@@ -390,13 +548,16 @@ export class AcpSessionManager {
       throw Object.assign(new Error('no_acp_support'), { code: 'NO_ACP_SUPPORT' });
     }
 
-    // S4: Scope environment variables per provider
-    const scopedEnv: Record<string, string> = {
-      PATH: process.env.PATH || '',
-      HOME: process.env.HOME || '',
-      SHELL: process.env.SHELL || '',
-      TERM: process.env.TERM || 'xterm-256color',
-    };
+    // S4: Scope environment variables per provider. Remote agents keep the
+    // PATH, HOME and SHELL of their login shell on the host.
+    const scopedEnv: Record<string, string> = host.connectionId
+      ? { TERM: 'xterm-256color' }
+      : {
+          PATH: process.env.PATH || '',
+          HOME: process.env.HOME || '',
+          SHELL: process.env.SHELL || '',
+          TERM: process.env.TERM || 'xterm-256color',
+        };
 
     if (provider?.envVars) {
       for (const key of provider.envVars) {
@@ -420,19 +581,24 @@ export class AcpSessionManager {
       Object.assign(scopedEnv, acpCommand.env);
     }
 
+    if (provider?.env) {
+      Object.assign(scopedEnv, provider.env);
+    }
+
     if (env) {
       Object.assign(scopedEnv, env);
     }
 
     const { command, args = [] } = acpCommand;
 
-    log.debug('[AcpSessionManager] Spawning ACP process', { connectionKey, command, cwd });
-    const tPreSpawn = performance.now();
-    const childProcess = spawn(command, args, {
+    log.debug('[AcpSessionManager] Spawning ACP process', {
+      connectionKey,
+      command,
       cwd,
-      env: scopedEnv,
-      stdio: ['pipe', 'pipe', 'pipe'],
+      remoteConnectionId: host.connectionId,
     });
+    const tPreSpawn = performance.now();
+    const childProcess = host.spawn(command, args, { cwd, env: scopedEnv, stdin: 'pipe' });
     const tPostSpawn = performance.now();
 
     const spawnError = new Promise<never>((_, reject) => {
@@ -498,6 +664,7 @@ export class AcpSessionManager {
       connectionKey,
       providerId,
       cwd,
+      host,
       connection,
       childProcess,
       initResp: null,
@@ -577,11 +744,13 @@ export class AcpSessionManager {
 
       // Kill all terminals belonging to this session
       cleanupSessionTerminals(session);
+      rejectPendingWrites(session, 'Agent connection closed');
 
       if (this.detachedSessions.has(sessionKey)) {
         log.info(`[ConnPool] Connection died while session detached: ${sessionKey}`);
         this.finalizedSessions.add(sessionKey);
         this.sessions.delete(sessionKey);
+        this.sessionEndedListener?.(sessionKey);
         continue;
       }
 
@@ -647,6 +816,7 @@ export class AcpSessionManager {
         }
         this.clearEventBuffer(sessionKey);
         this.sessions.delete(sessionKey);
+        this.sessionEndedListener?.(sessionKey);
       }
     }
 
@@ -671,7 +841,9 @@ export class AcpSessionManager {
     cwd: string,
     env?: Record<string, string>,
     resumeAcpSessionId?: string,
-    mcpServers?: any[]
+    mcpServers?: any[],
+    projectPath?: string,
+    remoteConnectionId?: string
   ): Promise<SessionCreateResult> {
     const sessionKey = `${providerId}-acp-${conversationId}`;
 
@@ -688,10 +860,11 @@ export class AcpSessionManager {
       };
     }
 
-    // If a stale/errored session exists (e.g. after Ctrl+R reload), kill it first
+    // If a stale/errored session exists (e.g. after Ctrl+R reload), kill it first.
+    // Its replacement keeps the key, so it isn't reported as ended
     if (this.sessions.has(sessionKey)) {
       log.info(`Killing stale ACP session before recreate: ${sessionKey}`);
-      this.killSession(sessionKey);
+      this.teardownSession(sessionKey);
     }
     // Clear finalized flag so crash/close handlers work for the new session
     this.finalizedSessions.delete(sessionKey);
@@ -699,6 +872,9 @@ export class AcpSessionManager {
     // Determine whether to use connection pooling
     const provider = getProvider(providerId as any);
     const usePool = provider?.acpMultiSession === true;
+    const host = remoteConnectionId
+      ? new RemoteAcpHost(sshService, remoteConnectionId)
+      : localAcpHost;
 
     try {
       const tCreate0 = performance.now();
@@ -710,7 +886,7 @@ export class AcpSessionManager {
       if (usePool) {
         // Pooled path: shared connection for (providerId, cwd)
         [conn, storedSessionId] = await Promise.all([
-          this.getOrCreateConnection(providerId, cwd, env),
+          this.getOrCreateConnection(providerId, cwd, env, host),
           resumeAcpSessionId
             ? Promise.resolve(resumeAcpSessionId)
             : databaseService.getConversationAcpSessionId(conversationId).catch(() => null),
@@ -719,7 +895,7 @@ export class AcpSessionManager {
         // Dedicated path: one connection per session (old behavior)
         // Use sessionKey as connectionKey to keep it unique per conversation
         [conn, storedSessionId] = await Promise.all([
-          this.spawnDedicatedConnection(sessionKey, providerId, cwd, env),
+          this.spawnDedicatedConnection(sessionKey, providerId, cwd, env, host),
           resumeAcpSessionId
             ? Promise.resolve(resumeAcpSessionId)
             : databaseService.getConversationAcpSessionId(conversationId).catch(() => null),
@@ -735,14 +911,20 @@ export class AcpSessionManager {
         conversationId,
         providerId: providerId as ProviderId,
         cwd,
+        projectPath,
+        host: conn.host,
         status: 'initializing',
         connectionKey: conn.connectionKey,
         acpSessionId: null,
         modes: null,
         models: null,
         pendingPermissions: new Map(),
-        pendingPrompt: null,
+        promptQueue: [],
+        reviewWrites: false,
+        pendingWrites: new Map(),
         terminals: new Map(),
+        reportedCostUsd: 0,
+        usageTurn: null,
       };
       this.sessions.set(sessionKey, session);
 
@@ -829,7 +1011,8 @@ export class AcpSessionManager {
       // When resume failed but we had a previous session, replay conversation
       // history as a context prompt so the agent knows what was discussed.
       let tReplayDone = tSessionCreated;
-      if (!resumed && storedSessionId) {
+      const replayAfterRestore = this.pendingContextReplays.delete(conversationId);
+      if (!resumed && (storedSessionId || replayAfterRestore)) {
         try {
           await this.replayConversationContext(conversationId, connection, acpSessionId);
           tReplayDone = performance.now();
@@ -860,6 +1043,7 @@ export class AcpSessionManager {
         this.releaseConnection(session.connectionKey);
         this.sessions.delete(sessionKey);
       }
+      this.sessionEndedListener?.(sessionKey);
       log.error(`ACP session creation failed: ${sessionKey}`, error);
 
       const errorCode =
@@ -880,9 +1064,10 @@ export class AcpSessionManager {
     sessionKey: string,
     providerId: string,
     cwd: string,
-    env?: Record<string, string>
+    env: Record<string, string> | undefined,
+    host: AcpHost
   ): Promise<AcpConnection> {
-    const conn = await this.spawnConnection(sessionKey, providerId, cwd, env);
+    const conn = await this.spawnConnection(sessionKey, providerId, cwd, env, host);
     conn.refCount = 1;
     this.connections.set(sessionKey, conn);
     return conn;
@@ -988,8 +1173,9 @@ export class AcpSessionManager {
   async sendPrompt(
     sessionKey: string,
     message: string,
-    files?: Array<{ url: string; mediaType: string; filename?: string }>
-  ): Promise<{ success: boolean; error?: string }> {
+    files?: AcpPromptFile[],
+    messageId?: string
+  ): Promise<{ success: boolean; queued?: boolean; queueItemId?: string; error?: string }> {
     const session = this.sessions.get(sessionKey);
     if (!session) {
       return { success: false, error: 'Session not found' };
@@ -1001,16 +1187,45 @@ export class AcpSessionManager {
     // Queue the prompt if the session is busy — drain happens in setStatus when ready
     if (session.status !== 'ready') {
       log.info(`Queueing prompt for ${sessionKey} (status: ${session.status})`);
-      session.pendingPrompt = { message, files };
-      return { success: true };
+      return this.queuePrompt(sessionKey, message, files);
+    }
+
+    const breach = await this.checkBudget(session);
+    if (breach) {
+      this.bufferEvent(sessionKey, { type: 'budget_exceeded', breach });
+      return { success: false, error: formatBudgetBreach(breach) };
+    }
+    if (session.status !== 'ready') {
+      return this.queuePrompt(sessionKey, message, files);
     }
 
+    return this.dispatchPrompt(session, message, files, messageId);
+  }
+
+  /**
+   * Send a prompt to the agent immediately. Caller must ensure the session is ready.
+   * When `messageId` is given, the worktree is checkpointed before the agent sees the prompt.
+   */
+  private dispatchPrompt(
+    session: AcpSession,
+    message: string,
+    files?: AcpPromptFile[],
+    messageId?: string
+  ): { success: boolean; error?: string } {
+    const { sessionKey } = session;
     const conn = this.connections.get(session.connectionKey);
     if (!conn || conn.dead) {
       return { success: false, error: 'Connection is dead' };
     }
 
     this.setStatus(sessionKey, 'submitted');
+    session.usageTurn = {
+      messageId,
+      startCostUsd: session.reportedCostUsd,
+      costUsd: 0,
+      spendBefore: null,
+      budgetBreach: null,
+    };
 
     // Build prompt content blocks
     const promptBlocks: Array<any> = [];
@@ -1022,17 +1237,28 @@ export class AcpSessionManager {
 
         const base64Data = dataUrlMatch[2];
 
+        const uri = file.filename ? `file:///${file.filename}` : 'file:///attachment';
         if (file.mediaType.startsWith('image/')) {
           promptBlocks.push({
             type: 'image',
             data: base64Data,
             mimeType: file.mediaType,
           });
+        } else if (file.mediaType.startsWith('text/')) {
+          // Text resources are readable by agents that do not decode blobs, e.g. preview logs
+          promptBlocks.push({
+            type: 'resource',
+            resource: {
+              uri,
+              mimeType: file.mediaType,
+              text: Buffer.from(base64Data, 'base64').toString('utf8'),
+            },
+          });
         } else {
           promptBlocks.push({
             type: 'resource',
             resource: {
-              uri: file.filename ? `file:///${file.filename}` : 'file:///attachment',
+              uri,
               mimeType: file.mediaType,
               blob: base64Data,
             },
@@ -1046,12 +1272,15 @@ export class AcpSessionManager {
     }
 
     // Fire and forget — the prompt response comes async via the connection
-    conn.connection
-      .prompt({
-        sessionId: session.acpSessionId,
-        prompt: promptBlocks,
-      })
+    this.createTurnCheckpoint(session, messageId)
+      .then(() =>
+        conn.connection.prompt({
+          sessionId: session.acpSessionId!,
+          prompt: promptBlocks,
+        })
+      )
       .then((resp) => {
+        this.recordTurnUsage(session, resp.usage);
         const s = this.sessions.get(sessionKey);
         if (s && (s.status === 'streaming' || s.status === 'submitted')) {
           this.bufferEvent(sessionKey, {
@@ -1063,6 +1292,7 @@ export class AcpSessionManager {
       })
       .catch((err) => {
         log.error(`ACP prompt failed: ${sessionKey}`, err);
+        this.recordTurnUsage(session);
         const s = this.sessions.get(sessionKey);
         if (s && s.status !== 'ready') {
           this.bufferEvent(sessionKey, {
@@ -1076,6 +1306,184 @@ export class AcpSessionManager {
     return { success: true };
   }
 
+  // -----------------------------------------------------------------------
+  // Prompt queue
+  // -----------------------------------------------------------------------
+
+  /**
+   * Append a prompt to the session's queue (or insert it at `position`).
+   * If the session is already idle the head of the queue is dispatched right away.
+   */
+  queuePrompt(
+    sessionKey: string,
+    message: string,
+    files?: AcpPromptFile[],
+    position?: number
+  ): { success: boolean; queued?: boolean; queueItemId?: string; error?: string } {
+    const session = this.sessions.get(sessionKey);
+    if (!session) {
+      return { success: false, error: 'Session not found' };
+    }
+    if (session.promptQueue.length >= MAX_QUEUED_PROMPTS) {
+      return { success: false, error: `Queue is full (max ${MAX_QUEUED_PROMPTS} prompts)` };
+    }
+
+    const item: AcpQueuedPrompt = {
+      id: crypto.randomUUID(),
+      message,
+      files: files && files.length > 0 ? files : undefined,
+      queuedAt: new Date().toISOString(),
+    };
+    const index =
+      position == null
+        ? session.promptQueue.length
+        : Math.max(0, Math.min(position, session.promptQueue.length));
+    session.promptQueue.splice(index, 0, item);
+    this.emitQueueUpdate(session);
+
+    if (session.status === 'ready') {
+      this.drainPromptQueue(session);
+    }
+    return { success: true, queued: true, queueItemId: item.id };
+  }
+
+  getQueue(sessionKey: string): { success: boolean; queue?: AcpQueuedPrompt[]; error?: string } {
+    const session = this.sessions.get(sessionKey);
+    if (!session) {
+      return { success: false, error: 'Session not found' };
+    }
+    return { success: true, queue: [...session.promptQueue] };
+  }
+
+  /** Move a queued prompt to a new index (clamped to the queue bounds). */
+  reorderQueue(
+    sessionKey: string,
+    itemId: string,
+    toIndex: number
+  ): { success: boolean; queue?: AcpQueuedPrompt[]; error?: string } {
+    const session = this.sessions.get(sessionKey);
+    if (!session) {
+      return { success: false, error: 'Session not found' };
+    }
+    const from = session.promptQueue.findIndex((q) => q.id === itemId);
+    if (from === -1) {
+      return { success: false, error: 'Queued prompt not found' };
+    }
+    const [item] = session.promptQueue.splice(from, 1);
+    const to = Math.max(0, Math.min(toIndex, session.promptQueue.length));
+    session.promptQueue.splice(to, 0, item);
+    this.emitQueueUpdate(session);
+    return { success: true, queue: [...session.promptQueue] };
+  }
+
+  editQueuedPrompt(
+    sessionKey: string,
+    itemId: string,
+    message: string
+  ): { success: boolean; queue?: AcpQueuedPrompt[]; error?: string } {
+    const session = this.sessions.get(sessionKey);
+    if (!session) {
+      return { success: false, error: 'Session not found' };
+    }
+    const item = session.promptQueue.find((q) => q.id === itemId);
+    if (!item) {
+      return { success: false, error: 'Queued prompt not found' };
+    }
+    item.message = message;
+    this.emitQueueUpdate(session);
+    return { success: true, queue: [...session.promptQueue] };
+  }
+
+  removeQueuedPrompt(
+    sessionKey: string,
+    itemId: string
+  ): { success: boolean; queue?: AcpQueuedPrompt[]; error?: string } {
+    const session = this.sessions.get(sessionKey);
+    if (!session) {
+      return { success: false, error: 'Session not found' };
+    }
+    const index = session.promptQueue.findIndex((q) => q.id === itemId);
+    if (index === -1) {
+      return { success: false, error: 'Queued prompt not found' };
+    }
+    session.promptQueue.splice(index, 1);
+    this.emitQueueUpdate(session);
+    return { success: true, queue: [...session.promptQueue] };
+  }
+
+  private emitQueueUpdate(session: AcpSession): void {
+    this.bufferEvent(session.sessionKey, {
+      type: 'queue_update',
+      queue: [...session.promptQueue],
+    });
+  }
+
+  /**
+   * Dispatch the head of the queue. Runs on nextTick so the `ready` status
+   * event flushes before the next turn starts; if something else claimed the
+   * session in the meantime the item goes back to the front.
+   */
+  private drainPromptQueue(session: AcpSession): void {
+    const item = session.promptQueue.shift();
+    if (!item) return;
+    const { sessionKey } = session;
+    log.info(`Draining queued prompt ${item.id} for ${sessionKey}`);
+
+    process.nextTick(async () => {
+      const current = this.sessions.get(sessionKey);
+      if (!current || current !== session) return;
+      // Over budget: leave the queue paused until the limit is raised and a prompt is sent
+      const breach = current.status === 'ready' ? await this.checkBudget(current) : null;
+      if (this.sessions.get(sessionKey) !== current) return;
+      if (current.status !== 'ready' || breach) {
+        current.promptQueue.unshift(item);
+        this.emitQueueUpdate(current);
+        if (breach) this.bufferEvent(sessionKey, { type: 'budget_exceeded', breach });
+        return;
+      }
+
+      // The prompt can't be sent on a dead connection; keep it queued for the next session
+      const conn = this.connections.get(current.connectionKey);
+      if (!conn || conn.dead) {
+        current.promptQueue.unshift(item);
+        this.emitQueueUpdate(current);
+        this.bufferEvent(sessionKey, {
+          type: 'prompt_error',
+          error: 'The agent connection closed; the queued prompt was kept',
+        });
+        log.warn(`Kept queued prompt ${item.id} for ${sessionKey}: connection is dead`);
+        return;
+      }
+
+      this.emitQueueUpdate(current);
+      this.bufferEvent(sessionKey, { type: 'prompt_dequeued', item });
+
+      // No renderer is attached to adopt the turn — persist the user message ourselves
+      if (this.detachedSessions.has(sessionKey)) {
+        databaseService
+          .saveMessage({
+            id: item.id,
+            conversationId: current.conversationId,
+            content: item.message,
+            sender: 'user',
+            parts: JSON.stringify([{ type: 'text', text: item.message }]),
+          })
+          .catch((err) => {
+            log.error(`Failed to persist queued prompt for ${sessionKey}`, err);
+          });
+      }
+
+      const result = this.dispatchPrompt(current, item.message, item.files, item.id);
+      if (!result.success) {
+        log.error(`Failed to drain queued prompt for ${sessionKey}: ${result.error}`);
+        this.bufferEvent(sessionKey, {
+          type: 'prompt_error',
+          error: result.error ?? 'Send failed',
+        });
+      }
+    });
+  }
+
   async approvePermission(
     sessionKey: string,
     toolCallId: string,
@@ -1096,6 +1504,11 @@ export class AcpSessionManager {
     }
 
     session.pendingPermissions.delete(toolCallId);
+    approvalPolicyService.record(session.conversationId, toolCallId, pending.context, {
+      decision: approvalPolicyService.decisionForOption(pending.options, optionId),
+      optionId,
+      source: 'user',
+    });
     if (optionId) {
       pending.resolve({
         outcome: { outcome: 'selected', optionId },
@@ -1137,6 +1550,72 @@ export class AcpSessionManager {
     }
   }
 
+  /**
+   * Roll a conversation back to a checkpoint: the session is killed, the
+   * worktree and stored messages are reset, and the next session for the
+   * conversation starts fresh with the remaining history replayed as context.
+   */
+  async restoreCheckpoint(
+    checkpointId: string,
+    sessionKey?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    if (sessionKey) this.killSession(sessionKey);
+    try {
+      const checkpoint = await checkpointService.restore(checkpointId);
+      await databaseService.updateConversationAcpSessionId(checkpoint.conversationId, null);
+      this.pendingContextReplays.add(checkpoint.conversationId);
+      return { success: true };
+    } catch (err: any) {
+      log.error(`Failed to restore checkpoint ${checkpointId}`, err);
+      return { success: false, error: err.message };
+    }
+  }
+
+  setReviewWrites(sessionKey: string, enabled: boolean): { success: boolean; error?: string } {
+    const session = this.sessions.get(sessionKey);
+    if (!session) {
+      return { success: false, error: 'Session not found' };
+    }
+    session.reviewWrites = enabled;
+    return { success: true };
+  }
+
+  /**
+   * Accept or reject a staged write. Accepting writes the proposed contents to
+   * disk and completes the agent's `fs/write_text_file` call; rejecting fails it.
+   */
+  async resolveWrite(
+    sessionKey: string,
+    writeId: string,
+    accept: boolean
+  ): Promise<{ success: boolean; error?: string }> {
+    const session = this.sessions.get(sessionKey);
+    if (!session) {
+      return { success: false, error: 'Session not found' };
+    }
+
+    const pending = session.pendingWrites.get(writeId);
+    if (!pending) {
+      return { success: false, error: 'No pending write for this id' };
+    }
+    session.pendingWrites.delete(writeId);
+
+    if (accept) {
+      try {
+        await session.host.writeTextFile(pending.resolvedPath, pending.content);
+      } catch (err: any) {
+        pending.reject(err);
+        this.bufferEvent(sessionKey, { type: 'write_resolved', writeId, accepted: false });
+        return { success: false, error: err.message };
+      }
+      pending.resolve({});
+    } else {
+      pending.reject(new Error('The user rejected this file write'));
+    }
+    this.bufferEvent(sessionKey, { type: 'write_resolved', writeId, accepted: accept });
+    return { success: true };
+  }
+
   async setMode(sessionKey: string, mode: string): Promise<{ success: boolean; error?: string }> {
     const session = this.sessions.get(sessionKey);
     if (!session) {
@@ -1324,16 +1803,21 @@ export class AcpSessionManager {
   }
 
   killSession(sessionKey: string): void {
-    if (this.finalizedSessions.has(sessionKey)) return;
+    if (this.teardownSession(sessionKey)) this.sessionEndedListener?.(sessionKey);
+  }
+
+  /** Stop a session and release what it holds; false if there was nothing to stop. */
+  private teardownSession(sessionKey: string): boolean {
+    if (this.finalizedSessions.has(sessionKey)) return false;
     log.debug('[AcpSessionManager] Killing session', { sessionKey });
     this.finalizedSessions.add(sessionKey);
     this.detachedSessions.delete(sessionKey);
 
     const session = this.sessions.get(sessionKey);
-    if (!session) return;
+    if (!session) return false;
 
-    // Discard any queued prompt
-    session.pendingPrompt = null;
+    // Discard any queued prompts
+    session.promptQueue = [];
 
     // Kill all terminals
     cleanupSessionTerminals(session);
@@ -1344,6 +1828,8 @@ export class AcpSessionManager {
     }
     session.pendingPermissions.clear();
 
+    rejectPendingWrites(session, 'Session closed');
+
     // Clear event buffer
     this.clearEventBuffer(sessionKey);
 
@@ -1357,6 +1843,7 @@ export class AcpSessionManager {
 
     this.sessions.delete(sessionKey);
     log.info(`ACP session killed: ${sessionKey}`);
+    return true;
   }
 
   shutdown(): void {
@@ -1418,6 +1905,10 @@ export class AcpSessionManager {
         }
 
         this.bufferEvent(sessionKey, event);
+
+        if ((params.update as any)?.sessionUpdate === 'usage_update') {
+          this.trackReportedCost(session, (params.update as any).cost);
+        }
       },
 
       requestPermission: async (
@@ -1440,8 +1931,31 @@ export class AcpSessionManager {
           name: o.name,
         }));
 
+        const context = approvalPolicyService.describeRequest(
+          params.toolCall,
+          session.providerId,
+          session.cwd
+        );
+        const match = approvalPolicyService.evaluate(context, session.projectPath);
+        const option = match ? approvalPolicyService.pickOption(options, match.decision) : null;
+        // An allow rule without a matching allow option falls back to asking the user
+        if (match && (option || match.decision === 'reject')) {
+          log.info(
+            `Permission ${toolCallId} auto-decided by ${match.source} rule ${match.ruleId}: ${match.decision}`
+          );
+          approvalPolicyService.record(session.conversationId, toolCallId, context, {
+            decision: match.decision,
+            optionId: option?.optionId ?? null,
+            source: match.source,
+            ruleId: match.ruleId,
+          });
+          return option
+            ? { outcome: { outcome: 'selected', optionId: option.optionId } }
+            : { outcome: { outcome: 'cancelled' } };
+        }
+
         return new Promise<RequestPermissionResponse>((resolve, reject) => {
-          session.pendingPermissions.set(toolCallId, { resolve, reject, options });
+          session.pendingPermissions.set(toolCallId, { resolve, reject, options, context });
 
           this.bufferEvent(sessionKey, {
             type: 'permission_request',
@@ -1462,13 +1976,10 @@ export class AcpSessionManager {
           throw new Error('Session not found');
         }
 
-        // S5: Validate file path is within worktree
-        const resolved = path.resolve(session.cwd, params.path);
-        if (!resolved.startsWith(session.cwd)) {
-          throw new Error(`Path traversal blocked: ${params.path}`);
-        }
+        // S5: Validate file path is within worktree (or a read-only root)
+        const resolved = await this.guardSessionPath(session, params.path, 'read');
 
-        let content = await fsp.readFile(resolved, 'utf-8');
+        let content = await session.host.readTextFile(resolved);
 
         // ACP spec: optional line (1-based start) and limit (max lines)
         const line = (params as any).line as number | undefined | null;
@@ -1495,13 +2006,13 @@ export class AcpSessionManager {
         }
 
         // S5: Validate file path is within worktree
-        const resolved = path.resolve(session.cwd, params.path);
-        if (!resolved.startsWith(session.cwd)) {
-          throw new Error(`Path traversal blocked: ${params.path}`);
+        const resolved = await this.guardSessionPath(session, params.path, 'write');
+
+        if (session.reviewWrites) {
+          return this.proposeWrite(session, resolved, params.content);
         }
 
-        await fsp.mkdir(path.dirname(resolved), { recursive: true });
-        await fsp.writeFile(resolved, params.content, 'utf-8');
+        await session.host.writeTextFile(resolved, params.content);
         return {};
       },
 
@@ -1521,25 +2032,48 @@ export class AcpSessionManager {
         }
 
         // Validate cwd within session worktree
-        const cwd = params.cwd ? path.resolve(session.cwd, params.cwd) : session.cwd;
-        if (!cwd.startsWith(session.cwd)) {
-          throw new Error(`Path traversal blocked: ${params.cwd}`);
+        const cwd = await this.guardSessionPath(session, params.cwd ?? '.', 'write', 'terminal');
+
+        // The bubblewrap sandbox is local; remote commands run in the host's login shell
+        const remote = session.host.connectionId !== null;
+        let sandbox = remote ? null : this.resolveTerminalSandbox(session.providerId);
+        const bwrapPath = sandbox ? findBwrap() : null;
+        let sandboxNotice: string | null = null;
+        if (sandbox && !bwrapPath) {
+          if (sandbox.required) {
+            throw new Error('Terminal sandbox is enabled but bubblewrap (bwrap) is not installed');
+          }
+          // Only the provider default asked for it: run unsandboxed, but say so
+          sandboxNotice = `${SANDBOX_UNAVAILABLE_NOTICE}\n`;
+          log.warn(`[AcpTerminal] ${SANDBOX_UNAVAILABLE_NOTICE} (session ${sessionKey})`);
+          sandbox = null;
         }
 
-        // Build env from array of { name, value }
-        const env: Record<string, string> = { ...process.env } as Record<string, string>;
+        // Build env from array of { name, value }; sandboxed terminals never inherit credentials
+        let env: Record<string, string> = remote
+          ? {}
+          : ({ ...process.env } as Record<string, string>);
+        if (sandbox) {
+          env = scrubSecretEnv(env, getProvider(session.providerId)?.envVars ?? []);
+        }
         if (params.env) {
           for (const v of params.env) {
             env[v.name] = v.value;
           }
         }
 
+        let command = params.command;
+        let args = params.args ?? [];
+        if (sandbox && bwrapPath) {
+          ({ command, args } = buildSandboxCommand(bwrapPath, command, args, {
+            worktreePath: session.cwd,
+            cwd,
+            network: sandbox.network,
+          }));
+        }
+
         const terminalId = crypto.randomUUID();
-        const child = spawn(params.command, params.args ?? [], {
-          cwd,
-          env,
-          stdio: ['ignore', 'pipe', 'pipe'],
-        });
+        const child = session.host.spawn(command, args, { cwd, env, stdin: 'ignore' });
 
         const outputByteLimit = params.outputByteLimit ?? DEFAULT_OUTPUT_BYTE_LIMIT;
 
@@ -1563,6 +2097,7 @@ export class AcpSessionManager {
           exitPromise,
         };
 
+        if (sandboxNotice) appendTerminalOutput(terminal, sandboxNotice);
         child.stdout?.on('data', (chunk: Buffer) =>
           appendTerminalOutput(terminal, chunk.toString('utf-8'))
         );
@@ -1572,7 +2107,7 @@ export class AcpSessionManager {
 
         session.terminals.set(terminalId, terminal);
         log.debug(
-          `[AcpTerminal] Created terminal ${terminalId} for session ${sessionKey}: ${params.command}`
+          `[AcpTerminal] Created terminal ${terminalId} for session ${sessionKey}${sandbox ? ` (sandboxed, network=${sandbox.network})` : ''}: ${params.command}`
         );
 
         return { terminalId };
@@ -1674,6 +2209,245 @@ export class AcpSessionManager {
     };
   }
 
+  /**
+   * Resolve an agent-supplied path with the path guard. Blocked paths are
+   * reported to the renderer as a `path_blocked` session error before the
+   * error is returned to the agent.
+   */
+  private async guardSessionPath(
+    session: AcpSession,
+    requested: string,
+    access: PathAccess,
+    operation: 'read' | 'write' | 'terminal' = access
+  ): Promise<string> {
+    const readOnlyRoots =
+      session.projectPath && session.projectPath !== session.cwd ? [session.projectPath] : [];
+    try {
+      return await session.host.resolvePath(
+        requested,
+        { root: session.cwd, readOnlyRoots },
+        access
+      );
+    } catch (err) {
+      if (err instanceof PathGuardError) {
+        log.warn(`[PathGuard] Blocked ${operation} for ${session.sessionKey}: ${requested}`);
+        this.bufferEvent(session.sessionKey, {
+          type: 'session_error',
+          error: err.message,
+          code: 'path_blocked',
+          detail: { operation, path: requested, resolvedPath: err.resolvedPath },
+        });
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Snapshot the worktree for a turn and tell the renderer; never rejects.
+   * Checkpoints use the local git object store, so remote worktrees have none.
+   */
+  private async createTurnCheckpoint(session: AcpSession, messageId?: string): Promise<void> {
+    if (!messageId || session.host.connectionId) return;
+    const checkpoint = await checkpointService.create(
+      session.conversationId,
+      messageId,
+      session.cwd
+    );
+    if (checkpoint) {
+      this.bufferEvent(session.sessionKey, {
+        type: 'checkpoint_created',
+        checkpoint: {
+          id: checkpoint.id,
+          messageId: checkpoint.messageId,
+          createdAt: checkpoint.createdAt,
+        },
+      });
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Internal: usage ledger and budgets
+  // -----------------------------------------------------------------------
+
+  /**
+   * Agents report cumulative session cost in `usage_update`; attribute the
+   * increase to the in-flight turn and pause the session if that pushes it
+   * over a budget.
+   */
+  private trackReportedCost(session: AcpSession, cost: any): void {
+    if (typeof cost?.amount !== 'number' || (cost.currency && cost.currency !== 'USD')) return;
+    session.reportedCostUsd = cost.amount;
+    const turn = session.usageTurn;
+    if (!turn) return;
+    turn.costUsd = Math.max(0, cost.amount - turn.startCostUsd);
+    this.enforceBudget(session, turn).catch((err) => {
+      log.warn(`[Usage] Budget check failed for ${session.sessionKey}`, err);
+    });
+  }
+
+  private async enforceBudget(session: AcpSession, turn: AcpUsageTurn): Promise<void> {
+    const budgets = getUsageBudgets();
+    if (!budgets?.enabled || turn.budgetBreach) return;
+    turn.spendBefore ??= await databaseService.getUsageSpend(
+      session.conversationId,
+      startOfLocalDay()
+    );
+    const breach = findExceededBudget(budgets, {
+      task: turn.spendBefore.task + turn.costUsd,
+      project: turn.spendBefore.project + turn.costUsd,
+      day: turn.spendBefore.day + turn.costUsd,
+    });
+    if (!breach || turn.budgetBreach || session.usageTurn !== turn) return;
+
+    turn.budgetBreach = breach;
+    log.info(`[Usage] ${formatBudgetBreach(breach)} — cancelling turn for ${session.sessionKey}`);
+    this.bufferEvent(session.sessionKey, { type: 'budget_exceeded', breach });
+    await this.cancelSession(session.sessionKey);
+  }
+
+  /** Returns the budget this session's task, project or today has already used up. */
+  private async checkBudget(session: AcpSession): Promise<UsageBudgetBreach | null> {
+    const budgets = getUsageBudgets();
+    if (!budgets?.enabled) return null;
+    try {
+      const spend = await databaseService.getUsageSpend(session.conversationId, startOfLocalDay());
+      return findExceededBudget(budgets, spend);
+    } catch (err) {
+      log.warn(`[Usage] Budget check failed for ${session.sessionKey}`, err);
+      return null;
+    }
+  }
+
+  /** Write the finished turn to the usage ledger. `usage` is the prompt response's token report. */
+  private recordTurnUsage(session: AcpSession, usage?: Usage | null): void {
+    const turn = session.usageTurn;
+    if (!turn) return;
+    session.usageTurn = null;
+
+    const count = (value: unknown) =>
+      typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.round(value)) : 0;
+    const inputTokens = count(usage?.inputTokens);
+    const outputTokens = count(usage?.outputTokens);
+    const totalTokens = count(usage?.totalTokens) || inputTokens + outputTokens;
+    if (totalTokens === 0 && turn.costUsd === 0) return;
+
+    databaseService
+      .saveUsageEntry({
+        conversationId: session.conversationId,
+        messageId: turn.messageId ?? null,
+        providerId: session.providerId,
+        modelId: session.models?.currentModelId ?? null,
+        inputTokens,
+        outputTokens,
+        cachedReadTokens: count(usage?.cachedReadTokens),
+        cachedWriteTokens: count(usage?.cachedWriteTokens),
+        totalTokens,
+        costUsd: turn.costUsd,
+      })
+      .catch((err) => {
+        log.warn(`[Usage] Failed to record usage for ${session.sessionKey}`, err);
+      });
+  }
+
+  /**
+   * Stage an agent write for review. A write to a file that already has one
+   * staged replaces it: the new diff is taken from disk so it covers both, and
+   * the earlier call settles the same way as the one that replaced it.
+   */
+  private proposeWrite(
+    session: AcpSession,
+    resolvedPath: string,
+    content: string
+  ): Promise<WriteTextFileResponse> {
+    const superseded = [...session.pendingWrites].filter(
+      ([, pending]) => pending.resolvedPath === resolvedPath
+    );
+    for (const [writeId] of superseded) {
+      session.pendingWrites.delete(writeId);
+      this.bufferEvent(session.sessionKey, { type: 'write_resolved', writeId, accepted: false });
+    }
+
+    const result = this.stageWrite(session, resolvedPath, content);
+    for (const [, pending] of superseded) {
+      result.then(pending.resolve, pending.reject);
+    }
+    return result;
+  }
+
+  /**
+   * Approval rules for edits still apply: an allow rule writes straight
+   * through and a reject rule fails the write. Otherwise the agent's call
+   * stays open until the user accepts or rejects.
+   */
+  private async stageWrite(
+    session: AcpSession,
+    resolvedPath: string,
+    content: string
+  ): Promise<WriteTextFileResponse> {
+    const context: PermissionRequestContext = {
+      providerId: session.providerId,
+      worktreePath: session.cwd,
+      toolKind: 'edit',
+      title: null,
+      command: null,
+      paths: [resolvedPath],
+    };
+    const match = approvalPolicyService.evaluate(context, session.projectPath);
+    if (match?.decision === 'reject') {
+      throw new Error(`Write rejected by ${match.source} rule ${match.ruleId}`);
+    }
+    if (match) {
+      log.info(`Write to ${resolvedPath} auto-accepted by ${match.source} rule ${match.ruleId}`);
+      await session.host.writeTextFile(resolvedPath, content);
+      return {};
+    }
+
+    const original = await session.host.readTextFile(resolvedPath).catch((err: any) => {
+      if (err?.code === 'ENOENT') return null;
+      throw err;
+    });
+    // Nothing to review when the agent rewrites a file unchanged
+    if (original === content) return {};
+
+    const relativePath =
+      session.host.path.relative(session.cwd, resolvedPath) ||
+      session.host.path.basename(resolvedPath);
+    const write: AcpProposedWrite = {
+      id: crypto.randomUUID(),
+      path: relativePath,
+      diff: await getContentDiff(relativePath, original, content),
+      isNewFile: original === null,
+      proposedAt: new Date().toISOString(),
+    };
+
+    return new Promise<WriteTextFileResponse>((resolve, reject) => {
+      session.pendingWrites.set(write.id, { resolvedPath, content, resolve, reject });
+      this.bufferEvent(session.sessionKey, { type: 'write_proposed', write });
+    });
+  }
+
+  /**
+   * Decide whether agent-spawned terminals for a provider run sandboxed.
+   * The app setting can force the sandbox on or off; otherwise the provider
+   * registry default applies. Returns null when commands run unsandboxed;
+   * `required` is set when the user asked for the sandbox rather than the
+   * provider default.
+   */
+  private resolveTerminalSandbox(
+    providerId: ProviderId
+  ): { network: boolean; required: boolean } | null {
+    if (process.platform !== 'linux') return null;
+    const settings = getAppSettings().acpSandbox;
+    const mode = settings?.mode ?? 'provider';
+    const allowNetwork = settings?.allowNetwork ?? true;
+    if (mode === 'off') return null;
+    if (mode === 'always') return { network: allowNetwork, required: true };
+
+    const defaults = getProvider(providerId)?.acpSandbox;
+    if (!defaults?.enabled) return null;
+    return { network: defaults.network ?? allowNetwork, required: false };
+  }
+
   /**
    * Fallback: find a session on this connection when sessionId is not in the event.
    * Used for dedicated (non-pooled) connections where there's only one session.
@@ -1701,21 +2475,10 @@ export class AcpSessionManager {
       status,
     });
 
-    // Auto-drain queued prompt when session becomes ready
-    if (status === 'ready' && session.pendingPrompt) {
-      const { message, files } = session.pendingPrompt;
-      session.pendingPrompt = null;
-      log.info(`Draining pending prompt for ${sessionKey}`);
-      // Use nextTick so the ready status event flushes before the new prompt starts
-      process.nextTick(() => {
-        this.sendPrompt(sessionKey, message, files).catch((err) => {
-          log.error(`Failed to drain pending prompt for ${sessionKey}`, err);
-        });
-      });
-    } else if (
-      status === 'ready' &&
-      (prevStatus === 'streaming' || prevStatus === 'submitted')
-    ) {
+    // Auto-drain the prompt queue when session becomes ready
+    if (status === 'ready' && session.promptQueue.length > 0) {
+      this.drainPromptQueue(session);
+    } else if (status === 'ready' && (prevStatus === 'streaming' || prevStatus === 'submitted')) {
       // Agent finished — fire desktop notification if app is not focused
       this.showAcpCompletionNotification(session.providerId);
     }
@@ -1723,7 +2486,6 @@ export class AcpSessionManager {
 
   private showAcpCompletionNotification(providerId: string): void {
     try {
-      const { getAppSettings } = require('../settings') as typeof import('../settings');
       const settings = getAppSettings();
       if (!settings.notifications?.enabled) return;
 
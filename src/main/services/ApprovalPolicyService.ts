@@ -0,0 +1,228 @@
+import path from 'path';
+import { minimatch } from 'minimatch';
+import { log } from '../lib/logger';
+import { getAppSettings } from '../settings';
+import { databaseService } from './DatabaseService';
+import { lifecycleScriptsService } from './LifecycleScriptsService';
+import { isPathInside } from '../utils/pathGuard';
+import {
+  normalizeApprovalRules,
+  type ApprovalAuditEntry,
+  type ApprovalAuditSource,
+  type ApprovalDecision,
+  type ApprovalRule,
+  type ApprovalToolKind,
+} from '@shared/approvalPolicy';
+
+/** Normalized view of an ACP permission request, used for matching and auditing. */
+export interface PermissionRequestContext {
+  providerId: string;
+  worktreePath: string;
+  toolKind: string | null;
+  title: string | null;
+  command: string | null;
+  /** Absolute paths the tool call touches. */
+  paths: string[];
+}
+
+export interface ApprovalMatch {
+  decision: ApprovalDecision;
+  rule: ApprovalRule;
+  /** Rule id, or `<source>#<position>` for rules without one. */
+  ruleId: string;
+  source: Exclude<ApprovalAuditSource, 'user'>;
+}
+
+type PermissionOption = { optionId: string; kind: string; name: string };
+
+/** Shell operators that can chain a second command onto an allowed prefix. */
+const SHELL_CHAIN_PATTERN = /[;&|`\n]|\$\(|>|</;
+
+const OPTION_PREFERENCE: Record<ApprovalDecision, string[]> = {
+  allow_once: ['allow_once', 'allow_always'],
+  allow_always: ['allow_always', 'allow_once'],
+  reject: ['reject_once', 'reject_always'],
+};
+
+function matchesGlob(ctx: PermissionRequestContext, target: string, glob: string): boolean {
+  const subject = isPathInside(ctx.worktreePath, target)
+    ? path.relative(ctx.worktreePath, target).split(path.sep).join('/')
+    : target;
+  return minimatch(subject, glob, { dot: true, matchBase: !glob.includes('/') });
+}
+
+/**
+ * Test a single rule against a request.
+ *
+ * Path criteria are decision-aware: allow rules require every touched path to
+ * qualify, reject rules fire when any path does. A multi-file edit can
+ * therefore never be auto-allowed on the strength of one harmless path.
+ */
+export function matchesRule(rule: ApprovalRule, ctx: PermissionRequestContext): boolean {
+  const allowing = rule.decision !== 'reject';
+
+  if (rule.providers && !rule.providers.includes(ctx.providerId)) return false;
+  if (
+    rule.toolKinds &&
+    !(ctx.toolKind && rule.toolKinds.includes(ctx.toolKind as ApprovalToolKind))
+  ) {
+    return false;
+  }
+
+  if (rule.commandPrefixes) {
+    const command = ctx.command?.trim();
+    if (!command) return false;
+    if (allowing && SHELL_CHAIN_PATTERN.test(command)) return false;
+    const hit = rule.commandPrefixes.some(
+      (prefix) => command === prefix || command.startsWith(`${prefix} `)
+    );
+    if (!hit) return false;
+  }
+
+  if (rule.pathScope || rule.pathGlobs) {
+    if (ctx.paths.length === 0) return false;
+    const qualifies = (p: string): boolean => {
+      if (rule.pathScope) {
+        const inside = isPathInside(ctx.worktreePath, p);
+        if ((rule.pathScope === 'inside_worktree') !== inside) return false;
+      }
+      if (rule.pathGlobs && !rule.pathGlobs.some((g) => matchesGlob(ctx, p, g))) return false;
+      return true;
+    };
+    const ok = allowing ? ctx.paths.every(qualifies) : ctx.paths.some(qualifies);
+    if (!ok) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Evaluates auto-approval rules for ACP permission requests and records
+ * every decision (automatic or manual) to the per-task audit trail.
+ * Project rules come from .valkyr.json at the project root and take
+ * precedence over the global rules in AppSettings.
+ */
+class ApprovalPolicyService {
+  /**
+   * Build a matching context from an ACP `requestPermission` tool call.
+   */
+  describeRequest(
+    toolCall: any,
+    providerId: string,
+    worktreePath: string
+  ): PermissionRequestContext {
+    const raw =
+      toolCall?.rawInput && typeof toolCall.rawInput === 'object' ? toolCall.rawInput : {};
+    const toolKind = typeof toolCall?.kind === 'string' ? toolCall.kind : null;
+    const title = typeof toolCall?.title === 'string' ? toolCall.title : null;
+
+    let command: string | null = null;
+    if (typeof raw.command === 'string') command = raw.command;
+    else if (Array.isArray(raw.command)) command = raw.command.join(' ');
+    else if (typeof raw.cmd === 'string') command = raw.cmd;
+    else if (toolKind === 'execute' && title) command = title;
+
+    const candidates: unknown[] = [
+      ...(Array.isArray(toolCall?.locations) ? toolCall.locations.map((l: any) => l?.path) : []),
+      raw.file_path,
+      raw.path,
+      raw.notebook_path,
+    ];
+    const paths = Array.from(
+      new Set(
+        candidates
+          .filter((p): p is string => typeof p === 'string' && p.length > 0)
+          .map((p) => path.resolve(worktreePath, p))
+      )
+    );
+
+    return { providerId, worktreePath, toolKind, title, command, paths };
+  }
+
+  /**
+   * Find the first matching rule, project rules before global ones.
+   * Returns null when the request should be left to the user.
+   */
+  evaluate(ctx: PermissionRequestContext, projectPath?: string): ApprovalMatch | null {
+    const candidates: Array<{ rules: ApprovalRule[]; source: ApprovalMatch['source'] }> = [];
+
+    if (projectPath) {
+      const policy = lifecycleScriptsService.readConfig(projectPath)?.approvalPolicy;
+      if (policy && policy.enabled !== false) {
+        candidates.push({ rules: normalizeApprovalRules(policy.rules), source: 'project_policy' });
+      }
+    }
+
+    const global = getAppSettings().approvalPolicy;
+    if (global?.enabled) {
+      candidates.push({ rules: global.rules, source: 'global_policy' });
+    }
+
+    // Never let a rule auto-allow edits to the file that defines the rules
+    const touchesConfig =
+      projectPath != null &&
+      ctx.paths.some((p) => p === path.join(path.resolve(projectPath), '.valkyr.json'));
+
+    for (const { rules, source } of candidates) {
+      for (const [i, rule] of rules.entries()) {
+        if (!matchesRule(rule, ctx)) continue;
+        if (touchesConfig && rule.decision !== 'reject') continue;
+        return { decision: rule.decision, rule, ruleId: rule.id ?? `${source}#${i + 1}`, source };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Pick the agent-offered option that implements a decision.
+   * Returns null when the agent offered no matching option.
+   */
+  pickOption(options: PermissionOption[], decision: ApprovalDecision): PermissionOption | null {
+    for (const kind of OPTION_PREFERENCE[decision]) {
+      const option = options.find((o) => o.kind === kind);
+      if (option) return option;
+    }
+    return null;
+  }
+
+  /** Map a selected option back to the decision it represents. */
+  decisionForOption(
+    options: PermissionOption[],
+    optionId: string | null
+  ): ApprovalAuditEntry['decision'] {
+    const kind = optionId ? options.find((o) => o.optionId === optionId)?.kind : undefined;
+    if (kind === 'allow_once' || kind === 'allow_always') return kind;
+    if (kind === 'reject_once' || kind === 'reject_always') return 'reject';
+    return 'cancelled';
+  }
+
+  record(
+    conversationId: string,
+    toolCallId: string,
+    ctx: PermissionRequestContext,
+    outcome: {
+      decision: ApprovalAuditEntry['decision'];
+      optionId: string | null;
+      source: ApprovalAuditSource;
+      ruleId?: string | null;
+    }
+  ): void {
+    databaseService
+      .savePermissionAudit({
+        conversationId,
+        provider: ctx.providerId,
+        toolCallId,
+        toolKind: ctx.toolKind,
+        title: ctx.title,
+        command: ctx.command,
+        paths: ctx.paths,
+        decision: outcome.decision,
+        optionId: outcome.optionId,
+        source: outcome.source,
+        ruleId: outcome.ruleId ?? null,
+      })
+      .catch((err) => log.warn('Failed to record permission audit entry', err));
+  }
+}
+
+export const approvalPolicyService = new ApprovalPolicyService();
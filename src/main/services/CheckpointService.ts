@@ -0,0 +1,156 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { log } from '../lib/logger';
+import { databaseService, type Checkpoint } from './DatabaseService';
+
+const execFileAsync = promisify(execFile);
+
+/** Hidden refs that keep checkpoint commits reachable (and out of `git log --all` noise). */
+const CHECKPOINT_REF_PREFIX = 'refs/valkyr/checkpoints/';
+
+/** Identity for snapshot commits, so checkpoints work without a configured git user. */
+const SNAPSHOT_ENV = {
+  GIT_AUTHOR_NAME: 'Valkyr',
+  GIT_AUTHOR_EMAIL: 'checkpoints@valkyr.local',
+  GIT_COMMITTER_NAME: 'Valkyr',
+  GIT_COMMITTER_EMAIL: 'checkpoints@valkyr.local',
+};
+
+async function git(cwd: string, args: string[], env?: Record<string, string>): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd,
+    env: env ? { ...process.env, ...env } : process.env,
+    maxBuffer: 16 * 1024 * 1024,
+  });
+  return stdout.trim();
+}
+
+/**
+ * Per-turn worktree snapshots for ACP chats.
+ *
+ * A snapshot is a commit whose tree is the full working state (tracked and
+ * untracked, minus ignored files), built through a throwaway index so the
+ * user's index and stash are untouched. The commit is pinned by a hidden ref
+ * and recorded in the `checkpoints` table against the user message that
+ * started the turn.
+ */
+export class CheckpointService {
+  /**
+   * Snapshot the worktree at the start of a turn. Returns null (and logs) when
+   * the worktree isn't a git repository or the snapshot fails — a missing
+   * checkpoint must never block the prompt.
+   */
+  async create(
+    conversationId: string,
+    messageId: string,
+    worktreePath: string
+  ): Promise<Checkpoint | null> {
+    const id = crypto.randomUUID();
+    const tmpIndex = path.join(os.tmpdir(), `valkyr-checkpoint-${id}.index`);
+    try {
+      const topLevel = await git(worktreePath, ['rev-parse', '--show-toplevel']).catch(() => null);
+      if (!topLevel) return null;
+
+      const headSha = await git(worktreePath, ['rev-parse', '--verify', '-q', 'HEAD']).catch(
+        () => null
+      );
+      const indexEnv = { GIT_INDEX_FILE: tmpIndex };
+      // Seed the temporary index from HEAD so `git add` only hashes changed files
+      if (headSha) await git(worktreePath, ['read-tree', headSha], indexEnv);
+      await git(worktreePath, ['add', '-A', '--', '.'], indexEnv);
+      const tree = await git(worktreePath, ['write-tree'], indexEnv);
+      const commitSha = await git(
+        worktreePath,
+        [
+          'commit-tree',
+          tree,
+          ...(headSha ? ['-p', headSha] : []),
+          '-m',
+          `Valkyr checkpoint for message ${messageId}`,
+        ],
+        SNAPSHOT_ENV
+      );
+      await git(worktreePath, ['update-ref', `${CHECKPOINT_REF_PREFIX}${id}`, commitSha]);
+
+      return await databaseService.saveCheckpoint({
+        id,
+        conversationId,
+        messageId,
+        worktreePath,
+        commitSha,
+        headSha,
+      });
+    } catch (err) {
+      log.warn(`[Checkpoint] Failed to snapshot ${worktreePath}`, err);
+      return null;
+    } finally {
+      await fs.promises.rm(tmpIndex, { force: true }).catch(() => {});
+    }
+  }
+
+  async list(conversationId: string): Promise<Checkpoint[]> {
+    return databaseService.getCheckpoints(conversationId);
+  }
+
+  /**
+   * Reset the worktree and the conversation to the start of a checkpoint's
+   * turn: files (including deletions of files created since), HEAD, and the
+   * stored messages from that turn onward. Later checkpoints are dropped.
+   * The caller is responsible for stopping the agent first.
+   */
+  async restore(checkpointId: string): Promise<Checkpoint> {
+    const checkpoint = await databaseService.getCheckpoint(checkpointId);
+    if (!checkpoint) {
+      throw new Error('Checkpoint not found');
+    }
+    const cwd = checkpoint.worktreePath;
+    if (!fs.existsSync(cwd)) {
+      throw new Error(`Worktree no longer exists: ${cwd}`);
+    }
+
+    // Files: make index + worktree match the snapshot, then drop files created since
+    await git(cwd, ['read-tree', '-u', '--reset', checkpoint.commitSha]);
+    await git(cwd, ['clean', '-fdq']);
+    // HEAD/index: back to the commit the turn started on; snapshot-only files become untracked again
+    if (checkpoint.headSha) {
+      await git(cwd, ['reset', '-q', checkpoint.headSha]);
+    } else {
+      await git(cwd, ['read-tree', '--empty']);
+    }
+
+    await databaseService.deleteMessagesFrom(checkpoint.conversationId, checkpoint.messageId);
+    const stale = (await databaseService.getCheckpoints(checkpoint.conversationId)).filter(
+      (c) => c.sequence >= checkpoint.sequence
+    );
+    await this.remove(stale);
+
+    log.info(`[Checkpoint] Restored ${cwd} to checkpoint ${checkpointId}`);
+    return checkpoint;
+  }
+
+  /** Drop every checkpoint of a task (refs and rows), e.g. when it is archived. */
+  async pruneTask(taskId: string): Promise<void> {
+    const checkpoints = await databaseService.getTaskCheckpoints(taskId);
+    if (checkpoints.length === 0) return;
+    await this.remove(checkpoints);
+    log.info(`[Checkpoint] Pruned ${checkpoints.length} checkpoints for task ${taskId}`);
+  }
+
+  private async remove(checkpoints: Checkpoint[]): Promise<void> {
+    for (const checkpoint of checkpoints) {
+      if (!fs.existsSync(checkpoint.worktreePath)) continue;
+      await git(checkpoint.worktreePath, [
+        'update-ref',
+        '-d',
+        `${CHECKPOINT_REF_PREFIX}${checkpoint.id}`,
+      ]).catch(() => {});
+    }
+    await databaseService.deleteCheckpoints(checkpoints.map((c) => c.id));
+  }
+}
+
+export const checkpointService = new CheckpointService();
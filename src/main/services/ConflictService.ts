@@ -0,0 +1,226 @@
+import { execFile } from 'child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import { promisify } from 'util';
+import { log } from '../lib/logger';
+import { resolveGuardedPath } from '../utils/pathGuard';
+import { gitQueue } from './GitQueue';
+import { localMergeService } from './LocalMergeService';
+import {
+  conflictSideLabels,
+  type BaseSyncStatus,
+  type ConflictFile,
+  type UpdateFromBaseResult,
+  type UpdateStrategy,
+} from '@shared/conflicts';
+
+const execFileAsync = promisify(execFile);
+
+async function git(cwd: string, args: string[], env?: NodeJS.ProcessEnv): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd,
+    maxBuffer: 16 * 1024 * 1024,
+    env: env ? { ...process.env, ...env } : undefined,
+  });
+  return stdout.trim();
+}
+
+const succeeds = (promise: Promise<unknown>) => promise.then(() => true).catch(() => false);
+
+/**
+ * Brings a task branch up to date with its base branch by rebasing or merging,
+ * and walks through the conflicts that stops on: per-file three-way content,
+ * resolving, continuing and aborting. Conflicted operations are left in
+ * progress in the task's worktree so they can be resolved there.
+ */
+export class ConflictService {
+  async status(taskPath: string): Promise<BaseSyncStatus> {
+    const base = await this.resolveBase(taskPath);
+    const [behind, operation, conflicts] = await Promise.all([
+      git(taskPath, ['rev-list', '--count', `HEAD..${base}`]).then(Number),
+      this.operation(taskPath),
+      this.conflictedFiles(taskPath),
+    ]);
+    return { base, behind, operation, conflicts };
+  }
+
+  /**
+   * Fetch the base and rebase or merge it into the task. Uncommitted changes
+   * are stashed around the update. On conflicts the operation stays in
+   * progress and the returned status lists the conflicted files.
+   */
+  async updateFromBase(taskPath: string, strategy: UpdateStrategy): Promise<UpdateFromBaseResult> {
+    return gitQueue.run(taskPath, async () => {
+      if (await this.operation(taskPath)) {
+        throw new Error('A rebase or merge is already in progress; continue or abort it first');
+      }
+      const { target, remote } = await localMergeService.resolveTarget(taskPath);
+      if (remote) {
+        await git(taskPath, ['fetch', '--quiet', remote, target]).catch((error) => {
+          log.warn(`[Conflicts] Could not fetch ${remote}/${target}; using local refs`, error);
+        });
+      }
+
+      const base = await this.resolveBase(taskPath);
+      if (await succeeds(git(taskPath, ['merge-base', '--is-ancestor', base, 'HEAD']))) {
+        return { success: true, upToDate: true, status: await this.status(taskPath) };
+      }
+
+      try {
+        if (strategy === 'rebase') {
+          await git(taskPath, ['rebase', '--autostash', base]);
+        } else {
+          await git(taskPath, ['merge', '--autostash', '--no-edit', base]);
+        }
+      } catch (error) {
+        const status = await this.status(taskPath);
+        if (status.conflicts.length > 0) {
+          return { success: false, status, error: `${status.conflicts.length} file(s) conflict` };
+        }
+        await this.abortOperation(taskPath).catch(() => {});
+        throw new Error(`Failed to ${strategy} onto ${base}: ${(error as Error).message}`);
+      }
+      log.info(`[Conflicts] Updated ${taskPath} from ${base} via ${strategy}`);
+      return { success: true, status: await this.status(taskPath) };
+    });
+  }
+
+  async getFile(taskPath: string, filePath: string): Promise<ConflictFile> {
+    const absolute = await resolveGuardedPath(filePath, { root: taskPath }, 'read');
+    const [status, base, ours, theirs] = await Promise.all([
+      this.status(taskPath),
+      this.stage(taskPath, 1, filePath),
+      this.stage(taskPath, 2, filePath),
+      this.stage(taskPath, 3, filePath),
+    ]);
+    const merged = fs.existsSync(absolute) ? fs.readFileSync(absolute, 'utf8') : null;
+    return {
+      path: filePath,
+      base,
+      ours,
+      theirs,
+      merged,
+      ...conflictSideLabels(status.operation ?? 'merge', status.base),
+    };
+  }
+
+  /** Write the resolved content (null deletes the file) and mark it resolved. */
+  async resolveFile(taskPath: string, filePath: string, content: string | null): Promise<void> {
+    await gitQueue.run(taskPath, async () => {
+      // Resolved through symlinks: the base branch may bring a symlinked directory
+      const absolute = await resolveGuardedPath(filePath, { root: taskPath }, 'write');
+      if (content === null) {
+        await git(taskPath, ['rm', '--quiet', '--force', '--', filePath]);
+        return;
+      }
+      fs.mkdirSync(path.dirname(absolute), { recursive: true });
+      fs.writeFileSync(absolute, content, 'utf8');
+      await git(taskPath, ['add', '--', filePath]);
+    });
+  }
+
+  /**
+   * Continue the operation once every conflict is resolved. A rebase may stop
+   * again on a later commit; the result then carries its conflicts.
+   */
+  async continue(taskPath: string): Promise<UpdateFromBaseResult> {
+    return gitQueue.run(taskPath, async () => {
+      const operation = await this.operation(taskPath);
+      if (!operation) {
+        throw new Error('No rebase or merge in progress');
+      }
+      if ((await this.conflictedFiles(taskPath)).length > 0) {
+        throw new Error('Resolve all conflicts before continuing');
+      }
+      try {
+        if (operation === 'rebase') {
+          await git(taskPath, ['rebase', '--continue'], { GIT_EDITOR: 'true' });
+        } else {
+          await git(taskPath, ['commit', '--quiet', '--no-edit']);
+        }
+      } catch (error) {
+        const status = await this.status(taskPath);
+        if (status.conflicts.length > 0) {
+          return {
+            success: false,
+            status,
+            error: `The next commit conflicts in ${status.conflicts.length} file(s)`,
+          };
+        }
+        throw new Error(`Failed to continue the ${operation}: ${(error as Error).message}`);
+      }
+      return { success: true, status: await this.status(taskPath) };
+    });
+  }
+
+  async abort(taskPath: string): Promise<void> {
+    await gitQueue.run(taskPath, () => this.abortOperation(taskPath));
+  }
+
+  private async abortOperation(taskPath: string): Promise<void> {
+    const operation = await this.operation(taskPath);
+    if (!operation) {
+      throw new Error('No rebase or merge in progress');
+    }
+    await git(taskPath, [operation, '--abort']);
+  }
+
+  /**
+   * Ref the task is updated from: the project's base branch, locally or on its
+   * remote, whichever is further ahead. Local merges may not be pushed yet.
+   */
+  private async resolveBase(taskPath: string): Promise<string> {
+    const { target, remote, isRemoteProject } = await localMergeService.resolveTarget(taskPath);
+    if (isRemoteProject) {
+      throw new Error('Updating from the base branch is not supported for remote projects');
+    }
+    const remoteRef = remote ? `${remote}/${target}` : null;
+    const hasLocal = await succeeds(
+      git(taskPath, ['rev-parse', '--verify', '--quiet', `refs/heads/${target}`])
+    );
+    const hasRemote =
+      !!remoteRef &&
+      (await succeeds(
+        git(taskPath, ['rev-parse', '--verify', '--quiet', `refs/remotes/${remoteRef}`])
+      ));
+
+    if (hasLocal && hasRemote) {
+      const localIsAhead = await succeeds(
+        git(taskPath, ['merge-base', '--is-ancestor', `refs/remotes/${remoteRef}`, target])
+      );
+      return localIsAhead ? target : remoteRef!;
+    }
+    if (hasRemote) return remoteRef!;
+    if (hasLocal) return target;
+    throw new Error(`Base branch ${target} does not exist`);
+  }
+
+  private async operation(taskPath: string): Promise<UpdateStrategy | null> {
+    for (const dir of ['rebase-merge', 'rebase-apply']) {
+      const gitPath = await git(taskPath, ['rev-parse', '--git-path', dir]);
+      if (fs.existsSync(path.resolve(taskPath, gitPath))) return 'rebase';
+    }
+    const merging = await succeeds(git(taskPath, ['rev-parse', '-q', '--verify', 'MERGE_HEAD']));
+    return merging ? 'merge' : null;
+  }
+
+  private async conflictedFiles(taskPath: string): Promise<string[]> {
+    const output = await git(taskPath, ['diff', '--name-only', '--diff-filter=U']);
+    return output.split('\n').filter(Boolean);
+  }
+
+  /** Content of a file at an index stage (1 base, 2 ours, 3 theirs); null if absent. */
+  private async stage(taskPath: string, stage: 1 | 2 | 3, filePath: string) {
+    try {
+      const { stdout } = await execFileAsync('git', ['show', `:${stage}:${filePath}`], {
+        cwd: taskPath,
+        maxBuffer: 16 * 1024 * 1024,
+      });
+      return stdout;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const conflictService = new ConflictService();
@@ -0,0 +1,60 @@
+import { getAppSettings } from '../settings';
+import { log } from '../lib/logger';
+import { lifecycleScriptsService } from './LifecycleScriptsService';
+import { resolveRemoteConnectionId } from './ssh/remoteProject';
+import { setCustomProviders, type ProviderDefinition } from '@shared/providers/registry';
+import {
+  customAgentProvider,
+  normalizeCustomAgents,
+  type CustomAgentConfig,
+} from '@shared/providers/customAgents';
+
+/**
+ * Publishes user-defined agents to the provider registry: the global ones
+ * from settings, and those of each project's `.valkyr.json` under that
+ * project's path so they are only found when spawning in it.
+ */
+class CustomAgentService {
+  /**
+   * Re-read the agents of `projectPath` (a project root or a worktree of one)
+   * and publish them. Returns the agents available to that project. A project
+   * agent reusing the id of one from settings is ignored: a cloned repo must
+   * not replace an agent the user defined.
+   */
+  async refresh(projectPath?: string): Promise<ProviderDefinition[]> {
+    const global = (getAppSettings().customAgents ?? []).map(customAgentProvider);
+    setCustomProviders(global);
+    if (!projectPath) return global;
+
+    const globalIds = new Set(global.map((agent) => agent.id));
+    const project: ProviderDefinition[] = [];
+    for (const agent of await this.readProjectAgents(projectPath)) {
+      const provider = customAgentProvider(agent);
+      if (globalIds.has(provider.id)) {
+        log.warn('customAgents: project agent shadows one from settings; ignoring it', {
+          projectPath,
+          id: provider.id,
+        });
+        continue;
+      }
+      project.push(provider);
+    }
+    setCustomProviders(project, projectPath);
+    return [...global, ...project];
+  }
+
+  private async readProjectAgents(projectPath: string): Promise<CustomAgentConfig[]> {
+    try {
+      const connectionId = await resolveRemoteConnectionId(projectPath, projectPath);
+      const config = connectionId
+        ? await lifecycleScriptsService.readRemoteConfig(connectionId, projectPath)
+        : lifecycleScriptsService.readConfig(projectPath);
+      return normalizeCustomAgents(config?.agents);
+    } catch (error) {
+      log.warn('customAgents: failed to read project agents', { projectPath, error });
+      return [];
+    }
+  }
+}
+
+export const customAgentService = new CustomAgentService();
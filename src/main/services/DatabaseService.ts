@@ -13,6 +13,10 @@ import {
   conversations as conversationsTable,
   messages as messagesTable,
   lineComments as lineCommentsTable,
+  permissionAudit as permissionAuditTable,
+  checkpoints as checkpointsTable,
+  verifyRuns as verifyRunsTable,
+  usageEntries as usageEntriesTable,
   sshConnections as sshConnectionsTable,
   appState as appStateTable,
   terminalSessions as terminalSessionsTable,
@@ -25,12 +29,19 @@ import {
   type MessageRow,
   type LineCommentRow,
   type LineCommentInsert,
+  type PermissionAuditRow,
+  type CheckpointRow,
+  type VerifyRunRow,
   type SshConnectionRow,
   type SshConnectionInsert,
   type AppStateRow,
   type TerminalSessionRow,
   type KanbanColumnRow,
 } from '../db/schema';
+import type { ApprovalAuditEntry } from '@shared/approvalPolicy';
+import { isMergeStrategy, type MergeStrategy } from '@shared/merge';
+import type { UsageEntry, UsageGroupBy, UsageSpend, UsageSummaryRow } from '@shared/usage';
+import { emptyVerifySummary, type VerifyRun, type VerifyRunStatus } from '@shared/verify';
 
 /** Git information for a sub-repository in a multi-repo project */
 export interface SubRepoGitInfo {
@@ -92,6 +103,7 @@ export interface Project {
     repository: string;
     connected: boolean;
   };
+  mergeStrategy?: MergeStrategy | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -140,6 +152,18 @@ export interface Message {
   metadata?: string; // JSON string for additional data
 }
 
+export interface Checkpoint {
+  id: string;
+  conversationId: string;
+  messageId: string;
+  worktreePath: string;
+  commitSha: string;
+  headSha: string | null;
+  /** Creation order within the conversation; `createdAt` can tie. */
+  sequence: number;
+  createdAt: string;
+}
+
 export interface MigrationSummary {
   appliedCount: number;
   totalMigrations: number;
@@ -165,6 +189,8 @@ export interface TerminalSession {
   createdAt: string;
 }
 
+const VERIFY_RUNS_KEPT_PER_TASK = 20;
+
 export class DatabaseService {
   private static migrationsApplied = false;
   private db: sqlite3Type.Database | null = null;
@@ -365,6 +391,30 @@ export class DatabaseService {
     return this.getProjectById(projectId);
   }
 
+  async updateProjectMergeStrategy(
+    projectId: string,
+    strategy: MergeStrategy | null
+  ): Promise<Project | null> {
+    if (this.disabled) return null;
+    if (!projectId) {
+      throw new Error('projectId is required');
+    }
+    if (strategy !== null && !isMergeStrategy(strategy)) {
+      throw new Error(`Unknown merge strategy: ${strategy}`);
+    }
+
+    const { db } = await getDrizzleClient();
+    await db
+      .update(projectsTable)
+      .set({
+        mergeStrategy: strategy,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(projectsTable.id, projectId));
+
+    return this.getProjectById(projectId);
+  }
+
   async updateProjectName(projectId: string, newName: string): Promise<Project | null> {
     if (this.disabled) return null;
     if (!projectId) {
@@ -653,6 +703,29 @@ export class DatabaseService {
     return rows.map((row) => this.mapDrizzleMessageRow(row));
   }
 
+  /** Delete a message and every later message in its conversation. */
+  async deleteMessagesFrom(conversationId: string, messageId: string): Promise<number> {
+    if (this.disabled) return 0;
+    const { db } = await getDrizzleClient();
+    const [target] = await db
+      .select({ timestamp: messagesTable.timestamp })
+      .from(messagesTable)
+      .where(and(eq(messagesTable.conversationId, conversationId), eq(messagesTable.id, messageId)))
+      .limit(1);
+    if (!target) return 0;
+
+    const deleted = await db
+      .delete(messagesTable)
+      .where(
+        and(
+          eq(messagesTable.conversationId, conversationId),
+          sql`${messagesTable.timestamp} >= ${target.timestamp}`
+        )
+      )
+      .returning({ id: messagesTable.id });
+    return deleted.length;
+  }
+
   async deleteConversation(conversationId: string): Promise<void> {
     if (this.disabled) return;
     const { db } = await getDrizzleClient();
@@ -786,7 +859,7 @@ export class DatabaseService {
 
   async updateConversationAcpSessionId(
     conversationId: string,
-    acpSessionId: string
+    acpSessionId: string | null
   ): Promise<void> {
     if (this.disabled) return;
     const { db } = await getDrizzleClient();
@@ -901,6 +974,289 @@ export class DatabaseService {
     return rows;
   }
 
+  // Permission audit trail methods
+  async savePermissionAudit(entry: Omit<ApprovalAuditEntry, 'id' | 'createdAt'>): Promise<void> {
+    if (this.disabled) return;
+    const { db } = await getDrizzleClient();
+    await db.insert(permissionAuditTable).values({
+      id: `audit-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      conversationId: entry.conversationId,
+      provider: entry.provider,
+      toolCallId: entry.toolCallId,
+      toolKind: entry.toolKind,
+      title: entry.title,
+      command: entry.command,
+      paths: entry.paths.length > 0 ? JSON.stringify(entry.paths) : null,
+      decision: entry.decision,
+      optionId: entry.optionId,
+      source: entry.source,
+      ruleId: entry.ruleId,
+    });
+  }
+
+  async getPermissionAudit(taskId: string): Promise<ApprovalAuditEntry[]> {
+    if (this.disabled) return [];
+    const { db } = await getDrizzleClient();
+    const conversations = await db
+      .select({ id: conversationsTable.id })
+      .from(conversationsTable)
+      .where(eq(conversationsTable.taskId, taskId));
+    if (conversations.length === 0) return [];
+
+    const rows = await db
+      .select()
+      .from(permissionAuditTable)
+      .where(
+        inArray(
+          permissionAuditTable.conversationId,
+          conversations.map((c) => c.id)
+        )
+      )
+      .orderBy(desc(permissionAuditTable.createdAt));
+    return rows.map((row) => this.mapPermissionAuditRow(row));
+  }
+
+  // Checkpoint methods
+  async saveCheckpoint(
+    checkpoint: Omit<Checkpoint, 'sequence' | 'createdAt'>
+  ): Promise<Checkpoint | null> {
+    if (this.disabled) return null;
+    const { db } = await getDrizzleClient();
+    const [row] = await db
+      .insert(checkpointsTable)
+      .values({
+        id: checkpoint.id,
+        conversationId: checkpoint.conversationId,
+        messageId: checkpoint.messageId,
+        worktreePath: checkpoint.worktreePath,
+        commitSha: checkpoint.commitSha,
+        headSha: checkpoint.headSha,
+        sequence: sql`(SELECT COALESCE(MAX(sequence), 0) + 1 FROM checkpoints WHERE conversation_id = ${checkpoint.conversationId})`,
+        createdAt: new Date().toISOString(),
+      })
+      .returning();
+    return this.mapCheckpointRow(row);
+  }
+
+  async getCheckpoint(id: string): Promise<Checkpoint | null> {
+    if (this.disabled) return null;
+    const { db } = await getDrizzleClient();
+    const rows = await db
+      .select()
+      .from(checkpointsTable)
+      .where(eq(checkpointsTable.id, id))
+      .limit(1);
+    return rows[0] ? this.mapCheckpointRow(rows[0]) : null;
+  }
+
+  async getCheckpoints(conversationId: string): Promise<Checkpoint[]> {
+    if (this.disabled) return [];
+    const { db } = await getDrizzleClient();
+    const rows = await db
+      .select()
+      .from(checkpointsTable)
+      .where(eq(checkpointsTable.conversationId, conversationId))
+      .orderBy(asc(checkpointsTable.sequence));
+    return rows.map((row) => this.mapCheckpointRow(row));
+  }
+
+  async getTaskCheckpoints(taskId: string): Promise<Checkpoint[]> {
+    if (this.disabled) return [];
+    const { db } = await getDrizzleClient();
+    const rows = await db
+      .select({ checkpoint: checkpointsTable })
+      .from(checkpointsTable)
+      .innerJoin(conversationsTable, eq(checkpointsTable.conversationId, conversationsTable.id))
+      .where(eq(conversationsTable.taskId, taskId));
+    return rows.map((row) => this.mapCheckpointRow(row.checkpoint));
+  }
+
+  async deleteCheckpoints(ids: string[]): Promise<void> {
+    if (this.disabled || ids.length === 0) return;
+    const { db } = await getDrizzleClient();
+    await db.delete(checkpointsTable).where(inArray(checkpointsTable.id, ids));
+  }
+
+  // Verify run methods
+  /** Store a verify run, keeping only the most recent runs of its task. */
+  async saveVerifyRun(run: VerifyRun): Promise<void> {
+    if (this.disabled) return;
+    const { db } = await getDrizzleClient();
+    await db.insert(verifyRunsTable).values({
+      id: run.id,
+      taskId: run.taskId,
+      status: run.status,
+      exitCode: run.exitCode,
+      headSha: run.headSha,
+      treeSha: run.treeSha,
+      summary: JSON.stringify(run.summary),
+      error: run.error,
+      startedAt: run.startedAt,
+      finishedAt: run.finishedAt,
+    });
+    const rows = await db
+      .select({ id: verifyRunsTable.id })
+      .from(verifyRunsTable)
+      .where(eq(verifyRunsTable.taskId, run.taskId))
+      .orderBy(desc(verifyRunsTable.finishedAt));
+    const stale = rows.slice(VERIFY_RUNS_KEPT_PER_TASK).map((row) => row.id);
+    if (stale.length > 0) {
+      await db.delete(verifyRunsTable).where(inArray(verifyRunsTable.id, stale));
+    }
+  }
+
+  async getLatestVerifyRun(taskId: string): Promise<VerifyRun | null> {
+    if (this.disabled) return null;
+    const { db } = await getDrizzleClient();
+    const rows = await db
+      .select()
+      .from(verifyRunsTable)
+      .where(eq(verifyRunsTable.taskId, taskId))
+      .orderBy(desc(verifyRunsTable.finishedAt))
+      .limit(1);
+    return rows[0] ? this.mapVerifyRunRow(rows[0]) : null;
+  }
+
+  // Usage ledger methods
+  async saveUsageEntry(entry: Omit<UsageEntry, 'id' | 'createdAt'>): Promise<void> {
+    if (this.disabled) return;
+    const { db } = await getDrizzleClient();
+    await db.insert(usageEntriesTable).values({
+      id: `usage-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      ...entry,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Aggregate the usage ledger by task, project, provider or local calendar day.
+   * Days are returned newest first; other groupings by cost, then tokens.
+   */
+  async getUsageSummary(groupBy: UsageGroupBy, since?: string): Promise<UsageSummaryRow[]> {
+    if (this.disabled) return [];
+    const { db } = await getDrizzleClient();
+    const day = sql<string>`date(${usageEntriesTable.createdAt}, 'localtime')`;
+    const group = {
+      task: { key: sql<string>`${tasksTable.id}`, label: sql<string>`${tasksTable.name}` },
+      project: { key: sql<string>`${projectsTable.id}`, label: sql<string>`${projectsTable.name}` },
+      provider: {
+        key: sql<string>`${usageEntriesTable.providerId}`,
+        label: sql<string>`${usageEntriesTable.providerId}`,
+      },
+      day: { key: day, label: day },
+    }[groupBy];
+    const costUsd = sql<number>`coalesce(sum(${usageEntriesTable.costUsd}), 0)`;
+    const totalTokens = sql<number>`coalesce(sum(${usageEntriesTable.totalTokens}), 0)`;
+
+    return db
+      .select({
+        key: group.key,
+        label: group.label,
+        turns: sql<number>`count(*)`,
+        inputTokens: sql<number>`coalesce(sum(${usageEntriesTable.inputTokens}), 0)`,
+        outputTokens: sql<number>`coalesce(sum(${usageEntriesTable.outputTokens}), 0)`,
+        totalTokens,
+        costUsd,
+      })
+      .from(usageEntriesTable)
+      .innerJoin(conversationsTable, eq(usageEntriesTable.conversationId, conversationsTable.id))
+      .innerJoin(tasksTable, eq(conversationsTable.taskId, tasksTable.id))
+      .innerJoin(projectsTable, eq(tasksTable.projectId, projectsTable.id))
+      .where(since ? sql`${usageEntriesTable.createdAt} >= ${since}` : undefined)
+      .groupBy(group.key)
+      .orderBy(...(groupBy === 'day' ? [desc(group.key)] : [desc(costUsd), desc(totalTokens)]));
+  }
+
+  /**
+   * Spend (USD) of the task and project a conversation belongs to, and of all
+   * conversations since `dayStart`. Used to enforce usage budgets.
+   */
+  async getUsageSpend(conversationId: string, dayStart: string): Promise<UsageSpend> {
+    const empty: UsageSpend = { task: 0, project: 0, day: 0 };
+    if (this.disabled) return empty;
+    const { db } = await getDrizzleClient();
+    const [owner] = await db
+      .select({ taskId: tasksTable.id, projectId: tasksTable.projectId })
+      .from(conversationsTable)
+      .innerJoin(tasksTable, eq(conversationsTable.taskId, tasksTable.id))
+      .where(eq(conversationsTable.id, conversationId))
+      .limit(1);
+    if (!owner) return empty;
+
+    const cost = usageEntriesTable.costUsd;
+    const [row] = await db
+      .select({
+        task: sql<number>`coalesce(sum(case when ${tasksTable.id} = ${owner.taskId} then ${cost} end), 0)`,
+        project: sql<number>`coalesce(sum(case when ${tasksTable.projectId} = ${owner.projectId} then ${cost} end), 0)`,
+        day: sql<number>`coalesce(sum(case when ${usageEntriesTable.createdAt} >= ${dayStart} then ${cost} end), 0)`,
+      })
+      .from(usageEntriesTable)
+      .innerJoin(conversationsTable, eq(usageEntriesTable.conversationId, conversationsTable.id))
+      .innerJoin(tasksTable, eq(conversationsTable.taskId, tasksTable.id));
+    return row ?? empty;
+  }
+
+  private mapCheckpointRow(row: CheckpointRow): Checkpoint {
+    return {
+      id: row.id,
+      conversationId: row.conversationId,
+      messageId: row.messageId,
+      worktreePath: row.worktreePath,
+      commitSha: row.commitSha,
+      headSha: row.headSha ?? null,
+      sequence: row.sequence,
+      createdAt: row.createdAt,
+    };
+  }
+
+  private mapVerifyRunRow(row: VerifyRunRow): VerifyRun {
+    let summary = emptyVerifySummary();
+    try {
+      summary = { ...summary, ...JSON.parse(row.summary) };
+    } catch {
+      // Keep the empty summary for a corrupt row
+    }
+    return {
+      id: row.id,
+      taskId: row.taskId,
+      status: row.status as VerifyRunStatus,
+      exitCode: row.exitCode ?? null,
+      headSha: row.headSha ?? null,
+      treeSha: row.treeSha ?? null,
+      summary,
+      error: row.error ?? null,
+      startedAt: row.startedAt,
+      finishedAt: row.finishedAt,
+    };
+  }
+
+  private mapPermissionAuditRow(row: PermissionAuditRow): ApprovalAuditEntry {
+    let paths: string[] = [];
+    if (row.paths) {
+      try {
+        const parsed = JSON.parse(row.paths);
+        if (Array.isArray(parsed)) paths = parsed.filter((p) => typeof p === 'string');
+      } catch {
+        // Ignore malformed rows
+      }
+    }
+    return {
+      id: row.id,
+      conversationId: row.conversationId,
+      provider: row.provider,
+      toolCallId: row.toolCallId,
+      toolKind: row.toolKind,
+      title: row.title,
+      command: row.command,
+      paths,
+      decision: row.decision as ApprovalAuditEntry['decision'],
+      optionId: row.optionId,
+      source: row.source as ApprovalAuditEntry['source'],
+      ruleId: row.ruleId,
+      createdAt: row.createdAt,
+    };
+  }
+
   // Project group management methods
   async getProjectGroups(): Promise<ProjectGroup[]> {
     if (this.disabled) return [];
@@ -1303,6 +1659,7 @@ export class DatabaseService {
             connected: !!row.githubConnected,
           }
         : undefined,
+      mergeStrategy: isMergeStrategy(row.mergeStrategy) ? row.mergeStrategy : null,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
     };
@@ -1,8 +1,24 @@
 import { execFile } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { gitQueue } from './GitQueue';
+import { buildSelectionPatch, HUNK_ACTIONS, parseFilePatch } from '../utils/diffHunks';
+import {
+  assertSha,
+  assignSides,
+  EMPTY_TREE,
+  historyAbortArgs,
+  historyActionArgs,
+  historyConflictMessage,
+  logFormat,
+  parseBlame,
+  parseCommitFiles,
+  parseLog,
+} from '../utils/gitHistory';
+import type { FileHunks, HunkAction, HunkSelection } from '@shared/diffHunks';
+import type { CommitDetail, CommitLog, FileBlame, HistoryAction } from '@shared/gitHistory';
 
 const execFileAsync = promisify(execFile);
 const MAX_UNTRACKED_LINECOUNT_BYTES = 512 * 1024;
@@ -281,6 +297,83 @@ export async function revertFile(
   });
 }
 
+/** Diff of a file's unstaged and staged changes, for staging single hunks. */
+export async function getFileHunks(taskPath: string, filePath: string): Promise<FileHunks> {
+  const [unstaged, staged] = await Promise.all([
+    readPatch(taskPath, filePath, 'unstaged'),
+    readPatch(taskPath, filePath, 'staged'),
+  ]);
+  return { unstaged: parseFilePatch(unstaged), staged: parseFilePatch(staged) };
+}
+
+/**
+ * Stage, unstage or discard the selected hunks (or lines of them) of a file by
+ * applying a patch built from its current diff.
+ */
+export async function applyHunks(
+  taskPath: string,
+  filePath: string,
+  action: HunkAction,
+  selections: HunkSelection[]
+): Promise<void> {
+  const { source, cached, reverse } = HUNK_ACTIONS[action];
+  return gitQueue.run(taskPath, async () => {
+    const patch = parseFilePatch(await readPatch(taskPath, filePath, source));
+    if (!patch) {
+      throw new Error('The diff changed since it was loaded; refresh it and try again');
+    }
+
+    const tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'valkyr-patch-'));
+    try {
+      const patchFile = path.join(tmpDir, 'selection.patch');
+      await fs.promises.writeFile(patchFile, buildSelectionPatch(patch, selections, reverse));
+      const args = ['apply', '--whitespace=nowarn'];
+      if (cached) args.push('--cached');
+      if (reverse) args.push('-R');
+      try {
+        await execFileAsync('git', [...args, patchFile], { cwd: taskPath });
+      } catch (error: any) {
+        throw new Error(error?.stderr?.trim() || error?.message || 'git apply failed');
+      }
+    } finally {
+      await fs.promises.rm(tmpDir, { recursive: true, force: true }).catch(() => {});
+    }
+  });
+}
+
+/**
+ * HEAD → index diff for `staged`, index → worktree for `unstaged`. Untracked
+ * files are diffed against nothing.
+ */
+async function readPatch(
+  taskPath: string,
+  filePath: string,
+  source: 'unstaged' | 'staged'
+): Promise<string> {
+  let args = ['diff', '--no-color', '--unified=3', '--cached', '--', filePath];
+  if (source === 'unstaged') {
+    const { stdout: untracked } = await execFileAsync(
+      'git',
+      ['ls-files', '--others', '--exclude-standard', '--', filePath],
+      { cwd: taskPath }
+    );
+    args = untracked.trim()
+      ? ['diff', '--no-color', '--no-index', '--', '/dev/null', filePath]
+      : ['diff', '--no-color', '--unified=3', '--', filePath];
+  }
+  try {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd: taskPath,
+      maxBuffer: 16 * 1024 * 1024,
+    });
+    return stdout;
+  } catch (err: any) {
+    // `git diff --no-index` exits 1 when the files differ
+    if (err?.code !== 1) throw err;
+    return err.stdout ?? '';
+  }
+}
+
 export async function getFileDiff(
   taskPath: string,
   filePath: string
@@ -412,6 +505,242 @@ export async function getFileDiff(
   }
 }
 
+/**
+ * Build a unified diff between two in-memory versions of a file (e.g. a
+ * proposed agent write). `original` is null for a file that doesn't exist yet.
+ * Headers are rewritten to `a/<filePath>` / `b/<filePath>` like `git diff`.
+ */
+export async function getContentDiff(
+  filePath: string,
+  original: string | null,
+  modified: string
+): Promise<string> {
+  const tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'valkyr-diff-'));
+  try {
+    const before = path.join(tmpDir, 'before');
+    const after = path.join(tmpDir, 'after');
+    await fs.promises.writeFile(before, original ?? '', 'utf8');
+    await fs.promises.writeFile(after, modified, 'utf8');
+    let stdout = '';
+    try {
+      ({ stdout } = await execFileAsync(
+        'git',
+        ['diff', '--no-index', '--no-color', '--unified=3', '--', before, after],
+        { maxBuffer: 16 * 1024 * 1024 }
+      ));
+    } catch (err: any) {
+      // `git diff --no-index` exits 1 when the files differ
+      if (err?.code !== 1) throw err;
+      stdout = err.stdout ?? '';
+    }
+    const lines = stdout.split('\n');
+    const start = lines.findIndex((line) => line.startsWith('@@'));
+    if (start === -1) return '';
+    const header = [original === null ? '--- /dev/null' : `--- a/${filePath}`, `+++ b/${filePath}`];
+    return [...header, ...lines.slice(start)].join('\n');
+  } finally {
+    await fs.promises.rm(tmpDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/**
+ * Changes in a worktree relative to `baseSha`: commits on the branch,
+ * uncommitted edits and untracked files together. Used to compare
+ * multi-agent variants that branched from the same commit.
+ */
+export async function getChangesSinceBase(taskPath: string, baseSha: string): Promise<GitChange[]> {
+  const [nameStatus, numstat, untrackedOut] = await Promise.all([
+    execFileAsync('git', ['diff', '--name-status', '-M', baseSha], { cwd: taskPath }),
+    execFileAsync('git', ['diff', '--numstat', '-M', baseSha], { cwd: taskPath }),
+    execFileAsync('git', ['ls-files', '--others', '--exclude-standard'], { cwd: taskPath }),
+  ]);
+  const stats = parseNumstat(numstat.stdout);
+
+  const changes: GitChange[] = [];
+  for (const line of nameStatus.stdout.split('\n')) {
+    if (!line.trim()) continue;
+    const parts = line.split('\t');
+    const code = parts[0];
+    const filePath = parts[parts.length - 1];
+    let status = 'modified';
+    if (code.startsWith('A')) status = 'added';
+    else if (code.startsWith('D')) status = 'deleted';
+    else if (code.startsWith('R')) status = 'renamed';
+    const stat = stats.get(filePath);
+    changes.push({
+      path: filePath,
+      status,
+      additions: stat?.additions ?? 0,
+      deletions: stat?.deletions ?? 0,
+      isStaged: false,
+    });
+  }
+
+  const untracked = untrackedOut.stdout.split('\n').filter((l) => l.length > 0);
+  const counts = await Promise.all(
+    untracked.map((filePath) =>
+      countFileNewlinesCapped(path.join(taskPath, filePath), MAX_UNTRACKED_LINECOUNT_BYTES)
+    )
+  );
+  untracked.forEach((filePath, i) => {
+    changes.push({
+      path: filePath,
+      status: 'added',
+      additions: counts[i] ?? 0,
+      deletions: 0,
+      isStaged: false,
+    });
+  });
+
+  return changes;
+}
+
+/** Unified diff of one file between `baseSha` and the worktree, including untracked files. */
+export async function getFileDiffSinceBase(
+  taskPath: string,
+  baseSha: string,
+  filePath: string
+): Promise<string> {
+  const { stdout } = await execFileAsync(
+    'git',
+    ['diff', '--no-color', '--unified=3', '-M', baseSha, '--', filePath],
+    { cwd: taskPath, maxBuffer: 16 * 1024 * 1024 }
+  );
+  if (stdout.trim()) return stdout;
+
+  // Untracked files don't show up in `git diff`; diff them against nothing
+  const { stdout: untracked } = await execFileAsync(
+    'git',
+    ['ls-files', '--others', '--exclude-standard', '--', filePath],
+    { cwd: taskPath }
+  );
+  if (!untracked.trim()) return '';
+  const content = await readFileTextCapped(path.join(taskPath, filePath), MAX_UNTRACKED_DIFF_BYTES);
+  return content === null ? '' : getContentDiff(filePath, null, content);
+}
+
+/**
+ * Commits of the task branch and of the first existing ref of `bases`, newest
+ * first, for the history graph. Only HEAD is logged when no base exists, e.g.
+ * before the remote was fetched.
+ */
+export async function getLog(taskPath: string, bases: string[], limit = 200): Promise<CommitLog> {
+  let base: string | null = null;
+  for (const candidate of bases) {
+    try {
+      await execFileAsync('git', ['rev-parse', '--verify', '--quiet', `${candidate}^{commit}`], {
+        cwd: taskPath,
+      });
+      base = candidate;
+      break;
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  const options = { cwd: taskPath, maxBuffer: 64 * 1024 * 1024 };
+  const [log, taskOnly, baseOnly] = await Promise.all([
+    execFileAsync(
+      'git',
+      [
+        'log',
+        '--topo-order',
+        `--max-count=${limit + 1}`,
+        logFormat(),
+        'HEAD',
+        ...(base ? [base] : []),
+        '--',
+      ],
+      options
+    ),
+    base ? execFileAsync('git', ['rev-list', `${base}..HEAD`], options) : null,
+    base ? execFileAsync('git', ['rev-list', `HEAD..${base}`], options) : null,
+  ]);
+  const entries = parseLog(log.stdout);
+  const sides =
+    taskOnly && baseOnly ? { taskOnly: taskOnly.stdout, baseOnly: baseOnly.stdout } : null;
+  return {
+    base,
+    commits: assignSides(entries.slice(0, limit), sides),
+    hasMore: entries.length > limit,
+  };
+}
+
+async function commitParents(taskPath: string, sha: string): Promise<string[]> {
+  assertSha(sha);
+  const { stdout } = await execFileAsync('git', ['rev-list', '--parents', '-n', '1', sha], {
+    cwd: taskPath,
+  });
+  return stdout.trim().split(' ').slice(1);
+}
+
+/** Message and changed files of a commit, relative to its first parent. */
+export async function getCommitDetail(taskPath: string, sha: string): Promise<CommitDetail> {
+  assertSha(sha);
+  const { stdout } = await execFileAsync('git', ['log', '-1', logFormat(true), sha, '--'], {
+    cwd: taskPath,
+  });
+  const [{ body, ...commit }] = parseLog(stdout);
+  const parent = commit.parents[0] ?? EMPTY_TREE;
+  const [nameStatus, numstat] = await Promise.all([
+    execFileAsync('git', ['diff', '--name-status', '-M', parent, sha], { cwd: taskPath }),
+    execFileAsync('git', ['diff', '--numstat', '-M', parent, sha], { cwd: taskPath }),
+  ]);
+  return {
+    commit,
+    body: body ?? '',
+    files: parseCommitFiles(nameStatus.stdout, numstat.stdout),
+  };
+}
+
+/** Unified diff of one file in a commit, relative to its first parent. */
+export async function getCommitFileDiff(
+  taskPath: string,
+  sha: string,
+  filePath: string,
+  oldPath?: string
+): Promise<string> {
+  const [parent = EMPTY_TREE] = await commitParents(taskPath, sha);
+  const paths = oldPath && oldPath !== filePath ? [oldPath, filePath] : [filePath];
+  const { stdout } = await execFileAsync(
+    'git',
+    ['diff', '--no-color', '--unified=3', '-M', parent, sha, '--', ...paths],
+    { cwd: taskPath, maxBuffer: 16 * 1024 * 1024 }
+  );
+  return stdout;
+}
+
+/** Last commit of every line of a file as it is in the worktree. */
+export async function getBlame(taskPath: string, filePath: string): Promise<FileBlame> {
+  const { stdout } = await execFileAsync('git', ['blame', '--porcelain', '--', filePath], {
+    cwd: taskPath,
+    maxBuffer: 64 * 1024 * 1024,
+  });
+  return parseBlame(stdout);
+}
+
+/**
+ * Revert or cherry-pick a commit onto the task branch, or reset the branch to
+ * it. A revert or cherry-pick that stops on conflicts is aborted again, so the
+ * worktree is left as it was.
+ */
+export async function runHistoryAction(taskPath: string, action: HistoryAction): Promise<void> {
+  return gitQueue.run(taskPath, async () => {
+    const parents = await commitParents(taskPath, action.sha);
+    try {
+      await execFileAsync('git', historyActionArgs(action, parents.length > 1), { cwd: taskPath });
+    } catch (error: any) {
+      const output = `${error?.stdout ?? ''}\n${error?.stderr ?? ''}`;
+      const abort = historyAbortArgs(action);
+      if (abort && /conflict/i.test(output)) {
+        await execFileAsync('git', abort, { cwd: taskPath }).catch(() => {});
+        throw new Error(historyConflictMessage(action));
+      }
+      throw new Error(error?.stderr?.trim() || error?.message || `git ${action.type} failed`);
+    }
+  });
+}
+
 /**
  * Remove stale Git lock files left by interrupted operations.
  * Only removes locks older than 10 seconds to avoid interfering with active operations.
@@ -1,11 +1,31 @@
 import fs from 'fs';
 import path from 'path';
 import { log } from '../lib/logger';
-import type { LifecyclePhase, LifecycleScriptConfig } from '@shared/lifecycle';
+import { sshService } from './ssh/SshService';
+import type {
+  LifecyclePhase,
+  LifecycleScriptConfig,
+  LifecycleServiceConfig,
+  LifecycleServiceDefinition,
+} from '@shared/lifecycle';
+import type { ApprovalPolicyConfig } from '@shared/approvalPolicy';
+import type { WorktreePoolConfig } from '@shared/worktreePool';
+import type { VerifyConfig } from '@shared/verify';
+import type { CustomAgentConfig } from '@shared/providers/customAgents';
+import type { AcpAgentPin } from '@shared/acpRegistry';
 
 export interface ValkyrConfig {
   preservePatterns?: string[];
   scripts?: LifecycleScriptConfig;
+  /** Long-running services started together in place of `scripts.run`. */
+  services?: Record<string, LifecycleServiceConfig>;
+  verify?: VerifyConfig;
+  approvalPolicy?: ApprovalPolicyConfig;
+  worktreePool?: Partial<WorktreePoolConfig>;
+  /** Project agents, added to (or replacing) the `customAgents` from settings. */
+  agents?: CustomAgentConfig[];
+  /** Registry agent versions this project runs, keyed by registry agent id. */
+  acpAgents?: Record<string, AcpAgentPin | string>;
 }
 
 /**
@@ -34,9 +54,102 @@ class LifecycleScriptsService {
    * Get a specific lifecycle script command if configured.
    */
   getScript(projectPath: string, phase: LifecyclePhase): string | null {
-    const config = this.readConfig(projectPath);
-    const scripts = config?.scripts;
-    const script = scripts?.[phase];
+    return this.pickScript(this.readConfig(projectPath), phase);
+  }
+
+  /**
+   * Read .valkyr.json from a remote project root over SSH
+   */
+  async readRemoteConfig(connectionId: string, projectPath: string): Promise<ValkyrConfig | null> {
+    try {
+      const result = await sshService.executeCommand(
+        connectionId,
+        'test -f .valkyr.json && cat .valkyr.json',
+        projectPath
+      );
+      if (result.exitCode !== 0 || !result.stdout) {
+        return null;
+      }
+      return JSON.parse(result.stdout) as ValkyrConfig;
+    } catch (error) {
+      log.warn('Failed to read remote .valkyr.json', { connectionId, projectPath, error });
+      return null;
+    }
+  }
+
+  /**
+   * Get a lifecycle script command configured in a remote project.
+   */
+  async getRemoteScript(
+    connectionId: string,
+    projectPath: string,
+    phase: LifecyclePhase
+  ): Promise<string | null> {
+    return this.pickScript(await this.readRemoteConfig(connectionId, projectPath), phase);
+  }
+
+  /**
+   * Get configured services in dependency order. Throws when a service depends
+   * on an unknown service or on itself through a cycle.
+   */
+  getServices(projectPath: string): LifecycleServiceDefinition[] {
+    return this.pickServices(this.readConfig(projectPath));
+  }
+
+  /**
+   * Get services configured in a remote project, in dependency order.
+   */
+  async getRemoteServices(
+    connectionId: string,
+    projectPath: string
+  ): Promise<LifecycleServiceDefinition[]> {
+    return this.pickServices(await this.readRemoteConfig(connectionId, projectPath));
+  }
+
+  private pickServices(config: ValkyrConfig | null): LifecycleServiceDefinition[] {
+    const services = config?.services;
+    if (!services || typeof services !== 'object') return [];
+
+    const byName = new Map<string, LifecycleServiceDefinition>();
+    for (const [name, service] of Object.entries(services)) {
+      if (typeof service?.command !== 'string' || !service.command.trim()) {
+        log.warn('Skipping .valkyr.json service without a command', { name });
+        continue;
+      }
+      byName.set(name, {
+        ...service,
+        name,
+        command: service.command.trim(),
+        dependsOn: Array.isArray(service.dependsOn) ? service.dependsOn : [],
+      });
+    }
+
+    const ordered: LifecycleServiceDefinition[] = [];
+    const visiting = new Set<string>();
+    const visit = (service: LifecycleServiceDefinition) => {
+      if (ordered.includes(service)) return;
+      if (visiting.has(service.name)) {
+        throw new Error(`Service ${service.name} depends on itself`);
+      }
+      visiting.add(service.name);
+      for (const dependency of service.dependsOn ?? []) {
+        const target = byName.get(dependency);
+        if (!target) {
+          throw new Error(`Service ${service.name} depends on unknown service ${dependency}`);
+        }
+        visit(target);
+      }
+      visiting.delete(service.name);
+      ordered.push(service);
+    };
+    for (const service of byName.values()) {
+      visit(service);
+    }
+    return ordered;
+  }
+
+  private pickScript(config: ValkyrConfig | null, phase: LifecyclePhase): string | null {
+    const script = config?.scripts?.[phase];
     return typeof script === 'string' && script.trim().length > 0 ? script.trim() : null;
   }
 }
@@ -0,0 +1,351 @@
+import { execFile } from 'child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'util';
+import { log } from '../lib/logger';
+import { databaseService } from './DatabaseService';
+import { gitQueue } from './GitQueue';
+import {
+  defaultMergeMessage,
+  type MergePreview,
+  type MergeRequest,
+  type MergeResult,
+  type MergeStrategy,
+} from '@shared/merge';
+
+const execFileAsync = promisify(execFile);
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 16 * 1024 * 1024 });
+  return stdout.trim();
+}
+
+/** Where a task lands: the project's base branch, resolved for the main repo. */
+export interface MergeTarget {
+  projectPath: string;
+  isRemoteProject: boolean;
+  /** Local branch name, e.g. `main` for a base ref of `origin/main`. */
+  target: string;
+  remote: string | null;
+  strategy: MergeStrategy;
+}
+
+/**
+ * Lands a task branch on the project's base branch without GitHub: merges or
+ * squashes it in a throwaway worktree, or rebases it in the task's worktree,
+ * then fast-forwards the base branch to the result.
+ */
+export class LocalMergeService {
+  async resolveTarget(taskPath: string): Promise<MergeTarget> {
+    const task = await databaseService.getTaskByPath(taskPath);
+    const project = task ? await databaseService.getProjectById(task.projectId) : null;
+    if (!project) {
+      throw new Error('Could not find the project this task belongs to');
+    }
+
+    const baseRef = project.gitInfo.baseRef || 'origin/main';
+    const strategy =
+      project.mergeStrategy ?? (project.githubInfo?.connected ? 'pull-request' : 'merge');
+
+    if (project.isRemote) {
+      return {
+        projectPath: project.remotePath || project.path,
+        isRemoteProject: true,
+        target: baseRef.replace(/^origin\//, ''),
+        remote: 'origin',
+        strategy,
+      };
+    }
+
+    const remotes = (await git(project.path, ['remote']).catch(() => ''))
+      .split('\n')
+      .filter(Boolean);
+    const prefix = remotes.find((remote) => baseRef.startsWith(`${remote}/`));
+    return {
+      projectPath: project.path,
+      isRemoteProject: false,
+      target: prefix ? baseRef.slice(prefix.length + 1) : baseRef,
+      remote: prefix ?? (remotes.includes('origin') ? 'origin' : (remotes[0] ?? null)),
+      strategy,
+    };
+  }
+
+  async preview(taskPath: string): Promise<MergePreview> {
+    const resolved = await this.resolveTarget(taskPath);
+    const branch = await git(taskPath, ['branch', '--show-current']);
+    const preview: MergePreview = {
+      branch,
+      target: resolved.target,
+      remote: resolved.remote,
+      strategy: resolved.strategy,
+      commits: [],
+      hasUncommittedChanges: false,
+      targetDirty: false,
+      isRemoteProject: resolved.isRemoteProject,
+    };
+    if (resolved.isRemoteProject) return preview;
+
+    const targetRef = await this.targetRef(resolved.projectPath, resolved.target, resolved.remote);
+    if (targetRef && branch) {
+      const subjects = await git(taskPath, [
+        'log',
+        '--reverse',
+        '--format=%s',
+        `${targetRef}..HEAD`,
+      ]);
+      preview.commits = subjects ? subjects.split('\n') : [];
+    }
+    preview.hasUncommittedChanges = !!(await git(taskPath, [
+      'status',
+      '--porcelain',
+      '--untracked-files=all',
+    ]));
+    const checkout = await this.findCheckout(resolved.projectPath, resolved.target);
+    preview.targetDirty = checkout ? await this.isDirty(checkout) : false;
+    return preview;
+  }
+
+  /**
+   * Land the task branch on the target. Conflicts and a dirty task or target
+   * checkout come back as results rather than errors so the dialog can act on
+   * them; in all cases the target branch is left untouched.
+   */
+  async merge(
+    request: MergeRequest & { strategy: Exclude<MergeStrategy, 'pull-request'> }
+  ): Promise<MergeResult> {
+    const { taskPath, strategy } = request;
+    const resolved = await this.resolveTarget(taskPath);
+    if (resolved.isRemoteProject) {
+      throw new Error('Local merges are not supported for remote projects; use a pull request');
+    }
+    const { projectPath, target, remote } = resolved;
+
+    return gitQueue.run(taskPath, async (): Promise<MergeResult> => {
+      const branch = await git(taskPath, ['branch', '--show-current']);
+      if (!branch) {
+        throw new Error('Not on a branch (detached HEAD state).');
+      }
+      if (branch === target) {
+        throw new Error(`Already on ${target}. Create a feature branch first.`);
+      }
+      await this.ensureLocalBranch(projectPath, target, remote);
+
+      const checkout = await this.findCheckout(projectPath, target);
+      if (checkout && !request.stashTargetChanges && (await this.isDirty(checkout))) {
+        return {
+          success: false,
+          strategy,
+          targetDirty: true,
+          error: `${target} has uncommitted changes in ${checkout}`,
+        };
+      }
+
+      // Landing must not commit on the task's behalf: a commit made here would
+      // stay on the task branch when the merge then conflicts or fails
+      if (await this.isDirty(taskPath)) {
+        return {
+          success: false,
+          strategy,
+          taskDirty: true,
+          error: `${branch} has uncommitted changes; commit or discard them before merging`,
+        };
+      }
+
+      const commits = (await git(taskPath, ['log', '--reverse', '--format=%s', `${target}..HEAD`]))
+        .split('\n')
+        .filter(Boolean);
+      const message =
+        request.message?.trim() || defaultMergeMessage(strategy, branch, target, commits);
+
+      const oldSha = await git(projectPath, ['rev-parse', `refs/heads/${target}`]);
+      if (
+        await git(projectPath, ['merge-base', '--is-ancestor', branch, oldSha])
+          .then(() => true)
+          .catch(() => false)
+      ) {
+        throw new Error(`${branch} has nothing that is not already on ${target}`);
+      }
+
+      const integrated =
+        strategy === 'rebase'
+          ? await this.rebase(taskPath, target)
+          : await this.integrate(projectPath, oldSha, branch, strategy, message);
+      if ('conflicts' in integrated) {
+        return {
+          success: false,
+          strategy,
+          conflicts: integrated.conflicts,
+          error: `${strategy === 'rebase' ? 'Rebasing' : 'Merging'} ${branch} onto ${target} conflicts in ${integrated.conflicts.length} file(s)`,
+        };
+      }
+
+      const stashWarning = await this.advance(
+        projectPath,
+        target,
+        oldSha,
+        integrated.sha,
+        checkout
+      );
+      log.info(`[LocalMerge] Landed ${branch} on ${target} via ${strategy} -> ${integrated.sha}`);
+
+      const result: MergeResult = { success: true, strategy, sha: integrated.sha, stashWarning };
+      if (request.push && remote) {
+        try {
+          await git(projectPath, ['push', remote, target]);
+          result.pushed = true;
+        } catch (error) {
+          log.warn(`[LocalMerge] Failed to push ${target} to ${remote}`, error);
+          result.pushError = (error as Error).message;
+        }
+      }
+      return result;
+    });
+  }
+
+  /** Ref the task branch is compared against: the local target, else its remote branch. */
+  private async targetRef(
+    projectPath: string,
+    target: string,
+    remote: string | null
+  ): Promise<string | null> {
+    const candidates = [`refs/heads/${target}`];
+    if (remote) candidates.push(`refs/remotes/${remote}/${target}`);
+    for (const ref of candidates) {
+      const exists = await git(projectPath, ['rev-parse', '--verify', '--quiet', ref])
+        .then(() => true)
+        .catch(() => false);
+      if (exists) return ref;
+    }
+    return null;
+  }
+
+  private async ensureLocalBranch(projectPath: string, target: string, remote: string | null) {
+    const ref = await this.targetRef(projectPath, target, remote);
+    if (!ref) {
+      throw new Error(`Branch ${target} does not exist`);
+    }
+    if (ref.startsWith('refs/remotes/')) {
+      await git(projectPath, ['branch', '--track', target, `${remote}/${target}`]);
+    }
+  }
+
+  /** Worktree that has `branch` checked out, if any. */
+  private async findCheckout(projectPath: string, branch: string): Promise<string | null> {
+    const output = await git(projectPath, ['worktree', 'list', '--porcelain']);
+    for (const block of output.split('\n\n')) {
+      const lines = block.split('\n');
+      if (lines.includes(`branch refs/heads/${branch}`)) {
+        const worktree = lines.find((line) => line.startsWith('worktree '));
+        if (worktree) return worktree.slice('worktree '.length);
+      }
+    }
+    return null;
+  }
+
+  /** Untracked files count: fast-forwarding could fail on them or overwrite them. */
+  private async isDirty(checkout: string): Promise<boolean> {
+    return !!(await git(checkout, ['status', '--porcelain', '--untracked-files=all']));
+  }
+
+  /** Merge or squash `branch` onto `base` in a detached throwaway worktree. */
+  private async integrate(
+    projectPath: string,
+    base: string,
+    branch: string,
+    strategy: 'merge' | 'squash',
+    message: string
+  ): Promise<{ sha: string } | { conflicts: string[] }> {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'valkyr-merge-'));
+    try {
+      await git(projectPath, ['worktree', 'add', '--detach', dir, base]);
+      try {
+        if (strategy === 'merge') {
+          await git(dir, ['merge', '--no-ff', '-m', message, branch]);
+        } else {
+          await git(dir, ['merge', '--squash', branch]);
+          await git(dir, ['commit', '-q', '-m', message]);
+        }
+      } catch (error) {
+        const conflicts = await this.conflictedFiles(dir);
+        await git(dir, ['merge', '--abort']).catch(() => {});
+        if (conflicts.length > 0) return { conflicts };
+        throw new Error(`Failed to ${strategy} ${branch}: ${(error as Error).message}`);
+      }
+      return { sha: await git(dir, ['rev-parse', 'HEAD']) };
+    } finally {
+      await git(projectPath, ['worktree', 'remove', '--force', dir]).catch((error) => {
+        log.warn(`[LocalMerge] Could not remove temporary worktree ${dir}`, error);
+      });
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  }
+
+  /** Rebase the task branch onto `target` in the task's own worktree. */
+  private async rebase(
+    taskPath: string,
+    target: string
+  ): Promise<{ sha: string } | { conflicts: string[] }> {
+    try {
+      await git(taskPath, ['rebase', target]);
+    } catch (error) {
+      const conflicts = await this.conflictedFiles(taskPath);
+      await git(taskPath, ['rebase', '--abort']).catch(() => {});
+      if (conflicts.length > 0) return { conflicts };
+      throw new Error(`Failed to rebase onto ${target}: ${(error as Error).message}`);
+    }
+    return { sha: await git(taskPath, ['rev-parse', 'HEAD']) };
+  }
+
+  private async conflictedFiles(cwd: string): Promise<string[]> {
+    const output = await git(cwd, ['diff', '--name-only', '--diff-filter=U']).catch(() => '');
+    return output.split('\n').filter(Boolean);
+  }
+
+  /**
+   * Move `target` from `oldSha` to `sha`. A checkout that has it is
+   * fast-forwarded, with its uncommitted changes and untracked files stashed
+   * around the update; otherwise only the ref moves. Returns a warning if the
+   * stash did not reapply cleanly.
+   */
+  private async advance(
+    projectPath: string,
+    target: string,
+    oldSha: string,
+    sha: string,
+    checkout: string | null
+  ): Promise<string | undefined> {
+    if (!checkout) {
+      await git(projectPath, ['update-ref', `refs/heads/${target}`, sha, oldSha]);
+      return undefined;
+    }
+
+    const stashed = await this.isDirty(checkout);
+    if (stashed) {
+      await git(checkout, [
+        'stash',
+        'push',
+        '--include-untracked',
+        '-m',
+        `valkyr: before landing on ${target}`,
+      ]);
+    }
+    try {
+      await git(checkout, ['merge', '--ff-only', '-q', sha]);
+    } catch (error) {
+      if (stashed) await git(checkout, ['stash', 'pop']).catch(() => {});
+      throw error;
+    }
+    if (stashed) {
+      try {
+        await git(checkout, ['stash', 'pop']);
+      } catch (error) {
+        log.warn(`[LocalMerge] Failed to reapply stashed changes in ${checkout}`, error);
+        return `Your uncommitted changes in ${checkout} conflict with the merge; resolve them there (they are also kept in git stash)`;
+      }
+    }
+    return undefined;
+  }
+}
+
+export const localMergeService = new LocalMergeService();
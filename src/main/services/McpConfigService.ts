@@ -2,9 +2,20 @@ import { existsSync } from 'fs';
 import { readFile, writeFile } from 'fs/promises';
 import { join } from 'path';
 import { homedir } from 'os';
+import { app } from 'electron';
 import { getAppSettings, updateAppSettings } from '../settings';
-import type { McpServerConfig } from '@shared/mcp/types';
+import type {
+  McpPromptInfo,
+  McpResourceInfo,
+  McpServerConfig,
+  McpServerHealth,
+  McpToolInfo,
+} from '@shared/mcp/types';
 import { log } from '../lib/logger';
+import { McpClient, createMcpTransport } from './mcp/McpClient';
+import { valkyrMcpServer } from './mcp/ValkyrMcpServer';
+
+const TEST_TIMEOUT_MS = 20_000;
 
 // ACP SDK McpServer type — defined inline to avoid ESM import issues
 // Matches: McpServerStdio | (McpServerHttp & { type: 'http' }) | (McpServerSse & { type: 'sse' })
@@ -58,6 +69,22 @@ function toAcpMcpServer(s: McpServerConfig): AcpMcpServer {
   };
 }
 
+/**
+ * Agents can't filter tools themselves, so a server with disabled tools is
+ * handed to them as a stdio filter process that relays to the real server.
+ */
+function toFilteredAcpMcpServer(s: McpServerConfig): AcpMcpServer {
+  return {
+    name: s.name,
+    command: process.execPath,
+    args: [join(__dirname, '..', 'workers', 'mcpToolFilter.js')],
+    env: [
+      { name: 'ELECTRON_RUN_AS_NODE', value: '1' },
+      { name: 'VALKYR_MCP_SERVER', value: JSON.stringify(s) },
+    ],
+  };
+}
+
 export class McpConfigService {
   // ---- Global servers (settings.json) ----
 
@@ -110,23 +137,115 @@ export class McpConfigService {
 
   // ---- Merge + adapter for ACP injection ----
 
-  async getMergedServersForSession(projectPath?: string): Promise<AcpMcpServer[]> {
+  /**
+   * Servers to inject into an agent session. Local sessions also get the
+   * built-in Valkyr server, scoped to the session's worktree (`taskPath`) and
+   * authorized until session `sessionKey` ends.
+   * Disabled tools are filtered locally, which can't happen on a remote host,
+   * so remote sessions leave out servers that have any.
+   */
+  async getMergedServersForSession(
+    projectPath?: string,
+    options: { remote?: boolean; taskPath?: string; sessionKey?: string } = {}
+  ): Promise<AcpMcpServer[]> {
     const globalServers = this.getGlobalServers().filter((s) => s.enabled);
     const projectServers = projectPath
       ? (await this.getProjectServers(projectPath)).filter((s) => s.enabled)
       : [];
 
-    // Project servers override global ones with the same name
+    // Project servers override global ones with the same name, both override the built-in one
     const byName = new Map<string, McpServerConfig>();
+    let builtin: McpServerConfig | null = null;
+    if (
+      projectPath &&
+      options.sessionKey &&
+      !options.remote &&
+      getAppSettings().mcp?.valkyr?.enabled !== false
+    ) {
+      try {
+        builtin = await valkyrMcpServer.getSessionServer(
+          projectPath,
+          options.taskPath ?? projectPath,
+          options.sessionKey
+        );
+        byName.set(builtin.name, builtin);
+      } catch (err) {
+        log.warn('MCP: failed to start the built-in Valkyr server:', err);
+      }
+    }
     for (const s of globalServers) byName.set(s.name, s);
     for (const s of projectServers) byName.set(s.name, s);
 
-    const merged = Array.from(byName.values());
+    const merged = Array.from(byName.values()).filter((s) => {
+      if (!options.remote || !s.disabledTools?.length) return true;
+      log.warn(
+        `MCP: not injecting "${s.name}" into a remote session; its disabled tools can't be filtered there`
+      );
+      return false;
+    });
     log.info(
       `MCP: injecting ${merged.length} servers into session (${globalServers.length} global, ${projectServers.length} project)`
     );
-    return merged.map(toAcpMcpServer);
+    return merged.map((s) => {
+      // The stdio relay filters disabled tools, and carries the built-in server's
+      // loopback HTTP to agents that don't speak HTTP
+      if (s === builtin || s.disabledTools?.length) return toFilteredAcpMcpServer(s);
+      return toAcpMcpServer(s);
+    });
   }
+
+  // ---- Health checks ----
+
+  /**
+   * Connects to a server, runs the initialize handshake and lists its tools,
+   * resources and prompts. Failures are reported in the result, not thrown.
+   */
+  async testServer(config: McpServerConfig): Promise<McpServerHealth> {
+    const started = Date.now();
+    const health: McpServerHealth = {
+      ok: false,
+      tools: [],
+      resources: [],
+      prompts: [],
+      durationMs: 0,
+      checkedAt: new Date(started).toISOString(),
+    };
+    const client = new McpClient(createMcpTransport(config), {
+      clientInfo: { name: 'valkyr', version: app.getVersion() },
+      timeoutMs: TEST_TIMEOUT_MS,
+    });
+
+    try {
+      await client.connect();
+      health.serverInfo = client.serverInfo;
+      health.protocolVersion = client.protocolVersion;
+      const { tools, resources, prompts } = client.capabilities;
+      if (tools) {
+        health.tools = (await client.listAll<McpToolInfo>('tools/list', 'tools')).map(
+          ({ name, title, description }) => ({ name, title, description })
+        );
+      }
+      if (resources) {
+        health.resources = (
+          await client.listAll<McpResourceInfo>('resources/list', 'resources')
+        ).map(({ uri, name, description, mimeType }) => ({ uri, name, description, mimeType }));
+      }
+      if (prompts) {
+        health.prompts = (await client.listAll<McpPromptInfo>('prompts/list', 'prompts')).map(
+          ({ name, title, description }) => ({ name, title, description })
+        );
+      }
+      health.ok = true;
+    } catch (err) {
+      health.error = err instanceof Error ? err.message : String(err);
+      log.warn(`MCP: connection test of "${config.name}" failed:`, health.error);
+    } finally {
+      await client.close().catch(() => {});
+      health.durationMs = Date.now() - started;
+    }
+    return health;
+  }
+
   // ---- Detect MCP servers from other agents ----
 
   /**
@@ -1,3 +1,4 @@
+import type { MergeStrategy } from '@shared/merge';
 import type { Project } from './DatabaseService';
 import { databaseService } from './DatabaseService';
 
@@ -8,6 +9,8 @@ export interface ProjectSettings {
   gitRemote?: string;
   gitBranch?: string;
   baseRef?: string;
+  /** Default strategy for landing tasks; unset picks one from the GitHub connection. */
+  mergeStrategy?: MergeStrategy | null;
 }
 
 class ProjectSettingsService {
@@ -24,17 +27,27 @@ class ProjectSettingsService {
 
   async updateProjectSettings(
     projectId: string,
-    settings: { baseRef?: string }
+    settings: { baseRef?: string; mergeStrategy?: MergeStrategy | null }
   ): Promise<ProjectSettings> {
     if (!projectId) {
       throw new Error('projectId is required');
     }
     const nextBaseRef = settings?.baseRef;
-    if (typeof nextBaseRef !== 'string') {
-      throw new Error('baseRef is required');
+    const hasMergeStrategy = settings?.mergeStrategy !== undefined;
+    if (typeof nextBaseRef !== 'string' && !hasMergeStrategy) {
+      throw new Error('baseRef or mergeStrategy is required');
     }
 
-    const project = await databaseService.updateProjectBaseRef(projectId, nextBaseRef);
+    let project: Project | null = null;
+    if (typeof nextBaseRef === 'string') {
+      project = await databaseService.updateProjectBaseRef(projectId, nextBaseRef);
+    }
+    if (hasMergeStrategy) {
+      project = await databaseService.updateProjectMergeStrategy(
+        projectId,
+        settings.mergeStrategy ?? null
+      );
+    }
     if (!project) {
       throw new Error('Project not found');
     }
@@ -49,6 +62,7 @@ class ProjectSettingsService {
       gitRemote: project.gitInfo.remote,
       gitBranch: project.gitInfo.branch,
       baseRef: project.gitInfo.baseRef,
+      mergeStrategy: project.mergeStrategy ?? null,
     };
   }
 }
@@ -1,6 +1,21 @@
 import { SshService } from './ssh/SshService';
 import { ExecResult } from '../../shared/ssh/types';
 import { quoteShellArg } from '../utils/shellEscape';
+import { buildSelectionPatch, HUNK_ACTIONS, parseFilePatch } from '../utils/diffHunks';
+import {
+  assertSha,
+  assignSides,
+  EMPTY_TREE,
+  historyAbortArgs,
+  historyActionArgs,
+  historyConflictMessage,
+  logFormat,
+  parseBlame,
+  parseCommitFiles,
+  parseLog,
+} from '../utils/gitHistory';
+import type { FileHunks, HunkAction, HunkSelection } from '../../shared/diffHunks';
+import type { CommitDetail, CommitLog, FileBlame, HistoryAction } from '../../shared/gitHistory';
 
 export interface WorktreeInfo {
   path: string;
@@ -294,4 +309,194 @@ export class RemoteGitService {
       this.normalizeRemotePath(worktreePath)
     );
   }
+
+  async getFileHunks(
+    connectionId: string,
+    worktreePath: string,
+    filePath: string
+  ): Promise<FileHunks> {
+    const cwd = this.normalizeRemotePath(worktreePath);
+    const [unstaged, staged] = await Promise.all([
+      this.readPatch(connectionId, cwd, filePath, 'unstaged'),
+      this.readPatch(connectionId, cwd, filePath, 'staged'),
+    ]);
+    return { unstaged: parseFilePatch(unstaged), staged: parseFilePatch(staged) };
+  }
+
+  /** Remote counterpart of GitService.applyHunks; the patch is passed on stdin. */
+  async applyHunks(
+    connectionId: string,
+    worktreePath: string,
+    filePath: string,
+    action: HunkAction,
+    selections: HunkSelection[]
+  ): Promise<void> {
+    const cwd = this.normalizeRemotePath(worktreePath);
+    const { source, cached, reverse } = HUNK_ACTIONS[action];
+    const patch = parseFilePatch(await this.readPatch(connectionId, cwd, filePath, source));
+    if (!patch) {
+      throw new Error('The diff changed since it was loaded; refresh it and try again');
+    }
+    const body = buildSelectionPatch(patch, selections, reverse);
+
+    let delimiter = 'VALKYR_PATCH';
+    while (body.split('\n').includes(delimiter)) {
+      delimiter += '_';
+    }
+    const flags = [cached ? ' --cached' : '', reverse ? ' -R' : ''].join('');
+    const result = await this.sshService.executeCommand(
+      connectionId,
+      `git apply --whitespace=nowarn${flags} - <<'${delimiter}'\n${body}${delimiter}`,
+      cwd
+    );
+    if (result.exitCode !== 0) {
+      throw new Error(result.stderr || 'git apply failed');
+    }
+  }
+
+  /** Remote counterpart of GitService.getLog. */
+  async getLog(
+    connectionId: string,
+    worktreePath: string,
+    bases: string[],
+    limit = 200
+  ): Promise<CommitLog> {
+    const cwd = this.normalizeRemotePath(worktreePath);
+    let base: string | null = null;
+    for (const candidate of bases) {
+      const result = await this.sshService.executeCommand(
+        connectionId,
+        `git rev-parse --verify --quiet ${quoteShellArg(`${candidate}^{commit}`)}`,
+        cwd
+      );
+      if (result.exitCode === 0) {
+        base = candidate;
+        break;
+      }
+    }
+
+    const revs = ['HEAD', ...(base ? [base] : [])].map(quoteShellArg).join(' ');
+    const log = await this.run(
+      connectionId,
+      cwd,
+      `git log --topo-order --max-count=${limit + 1} ${quoteShellArg(logFormat())} ${revs} --`
+    );
+    let sides: { taskOnly: string; baseOnly: string } | null = null;
+    if (base) {
+      const [taskOnly, baseOnly] = await Promise.all([
+        this.run(connectionId, cwd, `git rev-list ${quoteShellArg(`${base}..HEAD`)}`),
+        this.run(connectionId, cwd, `git rev-list ${quoteShellArg(`HEAD..${base}`)}`),
+      ]);
+      sides = { taskOnly, baseOnly };
+    }
+    const entries = parseLog(log);
+    return {
+      base,
+      commits: assignSides(entries.slice(0, limit), sides),
+      hasMore: entries.length > limit,
+    };
+  }
+
+  async getCommitDetail(
+    connectionId: string,
+    worktreePath: string,
+    sha: string
+  ): Promise<CommitDetail> {
+    assertSha(sha);
+    const cwd = this.normalizeRemotePath(worktreePath);
+    const [{ body, ...commit }] = parseLog(
+      await this.run(connectionId, cwd, `git log -1 ${quoteShellArg(logFormat(true))} ${sha} --`)
+    );
+    const parent = commit.parents[0] ?? EMPTY_TREE;
+    const [nameStatus, numstat] = await Promise.all([
+      this.run(connectionId, cwd, `git diff --name-status -M ${parent} ${sha}`),
+      this.run(connectionId, cwd, `git diff --numstat -M ${parent} ${sha}`),
+    ]);
+    return { commit, body: body ?? '', files: parseCommitFiles(nameStatus, numstat) };
+  }
+
+  async getCommitFileDiff(
+    connectionId: string,
+    worktreePath: string,
+    sha: string,
+    filePath: string,
+    oldPath?: string
+  ): Promise<string> {
+    const cwd = this.normalizeRemotePath(worktreePath);
+    const [parent = EMPTY_TREE] = await this.commitParents(connectionId, cwd, sha);
+    const paths = (oldPath && oldPath !== filePath ? [oldPath, filePath] : [filePath])
+      .map(quoteShellArg)
+      .join(' ');
+    return this.run(
+      connectionId,
+      cwd,
+      `git diff --no-color --unified=3 -M ${parent} ${sha} -- ${paths}`
+    );
+  }
+
+  async getBlame(connectionId: string, worktreePath: string, filePath: string): Promise<FileBlame> {
+    const cwd = this.normalizeRemotePath(worktreePath);
+    return parseBlame(
+      await this.run(connectionId, cwd, `git blame --porcelain -- ${quoteShellArg(filePath)}`)
+    );
+  }
+
+  /** Remote counterpart of GitService.runHistoryAction. */
+  async runHistoryAction(
+    connectionId: string,
+    worktreePath: string,
+    action: HistoryAction
+  ): Promise<void> {
+    const cwd = this.normalizeRemotePath(worktreePath);
+    const parents = await this.commitParents(connectionId, cwd, action.sha);
+    const args = historyActionArgs(action, parents.length > 1);
+    const result = await this.sshService.executeCommand(
+      connectionId,
+      `git ${args.map(quoteShellArg).join(' ')}`,
+      cwd
+    );
+    if (result.exitCode === 0) return;
+
+    const abort = historyAbortArgs(action);
+    if (abort && /conflict/i.test(`${result.stdout}\n${result.stderr}`)) {
+      await this.sshService.executeCommand(connectionId, `git ${abort.join(' ')}`, cwd);
+      throw new Error(historyConflictMessage(action));
+    }
+    throw new Error(result.stderr || `git ${action.type} failed`);
+  }
+
+  private async commitParents(connectionId: string, cwd: string, sha: string): Promise<string[]> {
+    assertSha(sha);
+    const output = await this.run(connectionId, cwd, `git rev-list --parents -n 1 ${sha}`);
+    return output.split(' ').slice(1);
+  }
+
+  private async run(connectionId: string, cwd: string, command: string): Promise<string> {
+    const result = await this.sshService.executeCommand(connectionId, command, cwd);
+    if (result.exitCode !== 0) {
+      throw new Error(result.stderr || `Command failed: ${command}`);
+    }
+    return result.stdout;
+  }
+
+  private async readPatch(
+    connectionId: string,
+    cwd: string,
+    filePath: string,
+    source: 'unstaged' | 'staged'
+  ): Promise<string> {
+    const file = quoteShellArg(filePath);
+    const command =
+      source === 'staged'
+        ? `git diff --no-color --unified=3 --cached -- ${file}`
+        : // Untracked files don't show up in `git diff`; `--no-index` exits 1 when they differ
+          `if [ -n "$(git ls-files --others --exclude-standard -- ${file})" ]; then ` +
+          `git diff --no-color --no-index -- /dev/null ${file}; [ $? -le 1 ]; ` +
+          `else git diff --no-color --unified=3 -- ${file}; fi`;
+    const result = await this.sshService.executeCommand(connectionId, command, cwd);
+    if (result.exitCode !== 0) {
+      throw new Error(`Git diff failed: ${result.stderr}`);
+    }
+    return result.stdout;
+  }
 }
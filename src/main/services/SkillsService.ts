@@ -2,14 +2,38 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import * as https from 'https';
+import { createHash } from 'crypto';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
 import { log } from '../lib/logger';
+import { getAppSettings } from '../settings';
 import { parseFrontmatter, isValidSkillName, generateSkillMd } from '@shared/skills/validation';
-import { agentTargets, skillScanPaths } from '@shared/skills/agentTargets';
-import type { CatalogSkill, CatalogIndex, DetectedAgent } from '@shared/skills/types';
+import { agentTargets, PROJECT_SKILLS_DIR, skillScanPaths } from '@shared/skills/agentTargets';
+import { isGitLocation } from '@shared/skills/sources';
+import type {
+  CatalogSkill,
+  CatalogIndex,
+  DetectedAgent,
+  SkillSource,
+  SkillUpdate,
+} from '@shared/skills/types';
+
+const execFileAsync = promisify(execFile);
 
 const SKILLS_ROOT = path.join(os.homedir(), '.agentskills');
 const VALKYR_META = path.join(SKILLS_ROOT, '.valkyr');
 const CATALOG_INDEX_PATH = path.join(VALKYR_META, 'catalog-index.json');
+/** Skills installed through Valkyr: where they came from and the version installed */
+const INSTALLED_RECORDS_PATH = path.join(VALKYR_META, 'installed.json');
+/** Checkouts of git skill sources, one directory per source id */
+const SOURCES_DIR = path.join(VALKYR_META, 'sources');
+
+interface InstalledSkillRecord {
+  source: CatalogSkill['source'];
+  sourceId?: string;
+  version: string;
+  installedAt: string;
+}
 
 const MAX_REDIRECTS = 5;
 
@@ -48,9 +72,37 @@ function httpsGet(url: string, redirectCount = 0): Promise<string> {
   });
 }
 
+/** Content hash of a skill, from its files as `[relative path, content]` pairs */
+function hashSkillFiles(files: Array<[string, string | Buffer]>): string {
+  const hash = createHash('sha256');
+  for (const [file, content] of [...files].sort(([a], [b]) => a.localeCompare(b))) {
+    hash.update(file).update('\0').update(content).update('\0');
+  }
+  return hash.digest('hex');
+}
+
+async function hashSkillDir(dir: string): Promise<string> {
+  const files: Array<[string, Buffer]> = [];
+  const walk = async (rel: string) => {
+    const entries = await fs.promises.readdir(path.join(dir, rel), { withFileTypes: true });
+    for (const entry of entries) {
+      if (entry.name === '.git') continue;
+      const entryRel = rel ? `${rel}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) await walk(entryRel);
+      else if (entry.isFile()) {
+        files.push([entryRel, await fs.promises.readFile(path.join(dir, entryRel))]);
+      }
+    }
+  };
+  await walk('');
+  return hashSkillFiles(files);
+}
+
 export class SkillsService {
   private static readonly CATALOG_VERSION = 2;
   private catalogCache: CatalogIndex | null = null;
+  /** Source versions found by the last update check, by skill id */
+  private latestVersions = new Map<string, string>();
 
   async initialize(): Promise<void> {
     await fs.promises.mkdir(SKILLS_ROOT, { recursive: true });
@@ -82,12 +134,17 @@ export class SkillsService {
 
   async refreshCatalog(): Promise<CatalogIndex> {
     try {
-      const [openaiSkills, anthropicSkills] = await Promise.allSettled([
+      const [sourceSkills, openaiSkills, anthropicSkills] = await Promise.allSettled([
+        this.fetchSourceCatalogs(),
         this.fetchOpenAICatalog(),
         this.fetchAnthropicCatalog(),
       ]);
 
+      // User-configured sources come first so they win over the built-in catalogs
       const allSkills: CatalogSkill[] = [];
+      if (sourceSkills.status === 'fulfilled') {
+        allSkills.push(...sourceSkills.value);
+      }
       if (openaiSkills.status === 'fulfilled') {
         allSkills.push(...openaiSkills.value);
       }
@@ -103,7 +160,7 @@ export class SkillsService {
         return true;
       });
 
-      // If both failed, fall back to bundled
+      // If all failed, fall back to bundled
       if (skills.length === 0) {
         log.warn('Failed to fetch any remote catalogs, using bundled');
         return this.getCatalogIndex();
@@ -116,6 +173,7 @@ export class SkillsService {
       };
 
       this.catalogCache = catalog;
+      await this.initialize();
       await fs.promises.writeFile(CATALOG_INDEX_PATH, JSON.stringify(catalog, null, 2));
       return this.mergeInstalledState(catalog);
     } catch (error) {
@@ -197,6 +255,19 @@ export class SkillsService {
       }
     }
 
+    // Skills from a configured source are read from its checkout
+    if (!skill.installed && skill.sourcePath) {
+      try {
+        const content = await fs.promises.readFile(
+          path.join(skill.sourcePath, 'SKILL.md'),
+          'utf-8'
+        );
+        return { ...skill, skillMdContent: content };
+      } catch {
+        // Return what we have
+      }
+    }
+
     // For uninstalled catalog skills, fetch SKILL.md from GitHub
     if (!skill.installed && !skill.skillMdContent) {
       try {
@@ -237,34 +308,112 @@ export class SkillsService {
     const skill = catalog.skills.find((s) => s.id === skillId);
     if (!skill) throw new Error(`Skill "${skillId}" not found in catalog`);
     if (skill.installed) throw new Error(`Skill "${skillId}" is already installed`);
+    return this.writeSkill(skill);
+  }
 
-    const skillDir = path.join(SKILLS_ROOT, skillId);
+  /** Replace an installed catalog skill with the current version from its source. */
+  async updateSkill(skillId: string): Promise<CatalogSkill> {
+    const catalog = await this.getCatalogIndex();
+    const skill = catalog.skills.find((s) => s.id === skillId);
+    if (!skill?.installed) throw new Error(`Skill "${skillId}" is not installed`);
+    const records = await this.readInstalledRecords();
+    if (!records[skillId]) throw new Error(`Skill "${skillId}" was not installed from a catalog`);
+    return this.writeSkill(skill);
+  }
+
+  /**
+   * Installed catalog skills whose source changed since they were installed.
+   * Git sources are pulled and GitHub catalog skills re-downloaded to compare.
+   */
+  async checkUpdates(): Promise<SkillUpdate[]> {
+    const records = await this.readInstalledRecords();
+    const ids = Object.keys(records);
+    if (ids.length === 0) return [];
+
+    const catalog = await this.getCatalogIndex();
+    const sourceSkills = Object.values(records).some((r) => r.source === 'custom')
+      ? await this.fetchSourceCatalogs()
+      : [];
+
+    const updates: SkillUpdate[] = [];
+    for (const skillId of ids) {
+      const record = records[skillId];
+      let latest: string | undefined;
+      if (record.source === 'custom') {
+        latest = sourceSkills.find(
+          (s) => s.id === skillId && s.sourceId === record.sourceId
+        )?.version;
+      } else {
+        const skill = catalog.skills.find((s) => s.id === skillId);
+        const mdUrl = skill && this.getSkillMdUrl(skill);
+        if (mdUrl) {
+          try {
+            latest = hashSkillFiles([['SKILL.md', await httpsGet(mdUrl)]]);
+          } catch (err) {
+            log.warn(`Failed to check skill "${skillId}" for updates:`, err);
+          }
+        }
+      }
+      if (!latest) continue;
+      this.latestVersions.set(skillId, latest);
+      if (latest !== record.version) {
+        updates.push({ skillId, installedVersion: record.version, latestVersion: latest });
+      }
+    }
+    return updates;
+  }
+
+  /**
+   * Write a catalog skill into the skills root, replacing any installed copy
+   * only once the new one is complete, and record the installed version.
+   */
+  private async writeSkill(skill: CatalogSkill): Promise<CatalogSkill> {
+    const skillDir = path.join(SKILLS_ROOT, skill.id);
     const tmpDir = `${skillDir}.tmp-${Date.now()}`;
     try {
       await fs.promises.mkdir(tmpDir, { recursive: true });
 
-      // Try to download the real SKILL.md from GitHub; fall back to generated stub
-      let content: string;
-      try {
-        const mdUrl = this.getSkillMdUrl(skill);
-        if (mdUrl) {
-          content = await httpsGet(mdUrl);
-        } else {
-          content = generateSkillMd(skill.displayName, skill.description);
+      if (skill.sourcePath) {
+        // Configured sources ship whole directories (scripts, references, ...)
+        await fs.promises.cp(skill.sourcePath, tmpDir, {
+          recursive: true,
+          filter: (src) => path.basename(src) !== '.git',
+        });
+      } else {
+        // Try to download the real SKILL.md from GitHub; fall back to generated stub
+        let downloaded: string;
+        try {
+          const mdUrl = this.getSkillMdUrl(skill);
+          if (mdUrl) {
+            downloaded = await httpsGet(mdUrl);
+          } else {
+            downloaded = generateSkillMd(skill.displayName, skill.description);
+          }
+        } catch {
+          downloaded = generateSkillMd(skill.displayName, skill.description);
         }
-      } catch {
-        content = generateSkillMd(skill.displayName, skill.description);
+        await fs.promises.writeFile(path.join(tmpDir, 'SKILL.md'), downloaded);
       }
-      await fs.promises.writeFile(path.join(tmpDir, 'SKILL.md'), content);
+      const content = await fs.promises.readFile(path.join(tmpDir, 'SKILL.md'), 'utf-8');
+      const version = await hashSkillDir(tmpDir);
 
-      // Remove stale target dir if present (e.g. from a previous failed install)
+      // Remove the installed or stale target dir (e.g. from a previous failed install)
       await fs.promises.rm(skillDir, { recursive: true, force: true }).catch(() => {});
 
       // Atomic move: rename tmp dir to final location
       await fs.promises.rename(tmpDir, skillDir);
 
       // Sync to agents
-      await this.syncToAgents(skillId);
+      await this.syncToAgents(skill.id);
+
+      const records = await this.readInstalledRecords();
+      records[skill.id] = {
+        source: skill.source,
+        ...(skill.sourceId && { sourceId: skill.sourceId }),
+        version,
+        installedAt: new Date().toISOString(),
+      };
+      await this.writeInstalledRecords(records);
 
       // Invalidate cache
       this.catalogCache = null;
@@ -274,11 +423,15 @@ export class SkillsService {
         installed: true,
         localPath: skillDir,
         skillMdContent: content,
+        installedVersion: version,
+        updateAvailable: false,
       };
     } catch (error) {
-      // Clean up partial install
+      // Clean up partial install; an update keeps the installed copy
       await fs.promises.rm(tmpDir, { recursive: true, force: true }).catch(() => {});
-      await fs.promises.rm(skillDir, { recursive: true, force: true }).catch(() => {});
+      if (!skill.installed) {
+        await fs.promises.rm(skillDir, { recursive: true, force: true }).catch(() => {});
+      }
       throw error;
     }
   }
@@ -297,6 +450,12 @@ export class SkillsService {
       throw error;
     }
 
+    const records = await this.readInstalledRecords();
+    if (records[skillId]) {
+      delete records[skillId];
+      await this.writeInstalledRecords(records);
+    }
+
     // Invalidate cache
     this.catalogCache = null;
   }
@@ -412,8 +571,200 @@ export class SkillsService {
     return agents;
   }
 
+  /** Skills committed to a project (or worktree) under `.agents/skills`. */
+  async getProjectSkills(projectPath: string): Promise<CatalogSkill[]> {
+    const skills = await this.scanSkills(path.join(projectPath, PROJECT_SKILLS_DIR));
+    return skills.map(({ skill, dir }) => ({
+      ...skill,
+      source: 'project' as const,
+      installed: true,
+      localPath: dir,
+    }));
+  }
+
+  /**
+   * Link a worktree's project skills into its agent skill directories, for the
+   * agents installed on this machine. Skills the repo already has in an agent
+   * directory are left alone. The links are excluded from git so they never
+   * show up as changes. Returns the created links, relative to the worktree.
+   */
+  async syncProjectSkills(worktreePath: string): Promise<string[]> {
+    const skills = await this.getProjectSkills(worktreePath);
+    if (skills.length === 0) return [];
+
+    const linked: string[] = [];
+    for (const target of agentTargets) {
+      try {
+        await fs.promises.access(target.configDir);
+      } catch {
+        continue; // Agent not installed
+      }
+      for (const skill of skills) {
+        const relPath = path.join(target.projectSkillDir, skill.id);
+        const linkPath = path.join(worktreePath, relPath);
+        try {
+          const stat = await fs.promises.lstat(linkPath);
+          if (!stat.isSymbolicLink()) continue;
+          // Links made before the worktree moved (pool reserves) are recreated
+          if ((await fs.promises.readlink(linkPath)) === skill.localPath) continue;
+          await fs.promises.unlink(linkPath);
+        } catch {
+          // Doesn't exist yet
+        }
+        try {
+          await fs.promises.mkdir(path.dirname(linkPath), { recursive: true });
+          await fs.promises.symlink(skill.localPath!, linkPath, 'junction');
+          linked.push(relPath);
+        } catch (err) {
+          log.warn(`Failed to link project skill "${skill.id}" for ${target.name}:`, err);
+        }
+      }
+    }
+
+    if (linked.length > 0) await this.excludeFromGit(worktreePath, linked);
+    return linked;
+  }
+
   // --- Private helpers ---
 
+  /**
+   * Add the links to the repo's exclude file. Linked worktrees share that file,
+   * so each path is re-included when it is a directory: only the links are
+   * hidden, never a skill another checkout has at the same path.
+   */
+  private async excludeFromGit(worktreePath: string, relPaths: string[]): Promise<void> {
+    try {
+      const { stdout } = await execFileAsync('git', ['rev-parse', '--git-path', 'info/exclude'], {
+        cwd: worktreePath,
+      });
+      const excludePath = path.resolve(worktreePath, stdout.trim());
+      const existing = await fs.promises.readFile(excludePath, 'utf-8').catch(() => '');
+      const lines = new Set(existing.split(/\r?\n/));
+      const missing = relPaths
+        .map((p) => `/${p.split(path.sep).join('/')}`)
+        .flatMap((pattern) => [pattern, `!${pattern}/`])
+        .filter((line) => !lines.has(line));
+      if (missing.length === 0) return;
+      await fs.promises.mkdir(path.dirname(excludePath), { recursive: true });
+      const prefix = existing && !existing.endsWith('\n') ? '\n' : '';
+      await fs.promises.appendFile(excludePath, `${prefix}${missing.join('\n')}\n`);
+    } catch (err) {
+      log.warn('Failed to exclude project skill links from git:', err);
+    }
+  }
+
+  /** Subdirectories of `root` holding a SKILL.md, with their parsed metadata. */
+  private async scanSkills(root: string): Promise<Array<{ skill: CatalogSkill; dir: string }>> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(root, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    const found: Array<{ skill: CatalogSkill; dir: string }> = [];
+    for (const entry of entries) {
+      if (!entry.isDirectory() || !isValidSkillName(entry.name)) continue;
+      const dir = path.join(root, entry.name);
+      try {
+        const content = await fs.promises.readFile(path.join(dir, 'SKILL.md'), 'utf-8');
+        const { frontmatter } = parseFrontmatter(content);
+        found.push({
+          dir,
+          skill: {
+            id: entry.name,
+            displayName: frontmatter.name || entry.name,
+            description: frontmatter.description || '',
+            source: 'local',
+            frontmatter,
+            installed: false,
+            skillMdContent: content,
+          },
+        });
+      } catch {
+        // No SKILL.md — not a skill directory
+      }
+    }
+    return found;
+  }
+
+  /** Skills of every configured source; sources that fail to sync are skipped. */
+  private async fetchSourceCatalogs(): Promise<CatalogSkill[]> {
+    const sources = getAppSettings().skillSources ?? [];
+    const results = await Promise.allSettled(sources.map((s) => this.fetchSourceCatalog(s)));
+    return results.flatMap((result, i) => {
+      if (result.status === 'fulfilled') return result.value;
+      log.warn(`Failed to load skill source "${sources[i].name}":`, result.reason);
+      return [];
+    });
+  }
+
+  private async fetchSourceCatalog(source: SkillSource): Promise<CatalogSkill[]> {
+    const checkout = isGitLocation(source.location)
+      ? await this.syncGitSource(source)
+      : source.location;
+    const skills = await this.scanSkills(path.join(checkout, source.path ?? ''));
+    return Promise.all(
+      skills.map(async ({ skill, dir }) => ({
+        ...skill,
+        source: 'custom' as const,
+        sourceId: source.id,
+        sourcePath: dir,
+        version: await hashSkillDir(dir),
+      }))
+    );
+  }
+
+  /** Clone or fast-forward the shallow checkout of a git source. */
+  private async syncGitSource(source: SkillSource): Promise<string> {
+    const checkout = path.join(SOURCES_DIR, source.id);
+    const git = (args: string[], cwd?: string) =>
+      execFileAsync('git', args, { cwd, timeout: 60_000 });
+
+    let origin: string | null = null;
+    try {
+      origin = (await git(['remote', 'get-url', 'origin'], checkout)).stdout.trim();
+    } catch {
+      // Not cloned yet
+    }
+
+    if (origin === source.location) {
+      await git(['fetch', '--depth', '1', 'origin', source.ref ?? 'HEAD'], checkout);
+      await git(['reset', '--hard', 'FETCH_HEAD'], checkout);
+      return checkout;
+    }
+
+    // New source, or its location changed
+    await fs.promises.rm(checkout, { recursive: true, force: true });
+    await fs.promises.mkdir(SOURCES_DIR, { recursive: true });
+    await git([
+      'clone',
+      '--depth',
+      '1',
+      ...(source.ref ? ['--branch', source.ref] : []),
+      '--',
+      source.location,
+      checkout,
+    ]);
+    return checkout;
+  }
+
+  private async readInstalledRecords(): Promise<Record<string, InstalledSkillRecord>> {
+    try {
+      const data = await fs.promises.readFile(INSTALLED_RECORDS_PATH, 'utf-8');
+      return JSON.parse(data) as Record<string, InstalledSkillRecord>;
+    } catch {
+      return {};
+    }
+  }
+
+  private async writeInstalledRecords(
+    records: Record<string, InstalledSkillRecord>
+  ): Promise<void> {
+    await fs.promises.mkdir(VALKYR_META, { recursive: true });
+    await fs.promises.writeFile(INSTALLED_RECORDS_PATH, JSON.stringify(records, null, 2));
+  }
+
   private async loadBundledCatalog(): Promise<CatalogIndex> {
     try {
       // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -427,6 +778,7 @@ export class SkillsService {
   private async mergeInstalledState(catalog: CatalogIndex): Promise<CatalogIndex> {
     const installed = await this.getInstalledSkills();
     const installedMap = new Map(installed.map((s) => [s.id, s]));
+    const records = await this.readInstalledRecords();
 
     // Deduplicate catalog skills by id (first occurrence wins)
     const seen = new Set<string>();
@@ -440,11 +792,15 @@ export class SkillsService {
       const local = installedMap.get(skill.id);
       if (local) {
         installedMap.delete(skill.id);
+        const installedVersion = records[skill.id]?.version;
+        const latest = this.latestVersions.get(skill.id) ?? skill.version;
         return {
           ...skill,
           installed: true,
           localPath: local.localPath,
           skillMdContent: local.skillMdContent,
+          installedVersion,
+          updateAvailable: Boolean(installedVersion && latest && latest !== installedVersion),
         };
       }
       return { ...skill, installed: false };
@@ -7,27 +7,62 @@ import {
   type LifecycleEvent,
   type LifecyclePhase,
   type LifecyclePhaseState,
+  type LifecycleServiceDefinition,
+  type LifecycleServiceState,
+  type LifecycleServiceStatus,
   type TaskLifecycleState,
 } from '@shared/lifecycle';
-import { getTaskEnvVars } from '@shared/task/envVars';
+import { allocateServicePorts, getServicePortEnvVars, getTaskEnvVars } from '@shared/task/envVars';
 import { log } from '../lib/logger';
 import { execFile } from 'node:child_process';
+import { hostPreviewService, normalizeUrl } from './hostPreviewService';
+import { resolveRemoteConnectionId } from './ssh/remoteProject';
+import { sshService } from './ssh/SshService';
+import { buildRemoteShellCommand, SshChannelProcess } from './ssh/SshChannelProcess';
+import { sshPortForwardService } from './ssh/SshPortForwardService';
+import { quoteShellArg } from '../utils/shellEscape';
+import { probeHttp, probePort, waitUntilReady } from './serviceReadiness';
+import { verifyService } from './verify/VerifyService';
 
 const execFileAsync = promisify(execFile);
 
+/** A local shell, or a script running in an SSH channel for remote projects. */
+type LifecycleProcess = ChildProcess | SshChannelProcess;
+
 type LifecycleResult = {
   ok: boolean;
   skipped?: boolean;
   error?: string;
 };
 
+/** The services of one run, each supervised on its own. */
+type ServiceRun = {
+  taskPath: string;
+  connectionId: string | null;
+  taskEnv: Record<string, string>;
+  services: LifecycleServiceDefinition[];
+  ports: Record<string, number>;
+  processes: Map<string, LifecycleProcess>;
+  /** Services to start again once their current process has exited. */
+  restarting: Set<string>;
+  stopping: boolean;
+  done: Promise<void>;
+  resolveDone: () => void;
+};
+
+const DEFAULT_READINESS_TIMEOUT_MS = 60_000;
+/** Verify output kept for TAP parsing; later output is only streamed to the UI. */
+const MAX_VERIFY_OUTPUT = 4 * 1024 * 1024;
+
 class TaskLifecycleService extends EventEmitter {
   private states = new Map<string, TaskLifecycleState>();
-  private runProcesses = new Map<string, ChildProcess>();
-  private finiteProcesses = new Map<string, Set<ChildProcess>>();
+  private runProcesses = new Map<string, LifecycleProcess>();
+  private serviceRuns = new Map<string, ServiceRun>();
+  private finiteProcesses = new Map<string, Set<LifecycleProcess>>();
   private runStartInflight = new Map<string, Promise<LifecycleResult>>();
   private setupInflight = new Map<string, Promise<LifecycleResult>>();
   private teardownInflight = new Map<string, Promise<LifecycleResult>>();
+  private verifyInflight = new Map<string, Promise<LifecycleResult>>();
   private stopIntents = new Set<string>();
 
   private nowIso(): string {
@@ -38,7 +73,13 @@ class TaskLifecycleService extends EventEmitter {
     return `${taskId}::${taskPath}`;
   }
 
-  private killProcessTree(proc: ChildProcess, signal: NodeJS.Signals): void {
+  private killProcessTree(proc: LifecycleProcess, signal: NodeJS.Signals): void {
+    if (proc instanceof SshChannelProcess) {
+      // Remote scripts run in a pty; closing the channel hangs up the process group.
+      proc.kill(signal);
+      return;
+    }
+
     const pid = proc.pid;
     if (!pid) return;
 
@@ -60,8 +101,8 @@ class TaskLifecycleService extends EventEmitter {
     }
   }
 
-  private trackFiniteProcess(taskId: string, proc: ChildProcess): () => void {
-    const set = this.finiteProcesses.get(taskId) ?? new Set<ChildProcess>();
+  private trackFiniteProcess(taskId: string, proc: LifecycleProcess): () => void {
+    const set = this.finiteProcesses.get(taskId) ?? new Set<LifecycleProcess>();
     set.add(proc);
     this.finiteProcesses.set(taskId, set);
     return () => {
@@ -74,12 +115,67 @@ class TaskLifecycleService extends EventEmitter {
     };
   }
 
-  private async resolveDefaultBranch(projectPath: string): Promise<string> {
+  /**
+   * SSH connection for tasks of remote projects, null for local ones.
+   * Throws when the project is remote but its connection is not open.
+   */
+  private async resolveRemote(taskPath: string, projectPath: string): Promise<string | null> {
+    const connectionId = await resolveRemoteConnectionId(taskPath, projectPath);
+    if (!connectionId) return null;
+    if (!sshService.isConnected(connectionId)) {
+      throw new Error('SSH connection for this remote project is not open');
+    }
+    return connectionId;
+  }
+
+  private getScript(
+    projectPath: string,
+    phase: LifecyclePhase,
+    connectionId: string | null
+  ): Promise<string | null> {
+    return connectionId
+      ? lifecycleScriptsService.getRemoteScript(connectionId, projectPath, phase)
+      : Promise.resolve(lifecycleScriptsService.getScript(projectPath, phase));
+  }
+
+  private async getServices(
+    projectPath: string,
+    connectionId: string | null
+  ): Promise<LifecycleServiceDefinition[]> {
+    return connectionId
+      ? lifecycleScriptsService.getRemoteServices(connectionId, projectPath)
+      : lifecycleScriptsService.getServices(projectPath);
+  }
+
+  private async git(
+    projectPath: string,
+    args: string[],
+    connectionId: string | null
+  ): Promise<string> {
+    if (!connectionId) {
+      const { stdout } = await execFileAsync('git', args, { cwd: projectPath });
+      return stdout;
+    }
+    const result = await sshService.executeCommand(
+      connectionId,
+      `git ${args.map(quoteShellArg).join(' ')}`,
+      projectPath
+    );
+    if (result.exitCode !== 0) {
+      throw new Error(result.stderr || `git ${args[0]} failed`);
+    }
+    return result.stdout;
+  }
+
+  private async resolveDefaultBranch(
+    projectPath: string,
+    connectionId: string | null
+  ): Promise<string> {
     try {
-      const { stdout } = await execFileAsync(
-        'git',
+      const stdout = await this.git(
+        projectPath,
         ['symbolic-ref', '--short', 'refs/remotes/origin/HEAD'],
-        { cwd: projectPath }
+        connectionId
       );
       const ref = stdout.trim();
       if (ref) {
@@ -88,9 +184,11 @@ class TaskLifecycleService extends EventEmitter {
     } catch {}
 
     try {
-      const { stdout } = await execFileAsync('git', ['rev-parse', '--abbrev-ref', 'HEAD'], {
-        cwd: projectPath,
-      });
+      const stdout = await this.git(
+        projectPath,
+        ['rev-parse', '--abbrev-ref', 'HEAD'],
+        connectionId
+      );
       const branch = stdout.trim();
       if (branch && branch !== 'HEAD') {
         return branch;
@@ -100,14 +198,15 @@ class TaskLifecycleService extends EventEmitter {
     return 'main';
   }
 
-  private async buildLifecycleEnv(
+  private async buildTaskEnv(
     taskId: string,
     taskPath: string,
-    projectPath: string
-  ): Promise<NodeJS.ProcessEnv> {
-    const defaultBranch = await this.resolveDefaultBranch(projectPath);
+    projectPath: string,
+    connectionId: string | null
+  ): Promise<Record<string, string>> {
+    const defaultBranch = await this.resolveDefaultBranch(projectPath, connectionId);
     const taskName = path.basename(taskPath) || taskId;
-    const taskEnv = getTaskEnvVars({
+    return getTaskEnvVars({
       taskId,
       taskName,
       taskPath,
@@ -115,7 +214,76 @@ class TaskLifecycleService extends EventEmitter {
       defaultBranch,
       portSeed: taskPath || taskId,
     });
-    return { ...process.env, ...taskEnv };
+  }
+
+  private async spawnScript(
+    script: string,
+    taskId: string,
+    taskPath: string,
+    projectPath: string,
+    connectionId: string | null
+  ): Promise<LifecycleProcess> {
+    const taskEnv = await this.buildTaskEnv(taskId, taskPath, projectPath, connectionId);
+    return this.spawnCommand(script, taskPath, taskEnv, connectionId);
+  }
+
+  /**
+   * Start a shell command in the task worktree. Remote commands run in the
+   * host's login shell with only the task variables added to its environment.
+   */
+  private spawnCommand(
+    command: string,
+    cwd: string,
+    env: Record<string, string>,
+    connectionId: string | null
+  ): LifecycleProcess {
+    if (connectionId) {
+      const connection = sshService.getConnection(connectionId);
+      if (!connection) {
+        throw new Error(`Connection ${connectionId} not found`);
+      }
+      return new SshChannelProcess(
+        connection.client,
+        buildRemoteShellCommand(command, { cwd, env }),
+        {
+          stdin: 'ignore',
+          pty: true,
+        }
+      );
+    }
+    return spawn(command, {
+      cwd,
+      shell: true,
+      env: { ...process.env, ...env },
+      detached: true,
+    });
+  }
+
+  /**
+   * Forward the port of a dev-server URL printed by a remote run and point the
+   * preview at the local end of the forward.
+   */
+  private forwardPreviewUrl(taskId: string, connectionId: string, line: string): void {
+    const url = normalizeUrl(line);
+    if (!url) return;
+    const preview = new URL(url);
+    const remotePort = Number(preview.port);
+    if (!remotePort || sshPortForwardService.get(taskId, remotePort)) return;
+
+    sshPortForwardService
+      .forward(taskId, connectionId, remotePort)
+      .then(({ localPort }) => {
+        preview.hostname = 'localhost';
+        preview.port = String(localPort);
+        hostPreviewService.announceUrl(taskId, preview.toString());
+      })
+      .catch((error) => {
+        log.warn('Failed to forward remote dev server port', {
+          taskId,
+          remotePort,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
   }
 
   private createPhaseState(): LifecyclePhaseState {
@@ -128,6 +296,8 @@ class TaskLifecycleService extends EventEmitter {
       setup: this.createPhaseState(),
       run: { ...this.createPhaseState(), pid: null },
       teardown: this.createPhaseState(),
+      verify: this.createPhaseState(),
+      services: [],
     };
   }
 
@@ -155,14 +325,30 @@ class TaskLifecycleService extends EventEmitter {
     this.emit('event', evt);
   }
 
-  private runFinite(
+  private async runFinite(
     taskId: string,
     taskPath: string,
     projectPath: string,
-    phase: Extract<LifecyclePhase, 'setup' | 'teardown'>
+    phase: Extract<LifecyclePhase, 'setup' | 'teardown' | 'verify'>,
+    onOutput?: (chunk: string) => void
   ): Promise<LifecycleResult> {
-    const script = lifecycleScriptsService.getScript(projectPath, phase);
-    if (!script) return Promise.resolve({ ok: true, skipped: true });
+    let connectionId: string | null;
+    let script: string | null;
+    try {
+      connectionId = await this.resolveRemote(taskPath, projectPath);
+      script = await this.getScript(projectPath, phase, connectionId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.ensureState(taskId)[phase] = {
+        ...this.createPhaseState(),
+        status: 'failed',
+        finishedAt: this.nowIso(),
+        error: message,
+      };
+      this.emitLifecycleEvent(taskId, phase, 'error', { error: message });
+      return { ok: false, error: message };
+    }
+    if (!script) return { ok: true, skipped: true };
 
     const state = this.ensureState(taskId);
     state[phase] = {
@@ -184,16 +370,11 @@ class TaskLifecycleService extends EventEmitter {
           resolve(result);
         };
         try {
-          const env = await this.buildLifecycleEnv(taskId, taskPath, projectPath);
-          const child = spawn(script, {
-            cwd: taskPath,
-            shell: true,
-            env,
-            detached: true,
-          });
+          const child = await this.spawnScript(script, taskId, taskPath, projectPath, connectionId);
           const untrackFinite = this.trackFiniteProcess(taskId, child);
           const onData = (buf: Buffer) => {
             const line = buf.toString();
+            onOutput?.(line);
             this.emitLifecycleEvent(taskId, phase, 'line', { line });
           };
           child.stdout?.on('data', onData);
@@ -256,6 +437,55 @@ class TaskLifecycleService extends EventEmitter {
     return run;
   }
 
+  /**
+   * Run the verify script and record its outcome, with test results taken from
+   * the JUnit reports named in `.valkyr.json` and any TAP output.
+   */
+  async runVerify(taskId: string, taskPath: string, projectPath: string): Promise<LifecycleResult> {
+    const key = this.inflightKey(taskId, taskPath);
+    if (this.verifyInflight.has(key)) {
+      return this.verifyInflight.get(key)!;
+    }
+    const run = this.runVerifyInternal(taskId, taskPath, projectPath).finally(() => {
+      this.verifyInflight.delete(key);
+    });
+    this.verifyInflight.set(key, run);
+    return run;
+  }
+
+  private async runVerifyInternal(
+    taskId: string,
+    taskPath: string,
+    projectPath: string
+  ): Promise<LifecycleResult> {
+    const startedAt = this.nowIso();
+    let output = '';
+    const result = await this.runFinite(taskId, taskPath, projectPath, 'verify', (chunk) => {
+      if (output.length < MAX_VERIFY_OUTPUT) output += chunk;
+    });
+    if (result.skipped) return result;
+
+    const phase = this.ensureState(taskId).verify;
+    try {
+      const run = await verifyService.recordRun({
+        taskId,
+        taskPath,
+        projectPath,
+        startedAt: phase.startedAt ?? startedAt,
+        exitCode: phase.exitCode ?? null,
+        error: result.ok ? null : (result.error ?? null),
+        output,
+      });
+      this.emitLifecycleEvent(taskId, 'verify', 'result', { exitCode: run.exitCode });
+    } catch (error) {
+      log.warn('Failed to record verify run', {
+        taskId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return result;
+  }
+
   async startRun(taskId: string, taskPath: string, projectPath: string): Promise<LifecycleResult> {
     const inflight = this.runStartInflight.get(taskId);
     if (inflight) return inflight;
@@ -274,7 +504,14 @@ class TaskLifecycleService extends EventEmitter {
     taskPath: string,
     projectPath: string
   ): Promise<LifecycleResult> {
-    const setupScript = lifecycleScriptsService.getScript(projectPath, 'setup');
+    let connectionId: string | null;
+    try {
+      connectionId = await this.resolveRemote(taskPath, projectPath);
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const setupScript = await this.getScript(projectPath, 'setup', connectionId);
     if (setupScript) {
       const setupStatus = this.ensureState(taskId).setup.status;
       if (setupStatus === 'running') {
@@ -288,7 +525,17 @@ class TaskLifecycleService extends EventEmitter {
       }
     }
 
-    const script = lifecycleScriptsService.getScript(projectPath, 'run');
+    let services: LifecycleServiceDefinition[];
+    try {
+      services = await this.getServices(projectPath, connectionId);
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+    if (services.length > 0) {
+      return this.startServices(taskId, taskPath, projectPath, connectionId, services);
+    }
+
+    const script = await this.getScript(projectPath, 'run', connectionId);
     if (!script) return { ok: true, skipped: true };
 
     const existing = this.runProcesses.get(taskId);
@@ -308,19 +555,16 @@ class TaskLifecycleService extends EventEmitter {
     this.emitLifecycleEvent(taskId, 'run', 'starting');
 
     try {
-      const env = await this.buildLifecycleEnv(taskId, taskPath, projectPath);
-      const child = spawn(script, {
-        cwd: taskPath,
-        shell: true,
-        env,
-        detached: true,
-      });
+      const child = await this.spawnScript(script, taskId, taskPath, projectPath, connectionId);
       this.runProcesses.set(taskId, child);
       state.run.pid = child.pid ?? null;
 
       const onData = (buf: Buffer) => {
         const line = buf.toString();
         this.emitLifecycleEvent(taskId, 'run', 'line', { line });
+        if (connectionId) {
+          this.forwardPreviewUrl(taskId, connectionId, line);
+        }
       };
       child.stdout?.on('data', onData);
       child.stderr?.on('data', onData);
@@ -328,6 +572,7 @@ class TaskLifecycleService extends EventEmitter {
         if (this.runProcesses.get(taskId) !== child) return;
         this.runProcesses.delete(taskId);
         this.stopIntents.delete(taskId);
+        sshPortForwardService.closeTask(taskId);
         const message = error?.message || String(error);
         const cur = this.ensureState(taskId);
         cur.run = {
@@ -343,6 +588,7 @@ class TaskLifecycleService extends EventEmitter {
         this.runProcesses.delete(taskId);
         const wasStopped = this.stopIntents.has(taskId);
         this.stopIntents.delete(taskId);
+        sshPortForwardService.closeTask(taskId);
         const cur = this.ensureState(taskId);
         cur.run = {
           ...cur.run,
@@ -370,7 +616,398 @@ class TaskLifecycleService extends EventEmitter {
     }
   }
 
+  private async startServices(
+    taskId: string,
+    taskPath: string,
+    projectPath: string,
+    connectionId: string | null,
+    services: LifecycleServiceDefinition[]
+  ): Promise<LifecycleResult> {
+    const existing = this.serviceRuns.get(taskId);
+    if (existing && !existing.stopping) {
+      return { ok: true, skipped: true };
+    }
+
+    const state = this.ensureState(taskId);
+    try {
+      const taskEnv = await this.buildTaskEnv(taskId, taskPath, projectPath, connectionId);
+      const ports = allocateServicePorts(
+        Number(taskEnv.VALKYR_PORT),
+        services.map((service) => service.name)
+      );
+      let resolveDone!: () => void;
+      const done = new Promise<void>((resolve) => {
+        resolveDone = resolve;
+      });
+      const run: ServiceRun = {
+        taskPath,
+        connectionId,
+        taskEnv,
+        services,
+        ports,
+        processes: new Map(),
+        restarting: new Set(),
+        stopping: false,
+        done,
+        resolveDone,
+      };
+      this.serviceRuns.set(taskId, run);
+
+      state.services = services.map((service) => ({
+        name: service.name,
+        status: 'waiting',
+        port: ports[service.name],
+        pid: null,
+        exitCode: null,
+        error: null,
+        restarts: 0,
+      }));
+      state.run = {
+        status: 'running',
+        startedAt: this.nowIso(),
+        finishedAt: undefined,
+        exitCode: null,
+        error: null,
+        pid: null,
+      };
+      this.emitLifecycleEvent(taskId, 'run', 'starting');
+      this.startWaitingServices(taskId, run);
+      return { ok: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      state.run = {
+        ...state.run,
+        status: 'failed',
+        finishedAt: this.nowIso(),
+        error: message,
+        pid: null,
+      };
+      this.emitLifecycleEvent(taskId, 'run', 'error', { error: message });
+      return { ok: false, error: message };
+    }
+  }
+
+  private getServiceState(taskId: string, name: string): LifecycleServiceState | undefined {
+    return this.states.get(taskId)?.services.find((service) => service.name === name);
+  }
+
+  private updateService(taskId: string, name: string, patch: Partial<LifecycleServiceState>): void {
+    const state = this.states.get(taskId);
+    const index = state?.services.findIndex((service) => service.name === name) ?? -1;
+    if (!state || index === -1) return;
+    state.services[index] = { ...state.services[index], ...patch };
+  }
+
+  /** Start services whose dependencies are ready and fail those whose dependencies never will be. */
+  private startWaitingServices(taskId: string, run: ServiceRun): void {
+    if (this.serviceRuns.get(taskId) !== run || run.stopping) return;
+    const settled: LifecycleServiceStatus[] = ['stopped', 'exited', 'failed'];
+
+    for (const service of run.services) {
+      if (this.getServiceState(taskId, service.name)?.status !== 'waiting') continue;
+      const dependencies = service.dependsOn ?? [];
+      const blocked = dependencies.find((dependency) => {
+        const status = this.getServiceState(taskId, dependency)?.status;
+        return !status || settled.includes(status);
+      });
+      if (blocked) {
+        const error = `Dependency ${blocked} is not running`;
+        this.updateService(taskId, service.name, {
+          status: 'failed',
+          finishedAt: this.nowIso(),
+          error,
+        });
+        this.emitLifecycleEvent(taskId, 'run', 'error', { service: service.name, error });
+        continue;
+      }
+      if (dependencies.every((d) => this.getServiceState(taskId, d)?.status === 'ready')) {
+        this.startService(taskId, run, service);
+      }
+    }
+  }
+
+  private startService(taskId: string, run: ServiceRun, service: LifecycleServiceDefinition): void {
+    const { name, readiness } = service;
+    const port = run.ports[name];
+    this.updateService(taskId, name, {
+      status: 'starting',
+      startedAt: this.nowIso(),
+      readyAt: undefined,
+      finishedAt: undefined,
+      exitCode: null,
+      error: null,
+      pid: null,
+    });
+    this.emitLifecycleEvent(taskId, 'run', 'starting', { service: name });
+
+    let child: LifecycleProcess;
+    let logPattern: RegExp | null;
+    try {
+      logPattern = readiness?.type === 'log' ? new RegExp(readiness.pattern) : null;
+      const cwd = !service.cwd
+        ? run.taskPath
+        : run.connectionId
+          ? path.posix.resolve(run.taskPath, service.cwd)
+          : path.resolve(run.taskPath, service.cwd);
+      child = this.spawnCommand(
+        service.command,
+        cwd,
+        {
+          ...run.taskEnv,
+          ...getServicePortEnvVars(run.ports),
+          PORT: String(port),
+          VALKYR_SERVICE_NAME: name,
+          ...service.env,
+        },
+        run.connectionId
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.updateService(taskId, name, {
+        status: 'failed',
+        finishedAt: this.nowIso(),
+        error: message,
+      });
+      this.emitLifecycleEvent(taskId, 'run', 'error', { service: name, error: message });
+      this.startWaitingServices(taskId, run);
+      this.settleServiceRun(taskId, run);
+      return;
+    }
+
+    run.processes.set(name, child);
+    this.updateService(taskId, name, { pid: child.pid ?? null });
+
+    // Output may split a line across chunks, so match against a short tail
+    let recentOutput = '';
+    const onData = (buf: Buffer) => {
+      const line = buf.toString();
+      this.emitLifecycleEvent(taskId, 'run', 'line', { service: name, line });
+      if (run.connectionId) {
+        this.forwardPreviewUrl(taskId, run.connectionId, line);
+      }
+      if (logPattern && this.getServiceState(taskId, name)?.status === 'starting') {
+        recentOutput = (recentOutput + line).slice(-4096);
+        if (logPattern.test(recentOutput)) {
+          this.markServiceReady(taskId, run, name);
+        }
+      }
+    };
+    child.stdout?.on('data', onData);
+    child.stderr?.on('data', onData);
+    child.on('error', (error) => {
+      this.handleServiceExit(taskId, run, name, child, null, error?.message || String(error));
+    });
+    child.on('exit', (code) => {
+      this.handleServiceExit(taskId, run, name, child, code);
+    });
+
+    if (!readiness) {
+      this.markServiceReady(taskId, run, name);
+    } else {
+      void this.awaitServiceReadiness(taskId, run, service, child);
+    }
+  }
+
+  private async awaitServiceReadiness(
+    taskId: string,
+    run: ServiceRun,
+    service: LifecycleServiceDefinition,
+    child: LifecycleProcess
+  ): Promise<void> {
+    const readiness = service.readiness!;
+    const timeoutMs = readiness.timeoutMs ?? DEFAULT_READINESS_TIMEOUT_MS;
+    const isStarting = () =>
+      run.processes.get(service.name) === child &&
+      !run.stopping &&
+      this.getServiceState(taskId, service.name)?.status === 'starting';
+
+    const ready = await waitUntilReady(this.readinessProbe(taskId, run, service), {
+      timeoutMs,
+      isCancelled: () => !isStarting(),
+    });
+    if (ready) {
+      this.markServiceReady(taskId, run, service.name);
+      return;
+    }
+    if (!isStarting()) return;
+
+    const error = `Not ready after ${Math.round(timeoutMs / 1000)}s`;
+    this.updateService(taskId, service.name, { status: 'failed', error });
+    this.emitLifecycleEvent(taskId, 'run', 'error', { service: service.name, error });
+    try {
+      this.killProcessTree(child, 'SIGTERM');
+    } catch {}
+  }
+
+  /** Port and HTTP probes of remote services go through the SSH connection. */
+  private readinessProbe(
+    taskId: string,
+    run: ServiceRun,
+    service: LifecycleServiceDefinition
+  ): () => Promise<boolean> {
+    const readiness = service.readiness!;
+    // Log readiness is marked from the output handler
+    if (readiness.type === 'log') return async () => false;
+
+    const port = readiness.port ?? run.ports[service.name];
+    const { connectionId } = run;
+    if (readiness.type === 'port') {
+      return connectionId
+        ? () => sshPortForwardService.probe(connectionId, port)
+        : () => probePort(port);
+    }
+    const httpPath = readiness.path ?? '/';
+    if (!connectionId) return () => probeHttp(port, httpPath);
+    return async () => {
+      const { localPort } = await sshPortForwardService.forward(taskId, connectionId, port);
+      return probeHttp(localPort, httpPath);
+    };
+  }
+
+  private markServiceReady(taskId: string, run: ServiceRun, name: string): void {
+    if (this.serviceRuns.get(taskId) !== run) return;
+    if (this.getServiceState(taskId, name)?.status !== 'starting') return;
+    this.updateService(taskId, name, { status: 'ready', readyAt: this.nowIso() });
+    this.emitLifecycleEvent(taskId, 'run', 'ready', { service: name });
+    this.startWaitingServices(taskId, run);
+  }
+
+  private handleServiceExit(
+    taskId: string,
+    run: ServiceRun,
+    name: string,
+    child: LifecycleProcess,
+    exitCode: number | null,
+    error?: string
+  ): void {
+    if (run.processes.get(name) !== child) return;
+    run.processes.delete(name);
+
+    if (this.serviceRuns.get(taskId) === run) {
+      const restarting = run.restarting.delete(name);
+      const previous = this.getServiceState(taskId, name);
+      const failed =
+        !run.stopping &&
+        !restarting &&
+        (previous?.status === 'failed' || !!error || exitCode !== 0);
+      this.updateService(taskId, name, {
+        status: failed ? 'failed' : run.stopping || restarting ? 'stopped' : 'exited',
+        finishedAt: this.nowIso(),
+        exitCode,
+        pid: null,
+        error: !failed
+          ? null
+          : previous?.status === 'failed'
+            ? previous.error
+            : (error ?? `Exited with code ${String(exitCode)}`),
+      });
+      this.emitLifecycleEvent(taskId, 'run', error ? 'error' : 'exit', {
+        service: name,
+        exitCode,
+        ...(error ? { error } : {}),
+      });
+
+      const service = run.services.find((s) => s.name === name);
+      if (restarting && service && !run.stopping) {
+        this.updateService(taskId, name, { restarts: (previous?.restarts ?? 0) + 1 });
+        this.startService(taskId, run, service);
+        return;
+      }
+    }
+    this.startWaitingServices(taskId, run);
+    this.settleServiceRun(taskId, run);
+  }
+
+  /** Finish the run once none of its services has a process left. */
+  private settleServiceRun(taskId: string, run: ServiceRun): void {
+    if (run.processes.size > 0) return;
+
+    if (this.serviceRuns.get(taskId) === run) {
+      this.serviceRuns.delete(taskId);
+      sshPortForwardService.closeTask(taskId);
+      const state = this.ensureState(taskId);
+      for (const service of state.services) {
+        if (service.status === 'waiting') {
+          this.updateService(taskId, service.name, { status: 'stopped' });
+        }
+      }
+      const failed = state.services.find((service) => service.status === 'failed');
+      state.run = {
+        ...state.run,
+        status: run.stopping ? 'idle' : failed ? 'failed' : 'succeeded',
+        finishedAt: this.nowIso(),
+        exitCode: run.stopping ? null : failed ? 1 : 0,
+        pid: null,
+        error: run.stopping || !failed ? null : `Service ${failed.name} failed`,
+      };
+      this.emitLifecycleEvent(taskId, 'run', 'exit', { exitCode: state.run.exitCode });
+    }
+    run.resolveDone();
+  }
+
+  /**
+   * Restart one service of a running task. A service that is not running
+   * starts again once its dependencies are ready.
+   */
+  restartService(taskId: string, name: string): LifecycleResult {
+    const run = this.serviceRuns.get(taskId);
+    if (!run || run.stopping) {
+      return { ok: false, error: 'Services are not running' };
+    }
+    const service = run.services.find((s) => s.name === name);
+    if (!service) {
+      return { ok: false, error: `Unknown service ${name}` };
+    }
+
+    const proc = run.processes.get(name);
+    if (proc) {
+      run.restarting.add(name);
+      this.killServiceProcess(run, name, proc);
+      return { ok: true };
+    }
+
+    const notReady = (service.dependsOn ?? []).find(
+      (dependency) => this.getServiceState(taskId, dependency)?.status !== 'ready'
+    );
+    if (notReady) {
+      return { ok: false, error: `Dependency ${notReady} is not ready` };
+    }
+    this.updateService(taskId, name, {
+      restarts: (this.getServiceState(taskId, name)?.restarts ?? 0) + 1,
+    });
+    this.startService(taskId, run, service);
+    return { ok: true };
+  }
+
+  private killServiceProcess(run: ServiceRun, name: string, proc: LifecycleProcess): void {
+    try {
+      this.killProcessTree(proc, 'SIGTERM');
+      setTimeout(() => {
+        if (run.processes.get(name) !== proc) return;
+        this.killProcessTree(proc, 'SIGKILL');
+      }, 8_000);
+    } catch (error) {
+      log.warn('Failed to stop service process', {
+        service: name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private stopServices(taskId: string, run: ServiceRun): LifecycleResult {
+    run.stopping = true;
+    run.restarting.clear();
+    for (const [name, proc] of run.processes) {
+      this.killServiceProcess(run, name, proc);
+    }
+    this.settleServiceRun(taskId, run);
+    return { ok: true };
+  }
+
   stopRun(taskId: string): LifecycleResult {
+    const serviceRun = this.serviceRuns.get(taskId);
+    if (serviceRun) return this.stopServices(taskId, serviceRun);
+
     const proc = this.runProcesses.get(taskId);
     if (!proc) return { ok: true, skipped: true };
 
@@ -435,6 +1072,21 @@ class TaskLifecycleService extends EventEmitter {
           });
         });
       }
+      const serviceRun = this.serviceRuns.get(taskId);
+      if (serviceRun) {
+        this.stopRun(taskId);
+        let timer: NodeJS.Timeout | undefined;
+        await Promise.race([
+          serviceRun.done,
+          new Promise<void>((resolve) => {
+            timer = setTimeout(() => {
+              log.warn('Timed out waiting for services to exit before teardown', { taskId });
+              resolve();
+            }, 10_000);
+          }),
+        ]);
+        clearTimeout(timer);
+      }
       return this.runFinite(taskId, taskPath, projectPath, 'teardown');
     })().finally(() => {
       this.teardownInflight.delete(key);
@@ -451,6 +1103,7 @@ class TaskLifecycleService extends EventEmitter {
     this.states.delete(taskId);
     this.stopIntents.delete(taskId);
     this.runStartInflight.delete(taskId);
+    sshPortForwardService.closeTask(taskId);
 
     const prefix = `${taskId}::`;
     for (const key of this.setupInflight.keys()) {
@@ -463,6 +1116,11 @@ class TaskLifecycleService extends EventEmitter {
         this.teardownInflight.delete(key);
       }
     }
+    for (const key of this.verifyInflight.keys()) {
+      if (key.startsWith(prefix)) {
+        this.verifyInflight.delete(key);
+      }
+    }
 
     const proc = this.runProcesses.get(taskId);
     if (proc) {
@@ -472,6 +1130,12 @@ class TaskLifecycleService extends EventEmitter {
       this.runProcesses.delete(taskId);
     }
 
+    const serviceRun = this.serviceRuns.get(taskId);
+    if (serviceRun) {
+      this.abandonServiceRun(serviceRun);
+      this.serviceRuns.delete(taskId);
+    }
+
     const finite = this.finiteProcesses.get(taskId);
     if (finite) {
       for (const child of finite) {
@@ -490,6 +1154,10 @@ class TaskLifecycleService extends EventEmitter {
         this.killProcessTree(proc, 'SIGTERM');
       } catch {}
     }
+    for (const serviceRun of this.serviceRuns.values()) {
+      this.abandonServiceRun(serviceRun);
+    }
+    this.serviceRuns.clear();
     for (const procs of this.finiteProcesses.values()) {
       for (const proc of procs) {
         try {
@@ -502,6 +1170,19 @@ class TaskLifecycleService extends EventEmitter {
     this.runStartInflight.clear();
     this.setupInflight.clear();
     this.teardownInflight.clear();
+    sshPortForwardService.closeAll();
+  }
+
+  /** Kill a run's services without tracking their exit. */
+  private abandonServiceRun(run: ServiceRun): void {
+    run.stopping = true;
+    for (const proc of run.processes.values()) {
+      try {
+        this.killProcessTree(proc, 'SIGTERM');
+      } catch {}
+    }
+    run.processes.clear();
+    run.resolveDone();
   }
 
   onEvent(listener: (evt: LifecycleEvent) => void): () => void {
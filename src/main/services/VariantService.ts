@@ -0,0 +1,171 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { log } from '../lib/logger';
+import { getChangesSinceBase, getFileDiffSinceBase } from './GitService';
+import { worktreeService } from './WorktreeService';
+import type {
+  PickWinnerResult,
+  VariantComparison,
+  VariantRef,
+  WinnerStrategy,
+} from '@shared/variants';
+
+const execFileAsync = promisify(execFile);
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 16 * 1024 * 1024 });
+  return stdout.trim();
+}
+
+/**
+ * Compares the worktrees of a multi-agent task and folds the chosen one back
+ * into a single task branch.
+ */
+export class VariantService {
+  /**
+   * Commit the variants forked from: the merge base of every variant branch,
+   * and of `baseRef` when the task recorded one.
+   */
+  async resolveBase(
+    projectPath: string,
+    variants: VariantRef[],
+    baseRef?: string
+  ): Promise<string> {
+    const refs = variants.map((v) => v.branch);
+    if (baseRef) refs.unshift(baseRef);
+    if (refs.length === 1) {
+      return git(projectPath, ['rev-parse', '--verify', `${refs[0]}^{commit}`]);
+    }
+    return git(projectPath, ['merge-base', '--octopus', ...refs]);
+  }
+
+  /** Per-variant file changes (committed, uncommitted and untracked) since the common base. */
+  async compare(
+    projectPath: string,
+    variants: VariantRef[],
+    baseRef?: string
+  ): Promise<VariantComparison> {
+    const baseSha = await this.resolveBase(projectPath, variants, baseRef);
+    const results = await Promise.all(
+      variants.map(async (variant) => {
+        try {
+          return {
+            worktreeId: variant.worktreeId,
+            changes: await getChangesSinceBase(variant.path, baseSha),
+          };
+        } catch (error) {
+          log.warn(`[Variants] Failed to diff ${variant.name}`, error);
+          return { worktreeId: variant.worktreeId, changes: [], error: (error as Error).message };
+        }
+      })
+    );
+    return { baseSha, variants: results };
+  }
+
+  async getFileDiff(variantPath: string, baseSha: string, filePath: string): Promise<string> {
+    return getFileDiffSinceBase(variantPath, baseSha, filePath);
+  }
+
+  /**
+   * Make `winner` the task's only worktree. Its pending edits are committed to
+   * the variant branch, a fresh task branch is created at `baseSha` and the
+   * variant is merged (or its commits cherry-picked) onto it, then the losing
+   * worktrees and branches are removed. If integration fails the winner is
+   * left on its variant branch and nothing is removed. Cherry-picking is
+   * refused for variants that contain merge commits.
+   */
+  async pickWinner(args: {
+    projectPath: string;
+    projectId: string;
+    taskName: string;
+    baseSha: string;
+    winner: VariantRef;
+    losers: VariantRef[];
+    strategy: WinnerStrategy;
+  }): Promise<PickWinnerResult> {
+    const { projectPath, taskName, baseSha, winner, strategy } = args;
+    const cwd = winner.path;
+
+    if (strategy === 'cherry-pick') {
+      const merges = Number(
+        await git(cwd, ['rev-list', '--merges', '--count', `${baseSha}..${winner.branch}`])
+      );
+      if (merges > 0) {
+        throw new Error(
+          `Cannot cherry-pick ${winner.name}: it contains merge commits. Use the merge strategy instead.`
+        );
+      }
+    }
+
+    await git(cwd, ['add', '-A']);
+    const hasStaged = await git(cwd, ['diff', '--cached', '--quiet'])
+      .then(() => false)
+      .catch(() => true);
+    if (hasStaged) {
+      await git(cwd, ['commit', '-q', '-m', `${taskName}: changes from ${winner.name}`]);
+    }
+
+    const taskBranch = await worktreeService.generateBranchName(taskName);
+    await git(cwd, ['switch', '-q', '-c', taskBranch, baseSha]);
+    try {
+      if (strategy === 'merge') {
+        await git(cwd, [
+          'merge',
+          '--no-ff',
+          '-m',
+          `Merge ${winner.name} into ${taskBranch}`,
+          winner.branch,
+        ]);
+      } else {
+        const count = Number(
+          await git(cwd, ['rev-list', '--count', `${baseSha}..${winner.branch}`])
+        );
+        if (count > 0) {
+          await git(cwd, ['cherry-pick', `${baseSha}..${winner.branch}`]);
+        }
+      }
+    } catch (error) {
+      const abortArgs = strategy === 'merge' ? ['merge', '--abort'] : ['cherry-pick', '--abort'];
+      await git(cwd, abortArgs).catch(() => {});
+      await git(cwd, ['switch', '-q', winner.branch]).catch(() => {});
+      await git(cwd, ['branch', '-D', taskBranch]).catch(() => {});
+      log.error(`[Variants] Failed to ${strategy} ${winner.branch} into ${taskBranch}`, error);
+      throw new Error(`Failed to ${strategy} ${winner.name}: ${(error as Error).message}`);
+    }
+
+    await git(cwd, ['branch', '-D', winner.branch]).catch((error) => {
+      log.warn(`[Variants] Could not delete variant branch ${winner.branch}`, error);
+    });
+
+    const existing = worktreeService.getWorktree(winner.worktreeId);
+    worktreeService.registerWorktree({
+      id: winner.worktreeId,
+      name: taskName,
+      branch: taskBranch,
+      path: winner.path,
+      projectId: args.projectId,
+      status: existing?.status ?? 'active',
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+      lastActivity: new Date().toISOString(),
+    });
+
+    const cleanupFailures: PickWinnerResult['cleanupFailures'] = [];
+    for (const loser of args.losers) {
+      try {
+        await worktreeService.removeWorktree(
+          projectPath,
+          loser.worktreeId,
+          loser.path,
+          loser.branch
+        );
+      } catch (error) {
+        cleanupFailures.push({ worktreeId: loser.worktreeId, error: (error as Error).message });
+      }
+    }
+
+    log.info(`[Variants] Picked ${winner.name} for ${taskName} via ${strategy} -> ${taskBranch}`);
+    return { branch: taskBranch, path: winner.path, cleanupFailures };
+  }
+}
+
+export const variantService = new VariantService();
@@ -5,6 +5,13 @@ import fs from 'fs';
 import crypto from 'crypto';
 import { log } from '../lib/logger';
 import { worktreeService, type WorktreeInfo } from './WorktreeService';
+import { lifecycleScriptsService } from './LifecycleScriptsService';
+import { taskLifecycleService } from './TaskLifecycleService';
+import {
+  clampPoolSize,
+  type WorktreePoolConfig,
+  type WorktreePoolMetrics,
+} from '@shared/worktreePool';
 
 const execFileAsync = promisify(execFile);
 
@@ -15,6 +22,9 @@ interface ReserveWorktree {
   projectId: string;
   projectPath: string;
   baseRef: string;
+  /** Commit `baseRef` pointed at when the reserve was created. */
+  baseSha: string;
+  setup: 'none' | 'running' | 'succeeded' | 'failed';
   createdAt: string;
 }
 
@@ -23,22 +33,35 @@ interface ClaimResult {
   needsBaseRefSwitch: boolean;
 }
 
+interface PoolCounters {
+  hits: number;
+  misses: number;
+  refreshed: number;
+  claimMsTotal: number;
+  lastClaimMs: number | null;
+}
+
 /**
  * WorktreePoolService maintains a pool of pre-created "reserve" worktrees
  * that can be instantly claimed when users create new tasks.
  *
  * This eliminates the 3-7 second wait for worktree creation by:
  * 1. Pre-creating reserve worktrees in the background when projects are opened
- * 2. Instantly renaming reserves when tasks are created
- * 3. Replenishing the pool in the background after claims
+ * 2. Optionally running the project's setup script inside each reserve to warm
+ *    dependency installs and caches (it runs again once the reserve is claimed)
+ * 3. Instantly renaming reserves when tasks are created
+ * 4. Replenishing the pool in the background after claims
+ *
+ * Pool depth comes from the `worktreePool` app setting, overridable per
+ * project in `.valkyr.json`. Reserves are recreated when their base ref moves.
  */
 export class WorktreePoolService {
-  private reserves = new Map<string, ReserveWorktree>();
-  private creationInProgress = new Set<string>();
+  private reserves = new Map<string, ReserveWorktree[]>();
+  private creationInProgress = new Map<string, number>();
+  private filling = new Map<string, Promise<void>>();
+  private counters = new Map<string, PoolCounters>();
+  private targetSizes = new Map<string, number>();
   private readonly RESERVE_PREFIX = '_reserve';
-  // Reserves older than this are considered stale and will be recreated
-  // 30 minutes is reasonable since users don't create tasks that frequently
-  private readonly MAX_RESERVE_AGE_MS = 30 * 60 * 1000; // 30 minutes
 
   /** Generate a unique hash for reserve identification */
   private generateReserveHash(): string {
@@ -63,58 +86,137 @@ export class WorktreePoolService {
     return `wt-${h}`;
   }
 
-  /** Check if a reserve is stale (too old to be useful) */
-  private isReserveStale(reserve: ReserveWorktree): boolean {
-    const age = Date.now() - new Date(reserve.createdAt).getTime();
-    return age > this.MAX_RESERVE_AGE_MS;
+  /** Pool depth and setup behaviour for a project: app settings, then `.valkyr.json` */
+  private async getPoolConfig(projectPath: string): Promise<WorktreePoolConfig> {
+    const { getAppSettings } = await import('../settings');
+    const defaults = getAppSettings()?.worktreePool;
+    const size = clampPoolSize(defaults?.size, 1);
+    const runSetup = defaults?.runSetup ?? true;
+    const override = lifecycleScriptsService.readConfig(projectPath)?.worktreePool;
+    return {
+      size: clampPoolSize(override?.size, size),
+      runSetup: typeof override?.runSetup === 'boolean' ? override.runSetup : runSetup,
+    };
+  }
+
+  private async resolveSha(projectPath: string, ref: string): Promise<string | null> {
+    try {
+      const { stdout } = await execFileAsync('git', ['rev-parse', '--verify', `${ref}^{commit}`], {
+        cwd: projectPath,
+      });
+      return stdout.trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  private getCounters(projectId: string): PoolCounters {
+    let counters = this.counters.get(projectId);
+    if (!counters) {
+      counters = { hits: 0, misses: 0, refreshed: 0, claimMsTotal: 0, lastClaimMs: null };
+      this.counters.set(projectId, counters);
+    }
+    return counters;
+  }
+
+  private removeFromPool(reserve: ReserveWorktree): void {
+    const list = this.reserves.get(reserve.projectId);
+    if (!list) return;
+    const next = list.filter((r) => r !== reserve);
+    if (next.length > 0) this.reserves.set(reserve.projectId, next);
+    else this.reserves.delete(reserve.projectId);
+  }
+
+  /** Drop reserves whose base ref has moved since they were created */
+  private async pruneMovedReserves(projectId: string): Promise<void> {
+    const list = this.reserves.get(projectId) ?? [];
+    const shas = new Map<string, string | null>();
+    for (const reserve of list) {
+      if (reserve.setup === 'running') continue;
+      if (!shas.has(reserve.baseRef)) {
+        shas.set(reserve.baseRef, await this.resolveSha(reserve.projectPath, reserve.baseRef));
+      }
+      const current = shas.get(reserve.baseRef);
+      if (current && current !== reserve.baseSha) {
+        this.removeFromPool(reserve);
+        this.getCounters(projectId).refreshed++;
+        this.cleanupReserve(reserve).catch((err) => {
+          log.warn('WorktreePool: Failed to cleanup moved reserve:', err);
+        });
+      }
+    }
   }
 
-  /** Check if a fresh reserve exists for a project */
+  /** Check if a claimable reserve exists for a project */
   hasReserve(projectId: string): boolean {
-    const reserve = this.reserves.get(projectId);
-    if (!reserve) return false;
-    // Don't count stale reserves
-    if (this.isReserveStale(reserve)) return false;
-    return true;
+    return (this.reserves.get(projectId) ?? []).some((r) => r.setup !== 'running');
   }
 
-  /** Get the reserve for a project (if any) */
+  /** Get a reserve for a project (if any) */
   getReserve(projectId: string): ReserveWorktree | undefined {
-    return this.reserves.get(projectId);
+    return this.reserves.get(projectId)?.[0];
+  }
+
+  /** Pool state and claim statistics, for one project or every project seen so far */
+  getMetrics(projectId?: string): WorktreePoolMetrics[] {
+    const ids = projectId
+      ? [projectId]
+      : Array.from(new Set([...this.reserves.keys(), ...this.counters.keys()]));
+    return ids.map((id) => {
+      const list = this.reserves.get(id) ?? [];
+      const counters = this.getCounters(id);
+      return {
+        projectId: id,
+        size: this.targetSizes.get(id) ?? 0,
+        ready: list.filter((r) => r.setup !== 'running').length,
+        warming: list.filter((r) => r.setup === 'running').length,
+        creating: this.creationInProgress.get(id) ?? 0,
+        hits: counters.hits,
+        misses: counters.misses,
+        refreshed: counters.refreshed,
+        lastClaimMs: counters.lastClaimMs,
+        avgClaimMs: counters.hits > 0 ? Math.round(counters.claimMsTotal / counters.hits) : null,
+      };
+    });
   }
 
   /**
-   * Ensure a reserve worktree exists for a project.
-   * Creates one in the background if not present.
+   * Top up the reserve pool for a project to its configured depth.
+   * Reserves are created one at a time in the background.
    */
   async ensureReserve(projectId: string, projectPath: string, baseRef?: string): Promise<void> {
-    // Creation already in progress
-    if (this.creationInProgress.has(projectId)) {
-      return;
-    }
+    const inflight = this.filling.get(projectId);
+    if (inflight) return inflight;
 
-    // Check existing reserve
-    const existing = this.reserves.get(projectId);
-    if (existing) {
-      if (!this.isReserveStale(existing)) {
-        return; // Fresh reserve exists
-      }
-      // Stale reserve - clean it up and create fresh one
-      this.reserves.delete(projectId);
-      this.cleanupReserve(existing).catch((err) => {
-        log.warn('WorktreePool: Failed to cleanup stale reserve:', err);
-      });
-    }
+    const fill = this.fillPool(projectId, projectPath, baseRef).finally(() => {
+      this.filling.delete(projectId);
+    });
+    this.filling.set(projectId, fill);
+    return fill;
+  }
 
-    // Start background creation
-    this.creationInProgress.add(projectId);
+  private async fillPool(projectId: string, projectPath: string, baseRef?: string): Promise<void> {
+    const config = await this.getPoolConfig(projectPath);
+    this.targetSizes.set(projectId, config.size);
+    await this.pruneMovedReserves(projectId);
 
-    try {
-      await this.createReserve(projectId, projectPath, baseRef);
-    } catch (error) {
-      log.warn('WorktreePool: Failed to create reserve', { projectId, error });
-    } finally {
-      this.creationInProgress.delete(projectId);
+    // Shrink if the configured depth went down
+    const list = this.reserves.get(projectId) ?? [];
+    for (const surplus of list.slice(config.size)) {
+      this.removeFromPool(surplus);
+      this.cleanupReserve(surplus).catch(() => {});
+    }
+
+    while ((this.reserves.get(projectId)?.length ?? 0) < config.size) {
+      this.creationInProgress.set(projectId, (this.creationInProgress.get(projectId) ?? 0) + 1);
+      try {
+        await this.createReserve(projectId, projectPath, baseRef, config.runSetup);
+      } catch (error) {
+        log.warn('WorktreePool: Failed to create reserve', { projectId, error });
+        return;
+      } finally {
+        this.creationInProgress.set(projectId, (this.creationInProgress.get(projectId) ?? 1) - 1);
+      }
     }
   }
 
@@ -124,7 +226,8 @@ export class WorktreePoolService {
   private async createReserve(
     projectId: string,
     projectPath: string,
-    baseRef?: string
+    baseRef: string | undefined,
+    runSetup: boolean
   ): Promise<void> {
     const hash = this.generateReserveHash();
     const reservePath = this.getReservePath(projectPath, hash);
@@ -138,16 +241,21 @@ export class WorktreePoolService {
 
     // Resolve base ref (default to HEAD if not specified)
     const useBaseRef = baseRef || 'HEAD';
+    const baseSha = await this.resolveSha(projectPath, useBaseRef);
+    if (!baseSha) {
+      throw new Error(`Cannot resolve base ref ${useBaseRef}`);
+    }
 
     // Note: We skip git fetch for reserve creation to avoid SSH prompts blocking
     // The worktree will use local refs which is fine for pre-warming purposes
 
-    // Create the worktree
-    await execFileAsync('git', ['worktree', 'add', '-b', reserveBranch, reservePath, useBaseRef], {
+    // Create the worktree at the resolved commit so a concurrent ref move can't race us
+    await execFileAsync('git', ['worktree', 'add', '-b', reserveBranch, reservePath, baseSha], {
       cwd: projectPath,
     });
 
     const reserveId = this.stableIdFromPath(reservePath);
+    const hasSetup = runSetup && !!lifecycleScriptsService.getScript(projectPath, 'setup');
     const reserve: ReserveWorktree = {
       id: reserveId,
       path: reservePath,
@@ -155,10 +263,26 @@ export class WorktreePoolService {
       projectId,
       projectPath,
       baseRef: useBaseRef,
+      baseSha,
+      setup: hasSetup ? 'running' : 'none',
       createdAt: new Date().toISOString(),
     };
 
-    this.reserves.set(projectId, reserve);
+    this.reserves.set(projectId, [...(this.reserves.get(projectId) ?? []), reserve]);
+
+    if (hasSetup) {
+      // Preserved files (e.g. .env) may be needed by the setup script
+      try {
+        await worktreeService.preserveProjectFilesToWorktree(projectPath, reservePath);
+      } catch (preserveErr) {
+        log.warn('WorktreePool: Failed to preserve files', { error: preserveErr });
+      }
+      const result = await taskLifecycleService.runSetup(reserveId, reservePath, projectPath);
+      reserve.setup = result.ok ? 'succeeded' : 'failed';
+      if (!result.ok) {
+        log.warn('WorktreePool: Setup failed in reserve', { projectId, error: result.error });
+      }
+    }
   }
 
   /**
@@ -171,32 +295,40 @@ export class WorktreePoolService {
     taskName: string,
     requestedBaseRef?: string
   ): Promise<ClaimResult | null> {
-    const reserve = this.reserves.get(projectId);
-    if (!reserve) {
-      return null;
-    }
+    const startedAt = Date.now();
+    const counters = this.getCounters(projectId);
+    await this.pruneMovedReserves(projectId);
 
-    // Check if reserve is stale (too old)
-    if (this.isReserveStale(reserve)) {
-      // Remove stale reserve and clean it up in background
-      this.reserves.delete(projectId);
-      this.cleanupReserve(reserve).catch(() => {});
-      // Start creating a fresh reserve for next time
+    // Prefer reserves on the requested base ref, then ones whose setup already succeeded
+    const candidates = (this.reserves.get(projectId) ?? []).filter((r) => r.setup !== 'running');
+    const wantedRef = requestedBaseRef || 'HEAD';
+    const rank = (r: ReserveWorktree) =>
+      (r.baseRef === wantedRef ? 0 : 2) + (r.setup === 'failed' ? 1 : 0);
+    const reserve = candidates.sort((a, b) => rank(a) - rank(b))[0];
+
+    if (!reserve) {
+      counters.misses++;
+      // Start creating fresh reserves for next time
       this.replenishReserve(projectId, projectPath, requestedBaseRef);
       return null; // Caller will use fallback (sync creation)
     }
 
     // Remove from pool immediately to prevent double-claims
-    this.reserves.delete(projectId);
+    this.removeFromPool(reserve);
 
     try {
       const result = await this.transformReserve(reserve, taskName, requestedBaseRef);
 
+      counters.hits++;
+      counters.lastClaimMs = Date.now() - startedAt;
+      counters.claimMsTotal += counters.lastClaimMs;
+
       // Start background replenishment
       this.replenishReserve(projectId, projectPath, requestedBaseRef);
 
       return result;
     } catch (error) {
+      counters.misses++;
       log.error('WorktreePool: Failed to claim reserve', { projectId, taskName, error });
       // Try to clean up the reserve on failure
       this.cleanupReserve(reserve).catch(() => {});
@@ -280,6 +412,10 @@ export class WorktreePoolService {
     // Register with worktreeService
     worktreeService.registerWorktree(worktree);
 
+    // Setup in the reserve ran at the reserve path with the reserve's task env, so it
+    // only warmed caches; the caller runs it again for the task at its final path
+    taskLifecycleService.clearTask(reserve.id);
+
     return { worktree, needsBaseRefSwitch };
   }
 
@@ -324,6 +460,7 @@ export class WorktreePoolService {
 
   /** Cleanup a reserve worktree */
   private async cleanupReserve(reserve: ReserveWorktree): Promise<void> {
+    taskLifecycleService.clearTask(reserve.id);
     try {
       await execFileAsync('git', ['worktree', 'remove', '--force', reserve.path], {
         cwd: reserve.projectPath,
@@ -337,22 +474,26 @@ export class WorktreePoolService {
     }
   }
 
-  /** Remove reserve for a project (e.g., when project is removed) */
+  /** Remove all reserves for a project (e.g., when project is removed) */
   async removeReserve(projectId: string): Promise<void> {
-    const reserve = this.reserves.get(projectId);
-    if (!reserve) return;
+    const list = this.reserves.get(projectId);
+    if (!list) return;
 
     this.reserves.delete(projectId);
-    await this.cleanupReserve(reserve);
+    for (const reserve of list) {
+      await this.cleanupReserve(reserve);
+    }
   }
 
   /** Cleanup all reserves (e.g., on app shutdown) */
   async cleanup(): Promise<void> {
-    for (const [projectId, reserve] of this.reserves) {
-      try {
-        await this.cleanupReserve(reserve);
-      } catch (error) {
-        log.warn('WorktreePool: Failed to cleanup reserve on shutdown', { projectId, error });
+    for (const [projectId, list] of this.reserves) {
+      for (const reserve of list) {
+        try {
+          await this.cleanupReserve(reserve);
+        } catch (error) {
+          log.warn('WorktreePool: Failed to cleanup reserve on shutdown', { projectId, error });
+        }
       }
     }
     this.reserves.clear();
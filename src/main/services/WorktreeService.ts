@@ -5,6 +5,7 @@ import path from 'path';
 import fs from 'fs';
 import crypto from 'crypto';
 import { projectSettingsService } from './ProjectSettingsService';
+import { skillsService } from './SkillsService';
 import { minimatch } from 'minimatch';
 import { errorTracking } from '../errorTracking';
 
@@ -141,14 +142,21 @@ export class WorktreeService {
   }
 
   /**
-   * Preserve project files into a worktree using project config (or defaults).
+   * Preserve project files into a worktree using project config (or defaults),
+   * and link the project's skills into the worktree's agent directories.
    */
   async preserveProjectFilesToWorktree(
     projectPath: string,
     worktreePath: string
   ): Promise<PreserveResult> {
     const patterns = this.getPreservePatterns(projectPath);
-    return this.preserveFilesToWorktree(projectPath, worktreePath, patterns);
+    const result = await this.preserveFilesToWorktree(projectPath, worktreePath, patterns);
+    try {
+      await skillsService.syncProjectSkills(worktreePath);
+    } catch (skillsErr) {
+      log.warn('Failed to sync project skills to worktree (continuing):', skillsErr);
+    }
+    return result;
   }
 
   /** Slugify task name to make it shell-safe */
@@ -166,6 +174,15 @@ export class WorktreeService {
     return bytes.readUIntBE(0, 3).toString(36).slice(0, 3).padStart(3, '0');
   }
 
+  /** Build a fresh `<prefix>/<task-slug>-<hash>` branch name, as used for new worktrees */
+  async generateBranchName(taskName: string): Promise<string> {
+    const { getAppSettings } = await import('../settings');
+    const prefix = getAppSettings()?.repository?.branchPrefix || 'valkyr';
+    return this.sanitizeBranchName(
+      `${prefix}/${this.slugify(taskName)}-${this.generateShortHash()}`
+    );
+  }
+
   /** Generate a stable ID from the absolute worktree path */
   private stableIdFromPath(worktreePath: string): string {
     const abs = path.resolve(worktreePath);
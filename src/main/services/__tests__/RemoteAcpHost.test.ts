@@ -0,0 +1,247 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { spawn, type ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { Server, utils, type SFTPWrapper } from 'ssh2';
+import { RemoteAcpHost, type AcpProcess } from '../AcpHost';
+import { buildRemoteCommand } from '../ssh/SshChannelProcess';
+import { SshService } from '../ssh/SshService';
+import type { SshCredentialService } from '../ssh/SshCredentialService';
+import type { SshConfig } from '../../../shared/ssh/types';
+
+vi.mock('keytar', () => ({
+  default: { getPassword: vi.fn(), setPassword: vi.fn(), deletePassword: vi.fn() },
+}));
+
+const { STATUS_CODE } = utils.sftp;
+
+/** Minimal SFTP subsystem over the local filesystem: enough for readFile/writeFile. */
+function serveSftp(sftp: SFTPWrapper) {
+  const handles = new Map<number, number>();
+  let nextHandle = 0;
+  const fdFor = (handle: Buffer) => handles.get(handle.readUInt32BE(0));
+
+  sftp.on('OPEN', (reqid, filename, flags) => {
+    try {
+      const fd = fs.openSync(filename, utils.sftp.flagsToString(flags) ?? 'r');
+      const handle = Buffer.alloc(4);
+      handle.writeUInt32BE(nextHandle);
+      handles.set(nextHandle++, fd);
+      sftp.handle(reqid, handle);
+    } catch (err: any) {
+      sftp.status(reqid, err.code === 'ENOENT' ? STATUS_CODE.NO_SUCH_FILE : STATUS_CODE.FAILURE);
+    }
+  });
+  sftp.on('FSTAT', (reqid, handle) => {
+    const stat = fs.fstatSync(fdFor(handle)!);
+    sftp.attrs(reqid, {
+      mode: stat.mode,
+      uid: stat.uid,
+      gid: stat.gid,
+      size: stat.size,
+      atime: Math.floor(stat.atimeMs / 1000),
+      mtime: Math.floor(stat.mtimeMs / 1000),
+    });
+  });
+  sftp.on('READ', (reqid, handle, offset, length) => {
+    const buf = Buffer.alloc(length);
+    const bytesRead = fs.readSync(fdFor(handle)!, buf, 0, length, offset);
+    if (bytesRead === 0) sftp.status(reqid, STATUS_CODE.EOF);
+    else sftp.data(reqid, buf.subarray(0, bytesRead));
+  });
+  sftp.on('WRITE', (reqid, handle, offset, data) => {
+    fs.writeSync(fdFor(handle)!, data, 0, data.length, offset);
+    sftp.status(reqid, STATUS_CODE.OK);
+  });
+  sftp.on('CLOSE', (reqid, handle) => {
+    const id = handle.readUInt32BE(0);
+    fs.closeSync(handles.get(id)!);
+    handles.delete(id);
+    sftp.status(reqid, STATUS_CODE.OK);
+  });
+}
+
+/** In-process sshd that runs exec requests with the local /bin/sh. */
+const server = new Server(
+  { hostKeys: [utils.generateKeyPairSync('ed25519').private] },
+  (client) => {
+    client.on('authentication', (ctx) => {
+      if (ctx.method === 'password' && ctx.username === 'dev' && ctx.password === 'secret') {
+        ctx.accept();
+      } else {
+        ctx.reject(['password']);
+      }
+    });
+    client.on('ready', () => {
+      client.on('session', (acceptSession) => {
+        const session = acceptSession();
+        let child: ChildProcess | null = null;
+
+        session.on('exec', (accept, _reject, info) => {
+          const channel = accept();
+          child = spawn('/bin/sh', ['-c', info.command], {
+            env: { ...process.env, SHELL: '/bin/sh' },
+          });
+          channel.pipe(child.stdin!);
+          child.stdout!.pipe(channel, { end: false });
+          child.stderr!.pipe(channel.stderr, { end: false });
+          child.on('close', (code, signal) => {
+            if (signal) channel.exit(signal.replace(/^SIG/, ''), false, '');
+            else channel.exit(code ?? 0);
+            channel.end();
+          });
+          channel.on('close', () => child?.kill('SIGKILL'));
+        });
+        session.on('signal', (accept, _reject, info) => {
+          accept?.();
+          child?.kill(`SIG${info.name}` as NodeJS.Signals);
+        });
+        session.on('sftp', (accept) => serveSftp(accept()));
+      });
+    });
+    client.on('error', () => {
+      /* client disconnected */
+    });
+  }
+);
+
+const ssh = new SshService({} as SshCredentialService);
+let connectionId: string;
+let host: RemoteAcpHost;
+let root: string;
+
+function collect(proc: AcpProcess) {
+  let output = '';
+  proc.stdout?.on('data', (chunk: Buffer) => (output += chunk.toString()));
+  proc.stderr?.on('data', (chunk: Buffer) => (output += chunk.toString()));
+  const closed = new Promise<{ code: number | null; signal: string | null }>((resolve) =>
+    proc.on('close', (code, signal) => resolve({ code, signal }))
+  );
+  return { closed, output: () => output };
+}
+
+beforeAll(async () => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'remote-acp-')));
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  connectionId = await ssh.connect({
+    id: 'remote-1',
+    name: 'test',
+    host: '127.0.0.1',
+    port,
+    username: 'dev',
+    authType: 'password',
+    password: 'secret',
+  } as SshConfig);
+  host = new RemoteAcpHost(ssh, connectionId);
+});
+
+afterAll(async () => {
+  await ssh.disconnectAll();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('RemoteAcpHost', () => {
+  it('spawns processes in the remote cwd with the given env and pipes stdin', async () => {
+    const proc = host.spawn('sh', ['-c', 'pwd; echo "$GREETING"; cat'], {
+      cwd: root,
+      env: { GREETING: "it's remote" },
+      stdin: 'pipe',
+    });
+    const { closed, output } = collect(proc);
+
+    proc.stdin!.write('{"jsonrpc":"2.0"}\n');
+    proc.stdin!.end();
+
+    await expect(closed).resolves.toEqual({ code: 0, signal: null });
+    expect(output()).toBe(`${root}\nit's remote\n{"jsonrpc":"2.0"}\n`);
+  });
+
+  it('passes env values over the channel instead of the command line', async () => {
+    const exec = vi.spyOn(ssh.getConnection(connectionId)!.client, 'exec');
+    const secret = "sk-'%s\\n\nline two ✓\n";
+    const proc = host.spawn('sh', ['-c', 'printf "%s|" "$API_KEY" "$EMPTY"'], {
+      cwd: root,
+      env: { API_KEY: secret, EMPTY: '' },
+      stdin: 'ignore',
+    });
+    const { closed, output } = collect(proc);
+
+    await expect(closed).resolves.toEqual({ code: 0, signal: null });
+    expect(output()).toBe(`${secret}||`);
+    expect(exec.mock.calls[0][0]).not.toContain('sk-');
+    exec.mockRestore();
+  });
+
+  it('reports the exit status of commands without input', async () => {
+    const proc = host.spawn('sh', ['-c', 'echo failing >&2; exit 3'], {
+      cwd: root,
+      env: {},
+      stdin: 'ignore',
+    });
+    const { closed, output } = collect(proc);
+
+    expect(proc.stdin).toBeNull();
+    await expect(closed).resolves.toEqual({ code: 3, signal: null });
+    expect(output()).toBe('failing\n');
+  });
+
+  it('kills long-running processes', async () => {
+    const proc = host.spawn('sleep', ['30'], { cwd: root, env: {}, stdin: 'ignore' });
+    const { closed } = collect(proc);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    expect(proc.kill('SIGTERM')).toBe(true);
+    expect(proc.killed).toBe(true);
+    await closed;
+    expect(proc.kill()).toBe(false);
+  });
+
+  it('reads and writes files over SFTP', async () => {
+    const file = path.join(root, 'src', 'nested', 'index.ts');
+
+    await host.writeTextFile(file, 'export const answer = 42;\n');
+
+    expect(fs.readFileSync(file, 'utf-8')).toBe('export const answer = 42;\n');
+    await expect(host.readTextFile(file)).resolves.toBe('export const answer = 42;\n');
+    await expect(host.readTextFile(path.join(root, 'missing.ts'))).rejects.toMatchObject({
+      code: 'ENOENT',
+    });
+  });
+
+  it('guards paths with the remote realpath', async () => {
+    const worktree = path.join(root, 'worktree');
+    fs.mkdirSync(worktree, { recursive: true });
+    fs.symlinkSync(os.tmpdir(), path.join(worktree, 'escape'));
+
+    await expect(host.resolvePath('new/file.ts', { root: worktree }, 'write')).resolves.toBe(
+      path.join(worktree, 'new', 'file.ts')
+    );
+    await expect(host.resolvePath('../secret', { root: worktree }, 'read')).rejects.toMatchObject({
+      code: 'PATH_BLOCKED',
+    });
+    await expect(
+      host.resolvePath('escape/file.ts', { root: worktree }, 'write')
+    ).rejects.toMatchObject({ code: 'PATH_BLOCKED' });
+    await expect(
+      host.resolvePath('../worktree/a.ts', { root: worktree, readOnlyRoots: [root] }, 'read')
+    ).resolves.toBe(path.join(worktree, 'a.ts'));
+  });
+});
+
+describe('buildRemoteCommand', () => {
+  it('runs the command through the login shell and skips invalid env names', () => {
+    const { command, input } = buildRemoteCommand('npx', ['--yes', 'agent'], {
+      cwd: '/srv/app',
+      env: { API_KEY: 'a b', 'BAD;NAME': 'x' },
+    });
+
+    expect(command.startsWith(`"\${SHELL:-/bin/sh}" -lc `)).toBe(true);
+    expect(command).not.toContain('API_KEY');
+    expect(input).toBe('API_KEY=a\\040b\n\n');
+    expect(input).not.toContain('BAD;NAME');
+  });
+});
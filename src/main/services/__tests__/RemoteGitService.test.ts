@@ -441,6 +441,55 @@ describe('RemoteGitService', () => {
     });
   });
 
+  describe('runHistoryAction', () => {
+    const sha = 'a'.repeat(40);
+
+    it('reverts merge commits against their first parent', async () => {
+      mockExecuteCommand
+        .mockResolvedValueOnce({ stdout: `${sha} p1 p2`, stderr: '', exitCode: 0 } as ExecResult)
+        .mockResolvedValueOnce({ stdout: '', stderr: '', exitCode: 0 } as ExecResult);
+
+      await service.runHistoryAction('conn-1', '/home/user/project', { type: 'revert', sha });
+
+      expect(mockExecuteCommand).toHaveBeenLastCalledWith(
+        'conn-1',
+        `git 'revert' '--no-edit' '-m' '1' '${sha}'`,
+        '/home/user/project'
+      );
+    });
+
+    it('aborts a cherry-pick that stops on conflicts', async () => {
+      mockExecuteCommand
+        .mockResolvedValueOnce({ stdout: `${sha} p1`, stderr: '', exitCode: 0 } as ExecResult)
+        .mockResolvedValueOnce({
+          stdout: 'CONFLICT (content): Merge conflict in app.ts',
+          stderr: 'error: could not apply aaaaaaa',
+          exitCode: 1,
+        } as ExecResult)
+        .mockResolvedValueOnce({ stdout: '', stderr: '', exitCode: 0 } as ExecResult);
+
+      await expect(
+        service.runHistoryAction('conn-1', '/home/user/project', { type: 'cherry-pick', sha })
+      ).rejects.toThrow('nothing was changed');
+      expect(mockExecuteCommand).toHaveBeenLastCalledWith(
+        'conn-1',
+        'git cherry-pick --abort',
+        '/home/user/project'
+      );
+    });
+
+    it('rejects arguments that are not commit hashes', async () => {
+      await expect(
+        service.runHistoryAction('conn-1', '/home/user/project', {
+          type: 'reset',
+          sha: '--hard; rm -rf /',
+          mode: 'hard',
+        })
+      ).rejects.toThrow('Invalid commit');
+      expect(mockExecuteCommand).not.toHaveBeenCalled();
+    });
+  });
+
   describe('integration scenarios', () => {
     it('should handle full workflow: create, check status, commit, remove', async () => {
       // Create worktree
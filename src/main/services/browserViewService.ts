@@ -1,9 +1,23 @@
 import { BrowserWindow, WebContentsView } from 'electron';
 import { getMainWindow } from '../app/window';
+import type { PreviewLogEntry, PreviewLogLevel } from '@shared/previewLogs';
+
+/** Entries kept per task; older ones are dropped first. */
+const MAX_PREVIEW_LOG_ENTRIES = 500;
+const MAX_LOG_MESSAGE_LENGTH = 2_000;
+
+// Chromium console levels: verbose, info, warning, error
+const CONSOLE_LEVELS: PreviewLogLevel[] = ['debug', 'info', 'warning', 'error'];
+
+// Session of the preview alone, so its webRequest listeners don't compete with the app's
+const PREVIEW_PARTITION = 'persist:preview';
 
 class BrowserViewService {
   private view: WebContentsView | null = null;
   private visible = false;
+  /** Task whose preview is showing; page output is logged under it. */
+  private taskId: string | null = null;
+  private logs = new Map<string, PreviewLogEntry[]>();
   private emitToRenderers(evt: any) {
     try {
       const wins = BrowserWindow.getAllWindows();
@@ -23,6 +37,7 @@ class BrowserViewService {
         webPreferences: {
           contextIsolation: true,
           nodeIntegration: false,
+          partition: PREVIEW_PARTITION,
         },
       });
       w.contentView.addChildView(this.view);
@@ -40,11 +55,121 @@ class BrowserViewService {
           this.emitToRenderers({ type: 'did-start-navigation', url })
         );
       } catch {}
+      this.capturePageOutput(this.view);
       this.visible = true;
     }
     return this.view;
   }
 
+  /**
+   * Record console output, uncaught exceptions and failed requests of the
+   * preview page into the ring buffer of the task it belongs to.
+   */
+  private capturePageOutput(view: WebContentsView) {
+    const contents = view.webContents;
+    try {
+      contents.on('console-message', (_ev, level, message, line, sourceId) => {
+        this.record({
+          kind: message.startsWith('Uncaught') ? 'exception' : 'console',
+          level: CONSOLE_LEVELS[level] ?? 'info',
+          message,
+          source: sourceId ? `${sourceId}:${line}` : null,
+        });
+      });
+      contents.on('render-process-gone', (_ev, details) => {
+        this.record({
+          kind: 'exception',
+          level: 'error',
+          message: `Page crashed (${details.reason}, exit code ${details.exitCode})`,
+          source: null,
+        });
+      });
+      contents.on('did-navigate', (_ev, url) => {
+        if (url === 'about:blank') return;
+        this.record({ kind: 'navigation', level: 'info', message: `Loaded ${url}`, source: url });
+      });
+
+      // Electron keeps one listener per webRequest event; the preview partition is ours alone
+      const filter = { urls: ['*://*/*'] };
+      contents.session.webRequest.onCompleted(filter, (details) => {
+        if (details.webContentsId !== contents.id || details.statusCode < 400) return;
+        this.record({
+          kind: 'network',
+          level: 'error',
+          message: `${details.method} ${details.url} returned ${details.statusCode}`,
+          source: details.url,
+        });
+      });
+      contents.session.webRequest.onErrorOccurred(filter, (details) => {
+        // Aborted requests are usually navigations or cancelled fetches
+        if (details.webContentsId !== contents.id || details.error === 'net::ERR_ABORTED') return;
+        this.record({
+          kind: 'network',
+          level: 'error',
+          message: `${details.method} ${details.url} failed: ${details.error}`,
+          source: details.url,
+        });
+      });
+    } catch {}
+  }
+
+  private record(entry: Omit<PreviewLogEntry, 'timestamp'>) {
+    const taskId = this.taskId;
+    if (!taskId) return;
+    const logged: PreviewLogEntry = {
+      ...entry,
+      message:
+        entry.message.length > MAX_LOG_MESSAGE_LENGTH
+          ? `${entry.message.slice(0, MAX_LOG_MESSAGE_LENGTH)}…`
+          : entry.message,
+      timestamp: new Date().toISOString(),
+    };
+    const buffer = this.logs.get(taskId) ?? [];
+    buffer.push(logged);
+    if (buffer.length > MAX_PREVIEW_LOG_ENTRIES) {
+      buffer.splice(0, buffer.length - MAX_PREVIEW_LOG_ENTRIES);
+    }
+    this.logs.set(taskId, buffer);
+    this.emitToRenderers({ type: 'log', taskId, entry: logged });
+  }
+
+  /** Attribute page output from now on to `taskId`. */
+  setTask(taskId: string | null) {
+    this.taskId = taskId;
+  }
+
+  getLogs(taskId: string): PreviewLogEntry[] {
+    return [...(this.logs.get(taskId) ?? [])];
+  }
+
+  clearLogs(taskId: string) {
+    this.logs.delete(taskId);
+  }
+
+  /** PNG data URL of what the preview currently shows, if it shows `taskId`. */
+  async captureScreenshot(taskId: string): Promise<string> {
+    if (this.taskId !== taskId) {
+      throw new Error('The preview is showing another task');
+    }
+    const url = this.view?.webContents.getURL();
+    if (!this.view || !this.visible || !url || url === 'about:blank') {
+      throw new Error('Open a page in the preview to take a screenshot');
+    }
+    const image = await this.view.webContents.capturePage();
+    if (image.isEmpty()) {
+      throw new Error('The preview returned an empty screenshot');
+    }
+    return image.toDataURL();
+  }
+
+  getURL(): string | null {
+    try {
+      return this.view?.webContents.getURL() || null;
+    } catch {
+      return null;
+    }
+  }
+
   // Clear the current URL when switching worktrees
   clear() {
     if (!this.view) return;
@@ -64,9 +189,10 @@ class BrowserViewService {
     } catch {}
   }
 
-  show(bounds: Electron.Rectangle, url?: string) {
+  show(bounds: Electron.Rectangle, url?: string, taskId?: string) {
     const win = getMainWindow() || undefined;
     if (!win) return;
+    if (taskId !== undefined) this.setTask(taskId);
 
     const v = this.ensureView(win);
     if (!v) return;
@@ -23,10 +23,11 @@ function detectPackageManager(dir: string): 'pnpm' | 'yarn' | 'npm' {
   }
 }
 
-function normalizeUrl(u: string): string {
+/** Extract a local dev-server URL from a log line, ignoring terminal color codes. */
+export function normalizeUrl(u: string): string {
   try {
     const re = /(https?:\/\/(?:localhost|127\.0\.0\.1|0\.0\.0\.0|\[::1\]):\d{2,5}(?:\/\S*)?)/i;
-    const m = u.match(re);
+    const m = u.replace(/\x1b\[[0-9;]*[A-Za-z]/g, '').match(re);
     if (!m) return '';
     const url = new URL(m[1].replace('0.0.0.0', 'localhost'));
     url.hostname = 'localhost';
@@ -481,6 +482,11 @@ class HostPreviewService extends EventEmitter {
     return { ok: true, stopped };
   }
 
+  /** Publish a preview URL served by something other than this service, e.g. a port forward. */
+  announceUrl(taskId: string, url: string): void {
+    this.emit('event', { type: 'url', taskId, url } as HostPreviewEvent);
+  }
+
   onEvent(listener: (evt: HostPreviewEvent) => void): () => void {
     this.on('event', listener);
     return () => this.off('event', listener);
@@ -0,0 +1,86 @@
+import type { Issue } from '@shared/issues';
+import { execCommand, parseIssueNumber } from './cli';
+import type { CommandRunner, IssueProvider } from './types';
+
+const LIST_FIELDS = 'number,title,url,state,assignees,labels,updatedAt';
+const VIEW_FIELDS = `${LIST_FIELDS},body`;
+
+interface GhIssue {
+  number: number;
+  title: string;
+  url: string;
+  state: string;
+  assignees?: Array<{ login?: string; name?: string }>;
+  labels?: Array<{ name?: string }>;
+  body?: string;
+  updatedAt?: string;
+}
+
+function toIssue(raw: GhIssue): Issue {
+  return {
+    provider: 'github',
+    key: `#${raw.number}`,
+    number: raw.number,
+    title: raw.title,
+    url: raw.url,
+    state: raw.state,
+    assignees: (raw.assignees ?? []).map((a) => a.login || a.name || '').filter(Boolean),
+    labels: (raw.labels ?? []).map((l) => l.name || '').filter(Boolean),
+    body: raw.body,
+    updatedAt: raw.updatedAt,
+  };
+}
+
+/** GitHub issues through the `gh` CLI, scoped to the repository at `projectPath`. */
+export class GitHubIssueProvider implements IssueProvider {
+  readonly id = 'github' as const;
+
+  constructor(private readonly run: CommandRunner = execCommand) {}
+
+  async isAvailable(projectPath: string): Promise<boolean> {
+    try {
+      await this.run('gh', ['auth', 'status'], projectPath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async list(projectPath: string, limit: number): Promise<Issue[]> {
+    return this.listIssues(projectPath, ['--limit', String(limit)]);
+  }
+
+  async search(projectPath: string, term: string, limit: number): Promise<Issue[]> {
+    return this.listIssues(projectPath, ['--search', term, '--limit', String(limit)]);
+  }
+
+  async get(projectPath: string, key: string): Promise<Issue> {
+    const number = parseIssueNumber(key);
+    const stdout = await this.run(
+      'gh',
+      ['issue', 'view', String(number), '--json', VIEW_FIELDS],
+      projectPath
+    );
+    return toIssue(JSON.parse(stdout) as GhIssue);
+  }
+
+  async comment(projectPath: string, key: string, body: string): Promise<void> {
+    const number = parseIssueNumber(key);
+    await this.run('gh', ['issue', 'comment', String(number), '--body', body], projectPath);
+  }
+
+  async close(projectPath: string, key: string): Promise<void> {
+    const number = parseIssueNumber(key);
+    await this.run('gh', ['issue', 'close', String(number)], projectPath);
+  }
+
+  private async listIssues(projectPath: string, extraArgs: string[]): Promise<Issue[]> {
+    const stdout = await this.run(
+      'gh',
+      ['issue', 'list', '--state', 'open', ...extraArgs, '--json', LIST_FIELDS],
+      projectPath
+    );
+    const raw = JSON.parse(stdout || '[]') as GhIssue[];
+    return raw.map(toIssue);
+  }
+}
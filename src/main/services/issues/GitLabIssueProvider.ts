@@ -0,0 +1,83 @@
+import type { Issue } from '@shared/issues';
+import { execCommand, parseIssueNumber } from './cli';
+import type { CommandRunner, IssueProvider } from './types';
+
+interface GlabIssue {
+  iid: number;
+  title: string;
+  web_url: string;
+  state: string;
+  assignees?: Array<{ username?: string; name?: string }>;
+  labels?: string[];
+  description?: string | null;
+  updated_at?: string;
+}
+
+function toIssue(raw: GlabIssue): Issue {
+  return {
+    provider: 'gitlab',
+    key: `#${raw.iid}`,
+    number: raw.iid,
+    title: raw.title,
+    url: raw.web_url,
+    state: raw.state,
+    assignees: (raw.assignees ?? []).map((a) => a.username || a.name || '').filter(Boolean),
+    labels: raw.labels ?? [],
+    body: raw.description ?? undefined,
+    updatedAt: raw.updated_at,
+  };
+}
+
+/** GitLab issues through the `glab` CLI, scoped to the repository at `projectPath`. */
+export class GitLabIssueProvider implements IssueProvider {
+  readonly id = 'gitlab' as const;
+
+  constructor(private readonly run: CommandRunner = execCommand) {}
+
+  async isAvailable(projectPath: string): Promise<boolean> {
+    try {
+      await this.run('glab', ['auth', 'status'], projectPath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async list(projectPath: string, limit: number): Promise<Issue[]> {
+    return this.listIssues(projectPath, ['--per-page', String(limit)]);
+  }
+
+  async search(projectPath: string, term: string, limit: number): Promise<Issue[]> {
+    return this.listIssues(projectPath, ['--search', term, '--per-page', String(limit)]);
+  }
+
+  async get(projectPath: string, key: string): Promise<Issue> {
+    const iid = parseIssueNumber(key);
+    const stdout = await this.run(
+      'glab',
+      ['issue', 'view', String(iid), '--output', 'json'],
+      projectPath
+    );
+    return toIssue(JSON.parse(stdout) as GlabIssue);
+  }
+
+  async comment(projectPath: string, key: string, body: string): Promise<void> {
+    const iid = parseIssueNumber(key);
+    await this.run('glab', ['issue', 'note', String(iid), '--message', body], projectPath);
+  }
+
+  async close(projectPath: string, key: string): Promise<void> {
+    const iid = parseIssueNumber(key);
+    await this.run('glab', ['issue', 'close', String(iid)], projectPath);
+  }
+
+  private async listIssues(projectPath: string, extraArgs: string[]): Promise<Issue[]> {
+    const stdout = await this.run(
+      'glab',
+      ['issue', 'list', ...extraArgs, '--output', 'json'],
+      projectPath
+    );
+    const raw = JSON.parse(stdout || '[]') as GlabIssue[];
+    return raw.map(toIssue);
+  }
+}
@@ -0,0 +1,135 @@
+import { log } from '../../lib/logger';
+import { databaseService } from '../DatabaseService';
+import { getAppSettings } from '../../settings';
+import {
+  DEFAULT_ISSUE_UPDATES,
+  ISSUE_METADATA_FIELDS,
+  ISSUE_PROVIDER_IDS,
+  formatPrComment,
+  isIssueProviderId,
+  issueToTaskMetadata,
+  type Issue,
+  type IssuePrEvent,
+  type IssueProviderId,
+  type LinkedIssue,
+} from '@shared/issues';
+import { clampLimit } from './cli';
+import { GitHubIssueProvider } from './GitHubIssueProvider';
+import { GitLabIssueProvider } from './GitLabIssueProvider';
+import { JiraCredentialService } from './JiraCredentialService';
+import { JiraIssueProvider } from './JiraIssueProvider';
+import type { IssueProvider } from './types';
+
+/**
+ * Routes issue queries to the tracker that owns them and keeps linked issues
+ * up to date as a task's pull request moves along.
+ */
+export class IssueService {
+  private readonly providers = new Map<IssueProviderId, IssueProvider>();
+
+  constructor(providers: IssueProvider[]) {
+    for (const provider of providers) {
+      this.providers.set(provider.id, provider);
+    }
+  }
+
+  getProvider(id: IssueProviderId): IssueProvider {
+    const provider = isIssueProviderId(id) ? this.providers.get(id) : undefined;
+    if (!provider) {
+      throw new Error(`Unknown issue provider: ${id}`);
+    }
+    return provider;
+  }
+
+  /** Providers that can be queried for `projectPath`, in a stable order. */
+  async getAvailableProviders(projectPath: string): Promise<IssueProviderId[]> {
+    const ids = ISSUE_PROVIDER_IDS.filter((id) => this.providers.has(id));
+    const available = await Promise.all(
+      ids.map((id) => this.getProvider(id).isAvailable(projectPath))
+    );
+    return ids.filter((_, i) => available[i]);
+  }
+
+  async list(provider: IssueProviderId, projectPath: string, limit?: number): Promise<Issue[]> {
+    return this.getProvider(provider).list(projectPath, clampLimit(limit));
+  }
+
+  async search(
+    provider: IssueProviderId,
+    projectPath: string,
+    term: string,
+    limit?: number
+  ): Promise<Issue[]> {
+    const trimmed = term.trim();
+    if (!trimmed) return this.list(provider, projectPath, limit);
+    return this.getProvider(provider).search(projectPath, trimmed, clampLimit(limit));
+  }
+
+  async get(provider: IssueProviderId, projectPath: string, key: string): Promise<Issue> {
+    return this.getProvider(provider).get(projectPath, key);
+  }
+
+  /** Fetches the issue and records it in the task's metadata. */
+  async linkToTask(
+    taskId: string,
+    provider: IssueProviderId,
+    projectPath: string,
+    key: string
+  ): Promise<Issue> {
+    const task = (await databaseService.getTasks()).find((t) => t.id === taskId);
+    if (!task) {
+      throw new Error(`Task not found: ${taskId}`);
+    }
+    const issue = await this.get(provider, projectPath, key);
+    // Replace any previously linked issue, whichever tracker it came from
+    const metadata: Record<string, unknown> = { ...(task.metadata ?? {}) };
+    for (const field of ISSUE_METADATA_FIELDS) delete metadata[field];
+    await databaseService.saveTask({
+      ...task,
+      metadata: { ...metadata, ...issueToTaskMetadata(issue) },
+    });
+    return issue;
+  }
+
+  /**
+   * Comments on (and on merge optionally closes) the issue linked to the task
+   * at `taskPath`. Failures are logged rather than thrown so they never fail
+   * the git operation that triggered them.
+   */
+  async notifyPrEvent(taskPath: string, event: IssuePrEvent, prUrl: string | null): Promise<void> {
+    let linked: LinkedIssue | undefined;
+    try {
+      const task = await databaseService.getTaskByPath(taskPath);
+      linked = task?.metadata?.linkedIssue;
+    } catch (error) {
+      log.warn('[Issues] Failed to look up task for PR event', error);
+      return;
+    }
+    if (!linked || !isIssueProviderId(linked.provider)) return;
+
+    const updates = getAppSettings().issueUpdates ?? DEFAULT_ISSUE_UPDATES;
+    const provider = this.getProvider(linked.provider);
+    const shouldComment =
+      event === 'opened' ? updates.commentOnPrOpened : updates.commentOnPrMerged;
+
+    try {
+      if (shouldComment) {
+        await provider.comment(taskPath, linked.key, formatPrComment(event, prUrl));
+      }
+      if (event === 'merged' && updates.closeOnPrMerged) {
+        await provider.close(taskPath, linked.key);
+      }
+    } catch (error) {
+      log.warn(`[Issues] Failed to update ${linked.provider} issue ${linked.key}`, error);
+    }
+  }
+}
+
+export const jiraCredentialService = new JiraCredentialService();
+export const jiraIssueProvider = new JiraIssueProvider(jiraCredentialService);
+
+export const issueService = new IssueService([
+  new GitHubIssueProvider(),
+  new GitLabIssueProvider(),
+  jiraIssueProvider,
+]);
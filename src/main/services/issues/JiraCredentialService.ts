@@ -0,0 +1,41 @@
+import keytar from 'keytar';
+import type { JiraCredentials } from './types';
+
+const SERVICE_NAME = 'valkyr-jira';
+const ACCOUNT = 'default';
+
+/**
+ * Stores the Jira site URL, account email and API token together in the
+ * system keychain via keytar.
+ */
+export class JiraCredentialService {
+  async get(): Promise<JiraCredentials | null> {
+    try {
+      const raw = await keytar.getPassword(SERVICE_NAME, ACCOUNT);
+      if (!raw) return null;
+      const parsed = JSON.parse(raw) as Partial<JiraCredentials>;
+      if (!parsed.siteUrl || !parsed.email || !parsed.token) return null;
+      return { siteUrl: parsed.siteUrl, email: parsed.email, token: parsed.token };
+    } catch {
+      return null;
+    }
+  }
+
+  async store(credentials: JiraCredentials): Promise<void> {
+    try {
+      await keytar.setPassword(SERVICE_NAME, ACCOUNT, JSON.stringify(credentials));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to store Jira credentials: ${message}`);
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await keytar.deletePassword(SERVICE_NAME, ACCOUNT);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to delete Jira credentials: ${message}`);
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import type { Issue } from '@shared/issues';
+import { JiraCredentialService } from './JiraCredentialService';
+import type { IssueProvider, JiraCredentials } from './types';
+
+const FIELDS = 'summary,status,assignee,labels,project,updated';
+const KEY_RE = /^[A-Z][A-Z0-9_]+-\d+$/i;
+
+interface JiraIssue {
+  key: string;
+  fields: {
+    summary?: string;
+    status?: { name?: string };
+    assignee?: { displayName?: string } | null;
+    labels?: string[];
+    project?: { key?: string };
+    updated?: string;
+    description?: unknown;
+  };
+}
+
+interface JiraTransition {
+  id: string;
+  name: string;
+  to?: { statusCategory?: { key?: string } };
+}
+
+/** Flattens an Atlassian Document Format node to plain text. */
+function adfToText(node: unknown): string {
+  if (!node || typeof node !== 'object') return typeof node === 'string' ? node : '';
+  const { type, text, content } = node as { type?: string; text?: string; content?: unknown[] };
+  if (type === 'text') return text ?? '';
+  if (type === 'hardBreak') return '\n';
+  const inner = Array.isArray(content) ? content.map(adfToText).join('') : '';
+  return type === 'paragraph' || type === 'heading' || type === 'listItem' ? `${inner}\n` : inner;
+}
+
+function textToAdf(text: string) {
+  return {
+    type: 'doc',
+    version: 1,
+    content: text.split('\n').map((line) => ({
+      type: 'paragraph',
+      content: line ? [{ type: 'text', text: line }] : [],
+    })),
+  };
+}
+
+function jqlString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Jira Cloud issues over the REST API (v3), authenticated with an account
+ * email and API token. The site URL comes from the stored credentials, so any
+ * server that speaks the same endpoints can stand in for Jira.
+ */
+export class JiraIssueProvider implements IssueProvider {
+  readonly id = 'jira' as const;
+
+  constructor(
+    private readonly credentials: Pick<JiraCredentialService, 'get'> = new JiraCredentialService(),
+    private readonly fetchImpl: typeof fetch = (...args) => fetch(...args)
+  ) {}
+
+  async isAvailable(): Promise<boolean> {
+    return (await this.credentials.get()) !== null;
+  }
+
+  /** Verifies credentials against `/myself` and returns the account's display name. */
+  async checkConnection(credentials?: JiraCredentials): Promise<string> {
+    const me = await this.request<{ displayName?: string; emailAddress?: string }>(
+      'GET',
+      '/rest/api/3/myself',
+      undefined,
+      credentials
+    );
+    return me.displayName || me.emailAddress || '';
+  }
+
+  async list(_projectPath: string, limit: number): Promise<Issue[]> {
+    return this.searchJql(
+      'assignee = currentUser() AND statusCategory != Done ORDER BY updated DESC',
+      limit
+    );
+  }
+
+  async search(_projectPath: string, term: string, limit: number): Promise<Issue[]> {
+    const trimmed = term.trim();
+    const jql = KEY_RE.test(trimmed)
+      ? `key = ${jqlString(trimmed.toUpperCase())}`
+      : `text ~ ${jqlString(trimmed)} ORDER BY updated DESC`;
+    return this.searchJql(jql, limit);
+  }
+
+  async get(_projectPath: string, key: string): Promise<Issue> {
+    const raw = await this.request<JiraIssue>(
+      'GET',
+      `/rest/api/3/issue/${encodeURIComponent(key)}?fields=${FIELDS},description`
+    );
+    return this.toIssue(raw, await this.siteUrl());
+  }
+
+  async comment(_projectPath: string, key: string, body: string): Promise<void> {
+    await this.request('POST', `/rest/api/3/issue/${encodeURIComponent(key)}/comment`, {
+      body: textToAdf(body),
+    });
+  }
+
+  /** Applies the first transition that lands in the "done" status category. */
+  async close(_projectPath: string, key: string): Promise<void> {
+    const path = `/rest/api/3/issue/${encodeURIComponent(key)}/transitions`;
+    const { transitions } = await this.request<{ transitions: JiraTransition[] }>('GET', path);
+    const done = transitions.find((t) => t.to?.statusCategory?.key === 'done');
+    if (!done) {
+      throw new Error(`No transition to a done status is available for ${key}`);
+    }
+    await this.request('POST', path, { transition: { id: done.id } });
+  }
+
+  private async searchJql(jql: string, limit: number): Promise<Issue[]> {
+    const query = new URLSearchParams({ jql, maxResults: String(limit), fields: FIELDS });
+    const result = await this.request<{ issues?: JiraIssue[] }>(
+      'GET',
+      `/rest/api/3/search/jql?${query.toString()}`
+    );
+    const siteUrl = await this.siteUrl();
+    return (result.issues ?? []).map((raw) => this.toIssue(raw, siteUrl));
+  }
+
+  private toIssue(raw: JiraIssue, siteUrl: string): Issue {
+    const description = adfToText(raw.fields.description).trim();
+    return {
+      provider: 'jira',
+      key: raw.key,
+      title: raw.fields.summary ?? '',
+      url: `${siteUrl}/browse/${raw.key}`,
+      state: raw.fields.status?.name ?? '',
+      assignees: raw.fields.assignee?.displayName ? [raw.fields.assignee.displayName] : [],
+      labels: raw.fields.labels ?? [],
+      body: description || undefined,
+      project: raw.fields.project?.key,
+      updatedAt: raw.fields.updated,
+    };
+  }
+
+  private async siteUrl(): Promise<string> {
+    const credentials = await this.credentials.get();
+    return credentials ? credentials.siteUrl.replace(/\/+$/, '') : '';
+  }
+
+  private async request<T = unknown>(
+    method: 'GET' | 'POST',
+    path: string,
+    body?: unknown,
+    override?: JiraCredentials
+  ): Promise<T> {
+    const credentials = override ?? (await this.credentials.get());
+    if (!credentials) {
+      throw new Error('Jira is not connected');
+    }
+    const auth = Buffer.from(`${credentials.email}:${credentials.token}`).toString('base64');
+    const response = await this.fetchImpl(`${credentials.siteUrl.replace(/\/+$/, '')}${path}`, {
+      method,
+      headers: {
+        Authorization: `Basic ${auth}`,
+        Accept: 'application/json',
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const text = await response.text();
+    if (!response.ok) {
+      let detail = text;
+      try {
+        const parsed = JSON.parse(text) as {
+          errorMessages?: string[];
+          errors?: Record<string, string>;
+        };
+        const messages = [
+          ...(parsed.errorMessages ?? []),
+          ...Object.values(parsed.errors ?? {}),
+        ].filter(Boolean);
+        if (messages.length) detail = messages.join('; ');
+      } catch {
+        // Not JSON; keep the raw body
+      }
+      throw new Error(`Jira request failed (${response.status})${detail ? `: ${detail}` : ''}`);
+    }
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+}
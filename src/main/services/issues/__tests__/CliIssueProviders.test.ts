@@ -0,0 +1,136 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GitHubIssueProvider } from '../GitHubIssueProvider';
+import { GitLabIssueProvider } from '../GitLabIssueProvider';
+
+function runner(stdout: string | Error = '') {
+  return vi.fn(async () => {
+    if (stdout instanceof Error) throw stdout;
+    return stdout;
+  });
+}
+
+describe('GitHubIssueProvider', () => {
+  it('lists open issues through gh and normalizes them', async () => {
+    const run = runner(
+      JSON.stringify([
+        {
+          number: 12,
+          title: 'Crash on startup',
+          url: 'https://github.com/acme/app/issues/12',
+          state: 'OPEN',
+          assignees: [{ login: 'octocat' }],
+          labels: [{ name: 'bug' }],
+          updatedAt: '2026-01-01T00:00:00Z',
+        },
+      ])
+    );
+    const provider = new GitHubIssueProvider(run);
+
+    const issues = await provider.search('/repo', 'crash', 10);
+
+    expect(run).toHaveBeenCalledWith(
+      'gh',
+      [
+        'issue',
+        'list',
+        '--state',
+        'open',
+        '--search',
+        'crash',
+        '--limit',
+        '10',
+        '--json',
+        'number,title,url,state,assignees,labels,updatedAt',
+      ],
+      '/repo'
+    );
+    expect(issues).toEqual([
+      {
+        provider: 'github',
+        key: '#12',
+        number: 12,
+        title: 'Crash on startup',
+        url: 'https://github.com/acme/app/issues/12',
+        state: 'OPEN',
+        assignees: ['octocat'],
+        labels: ['bug'],
+        body: undefined,
+        updatedAt: '2026-01-01T00:00:00Z',
+      },
+    ]);
+  });
+
+  it('comments on and closes issues by number', async () => {
+    const run = runner();
+    const provider = new GitHubIssueProvider(run);
+
+    await provider.comment('/repo', '#12', 'Merged');
+    await provider.close('/repo', '12');
+
+    expect(run).toHaveBeenNthCalledWith(
+      1,
+      'gh',
+      ['issue', 'comment', '12', '--body', 'Merged'],
+      '/repo'
+    );
+    expect(run).toHaveBeenNthCalledWith(2, 'gh', ['issue', 'close', '12'], '/repo');
+  });
+
+  it('rejects keys that are not issue numbers', async () => {
+    const provider = new GitHubIssueProvider(runner());
+    await expect(provider.get('/repo', 'PROJ-1')).rejects.toThrow('Invalid issue number: PROJ-1');
+  });
+
+  it('is unavailable when gh is not signed in', async () => {
+    const provider = new GitHubIssueProvider(runner(new Error('not logged in')));
+    await expect(provider.isAvailable('/repo')).resolves.toBe(false);
+  });
+});
+
+describe('GitLabIssueProvider', () => {
+  it('fetches an issue through glab and normalizes it', async () => {
+    const run = runner(
+      JSON.stringify({
+        iid: 7,
+        title: 'Flaky pipeline',
+        web_url: 'https://gitlab.com/acme/app/-/issues/7',
+        state: 'opened',
+        assignees: [{ username: 'tanuki' }],
+        labels: ['ci'],
+        description: 'Fails one run in ten',
+        updated_at: '2026-01-01T00:00:00Z',
+      })
+    );
+    const provider = new GitLabIssueProvider(run);
+
+    const issue = await provider.get('/repo', '#7');
+
+    expect(run).toHaveBeenCalledWith('glab', ['issue', 'view', '7', '--output', 'json'], '/repo');
+    expect(issue).toMatchObject({
+      provider: 'gitlab',
+      key: '#7',
+      number: 7,
+      url: 'https://gitlab.com/acme/app/-/issues/7',
+      state: 'opened',
+      assignees: ['tanuki'],
+      labels: ['ci'],
+      body: 'Fails one run in ten',
+    });
+  });
+
+  it('adds notes and closes issues', async () => {
+    const run = runner();
+    const provider = new GitLabIssueProvider(run);
+
+    await provider.comment('/repo', '#7', 'PR opened');
+    await provider.close('/repo', '#7');
+
+    expect(run).toHaveBeenNthCalledWith(
+      1,
+      'glab',
+      ['issue', 'note', '7', '--message', 'PR opened'],
+      '/repo'
+    );
+    expect(run).toHaveBeenNthCalledWith(2, 'glab', ['issue', 'close', '7'], '/repo');
+  });
+});
@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Issue, IssueUpdateSettings } from '@shared/issues';
+import type { IssueProvider } from '../types';
+
+const getTaskByPathMock = vi.fn();
+const getTasksMock = vi.fn();
+const saveTaskMock = vi.fn();
+let issueUpdates: IssueUpdateSettings;
+
+vi.mock('keytar', () => ({
+  default: { getPassword: vi.fn(), setPassword: vi.fn(), deletePassword: vi.fn() },
+}));
+
+vi.mock('../../../lib/logger', () => ({
+  log: { info: vi.fn(), debug: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../../DatabaseService', () => ({
+  databaseService: {
+    getTaskByPath: (...args: any[]) => getTaskByPathMock(...args),
+    getTasks: (...args: any[]) => getTasksMock(...args),
+    saveTask: (...args: any[]) => saveTaskMock(...args),
+  },
+}));
+
+vi.mock('../../../settings', () => ({
+  getAppSettings: () => ({ issueUpdates }),
+}));
+
+const issue: Issue = {
+  provider: 'github',
+  key: '#12',
+  number: 12,
+  title: 'Crash on startup',
+  url: 'https://github.com/acme/app/issues/12',
+  state: 'OPEN',
+  assignees: ['octocat'],
+  labels: [],
+};
+
+function fakeProvider(): IssueProvider &
+  Record<'comment' | 'close' | 'get', ReturnType<typeof vi.fn>> {
+  return {
+    id: 'github',
+    isAvailable: vi.fn(async () => true),
+    list: vi.fn(async () => [issue]),
+    search: vi.fn(async () => [issue]),
+    get: vi.fn(async () => issue),
+    comment: vi.fn(async () => {}),
+    close: vi.fn(async () => {}),
+  };
+}
+
+async function createService(provider: IssueProvider) {
+  const { IssueService } = await import('../IssueService');
+  return new IssueService([provider]);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  issueUpdates = { commentOnPrOpened: true, commentOnPrMerged: true, closeOnPrMerged: false };
+  getTaskByPathMock.mockResolvedValue({
+    id: 'task-1',
+    path: '/worktrees/task-1',
+    metadata: {
+      linkedIssue: { provider: 'github', key: '#12', url: issue.url, title: issue.title },
+    },
+  });
+});
+
+describe('IssueService', () => {
+  it('comments on the linked issue when the PR is opened', async () => {
+    const provider = fakeProvider();
+    const service = await createService(provider);
+
+    await service.notifyPrEvent(
+      '/worktrees/task-1',
+      'opened',
+      'https://github.com/acme/app/pull/3'
+    );
+
+    expect(provider.comment).toHaveBeenCalledWith(
+      '/worktrees/task-1',
+      '#12',
+      'A pull request for this issue was opened: https://github.com/acme/app/pull/3'
+    );
+    expect(provider.close).not.toHaveBeenCalled();
+  });
+
+  it('closes the issue on merge only when enabled', async () => {
+    const provider = fakeProvider();
+    const service = await createService(provider);
+
+    await service.notifyPrEvent('/worktrees/task-1', 'merged', null);
+    expect(provider.close).not.toHaveBeenCalled();
+
+    issueUpdates = { ...issueUpdates, commentOnPrMerged: false, closeOnPrMerged: true };
+    provider.comment.mockClear();
+    await service.notifyPrEvent('/worktrees/task-1', 'merged', null);
+    expect(provider.comment).not.toHaveBeenCalled();
+    expect(provider.close).toHaveBeenCalledWith('/worktrees/task-1', '#12');
+  });
+
+  it('does nothing for tasks without a linked issue and swallows tracker errors', async () => {
+    const provider = fakeProvider();
+    const service = await createService(provider);
+
+    getTaskByPathMock.mockResolvedValueOnce({ id: 'task-2', metadata: {} });
+    await service.notifyPrEvent('/worktrees/task-2', 'opened', null);
+    expect(provider.comment).not.toHaveBeenCalled();
+
+    provider.comment.mockRejectedValueOnce(new Error('rate limited'));
+    await expect(
+      service.notifyPrEvent('/worktrees/task-1', 'opened', null)
+    ).resolves.toBeUndefined();
+  });
+
+  it('links an issue to a task, replacing any previous link', async () => {
+    const provider = fakeProvider();
+    const service = await createService(provider);
+    getTasksMock.mockResolvedValue([
+      {
+        id: 'task-1',
+        name: 'fix crash',
+        metadata: {
+          initialPrompt: 'go',
+          jiraIssue: { key: 'OLD-1' },
+          linkedIssue: { key: 'OLD-1' },
+        },
+      },
+    ]);
+
+    await service.linkToTask('task-1', 'github', '/repo', '#12');
+
+    expect(provider.get).toHaveBeenCalledWith('/repo', '#12');
+    const saved = saveTaskMock.mock.calls[0][0];
+    expect(saved.metadata.initialPrompt).toBe('go');
+    expect(saved.metadata.jiraIssue).toBeUndefined();
+    expect(saved.metadata.linkedIssue).toEqual({
+      provider: 'github',
+      key: '#12',
+      url: issue.url,
+      title: issue.title,
+    });
+    expect(saved.metadata.githubIssue).toMatchObject({ number: 12, title: 'Crash on startup' });
+  });
+
+  it('rejects unknown providers', async () => {
+    const service = await createService(fakeProvider());
+    expect(() => service.getProvider('jira')).toThrow('Unknown issue provider: jira');
+  });
+});
@@ -0,0 +1,196 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { JiraIssueProvider } from '../JiraIssueProvider';
+import type { JiraCredentials } from '../types';
+
+vi.mock('keytar', () => ({
+  default: { getPassword: vi.fn(), setPassword: vi.fn(), deletePassword: vi.fn() },
+}));
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  authorization?: string;
+  body: any;
+}
+
+const requests: RecordedRequest[] = [];
+let transitions: Array<{ id: string; name: string; to: { statusCategory: { key: string } } }> = [];
+
+const issueFields = {
+  summary: 'Login button does nothing',
+  status: { name: 'In Progress' },
+  assignee: { displayName: 'Ada Lovelace' },
+  labels: ['bug'],
+  project: { key: 'PROJ' },
+  updated: '2026-01-02T03:04:05.000+0000',
+};
+
+function send(res: http.ServerResponse, status: number, body?: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', (chunk) => (raw += chunk));
+  req.on('end', () => {
+    const url = new URL(req.url ?? '/', 'http://stub');
+    requests.push({
+      method: req.method ?? 'GET',
+      url: req.url ?? '',
+      authorization: req.headers.authorization,
+      body: raw ? JSON.parse(raw) : undefined,
+    });
+
+    if (
+      req.headers.authorization !==
+      `Basic ${Buffer.from('me@example.com:secret').toString('base64')}`
+    ) {
+      return send(res, 401, { errorMessages: ['Client must be authenticated'] });
+    }
+    if (url.pathname === '/rest/api/3/myself') {
+      return send(res, 200, { displayName: 'Ada Lovelace' });
+    }
+    if (url.pathname === '/rest/api/3/search/jql') {
+      return send(res, 200, { issues: [{ key: 'PROJ-1', fields: issueFields }] });
+    }
+    if (url.pathname === '/rest/api/3/issue/PROJ-1') {
+      return send(res, 200, {
+        key: 'PROJ-1',
+        fields: {
+          ...issueFields,
+          description: {
+            type: 'doc',
+            version: 1,
+            content: [
+              { type: 'paragraph', content: [{ type: 'text', text: 'Steps to reproduce' }] },
+            ],
+          },
+        },
+      });
+    }
+    if (url.pathname === '/rest/api/3/issue/PROJ-1/comment' && req.method === 'POST') {
+      return send(res, 201, { id: '10000' });
+    }
+    if (url.pathname === '/rest/api/3/issue/PROJ-1/transitions') {
+      return req.method === 'POST' ? send(res, 204) : send(res, 200, { transitions });
+    }
+    if (url.pathname === '/rest/api/3/issue/MISSING-1') {
+      return send(res, 404, {
+        errorMessages: ['Issue does not exist or you do not have permission to see it.'],
+      });
+    }
+    send(res, 404, {});
+  });
+});
+
+let credentials: JiraCredentials;
+let provider: JiraIssueProvider;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  credentials = { siteUrl: `http://127.0.0.1:${port}/`, email: 'me@example.com', token: 'secret' };
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  transitions = [
+    { id: '21', name: 'In Review', to: { statusCategory: { key: 'indeterminate' } } },
+    { id: '31', name: 'Done', to: { statusCategory: { key: 'done' } } },
+  ];
+  provider = new JiraIssueProvider({ get: async () => credentials });
+});
+
+describe('JiraIssueProvider', () => {
+  it('verifies credentials and returns the display name', async () => {
+    await expect(provider.checkConnection()).resolves.toBe('Ada Lovelace');
+    expect(requests[0].url).toBe('/rest/api/3/myself');
+  });
+
+  it('surfaces Jira error messages', async () => {
+    const bad = new JiraIssueProvider({
+      get: async () => ({ ...credentials, token: 'wrong' }),
+    });
+    await expect(bad.checkConnection()).rejects.toThrow(
+      'Jira request failed (401): Client must be authenticated'
+    );
+    await expect(provider.get('', 'MISSING-1')).rejects.toThrow(/\(404\): Issue does not exist/);
+  });
+
+  it('is unavailable without stored credentials', async () => {
+    const disconnected = new JiraIssueProvider({ get: async () => null });
+    await expect(disconnected.isAvailable()).resolves.toBe(false);
+    await expect(disconnected.list('', 10)).rejects.toThrow('Jira is not connected');
+  });
+
+  it('lists open issues assigned to the current user', async () => {
+    const issues = await provider.list('', 5);
+
+    const url = new URL(requests[0].url, 'http://stub');
+    expect(url.searchParams.get('jql')).toBe(
+      'assignee = currentUser() AND statusCategory != Done ORDER BY updated DESC'
+    );
+    expect(url.searchParams.get('maxResults')).toBe('5');
+    expect(issues).toEqual([
+      {
+        provider: 'jira',
+        key: 'PROJ-1',
+        title: 'Login button does nothing',
+        url: `${credentials.siteUrl.replace(/\/$/, '')}/browse/PROJ-1`,
+        state: 'In Progress',
+        assignees: ['Ada Lovelace'],
+        labels: ['bug'],
+        body: undefined,
+        project: 'PROJ',
+        updatedAt: '2026-01-02T03:04:05.000+0000',
+      },
+    ]);
+  });
+
+  it('searches by key when the term looks like an issue key and by text otherwise', async () => {
+    await provider.search('', 'proj-1', 10);
+    await provider.search('', 'login "button"', 10);
+
+    const jql = requests.map((r) => new URL(r.url, 'http://stub').searchParams.get('jql'));
+    expect(jql).toEqual(['key = "PROJ-1"', 'text ~ "login \\"button\\"" ORDER BY updated DESC']);
+  });
+
+  it('fetches an issue with its description as plain text', async () => {
+    const issue = await provider.get('', 'PROJ-1');
+    expect(issue.body).toBe('Steps to reproduce');
+  });
+
+  it('posts comments as Atlassian Document Format', async () => {
+    await provider.comment('', 'PROJ-1', 'PR opened\nhttps://example.com/pr/1');
+
+    expect(requests[0]).toMatchObject({
+      method: 'POST',
+      url: '/rest/api/3/issue/PROJ-1/comment',
+    });
+    expect(requests[0].body.body.content).toEqual([
+      { type: 'paragraph', content: [{ type: 'text', text: 'PR opened' }] },
+      { type: 'paragraph', content: [{ type: 'text', text: 'https://example.com/pr/1' }] },
+    ]);
+  });
+
+  it('closes an issue through the first transition into a done status', async () => {
+    await provider.close('', 'PROJ-1');
+
+    expect(requests.map((r) => r.method)).toEqual(['GET', 'POST']);
+    expect(requests[1].body).toEqual({ transition: { id: '31' } });
+  });
+
+  it('fails to close when the workflow has no done transition', async () => {
+    transitions = transitions.filter((t) => t.to.statusCategory.key !== 'done');
+    await expect(provider.close('', 'PROJ-1')).rejects.toThrow(
+      'No transition to a done status is available for PROJ-1'
+    );
+  });
+});
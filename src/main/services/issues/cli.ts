@@ -0,0 +1,25 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import type { CommandRunner } from './types';
+
+const execFileAsync = promisify(execFile);
+
+export const execCommand: CommandRunner = async (command, args, cwd) => {
+  const { stdout } = await execFileAsync(command, args, { cwd, maxBuffer: 8 * 1024 * 1024 });
+  return stdout;
+};
+
+/** Accepts `#12`, `12` or a numeric value and returns the issue number. */
+export function parseIssueNumber(key: string | number): number {
+  const n = Number(String(key).trim().replace(/^#/, ''));
+  if (!Number.isInteger(n) || n <= 0) {
+    throw new Error(`Invalid issue number: ${key}`);
+  }
+  return n;
+}
+
+export function clampLimit(limit: number | undefined, fallback = 30): number {
+  const n = Math.floor(Number(limit));
+  if (!Number.isFinite(n) || n <= 0) return fallback;
+  return Math.min(n, 100);
+}
@@ -0,0 +1,11 @@
+export {
+  IssueService,
+  issueService,
+  jiraCredentialService,
+  jiraIssueProvider,
+} from './IssueService';
+export { GitHubIssueProvider } from './GitHubIssueProvider';
+export { GitLabIssueProvider } from './GitLabIssueProvider';
+export { JiraIssueProvider } from './JiraIssueProvider';
+export { JiraCredentialService } from './JiraCredentialService';
+export type { CommandRunner, IssueProvider, JiraCredentials } from './types';
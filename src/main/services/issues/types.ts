@@ -0,0 +1,28 @@
+import type { Issue, IssueProviderId } from '@shared/issues';
+
+/**
+ * One issue tracker. Keys are the tracker's display keys (`#12`, `PROJ-12`);
+ * `projectPath` selects the repository for CLI-backed trackers and is ignored
+ * by trackers that are configured globally.
+ */
+export interface IssueProvider {
+  readonly id: IssueProviderId;
+  /** True when the tracker can be queried (CLI installed and signed in, or credentials saved). */
+  isAvailable(projectPath: string): Promise<boolean>;
+  /** Open issues, most recently updated first. */
+  list(projectPath: string, limit: number): Promise<Issue[]>;
+  search(projectPath: string, term: string, limit: number): Promise<Issue[]>;
+  get(projectPath: string, key: string): Promise<Issue>;
+  comment(projectPath: string, key: string, body: string): Promise<void>;
+  /** Close the issue, or move it to a done status where the tracker has workflows. */
+  close(projectPath: string, key: string): Promise<void>;
+}
+
+/** Runs a CLI in `cwd` and resolves with its stdout. */
+export type CommandRunner = (command: string, args: string[], cwd: string) => Promise<string>;
+
+export interface JiraCredentials {
+  siteUrl: string;
+  email: string;
+  token: string;
+}
@@ -3,6 +3,7 @@ import { lifecycleScriptsService } from './LifecycleScriptsService';
 import { log } from '../lib/logger';
 import { LIFECYCLE_EVENT_CHANNEL, LIFECYCLE_PHASES } from '@shared/lifecycle';
 import { taskLifecycleService } from './TaskLifecycleService';
+import { verifyService } from './verify/VerifyService';
 
 export function registerLifecycleIpc(): void {
   // Get a specific lifecycle phase script for a project
@@ -87,6 +88,19 @@ export function registerLifecycleIpc(): void {
     }
   });
 
+  ipcMain.handle(
+    'lifecycle:service:restart',
+    async (_event, args: { taskId: string; service: string }) => {
+      try {
+        const result = taskLifecycleService.restartService(args.taskId, args.service);
+        return { success: result.ok, ...result };
+      } catch (error) {
+        log.error('Failed to restart lifecycle service:', error);
+        return { success: false, error: (error as Error).message };
+      }
+    }
+  );
+
   ipcMain.handle(
     'lifecycle:teardown',
     async (
@@ -111,6 +125,54 @@ export function registerLifecycleIpc(): void {
     }
   );
 
+  ipcMain.handle(
+    'lifecycle:verify',
+    async (
+      _event,
+      args: {
+        taskId: string;
+        taskPath: string;
+        projectPath: string;
+      }
+    ) => {
+      try {
+        const result = await taskLifecycleService.runVerify(
+          args.taskId,
+          args.taskPath,
+          args.projectPath
+        );
+        return { success: result.ok, ...result };
+      } catch (error) {
+        log.error('Failed to run verify lifecycle phase:', error);
+        return { success: false, error: (error as Error).message };
+      }
+    }
+  );
+
+  // Latest verify run of a task and whether it lets git actions through
+  ipcMain.handle(
+    'lifecycle:verify:status',
+    async (
+      _event,
+      args: {
+        taskId: string;
+        taskPath: string;
+        projectPath: string;
+      }
+    ) => {
+      try {
+        const [run, gate] = await Promise.all([
+          verifyService.getLatestRun(args.taskId),
+          verifyService.getGate(args.taskId, args.taskPath, args.projectPath),
+        ]);
+        return { success: true, run, gate };
+      } catch (error) {
+        log.error('Failed to get verify status:', error);
+        return { success: false, error: (error as Error).message };
+      }
+    }
+  );
+
   ipcMain.handle('lifecycle:getState', async (_event, args: { taskId: string }) => {
     try {
       const state = taskLifecycleService.getState(args.taskId);
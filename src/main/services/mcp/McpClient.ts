@@ -0,0 +1,350 @@
+import { spawn, type ChildProcess } from 'child_process';
+import type { McpServerConfig } from '@shared/mcp/types';
+
+// Kept free of Electron and logger imports: the tool filter worker runs it as plain Node.
+
+export const MCP_PROTOCOL_VERSION = '2025-03-26';
+
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+/** A connection to an MCP server that exchanges JSON-RPC messages. */
+export interface McpTransport {
+  start(
+    onMessage: (message: JsonRpcMessage) => void,
+    onClose: (error: Error) => void
+  ): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  close(): Promise<void>;
+}
+
+/** Newline-delimited JSON-RPC over the stdin/stdout of a spawned server. */
+export class StdioTransport implements McpTransport {
+  private child: ChildProcess | null = null;
+  private stderr = '';
+
+  constructor(
+    private readonly config: { command: string; args: string[]; env: Record<string, string> }
+  ) {}
+
+  async start(
+    onMessage: (message: JsonRpcMessage) => void,
+    onClose: (error: Error) => void
+  ): Promise<void> {
+    const child = spawn(this.config.command, this.config.args, {
+      env: { ...process.env, ...this.config.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      // Resolve npx.cmd and friends on Windows
+      shell: process.platform === 'win32',
+    });
+    this.child = child;
+
+    let buffer = '';
+    child.stdout!.setEncoding('utf8');
+    child.stdout!.on('data', (chunk: string) => {
+      buffer += chunk;
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (!line) continue;
+        try {
+          onMessage(JSON.parse(line));
+        } catch {
+          // Some servers log to stdout; skip anything that isn't JSON
+        }
+      }
+    });
+    child.stderr!.setEncoding('utf8');
+    child.stderr!.on('data', (chunk: string) => {
+      this.stderr = (this.stderr + chunk).slice(-2000);
+    });
+    child.on('exit', (code, signal) => {
+      const reason = signal ? `signal ${signal}` : `code ${code}`;
+      const stderr = this.stderr.trim();
+      onClose(new Error(`Server exited with ${reason}${stderr ? `: ${stderr}` : ''}`));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', resolve);
+      child.once('error', reject);
+    });
+    child.on('error', onClose);
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    this.child?.stdin?.write(`${JSON.stringify(message)}\n`);
+  }
+
+  async close(): Promise<void> {
+    const child = this.child;
+    this.child = null;
+    if (!child || child.exitCode !== null) return;
+    child.removeAllListeners('exit');
+    child.stdin?.end();
+    child.kill();
+  }
+}
+
+/** Streamable HTTP: every message is POSTed; replies come back as JSON or an SSE stream. */
+export class StreamableHttpTransport implements McpTransport {
+  private sessionId: string | null = null;
+  private abort = new AbortController();
+  private onMessage: (message: JsonRpcMessage) => void = () => {};
+  private onClose: (error: Error) => void = () => {};
+
+  constructor(private readonly config: { url: string; headers: Record<string, string> }) {}
+
+  async start(
+    onMessage: (message: JsonRpcMessage) => void,
+    onClose: (error: Error) => void
+  ): Promise<void> {
+    this.onMessage = onMessage;
+    this.onClose = onClose;
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    const resp = await fetch(this.config.url, {
+      method: 'POST',
+      headers: {
+        ...this.config.headers,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...(this.sessionId && { 'Mcp-Session-Id': this.sessionId }),
+      },
+      body: JSON.stringify(message),
+      signal: this.abort.signal,
+    });
+    this.sessionId = resp.headers.get('mcp-session-id') ?? this.sessionId;
+    if (!resp.ok) throw new Error(`HTTP ${resp.status} from ${this.config.url}`);
+    if (resp.status === 202 || !resp.body) return;
+
+    const contentType = resp.headers.get('content-type') ?? '';
+    if (contentType.includes('text/event-stream')) {
+      readServerSentEvents(resp.body, (event) => {
+        if (event.event === 'message') this.onMessage(JSON.parse(event.data));
+      }).catch((error) => {
+        if (!this.abort.signal.aborted) this.onClose(error);
+      });
+    } else if (contentType.includes('application/json')) {
+      const body = await resp.json();
+      for (const reply of Array.isArray(body) ? body : [body]) this.onMessage(reply);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.abort.abort();
+    if (!this.sessionId) return;
+    // End the server-side session; servers may not support it
+    await fetch(this.config.url, {
+      method: 'DELETE',
+      headers: { ...this.config.headers, 'Mcp-Session-Id': this.sessionId },
+    }).catch(() => {});
+  }
+}
+
+/** Legacy HTTP+SSE: replies arrive on a GET stream that first names the POST endpoint. */
+export class SseTransport implements McpTransport {
+  private endpoint: string | null = null;
+  private abort = new AbortController();
+
+  constructor(private readonly config: { url: string; headers: Record<string, string> }) {}
+
+  async start(
+    onMessage: (message: JsonRpcMessage) => void,
+    onClose: (error: Error) => void
+  ): Promise<void> {
+    const resp = await fetch(this.config.url, {
+      headers: { ...this.config.headers, Accept: 'text/event-stream' },
+      signal: this.abort.signal,
+    });
+    if (!resp.ok || !resp.body) throw new Error(`HTTP ${resp.status} from ${this.config.url}`);
+
+    this.endpoint = await new Promise<string>((resolve, reject) => {
+      readServerSentEvents(resp.body!, (event) => {
+        if (event.event === 'endpoint') resolve(new URL(event.data, this.config.url).href);
+        else if (event.event === 'message') onMessage(JSON.parse(event.data));
+      }).then(
+        () => {
+          const error = new Error('SSE stream closed');
+          reject(error);
+          onClose(error);
+        },
+        (error) => {
+          reject(error);
+          if (!this.abort.signal.aborted) onClose(error);
+        }
+      );
+    });
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (!this.endpoint) throw new Error('Not connected');
+    const resp = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { ...this.config.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+      signal: this.abort.signal,
+    });
+    if (!resp.ok) throw new Error(`HTTP ${resp.status} from ${this.endpoint}`);
+  }
+
+  async close(): Promise<void> {
+    this.abort.abort();
+  }
+}
+
+/** Parse a `text/event-stream` body, calling `onEvent` for every complete event. */
+async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: { event: string; data: string }) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventName = 'message';
+  let data: string[] = [];
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      if (line === '') {
+        if (data.length > 0) onEvent({ event: eventName, data: data.join('\n') });
+        eventName = 'message';
+        data = [];
+      } else if (line.startsWith('event:')) {
+        eventName = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+  }
+}
+
+export function createMcpTransport(config: McpServerConfig): McpTransport {
+  switch (config.transport) {
+    case 'stdio':
+      return new StdioTransport(config);
+    case 'http':
+      return new StreamableHttpTransport(config);
+    case 'sse':
+      return new SseTransport(config);
+  }
+}
+
+/** Minimal MCP client: the initialize handshake, requests and paginated listing. */
+export class McpClient {
+  private nextId = 1;
+  private pending = new Map<
+    number,
+    { resolve: (result: any) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }
+  >();
+  private closed: Error | null = null;
+  serverInfo: { name: string; version?: string } | undefined;
+  protocolVersion: string | undefined;
+  capabilities: Record<string, unknown> = {};
+
+  constructor(
+    private readonly transport: McpTransport,
+    private readonly options: {
+      clientInfo: { name: string; version: string };
+      timeoutMs?: number;
+    }
+  ) {}
+
+  async connect(): Promise<void> {
+    await this.transport.start(
+      (message) => this.handleMessage(message),
+      (error) => this.fail(error)
+    );
+    const result = await this.request('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: this.options.clientInfo,
+    });
+    this.serverInfo = result?.serverInfo;
+    this.protocolVersion = result?.protocolVersion;
+    this.capabilities = result?.capabilities ?? {};
+    await this.transport.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+  }
+
+  request(method: string, params?: unknown): Promise<any> {
+    if (this.closed) return Promise.reject(this.closed);
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`${method} timed out`));
+      }, this.options.timeoutMs ?? 15_000);
+      this.pending.set(id, { resolve, reject, timer });
+      this.transport.send({ jsonrpc: '2.0', id, method, params }).catch((error) => {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(error);
+      });
+    });
+  }
+
+  /** Every item of a paginated list method (`tools/list`, `resources/list`, ...). */
+  async listAll<T>(method: string, key: string, maxPages = 20): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < maxPages; page++) {
+      const result = await this.request(method, cursor ? { cursor } : {});
+      items.push(...((result?.[key] as T[] | undefined) ?? []));
+      cursor = result?.nextCursor;
+      if (!cursor) break;
+    }
+    return items;
+  }
+
+  async close(): Promise<void> {
+    this.fail(new Error('Connection closed'));
+    await this.transport.close();
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    if (message.method) {
+      // Requests from the server; answer pings, decline the rest
+      if (message.id === undefined) return;
+      void this.transport
+        .send(
+          message.method === 'ping'
+            ? { jsonrpc: '2.0', id: message.id, result: {} }
+            : {
+                jsonrpc: '2.0',
+                id: message.id,
+                error: { code: -32601, message: `Method not supported: ${message.method}` },
+              }
+        )
+        .catch(() => {});
+      return;
+    }
+    const pending = typeof message.id === 'number' ? this.pending.get(message.id) : undefined;
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    this.pending.delete(message.id as number);
+    if (message.error) pending.reject(new Error(message.error.message));
+    else pending.resolve(message.result);
+  }
+
+  private fail(error: Error): void {
+    this.closed ??= error;
+    for (const { reject, timer } of this.pending.values()) {
+      clearTimeout(timer);
+      reject(error);
+    }
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,70 @@
+import type { JsonRpcMessage, McpTransport } from './McpClient';
+
+/**
+ * Relays JSON-RPC between an agent and an upstream MCP server while hiding
+ * disabled tools: they are dropped from `tools/list` results and calls to
+ * them are refused without reaching the server.
+ */
+export class McpToolFilter {
+  private readonly disabled: Set<string>;
+  /** Ids of the agent's pending `tools/list` requests */
+  private readonly listRequests = new Set<string>();
+
+  constructor(
+    private readonly upstream: McpTransport,
+    disabledTools: string[],
+    private readonly toAgent: (message: JsonRpcMessage) => void
+  ) {
+    this.disabled = new Set(disabledTools);
+  }
+
+  start(onClose: (error: Error) => void): Promise<void> {
+    return this.upstream.start((message) => this.fromUpstream(message), onClose);
+  }
+
+  /** Handle a message sent by the agent. */
+  async fromAgent(message: JsonRpcMessage): Promise<void> {
+    const hasId = message.id !== undefined;
+    if (message.method === 'tools/call' && this.disabled.has(message.params?.name)) {
+      if (hasId) {
+        this.toAgent({
+          jsonrpc: '2.0',
+          id: message.id,
+          error: { code: -32602, message: `Tool ${message.params.name} is disabled` },
+        });
+      }
+      return;
+    }
+    if (message.method === 'tools/list' && hasId) this.listRequests.add(String(message.id));
+    try {
+      await this.upstream.send(message);
+    } catch (error) {
+      if (hasId) {
+        this.listRequests.delete(String(message.id));
+        this.toAgent({
+          jsonrpc: '2.0',
+          id: message.id,
+          error: { code: -32603, message: error instanceof Error ? error.message : String(error) },
+        });
+      }
+    }
+  }
+
+  close(): Promise<void> {
+    return this.upstream.close();
+  }
+
+  private fromUpstream(message: JsonRpcMessage): void {
+    const isReply = !message.method && message.id !== undefined;
+    if (isReply && this.listRequests.delete(String(message.id))) {
+      const tools = message.result?.tools;
+      if (Array.isArray(tools)) {
+        message = {
+          ...message,
+          result: { ...message.result, tools: tools.filter((t) => !this.disabled.has(t?.name)) },
+        };
+      }
+    }
+    this.toAgent(message);
+  }
+}
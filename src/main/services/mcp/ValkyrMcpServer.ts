@@ -0,0 +1,595 @@
+import http from 'http';
+import crypto from 'crypto';
+import { execFile } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { promisify } from 'util';
+import { app, BrowserWindow } from 'electron';
+import { z } from 'zod';
+import { getAppSettings } from '../../settings';
+import { log } from '../../lib/logger';
+import { databaseService, type Task } from '../DatabaseService';
+import { getChangesSinceBase, getFileDiffSinceBase } from '../GitService';
+import { taskLifecycleService } from '../TaskLifecycleService';
+import { verifyService } from '../verify/VerifyService';
+import { worktreeService } from '../WorktreeService';
+import { PathGuardError, resolveGuardedPath } from '../../utils/pathGuard';
+import { MCP_PROTOCOL_VERSION, type JsonRpcMessage } from './McpClient';
+import type { McpServerHttpConfig } from '@shared/mcp/types';
+import type { VariantRef } from '@shared/variants';
+import { isValidProviderId } from '@shared/providers/registry';
+import {
+  TASK_PROGRESS_CHANNEL,
+  TASK_PROGRESS_STATES,
+  TASK_SPAWNED_CHANNEL,
+  VALKYR_MCP_SERVER_NAME,
+  VALKYR_MCP_TOOLS,
+  allowedValkyrMcpTools,
+  type TaskProgress,
+  type ValkyrMcpToolName,
+} from '@shared/mcp/valkyr';
+
+const execFileAsync = promisify(execFile);
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_DIFF_BYTES = 200 * 1024;
+
+/** Where an agent session runs; tools act on this project and task. */
+interface SessionScope {
+  projectPath: string;
+  taskPath: string;
+}
+
+/** A task or one variant of a multi-agent task. */
+interface TaskRef {
+  id: string;
+  name: string;
+  branch: string;
+  path: string;
+  agent: string | null;
+  parentTaskId: string | null;
+}
+
+interface ToolContext {
+  projectId: string;
+  projectPath: string;
+  /** Branch tasks fork from, e.g. `origin/main` */
+  baseRef: string | null;
+  tasks: TaskRef[];
+  /** The session's own task, when its worktree belongs to one */
+  current: TaskRef | null;
+}
+
+class ToolError extends Error {}
+
+const INPUT_SCHEMAS: Record<ValkyrMcpToolName, Record<string, unknown>> = {
+  list_tasks: { type: 'object', properties: {} },
+  get_task_diff: {
+    type: 'object',
+    properties: {
+      taskId: { type: 'string', description: 'Task to read; defaults to this task' },
+      filePath: { type: 'string', description: 'Only this file, relative to the worktree' },
+    },
+  },
+  add_line_comment: {
+    type: 'object',
+    properties: {
+      taskId: { type: 'string', description: 'Task to comment on; defaults to this task' },
+      filePath: { type: 'string', description: 'File relative to the worktree' },
+      lineNumber: { type: 'integer', minimum: 1 },
+      content: { type: 'string' },
+    },
+    required: ['filePath', 'lineNumber', 'content'],
+  },
+  run_lifecycle: {
+    type: 'object',
+    properties: {
+      phase: {
+        type: 'string',
+        enum: ['verify', 'run'],
+        description: 'verify waits for the result; run starts the run script and returns',
+      },
+    },
+    required: ['phase'],
+  },
+  spawn_task: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Short task name, also used for the branch' },
+      prompt: { type: 'string', description: 'First message for the new task' },
+      baseRef: { type: 'string', description: "Branch to start from; the project's by default" },
+      agent: { type: 'string', description: "Agent id; this task's agent by default" },
+    },
+    required: ['name', 'prompt'],
+  },
+  report_progress: {
+    type: 'object',
+    properties: {
+      message: { type: 'string' },
+      state: { type: 'string', enum: [...TASK_PROGRESS_STATES] },
+      percent: { type: 'number', minimum: 0, maximum: 100 },
+    },
+    required: ['message'],
+  },
+};
+
+const TaskDiffArgs = z.object({ taskId: z.string().optional(), filePath: z.string().optional() });
+const LineCommentArgs = z.object({
+  taskId: z.string().optional(),
+  filePath: z.string().min(1),
+  lineNumber: z.number().int().min(1),
+  content: z.string().min(1),
+});
+const LifecycleArgs = z.object({ phase: z.enum(['verify', 'run']) });
+const SpawnTaskArgs = z.object({
+  name: z.string().trim().min(1).max(64),
+  prompt: z.string().min(1),
+  baseRef: z.string().optional(),
+  agent: z.string().optional(),
+});
+const ProgressArgs = z.object({
+  message: z.string().trim().min(1).max(500),
+  state: z.enum(TASK_PROGRESS_STATES).default('working'),
+  percent: z.number().min(0).max(100).optional(),
+});
+
+function toTaskRefs(task: Task): TaskRef[] {
+  const ref: TaskRef = {
+    id: task.id,
+    name: task.name,
+    branch: task.branch,
+    path: task.path,
+    agent: task.agentId ?? null,
+    parentTaskId: task.metadata?.parentTaskId ?? null,
+  };
+  const variants: Array<VariantRef & { agent?: string }> =
+    task.metadata?.multiAgent?.variants ?? [];
+  return [
+    ref,
+    ...variants.map((v) => ({
+      id: v.worktreeId,
+      name: v.name,
+      branch: v.branch,
+      path: v.path,
+      agent: v.agent ?? null,
+      parentTaskId: task.id,
+    })),
+  ];
+}
+
+/** Requests and notifications are objects; anything else makes the body malformed. */
+function isJsonRpcMessage(value: unknown): value is JsonRpcMessage {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Valkyr's own MCP server, offered to every local agent session. It listens on
+ * loopback only; each session gets a bearer token that scopes its tools to the
+ * session's project and task, and the project's permissions decide which tools
+ * it sees.
+ */
+export class ValkyrMcpServer {
+  private server: http.Server | null = null;
+  private listening: Promise<number> | null = null;
+  private sessions = new Map<string, SessionScope>();
+  /** Bearer token of each agent session, by session key */
+  private tokens = new Map<string, string>();
+  private progress = new Map<string, TaskProgress>();
+
+  /** The built-in server config for agent session `sessionKey` working in `taskPath`. */
+  async getSessionServer(
+    projectPath: string,
+    taskPath: string,
+    sessionKey: string
+  ): Promise<McpServerHttpConfig> {
+    const port = await this.listen();
+    let token = this.tokens.get(sessionKey);
+    if (!token) {
+      token = crypto.randomBytes(24).toString('hex');
+      this.tokens.set(sessionKey, token);
+      this.sessions.set(token, { projectPath, taskPath });
+    }
+    return {
+      id: VALKYR_MCP_SERVER_NAME,
+      name: VALKYR_MCP_SERVER_NAME,
+      transport: 'http',
+      enabled: true,
+      url: `http://127.0.0.1:${port}/mcp`,
+      headers: { Authorization: `Bearer ${token}` },
+    };
+  }
+
+  /** Stop accepting the token of an agent session that has ended. */
+  revokeSession(sessionKey: string): void {
+    const token = this.tokens.get(sessionKey);
+    if (!token) return;
+    this.tokens.delete(sessionKey);
+    this.sessions.delete(token);
+  }
+
+  getProgress(): TaskProgress[] {
+    return Array.from(this.progress.values());
+  }
+
+  close(): void {
+    this.server?.close();
+    this.server = null;
+    this.listening = null;
+  }
+
+  private listen(): Promise<number> {
+    this.listening ??= new Promise<number>((resolve, reject) => {
+      const server = http.createServer((req, res) => {
+        // Every request gets an answer, even when handling it throws
+        this.handleRequest(req, res).catch((error) => {
+          log.warn('valkyrMcp: request failed', { error: String(error) });
+          if (!res.headersSent) res.writeHead(500);
+          res.end();
+        });
+      });
+      server.once('error', (error) => {
+        this.listening = null;
+        reject(error);
+      });
+      server.listen(0, '127.0.0.1', () => {
+        server.unref();
+        this.server = server;
+        resolve((server.address() as AddressInfo).port);
+      });
+    });
+    return this.listening;
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const auth = req.headers.authorization ?? '';
+    const scope = auth.startsWith('Bearer ') ? this.sessions.get(auth.slice(7)) : undefined;
+    if (!scope) {
+      res.writeHead(401).end();
+      return;
+    }
+    if (req.method !== 'POST' || req.url !== '/mcp') {
+      // Stateless server: no standalone SSE stream and no sessions to delete
+      res.writeHead(405, { Allow: 'POST' }).end();
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      res.writeHead(400).end();
+      return;
+    }
+
+    const messages: unknown[] = Array.isArray(body) ? body : [body];
+    if (messages.length === 0 || !messages.every(isJsonRpcMessage)) {
+      res.writeHead(400).end();
+      return;
+    }
+    const replies: JsonRpcMessage[] = [];
+    for (const message of messages) {
+      const reply = await this.handleMessage(scope, message);
+      if (reply) replies.push(reply);
+    }
+    if (replies.length === 0) {
+      res.writeHead(202).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(Array.isArray(body) ? replies : replies[0]));
+  }
+
+  private async handleMessage(
+    scope: SessionScope,
+    message: JsonRpcMessage
+  ): Promise<JsonRpcMessage | null> {
+    if (message.id === undefined || !message.method) return null;
+    const reply = (result: unknown): JsonRpcMessage => ({ jsonrpc: '2.0', id: message.id, result });
+    const fail = (code: number, text: string): JsonRpcMessage => ({
+      jsonrpc: '2.0',
+      id: message.id,
+      error: { code, message: text },
+    });
+
+    switch (message.method) {
+      case 'initialize':
+        return reply({
+          protocolVersion: MCP_PROTOCOL_VERSION,
+          capabilities: { tools: {} },
+          serverInfo: { name: VALKYR_MCP_SERVER_NAME, version: app.getVersion() },
+          instructions:
+            'Tools for the Valkyr app this agent runs in: see the sibling tasks of this project, review their changes and coordinate work.',
+        });
+      case 'ping':
+        return reply({});
+      case 'tools/list': {
+        const allowed = this.allowedTools(scope);
+        return reply({
+          tools: VALKYR_MCP_TOOLS.filter((t) => allowed.includes(t.name)).map((t) => ({
+            name: t.name,
+            title: t.title,
+            description: t.description,
+            inputSchema: INPUT_SCHEMAS[t.name],
+          })),
+        });
+      }
+      case 'tools/call': {
+        const name = message.params?.name;
+        if (!VALKYR_MCP_TOOLS.some((t) => t.name === name)) {
+          return fail(-32602, `Unknown tool: ${name}`);
+        }
+        if (!this.allowedTools(scope).includes(name)) {
+          return fail(-32602, `Tool ${name} is not allowed in this project`);
+        }
+        try {
+          const text = await this.callTool(scope, name, message.params?.arguments ?? {});
+          return reply({ content: [{ type: 'text', text }] });
+        } catch (error) {
+          const text =
+            error instanceof z.ZodError
+              ? `Invalid arguments: ${error.issues.map((i) => `${i.path.join('.')} ${i.message}`).join('; ')}`
+              : error instanceof Error
+                ? error.message
+                : String(error);
+          if (!(error instanceof ToolError) && !(error instanceof z.ZodError)) {
+            log.warn(`valkyrMcp: ${name} failed`, { error: text });
+          }
+          return reply({ content: [{ type: 'text', text }], isError: true });
+        }
+      }
+      default:
+        return fail(-32601, `Method not found: ${message.method}`);
+    }
+  }
+
+  private allowedTools(scope: SessionScope): ValkyrMcpToolName[] {
+    const settings = getAppSettings().mcp?.valkyr;
+    if (settings && !settings.enabled) return [];
+    return allowedValkyrMcpTools(settings, scope.projectPath);
+  }
+
+  private async callTool(
+    scope: SessionScope,
+    name: ValkyrMcpToolName,
+    args: unknown
+  ): Promise<string> {
+    const ctx = await this.resolveContext(scope);
+    switch (name) {
+      case 'list_tasks':
+        return JSON.stringify(
+          ctx.tasks.map((t) => ({
+            ...t,
+            isCurrent: t.id === ctx.current?.id,
+            progress: this.progress.get(t.id) ?? null,
+          })),
+          null,
+          2
+        );
+      case 'get_task_diff':
+        return this.getTaskDiff(ctx, TaskDiffArgs.parse(args));
+      case 'add_line_comment':
+        return this.addLineComment(ctx, LineCommentArgs.parse(args));
+      case 'run_lifecycle':
+        return this.runLifecycle(ctx, LifecycleArgs.parse(args));
+      case 'spawn_task':
+        return this.spawnTask(ctx, SpawnTaskArgs.parse(args));
+      case 'report_progress':
+        return this.reportProgress(ctx, ProgressArgs.parse(args));
+    }
+  }
+
+  private async resolveContext(scope: SessionScope): Promise<ToolContext> {
+    const project = (await databaseService.getProjects()).find((p) => p.path === scope.projectPath);
+    if (!project) throw new ToolError('This session does not belong to a Valkyr project');
+    const tasks = (await databaseService.getTasks(project.id)).flatMap(toTaskRefs);
+    // Direct-branch tasks share the project path, so that alone names no task
+    const current =
+      scope.taskPath === scope.projectPath
+        ? null
+        : (tasks.find((t) => t.path === scope.taskPath) ?? null);
+    return {
+      projectId: project.id,
+      projectPath: project.path,
+      baseRef: project.gitInfo.baseRef ?? null,
+      tasks,
+      current,
+    };
+  }
+
+  private findTask(ctx: ToolContext, taskId: string | undefined): TaskRef {
+    if (!taskId) {
+      if (!ctx.current) throw new ToolError('This session is not attached to a task; pass taskId');
+      return ctx.current;
+    }
+    const task = ctx.tasks.find((t) => t.id === taskId);
+    if (!task) throw new ToolError(`No task ${taskId} in this project`);
+    return task;
+  }
+
+  private async getTaskDiff(ctx: ToolContext, args: z.infer<typeof TaskDiffArgs>): Promise<string> {
+    const task = this.findTask(ctx, args.taskId);
+    const base = await this.resolveDiffBase(task.path, ctx.baseRef);
+    const changes = await getChangesSinceBase(task.path, base.sha);
+    const files = args.filePath ? changes.filter((c) => c.path === args.filePath) : changes;
+    if (files.length === 0) {
+      return `No changes since ${base.ref}${args.filePath ? ' to that file' : ''}.`;
+    }
+
+    const summary = files.map((c) => `${c.status} ${c.path} (+${c.additions} -${c.deletions})`);
+    const patches: string[] = [];
+    let size = 0;
+    for (const file of files) {
+      const patch = await getFileDiffSinceBase(task.path, base.sha, file.path);
+      if (size + patch.length > MAX_DIFF_BYTES) {
+        patches.push(`[Diff truncated; pass filePath to read the remaining files]`);
+        break;
+      }
+      size += patch.length;
+      patches.push(patch);
+    }
+    return `Changes in ${task.name} (${task.branch}) since ${base.ref}:\n${summary.join('\n')}\n\n${patches.join('\n')}`;
+  }
+
+  /**
+   * Where the task forked from the base branch, so its commits show up too.
+   * Falls back to the local branch when the remote one is missing, then to HEAD.
+   */
+  private async resolveDiffBase(
+    taskPath: string,
+    baseRef: string | null
+  ): Promise<{ ref: string; sha: string }> {
+    const candidates = baseRef ? [baseRef, baseRef.replace(/^origin\//, '')] : [];
+    for (const ref of new Set(candidates)) {
+      try {
+        const { stdout } = await execFileAsync('git', ['merge-base', 'HEAD', ref], {
+          cwd: taskPath,
+        });
+        return { ref, sha: stdout.trim() };
+      } catch {
+        // Not a ref in this repository
+      }
+    }
+    return { ref: 'HEAD', sha: 'HEAD' };
+  }
+
+  private async addLineComment(
+    ctx: ToolContext,
+    args: z.infer<typeof LineCommentArgs>
+  ): Promise<string> {
+    const task = this.findTask(ctx, args.taskId);
+    const filePath = path.resolve(task.path, args.filePath);
+    // Checked through symlinks, so a link in the worktree can't lead the read outside it
+    const realPath =
+      filePath === path.resolve(task.path)
+        ? null
+        : await resolveGuardedPath(filePath, { root: task.path }, 'read').catch((error) => {
+            if (error instanceof PathGuardError) return null;
+            throw error;
+          });
+    if (!realPath) {
+      throw new ToolError('filePath must be inside the task worktree');
+    }
+    let lineContent: string | null = null;
+    try {
+      lineContent = (await fs.promises.readFile(realPath, 'utf8')).split('\n')[args.lineNumber - 1];
+    } catch {
+      // Deleted files can still be commented on
+    }
+    const id = await databaseService.saveLineComment({
+      taskId: task.id,
+      filePath: path.relative(task.path, filePath).split(path.sep).join('/'),
+      lineNumber: args.lineNumber,
+      lineContent: lineContent ?? null,
+      content: args.content,
+    });
+    return `Added comment ${id} to ${args.filePath}:${args.lineNumber} of ${task.name}.`;
+  }
+
+  private async runLifecycle(
+    ctx: ToolContext,
+    args: z.infer<typeof LifecycleArgs>
+  ): Promise<string> {
+    const task = this.findTask(ctx, undefined);
+    if (args.phase === 'run') {
+      const result = await taskLifecycleService.startRun(task.id, task.path, ctx.projectPath);
+      if (result.skipped) return 'This project has no run script.';
+      if (!result.ok) throw new ToolError(result.error ?? 'Run script failed to start');
+      return 'Run script started.';
+    }
+
+    const result = await taskLifecycleService.runVerify(task.id, task.path, ctx.projectPath);
+    if (result.skipped) return 'This project has no verify script.';
+    const run = await verifyService.getLatestRun(task.id);
+    return JSON.stringify(
+      {
+        ok: result.ok,
+        error: result.error ?? null,
+        status: run?.status ?? null,
+        exitCode: run?.exitCode ?? null,
+        summary: run?.summary ?? null,
+      },
+      null,
+      2
+    );
+  }
+
+  private async spawnTask(ctx: ToolContext, args: z.infer<typeof SpawnTaskArgs>): Promise<string> {
+    const parentTask = ctx.current ? await databaseService.getTaskByPath(ctx.current.path) : null;
+    const agent = args.agent ?? parentTask?.agentId ?? getAppSettings().defaultProvider;
+    if (!agent || !isValidProviderId(agent)) throw new ToolError(`Unknown agent: ${agent}`);
+
+    const worktree = await worktreeService.createWorktree(
+      ctx.projectPath,
+      args.name,
+      ctx.projectId,
+      args.baseRef
+    );
+    await databaseService.saveTask({
+      id: worktree.id,
+      projectId: ctx.projectId,
+      name: args.name,
+      branch: worktree.branch,
+      path: worktree.path,
+      status: 'idle',
+      agentId: agent,
+      metadata: { initialPrompt: args.prompt, parentTaskId: ctx.current?.id ?? null },
+      useWorktree: true,
+    });
+    void taskLifecycleService.runSetup(worktree.id, worktree.path, ctx.projectPath);
+    this.broadcast(TASK_SPAWNED_CHANNEL, { projectId: ctx.projectId, taskId: worktree.id });
+
+    return JSON.stringify(
+      {
+        id: worktree.id,
+        name: args.name,
+        branch: worktree.branch,
+        path: worktree.path,
+        agent,
+        note: 'The task starts with the prompt once it is opened in Valkyr.',
+      },
+      null,
+      2
+    );
+  }
+
+  private reportProgress(ctx: ToolContext, args: z.infer<typeof ProgressArgs>): string {
+    const task = this.findTask(ctx, undefined);
+    const progress: TaskProgress = {
+      taskId: task.id,
+      message: args.message,
+      state: args.state,
+      percent: args.percent ?? null,
+      updatedAt: new Date().toISOString(),
+    };
+    this.progress.set(task.id, progress);
+    this.broadcast(TASK_PROGRESS_CHANNEL, progress);
+    return 'Progress reported.';
+  }
+
+  private broadcast(channel: string, payload: unknown): void {
+    for (const win of BrowserWindow.getAllWindows()) {
+      try {
+        win.webContents.send(channel, payload);
+      } catch {}
+    }
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        req.destroy();
+        reject(new Error('Request body too large'));
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+export const valkyrMcpServer = new ValkyrMcpServer();
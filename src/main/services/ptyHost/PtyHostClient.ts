@@ -0,0 +1,403 @@
+import { EventEmitter } from 'events';
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { app } from 'electron';
+import type { IDisposable, IEvent, IPty } from 'node-pty';
+import { log } from '../../lib/logger';
+import {
+  PTY_HOST_PROTOCOL_VERSION,
+  ensurePrivateSocketDir,
+  onMessages,
+  sendMessage,
+  type PtyHostClientMessage,
+  type PtyHostRequest,
+  type PtyHostResults,
+  type PtyHostServerMessage,
+  type PtyHostSessionInfo,
+  type PtyHostSessionMeta,
+  type PtyHostSpawnOptions,
+} from './protocol';
+
+export interface PtyHostClientOptions {
+  socketPath?: (token: string) => string;
+  /** Secret shared with the daemon; by default kept in a user-only file in userData. */
+  token?: () => string;
+  /** Start the daemon listening on `socketPath`; it must keep running after the app exits. */
+  launch?: (socketPath: string, token: string) => void;
+  /** How long to wait for a freshly launched daemon to accept connections. */
+  launchTimeoutMs?: number;
+  requestTimeoutMs?: number;
+}
+
+type PendingRequest = {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+};
+
+const LAUNCH_POLL_MS = 100;
+
+/**
+ * A PTY living in the host daemon, shaped like a node-pty `IPty` so the rest
+ * of the app can treat hosted and in-process terminals alike.
+ */
+export class HostedPty implements IPty {
+  readonly pid: number;
+  readonly process: string;
+  handleFlowControl = false;
+  /** Output offset after the last chunk received. */
+  offset: number;
+  private _cols: number;
+  private _rows: number;
+  private readonly events = new EventEmitter();
+  private exited = false;
+
+  constructor(
+    private readonly client: PtyHostClient,
+    readonly id: string,
+    readonly meta: PtyHostSessionMeta,
+    session: PtyHostSessionInfo
+  ) {
+    this.pid = session.pid;
+    this.process = session.process;
+    this.offset = session.offset;
+    this._cols = session.cols;
+    this._rows = session.rows;
+  }
+
+  get cols(): number {
+    return this._cols;
+  }
+
+  get rows(): number {
+    return this._rows;
+  }
+
+  readonly onData: IEvent<string> = (listener) => this.subscribe('data', listener);
+
+  readonly onExit: IEvent<{ exitCode: number; signal?: number }> = (listener) =>
+    this.subscribe('exit', listener);
+
+  write(data: string): void {
+    if (this.exited) return;
+    this.client.send({ type: 'write', id: this.id, data });
+  }
+
+  resize(columns: number, rows: number): void {
+    if (this.exited) return;
+    this._cols = columns;
+    this._rows = rows;
+    this.client.send({ type: 'resize', id: this.id, cols: columns, rows });
+  }
+
+  kill(signal?: string): void {
+    if (this.exited) return;
+    this.client.request({ type: 'kill', id: this.id, signal }).catch((error) => {
+      log.warn('ptyHost:killFailed', { id: this.id, error: String(error) });
+    });
+  }
+
+  clear(): void {}
+
+  pause(): void {}
+
+  resume(): void {}
+
+  /** @internal */
+  receiveData(data: string, offset: number): void {
+    this.offset = offset;
+    this.events.emit('data', data);
+  }
+
+  /** @internal */
+  receiveExit(exitCode: number, signal?: number): void {
+    if (this.exited) return;
+    this.exited = true;
+    this.events.emit('exit', { exitCode, signal });
+  }
+
+  private subscribe<T>(event: string, listener: (e: T) => unknown): IDisposable {
+    this.events.on(event, listener);
+    return { dispose: () => this.events.off(event, listener) };
+  }
+}
+
+/**
+ * Connection from the app to the PTY host daemon, which owns terminals so they
+ * survive app restarts. The daemon is launched on first use and left running
+ * when the app quits; it exits by itself once it has no sessions.
+ */
+export class PtyHostClient {
+  private socket: net.Socket | null = null;
+  private connecting: Promise<boolean> | null = null;
+  private unavailable = false;
+  private nextReqId = 1;
+  private readonly pending = new Map<number, PendingRequest>();
+  private readonly ptys = new Map<string, HostedPty>();
+
+  constructor(private readonly options: PtyHostClientOptions = {}) {}
+
+  /**
+   * Connect to the daemon, launching it unless `launch` is false. Resolves
+   * false when PTYs should be spawned in-process instead.
+   */
+  connect({ launch = true }: { launch?: boolean } = {}): Promise<boolean> {
+    if (this.socket) return Promise.resolve(true);
+    if (this.unavailable || process.env.VALKYR_DISABLE_PTY_HOST === '1') {
+      return Promise.resolve(false);
+    }
+    if (!this.connecting) {
+      this.connecting = this.establish(launch)
+        .catch((error) => {
+          log.warn('ptyHost:unavailable, using in-process PTYs', { error: String(error) });
+          const socket = this.socket;
+          this.socket = null;
+          socket?.destroy();
+          this.unavailable = true;
+          return false;
+        })
+        .finally(() => {
+          this.connecting = null;
+        });
+    }
+    return this.connecting;
+  }
+
+  async spawn(
+    id: string,
+    options: PtyHostSpawnOptions,
+    meta: PtyHostSessionMeta
+  ): Promise<HostedPty> {
+    const session = await this.request({ type: 'spawn', id, options, meta });
+    return this.track(new HostedPty(this, id, meta, session));
+  }
+
+  /**
+   * Pick up a session that kept running while the app was closed. `replay` is
+   * the output produced after `since`, so the terminal can catch up.
+   */
+  async attach(
+    id: string,
+    since: number | null
+  ): Promise<{ pty: HostedPty; replay: string } | null> {
+    const attached = await this.request({ type: 'attach', id, since });
+    if (!attached) return null;
+    const { session, replay } = attached;
+    return { pty: this.track(new HostedPty(this, id, session.meta, session)), replay };
+  }
+
+  list(): Promise<PtyHostSessionInfo[]> {
+    return this.request({ type: 'list' });
+  }
+
+  /** Kill a session whether or not this app instance is attached to it. */
+  async kill(id: string): Promise<void> {
+    await this.request({ type: 'kill', id });
+  }
+
+  /** Stop relaying a PTY without killing it, e.g. when the app quits. */
+  detach(pty: HostedPty): void {
+    if (this.ptys.get(pty.id) === pty) {
+      this.ptys.delete(pty.id);
+    }
+  }
+
+  dispose(): void {
+    this.socket?.destroy();
+  }
+
+  /** @internal */
+  send(message: PtyHostClientMessage): void {
+    if (this.socket) sendMessage(this.socket, message);
+  }
+
+  /** @internal */
+  request<K extends PtyHostRequest['type']>(
+    request: Extract<PtyHostRequest, { type: K }>
+  ): Promise<PtyHostResults[K]> {
+    const socket = this.socket;
+    if (!socket) {
+      return Promise.reject(new Error('PTY host is not connected'));
+    }
+    const reqId = this.nextReqId++;
+    return new Promise<PtyHostResults[K]>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(reqId);
+        reject(new Error(`PTY host did not answer ${request.type}`));
+      }, this.options.requestTimeoutMs ?? 10_000);
+      this.pending.set(reqId, {
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        timer,
+      });
+      sendMessage(socket, { ...request, reqId } as PtyHostClientMessage);
+    });
+  }
+
+  private track(pty: HostedPty): HostedPty {
+    this.ptys.set(pty.id, pty);
+    return pty;
+  }
+
+  private async establish(launch: boolean): Promise<boolean> {
+    const token = (this.options.token ?? readOrCreateToken)();
+    const socketPath = (this.options.socketPath ?? defaultSocketPath)(token);
+    if (process.platform !== 'win32') {
+      ensurePrivateSocketDir(path.dirname(socketPath));
+    }
+    let socket = await tryConnect(socketPath);
+    if (!socket && !launch) return false;
+    if (!socket) {
+      (this.options.launch ?? launchDaemon)(socketPath, token);
+      socket = await this.waitForDaemon(socketPath);
+    }
+    this.attachSocket(socket);
+
+    const hello = await this.request({ type: 'hello', token });
+    if (hello.version === PTY_HOST_PROTOCOL_VERSION) {
+      log.info('ptyHost:connected', { pid: hello.pid, sessions: hello.sessions });
+      return true;
+    }
+    if (hello.sessions > 0) {
+      throw new Error(
+        `PTY host ${hello.pid} speaks protocol ${hello.version} and still has sessions`
+      );
+    }
+
+    // A daemon left over from an older app version with nothing to keep: replace it
+    const closed = new Promise<void>((resolve) => socket!.once('close', () => resolve()));
+    await this.request({ type: 'shutdown' });
+    await closed;
+    return this.establish(launch);
+  }
+
+  private async waitForDaemon(socketPath: string): Promise<net.Socket> {
+    const deadline = Date.now() + (this.options.launchTimeoutMs ?? 5_000);
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, LAUNCH_POLL_MS));
+      const socket = await tryConnect(socketPath);
+      if (socket) return socket;
+    }
+    throw new Error(`PTY host did not start listening on ${socketPath}`);
+  }
+
+  private attachSocket(socket: net.Socket): void {
+    this.socket = socket;
+    onMessages<PtyHostServerMessage>(socket, (message) => this.handleMessage(message));
+    socket.on('error', (error) => {
+      log.warn('ptyHost:socketError', { error: String(error) });
+    });
+    socket.on('close', () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      for (const [reqId, pending] of this.pending) {
+        clearTimeout(pending.timer);
+        pending.reject(new Error('PTY host connection closed'));
+        this.pending.delete(reqId);
+      }
+      // Sessions die with the daemon; a later spawn launches a new one
+      for (const pty of this.ptys.values()) {
+        pty.receiveExit(1);
+      }
+      this.ptys.clear();
+    });
+  }
+
+  private handleMessage(message: PtyHostServerMessage): void {
+    switch (message.type) {
+      case 'response': {
+        const pending = this.pending.get(message.reqId);
+        if (!pending) return;
+        this.pending.delete(message.reqId);
+        clearTimeout(pending.timer);
+        if (message.ok) pending.resolve(message.result);
+        else pending.reject(new Error(message.error));
+        return;
+      }
+      case 'data': {
+        const pty = this.ptys.get(message.id);
+        if (pty?.pid === message.pid) pty.receiveData(message.data, message.offset);
+        return;
+      }
+      case 'exit': {
+        const pty = this.ptys.get(message.id);
+        if (pty?.pid !== message.pid) return;
+        this.ptys.delete(message.id);
+        pty.receiveExit(message.exitCode, message.signal);
+        return;
+      }
+    }
+  }
+}
+
+function tryConnect(socketPath: string): Promise<net.Socket | null> {
+  return new Promise((resolve) => {
+    const socket = net.connect(socketPath);
+    socket.once('connect', () => {
+      socket.removeAllListeners('error');
+      resolve(socket);
+    });
+    socket.once('error', () => resolve(null));
+  });
+}
+
+/** The daemon's secret, created on first use and readable only by the user. */
+function readOrCreateToken(): string {
+  const tokenPath = path.join(app.getPath('userData'), 'pty-host.token');
+  try {
+    const token = fs.readFileSync(tokenPath, 'utf8').trim();
+    if (token) {
+      if (process.platform !== 'win32') fs.chmodSync(tokenPath, 0o600);
+      return token;
+    }
+  } catch {
+    // Not created yet
+  }
+  const token = crypto.randomBytes(32).toString('hex');
+  fs.writeFileSync(tokenPath, token, { mode: 0o600 });
+  return token;
+}
+
+function defaultSocketPath(token: string): string {
+  if (process.platform === 'win32') {
+    // Pipes get a default ACL, so the name carries a secret: no other user can
+    // create it first and pose as the daemon
+    const secret = crypto.createHash('sha256').update(token).digest('hex').slice(0, 16);
+    return `\\\\.\\pipe\\valkyr-pty-host-${os.userInfo().username}-${secret}`;
+  }
+  const socketPath = path.join(app.getPath('userData'), 'pty-host', 'pty-host.sock');
+  // Unix socket paths are limited to ~104 bytes on macOS
+  if (Buffer.byteLength(socketPath) < 100) return socketPath;
+  const hash = crypto.createHash('sha256').update(socketPath).digest('hex').slice(0, 12);
+  return path.join(os.tmpdir(), `valkyr-${os.userInfo().uid}`, `pty-host-${hash}.sock`);
+}
+
+/**
+ * Run the daemon with Electron's own Node (`ELECTRON_RUN_AS_NODE`) so it loads
+ * the node-pty build made for this Electron ABI, detached from the app.
+ */
+function launchDaemon(socketPath: string, token: string): void {
+  const script = path.join(__dirname, '..', '..', 'workers', 'ptyHostDaemon.js');
+  const logFd = fs.openSync(path.join(app.getPath('userData'), 'pty-host.log'), 'a');
+  try {
+    const child = spawn(process.execPath, [script], {
+      detached: true,
+      stdio: ['ignore', logFd, logFd],
+      env: {
+        ...process.env,
+        ELECTRON_RUN_AS_NODE: '1',
+        VALKYR_PTY_HOST_SOCKET: socketPath,
+        VALKYR_PTY_HOST_TOKEN: token,
+      },
+    });
+    child.unref();
+  } finally {
+    fs.closeSync(logFd);
+  }
+}
+
+export const ptyHostClient = new PtyHostClient();
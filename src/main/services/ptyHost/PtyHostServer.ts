@@ -0,0 +1,320 @@
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import type { IPty, IPtyForkOptions } from 'node-pty';
+import { log } from '../../lib/logger';
+import {
+  PTY_HOST_PROTOCOL_VERSION,
+  ensurePrivateSocketDir,
+  onMessages,
+  sendMessage,
+  type PtyHostClientMessage,
+  type PtyHostRequest,
+  type PtyHostResults,
+  type PtyHostSessionInfo,
+  type PtyHostSessionMeta,
+  type PtyHostSpawnOptions,
+} from './protocol';
+
+export type PtySpawn = (file: string, args: string[], options: IPtyForkOptions) => IPty;
+
+export interface PtyHostServerOptions {
+  spawn: PtySpawn;
+  /** Secret a client's `hello` must carry before it may send anything else. */
+  token: string;
+  /** Output kept per session for replay, in UTF-16 code units. */
+  replayLimit?: number;
+  /** Emit `idle` after this long without sessions or clients. */
+  idleTimeoutMs?: number;
+}
+
+const DEFAULT_REPLAY_LIMIT = 1024 * 1024;
+const DEFAULT_IDLE_TIMEOUT_MS = 60_000;
+
+/** Bounded tail of a session's output, addressed by absolute offset. */
+class OutputBuffer {
+  private chunks: string[] = [];
+  private length = 0;
+  /** Offset of the first buffered code unit. */
+  private start = 0;
+
+  constructor(private readonly limit: number) {}
+
+  get end(): number {
+    return this.start + this.length;
+  }
+
+  append(data: string): void {
+    this.chunks.push(data);
+    this.length += data.length;
+    while (this.length > this.limit && this.chunks.length > 1) {
+      const dropped = this.chunks.shift()!;
+      this.length -= dropped.length;
+      this.start += dropped.length;
+    }
+  }
+
+  /** Output after `offset`; everything buffered when the offset is unknown or already dropped. */
+  since(offset: number | null): string {
+    const all = this.chunks.join('');
+    if (offset === null || offset <= this.start) return all;
+    return all.slice(Math.min(offset, this.end) - this.start);
+  }
+}
+
+interface Session {
+  id: string;
+  pty: IPty;
+  meta: PtyHostSessionMeta;
+  output: OutputBuffer;
+  createdAt: string;
+  killed: boolean;
+}
+
+/**
+ * Owns PTYs on behalf of the app so they outlive it. Runs inside the PTY host
+ * daemon; every connected client receives the output and exit of every session.
+ */
+export class PtyHostServer extends EventEmitter {
+  private readonly sessions = new Map<string, Session>();
+  private readonly clients = new Set<net.Socket>();
+  private readonly server: net.Server;
+  private idleTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly options: PtyHostServerOptions) {
+    super();
+    this.server = net.createServer((socket) => this.handleConnection(socket));
+  }
+
+  async listen(socketPath: string): Promise<void> {
+    if (process.platform !== 'win32' && fs.existsSync(socketPath)) {
+      if (await canConnect(socketPath)) {
+        throw new Error(`PTY host already listening on ${socketPath}`);
+      }
+      // Left behind by a daemon that did not shut down cleanly
+      fs.unlinkSync(socketPath);
+    }
+    if (process.platform !== 'win32') {
+      ensurePrivateSocketDir(path.dirname(socketPath));
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(socketPath, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    if (process.platform !== 'win32') {
+      fs.chmodSync(socketPath, 0o600);
+    }
+    this.scheduleIdleCheck();
+  }
+
+  /** Kill all sessions and stop listening. */
+  close(): Promise<void> {
+    this.clearIdleTimer();
+    for (const session of this.sessions.values()) {
+      killSession(session);
+    }
+    this.sessions.clear();
+    for (const client of this.clients) {
+      client.end();
+    }
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    let authenticated = false;
+    socket.on('close', () => {
+      if (this.clients.delete(socket)) this.scheduleIdleCheck();
+    });
+    socket.on('error', () => {
+      /* client went away */
+    });
+
+    onMessages<PtyHostClientMessage>(socket, (message) => {
+      if (!authenticated) {
+        // Nothing is accepted from or relayed to a client until it proves it holds the token
+        if (message.type !== 'hello' || !this.isValidToken(message.token)) {
+          log.warn('ptyHost:rejectedClient');
+          socket.destroy();
+          return;
+        }
+        authenticated = true;
+        this.clients.add(socket);
+        this.clearIdleTimer();
+      }
+      switch (message.type) {
+        case 'write':
+          this.sessions.get(message.id)?.pty.write(message.data);
+          return;
+        case 'resize':
+          this.resize(message.id, message.cols, message.rows);
+          return;
+        default: {
+          const { reqId } = message;
+          try {
+            const result = this.handleRequest(message);
+            sendMessage(socket, { type: 'response', reqId, ok: true, result });
+          } catch (error) {
+            const text = error instanceof Error ? error.message : String(error);
+            sendMessage(socket, { type: 'response', reqId, ok: false, error: text });
+          }
+          if (message.type === 'shutdown') {
+            void this.close().then(() => this.emit('idle'));
+          }
+        }
+      }
+    });
+  }
+
+  private isValidToken(token: unknown): boolean {
+    if (typeof token !== 'string') return false;
+    const expected = Buffer.from(this.options.token);
+    const actual = Buffer.from(token);
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+
+  private handleRequest(request: PtyHostRequest): PtyHostResults[PtyHostRequest['type']] {
+    switch (request.type) {
+      case 'hello':
+        return {
+          version: PTY_HOST_PROTOCOL_VERSION,
+          pid: process.pid,
+          sessions: this.sessions.size,
+        };
+      case 'spawn':
+        return this.spawn(request.id, request.options, request.meta);
+      case 'attach': {
+        const session = this.sessions.get(request.id);
+        if (!session || session.killed) return null;
+        return { session: describe(session), replay: session.output.since(request.since) };
+      }
+      case 'list':
+        return [...this.sessions.values()].filter((s) => !s.killed).map(describe);
+      case 'kill': {
+        const session = this.sessions.get(request.id);
+        if (session) killSession(session, request.signal);
+        return null;
+      }
+      case 'shutdown':
+        return null;
+    }
+  }
+
+  private spawn(
+    id: string,
+    options: PtyHostSpawnOptions,
+    meta: PtyHostSessionMeta
+  ): PtyHostSessionInfo {
+    const existing = this.sessions.get(id);
+    if (existing && !existing.killed) {
+      throw new Error(`PTY ${id} is already running`);
+    }
+
+    const pty = this.options.spawn(options.file, options.args, {
+      name: 'xterm-256color',
+      cols: options.cols,
+      rows: options.rows,
+      cwd: options.cwd,
+      env: options.env,
+    });
+    const session: Session = {
+      id,
+      pty,
+      meta,
+      output: new OutputBuffer(this.options.replayLimit ?? DEFAULT_REPLAY_LIMIT),
+      createdAt: new Date().toISOString(),
+      killed: false,
+    };
+    this.sessions.set(id, session);
+    this.clearIdleTimer();
+
+    pty.onData((data) => {
+      session.output.append(data);
+      this.broadcast({ type: 'data', id, pid: pty.pid, data, offset: session.output.end });
+    });
+    pty.onExit(({ exitCode, signal }) => {
+      if (this.sessions.get(id) === session) {
+        this.sessions.delete(id);
+      }
+      this.broadcast({ type: 'exit', id, pid: pty.pid, exitCode, signal });
+      this.scheduleIdleCheck();
+    });
+
+    log.info('ptyHost:spawned', { id, pid: pty.pid, file: options.file });
+    return describe(session);
+  }
+
+  private resize(id: string, cols: number, rows: number): void {
+    try {
+      this.sessions.get(id)?.pty.resize(cols, rows);
+    } catch {
+      // PTY already exited
+    }
+  }
+
+  private broadcast(message: Parameters<typeof sendMessage>[1]): void {
+    for (const client of this.clients) {
+      sendMessage(client, message);
+    }
+  }
+
+  private scheduleIdleCheck(): void {
+    this.clearIdleTimer();
+    if (this.sessions.size > 0 || this.clients.size > 0) return;
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      if (this.sessions.size === 0 && this.clients.size === 0) {
+        this.emit('idle');
+      }
+    }, this.options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS);
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
+
+function describe(session: Session): PtyHostSessionInfo {
+  return {
+    id: session.id,
+    pid: session.pty.pid,
+    process: session.pty.process,
+    cols: session.pty.cols,
+    rows: session.pty.rows,
+    meta: session.meta,
+    offset: session.output.end,
+    createdAt: session.createdAt,
+  };
+}
+
+function killSession(session: Session, signal?: string): void {
+  session.killed = true;
+  try {
+    session.pty.kill(signal);
+  } catch {
+    try {
+      session.pty.kill('SIGKILL');
+    } catch {
+      // Process may already be dead
+    }
+  }
+}
+
+function canConnect(socketPath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect(socketPath);
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('error', () => resolve(false));
+  });
+}
@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { IPty } from 'node-pty';
+import { PtyHostServer } from '../PtyHostServer';
+import { PtyHostClient } from '../PtyHostClient';
+
+vi.mock('electron', () => ({
+  app: { getPath: () => os.tmpdir() },
+}));
+
+vi.mock('../../../lib/logger', () => ({
+  log: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+let nextPid = 1000;
+const TOKEN = 'test-token';
+
+/** Stand-in for a node-pty process that echoes its input. */
+class FakePty {
+  readonly pid = nextPid++;
+  readonly process = 'bash';
+  cols: number;
+  rows: number;
+  private readonly events = new EventEmitter();
+
+  constructor(cols: number, rows: number) {
+    this.cols = cols;
+    this.rows = rows;
+  }
+
+  onData = (listener: (data: string) => void) => {
+    this.events.on('data', listener);
+    return { dispose: () => this.events.off('data', listener) };
+  };
+
+  onExit = (listener: (e: { exitCode: number; signal?: number }) => void) => {
+    this.events.on('exit', listener);
+    return { dispose: () => this.events.off('exit', listener) };
+  };
+
+  write(data: string) {
+    this.emitData(data);
+  }
+
+  resize(cols: number, rows: number) {
+    this.cols = cols;
+    this.rows = rows;
+  }
+
+  kill() {
+    setImmediate(() => this.events.emit('exit', { exitCode: 0, signal: 15 }));
+  }
+
+  emitData(data: string) {
+    this.events.emit('data', data);
+  }
+}
+
+const spawnOptions = { file: '/bin/bash', args: [], cwd: '/tmp', env: {}, cols: 80, rows: 24 };
+
+function nextEvent<T>(subscribe: (listener: (e: T) => void) => unknown): Promise<T> {
+  return new Promise((resolve) => subscribe(resolve));
+}
+
+describe('PtyHostServer', () => {
+  let tempDir: string;
+  let socketPath: string;
+  let spawned: FakePty[];
+  let server: PtyHostServer;
+  const clients: PtyHostClient[] = [];
+
+  async function startServer(options: { replayLimit?: number; idleTimeoutMs?: number } = {}) {
+    server = new PtyHostServer({
+      ...options,
+      token: TOKEN,
+      spawn: (_file, _args, opts) => {
+        const pty = new FakePty(opts.cols ?? 80, opts.rows ?? 24);
+        spawned.push(pty);
+        return pty as unknown as IPty;
+      },
+    });
+    await server.listen(socketPath);
+  }
+
+  async function connectClient(): Promise<PtyHostClient> {
+    const client = new PtyHostClient({ socketPath: () => socketPath, token: () => TOKEN });
+    clients.push(client);
+    await expect(client.connect({ launch: false })).resolves.toBe(true);
+    return client;
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pty-host-test-'));
+    socketPath = path.join(tempDir, 'sockets', 'pty-host.sock');
+    spawned = [];
+  });
+
+  afterEach(async () => {
+    clients.splice(0).forEach((client) => client.dispose());
+    await server?.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('relays output and input of spawned sessions', async () => {
+    await startServer();
+    const client = await connectClient();
+
+    const pty = await client.spawn('task-1', spawnOptions, { kind: 'local', taskId: 't1' });
+    expect(pty.pid).toBe(spawned[0].pid);
+
+    const data = nextEvent<string>(pty.onData);
+    pty.write('echo hi');
+    await expect(data).resolves.toBe('echo hi');
+    expect(pty.offset).toBe('echo hi'.length);
+
+    await expect(client.list()).resolves.toEqual([
+      expect.objectContaining({ id: 'task-1', meta: { kind: 'local', taskId: 't1' }, offset: 7 }),
+    ]);
+    await expect(client.spawn('task-1', spawnOptions, { kind: 'local' })).rejects.toThrow(
+      'PTY task-1 is already running'
+    );
+  });
+
+  it('replays output missed while no client was attached', async () => {
+    await startServer();
+    const first = await connectClient();
+    const pty = await first.spawn('task-1', spawnOptions, { kind: 'local' });
+    const seen = nextEvent<string>(pty.onData);
+    spawned[0].emitData('seen ');
+    await seen;
+    const flushed = pty.offset;
+    first.dispose();
+
+    // Output produced while the app is closed
+    spawned[0].emitData('missed');
+
+    const second = await connectClient();
+    const attached = await second.attach('task-1', flushed);
+    expect(attached?.replay).toBe('missed');
+    expect(attached?.pty.offset).toBe('seen missed'.length);
+
+    const full = await second.attach('task-1', null);
+    expect(full?.replay).toBe('seen missed');
+    await expect(second.attach('unknown', null)).resolves.toBeNull();
+  });
+
+  it('keeps only the tail of the output for replay', async () => {
+    await startServer({ replayLimit: 10 });
+    const client = await connectClient();
+    await client.spawn('task-1', spawnOptions, { kind: 'local' });
+    for (const chunk of ['aaaa', 'bbbb', 'cccc']) {
+      spawned[0].emitData(chunk);
+    }
+
+    const attached = await client.attach('task-1', 2);
+    // The first chunk was dropped, so the stale offset replays all that is left
+    expect(attached?.replay).toBe('bbbbcccc');
+    expect(attached?.pty.offset).toBe(12);
+  });
+
+  it('reports exit of killed sessions and forgets them', async () => {
+    await startServer();
+    const client = await connectClient();
+    const pty = await client.spawn('task-1', spawnOptions, { kind: 'local' });
+
+    const exit = nextEvent<{ exitCode: number }>(pty.onExit);
+    await client.kill('task-1');
+    await expect(exit).resolves.toMatchObject({ exitCode: 0 });
+    await expect(client.list()).resolves.toEqual([]);
+    await expect(client.attach('task-1', null)).resolves.toBeNull();
+  });
+
+  it('emits idle once it has neither sessions nor clients', async () => {
+    await startServer({ idleTimeoutMs: 20 });
+    const client = await connectClient();
+    const idle = vi.fn();
+    server.on('idle', idle);
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(idle).not.toHaveBeenCalled();
+
+    client.dispose();
+    await nextEvent(server.once.bind(server, 'idle'));
+    expect(idle).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses to take over a socket another host is listening on', async () => {
+    await startServer();
+    const other = new PtyHostServer({
+      token: TOKEN,
+      spawn: () => new FakePty(80, 24) as unknown as IPty,
+    });
+    await expect(other.listen(socketPath)).rejects.toThrow('already listening');
+  });
+
+  it('keeps the socket in a directory only the user can enter', async () => {
+    await startServer();
+
+    expect(fs.statSync(path.dirname(socketPath)).mode & 0o777).toBe(0o700);
+    expect(fs.statSync(socketPath).mode & 0o777).toBe(0o600);
+  });
+
+  it('drops clients without the token before relaying anything', async () => {
+    await startServer();
+    const owner = await connectClient();
+    await owner.spawn('task-1', spawnOptions, { kind: 'local' });
+
+    const intruder = new PtyHostClient({ socketPath: () => socketPath, token: () => 'guess' });
+    clients.push(intruder);
+    await expect(intruder.connect({ launch: false })).resolves.toBe(false);
+    await expect(owner.list()).resolves.toHaveLength(1);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Wire protocol between the app and the PTY host daemon.
+ *
+ * Messages are newline-delimited JSON over a Unix socket (a named pipe on
+ * Windows). Requests carry a `reqId` and get exactly one response; input,
+ * resize, output and exit notifications are fire-and-forget.
+ *
+ * Spawn requests carry full environments and sessions relay terminal I/O, so
+ * the socket sits in a directory only the user can enter, and a client must
+ * open with a `hello` holding the daemon's token before anything else.
+ */
+
+import fs from 'fs';
+import type { Socket } from 'net';
+
+/** Bump whenever messages change incompatibly; the app only talks to a daemon on the same version. */
+export const PTY_HOST_PROTOCOL_VERSION = 2;
+
+export interface PtyHostSpawnOptions {
+  file: string;
+  args: string[];
+  cwd: string;
+  env: Record<string, string>;
+  cols: number;
+  rows: number;
+}
+
+/** What the app needs to pick a session back up after a restart. */
+export interface PtyHostSessionMeta {
+  kind: 'local' | 'ssh';
+  cwd?: string;
+  isDirectSpawn?: boolean;
+  /** Task whose worktree the PTY runs in; used to collect PTYs of deleted or archived tasks. */
+  taskId?: string;
+}
+
+export interface PtyHostSessionInfo {
+  id: string;
+  pid: number;
+  /** Base name of the spawned file, like `IPty.process`. */
+  process: string;
+  cols: number;
+  rows: number;
+  meta: PtyHostSessionMeta;
+  /** Output produced so far, in UTF-16 code units. */
+  offset: number;
+  createdAt: string;
+}
+
+export type PtyHostRequest =
+  | { type: 'hello'; token: string }
+  | { type: 'spawn'; id: string; options: PtyHostSpawnOptions; meta: PtyHostSessionMeta }
+  | { type: 'attach'; id: string; since: number | null }
+  | { type: 'list' }
+  | { type: 'kill'; id: string; signal?: string }
+  | { type: 'shutdown' };
+
+export interface PtyHostResults {
+  hello: { version: number; pid: number; sessions: number };
+  spawn: PtyHostSessionInfo;
+  /** Null when no live session has the id. Replay is the output after `since`, or all that is buffered. */
+  attach: { session: PtyHostSessionInfo; replay: string } | null;
+  list: PtyHostSessionInfo[];
+  kill: null;
+  shutdown: null;
+}
+
+export type PtyHostClientMessage =
+  | (PtyHostRequest & { reqId: number })
+  | { type: 'write'; id: string; data: string }
+  | { type: 'resize'; id: string; cols: number; rows: number };
+
+export type PtyHostServerMessage =
+  | { type: 'response'; reqId: number; ok: true; result: unknown }
+  | { type: 'response'; reqId: number; ok: false; error: string }
+  /** `offset` is the session's output offset after this chunk. */
+  | { type: 'data'; id: string; pid: number; data: string; offset: number }
+  | { type: 'exit'; id: string; pid: number; exitCode: number; signal?: number };
+
+export function sendMessage(
+  socket: Socket,
+  message: PtyHostClientMessage | PtyHostServerMessage
+): void {
+  if (socket.destroyed || !socket.writable) return;
+  socket.write(`${JSON.stringify(message)}\n`);
+}
+
+/** Decode newline-delimited JSON from a socket; malformed lines are dropped. */
+export function onMessages<T>(socket: Socket, listener: (message: T) => void): void {
+  let pending = '';
+  socket.setEncoding('utf8');
+  socket.on('data', (chunk: string) => {
+    pending += chunk;
+    for (;;) {
+      const newline = pending.indexOf('\n');
+      if (newline === -1) return;
+      const line = pending.slice(0, newline);
+      pending = pending.slice(newline + 1);
+      if (!line) continue;
+      let message: T;
+      try {
+        message = JSON.parse(line) as T;
+      } catch {
+        continue;
+      }
+      listener(message);
+    }
+  });
+}
+
+/**
+ * Create the directory holding the socket, accessible only to the current
+ * user. Refuses a symlink or a directory owned by someone else, which could
+ * let another user listen in place of the daemon.
+ */
+export function ensurePrivateSocketDir(dir: string): void {
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const stat = fs.lstatSync(dir);
+  if (!stat.isDirectory() || (process.getuid && stat.uid !== process.getuid())) {
+    throw new Error(`PTY host socket directory ${dir} is not owned by the current user`);
+  }
+  if ((stat.mode & 0o077) !== 0) {
+    fs.chmodSync(dir, 0o700);
+  }
+}
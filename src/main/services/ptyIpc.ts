@@ -11,6 +11,9 @@ import {
   startSshPty,
   removePtyRecord,
   setOnDirectCliExit,
+  attachPty,
+  releasePty,
+  getPtyOutputOffset,
 } from './ptyManager';
 import { log } from '../lib/logger';
 import { providerStatusCache } from './providerStatusCache';
@@ -19,13 +22,21 @@ import { errorTracking } from '../errorTracking';
 import type { TerminalSnapshotPayload } from '../types/terminalSnapshot';
 import { getAppSettings } from '../settings';
 import * as telemetry from '../telemetry';
-import { PROVIDER_IDS, getProvider, type ProviderId } from '../../shared/providers/registry';
+import {
+  getProvider,
+  isValidProviderId,
+  listProviders,
+  type ProviderId,
+} from '../../shared/providers/registry';
+import { isCustomProviderId } from '../../shared/providers/customAgents';
+import { customAgentService } from './CustomAgentService';
 import { detectAndLoadTerminalConfig } from './TerminalConfigParser';
 import { getStoredProviderKeys } from '../ipc/settingsIpc';
 import { databaseService } from './DatabaseService';
 import { getDrizzleClient } from '../db/drizzleClient';
 import { sshConnections as sshConnectionsTable } from '../db/schema';
 import { eq } from 'drizzle-orm';
+import type { IPty } from 'node-pty';
 
 const owners = new Map<string, WebContents>();
 const listeners = new Set<string>();
@@ -44,6 +55,8 @@ type FinishCause = 'process_exit' | 'app_quit' | 'owner_destroyed' | 'manual_kil
 const ptyDataBuffers = new Map<string, string>();
 const ptyDataTimers = new Map<string, NodeJS.Timeout>();
 const PTY_DATA_FLUSH_MS = 16;
+// Output offset of hosted PTYs up to which data has reached the renderer
+const ptyFlushedOffsets = new Map<string, number>();
 
 // Guard IPC sends to prevent crashes when WebContents is destroyed
 function safeSendToOwner(id: string, channel: string, payload: unknown): boolean {
@@ -63,7 +76,10 @@ function flushPtyData(id: string): void {
   const buf = ptyDataBuffers.get(id);
   if (!buf) return;
   ptyDataBuffers.delete(id);
-  safeSendToOwner(id, `pty:data:${id}`, buf);
+  if (safeSendToOwner(id, `pty:data:${id}`, buf)) {
+    const offset = getPtyOutputOffset(id);
+    if (offset !== undefined) ptyFlushedOffsets.set(id, offset);
+  }
 }
 
 function clearPtyData(id: string): void {
@@ -112,6 +128,20 @@ function bufferedSendPtyData(id: string, chunk: string): void {
   ptyDataTimers.set(id, t);
 }
 
+/**
+ * Reconnect to a PTY that kept running in the host daemon while the app was
+ * closed, replaying the output its last terminal snapshot does not contain.
+ */
+async function reattachPty(id: string): Promise<{ proc: IPty; replay: string } | null> {
+  try {
+    const snapshot = await terminalSnapshotService.getSnapshot(id);
+    return await attachPty(id, snapshot?.outputOffset ?? null);
+  } catch (error) {
+    log.warn('ptyIpc: failed to reattach PTY', { id, error: String(error) });
+    return null;
+  }
+}
+
 function quoteShellArg(arg: string): string {
   return /[\s'"\\$`\n\r\t]/.test(arg) ? `'${arg.replace(/'/g, "'\\''")}'` : arg;
 }
@@ -209,12 +239,14 @@ async function resolveSshInvocation(
 
 function buildRemoteProviderInvocation(args: {
   providerId: string;
+  /** Project path custom agents are resolved for. */
+  cwd: string;
   autoApprove?: boolean;
   initialPrompt?: string;
   resume?: boolean;
 }): { cli: string; cmd: string; installCommand?: string } {
-  const { providerId, autoApprove, initialPrompt, resume } = args;
-  const provider = getProvider(providerId as ProviderId);
+  const { providerId, cwd, autoApprove, initialPrompt, resume } = args;
+  const provider = getProvider(providerId as ProviderId, cwd);
 
   const cliArgs: string[] = [];
   if (provider?.resumeFlag && resume) {
@@ -322,7 +354,9 @@ export function registerPtyIpc(): void {
       try {
         const { id, cwd, remote, shell, env, cols, rows, autoApprove, initialPrompt, skipResume } =
           args;
-        const existing = getPty(id);
+        const attached = getPty(id) ? null : await reattachPty(id);
+        let existing = attached?.proc ?? getPty(id);
+        const reattached = attached ? { reused: true, replay: attached.replay } : {};
 
         // Remote PTY routing: run an interactive ssh session in a local PTY.
         if (remote?.connectionId) {
@@ -332,26 +366,32 @@ export function registerPtyIpc(): void {
           if (existing) {
             const kind = getPtyKind(id);
             if (kind === 'ssh') {
-              return { ok: true, reused: true };
+              if (!attached) return { ok: true, reused: true };
+            } else {
+              // Replace an existing local PTY with an SSH-backed PTY.
+              try {
+                killPty(id);
+              } catch {}
+              listeners.delete(id);
+              existing = undefined;
             }
-            // Replace an existing local PTY with an SSH-backed PTY.
-            try {
-              killPty(id);
-            } catch {}
-            listeners.delete(id);
           }
 
-          const ssh = await resolveSshInvocation(remote.connectionId);
-          const remoteInitCommand = buildRemoteInitCommand({ cwd });
-          const proc = startSshPty({
-            id,
-            target: ssh.target,
-            sshArgs: ssh.args,
-            remoteInitCommand,
-            cols,
-            rows,
-            env,
-          });
+          let proc = existing;
+          if (!proc) {
+            const ssh = await resolveSshInvocation(remote.connectionId);
+            const remoteInitCommand = buildRemoteInitCommand({ cwd });
+            proc = await startSshPty({
+              id,
+              target: ssh.target,
+              sshArgs: ssh.args,
+              remoteInitCommand,
+              remoteCwd: cwd,
+              cols,
+              rows,
+              env,
+            });
+          }
 
           if (!listeners.has(id)) {
             proc.onData((data) => {
@@ -370,7 +410,7 @@ export function registerPtyIpc(): void {
 
           broadcastToAllWindows('pty:started', { id });
 
-          return { ok: true };
+          return { ok: true, ...reattached };
         }
 
         // Determine if we should skip resume
@@ -510,7 +550,8 @@ export function registerPtyIpc(): void {
                     undefined,
                     isAppQuitting ? 'app_quit' : 'owner_destroyed'
                   );
-                  killPty(ptyId);
+                  if (isAppQuitting) releasePty(ptyId);
+                  else killPty(ptyId);
                 } catch {}
                 owners.delete(ptyId);
                 listeners.delete(ptyId);
@@ -526,7 +567,7 @@ export function registerPtyIpc(): void {
         // Signal that PTY is ready
         broadcastToAllWindows('pty:started', { id });
 
-        return { ok: true };
+        return { ok: true, ...reattached };
       } catch (err: any) {
         log.error('pty:start FAIL', {
           id: args.id,
@@ -609,7 +650,11 @@ export function registerPtyIpc(): void {
     'pty:snapshot:save',
     async (_event, args: { id: string; payload: TerminalSnapshotPayload }) => {
       const { id, payload } = args;
-      const result = await terminalSnapshotService.saveSnapshot(id, payload);
+      const outputOffset = ptyFlushedOffsets.get(id);
+      const result = await terminalSnapshotService.saveSnapshot(
+        id,
+        outputOffset === undefined ? payload : { ...payload, outputOffset }
+      );
       if (!result.ok) {
         log.warn('pty:snapshot:save failed', { id, error: result.error });
       }
@@ -659,9 +704,17 @@ export function registerPtyIpc(): void {
       }
 
       try {
-        const { id, providerId, cwd, remote, cols, rows, autoApprove, initialPrompt, env, resume } =
+        const { id, providerId, cwd, remote, cols, rows, autoApprove, initialPrompt, resume } =
           args;
-        const existing = getPty(id);
+        // Project agents live in .valkyr.json; re-read it so the agent is the one this project defines
+        if (isCustomProviderId(providerId)) {
+          await customAgentService.refresh(cwd);
+        }
+        const providerEnv = getProvider(providerId as ProviderId, cwd)?.env;
+        const env = providerEnv ? { ...providerEnv, ...args.env } : args.env;
+        const attached = getPty(id) ? null : await reattachPty(id);
+        let existing = attached?.proc ?? getPty(id);
+        const reattached = attached ? { reused: true, replay: attached.replay } : {};
 
         if (remote?.connectionId) {
           const wc = event.sender;
@@ -670,35 +723,42 @@ export function registerPtyIpc(): void {
           if (existing) {
             const kind = getPtyKind(id);
             if (kind === 'ssh') {
-              return { ok: true, reused: true };
+              if (!attached) return { ok: true, reused: true };
+            } else {
+              try {
+                killPty(id);
+              } catch {}
+              listeners.delete(id);
+              existing = undefined;
             }
-            try {
-              killPty(id);
-            } catch {}
-            listeners.delete(id);
           }
 
-          const ssh = await resolveSshInvocation(remote.connectionId);
-          const remoteProvider = buildRemoteProviderInvocation({
-            providerId,
-            autoApprove,
-            initialPrompt,
-            resume,
-          });
-          const remoteInitCommand = buildRemoteInitCommand({
-            cwd,
-            provider: remoteProvider,
-          });
+          let proc = existing;
+          if (!proc) {
+            const ssh = await resolveSshInvocation(remote.connectionId);
+            const remoteProvider = buildRemoteProviderInvocation({
+              providerId,
+              cwd,
+              autoApprove,
+              initialPrompt,
+              resume,
+            });
+            const remoteInitCommand = buildRemoteInitCommand({
+              cwd,
+              provider: remoteProvider,
+            });
 
-          const proc = startSshPty({
-            id,
-            target: ssh.target,
-            sshArgs: ssh.args,
-            remoteInitCommand,
-            cols,
-            rows,
-            env,
-          });
+            proc = await startSshPty({
+              id,
+              target: ssh.target,
+              sshArgs: ssh.args,
+              remoteInitCommand,
+              remoteCwd: cwd,
+              cols,
+              rows,
+              env,
+            });
+          }
 
           if (!listeners.has(id)) {
             proc.onData((data) => {
@@ -719,10 +779,10 @@ export function registerPtyIpc(): void {
           maybeMarkProviderStart(id);
           broadcastToAllWindows('pty:started', { id });
 
-          return { ok: true };
+          return { ok: true, ...reattached };
         }
 
-        if (existing) {
+        if (existing && !attached) {
           const wc = event.sender;
           owners.set(id, wc);
           // Still track agent start even when reusing PTY (happens after shell respawn)
@@ -730,27 +790,30 @@ export function registerPtyIpc(): void {
           return { ok: true, reused: true };
         }
 
-        // Load stored provider API keys from keytar for injection into agent env
-        const storedKeys = await getStoredProviderKeys();
-
-        let proc = startDirectPty({
-          id,
-          providerId,
-          cwd,
-          cols,
-          rows,
-          autoApprove,
-          initialPrompt,
-          env,
-          resume,
-          storedKeys,
-        });
+        let proc = existing ?? null;
+        if (!proc) {
+          // Load stored provider API keys from keytar for injection into agent env
+          const storedKeys = await getStoredProviderKeys();
+
+          proc = await startDirectPty({
+            id,
+            providerId,
+            cwd,
+            cols,
+            rows,
+            autoApprove,
+            initialPrompt,
+            env,
+            resume,
+            storedKeys,
+          });
+        }
 
         // Fallback to shell-based spawn if direct spawn fails (CLI not in cache)
         // Track fallback so we know to clean up owners on exit (no shell respawn for fallback)
         let usedFallback = false;
         if (!proc) {
-          const provider = getProvider(providerId as ProviderId);
+          const provider = getProvider(providerId as ProviderId, cwd);
           if (!provider?.cli) {
             return { ok: false, error: `CLI path not found for provider: ${providerId}` };
           }
@@ -812,7 +875,8 @@ export function registerPtyIpc(): void {
                     undefined,
                     isAppQuitting ? 'app_quit' : 'owner_destroyed'
                   );
-                  killPty(ptyId);
+                  if (isAppQuitting) releasePty(ptyId);
+                  else killPty(ptyId);
                 } catch {}
                 owners.delete(ptyId);
                 listeners.delete(ptyId);
@@ -824,7 +888,7 @@ export function registerPtyIpc(): void {
         maybeMarkProviderStart(id, providerId as ProviderId);
         broadcastToAllWindows('pty:started', { id });
 
-        return { ok: true };
+        return { ok: true, ...reattached };
       } catch (err: any) {
         log.error('pty:startDirect FAIL', { id: args.id, error: err?.message || err });
         return { ok: false, error: String(err?.message || err) };
@@ -835,13 +899,9 @@ export function registerPtyIpc(): void {
   // ── Provider CLI detection ──────────────────────────────────────────
   ipcMain.handle(
     'provider:getStatuses',
-    async (
-      _event,
-      opts?: { refresh?: boolean; providers?: string[]; providerId?: string }
-    ) => {
+    async (_event, opts?: { refresh?: boolean; providers?: string[]; providerId?: string }) => {
       try {
         const { execFile } = await import('child_process');
-        const { PROVIDERS } = await import('../../shared/providers/registry');
 
         const checkCmd = (cmd: string): Promise<string | null> =>
           new Promise((resolve) => {
@@ -857,12 +917,12 @@ export function registerPtyIpc(): void {
             });
           });
 
-        const targetIds = opts?.providers
-          ?? (opts?.providerId ? [opts.providerId] : undefined);
+        const targetIds = opts?.providers ?? (opts?.providerId ? [opts.providerId] : undefined);
 
+        const allProviders = listProviders();
         const providers = targetIds
-          ? PROVIDERS.filter((p) => targetIds.includes(p.id))
-          : PROVIDERS;
+          ? allProviders.filter((p) => targetIds.includes(p.id))
+          : allProviders;
 
         const cached = providerStatusCache.getAll();
         const statuses: Record<string, any> = { ...cached };
@@ -928,7 +988,7 @@ function parseProviderPty(id: string): {
   if (!match) return null;
 
   const providerId = match[1] as ProviderId;
-  if (!PROVIDER_IDS.includes(providerId)) return null;
+  if (!isValidProviderId(providerId)) return null;
 
   const taskId = match[2]; // This is either taskId or conversationId
   return { providerId, taskId };
@@ -942,7 +1002,7 @@ function maybeMarkProviderStart(id: string, providerId?: ProviderId) {
   finalizedPtys.delete(id);
 
   // First check if we have a direct provider ID (for multi-agent mode)
-  if (providerId && PROVIDER_IDS.includes(providerId)) {
+  if (providerId && isValidProviderId(providerId)) {
     ptyProviderMap.set(id, providerId);
     const key = `${providerId}:${id}`;
     if (providerPtyTimers.has(key)) return;
@@ -1046,7 +1106,7 @@ function showCompletionNotification(providerName: string) {
   }
 }
 
-// Kill all PTYs on app shutdown to prevent crash loop
+// Release all PTYs on app shutdown to prevent crash loop; hosted ones keep running for the next launch
 try {
   app.on('before-quit', () => {
     isAppQuitting = true;
@@ -1054,7 +1114,7 @@ try {
       try {
         // Ensure telemetry timers are cleared on app quit
         maybeMarkProviderFinish(id, null, undefined, 'app_quit');
-        killPty(id);
+        releasePty(id);
       } catch {}
     }
     owners.clear();
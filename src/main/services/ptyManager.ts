@@ -3,9 +3,12 @@ import fs from 'fs';
 import path from 'path';
 import type { IPty } from 'node-pty';
 import { log } from '../lib/logger';
-import { PROVIDERS } from '@shared/providers/registry';
+import { getProvider, listProviders, type ProviderId } from '@shared/providers/registry';
 import { providerStatusCache } from './providerStatusCache';
 import { errorTracking } from '../errorTracking';
+import { databaseService } from './DatabaseService';
+import { HostedPty, ptyHostClient } from './ptyHost/PtyHostClient';
+import type { PtyHostSessionMeta } from './ptyHost/protocol';
 
 /**
  * Environment variables to pass through for agent authentication.
@@ -62,6 +65,53 @@ export function setOnDirectCliExit(callback: (id: string, cwd: string) => void):
   onDirectCliExitCallback = callback;
 }
 
+function loadNodePty(): typeof import('node-pty') {
+  // Lazy load native module at call time to prevent startup crashes
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require('node-pty');
+  } catch (e: any) {
+    throw new Error(`PTY unavailable: ${e?.message || String(e)}`);
+  }
+}
+
+async function resolveTaskId(cwd: string | undefined): Promise<string | undefined> {
+  if (!cwd) return undefined;
+  try {
+    return (await databaseService.getTaskByPath(cwd))?.id;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Spawn in the PTY host daemon so the process survives app restarts, or in
+ * this process when the daemon is unavailable.
+ */
+async function spawnProcess(
+  id: string,
+  file: string,
+  args: string[],
+  options: { cols: number; rows: number; cwd: string; env: Record<string, string> },
+  meta: Omit<PtyHostSessionMeta, 'taskId'>
+): Promise<IPty> {
+  if (await ptyHostClient.connect()) {
+    const taskId = await resolveTaskId(meta.cwd);
+    return ptyHostClient.spawn(id, { file, args, ...options }, { ...meta, taskId });
+  }
+  return loadNodePty().spawn(file, args, { name: 'xterm-256color', ...options });
+}
+
+/** When a direct-spawned CLI exits, let ptyIpc spawn a shell so the user can continue working. */
+function respawnShellOnExit(id: string, proc: IPty): void {
+  proc.onExit(() => {
+    const rec = ptys.get(id);
+    if (rec?.proc === proc && rec.isDirectSpawn && rec.cwd && onDirectCliExitCallback) {
+      onDirectCliExitCallback(id, rec.cwd);
+    }
+  });
+}
+
 function escapeShSingleQuoted(value: string): string {
   // Safe for embedding into a single-quoted POSIX shell string.
   return `'${value.replace(/'/g, "'\\''")}'`;
@@ -73,28 +123,30 @@ function escapeShSingleQuoted(value: string): string {
  * This uses the system `ssh` binary so user SSH config features (e.g. ProxyJump,
  * UseKeychain on macOS) work as expected.
  */
-export function startSshPty(options: {
+export async function startSshPty(options: {
   id: string;
   target: string; // alias or user@host
   sshArgs?: string[]; // extra ssh args like -p, -i
   remoteInitCommand?: string; // if provided, executed by remote shell
+  remoteCwd?: string; // working directory on the remote host, used to find the owning task
   cols?: number;
   rows?: number;
   env?: Record<string, string>;
-}): IPty {
+}): Promise<IPty> {
   if (process.env.VALKYR_DISABLE_PTY === '1') {
     throw new Error('PTY disabled via VALKYR_DISABLE_PTY=1');
   }
 
-  const { id, target, sshArgs = [], remoteInitCommand, cols = 120, rows = 32, env } = options;
-
-  // Lazy load native module
-  let pty: typeof import('node-pty');
-  try {
-    pty = require('node-pty');
-  } catch (e: any) {
-    throw new Error(`PTY unavailable: ${e?.message || String(e)}`);
-  }
+  const {
+    id,
+    target,
+    sshArgs = [],
+    remoteInitCommand,
+    remoteCwd,
+    cols = 120,
+    rows = 32,
+    env,
+  } = options;
 
   // Build a minimal environment; include SSH_AUTH_SOCK so agent works.
   const useEnv: Record<string, string> = {
@@ -130,13 +182,13 @@ export function startSshPty(options: {
     args.push(remoteInitCommand);
   }
 
-  const proc = pty.spawn('ssh', args, {
-    name: 'xterm-256color',
-    cols,
-    rows,
-    cwd: process.env.HOME || os.homedir(),
-    env: useEnv,
-  });
+  const proc = await spawnProcess(
+    id,
+    'ssh',
+    args,
+    { cols, rows, cwd: process.env.HOME || os.homedir(), env: useEnv },
+    { kind: 'ssh', cwd: remoteCwd }
+  );
 
   ptys.set(id, { id, proc, kind: 'ssh' });
   return proc;
@@ -148,7 +200,7 @@ export function startSshPty(options: {
  *
  * Returns null if the CLI path is not known (not in providerStatusCache).
  */
-export function startDirectPty(options: {
+export async function startDirectPty(options: {
   id: string;
   providerId: string;
   cwd: string;
@@ -159,7 +211,7 @@ export function startDirectPty(options: {
   env?: Record<string, string>;
   resume?: boolean;
   storedKeys?: Record<string, string>;
-}): IPty | null {
+}): Promise<IPty | null> {
   if (process.env.VALKYR_DISABLE_PTY === '1') {
     throw new Error('PTY disabled via VALKYR_DISABLE_PTY=1');
   }
@@ -177,15 +229,16 @@ export function startDirectPty(options: {
     storedKeys,
   } = options;
 
-  // Get the CLI path from cache
+  // Get the CLI path from cache. It was detected for the agent registered
+  // app-wide under this id; a project's own agent goes through the shell spawn
+  const provider = getProvider(providerId as ProviderId, cwd);
   const status = providerStatusCache.get(providerId);
-  if (!status?.installed || !status?.path) {
+  if (!status?.installed || !status?.path || provider !== getProvider(providerId as ProviderId)) {
     log.warn('ptyManager:directSpawn - CLI path not found', { providerId });
     return null;
   }
 
   const cliPath = status.path;
-  const provider = PROVIDERS.find((p) => p.id === providerId);
 
   // Build CLI arguments
   const cliArgs: string[] = [];
@@ -254,33 +307,17 @@ export function startDirectPty(options: {
     }
   }
 
-  // Lazy load native module
-  let pty: typeof import('node-pty');
-  try {
-    pty = require('node-pty');
-  } catch (e: any) {
-    throw new Error(`PTY unavailable: ${e?.message || String(e)}`);
-  }
-
-  const proc = pty.spawn(cliPath, cliArgs, {
-    name: 'xterm-256color',
-    cols,
-    rows,
-    cwd,
-    env: useEnv,
-  });
+  const proc = await spawnProcess(
+    id,
+    cliPath,
+    cliArgs,
+    { cols, rows, cwd, env: useEnv },
+    { kind: 'local', cwd, isDirectSpawn: true }
+  );
 
   // Store record with cwd for shell respawn after CLI exits
   ptys.set(id, { id, proc, cwd, isDirectSpawn: true, kind: 'local' });
-
-  // When CLI exits, spawn a shell so user can continue working
-  proc.onExit(() => {
-    const rec = ptys.get(id);
-    if (rec?.isDirectSpawn && rec.cwd && onDirectCliExitCallback) {
-      // Spawn shell immediately after CLI exits
-      onDirectCliExitCallback(id, rec.cwd);
-    }
-  });
+  respawnShellOnExit(id, proc);
 
   return proc;
 }
@@ -399,15 +436,6 @@ export async function startPty(options: {
     }
   }
 
-  // Lazy load native module at call time to prevent startup crashes
-  // eslint-disable-next-line @typescript-eslint/no-var-requires
-  let pty: typeof import('node-pty');
-  try {
-    pty = require('node-pty');
-  } catch (e: any) {
-    throw new Error(`PTY unavailable: ${e?.message || String(e)}`);
-  }
-
   // Provide sensible defaults for interactive shells so they render prompts.
   // For provider CLIs, spawn the user's shell and run the provider command via -c,
   // then exec back into the shell to allow users to stay in a normal prompt after exiting the agent.
@@ -416,7 +444,7 @@ export async function startPty(options: {
     try {
       const base = String(useShell).split('/').pop() || '';
       const baseLower = base.toLowerCase();
-      const provider = PROVIDERS.find((p) => p.cli === baseLower);
+      const provider = listProviders(cwd).find((p) => p.cli === baseLower);
 
       if (provider) {
         // Build the provider command with flags
@@ -481,16 +509,17 @@ export async function startPty(options: {
 
   let proc: IPty;
   try {
-    proc = pty.spawn(useShell, args, {
-      name: 'xterm-256color',
-      cols,
-      rows,
-      cwd: useCwd,
-      env: useEnv,
-    });
+    proc = await spawnProcess(
+      id,
+      useShell,
+      args,
+      { cols, rows, cwd: useCwd, env: useEnv },
+      { kind: 'local', cwd: useCwd }
+    );
   } catch (err: any) {
     // Track initial spawn error
-    const provider = args.find((arg) => PROVIDERS.some((p) => p.cli === arg));
+    const providers = listProviders(cwd);
+    const provider = args.find((arg) => providers.some((p) => p.cli === arg));
     errorTracking
       .captureAgentSpawnError(err, shell || 'unknown', id, {
         cwd: useCwd,
@@ -501,13 +530,13 @@ export async function startPty(options: {
 
     try {
       const fallbackShell = getDefaultShell();
-      proc = pty.spawn(fallbackShell, [], {
-        name: 'xterm-256color',
-        cols,
-        rows,
-        cwd: useCwd,
-        env: useEnv,
-      });
+      proc = await spawnProcess(
+        id,
+        fallbackShell,
+        [],
+        { cols, rows, cwd: useCwd, env: useEnv },
+        { kind: 'local', cwd: useCwd }
+      );
     } catch (err2: any) {
       // Track the fallback spawn error as critical
       await errorTracking.captureCriticalError(err2, {
@@ -605,3 +634,77 @@ export function getPty(id: string): IPty | undefined {
 export function getPtyKind(id: string): 'local' | 'ssh' | undefined {
   return ptys.get(id)?.kind;
 }
+
+/**
+ * Reconnect to a PTY the host daemon kept running while the app was closed.
+ * Returns the output produced after `since` along with the process.
+ */
+export async function attachPty(
+  id: string,
+  since: number | null
+): Promise<{ proc: IPty; replay: string } | null> {
+  if (ptys.has(id) || !(await ptyHostClient.connect({ launch: false }))) return null;
+  const attached = await ptyHostClient.attach(id, since);
+  if (!attached) return null;
+
+  const { pty: proc, replay } = attached;
+  const { kind, cwd, isDirectSpawn } = proc.meta;
+  ptys.set(id, { id, proc, cwd, isDirectSpawn, kind });
+  if (isDirectSpawn) {
+    respawnShellOnExit(id, proc);
+  }
+  log.info('ptyManager:attached', { id, pid: proc.pid, replayLength: replay.length });
+  return { proc, replay };
+}
+
+/**
+ * Let go of a PTY when the app quits: hosted PTYs keep running in the daemon
+ * for the next launch, in-process ones are killed.
+ */
+export function releasePty(id: string): void {
+  const rec = ptys.get(id);
+  if (!rec) return;
+  if (rec.proc instanceof HostedPty) {
+    ptyHostClient.detach(rec.proc);
+    ptys.delete(id);
+    return;
+  }
+  killPty(id);
+}
+
+/** Output offset of a hosted PTY, recorded with terminal snapshots to replay what they miss. */
+export function getPtyOutputOffset(id: string): number | undefined {
+  const proc = ptys.get(id)?.proc;
+  return proc instanceof HostedPty ? proc.offset : undefined;
+}
+
+async function collectHostedPtys(
+  shouldCollect: (taskId: string | undefined) => boolean
+): Promise<string[]> {
+  if (!(await ptyHostClient.connect({ launch: false }))) return [];
+  const collected: string[] = [];
+  for (const session of await ptyHostClient.list()) {
+    if (!shouldCollect(session.meta.taskId)) continue;
+    if (ptys.has(session.id)) {
+      killPty(session.id);
+    } else {
+      await ptyHostClient.kill(session.id);
+    }
+    collected.push(session.id);
+  }
+  if (collected.length > 0) {
+    log.info('ptyManager:collected', { ids: collected });
+  }
+  return collected;
+}
+
+/** Kill hosted PTYs of a task that is being deleted or archived, attached or not. */
+export function collectTaskPtys(taskId: string): Promise<string[]> {
+  return collectHostedPtys((owner) => owner === taskId);
+}
+
+/** Kill hosted PTYs left running for tasks that were deleted or archived while the app was closed. */
+export async function collectOrphanedPtys(): Promise<string[]> {
+  const activeTaskIds = new Set((await databaseService.getTasks()).map((task) => task.id));
+  return collectHostedPtys((owner) => !!owner && !activeTaskIds.has(owner));
+}
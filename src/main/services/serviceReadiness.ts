@@ -0,0 +1,50 @@
+import http from 'node:http';
+import net from 'node:net';
+
+const PROBE_INTERVAL_MS = 500;
+const PROBE_TIMEOUT_MS = 2_000;
+
+/** Whether something on this machine accepts TCP connections on `port`. */
+export function probePort(port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ host: 'localhost', port });
+    const done = (ok: boolean) => {
+      socket.destroy();
+      resolve(ok);
+    };
+    socket.setTimeout(PROBE_TIMEOUT_MS, () => done(false));
+    socket.once('connect', () => done(true));
+    socket.once('error', () => done(false));
+  });
+}
+
+/** Whether `GET http://localhost:<port><path>` answers 200. */
+export function probeHttp(port: number, path: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const req = http.get(
+      { host: 'localhost', port, path, agent: false, timeout: PROBE_TIMEOUT_MS },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode === 200);
+      }
+    );
+    req.on('timeout', () => req.destroy());
+    req.on('error', () => resolve(false));
+  });
+}
+
+/**
+ * Run `probe` until it passes. Resolves false on timeout, or as soon as
+ * `isCancelled` returns true.
+ */
+export async function waitUntilReady(
+  probe: () => Promise<boolean>,
+  { timeoutMs, isCancelled }: { timeoutMs: number; isCancelled: () => boolean }
+): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (!isCancelled() && Date.now() < deadline) {
+    if (await probe().catch(() => false)) return !isCancelled();
+    await new Promise((resolve) => setTimeout(resolve, PROBE_INTERVAL_MS));
+  }
+  return false;
+}
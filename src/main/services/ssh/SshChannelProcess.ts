@@ -0,0 +1,191 @@
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import type { Client, ClientChannel } from 'ssh2';
+import { log } from '../../lib/logger';
+import { isValidEnvVarName, quoteShellArg } from '../../utils/shellEscape';
+
+export interface RemoteShellOptions {
+  cwd: string;
+  env: Record<string, string>;
+}
+
+export interface SshChannelProcessOptions {
+  /** Whether the process reads input; with `ignore` stdin is closed immediately. */
+  stdin: 'pipe' | 'ignore';
+  /**
+   * Allocate a pseudo-terminal. Closing the channel then hangs up the whole
+   * foreground process group, which is how long-running scripts are stopped.
+   */
+  pty?: boolean;
+  /** Written to the channel ahead of any process input, e.g. `RemoteCommand.input`. */
+  input?: string;
+}
+
+/** An exec request plus the input its shell preamble reads before the command starts. */
+export interface RemoteCommand {
+  command: string;
+  input: string;
+}
+
+/** Shell-independent `export` loop for the env lines produced by `encodeEnvInput`. */
+const READ_ENV_SCRIPT = [
+  'while IFS= read -r __valkyr_env && [ -n "$__valkyr_env" ]; do',
+  '__valkyr_val=$(printf "${__valkyr_env#*=}x");',
+  'export "${__valkyr_env%%=*}=${__valkyr_val%x}";',
+  'done',
+].join(' ');
+
+function validEnvEntries(env: Record<string, string>): [string, string][] {
+  return Object.entries(env).filter(([name]) => {
+    if (!isValidEnvVarName(name)) {
+      log.warn(`[SshChannelProcess] Skipping invalid env var name: ${name}`);
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * One `NAME=value` line per variable, ended by an empty line. Values are
+ * `printf` format strings with every byte outside a safe set written as an
+ * octal escape, so newlines, `%` and backslashes survive the round trip.
+ */
+function encodeEnvInput(entries: [string, string][]): string {
+  const lines = entries.map(([name, value]) => {
+    let encoded = '';
+    for (const byte of Buffer.from(value, 'utf8')) {
+      const char = String.fromCharCode(byte);
+      encoded += /[A-Za-z0-9_.,:/@+]/.test(char) ? char : `\\${byte.toString(8).padStart(3, '0')}`;
+    }
+    return `${name}=${encoded}\n`;
+  });
+  return `${lines.join('')}\n`;
+}
+
+/**
+ * Build the exec request that runs a shell script on the remote host. It runs
+ * under the user's login shell so PATH matches an interactive session.
+ *
+ * The env values end up in the remote command line, where other users can see
+ * them with `ps`; only use this for non-secret variables. `buildRemoteCommand`
+ * passes env over the channel instead.
+ */
+export function buildRemoteShellCommand(script: string, options: RemoteShellOptions): string {
+  const exports = validEnvEntries(options.env).map(
+    ([name, value]) => `export ${name}=${quoteShellArg(value)}`
+  );
+  const body = [`cd ${quoteShellArg(options.cwd)}`, ...exports, script].join(' && ');
+  return `"\${SHELL:-/bin/sh}" -lc ${quoteShellArg(body)}`;
+}
+
+/**
+ * Run a single command, `exec`ed so signals and the exit status belong to it,
+ * under the user's login shell. Env values (API keys included) are kept out of
+ * the command line: a `/bin/sh` preamble reads them from `input`, which must be
+ * written to the channel before anything else.
+ */
+export function buildRemoteCommand(
+  command: string,
+  args: string[],
+  options: RemoteShellOptions
+): RemoteCommand {
+  const exec = `exec ${[command, ...args].map(quoteShellArg).join(' ')}`;
+  const script = `exec /bin/sh -c ${quoteShellArg(`${READ_ENV_SCRIPT}; ${exec}`)}`;
+  return {
+    command: buildRemoteShellCommand(script, { cwd: options.cwd, env: {} }),
+    input: encodeEnvInput(validEnvEntries(options.env)),
+  };
+}
+
+/**
+ * A process running in an SSH exec channel, shaped like a `ChildProcess`.
+ * The channel opens asynchronously; input written before then is buffered.
+ */
+export class SshChannelProcess extends EventEmitter {
+  readonly stdin: PassThrough | null;
+  readonly stdout = new PassThrough();
+  readonly stderr = new PassThrough();
+  /** Remote processes have no local pid. */
+  readonly pid: number | undefined = undefined;
+  killed = false;
+  exitCode: number | null = null;
+  private channel: ClientChannel | null = null;
+  private exited = false;
+  private readonly input: string | undefined;
+
+  constructor(client: Client, command: string, options: SshChannelProcessOptions) {
+    super();
+    this.input = options.input;
+    this.stdin = options.stdin === 'pipe' ? new PassThrough() : null;
+
+    const onChannel = (err: Error | undefined, channel: ClientChannel) => {
+      if (err) {
+        this.fail(err);
+        return;
+      }
+      this.attach(channel);
+    };
+    try {
+      if (options.pty) {
+        client.exec(command, { pty: true }, onChannel);
+      } else {
+        client.exec(command, onChannel);
+      }
+    } catch (err) {
+      process.nextTick(() => this.fail(err as Error));
+    }
+  }
+
+  kill(signal: NodeJS.Signals = 'SIGTERM'): boolean {
+    if (this.exited) return false;
+    this.killed = true;
+    if (this.channel) {
+      // Servers that ignore signal requests still drop the process with the channel
+      this.channel.signal(signal.replace(/^SIG/, ''));
+      this.channel.close();
+    }
+    return true;
+  }
+
+  private attach(channel: ClientChannel): void {
+    this.channel = channel;
+    if (this.killed) {
+      channel.close();
+    }
+
+    if (this.input) {
+      channel.write(this.input);
+    }
+    if (this.stdin) {
+      this.stdin.pipe(channel);
+    } else {
+      channel.end();
+    }
+    channel.pipe(this.stdout);
+    channel.stderr.pipe(this.stderr);
+
+    channel.on('error', (err: Error) => this.emit('error', err));
+    channel.on('close', (code?: number | null, signal?: string) => {
+      this.finish(code ?? null, signal ? (`SIG${signal}` as NodeJS.Signals) : null);
+    });
+  }
+
+  private fail(err: Error): void {
+    this.emit('error', err);
+    this.finish(null, null);
+  }
+
+  private finish(code: number | null, signal: NodeJS.Signals | null): void {
+    if (this.exited) return;
+    this.exited = true;
+    this.exitCode = code;
+    this.stdin?.destroy();
+    this.emit('exit', code, signal);
+    // Let output already piped from the channel drain before reporting close
+    setImmediate(() => {
+      this.stdout.end();
+      this.stderr.end();
+      this.emit('close', code, signal);
+    });
+  }
+}
@@ -0,0 +1,186 @@
+import net from 'net';
+import { log } from '../../lib/logger';
+import { sshService, type SshService } from './SshService';
+
+export interface PortForward {
+  taskId: string;
+  connectionId: string;
+  remotePort: number;
+  localPort: number;
+}
+
+type ActiveForward = PortForward & {
+  server: net.Server;
+  sockets: Set<net.Socket>;
+};
+
+/**
+ * Local TCP forwards to ports on a remote host (like `ssh -L`), so dev servers
+ * started by remote tasks can be opened in the preview browser. Forwards are
+ * owned by a task and torn down with it or with their SSH connection.
+ */
+export class SshPortForwardService {
+  private forwards = new Map<string, ActiveForward>();
+  private pending = new Map<string, Promise<PortForward>>();
+
+  constructor(private readonly ssh: SshService = sshService) {}
+
+  /**
+   * Forward a local port to `remotePort` on the connection's host. The local
+   * port matches the remote one when it is free so app URLs keep working.
+   */
+  async forward(taskId: string, connectionId: string, remotePort: number): Promise<PortForward> {
+    const key = this.key(taskId, remotePort);
+    const existing = this.forwards.get(key);
+    if (existing) return this.describe(existing);
+    const inflight = this.pending.get(key);
+    if (inflight) return inflight;
+
+    const promise = this.open(taskId, connectionId, remotePort).finally(() => {
+      this.pending.delete(key);
+    });
+    this.pending.set(key, promise);
+    return promise;
+  }
+
+  /** Whether something on the remote host accepts connections on `remotePort`. */
+  probe(connectionId: string, remotePort: number): Promise<boolean> {
+    const connection = this.ssh.getConnection(connectionId);
+    if (!connection) return Promise.resolve(false);
+    return new Promise((resolve) => {
+      connection.client.forwardOut('127.0.0.1', 0, 'localhost', remotePort, (err, stream) => {
+        if (err) {
+          resolve(false);
+          return;
+        }
+        stream.close();
+        resolve(true);
+      });
+    });
+  }
+
+  get(taskId: string, remotePort: number): PortForward | null {
+    const forward = this.forwards.get(this.key(taskId, remotePort));
+    return forward ? this.describe(forward) : null;
+  }
+
+  list(taskId?: string): PortForward[] {
+    return [...this.forwards.values()]
+      .filter((f) => !taskId || f.taskId === taskId)
+      .map((f) => this.describe(f));
+  }
+
+  closeTask(taskId: string): void {
+    for (const forward of [...this.forwards.values()]) {
+      if (forward.taskId === taskId) this.close(forward);
+    }
+  }
+
+  closeConnection(connectionId: string): void {
+    for (const forward of [...this.forwards.values()]) {
+      if (forward.connectionId === connectionId) this.close(forward);
+    }
+  }
+
+  closeAll(): void {
+    for (const forward of [...this.forwards.values()]) {
+      this.close(forward);
+    }
+  }
+
+  private async open(
+    taskId: string,
+    connectionId: string,
+    remotePort: number
+  ): Promise<PortForward> {
+    if (!this.ssh.isConnected(connectionId)) {
+      throw new Error(`Connection ${connectionId} not found`);
+    }
+
+    const sockets = new Set<net.Socket>();
+    const server = net.createServer((socket) => {
+      sockets.add(socket);
+      socket.on('close', () => sockets.delete(socket));
+      this.pipeToRemote(socket, connectionId, remotePort);
+    });
+
+    const localPort = await this.listen(server, remotePort).catch((err: NodeJS.ErrnoException) => {
+      if (err.code !== 'EADDRINUSE' && err.code !== 'EACCES') throw err;
+      return this.listen(server, 0);
+    });
+
+    const forward: ActiveForward = {
+      taskId,
+      connectionId,
+      remotePort,
+      localPort,
+      server,
+      sockets,
+    };
+    this.forwards.set(this.key(taskId, remotePort), forward);
+    log.info('[SshPortForward] Forwarding', { taskId, connectionId, remotePort, localPort });
+    return this.describe(forward);
+  }
+
+  private pipeToRemote(socket: net.Socket, connectionId: string, remotePort: number): void {
+    const connection = this.ssh.getConnection(connectionId);
+    if (!connection) {
+      socket.destroy();
+      return;
+    }
+    connection.client.forwardOut(
+      '127.0.0.1',
+      socket.remotePort ?? 0,
+      'localhost',
+      remotePort,
+      (err, stream) => {
+        if (err) {
+          log.warn('[SshPortForward] forwardOut failed', { remotePort, error: err.message });
+          socket.destroy();
+          return;
+        }
+        socket.pipe(stream).pipe(socket);
+        stream.on('close', () => socket.destroy());
+        stream.on('error', () => socket.destroy());
+        socket.on('close', () => stream.close());
+        socket.on('error', () => stream.close());
+      }
+    );
+  }
+
+  private listen(server: net.Server, port: number): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const onError = (err: Error) => reject(err);
+      server.once('error', onError);
+      server.listen(port, '127.0.0.1', () => {
+        server.off('error', onError);
+        const address = server.address();
+        resolve(typeof address === 'object' && address ? address.port : port);
+      });
+    });
+  }
+
+  private close(forward: ActiveForward): void {
+    this.forwards.delete(this.key(forward.taskId, forward.remotePort));
+    for (const socket of forward.sockets) {
+      socket.destroy();
+    }
+    forward.server.close();
+    log.info('[SshPortForward] Closed', {
+      taskId: forward.taskId,
+      remotePort: forward.remotePort,
+      localPort: forward.localPort,
+    });
+  }
+
+  private describe(forward: ActiveForward): PortForward {
+    const { taskId, connectionId, remotePort, localPort } = forward;
+    return { taskId, connectionId, remotePort, localPort };
+  }
+
+  private key(taskId: string, remotePort: number): string {
+    return `${taskId}::${remotePort}`;
+  }
+}
+
+export const sshPortForwardService = new SshPortForwardService();
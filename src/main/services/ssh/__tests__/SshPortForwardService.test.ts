@@ -0,0 +1,117 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import http from 'http';
+import net, { type AddressInfo } from 'net';
+import { Server, utils } from 'ssh2';
+import { SshPortForwardService } from '../SshPortForwardService';
+import { SshService } from '../SshService';
+import type { SshCredentialService } from '../SshCredentialService';
+import type { SshConfig } from '../../../../shared/ssh/types';
+
+vi.mock('keytar', () => ({
+  default: { getPassword: vi.fn(), setPassword: vi.fn(), deletePassword: vi.fn() },
+}));
+
+/** In-process sshd that accepts direct-tcpip channels to local ports. */
+const server = new Server(
+  { hostKeys: [utils.generateKeyPairSync('ed25519').private] },
+  (client) => {
+    client.on('authentication', (ctx) => {
+      if (ctx.method === 'password' && ctx.username === 'dev' && ctx.password === 'secret') {
+        ctx.accept();
+      } else {
+        ctx.reject(['password']);
+      }
+    });
+    client.on('ready', () => {
+      client.on('tcpip', (accept, _reject, info) => {
+        const channel = accept();
+        const socket = net.connect(info.destPort, '127.0.0.1');
+        channel.pipe(socket).pipe(channel);
+        socket.on('error', () => channel.close());
+        channel.on('close', () => socket.destroy());
+      });
+    });
+    client.on('error', () => {
+      /* client disconnected */
+    });
+  }
+);
+
+/** Stands in for a dev server listening on the remote host. */
+const devServer = http.createServer((_req, res) => res.end('hello from remote'));
+
+const ssh = new SshService({} as SshCredentialService);
+let connectionId: string;
+let devPort: number;
+
+function fetchText(port: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    http
+      .get({ host: '127.0.0.1', port, agent: false }, (res) => {
+        let body = '';
+        res.on('data', (chunk: Buffer) => (body += chunk.toString()));
+        res.on('end', () => resolve(body));
+      })
+      .on('error', reject);
+  });
+}
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  await new Promise<void>((resolve) => devServer.listen(0, '127.0.0.1', resolve));
+  devPort = (devServer.address() as AddressInfo).port;
+  connectionId = await ssh.connect({
+    id: 'remote-1',
+    name: 'test',
+    host: '127.0.0.1',
+    port: (server.address() as AddressInfo).port,
+    username: 'dev',
+    authType: 'password',
+    password: 'secret',
+  } as SshConfig);
+});
+
+afterAll(async () => {
+  await ssh.disconnectAll();
+  await new Promise<void>((resolve) => devServer.close(() => resolve()));
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+describe('SshPortForwardService', () => {
+  it('forwards a local port to the remote port and reuses it per task', async () => {
+    const forwards = new SshPortForwardService(ssh);
+    const [first, second] = await Promise.all([
+      forwards.forward('task-1', connectionId, devPort),
+      forwards.forward('task-1', connectionId, devPort),
+    ]);
+
+    // The remote port is taken locally (same machine here), so an ephemeral one is used
+    expect(first.localPort).not.toBe(devPort);
+    expect(second).toEqual(first);
+    expect(forwards.get('task-1', devPort)).toEqual(first);
+    await expect(fetchText(first.localPort)).resolves.toBe('hello from remote');
+
+    forwards.closeAll();
+  });
+
+  it('closes forwards with their task or connection', async () => {
+    const forwards = new SshPortForwardService(ssh);
+    const a = await forwards.forward('task-a', connectionId, devPort);
+    await forwards.forward('task-b', connectionId, devPort);
+    expect(forwards.list()).toHaveLength(2);
+
+    forwards.closeTask('task-a');
+    expect(forwards.list().map((f) => f.taskId)).toEqual(['task-b']);
+    await expect(fetchText(a.localPort)).rejects.toMatchObject({ code: 'ECONNREFUSED' });
+
+    forwards.closeConnection(connectionId);
+    expect(forwards.list()).toEqual([]);
+  });
+
+  it('rejects forwards for connections that are not open', async () => {
+    const forwards = new SshPortForwardService(ssh);
+    await expect(forwards.forward('task-1', 'missing', devPort)).rejects.toThrow(
+      'Connection missing not found'
+    );
+  });
+});
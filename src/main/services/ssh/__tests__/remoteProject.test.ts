@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const getProjectsMock = vi.fn();
+const getTaskByPathMock = vi.fn();
+
+vi.mock('../../DatabaseService', () => ({
+  databaseService: {
+    getProjects: (...args: unknown[]) => getProjectsMock(...args),
+    getTaskByPath: (...args: unknown[]) => getTaskByPathMock(...args),
+  },
+}));
+
+import { resolveRemoteConnectionId } from '../remoteProject';
+
+describe('resolveRemoteConnectionId', () => {
+  beforeEach(() => {
+    getProjectsMock.mockResolvedValue([
+      {
+        id: 'remote',
+        path: '/home/me/app',
+        isRemote: true,
+        sshConnectionId: 'ssh-1',
+        remotePath: '/home/me/app',
+      },
+      { id: 'local', path: '/home/me/app-local', isRemote: false },
+    ]);
+    const tasks: Record<string, { projectId: string }> = {
+      '/home/me/worktrees/remote-task': { projectId: 'remote' },
+      '/home/me/app/local-task': { projectId: 'local' },
+    };
+    getTaskByPathMock.mockImplementation(async (taskPath: string) => tasks[taskPath] ?? null);
+  });
+
+  it('follows the task row for task paths and their sub-repos', async () => {
+    await expect(resolveRemoteConnectionId('/home/me/worktrees/remote-task')).resolves.toBe(
+      'ssh-1'
+    );
+    await expect(resolveRemoteConnectionId('/home/me/worktrees/remote-task/api')).resolves.toBe(
+      'ssh-1'
+    );
+  });
+
+  it('keeps local tasks local even under a remote project path', async () => {
+    await expect(resolveRemoteConnectionId('/home/me/app/local-task')).resolves.toBeUndefined();
+  });
+
+  it('does not route unknown paths by prefix', async () => {
+    await expect(resolveRemoteConnectionId('/home/me/app/other')).resolves.toBeUndefined();
+  });
+
+  it('uses the project row for project paths', async () => {
+    await expect(resolveRemoteConnectionId('/home/me/app')).resolves.toBe('ssh-1');
+    await expect(resolveRemoteConnectionId('/x', '/home/me/app-local')).resolves.toBeUndefined();
+    await expect(resolveRemoteConnectionId('/x', '/home/me/app')).resolves.toBe('ssh-1');
+  });
+});
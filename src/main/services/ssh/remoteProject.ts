@@ -0,0 +1,35 @@
+import * as path from 'path';
+import { databaseService, type Project } from '../DatabaseService';
+
+function connectionOf(project: Project | undefined): string | undefined {
+  return project?.isRemote && project.sshConnectionId ? project.sshConnectionId : undefined;
+}
+
+/**
+ * SSH connection of the remote project a task belongs to: the project at
+ * `projectPath`, else the project of the task whose path is `cwd` or one of
+ * its parents (sub-repos of multi-repo tasks), else the project at `cwd`.
+ * Returns undefined for local projects and paths with no task or project row.
+ */
+export async function resolveRemoteConnectionId(
+  cwd: string,
+  projectPath?: string
+): Promise<string | undefined> {
+  const projects = await databaseService.getProjects();
+  if (projectPath) {
+    const project = projects.find((p) => p.path === projectPath);
+    if (project) return connectionOf(project);
+  }
+
+  for (let dir = cwd; ; ) {
+    const task = await databaseService.getTaskByPath(dir);
+    if (task) return connectionOf(projects.find((p) => p.id === task.projectId));
+    const parent = path.posix.dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+
+  // A local project sharing its path with a remote one stays local
+  const atCwd = projects.filter((p) => p.path === cwd || p.remotePath === cwd);
+  return atCwd.some((p) => !p.isRemote) ? undefined : connectionOf(atCwd[0]);
+}
@@ -0,0 +1,286 @@
+import { execFile } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { log } from '../../lib/logger';
+import { databaseService } from '../DatabaseService';
+import { lifecycleScriptsService, type ValkyrConfig } from '../LifecycleScriptsService';
+import { resolveRemoteConnectionId } from '../ssh/remoteProject';
+import { sshService } from '../ssh/SshService';
+import { quoteShellArg } from '../../utils/shellEscape';
+import {
+  VERIFY_GATE_MODES,
+  type VerifyGate,
+  type VerifyGateMode,
+  type VerifyRun,
+  type VerifyRunStatus,
+  type VerifySummary,
+} from '@shared/verify';
+import { mergeSummaries, parseJUnit, parseTap } from './reportParsers';
+
+const execFileAsync = promisify(execFile);
+
+/** Report files are read into memory; anything larger is not a test report we can use. */
+const MAX_REPORT_BYTES = 20 * 1024 * 1024;
+
+/** The worktree a verify run saw. */
+type Fingerprint = { headSha: string | null; treeSha: string | null };
+
+export type RecordVerifyRunArgs = {
+  taskId: string;
+  taskPath: string;
+  projectPath: string;
+  startedAt: string;
+  /** Null when the command could not run or was killed by a signal. */
+  exitCode: number | null;
+  error: string | null;
+  /** Combined stdout and stderr, scanned for TAP results. */
+  output: string;
+};
+
+const GATE_OPEN: VerifyGate = { state: 'ok', mode: 'off', message: null };
+
+/**
+ * Records the outcome of verify runs and decides whether commit, PR and merge
+ * actions may proceed. A run stays current until the worktree contents change,
+ * so committing verified changes does not make it stale.
+ */
+class VerifyService {
+  async recordRun(args: RecordVerifyRunArgs): Promise<VerifyRun> {
+    const { taskId, taskPath, projectPath } = args;
+    const connectionId = (await resolveRemoteConnectionId(taskPath, projectPath)) ?? null;
+    const config = await this.readConfig(projectPath, connectionId);
+    const [fingerprint, summary] = await Promise.all([
+      this.fingerprint(taskPath, connectionId),
+      this.collectResults(taskPath, connectionId, config, args),
+    ]);
+
+    const status: VerifyRunStatus =
+      args.exitCode === null
+        ? 'error'
+        : args.exitCode === 0 && summary.failed === 0
+          ? 'passed'
+          : 'failed';
+    const run: VerifyRun = {
+      id: `verify-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      taskId,
+      status,
+      exitCode: args.exitCode,
+      ...fingerprint,
+      summary,
+      error: args.error,
+      startedAt: args.startedAt,
+      finishedAt: new Date().toISOString(),
+    };
+    await databaseService.saveVerifyRun(run);
+    return run;
+  }
+
+  getLatestRun(taskId: string): Promise<VerifyRun | null> {
+    return databaseService.getLatestVerifyRun(taskId);
+  }
+
+  /** Gate for the task checked out at `taskPath`; open for paths that are not tasks. */
+  async checkGate(taskPath: string): Promise<VerifyGate> {
+    const task = await databaseService.getTaskByPath(taskPath);
+    if (!task) return GATE_OPEN;
+    const project = await databaseService.getProjectById(task.projectId);
+    if (!project) return GATE_OPEN;
+    return this.getGate(task.id, task.path, project.path);
+  }
+
+  async getGate(taskId: string, taskPath: string, projectPath: string): Promise<VerifyGate> {
+    const connectionId = (await resolveRemoteConnectionId(taskPath, projectPath)) ?? null;
+    const config = await this.readConfig(projectPath, connectionId);
+    const mode = this.gateMode(config);
+    if (mode === 'off') return GATE_OPEN;
+
+    let run: VerifyRun | null;
+    try {
+      run = await databaseService.getLatestVerifyRun(taskId);
+    } catch (error) {
+      // The mode is known, so a block-mode gate stays closed
+      const reason = error instanceof Error ? error.message : String(error);
+      return { state: 'failed', mode, message: `Could not check verification: ${reason}` };
+    }
+    if (!run) {
+      return { state: 'missing', mode, message: 'Verification has not run for this task' };
+    }
+    if (run.status !== 'passed') {
+      return { state: 'failed', mode, message: describeFailure(run) };
+    }
+    const { treeSha } = await this.fingerprint(taskPath, connectionId);
+    if (!treeSha || treeSha !== run.treeSha) {
+      return {
+        state: 'stale',
+        mode,
+        message: 'Files changed since the last verification passed',
+      };
+    }
+    return { state: 'ok', mode, message: null };
+  }
+
+  /** `off` when no verify script is configured; `warn` unless the config says otherwise. */
+  private gateMode(config: ValkyrConfig | null): VerifyGateMode {
+    if (!config?.scripts?.verify?.trim()) return 'off';
+    const gate = config.verify?.gate;
+    return gate && VERIFY_GATE_MODES.includes(gate) ? gate : 'warn';
+  }
+
+  private async readConfig(
+    projectPath: string,
+    connectionId: string | null
+  ): Promise<ValkyrConfig | null> {
+    return connectionId
+      ? lifecycleScriptsService.readRemoteConfig(connectionId, projectPath)
+      : lifecycleScriptsService.readConfig(projectPath);
+  }
+
+  private async collectResults(
+    taskPath: string,
+    connectionId: string | null,
+    config: ValkyrConfig | null,
+    args: RecordVerifyRunArgs
+  ): Promise<VerifySummary> {
+    const summaries: VerifySummary[] = [];
+    const reports = Array.isArray(config?.verify?.reports) ? config.verify.reports : [];
+    for (const report of reports) {
+      if (typeof report !== 'string' || !report.trim()) continue;
+      try {
+        const xml = await this.readReport(taskPath, report.trim(), connectionId, args.startedAt);
+        if (xml === null) continue;
+        summaries.push({ ...parseJUnit(xml), sources: [`junit:${report.trim()}`] });
+      } catch (error) {
+        log.warn('Failed to read verify report', {
+          report,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const tap = parseTap(args.output);
+    if (tap) {
+      summaries.push({ ...tap, sources: ['tap:output'] });
+    }
+    return mergeSummaries(summaries);
+  }
+
+  /**
+   * Contents of a report written by this run, or null when it is missing.
+   * Reports older than the run are ignored as left over from before, and
+   * oversized ones are not read.
+   */
+  private async readReport(
+    taskPath: string,
+    report: string,
+    connectionId: string | null,
+    startedAt: string
+  ): Promise<string | null> {
+    if (connectionId) {
+      // Compare the report's age with the run's duration on the remote clock, so clock skew
+      // between the hosts doesn't matter
+      const maxAgeSeconds = Math.ceil((Date.now() - Date.parse(startedAt)) / 1000) + 2;
+      const script = [
+        `f=${quoteShellArg(report)}`,
+        '[ -f "$f" ] || exit 3',
+        `[ "$(wc -c < "$f")" -le ${MAX_REPORT_BYTES} ] || exit 4`,
+        'mtime=$(stat -c %Y "$f" 2>/dev/null || stat -f %m "$f") || exit 5',
+        `[ $(($(date +%s) - mtime)) -le ${maxAgeSeconds} ] || exit 6`,
+        'cat "$f"',
+      ].join('\n');
+      const result = await sshService.executeCommand(
+        connectionId,
+        `sh -c ${quoteShellArg(script)}`,
+        taskPath
+      );
+      return result.exitCode === 0 ? result.stdout : null;
+    }
+
+    const file = path.resolve(taskPath, report);
+    const stat = await fs.promises.stat(file).catch(() => null);
+    if (!stat?.isFile() || stat.size > MAX_REPORT_BYTES) return null;
+    // Allow for coarse filesystem timestamps
+    if (stat.mtimeMs < Date.parse(startedAt) - 2_000) return null;
+    return fs.promises.readFile(file, 'utf8');
+  }
+
+  /**
+   * HEAD and the tree of all tracked and untracked (not ignored) files,
+   * written from a scratch copy of the index so the real one is untouched.
+   */
+  private async fingerprint(taskPath: string, connectionId: string | null): Promise<Fingerprint> {
+    try {
+      return connectionId
+        ? await this.remoteFingerprint(taskPath, connectionId)
+        : await this.localFingerprint(taskPath);
+    } catch (error) {
+      log.warn('Failed to fingerprint worktree for verify', {
+        taskPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return { headSha: null, treeSha: null };
+    }
+  }
+
+  private async localFingerprint(taskPath: string): Promise<Fingerprint> {
+    const git = async (args: string[], env?: NodeJS.ProcessEnv) => {
+      const { stdout } = await execFileAsync('git', args, {
+        cwd: taskPath,
+        env: env ? { ...process.env, ...env } : undefined,
+      });
+      return stdout.trim();
+    };
+
+    const headSha = await git(['rev-parse', '--verify', 'HEAD']).catch(() => null);
+    const indexPath = path.resolve(taskPath, await git(['rev-parse', '--git-path', 'index']));
+    const scratchIndex = path.join(
+      os.tmpdir(),
+      `valkyr-verify-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+    );
+    try {
+      // Starting from the real index lets git skip rehashing unchanged files
+      await fs.promises.copyFile(indexPath, scratchIndex).catch(() => {});
+      const env = { GIT_INDEX_FILE: scratchIndex };
+      await git(['add', '-A'], env);
+      const treeSha = await git(['write-tree'], env);
+      return { headSha, treeSha };
+    } finally {
+      await fs.promises.rm(scratchIndex, { force: true });
+    }
+  }
+
+  private async remoteFingerprint(taskPath: string, connectionId: string): Promise<Fingerprint> {
+    const script = [
+      'head=$(git rev-parse --verify HEAD 2>/dev/null)',
+      'index=$(git rev-parse --git-path index) || exit 1',
+      'tmp=$(mktemp) || exit 1',
+      'rm -f "$tmp"',
+      'cp "$index" "$tmp" 2>/dev/null',
+      'tree=$(GIT_INDEX_FILE="$tmp" git add -A && GIT_INDEX_FILE="$tmp" git write-tree)',
+      'status=$?',
+      'rm -f "$tmp"',
+      '[ $status -eq 0 ] || exit $status',
+      'printf "%s\\n%s\\n" "$head" "$tree"',
+    ].join('; ');
+    const result = await sshService.executeCommand(connectionId, script, taskPath);
+    if (result.exitCode !== 0) {
+      throw new Error(result.stderr || 'git write-tree failed');
+    }
+    const [headSha, treeSha] = result.stdout.split('\n').map((line) => line.trim());
+    return { headSha: headSha || null, treeSha: treeSha || null };
+  }
+}
+
+function describeFailure(run: VerifyRun): string {
+  const { summary } = run;
+  if (run.status === 'error') {
+    return `Verification could not run${run.error ? `: ${run.error}` : ''}`;
+  }
+  if (summary.failed > 0) {
+    return `Verification failed: ${summary.failed} of ${summary.tests} tests failed`;
+  }
+  return `Verification failed (exit ${run.exitCode ?? 'unknown'})`;
+}
+
+export const verifyService = new VerifyService();
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { mergeSummaries, parseJUnit, parseTap } from '../reportParsers';
+
+describe('parseJUnit', () => {
+  it('counts passed, failed and skipped test cases', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <!-- <testcase name="commented out"/> -->
+  <testsuite name="math" tests="4">
+    <testcase classname="math.add" name="adds" time="0.01"/>
+    <testcase classname="math.sub" name="subtracts">
+      <failure message="expected 1 to be 2 &amp; more" type="AssertionError">stack</failure>
+    </testcase>
+    <testcase name="divides">
+      <error><![CDATA[TypeError: boom
+    at divide]]></error>
+    </testcase>
+    <testcase name="rounds"><skipped/></testcase>
+  </testsuite>
+</testsuites>`;
+
+    expect(parseJUnit(xml)).toEqual({
+      tests: 4,
+      passed: 1,
+      failed: 2,
+      skipped: 1,
+      failures: [
+        { suite: 'math.sub', name: 'subtracts', message: 'expected 1 to be 2 & more' },
+        { suite: 'math', name: 'divides', message: 'TypeError: boom' },
+      ],
+      sources: [],
+    });
+  });
+
+  it('returns an empty summary for a report without test cases', () => {
+    expect(parseJUnit('<testsuites/>')).toMatchObject({ tests: 0, failed: 0 });
+  });
+});
+
+describe('parseTap', () => {
+  it('reads top-level results and diagnostic messages', () => {
+    const output = [
+      'TAP version 13',
+      '\x1b[32mok 1 - parses config\x1b[0m',
+      '    not ok 1 - nested subtest is not counted',
+      'not ok 2 - writes report',
+      '  ---',
+      "  message: 'ENOENT: no such file'",
+      '  ...',
+      'ok 3 - uploads # SKIP no network',
+      'not ok 4 - flaky # TODO fix later',
+      '1..4',
+    ].join('\r\n');
+
+    expect(parseTap(output)).toEqual({
+      tests: 4,
+      passed: 1,
+      failed: 1,
+      skipped: 2,
+      failures: [{ suite: null, name: 'writes report', message: 'ENOENT: no such file' }],
+      sources: [],
+    });
+  });
+
+  it('ignores output that is not TAP', () => {
+    expect(parseTap('ok let us go\nnot ok, something broke')).toBeNull();
+  });
+});
+
+describe('mergeSummaries', () => {
+  it('adds up counts and sources', () => {
+    const junit = { ...parseJUnit('<testcase name="a"/>'), sources: ['junit:a.xml'] };
+    const tap = { ...parseTap('1..1\nnot ok 1 - b')!, sources: ['tap:output'] };
+
+    expect(mergeSummaries([junit, tap])).toEqual({
+      tests: 2,
+      passed: 1,
+      failed: 1,
+      skipped: 0,
+      failures: [{ suite: null, name: 'b', message: null }],
+      sources: ['junit:a.xml', 'tap:output'],
+    });
+  });
+});
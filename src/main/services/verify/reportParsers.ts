@@ -0,0 +1,147 @@
+import { emptyVerifySummary, type VerifySummary, type VerifyTestFailure } from '@shared/verify';
+
+/** Failures kept per summary; the counts still cover every test. */
+const MAX_FAILURES = 50;
+const MAX_MESSAGE_LENGTH = 500;
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(name.slice(2), 16));
+    }
+    if (name.startsWith('#')) {
+      return String.fromCodePoint(parseInt(name.slice(1), 10));
+    }
+    return XML_ENTITIES[name] ?? entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attrs[match[1]] = decodeXml(match[2] ?? match[3] ?? '');
+  }
+  return attrs;
+}
+
+function truncateMessage(message: string | undefined): string | null {
+  const text = message?.trim();
+  if (!text) return null;
+  return text.length > MAX_MESSAGE_LENGTH ? `${text.slice(0, MAX_MESSAGE_LENGTH)}…` : text;
+}
+
+function addFailure(summary: VerifySummary, failure: VerifyTestFailure): void {
+  summary.failed += 1;
+  if (summary.failures.length < MAX_FAILURES) {
+    summary.failures.push(failure);
+  }
+}
+
+/**
+ * Parse a JUnit XML report. Handles the common dialects (Surefire, Jest,
+ * Vitest, pytest): `<testcase>` elements, optionally nested in `<testsuite>`,
+ * with `<failure>`, `<error>` or `<skipped>` children.
+ */
+export function parseJUnit(xml: string): VerifySummary {
+  const summary = emptyVerifySummary();
+  const source = xml.replace(/<!--[\s\S]*?-->/g, '');
+  const suites: string[] = [];
+  const tokens =
+    /<testsuite\b([^>]*?)(\/?)>|<\/testsuite>|<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+
+  for (const match of source.matchAll(tokens)) {
+    const [token, suiteAttrs, selfClosing, caseAttrs, body = ''] = match;
+    if (suiteAttrs !== undefined) {
+      if (!selfClosing) suites.push(parseAttributes(suiteAttrs).name ?? '');
+      continue;
+    }
+    if (token === '</testsuite>') {
+      suites.pop();
+      continue;
+    }
+
+    const attrs = parseAttributes(caseAttrs ?? '');
+    summary.tests += 1;
+    const failure = body.match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+    if (failure) {
+      const text = decodeXml((failure[3] ?? '').replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1'));
+      addFailure(summary, {
+        suite: attrs.classname || suites[suites.length - 1] || null,
+        name: attrs.name ?? '(unnamed test)',
+        message: truncateMessage(parseAttributes(failure[2]).message ?? text.split('\n')[0]),
+      });
+    } else if (/<skipped\b/.test(body)) {
+      summary.skipped += 1;
+    } else {
+      summary.passed += 1;
+    }
+  }
+  return summary;
+}
+
+const TAP_RESULT = /^(not )?ok\b(?:\s+\d+)?(?:\s+-)?\s*([^#]*?)\s*(?:#\s*(\w+).*)?$/i;
+
+/**
+ * Parse top-level TAP results from command output. Returns null when the
+ * output has no TAP version line or plan, so plain logs are not misread.
+ */
+export function parseTap(output: string): VerifySummary | null {
+  const lines = output.replace(/\x1b\[[0-9;]*[A-Za-z]/g, '').split(/\r?\n/);
+  if (!lines.some((line) => /^TAP version \d+/.test(line) || /^1\.\.\d+/.test(line))) {
+    return null;
+  }
+
+  const summary = emptyVerifySummary();
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(TAP_RESULT);
+    if (!match) continue;
+    const [, notOk, description, directive] = match;
+    const skip = directive?.toLowerCase().startsWith('skip');
+    const todo = directive?.toLowerCase() === 'todo';
+    summary.tests += 1;
+    if (skip || todo) {
+      summary.skipped += 1;
+    } else if (!notOk) {
+      summary.passed += 1;
+    } else {
+      addFailure(summary, {
+        suite: null,
+        name: description || `test ${summary.tests}`,
+        message: truncateMessage(readTapDiagnosticMessage(lines, i + 1)),
+      });
+    }
+  }
+  return summary.tests > 0 ? summary : null;
+}
+
+/** The `message` of the YAML diagnostic block following a failed test, if any. */
+function readTapDiagnosticMessage(lines: string[], start: number): string | undefined {
+  if (lines[start]?.trim() !== '---') return undefined;
+  for (let i = start + 1; i < lines.length && lines[i].trim() !== '...'; i++) {
+    const match = lines[i].match(/^\s+message:\s*(.*)$/);
+    if (match) return match[1].replace(/^(['"])(.*)\1$/, '$2');
+  }
+  return undefined;
+}
+
+export function mergeSummaries(summaries: VerifySummary[]): VerifySummary {
+  const merged = emptyVerifySummary();
+  for (const summary of summaries) {
+    merged.tests += summary.tests;
+    merged.passed += summary.passed;
+    merged.failed += summary.failed;
+    merged.skipped += summary.skipped;
+    merged.failures.push(...summary.failures);
+    merged.sources.push(...summary.sources);
+  }
+  merged.failures = merged.failures.slice(0, MAX_FAILURES);
+  return merged;
+}
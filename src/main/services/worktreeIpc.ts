@@ -1,6 +1,7 @@
 import { ipcMain } from 'electron';
 import { worktreeService } from './WorktreeService';
 import { worktreePoolService } from './WorktreePoolService';
+import { variantService } from './VariantService';
 import { databaseService, type Project } from './DatabaseService';
 import { getDrizzleClient } from '../db/drizzleClient';
 import { projects as projectsTable } from '../db/schema';
@@ -10,6 +11,7 @@ import { RemoteGitService } from './RemoteGitService';
 import { sshService } from './ssh/SshService';
 import { log } from '../lib/logger';
 import { quoteShellArg } from '../utils/shellEscape';
+import type { VariantRef, WinnerStrategy } from '@shared/variants';
 
 const remoteGitService = new RemoteGitService(sshService);
 
@@ -260,6 +262,92 @@ export function registerWorktreeIpc(): void {
     }
   );
 
+  // Diff every multi-agent variant against the commit they forked from
+  ipcMain.handle(
+    'worktree:compareVariants',
+    async (
+      event,
+      args: {
+        projectPath: string;
+        variants: VariantRef[];
+        baseRef?: string;
+      }
+    ) => {
+      try {
+        const project = await resolveProjectByIdOrPath({ projectPath: args.projectPath });
+        if (isRemoteProject(project)) {
+          return { success: false, error: 'Comparing remote variants is not supported yet' };
+        }
+        const comparison = await variantService.compare(
+          args.projectPath,
+          args.variants,
+          args.baseRef
+        );
+        return { success: true, ...comparison };
+      } catch (error) {
+        log.error('Failed to compare variants:', error);
+        return { success: false, error: (error as Error).message };
+      }
+    }
+  );
+
+  // Diff of one file in one variant against the comparison base
+  ipcMain.handle(
+    'worktree:variantFileDiff',
+    async (
+      event,
+      args: {
+        variantPath: string;
+        baseSha: string;
+        filePath: string;
+      }
+    ) => {
+      try {
+        const diff = await variantService.getFileDiff(
+          args.variantPath,
+          args.baseSha,
+          args.filePath
+        );
+        return { success: true, diff };
+      } catch (error) {
+        log.error('Failed to get variant file diff:', error);
+        return { success: false, error: (error as Error).message };
+      }
+    }
+  );
+
+  // Keep one variant as the task's worktree and remove the others
+  ipcMain.handle(
+    'worktree:pickWinner',
+    async (
+      event,
+      args: {
+        projectPath: string;
+        projectId: string;
+        taskName: string;
+        baseSha: string;
+        winner: VariantRef;
+        losers: VariantRef[];
+        strategy: WinnerStrategy;
+      }
+    ) => {
+      try {
+        const project = await resolveProjectByIdOrPath({
+          projectId: args.projectId,
+          projectPath: args.projectPath,
+        });
+        if (isRemoteProject(project)) {
+          return { success: false, error: 'Picking a remote variant is not supported yet' };
+        }
+        const result = await variantService.pickWinner(args);
+        return { success: true, ...result };
+      } catch (error) {
+        log.error('Failed to pick winning variant:', error);
+        return { success: false, error: (error as Error).message };
+      }
+    }
+  );
+
   // Get worktree by ID
   ipcMain.handle('worktree:get', async (event, args: { worktreeId: string }) => {
     try {
@@ -383,6 +471,17 @@ export function registerWorktreeIpc(): void {
     }
   });
 
+  // Reserve pool depth and hit/miss/claim-latency stats
+  ipcMain.handle('worktree:poolMetrics', async (event, args?: { projectId?: string }) => {
+    try {
+      const metrics = worktreePoolService.getMetrics(args?.projectId);
+      return { success: true, metrics };
+    } catch (error) {
+      log.error('Failed to get worktree pool metrics:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
   // Create a multi-repo composite worktree
   ipcMain.handle(
     'worktree:createMultiRepo',
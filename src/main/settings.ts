@@ -7,6 +7,14 @@ import type { ProviderId } from '@shared/providers/registry';
 import { isValidProviderId } from '@shared/providers/registry';
 import { isValidOpenInAppId, type OpenInAppId } from '@shared/openInApps';
 import type { McpServerConfig } from '@shared/mcp/types';
+import { normalizeValkyrMcpSettings, type ValkyrMcpSettings } from '@shared/mcp/valkyr';
+import { normalizeApprovalRules, type ApprovalRule } from '@shared/approvalPolicy';
+import type { UsageBudgets } from '@shared/usage';
+import { clampPoolSize, type WorktreePoolConfig } from '@shared/worktreePool';
+import { DEFAULT_ISSUE_UPDATES, type IssueUpdateSettings } from '@shared/issues';
+import { normalizeCustomAgents, type CustomAgentConfig } from '@shared/providers/customAgents';
+import { normalizeSkillSources } from '@shared/skills/sources';
+import type { SkillSource } from '@shared/skills/types';
 
 const DEFAULT_PROVIDER_ID: ProviderId = 'claude';
 
@@ -62,6 +70,8 @@ export interface AppSettings {
       installHintsDismissed?: Record<string, boolean>;
     };
     servers?: McpServerConfig[];
+    /** Built-in server exposing Valkyr's tasks to agents */
+    valkyr?: ValkyrMcpSettings;
   };
   defaultProvider?: ProviderId;
   tasks?: {
@@ -83,6 +93,26 @@ export interface AppSettings {
   providerOverrides?: Partial<
     Record<ProviderId, { defaultChatMode?: 'acp' | 'cli'; cliCommand?: string }>
   >;
+  /** Sandbox for agent-spawned ACP terminals (Linux only). */
+  acpSandbox?: {
+    mode: 'provider' | 'always' | 'off';
+    allowNetwork: boolean;
+  };
+  /** Global ACP auto-approval rules; project rules in .valkyr.json are evaluated first. */
+  approvalPolicy?: {
+    enabled: boolean;
+    rules: ApprovalRule[];
+  };
+  /** Spending limits; sessions are paused once a limit is reached. */
+  usageBudgets?: UsageBudgets;
+  /** Warm reserve worktrees; `.valkyr.json` `worktreePool` overrides per project. */
+  worktreePool?: WorktreePoolConfig;
+  /** Comments and status changes on the linked issue when a task's PR is opened or merged. */
+  issueUpdates?: IssueUpdateSettings;
+  /** User-defined agents offered next to the built-in providers. */
+  customAgents?: CustomAgentConfig[];
+  /** Git repositories and directories offered as skill catalogs next to the built-in ones. */
+  skillSources?: SkillSource[];
 }
 
 const DEFAULT_SETTINGS: AppSettings = {
@@ -107,6 +137,10 @@ const DEFAULT_SETTINGS: AppSettings = {
       installHintsDismissed: {},
     },
     servers: [],
+    valkyr: {
+      enabled: true,
+      projects: {},
+    },
   },
   defaultProvider: DEFAULT_PROVIDER_ID,
   tasks: {
@@ -142,6 +176,27 @@ const DEFAULT_SETTINGS: AppSettings = {
     enabled: false,
   },
   providerOverrides: {},
+  acpSandbox: {
+    mode: 'provider',
+    allowNetwork: true,
+  },
+  approvalPolicy: {
+    enabled: true,
+    rules: [],
+  },
+  usageBudgets: {
+    enabled: false,
+    perTaskUsd: null,
+    perProjectUsd: null,
+    dailyUsd: null,
+  },
+  worktreePool: {
+    size: 1,
+    runSetup: true,
+  },
+  issueUpdates: { ...DEFAULT_ISSUE_UPDATES },
+  customAgents: [],
+  skillSources: [],
 };
 
 function getSettingsPath(): string {
@@ -288,6 +343,7 @@ function normalizeSettings(input: AppSettings): AppSettings {
           : {},
     },
     servers: validServers as McpServerConfig[],
+    valkyr: normalizeValkyrMcpSettings(mcp?.valkyr),
   };
 
   // Default provider
@@ -410,5 +466,61 @@ function normalizeSettings(input: AppSettings): AppSettings {
     out.providerOverrides = {};
   }
 
+  // ACP terminal sandbox
+  const sandbox = (input as any)?.acpSandbox || {};
+  out.acpSandbox = {
+    mode: ['provider', 'always', 'off'].includes(sandbox?.mode)
+      ? sandbox.mode
+      : DEFAULT_SETTINGS.acpSandbox!.mode,
+    allowNetwork: Boolean(sandbox?.allowNetwork ?? DEFAULT_SETTINGS.acpSandbox!.allowNetwork),
+  };
+
+  // Approval policy
+  const approvalPolicy = (input as any)?.approvalPolicy || {};
+  out.approvalPolicy = {
+    enabled: Boolean(approvalPolicy?.enabled ?? DEFAULT_SETTINGS.approvalPolicy!.enabled),
+    rules: normalizeApprovalRules(approvalPolicy?.rules),
+  };
+
+  // Usage budgets
+  const budgets = (input as any)?.usageBudgets || {};
+  const normalizeLimit = (value: unknown): number | null => {
+    const n = typeof value === 'number' ? value : Number(value);
+    return value != null && value !== '' && Number.isFinite(n) && n > 0 ? n : null;
+  };
+  out.usageBudgets = {
+    enabled: Boolean(budgets?.enabled ?? DEFAULT_SETTINGS.usageBudgets!.enabled),
+    perTaskUsd: normalizeLimit(budgets?.perTaskUsd),
+    perProjectUsd: normalizeLimit(budgets?.perProjectUsd),
+    dailyUsd: normalizeLimit(budgets?.dailyUsd),
+  };
+
+  // Worktree pool
+  const pool = (input as any)?.worktreePool || {};
+  out.worktreePool = {
+    size: clampPoolSize(pool?.size, DEFAULT_SETTINGS.worktreePool!.size),
+    runSetup: Boolean(pool?.runSetup ?? DEFAULT_SETTINGS.worktreePool!.runSetup),
+  };
+
+  // Issue updates
+  const issueUpdates = (input as any)?.issueUpdates || {};
+  out.issueUpdates = {
+    commentOnPrOpened: Boolean(
+      issueUpdates?.commentOnPrOpened ?? DEFAULT_SETTINGS.issueUpdates!.commentOnPrOpened
+    ),
+    commentOnPrMerged: Boolean(
+      issueUpdates?.commentOnPrMerged ?? DEFAULT_SETTINGS.issueUpdates!.commentOnPrMerged
+    ),
+    closeOnPrMerged: Boolean(
+      issueUpdates?.closeOnPrMerged ?? DEFAULT_SETTINGS.issueUpdates!.closeOnPrMerged
+    ),
+  };
+
+  // Custom agents
+  out.customAgents = normalizeCustomAgents((input as any)?.customAgents);
+
+  // Skill catalog sources
+  out.skillSources = normalizeSkillSources((input as any)?.skillSources);
+
   return out;
 }
@@ -5,6 +5,8 @@ export interface TerminalSnapshotPayload {
   rows: number;
   data: string;
   stats?: Record<string, unknown>;
+  /** Output offset of the hosted PTY the snapshot includes; set by the main process. */
+  outputOffset?: number;
 }
 
 export const TERMINAL_SNAPSHOT_VERSION = 1 as const;
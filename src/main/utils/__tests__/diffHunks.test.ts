@@ -0,0 +1,123 @@
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { buildSelectionPatch, parseFilePatch } from '../diffHunks';
+
+const MODIFIED = `diff --git a/list.txt b/list.txt
+index 1111111..2222222 100644
+--- a/list.txt
++++ b/list.txt
+@@ -1,4 +1,4 @@ header
+ a
+-b
++B
+ c
+ d
+@@ -8,3 +8,4 @@ section
+ h
+ i
++j
+ k
+`;
+
+describe('parseFilePatch', () => {
+  it('splits headers and hunks', () => {
+    const patch = parseFilePatch(MODIFIED)!;
+    expect(patch.headers).toHaveLength(4);
+    expect(patch.hunks).toHaveLength(2);
+    expect(patch.hunks[1]).toMatchObject({
+      header: '@@ -8,3 +8,4 @@ section',
+      oldStart: 8,
+      oldLines: 3,
+      newStart: 8,
+      newLines: 4,
+      lines: [' h', ' i', '+j', ' k'],
+    });
+  });
+
+  it('returns null for an empty diff', () => {
+    expect(parseFilePatch('\n')).toBeNull();
+  });
+});
+
+describe('buildSelectionPatch', () => {
+  it('keeps only the selected hunks', () => {
+    const patch = parseFilePatch(MODIFIED)!;
+    const result = buildSelectionPatch(patch, [{ header: '@@ -8,3 +8,4 @@ section' }], false);
+    expect(result).toContain('@@ -8,3 +8,4 @@ section\n h\n i\n+j\n k\n');
+    expect(result).not.toContain('+B');
+  });
+
+  it('shifts later hunks by the lines earlier ones add', () => {
+    const patch = parseFilePatch(MODIFIED)!;
+    const result = buildSelectionPatch(
+      patch,
+      [{ header: '@@ -1,4 +1,4 @@ header', lines: [2] }, { header: '@@ -8,3 +8,4 @@ section' }],
+      false
+    );
+    expect(result).toContain('@@ -8,3 +9,4 @@ section');
+  });
+
+  it('turns unselected lines into context on the side the patch applies to', () => {
+    const patch = parseFilePatch(MODIFIED)!;
+    const header = '@@ -1,4 +1,4 @@ header';
+
+    // Staging only the addition keeps the removed line
+    expect(buildSelectionPatch(patch, [{ header, lines: [2] }], false)).toContain(
+      '@@ -1,4 +1,5 @@ header\n a\n b\n+B\n c\n d\n'
+    );
+    // Unstaging only the addition drops the removal from the reversed patch
+    expect(buildSelectionPatch(patch, [{ header, lines: [2] }], true)).toContain(
+      '@@ -1,3 +1,4 @@ header\n a\n+B\n c\n d\n'
+    );
+  });
+
+  it('rejects hunks that are no longer in the diff', () => {
+    const patch = parseFilePatch(MODIFIED)!;
+    expect(() => buildSelectionPatch(patch, [{ header: '@@ -1,2 +1,2 @@' }], false)).toThrow(
+      /diff changed/
+    );
+  });
+
+  it('discarding part of a new file leaves the file in place', () => {
+    const patch = parseFilePatch(
+      'diff --git a/new.txt b/new.txt\nnew file mode 100644\nindex 0000000..3333333\n--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1,2 @@\n+one\n+two\n'
+    )!;
+    const result = buildSelectionPatch(patch, [{ header: '@@ -0,0 +1,2 @@', lines: [1] }], true);
+    expect(result).not.toContain('new file mode');
+    expect(result).toContain('--- a/new.txt\n+++ b/new.txt\n@@ -1,1 +1,2 @@\n one\n+two\n');
+  });
+});
+
+describe('buildSelectionPatch with git apply', () => {
+  let repo: string;
+  const git = (...args: string[]) =>
+    execFileSync('git', args, { cwd: repo, encoding: 'utf8', stdio: 'pipe' });
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'valkyr-hunks-'));
+    git('init', '-q');
+    fs.writeFileSync(path.join(repo, 'list.txt'), 'a\nb\nc\nd\ne\nf\ng\nh\ni\nk\n');
+    git('add', 'list.txt');
+    fs.writeFileSync(path.join(repo, 'list.txt'), 'a\nB\nc\nd\ne\nf\ng\nh\ni\nj\nk\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('stages a single line and leaves the rest unstaged', () => {
+    const patch = parseFilePatch(git('diff', '--no-color', '--unified=3'))!;
+    const file = path.join(repo, 'selection.patch');
+    fs.writeFileSync(
+      file,
+      buildSelectionPatch(patch, [{ header: patch.hunks[0].header, lines: [2] }], false)
+    );
+    git('apply', '--cached', file);
+
+    expect(git('show', ':list.txt')).toBe('a\nb\nB\nc\nd\ne\nf\ng\nh\ni\nk\n');
+    expect(fs.readFileSync(path.join(repo, 'list.txt'), 'utf8')).toContain('a\nB\nc');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isPathInside, PathGuardError, resolveGuardedPath } from '../pathGuard';
+
+describe('pathGuard', () => {
+  let tmpDir: string;
+  let root: string;
+  let outside: string;
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'path-guard-test-')));
+    root = path.join(tmpDir, 'task');
+    outside = path.join(tmpDir, 'outside');
+    fs.mkdirSync(path.join(root, 'src'), { recursive: true });
+    fs.mkdirSync(outside);
+    fs.writeFileSync(path.join(outside, 'secret.txt'), 'secret');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('isPathInside', () => {
+    it('compares whole path segments', () => {
+      expect(isPathInside('/wt/task', '/wt/task')).toBe(true);
+      expect(isPathInside('/wt/task', '/wt/task/src/a.ts')).toBe(true);
+      expect(isPathInside('/wt/task', '/wt/task-2/a.ts')).toBe(false);
+      expect(isPathInside('/wt/task', '/wt/task/..foo')).toBe(true);
+      expect(isPathInside('/wt/task', '/wt')).toBe(false);
+    });
+  });
+
+  describe('resolveGuardedPath', () => {
+    it('resolves relative paths inside the root', async () => {
+      await expect(resolveGuardedPath('src/a.ts', { root }, 'write')).resolves.toBe(
+        path.join(root, 'src', 'a.ts')
+      );
+    });
+
+    it('blocks .. traversal', async () => {
+      await expect(
+        resolveGuardedPath('../outside/secret.txt', { root }, 'read')
+      ).rejects.toBeInstanceOf(PathGuardError);
+    });
+
+    it('blocks sibling directories that share the root as a prefix', async () => {
+      const sibling = `${root}-2`;
+      fs.mkdirSync(sibling);
+      await expect(
+        resolveGuardedPath(path.join(sibling, 'a.ts'), { root }, 'write')
+      ).rejects.toBeInstanceOf(PathGuardError);
+    });
+
+    it('blocks reads through a symlink that points outside', async () => {
+      fs.symlinkSync(outside, path.join(root, 'escape'));
+      const err = await resolveGuardedPath('escape/secret.txt', { root }, 'read').catch((e) => e);
+      expect(err).toBeInstanceOf(PathGuardError);
+      expect(err.resolvedPath).toBe(path.join(outside, 'secret.txt'));
+      expect(err.access).toBe('read');
+    });
+
+    it('blocks writes through a dangling symlink that points outside', async () => {
+      fs.symlinkSync(path.join(outside, 'new.txt'), path.join(root, 'dangling'));
+      await expect(resolveGuardedPath('dangling', { root }, 'write')).rejects.toBeInstanceOf(
+        PathGuardError
+      );
+    });
+
+    it('allows writes to nested paths that do not exist yet', async () => {
+      await expect(resolveGuardedPath('a/b/c/new.ts', { root }, 'write')).resolves.toBe(
+        path.join(root, 'a', 'b', 'c', 'new.ts')
+      );
+    });
+
+    it('allows symlinks that stay inside the root', async () => {
+      fs.symlinkSync(path.join(root, 'src'), path.join(root, 'alias'));
+      await expect(resolveGuardedPath('alias/a.ts', { root }, 'write')).resolves.toBe(
+        path.join(root, 'src', 'a.ts')
+      );
+    });
+
+    it('allows reads but not writes in read-only roots', async () => {
+      const target = path.join(outside, 'secret.txt');
+      const roots = { root, readOnlyRoots: [outside] };
+      await expect(resolveGuardedPath(target, roots, 'read')).resolves.toBe(target);
+      await expect(resolveGuardedPath(target, roots, 'write')).rejects.toBeInstanceOf(
+        PathGuardError
+      );
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildSandboxCommand, isSecretEnvVar, scrubSecretEnv } from '../terminalSandbox';
+
+describe('terminalSandbox', () => {
+  describe('scrubSecretEnv', () => {
+    it('drops credentials and keeps ordinary variables', () => {
+      const scrubbed = scrubSecretEnv({
+        PATH: '/usr/bin',
+        HOME: '/home/me',
+        ANTHROPIC_API_KEY: 'sk-1',
+        GITHUB_TOKEN: 'ghp',
+        AWS_PROFILE: 'prod',
+        DB_PASSWORD: 'pw',
+        SSH_AUTH_SOCK: '/tmp/agent.sock',
+        TOKENIZERS_PARALLELISM: 'false',
+      });
+      expect(scrubbed).toEqual({
+        PATH: '/usr/bin',
+        HOME: '/home/me',
+        TOKENIZERS_PARALLELISM: 'false',
+      });
+    });
+
+    it('drops extra names supplied by the caller', () => {
+      expect(scrubSecretEnv({ MY_VENDOR_CRED: 'x', LANG: 'C' }, ['MY_VENDOR_CRED'])).toEqual({
+        LANG: 'C',
+      });
+    });
+
+    it('recognises common secret name shapes', () => {
+      expect(isSecretEnvVar('OPENAI_API_KEY')).toBe(true);
+      expect(isSecretEnvVar('STRIPE_SECRET')).toBe(true);
+      expect(isSecretEnvVar('NODE_ENV')).toBe(false);
+    });
+  });
+
+  describe('buildSandboxCommand', () => {
+    let tmpDir: string | null = null;
+
+    afterEach(() => {
+      if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+      tmpDir = null;
+    });
+
+    it('mounts the worktree read-write and wraps the command', () => {
+      const { command, args } = buildSandboxCommand('/usr/bin/bwrap', 'npm', ['test'], {
+        worktreePath: '/work/tree',
+        cwd: '/work/tree/pkg',
+        network: true,
+      });
+      expect(command).toBe('/usr/bin/bwrap');
+      expect(args.slice(0, 3)).toEqual(['--ro-bind', '/', '/']);
+      expect(args).toContain('--bind');
+      expect(args[args.indexOf('--bind') + 1]).toBe('/work/tree');
+      expect(args).not.toContain('--unshare-net');
+      expect(args.slice(-5)).toEqual(['--chdir', '/work/tree/pkg', '--', 'npm', 'test']);
+    });
+
+    it('disables the network when requested', () => {
+      const { args } = buildSandboxCommand('/usr/bin/bwrap', 'ls', [], {
+        worktreePath: '/work/tree',
+        cwd: '/work/tree',
+        network: false,
+      });
+      expect(args).toContain('--unshare-net');
+    });
+
+    const mounts = (args: string[], flag: string) =>
+      args.flatMap((a, i) => (a === flag ? [args[i + 1]] : []));
+
+    it('binds only the git dirs a commit needs for a linked worktree', () => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-test-'));
+      const repoGit = path.join(tmpDir, 'repo', '.git');
+      const wtGit = path.join(repoGit, 'worktrees', 'task');
+      const worktree = path.join(tmpDir, 'task');
+      for (const dir of [
+        wtGit,
+        worktree,
+        ...['objects', 'refs', 'hooks'].map((d) => path.join(repoGit, d)),
+      ]) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      fs.writeFileSync(path.join(repoGit, 'config'), '');
+      fs.writeFileSync(path.join(worktree, '.git'), `gitdir: ${wtGit}\n`);
+      fs.writeFileSync(path.join(wtGit, 'commondir'), '../..\n');
+
+      const { args } = buildSandboxCommand('/usr/bin/bwrap', 'git', ['status'], {
+        worktreePath: worktree,
+        cwd: worktree,
+        network: true,
+      });
+      expect(mounts(args, '--bind')).toEqual([
+        worktree,
+        wtGit,
+        path.join(repoGit, 'objects'),
+        path.join(repoGit, 'refs'),
+      ]);
+      expect(mounts(args, '--ro-bind')).toEqual(['/', path.join(worktree, '.git')]);
+    });
+
+    it('keeps hooks, config and info read-only in a plain checkout', () => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-test-'));
+      const dotGit = path.join(tmpDir, '.git');
+      fs.mkdirSync(dotGit);
+      fs.writeFileSync(path.join(dotGit, 'config'), '');
+
+      const { args } = buildSandboxCommand('/usr/bin/bwrap', 'git', ['status'], {
+        worktreePath: tmpDir,
+        cwd: tmpDir,
+        network: true,
+      });
+      expect(mounts(args, '--bind')).toEqual([tmpDir]);
+      expect(mounts(args, '--ro-bind')).toEqual([
+        '/',
+        path.join(dotGit, 'hooks'),
+        path.join(dotGit, 'config'),
+        path.join(dotGit, 'info'),
+      ]);
+      expect(args.indexOf('--ro-bind', 1)).toBeGreaterThan(args.indexOf('--bind'));
+      expect(fs.statSync(path.join(dotGit, 'hooks')).isDirectory()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import type { DiffHunk, FilePatch, HunkAction, HunkSelection } from '@shared/diffHunks';
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/;
+
+/** Which diff an action takes its hunks from and how `git apply` must run. */
+export const HUNK_ACTIONS: Record<
+  HunkAction,
+  { source: 'unstaged' | 'staged'; cached: boolean; reverse: boolean }
+> = {
+  stage: { source: 'unstaged', cached: true, reverse: false },
+  unstage: { source: 'staged', cached: true, reverse: true },
+  discard: { source: 'unstaged', cached: false, reverse: true },
+};
+
+/** Split the `git diff` output of one file into headers and hunks; null when it is empty. */
+export function parseFilePatch(raw: string): FilePatch | null {
+  if (!raw.trim()) return null;
+  const headers: string[] = [];
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+
+  for (const line of raw.split('\n')) {
+    const match = HUNK_HEADER.exec(line);
+    if (match) {
+      current = {
+        header: line,
+        oldStart: Number(match[1]),
+        oldLines: match[2] === undefined ? 1 : Number(match[2]),
+        newStart: Number(match[3]),
+        newLines: match[4] === undefined ? 1 : Number(match[4]),
+        lines: [],
+      };
+      hunks.push(current);
+    } else if (!current) {
+      if (line) headers.push(line);
+    } else if (line && ' +-\\'.includes(line[0])) {
+      current.lines.push(line);
+    } else {
+      // Blank trailing line or the start of another file's diff
+      current = null;
+    }
+  }
+  return { headers, hunks };
+}
+
+/**
+ * Patch containing only the selected hunks, and within those only the selected
+ * lines. Unselected changes are dropped on the side the patch does not touch
+ * and kept as context on the side it applies to, like `git add -p` editing.
+ * Forward patches apply to the old side of the diff, reverse ones (`-R`) to
+ * the new side.
+ */
+export function buildSelectionPatch(
+  patch: FilePatch,
+  selections: HunkSelection[],
+  reverse: boolean
+): string {
+  const hunksByHeader = new Map(patch.hunks.map((hunk) => [hunk.header, hunk]));
+  for (const selection of selections) {
+    if (!hunksByHeader.has(selection.header)) {
+      throw new Error('The diff changed since it was loaded; refresh it and try again');
+    }
+  }
+
+  const selected = new Map(selections.map((s) => [s.header, s]));
+  const body: string[] = [];
+  let partial = selected.size < patch.hunks.length;
+  let delta = 0;
+
+  for (const hunk of patch.hunks) {
+    const selection = selected.get(hunk.header);
+    if (!selection) continue;
+    const picked = selection.lines ? new Set(selection.lines) : null;
+    const lines: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    let changed = false;
+    let dropped = false;
+
+    hunk.lines.forEach((line, index) => {
+      const prefix = line[0];
+      if (prefix === '\\') {
+        // "No newline at end of file" belongs to the line before it
+        if (!dropped) lines.push(line);
+        return;
+      }
+      dropped = false;
+      if (prefix === ' ') {
+        lines.push(line);
+        oldCount++;
+        newCount++;
+      } else if (!picked || picked.has(index)) {
+        lines.push(line);
+        changed = true;
+        if (prefix === '+') newCount++;
+        else oldCount++;
+      } else if (prefix === (reverse ? '-' : '+')) {
+        dropped = true;
+        partial = true;
+      } else {
+        lines.push(` ${line.slice(1)}`);
+        oldCount++;
+        newCount++;
+        partial = true;
+      }
+    });
+    if (!changed) continue;
+
+    // The side the patch applies to keeps its position; the other shifts by
+    // what earlier hunks in this patch added or removed
+    const suffix = HUNK_HEADER.exec(hunk.header)?.[5] ?? '';
+    let oldStart: number;
+    let newStart: number;
+    if (reverse) {
+      newStart = hunk.newStart;
+      oldStart = shiftStart(newStart, newCount, oldCount, -delta);
+    } else {
+      oldStart = hunk.oldStart;
+      newStart = shiftStart(oldStart, oldCount, newCount, delta);
+    }
+    delta += newCount - oldCount;
+    body.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@${suffix}`, ...lines);
+  }
+
+  if (body.length === 0) {
+    throw new Error('No changes selected');
+  }
+  return [...patchHeaders(patch.headers, partial, reverse), ...body, ''].join('\n');
+}
+
+/**
+ * Start line on one side of a hunk from the start on the other. Git numbers an
+ * empty range by the line before it, so convert through the first line.
+ */
+function shiftStart(fromStart: number, fromCount: number, toCount: number, delta: number) {
+  const first = (fromCount === 0 ? fromStart + 1 : fromStart) + delta;
+  return Math.max(0, toCount === 0 ? first - 1 : first);
+}
+
+/**
+ * A partial patch of a created or deleted file no longer creates or deletes it
+ * on the side it applies to, so turn it into a plain modification there.
+ */
+function patchHeaders(headers: string[], partial: boolean, reverse: boolean): string[] {
+  const isNew = headers.some((h) => h.startsWith('new file mode'));
+  const isDeleted = headers.some((h) => h.startsWith('deleted file mode'));
+  if (!partial || !((isNew && reverse) || (isDeleted && !reverse))) return headers;
+
+  const pathHeader = headers.find(
+    (h) => (h.startsWith('--- ') || h.startsWith('+++ ')) && !h.endsWith('/dev/null')
+  );
+  const filePath = pathHeader?.slice(4).replace(/^[ab]\//, '');
+  if (!filePath) return headers;
+  return headers
+    .filter((h) => !h.startsWith('new file mode') && !h.startsWith('deleted file mode'))
+    .map((h) => {
+      if (h === '--- /dev/null') return `--- a/${filePath}`;
+      if (h === '+++ /dev/null') return `+++ b/${filePath}`;
+      return h;
+    });
+}
@@ -0,0 +1,184 @@
+import {
+  RESET_MODES,
+  type BlameCommit,
+  type CommitFile,
+  type CommitInfo,
+  type CommitSide,
+  type FileBlame,
+  type HistoryAction,
+} from '@shared/gitHistory';
+
+/** Tree of an empty repository, to diff root commits against. */
+export const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+const FIELD = '%x1f';
+const RECORD = '%x1e';
+
+/** `--format` of `git log` for {@link parseLog}; `withBody` appends the message body. */
+export function logFormat(withBody = false): string {
+  const fields = ['%H', '%P', '%an', '%ae', '%aI', '%D', '%s'];
+  if (withBody) fields.push('%b');
+  return `--format=${fields.join(FIELD)}${RECORD}`;
+}
+
+export type LogEntry = Omit<CommitInfo, 'side'> & { body?: string };
+
+export function parseLog(stdout: string): LogEntry[] {
+  const entries: LogEntry[] = [];
+  for (const record of stdout.split('\x1e')) {
+    const trimmed = record.replace(/^\n+/, '');
+    if (!trimmed) continue;
+    const [sha, parents, author, email, date, refs, subject, ...body] = trimmed.split('\x1f');
+    entries.push({
+      sha,
+      parents: parents ? parents.split(' ') : [],
+      author,
+      email,
+      date,
+      subject: subject ?? '',
+      refs: refs
+        ? refs
+            .split(', ')
+            .map((ref) => ref.replace(/^HEAD -> /, ''))
+            .filter((ref) => ref && ref !== 'HEAD')
+        : [],
+      ...(body.length ? { body: body.join('\x1f').trim() } : {}),
+    });
+  }
+  return entries;
+}
+
+/**
+ * Classify log entries by the branches they are on, given the outputs of
+ * `git rev-list base..HEAD` and `git rev-list HEAD..base`. Without a base,
+ * every commit counts as the task's.
+ */
+export function assignSides(
+  entries: LogEntry[],
+  sides: { taskOnly: string; baseOnly: string } | null
+): CommitInfo[] {
+  const task = new Set(sides?.taskOnly.split('\n').filter(Boolean));
+  const base = new Set(sides?.baseOnly.split('\n').filter(Boolean));
+  return entries.map(({ body: _body, ...entry }) => {
+    let side: CommitSide = 'shared';
+    if (!sides || task.has(entry.sha)) side = 'task';
+    else if (base.has(entry.sha)) side = 'base';
+    return { ...entry, side };
+  });
+}
+
+/** New path of a `--numstat` rename entry: `old => new` or `dir/{old => new}/file`. */
+function numstatPath(raw: string): string {
+  if (!raw.includes(' => ')) return raw;
+  const braced = raw.match(/\{(.*?) => (.*?)\}/);
+  if (braced) return raw.replace(braced[0], braced[2]).replace('//', '/');
+  return raw.split(' => ').pop()!.trim();
+}
+
+/** Combine `git diff --name-status -M` and `git diff --numstat -M` of the same range. */
+export function parseCommitFiles(nameStatus: string, numstat: string): CommitFile[] {
+  const stats = new Map<string, { additions: number; deletions: number }>();
+  for (const line of numstat.split('\n')) {
+    const [added, deleted, ...rest] = line.split('\t');
+    if (!rest.length) continue;
+    stats.set(numstatPath(rest.join('\t')), {
+      additions: added === '-' ? 0 : Number(added) || 0,
+      deletions: deleted === '-' ? 0 : Number(deleted) || 0,
+    });
+  }
+
+  const files: CommitFile[] = [];
+  for (const line of nameStatus.split('\n')) {
+    const parts = line.split('\t');
+    if (parts.length < 2) continue;
+    const code = parts[0];
+    const filePath = parts[parts.length - 1];
+    let status: CommitFile['status'] = 'modified';
+    if (code.startsWith('A')) status = 'added';
+    else if (code.startsWith('D')) status = 'deleted';
+    else if (code.startsWith('R')) status = 'renamed';
+    files.push({
+      path: filePath,
+      ...(status === 'renamed' ? { oldPath: parts[1] } : {}),
+      status,
+      additions: stats.get(filePath)?.additions ?? 0,
+      deletions: stats.get(filePath)?.deletions ?? 0,
+    });
+  }
+  return files;
+}
+
+const UNCOMMITTED_SHA = /^0{40}$/;
+const BLAME_HEADER = /^([0-9a-f]{40}) \d+ \d+(?: (\d+))?$/;
+
+/** Parse `git blame --porcelain`. */
+export function parseBlame(stdout: string): FileBlame {
+  const commits: Record<string, BlameCommit> = {};
+  const lines: string[] = [];
+  let current: BlameCommit | null = null;
+
+  for (const line of stdout.split('\n')) {
+    const header = BLAME_HEADER.exec(line);
+    if (header) {
+      const sha = header[1];
+      commits[sha] ??= {
+        sha,
+        author: '',
+        email: '',
+        date: '',
+        summary: '',
+        uncommitted: UNCOMMITTED_SHA.test(sha),
+      };
+      current = commits[sha];
+      continue;
+    }
+    if (!current) continue;
+    if (line.startsWith('\t')) {
+      lines.push(current.sha);
+    } else if (line.startsWith('author ')) {
+      current.author = line.slice('author '.length);
+    } else if (line.startsWith('author-mail ')) {
+      current.email = line.slice('author-mail '.length).replace(/^<|>$/g, '');
+    } else if (line.startsWith('author-time ')) {
+      current.date = new Date(Number(line.slice('author-time '.length)) * 1000).toISOString();
+    } else if (line.startsWith('summary ')) {
+      current.summary = line.slice('summary '.length);
+    }
+  }
+  return { commits, lines };
+}
+
+/**
+ * `git` arguments performing a history action. Merge commits are reverted and
+ * cherry-picked relative to their first parent.
+ */
+export function historyActionArgs(action: HistoryAction, isMerge: boolean): string[] {
+  const mainline = isMerge ? ['-m', '1'] : [];
+  switch (action.type) {
+    case 'revert':
+      return ['revert', '--no-edit', ...mainline, action.sha];
+    case 'cherry-pick':
+      return ['cherry-pick', ...mainline, action.sha];
+    case 'reset':
+      if (!RESET_MODES.includes(action.mode)) throw new Error(`Invalid reset mode: ${action.mode}`);
+      return ['reset', `--${action.mode}`, action.sha];
+  }
+}
+
+export function historyConflictMessage(action: HistoryAction): string {
+  const verb = action.type === 'revert' ? 'Reverting' : 'Cherry-picking';
+  return `${verb} ${action.sha.slice(0, 7)} conflicts with the task branch; nothing was changed`;
+}
+
+/** Command that gives up a revert or cherry-pick that stopped on conflicts. */
+export function historyAbortArgs(action: HistoryAction): string[] | null {
+  if (action.type === 'reset') return null;
+  return [action.type, '--abort'];
+}
+
+const SHA_LIKE = /^[0-9a-f]{4,40}$/i;
+
+/** Reject anything that is not a commit hash before it reaches git's argument list. */
+export function assertSha(sha: string): void {
+  if (!SHA_LIKE.test(sha)) throw new Error(`Invalid commit: ${sha}`);
+}
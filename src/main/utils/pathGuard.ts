@@ -0,0 +1,116 @@
+/**
+ * Path validation for agent-supplied paths (ACP fs and terminal requests).
+ *
+ * Paths are resolved through symlinks before they are checked, and roots are
+ * compared on whole path segments so `/wt/task-2` is never inside `/wt/task`.
+ */
+
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+
+export type PathAccess = 'read' | 'write';
+
+export interface PathGuardRoots {
+  /** Read-write root, usually the task worktree. Relative paths resolve against it. */
+  root: string;
+  /** Additional roots that may be read but never written (e.g. the main repo). */
+  readOnlyRoots?: string[];
+}
+
+export class PathGuardError extends Error {
+  readonly code = 'PATH_BLOCKED';
+
+  constructor(
+    public readonly requestedPath: string,
+    public readonly resolvedPath: string,
+    public readonly access: PathAccess
+  ) {
+    super(`Path outside allowed roots (${access}): ${requestedPath}`);
+    this.name = 'PathGuardError';
+  }
+}
+
+/** Maximum symlink hops followed when resolving a dangling link. */
+const MAX_SYMLINK_HOPS = 40;
+
+/**
+ * True when `target` is `root` or lies beneath it, compared segment-wise.
+ * Pass `path.posix` to compare paths on a remote host.
+ */
+export function isPathInside(
+  root: string,
+  target: string,
+  pathApi: path.PlatformPath = path
+): boolean {
+  const rel = pathApi.relative(root, target);
+  return (
+    rel === '' || (rel !== '..' && !rel.startsWith(`..${pathApi.sep}`) && !pathApi.isAbsolute(rel))
+  );
+}
+
+/**
+ * Resolve an absolute path through symlinks, including paths that do not
+ * exist yet (for writes) and dangling symlinks whose target would be created.
+ */
+export async function resolveRealPath(target: string, hops = 0): Promise<string> {
+  if (hops > MAX_SYMLINK_HOPS) {
+    throw new Error(`Too many symlinks resolving ${target}`);
+  }
+  try {
+    return await fsp.realpath(target);
+  } catch (err: any) {
+    if (err?.code !== 'ENOENT' && err?.code !== 'ENOTDIR') throw err;
+  }
+
+  const parent = path.dirname(target);
+  if (parent === target) return target;
+
+  // A dangling symlink: follow it manually so writes can't land outside via the link
+  const stat = await fsp.lstat(target).catch(() => null);
+  if (stat?.isSymbolicLink()) {
+    const link = await fsp.readlink(target);
+    return resolveRealPath(path.resolve(parent, link), hops + 1);
+  }
+
+  const realParent = await resolveRealPath(parent, hops);
+  return path.join(realParent, path.basename(target));
+}
+
+/**
+ * Path semantics and symlink resolution for the filesystem being guarded.
+ * Remote hosts supply `path.posix` and a realpath that runs on the host.
+ */
+export interface PathResolver {
+  path: path.PlatformPath;
+  /** Resolve symlinks like `resolveRealPath`, including paths that do not exist yet. */
+  realpath(target: string): Promise<string>;
+}
+
+const localPathResolver: PathResolver = { path, realpath: (target) => resolveRealPath(target) };
+
+/**
+ * Resolve `requested` against the roots and verify the real path is allowed
+ * for the given access. Returns the real path to use for the operation.
+ *
+ * @throws PathGuardError when the path escapes every permitted root
+ */
+export async function resolveGuardedPath(
+  requested: string,
+  roots: PathGuardRoots,
+  access: PathAccess,
+  resolver: PathResolver = localPathResolver
+): Promise<string> {
+  const { path: pathApi, realpath } = resolver;
+  const resolved = await realpath(pathApi.resolve(roots.root, requested));
+  const realRoot = await realpath(pathApi.resolve(roots.root));
+  if (isPathInside(realRoot, resolved, pathApi)) return resolved;
+
+  if (access === 'read') {
+    for (const extra of roots.readOnlyRoots ?? []) {
+      const realExtra = await realpath(pathApi.resolve(extra));
+      if (isPathInside(realExtra, resolved, pathApi)) return resolved;
+    }
+  }
+
+  throw new PathGuardError(requested, resolved, access);
+}
@@ -0,0 +1,174 @@
+/**
+ * Sandboxing for agent-spawned ACP terminals (Linux only).
+ *
+ * Commands run under bubblewrap with the whole filesystem mounted read-only,
+ * the task worktree (and the parts of its git dir a commit needs) mounted
+ * read-write, a private /tmp, and optionally no network. Git hooks and config
+ * stay read-only so a command cannot plant code for the app's own git calls.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface TerminalSandboxOptions {
+  /** Worktree mounted read-write inside the sandbox. */
+  worktreePath: string;
+  /** Working directory for the command (must be inside the worktree). */
+  cwd: string;
+  /** When false, the command runs in a fresh network namespace with no interfaces. */
+  network: boolean;
+}
+
+/** Env var names that are always stripped from sandboxed terminals. */
+const SECRET_ENV_NAMES = new Set([
+  'SSH_AUTH_SOCK',
+  'GPG_AGENT_INFO',
+  'GH_TOKEN',
+  'GITHUB_TOKEN',
+  'GITLAB_TOKEN',
+  'NPM_TOKEN',
+  'NODE_AUTH_TOKEN',
+  'DATABASE_URL',
+]);
+
+/** Name fragments that mark an env var as a credential. */
+const SECRET_ENV_PATTERN =
+  /(^|_)(TOKEN|SECRET|PASSWORD|PASSWD|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY|CREDENTIALS?|SESSION_?KEY)(_|$)/i;
+
+/** Env var prefixes belonging to cloud credential chains. */
+const SECRET_ENV_PREFIXES = ['AWS_', 'AZURE_', 'GOOGLE_APPLICATION_'];
+
+let cachedBwrapPath: string | null | undefined;
+
+/**
+ * Locate the bubblewrap binary on PATH. Returns null when unavailable or
+ * when not running on Linux. The result is cached for the process lifetime.
+ */
+export function findBwrap(): string | null {
+  if (cachedBwrapPath !== undefined) return cachedBwrapPath;
+  cachedBwrapPath = null;
+  if (process.platform !== 'linux') return null;
+
+  const dirs = (process.env.PATH || '').split(path.delimiter).filter(Boolean);
+  for (const dir of [...dirs, '/usr/bin', '/usr/local/bin']) {
+    const candidate = path.join(dir, 'bwrap');
+    try {
+      fs.accessSync(candidate, fs.constants.X_OK);
+      cachedBwrapPath = candidate;
+      break;
+    } catch {
+      // not here
+    }
+  }
+  return cachedBwrapPath;
+}
+
+export function isSecretEnvVar(name: string): boolean {
+  if (SECRET_ENV_NAMES.has(name)) return true;
+  if (SECRET_ENV_PREFIXES.some((prefix) => name.startsWith(prefix))) return true;
+  return SECRET_ENV_PATTERN.test(name);
+}
+
+/**
+ * Return a copy of `env` without credentials. `extraNames` lists additional
+ * variables to drop (e.g. the provider's own API key env vars).
+ */
+export function scrubSecretEnv(
+  env: Record<string, string>,
+  extraNames: string[] = []
+): Record<string, string> {
+  const extra = new Set(extraNames);
+  const out: Record<string, string> = {};
+  for (const [name, value] of Object.entries(env)) {
+    if (extra.has(name) || isSecretEnvVar(name)) continue;
+    out[name] = value;
+  }
+  return out;
+}
+
+/** Git dir entries a sandboxed command must not change: they decide what the app's own git runs. */
+const PROTECTED_GIT_ENTRIES = ['hooks', 'config', 'info'];
+
+/** Common-dir entries git writes when committing from a linked worktree. */
+const WRITABLE_COMMON_ENTRIES = ['objects', 'refs', 'logs'];
+
+interface GitMounts {
+  /** Paths bound read-write after the worktree. */
+  writable: string[];
+  /** Paths bound read-only over the writable mounts. */
+  readOnly: string[];
+}
+
+/**
+ * Work out which parts of the worktree's git metadata the sandbox may write.
+ *
+ * A linked worktree gets its own `worktrees/<name>` dir plus the shared
+ * objects, refs and logs; the rest of the common dir stays read-only, and its
+ * `.git` file is pinned so it cannot be pointed at another git dir. A plain
+ * checkout keeps `.git` inside the writable worktree, so its hooks, config
+ * and info are bound read-only on top.
+ */
+function resolveGitMounts(worktreePath: string): GitMounts {
+  const dotGit = path.join(worktreePath, '.git');
+  try {
+    const stat = fs.statSync(dotGit);
+    if (stat.isDirectory()) {
+      // A missing hooks or info dir could be created from inside the sandbox, so create it first
+      fs.mkdirSync(path.join(dotGit, 'hooks'), { recursive: true });
+      fs.mkdirSync(path.join(dotGit, 'info'), { recursive: true });
+      const readOnly = PROTECTED_GIT_ENTRIES.map((entry) => path.join(dotGit, entry));
+      return { writable: [], readOnly: readOnly.filter((p) => fs.existsSync(p)) };
+    }
+    const match = fs.readFileSync(dotGit, 'utf8').match(/^gitdir:\s*(.+)$/m);
+    if (!match) return { writable: [], readOnly: [dotGit] };
+    const gitDir = path.resolve(worktreePath, match[1].trim());
+    const writable = [gitDir];
+    const commonDirFile = path.join(gitDir, 'commondir');
+    if (fs.existsSync(commonDirFile)) {
+      const commonDir = path.resolve(gitDir, fs.readFileSync(commonDirFile, 'utf8').trim());
+      for (const entry of WRITABLE_COMMON_ENTRIES) {
+        const dir = path.join(commonDir, entry);
+        if (fs.existsSync(dir)) writable.push(dir);
+      }
+    }
+    return { writable: writable.filter((p) => fs.existsSync(p)), readOnly: [dotGit] };
+  } catch {
+    return { writable: [], readOnly: [] };
+  }
+}
+
+/**
+ * Build the bubblewrap invocation that runs `command args` inside the sandbox.
+ */
+export function buildSandboxCommand(
+  bwrapPath: string,
+  command: string,
+  args: string[],
+  opts: TerminalSandboxOptions
+): { command: string; args: string[] } {
+  const bwrapArgs = [
+    '--ro-bind',
+    '/',
+    '/',
+    '--dev',
+    '/dev',
+    '--proc',
+    '/proc',
+    '--tmpfs',
+    '/tmp',
+    '--bind',
+    opts.worktreePath,
+    opts.worktreePath,
+  ];
+  const git = resolveGitMounts(opts.worktreePath);
+  for (const dir of git.writable) {
+    bwrapArgs.push('--bind', dir, dir);
+  }
+  for (const entry of git.readOnly) {
+    bwrapArgs.push('--ro-bind', entry, entry);
+  }
+  bwrapArgs.push('--unshare-pid', '--die-with-parent', '--new-session');
+  if (!opts.network) bwrapArgs.push('--unshare-net');
+  bwrapArgs.push('--chdir', opts.cwd, '--', command, ...args);
+  return { command: bwrapPath, args: bwrapArgs };
+}
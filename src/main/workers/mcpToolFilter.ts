@@ -0,0 +1,58 @@
+import { createMcpTransport } from '../services/mcp/McpClient';
+import { McpToolFilter } from '../services/mcp/McpToolFilter';
+import type { McpServerConfig } from '@shared/mcp/types';
+
+/**
+ * MCP tool filter entry. Launched by the agent in place of an MCP server that
+ * has disabled tools (see McpConfigService) and run by Electron as plain
+ * Node. Speaks MCP over stdio and forwards to the configured server.
+ */
+
+const rawConfig = process.env.VALKYR_MCP_SERVER;
+if (!rawConfig) {
+  throw new Error('mcpToolFilter requires VALKYR_MCP_SERVER');
+}
+// Keep both out of the environment of a stdio upstream
+delete process.env.VALKYR_MCP_SERVER;
+delete process.env.ELECTRON_RUN_AS_NODE;
+
+const config = JSON.parse(rawConfig) as McpServerConfig;
+const filter = new McpToolFilter(
+  createMcpTransport(config),
+  config.disabledTools ?? [],
+  (message) => process.stdout.write(`${JSON.stringify(message)}\n`)
+);
+
+const fail = (error: Error) => {
+  // eslint-disable-next-line no-console
+  console.error(`mcpToolFilter: ${config.name}: ${error.message}`);
+  process.exit(1);
+};
+
+filter.start(fail).then(() => {
+  let buffer = '';
+  process.stdin.setEncoding('utf8');
+  process.stdin.on('data', (chunk: string) => {
+    buffer += chunk;
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (!line) continue;
+      try {
+        void filter.fromAgent(JSON.parse(line));
+      } catch {
+        // eslint-disable-next-line no-console
+        console.error('mcpToolFilter: ignoring malformed message');
+      }
+    }
+  });
+  // The agent closing stdin ends the session
+  process.stdin.on('end', () => {
+    filter.close().finally(() => process.exit(0));
+  });
+}, fail);
+
+process.on('SIGTERM', () => {
+  filter.close().finally(() => process.exit(0));
+});
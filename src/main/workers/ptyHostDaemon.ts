@@ -0,0 +1,38 @@
+import { PtyHostServer } from '../services/ptyHost/PtyHostServer';
+
+/**
+ * PTY host daemon entry. Launched detached by the app (see PtyHostClient) and
+ * run by Electron as plain Node, so terminals keep running across app restarts.
+ */
+
+const socketPath = process.env.VALKYR_PTY_HOST_SOCKET;
+const token = process.env.VALKYR_PTY_HOST_TOKEN;
+if (!socketPath || !token) {
+  throw new Error('ptyHostDaemon requires VALKYR_PTY_HOST_SOCKET and VALKYR_PTY_HOST_TOKEN');
+}
+delete process.env.VALKYR_PTY_HOST_TOKEN;
+
+const server = new PtyHostServer({
+  token,
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  spawn: (file, args, options) => require('node-pty').spawn(file, args, options),
+});
+
+server.on('idle', () => process.exit(0));
+
+const shutdown = () => {
+  server.close().finally(() => process.exit(0));
+};
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);
+// Losing the daemon loses every terminal; log and keep serving the other sessions
+process.on('uncaughtException', (error) => {
+  // eslint-disable-next-line no-console
+  console.error('ptyHostDaemon: uncaught exception', error);
+});
+
+server.listen(socketPath).catch((error) => {
+  // eslint-disable-next-line no-console
+  console.error('ptyHostDaemon: failed to listen', error);
+  process.exit(1);
+});
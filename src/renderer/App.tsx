@@ -36,6 +36,7 @@ import { useTheme } from './hooks/useTheme';
 import useUpdateNotifier from './hooks/useUpdateNotifier';
 import { AppLayout } from './layouts/AppLayout';
 import type { AgentRun } from './types/chat';
+import type { Issue } from '@shared/issues';
 import type { Project } from './types/app';
 
 // Extracted hooks
@@ -43,6 +44,7 @@ import { useModalState } from './hooks/useModalState';
 import { useAppInitialization } from './hooks/useAppInitialization';
 import { useProjectManagement } from './hooks/useProjectManagement';
 import { useTaskManagement } from './hooks/useTaskManagement';
+import { loadCustomAgents } from './hooks/useCustomAgents';
 import { createTask } from './lib/taskCreationService';
 
 // No layout constants needed - AppLayout handles them internally
@@ -141,6 +143,12 @@ const AppContent: React.FC = () => {
     activateProjectView: projectMgmt.activateProjectView,
   });
 
+  // Custom agents from settings and the selected project's .valkyr.json
+  const selectedProjectPath = projectMgmt.selectedProject?.path;
+  useEffect(() => {
+    void loadCustomAgents(selectedProjectPath);
+  }, [selectedProjectPath]);
+
   // Sidebar context change handler for LeftSidebar
   const handleSidebarContextChange = useCallback(
     (_state: { open: boolean; isMobile: boolean; setOpen: (next: boolean) => void }) => {
@@ -228,7 +236,8 @@ const AppContent: React.FC = () => {
       autoApprove?: boolean,
       useWorktree: boolean = true,
       baseRef?: string,
-      selectedSubRepos?: string[]
+      selectedSubRepos?: string[],
+      linkedIssue?: Issue
     ) => {
       if (!projectMgmt.selectedProject) return;
       await createTask(
@@ -240,6 +249,7 @@ const AppContent: React.FC = () => {
           useWorktree,
           baseRef,
           selectedSubRepos,
+          linkedIssue,
         },
         {
           selectedProject: projectMgmt.selectedProject,
@@ -483,6 +493,7 @@ const AppContent: React.FC = () => {
         handleSelectTask={taskMgmt.handleSelectTask}
         handleDeleteTask={taskMgmt.handleDeleteTask}
         handleArchiveTask={taskMgmt.handleArchiveTask}
+        handleTaskUpdated={taskMgmt.handleTaskUpdated}
         handleDeleteProject={projectMgmt.handleDeleteProject}
         handleOpenProject={projectMgmt.handleOpenProject}
         handleNewProjectClick={projectMgmt.handleNewProjectClick}
@@ -508,6 +519,7 @@ const AppContent: React.FC = () => {
       taskMgmt.handleSelectTask,
       taskMgmt.handleDeleteTask,
       taskMgmt.handleArchiveTask,
+      taskMgmt.handleTaskUpdated,
       projectMgmt.handleDeleteProject,
       projectMgmt.handleOpenProject,
       projectMgmt.handleNewProjectClick,
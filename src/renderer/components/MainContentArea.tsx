@@ -35,6 +35,7 @@ interface MainContentAreaProps {
     task: Task,
     options?: { silent?: boolean }
   ) => Promise<boolean>;
+  handleTaskUpdated: (projectId: string, task: Task) => void;
   handleDeleteProject: (project: Project) => Promise<void>;
   handleOpenProject: () => void;
   handleNewProjectClick: () => void;
@@ -61,6 +62,7 @@ const MainContentArea: React.FC<MainContentAreaProps> = ({
   handleSelectTask,
   handleDeleteTask,
   handleArchiveTask,
+  handleTaskUpdated,
   handleDeleteProject,
   handleOpenProject,
   handleNewProjectClick,
@@ -93,6 +95,7 @@ const MainContentArea: React.FC<MainContentAreaProps> = ({
                         projectName={project.name}
                         projectId={project.id}
                         projectPath={project.path}
+                        onTaskUpdated={(updated) => handleTaskUpdated(project.id, updated)}
                       />
                     ) : (
                       <ChatInterface
@@ -114,7 +117,12 @@ const MainContentArea: React.FC<MainContentAreaProps> = ({
   }
 
   if (showSkillsView) {
-    return <SkillsView />;
+    return (
+      <SkillsView
+        projectPath={selectedProject?.isRemote ? undefined : selectedProject?.path}
+        projectName={selectedProject?.name}
+      />
+    );
   }
 
   if (showHomeView) {
@@ -149,6 +157,7 @@ const MainContentArea: React.FC<MainContentAreaProps> = ({
                     projectId={project.id}
                     projectPath={project.path}
                     defaultBranch={isSelectedProject ? projectDefaultBranch : undefined}
+                    onTaskUpdated={(updated) => handleTaskUpdated(project.id, updated)}
                   />
                 ) : (
                   <ChatInterface
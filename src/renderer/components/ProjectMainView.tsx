@@ -7,9 +7,10 @@ import { Alert, AlertDescription, AlertTitle } from './ui/alert';
 import TaskDeleteButton from './project/TaskDeleteButton';
 import ProjectDeleteButton from './project/ProjectDeleteButton';
 import BaseBranchControls from './git/BaseBranchControls';
+import MergeStrategySelect from './git/MergeStrategySelect';
 import { pickDefaultBranch, type BranchOption } from './git/BranchSelect';
-const ConfigEditorModal = React.lazy(
-  () => import('./project/ConfigEditorModal').then((m) => ({ default: m.ConfigEditorModal }))
+const ConfigEditorModal = React.lazy(() =>
+  import('./project/ConfigEditorModal').then((m) => ({ default: m.ConfigEditorModal }))
 );
 import { useToast } from '../hooks/use-toast';
 import { TaskRow } from './project/TaskRow';
@@ -403,6 +404,7 @@ const ProjectMainView: React.FC<ProjectMainViewProps> = ({
                   >
                     Edit config
                   </button>
+                  <MergeStrategySelect projectId={project.id} />
                 </div>
                 {/* Show sub-repos info for multi-repo projects */}
                 {project.subRepos && project.subRepos.length > 0 && (
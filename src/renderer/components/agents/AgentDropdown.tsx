@@ -2,6 +2,7 @@ import React from 'react';
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from '../ui/select';
 import { type Agent } from '../../types';
 import { agentConfig } from '../../lib/agentConfig';
+import { useCustomAgents } from '../../hooks/useCustomAgents';
 
 interface AgentDropdownProps {
   value: Agent;
@@ -18,6 +19,7 @@ export const AgentDropdown: React.FC<AgentDropdownProps> = ({
   disabledAgents = [],
   className = '',
 }) => {
+  useCustomAgents();
   const installedSet = new Set(installedAgents);
   return (
     <Select value={value} onValueChange={(v) => onChange(v as Agent)}>
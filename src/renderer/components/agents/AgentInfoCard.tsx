@@ -3,7 +3,11 @@ import { type UiAgent } from '@/providers/meta';
 import { agentAssets } from '@/providers/assets';
 import { ArrowUpRight, Check, Copy } from 'lucide-react';
 import { Button } from '../ui/button';
-import { getDocUrlForProvider, getInstallCommandForProvider } from '@shared/providers/registry';
+import {
+  getDocUrlForProvider,
+  getInstallCommandForProvider,
+  getProvider,
+} from '@shared/providers/registry';
 
 export type AgentInfo = {
   title: string;
@@ -120,7 +124,13 @@ type Props = {
 };
 
 export const AgentInfoCard: React.FC<Props> = ({ id }) => {
-  const info = agentInfo[id];
+  const provider = getProvider(id);
+  // Custom agents have no entry; show their definition and the command that starts them
+  const info: AgentInfo = agentInfo[id] ?? {
+    title: provider?.name ?? id,
+    description: provider?.description,
+    installCommand: [provider?.cli, ...(provider?.defaultArgs ?? [])].join(' '),
+  };
   const asset = agentAssets[id];
   const logo = asset.logo;
   const brand = asset.name;
@@ -8,6 +8,7 @@ import { Badge } from '../ui/badge';
 import type { UiAgent } from '@/providers/meta';
 import { type Agent } from '../../types';
 import { agentConfig } from '../../lib/agentConfig';
+import { useCustomAgents } from '../../hooks/useCustomAgents';
 
 interface AgentSelectorProps {
   value: Agent;
@@ -22,6 +23,7 @@ export const AgentSelector: React.FC<AgentSelectorProps> = ({
   disabled = false,
   className = '',
 }) => {
+  useCustomAgents();
   return (
     <div className={`relative block w-[12rem] min-w-0 ${className}`}>
       <Select
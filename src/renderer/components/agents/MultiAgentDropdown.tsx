@@ -7,6 +7,7 @@ import { type AgentRun } from '../../types/chat';
 import { agentConfig } from '../../lib/agentConfig';
 import { AgentInfoCard } from './AgentInfoCard';
 import type { UiAgent } from '@/providers/meta';
+import { useCustomAgents } from '../../hooks/useCustomAgents';
 
 const MAX_RUNS = 4;
 
@@ -23,6 +24,8 @@ export const MultiAgentDropdown: React.FC<MultiAgentDropdownProps> = ({
   className = '',
   disabledAgents = [],
 }) => {
+  // Re-render when custom agents are loaded; they follow the built-ins in agentConfig
+  useCustomAgents();
   // Use agentConfig order directly (already properly ordered)
   const sortedAgents = Object.entries(agentConfig);
   const [open, setOpen] = useState(false);
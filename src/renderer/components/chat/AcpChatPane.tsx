@@ -11,12 +11,11 @@ import {
   CopyIcon,
   ListPlusIcon,
   Loader2,
-  PaperclipIcon,
   PencilIcon,
   RefreshCwIcon,
-  XIcon,
 } from 'lucide-react';
 import { useAcpSession } from '../../hooks/useAcpSession';
+import { useAcpPromptQueue } from '../../hooks/useAcpPromptQueue';
 import {
   LazyAcpChatTransport,
   type AcpUsageData,
@@ -36,6 +35,9 @@ import {
   normalizeFromKind,
 } from '../../lib/toolRenderer';
 import type {
+  AcpCheckpoint,
+  AcpProposedWrite,
+  AcpQueuedPrompt,
   AcpSessionStatus,
   AcpSessionModes,
   AcpSessionModels,
@@ -45,8 +47,11 @@ import { unifiedStatusStore } from '../../lib/unifiedStatusStore';
 import { agentConfig } from '../../lib/agentConfig';
 import type { Agent } from '../../types';
 import { AcpErrorCard } from './AcpErrorCard';
+import { toast } from '../../hooks/use-toast';
 import { AcpChatToolbar } from './AcpChatToolbar';
 import { AcpPlanPanel } from './AcpPlanPanel';
+import { AcpProposedWritesPanel } from './AcpProposedWritesPanel';
+import { AcpPromptQueue } from './AcpPromptQueue';
 import { ToolRunMiniIcons } from './ToolRunMiniIcons';
 import { ScrollBridge, UserMessageNavButton } from './ScrollHelpers';
 import { resolveModelId, estimateTokensFromMessages } from './acpModelUtils';
@@ -55,6 +60,7 @@ import {
   extractMarkdownSources,
   findPlanFileInfo,
   summarizeToolRun,
+  toPromptFiles,
 } from './acpChatUtils';
 import { getSettings } from '../../services/settingsService';
 import {
@@ -155,21 +161,10 @@ import {
 } from '../ai-elements/attachments';
 import { Suggestions, Suggestion } from '../ai-elements/suggestion';
 import { Task, TaskTrigger, TaskContent, TaskItem, TaskItemFile } from '../ai-elements/task';
-import {
-  Queue,
-  QueueSection,
-  QueueSectionTrigger,
-  QueueSectionLabel,
-  QueueSectionContent,
-  QueueList,
-  QueueItem,
-  QueueItemIndicator,
-  QueueItemContent,
-  QueueItemActions,
-  QueueItemAction,
-} from '../ai-elements/queue';
 import { useToolOutput } from '../../lib/toolOutputStore';
+import { onChatAttach, onChatPrompt } from '../../lib/chatAttachmentStore';
 import { getProvider, type ProviderId } from '@shared/providers/registry';
+import { formatBudgetBreach } from '@shared/usage';
 
 type AcpChatPaneProps = {
   taskId?: string;
@@ -211,11 +206,25 @@ function AttachmentSync({
   return null;
 }
 
+/**
+ * Adds files other views hand to this task's chat (e.g. preview logs) to the
+ * prompt attachments. Must be rendered inside <PromptInput> tree.
+ */
+function ChatAttachReceiver({ taskId }: { taskId?: string }) {
+  const { add } = usePromptInputAttachments();
+  useEffect(() => {
+    if (!taskId) return;
+    return onChatAttach(taskId, (files) => add(files));
+  }, [taskId, add]);
+  return null;
+}
+
 // ---------------------------------------------------------------------------
 // Inner component — mounts when lazy transport is available
 // ---------------------------------------------------------------------------
 
 type AcpChatInnerProps = {
+  taskId?: string;
   conversationId: string;
   providerId: string;
   cwd: string;
@@ -240,10 +249,12 @@ type AcpChatInnerProps = {
   onMoveRight?: () => void;
   canMoveLeft?: boolean;
   canMoveRight?: boolean;
+  onRestartSession?: () => void;
   className: string;
 };
 
 function AcpChatInner({
+  taskId,
   conversationId,
   providerId,
   cwd,
@@ -268,6 +279,7 @@ function AcpChatInner({
   onMoveRight,
   canMoveLeft = true,
   canMoveRight = true,
+  onRestartSession,
   className,
 }: AcpChatInnerProps) {
   const [currentModeId, setCurrentModeId] = useState(initialModes?.currentModeId ?? '');
@@ -290,13 +302,21 @@ function AcpChatInner({
 
   const historyIndexRef = useRef(-1);
 
-  // Message queue for rapid sends
-  const messageQueueRef = useRef<Array<{ text: string; files?: any[] }>>([]);
-  const [queuedMessages, setQueuedMessages] = useState<Array<{ text: string; files?: any[] }>>([]);
+  // Follow-up prompts are queued in the main process (survives detach/reattach)
+  const {
+    queue: queuedPrompts,
+    enqueue: enqueuePrompt,
+    move: moveQueuedPrompt,
+    edit: editQueuedPrompt,
+    remove: removeQueuedPrompt,
+  } = useAcpPromptQueue(sessionKey);
+  // Sends made before the session exists — handed to the main-process queue once it does
+  const preSessionQueueRef = useRef<Array<{ text: string; files?: any[] }>>([]);
+  // Queued prompts the main process has dispatched, waiting to be adopted by useChat
+  const [dequeuedPrompts, setDequeuedPrompts] = useState<AcpQueuedPrompt[]>([]);
 
   // Track whether textarea has content (for interrupt vs queue buttons during streaming)
   const [inputHasText, setInputHasText] = useState(false);
-  const interruptPayloadRef = useRef<{ text: string; files?: any[] } | null>(null);
 
   // External ref to PromptInput attachments — synced by AttachmentSync below
   const promptAttachmentsRef = useRef<{ files: any[]; clear: () => void } | null>(null);
@@ -373,6 +393,11 @@ function AcpChatInner({
   const [sessionTitle, setSessionTitle] = useState<string | null>(null);
   const [configOptions, setConfigOptions] = useState<Map<string, AcpConfigOption>>(new Map());
   const [compactBoundaryMsgId, setCompactBoundaryMsgId] = useState<string | null>(null);
+  const [reviewWrites, setReviewWrites] = useState(false);
+  const [proposedWrites, setProposedWrites] = useState<AcpProposedWrite[]>([]);
+  // Worktree checkpoints keyed by the user message whose turn they precede
+  const [checkpoints, setCheckpoints] = useState<Map<string, AcpCheckpoint>>(new Map());
+  const [restoringCheckpointId, setRestoringCheckpointId] = useState<string | null>(null);
 
   // Editable conversation title state
   const [isEditingTitle, setIsEditingTitle] = useState(false);
@@ -486,12 +511,111 @@ function AcpChatInner({
           return prev;
         });
       },
+      onPromptDequeued: (item) => setDequeuedPrompts((prev) => [...prev, item]),
+      onPathBlocked: (detail) => {
+        toast({
+          title: 'Blocked agent access outside the worktree',
+          description: `${detail.operation}: ${detail.resolvedPath}`,
+          variant: 'destructive',
+        });
+      },
+      onWriteProposed: (write) => setProposedWrites((prev) => [...prev, write]),
+      onWriteResolved: (writeId) =>
+        setProposedWrites((prev) => prev.filter((w) => w.id !== writeId)),
+      onCheckpointCreated: (checkpoint) =>
+        setCheckpoints((prev) => new Map(prev).set(checkpoint.messageId, checkpoint)),
+      onBudgetExceeded: (breach) => {
+        toast({
+          title: 'Session paused: usage budget reached',
+          description: `${formatBudgetBreach(breach)}. Raise the limit in Settings → Usage to continue.`,
+          variant: 'destructive',
+        });
+      },
     };
     return () => {
       transport.sideChannel = {};
     };
   }, [transport]);
 
+  // Review-writes mode lives on the main-process session; re-apply it for new sessions
+  useEffect(() => {
+    if (!sessionKey) return;
+    window.electronAPI.acpSetReviewWrites({ sessionKey, enabled: reviewWrites });
+  }, [sessionKey, reviewWrites]);
+  useEffect(() => {
+    setProposedWrites([]);
+  }, [sessionKey]);
+
+  useEffect(() => {
+    let cancelled = false;
+    window.electronAPI
+      .acpListCheckpoints({ conversationId })
+      .then((result) => {
+        if (cancelled || !result.success || !result.checkpoints) return;
+        setCheckpoints(new Map(result.checkpoints.map((c) => [c.messageId, c])));
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId]);
+
+  /** Roll files and conversation back to the start of the turn begun by `messageId`. */
+  const restoreCheckpoint = useCallback(
+    async (messageId: string) => {
+      const checkpoint = checkpoints.get(messageId);
+      if (!checkpoint) return;
+      if (
+        !confirm(
+          'Restore the worktree and conversation to before this message? Later changes and messages will be discarded.'
+        )
+      ) {
+        return;
+      }
+      setRestoringCheckpointId(checkpoint.id);
+      try {
+        const result = await window.electronAPI.acpRestoreCheckpoint({
+          checkpointId: checkpoint.id,
+          sessionKey: sessionKey ?? undefined,
+        });
+        if (!result.success) {
+          toast({
+            title: 'Failed to restore checkpoint',
+            description: result.error,
+            variant: 'destructive',
+          });
+          return;
+        }
+        const index = messages.findIndex((m) => m.id === messageId);
+        if (index !== -1) setMessages(messages.slice(0, index));
+        setCheckpoints((prev) => {
+          const next = new Map<string, AcpCheckpoint>();
+          for (const [id, c] of prev) if (c.createdAt < checkpoint.createdAt) next.set(id, c);
+          return next;
+        });
+        onRestartSession?.();
+      } finally {
+        setRestoringCheckpointId(null);
+      }
+    },
+    [checkpoints, sessionKey, messages, setMessages, onRestartSession]
+  );
+
+  const resolveWrite = useCallback(
+    async (writeId: string, accept: boolean) => {
+      if (!sessionKey) return;
+      const result = await window.electronAPI.acpResolveWrite({ sessionKey, writeId, accept });
+      if (!result.success) {
+        toast({
+          title: accept ? 'Failed to save file change' : 'Failed to reject file change',
+          description: result.error,
+          variant: 'destructive',
+        });
+      }
+    },
+    [sessionKey]
+  );
+
   // Incrementally persist the latest assistant message during streaming.
   // This prevents data loss if the component unmounts before onFinish fires
   // (e.g. navigating to Settings while an agent is streaming).
@@ -694,16 +818,42 @@ function AcpChatInner({
   const effectiveStatus: AcpSessionStatus =
     chatStatus === 'error' ? 'error' : (chatStatus as AcpSessionStatus);
 
+  // Add a payload to the main-process prompt queue (position 0 = next up).
+  const enqueuePayload = useCallback(
+    (payload: { text: string; files?: any[] }, position?: number) => {
+      if (!sessionKey) {
+        if (position === 0) preSessionQueueRef.current.unshift(payload);
+        else preSessionQueueRef.current.push(payload);
+        return;
+      }
+      enqueuePrompt(payload.text, toPromptFiles(payload.files), position);
+    },
+    [sessionKey, enqueuePrompt]
+  );
+
+  // Hand sends made during session init over to the main-process queue
+  useEffect(() => {
+    if (!sessionKey || preSessionQueueRef.current.length === 0) return;
+    const pending = preSessionQueueRef.current;
+    preSessionQueueRef.current = [];
+    for (const payload of pending) {
+      window.electronAPI.acpQueuePrompt({
+        sessionKey,
+        message: payload.text,
+        files: toPromptFiles(payload.files),
+      });
+    }
+  }, [sessionKey]);
+
   // Queue-or-send helper — used by handleSubmit, retry, appendFn, etc.
-  // If the chat is busy, queues locally for the UX chips; the backend also
-  // queues as a safety net if the renderer status is stale.
+  // If the chat is busy, the prompt goes to the main-process queue, which
+  // drains in order each time the session becomes ready.
   // Uses a ref so callers never hit a stale closure or TDZ during HMR.
   const safeSendRef = useRef<(payload: { text: string; files?: any[] }) => void>(() => {});
   safeSendRef.current = (payload: { text: string; files?: any[] }) => {
     resetUserNav();
     if (chatStatus !== 'ready') {
-      messageQueueRef.current.push(payload);
-      setQueuedMessages([...messageQueueRef.current]);
+      enqueuePayload(payload);
       return;
     }
     sendMessage(payload);
@@ -727,6 +877,12 @@ function AcpChatInner({
     return () => onAppendRef?.(null);
   }, [appendFn, onAppendRef]);
 
+  // Prompts other views send to this task's agent (e.g. resolving conflicts)
+  useEffect(() => {
+    if (!taskId) return;
+    return onChatPrompt(taskId, (text) => safeSend({ text }));
+  }, [taskId, safeSend]);
+
   useEffect(() => {
     if (sessionKey) onStatusChange?.(effectiveStatus, sessionKey);
   }, [effectiveStatus, sessionKey, onStatusChange]);
@@ -802,23 +958,23 @@ function AcpChatInner({
     [safeSend, draftKey]
   );
 
-  // Drain interrupt payload or queued messages when chat becomes ready
-  // Merged into a single effect to avoid race conditions when both exist
+  // Adopt prompts the main process dequeued once useChat is idle — the
+  // transport attaches to the already-running turn instead of re-sending it.
   useEffect(() => {
-    if (chatStatus !== 'ready') return;
-    // Interrupt takes priority over queued messages
-    if (interruptPayloadRef.current) {
-      const payload = interruptPayloadRef.current;
-      interruptPayloadRef.current = null;
-      sendMessage(payload);
-      return;
-    }
-    if (messageQueueRef.current.length > 0) {
-      const next = messageQueueRef.current.shift()!;
-      setQueuedMessages([...messageQueueRef.current]);
-      sendMessage(next);
-    }
-  }, [chatStatus, sendMessage]);
+    if (chatStatus !== 'ready' || dequeuedPrompts.length === 0) return;
+    const [next, ...rest] = dequeuedPrompts;
+    setDequeuedPrompts(rest);
+    // Reuse the queue item id so the turn's checkpoint maps onto this message
+    sendMessage({
+      id: next.id,
+      role: 'user',
+      parts: [
+        ...(next.files ?? []).map((f) => ({ type: 'file' as const, ...f })),
+        { type: 'text' as const, text: next.message },
+      ],
+    });
+    scrollToBottomRef.current?.();
+  }, [chatStatus, dequeuedPrompts, sendMessage]);
 
   // Voice input setting
   const [voiceInputEnabled, setVoiceInputEnabled] = useState(false);
@@ -1045,16 +1201,16 @@ function AcpChatInner({
   const handleQueueFromInput = useCallback(async () => {
     const payload = await captureInputPayload();
     if (!payload) return;
-    messageQueueRef.current.push(payload);
-    setQueuedMessages([...messageQueueRef.current]);
-  }, [captureInputPayload]);
+    enqueuePayload(payload);
+  }, [captureInputPayload, enqueuePayload]);
 
   const handleInterruptAndSend = useCallback(async () => {
     const payload = await captureInputPayload();
     if (!payload) return;
-    interruptPayloadRef.current = payload;
+    // Jump the queue — the cancel below makes the session ready, which drains it first
+    enqueuePayload(payload, 0);
     stop();
-  }, [stop, captureInputPayload]);
+  }, [stop, captureInputPayload, enqueuePayload]);
 
   const handleModeChange = useCallback(
     (modeId: string) => {
@@ -1074,11 +1230,6 @@ function AcpChatInner({
     [sessionKey]
   );
 
-  const removeFromQueue = useCallback((index: number) => {
-    messageQueueRef.current.splice(index, 1);
-    setQueuedMessages([...messageQueueRef.current]);
-  }, []);
-
   const isStreaming = chatStatus === 'streaming' || chatStatus === 'submitted';
 
   return (
@@ -1125,6 +1276,7 @@ function AcpChatInner({
 
       {/* Toolbar */}
       <AcpChatToolbar
+        taskId={taskId}
         providerId={providerId}
         initialModels={initialModels}
         currentModelId={currentModelId}
@@ -1142,6 +1294,17 @@ function AcpChatInner({
         onMoveRight={onMoveRight}
         canMoveLeft={canMoveLeft}
         canMoveRight={canMoveRight}
+        reviewWrites={reviewWrites}
+        onReviewWritesChange={sessionKey ? setReviewWrites : undefined}
+      />
+
+      {/* Staged file writes awaiting review */}
+      <AcpProposedWritesPanel
+        writes={proposedWrites}
+        onResolve={resolveWrite}
+        onResolveAll={(accept) => {
+          for (const write of proposedWrites) resolveWrite(write.id, accept);
+        }}
       />
 
       {/* Plan — fixed above the scrollable conversation area */}
@@ -1183,6 +1346,22 @@ function AcpChatInner({
 
           {messages.map((msg, msgIdx) => (
             <div key={msg.id} data-message-id={msg.id} data-message-role={msg.role}>
+              {/* Worktree checkpoint taken before this turn */}
+              {msg.role === 'user' && checkpoints.has(msg.id) && (
+                <Checkpoint className="my-1">
+                  <CheckpointIcon />
+                  <CheckpointTrigger
+                    className="text-[10px] whitespace-nowrap"
+                    tooltip="Reset files and conversation to before this message"
+                    disabled={restoringCheckpointId !== null}
+                    onClick={() => restoreCheckpoint(msg.id)}
+                  >
+                    {restoringCheckpointId === checkpoints.get(msg.id)?.id
+                      ? 'Restoring…'
+                      : 'Restore to here'}
+                  </CheckpointTrigger>
+                </Checkpoint>
+              )}
               <Message from={msg.role}>
                 <MessageContent>
                   {msg.role === 'user' ? (
@@ -1345,44 +1524,12 @@ function AcpChatInner({
       </Conversation>
 
       {/* Queued messages */}
-      {queuedMessages.length > 0 && (
-        <div className="border-border/50 shrink-0 border-t px-3 py-2">
-          <Queue>
-            <QueueSection defaultOpen>
-              <QueueSectionTrigger>
-                <QueueSectionLabel
-                  count={queuedMessages.length}
-                  label={queuedMessages.length === 1 ? 'message queued' : 'messages queued'}
-                  icon={<Loader2 className="size-3.5 animate-spin" />}
-                />
-              </QueueSectionTrigger>
-              <QueueSectionContent>
-                <QueueList>
-                  {queuedMessages.map((msg, i) => (
-                    <QueueItem key={i} className="flex-row items-center">
-                      <QueueItemIndicator />
-                      <QueueItemContent className="ml-2">
-                        {msg.text}
-                        {msg.files && msg.files.length > 0 && (
-                          <span className="text-muted-foreground/60 ml-1.5 inline-flex items-center gap-0.5 text-[10px]">
-                            <PaperclipIcon className="size-2.5" />
-                            {msg.files.length}
-                          </span>
-                        )}
-                      </QueueItemContent>
-                      <QueueItemActions>
-                        <QueueItemAction onClick={() => removeFromQueue(i)} title="Remove">
-                          <XIcon className="size-3" />
-                        </QueueItemAction>
-                      </QueueItemActions>
-                    </QueueItem>
-                  ))}
-                </QueueList>
-              </QueueSectionContent>
-            </QueueSection>
-          </Queue>
-        </div>
-      )}
+      <AcpPromptQueue
+        queue={queuedPrompts}
+        onMove={moveQueuedPrompt}
+        onEdit={editQueuedPrompt}
+        onRemove={removeQueuedPrompt}
+      />
 
       {/* Context usage + plan usage (hover card) */}
       {messages.length > 0 && (
@@ -1451,6 +1598,7 @@ function AcpChatInner({
       <div className="border-border/50 shrink-0 border-t p-3 [&_[data-slot=input-group-addon]]:!px-0 [&_[data-slot=input-group-addon]]:!pt-0 [&_[data-slot=input-group-addon]]:!pb-0 [&_[data-slot=input-group]]:items-stretch [&_[data-slot=input-group]]:!border-0 [&_[data-slot=input-group]]:!bg-transparent [&_[data-slot=input-group]]:!ring-0 [&_[data-slot=input-group]]:![box-shadow:none] [&_[data-slot=input-group]]:dark:!bg-transparent [&_textarea]:!px-0 [&_textarea]:!py-1.5 [&_textarea]:!ring-offset-0 [&_textarea]:!outline-none">
         <PromptInput onSubmit={handleSubmit} multiple>
           <AttachmentSync targetRef={promptAttachmentsRef} />
+          <ChatAttachReceiver taskId={taskId} />
           <PromptInputAttachments>
             {(attachment) => <PromptInputAttachment key={attachment.id} data={attachment} />}
           </PromptInputAttachments>
@@ -1751,6 +1899,7 @@ export function AcpChatPane({
 
   return (
     <AcpChatInner
+      taskId={taskId}
       conversationId={conversationId}
       providerId={providerId}
       cwd={cwd}
@@ -1775,6 +1924,7 @@ export function AcpChatPane({
       onMoveRight={onMoveRight}
       canMoveLeft={canMoveLeft}
       canMoveRight={canMoveRight}
+      onRestartSession={restartSession}
       className={className}
     />
   );
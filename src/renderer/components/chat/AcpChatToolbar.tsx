@@ -5,6 +5,7 @@ import {
   CheckIcon,
   ChevronDownIcon,
   DownloadIcon,
+  FileDiffIcon,
   MoreHorizontalIcon,
   PlusIcon,
   RefreshCwIcon,
@@ -20,6 +21,7 @@ import {
 } from '../ui/dropdown-menu';
 import { PopoverContent } from '../ui/popover';
 import { SessionHistoryPopover } from './SessionHistoryPopover';
+import { PermissionAuditPopover } from './PermissionAuditPopover';
 import { Command } from '../ui/command';
 import { ModelInfoCard } from '../agents/ModelInfoCard';
 import {
@@ -47,6 +49,7 @@ import type { Agent } from '../../types';
 import type { AcpSessionModels, AcpSessionModel } from '../../types/electron-api';
 
 interface AcpChatToolbarProps {
+  taskId?: string;
   providerId: string;
   initialModels: AcpSessionModels | null;
   currentModelId: string;
@@ -64,9 +67,12 @@ interface AcpChatToolbarProps {
   onMoveRight?: () => void;
   canMoveLeft?: boolean;
   canMoveRight?: boolean;
+  reviewWrites?: boolean;
+  onReviewWritesChange?: (enabled: boolean) => void;
 }
 
 export function AcpChatToolbar({
+  taskId,
   providerId,
   initialModels,
   currentModelId,
@@ -84,6 +90,8 @@ export function AcpChatToolbar({
   onMoveRight,
   canMoveLeft = true,
   canMoveRight = true,
+  reviewWrites = false,
+  onReviewWritesChange,
 }: AcpChatToolbarProps) {
   const [hoveredModel, setHoveredModel] = useState<AcpSessionModel | null>(null);
   const agent = agentConfig[providerId as Agent];
@@ -192,6 +200,20 @@ export function AcpChatToolbar({
             onResumeSession={onResumeSession}
           />
         )}
+        {taskId && <PermissionAuditPopover taskId={taskId} />}
+        {onReviewWritesChange && (
+          <button
+            type="button"
+            onClick={() => onReviewWritesChange(!reviewWrites)}
+            className={`hover:bg-accent hover:text-accent-foreground inline-flex h-7 w-7 items-center justify-center rounded-md transition-colors ${reviewWrites ? 'bg-accent text-foreground' : 'text-muted-foreground'}`}
+            title={
+              reviewWrites ? 'Reviewing file writes' : 'Review file writes before they are saved'
+            }
+            aria-pressed={reviewWrites}
+          >
+            <FileDiffIcon className="size-3.5" />
+          </button>
+        )}
         <button
           type="button"
           className="text-muted-foreground hover:bg-accent hover:text-accent-foreground inline-flex h-7 w-7 items-center justify-center rounded-md transition-colors"
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { ArrowDownIcon, ArrowUpIcon, CheckIcon, Loader2, PencilIcon, XIcon } from 'lucide-react';
+import type { AcpQueuedPrompt } from '../../types/electron-api';
+import {
+  Queue,
+  QueueSection,
+  QueueSectionTrigger,
+  QueueSectionLabel,
+  QueueSectionContent,
+  QueueList,
+  QueueItem,
+  QueueItemIndicator,
+  QueueItemContent,
+  QueueItemActions,
+  QueueItemAction,
+  QueueItemAttachment,
+  QueueItemImage,
+  QueueItemFile,
+} from '../ai-elements/queue';
+
+type AcpPromptQueueProps = {
+  queue: AcpQueuedPrompt[];
+  onMove: (itemId: string, toIndex: number) => void;
+  onEdit: (itemId: string, message: string) => void;
+  onRemove: (itemId: string) => void;
+};
+
+export function AcpPromptQueue({ queue, onMove, onEdit, onRemove }: AcpPromptQueueProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  if (queue.length === 0) return null;
+
+  const startEdit = (item: AcpQueuedPrompt) => {
+    setEditingId(item.id);
+    setDraft(item.message);
+  };
+
+  const commitEdit = () => {
+    if (editingId && draft.trim()) onEdit(editingId, draft);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="border-border/50 shrink-0 border-t px-3 py-2">
+      <Queue>
+        <QueueSection defaultOpen>
+          <QueueSectionTrigger>
+            <QueueSectionLabel
+              count={queue.length}
+              label={queue.length === 1 ? 'message queued' : 'messages queued'}
+              icon={<Loader2 className="size-3.5 animate-spin" />}
+            />
+          </QueueSectionTrigger>
+          <QueueSectionContent>
+            <QueueList>
+              {queue.map((item, i) => {
+                const isEditing = editingId === item.id;
+                const images = item.files?.filter((f) => f.mediaType.startsWith('image/')) ?? [];
+                const others = item.files?.filter((f) => !f.mediaType.startsWith('image/')) ?? [];
+                return (
+                  <QueueItem key={item.id}>
+                    <div className="flex flex-row items-center">
+                      <QueueItemIndicator />
+                      {isEditing ? (
+                        <textarea
+                          autoFocus
+                          value={draft}
+                          rows={2}
+                          onChange={(e) => setDraft(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter' && !e.shiftKey) {
+                              e.preventDefault();
+                              commitEdit();
+                            } else if (e.key === 'Escape') {
+                              setEditingId(null);
+                            }
+                          }}
+                          className="border-border bg-background text-foreground ml-2 grow resize-none rounded border px-1.5 py-1 text-sm outline-none"
+                        />
+                      ) : (
+                        <QueueItemContent className="ml-2">{item.message}</QueueItemContent>
+                      )}
+                      <QueueItemActions>
+                        {isEditing ? (
+                          <QueueItemAction onClick={commitEdit} title="Save">
+                            <CheckIcon className="size-3" />
+                          </QueueItemAction>
+                        ) : (
+                          <>
+                            <QueueItemAction
+                              onClick={() => onMove(item.id, i - 1)}
+                              disabled={i === 0}
+                              title="Move up"
+                            >
+                              <ArrowUpIcon className="size-3" />
+                            </QueueItemAction>
+                            <QueueItemAction
+                              onClick={() => onMove(item.id, i + 1)}
+                              disabled={i === queue.length - 1}
+                              title="Move down"
+                            >
+                              <ArrowDownIcon className="size-3" />
+                            </QueueItemAction>
+                            <QueueItemAction onClick={() => startEdit(item)} title="Edit">
+                              <PencilIcon className="size-3" />
+                            </QueueItemAction>
+                          </>
+                        )}
+                        <QueueItemAction onClick={() => onRemove(item.id)} title="Remove">
+                          <XIcon className="size-3" />
+                        </QueueItemAction>
+                      </QueueItemActions>
+                    </div>
+                    {(images.length > 0 || others.length > 0) && (
+                      <QueueItemAttachment className="ml-4">
+                        {images.map((f, j) => (
+                          <QueueItemImage key={`img-${j}`} src={f.url} alt={f.filename ?? ''} />
+                        ))}
+                        {others.map((f, j) => (
+                          <QueueItemFile key={`file-${j}`}>
+                            {f.filename ?? 'attachment'}
+                          </QueueItemFile>
+                        ))}
+                      </QueueItemAttachment>
+                    )}
+                  </QueueItem>
+                );
+              })}
+            </QueueList>
+          </QueueSectionContent>
+        </QueueSection>
+      </Queue>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { ChevronDownIcon, ChevronRightIcon, FileEditIcon, FilePlusIcon } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Spinner } from '../ui/spinner';
+import { useTheme } from '@/hooks/useTheme';
+import type { AcpProposedWrite } from '../../types/electron-api';
+
+const DiffViewer = React.lazy(() =>
+  import('@/components/git/DiffViewer').then((m) => ({ default: m.DiffViewer }))
+);
+
+interface AcpProposedWritesPanelProps {
+  writes: AcpProposedWrite[];
+  onResolve: (writeId: string, accept: boolean) => void;
+  onResolveAll: (accept: boolean) => void;
+}
+
+export function AcpProposedWritesPanel({
+  writes,
+  onResolve,
+  onResolveAll,
+}: AcpProposedWritesPanelProps) {
+  const { effectiveTheme } = useTheme();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  if (writes.length === 0) return null;
+
+  // The newest write starts expanded so the user sees what the agent is waiting on
+  const openId = expandedId ?? writes[writes.length - 1].id;
+
+  return (
+    <div className="border-border/50 max-h-[50%] shrink-0 overflow-y-auto border-b px-3 py-2">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="text-sm font-medium">
+          {writes.length === 1
+            ? '1 file change to review'
+            : `${writes.length} file changes to review`}
+        </span>
+        {writes.length > 1 && (
+          <span className="flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={() => onResolveAll(false)}>
+              Reject all
+            </Button>
+            <Button size="sm" onClick={() => onResolveAll(true)}>
+              Accept all
+            </Button>
+          </span>
+        )}
+      </div>
+      <div className="space-y-2">
+        {writes.map((write) => {
+          const isOpen = write.id === openId;
+          const FileIcon = write.isNewFile ? FilePlusIcon : FileEditIcon;
+          return (
+            <div key={write.id} className="border-border/50 rounded border">
+              <div className="flex items-center gap-2 px-2 py-1.5">
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-foreground flex min-w-0 flex-1 items-center gap-1.5 text-xs transition-colors"
+                  onClick={() => setExpandedId(isOpen ? '' : write.id)}
+                >
+                  {isOpen ? (
+                    <ChevronDownIcon className="size-3 shrink-0" />
+                  ) : (
+                    <ChevronRightIcon className="size-3 shrink-0" />
+                  )}
+                  <FileIcon className="size-3.5 shrink-0" />
+                  <span className="truncate font-mono">{write.path}</span>
+                  {write.isNewFile && (
+                    <span className="shrink-0 rounded bg-green-500/15 px-1 text-[10px] text-green-500">
+                      new
+                    </span>
+                  )}
+                </button>
+                <Button size="sm" variant="outline" onClick={() => onResolve(write.id, false)}>
+                  Reject
+                </Button>
+                <Button size="sm" onClick={() => onResolve(write.id, true)}>
+                  Accept
+                </Button>
+              </div>
+              {isOpen && (
+                <div className="border-border/50 h-64 border-t">
+                  <React.Suspense
+                    fallback={
+                      <div className="flex h-full items-center justify-center">
+                        <Spinner size="sm" />
+                      </div>
+                    }
+                  >
+                    <DiffViewer
+                      key={write.id}
+                      diff={write.diff}
+                      filePath={write.path}
+                      sideBySide={false}
+                      theme={effectiveTheme}
+                    />
+                  </React.Suspense>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2, ShieldCheckIcon } from 'lucide-react';
+import { Popover, PopoverTrigger, PopoverContent } from '../ui/popover';
+import { RelativeTime } from '../ui/relative-time';
+import type { ApprovalAuditEntry } from '@shared/approvalPolicy';
+
+const DECISION_LABELS: Record<ApprovalAuditEntry['decision'], string> = {
+  allow_once: 'Allowed once',
+  allow_always: 'Always allowed',
+  reject: 'Rejected',
+  cancelled: 'Cancelled',
+};
+
+const SOURCE_LABELS: Record<ApprovalAuditEntry['source'], string> = {
+  project_policy: 'project rule',
+  global_policy: 'global rule',
+  user: 'you',
+};
+
+interface PermissionAuditPopoverProps {
+  taskId: string;
+}
+
+export function PermissionAuditPopover({ taskId }: PermissionAuditPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<ApprovalAuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.acpListPermissionAudit({ taskId });
+      if (result.success && result.entries) {
+        setEntries(result.entries);
+      } else {
+        setError(result.error || 'Failed to load approvals');
+      }
+    } catch (err: unknown) {
+      setError((err instanceof Error ? err.message : String(err)) || 'Failed to load approvals');
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    if (open) fetchEntries();
+  }, [open, fetchEntries]);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="text-muted-foreground hover:bg-accent hover:text-accent-foreground inline-flex h-7 w-7 items-center justify-center rounded-md transition-colors"
+          title="Approval Log"
+        >
+          <ShieldCheckIcon className="size-3.5" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="border-border/50 border-b px-3 py-2">
+          <p className="text-muted-foreground text-xs font-medium">Approval Log</p>
+        </div>
+        <div className="max-h-72 overflow-y-auto">
+          {loading && (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="text-muted-foreground size-4 animate-spin" />
+            </div>
+          )}
+          {error && (
+            <div className="text-muted-foreground px-3 py-4 text-center text-xs">{error}</div>
+          )}
+          {!loading && !error && entries.length === 0 && (
+            <div className="text-muted-foreground px-3 py-4 text-center text-xs">
+              No permission requests yet
+            </div>
+          )}
+          {!loading &&
+            !error &&
+            entries.map((entry) => (
+              <div
+                key={entry.id}
+                className="border-border/30 flex flex-col gap-0.5 border-b px-3 py-2"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate text-xs font-medium">
+                    {entry.title || entry.command || entry.toolKind || entry.toolCallId}
+                  </span>
+                  <RelativeTime
+                    value={entry.createdAt}
+                    className="text-muted-foreground shrink-0 text-[10px]"
+                  />
+                </div>
+                {entry.command && entry.command !== entry.title && (
+                  <code className="text-muted-foreground truncate text-[10px]">
+                    {entry.command}
+                  </code>
+                )}
+                {entry.paths.length > 0 && (
+                  <span className="text-muted-foreground truncate text-[10px]">
+                    {entry.paths.join(', ')}
+                  </span>
+                )}
+                <span
+                  className={`text-[10px] ${entry.decision === 'reject' || entry.decision === 'cancelled' ? 'text-red-400' : 'text-emerald-500'}`}
+                >
+                  {DECISION_LABELS[entry.decision]} by {SOURCE_LABELS[entry.source]}
+                  {entry.ruleId && entry.source !== 'user' ? ` (${entry.ruleId})` : ''}
+                </span>
+              </div>
+            ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -13,6 +13,14 @@ export function getTextFromParts(parts: UIMessage['parts']): string {
     .join('');
 }
 
+/** Strip UI file parts down to the `{ url, mediaType, filename }` shape the ACP IPC accepts. */
+export function toPromptFiles(
+  files: Array<{ url: string; mediaType: string; filename?: string }> | undefined
+): Array<{ url: string; mediaType: string; filename?: string }> | undefined {
+  if (!files || files.length === 0) return undefined;
+  return files.map((f) => ({ url: f.url, mediaType: f.mediaType, filename: f.filename }));
+}
+
 /** Extract file path from tool args or ACP title. */
 export function extractFilePath(inputObj: Record<string, unknown>): string {
   let fp = ((inputObj.file_path || inputObj.path || inputObj.file || '') as string).trim();
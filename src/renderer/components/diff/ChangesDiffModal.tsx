@@ -1,6 +1,6 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
-import { X, Copy, Check } from 'lucide-react';
+import { X, Copy, Check, ListChecks } from 'lucide-react';
 import { AnimatePresence, motion, useReducedMotion } from 'motion/react';
 import { DiffEditor, loader } from '@monaco-editor/react';
 import { fsRead, fsWriteFile } from '@/services/fsService';
@@ -20,6 +20,7 @@ import { configureDiffEditorDiagnostics, resetDiagnosticOptions } from '../../li
 import { useDiffEditorComments } from '../../hooks/useDiffEditorComments';
 import { useTaskComments } from '../../hooks/useLineComments';
 import { useTaskScope } from '../project/TaskScopeContext';
+import { HunkStagingView } from '../git/HunkStagingView';
 
 interface ChangesDiffModalProps {
   open: boolean;
@@ -79,6 +80,8 @@ export const ChangesDiffModal: React.FC<ChangesDiffModalProps> = ({
   } | null>(null);
   const [modifiedDraft, setModifiedDraft] = useState<string>('');
   const [isSaving, setIsSaving] = useState(false);
+  // Show per-hunk staging controls instead of the editable diff
+  const [hunkMode, setHunkMode] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
 
   // Close on escape key
@@ -93,7 +96,7 @@ export const ChangesDiffModal: React.FC<ChangesDiffModalProps> = ({
 
   // Load file data when selected file changes
   useEffect(() => {
-    if (!open || !selected || !safeTaskPath) {
+    if (!open || !selected || !safeTaskPath || hunkMode) {
       setFileData(null);
       setModifiedDraft('');
       setSaveError(null);
@@ -232,7 +235,7 @@ export const ChangesDiffModal: React.FC<ChangesDiffModalProps> = ({
       cancelled = true;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [open, selected, safeTaskPath]); // Removed 'files' to prevent constant reloading - files array changes every 5s
+  }, [open, selected, safeTaskPath, hunkMode]); // Removed 'files' to prevent constant reloading - files array changes every 5s
 
   // Add Monaco theme and styles
   useEffect(() => {
@@ -709,7 +712,22 @@ export const ChangesDiffModal: React.FC<ChangesDiffModalProps> = ({
                   )}
                 </div>
                 <div className="flex items-center gap-2">
-                  {(isDirty || isSaving) && !fileData?.error && (
+                  {selected && (
+                    <button
+                      onClick={() => setHunkMode((v) => !v)}
+                      className={`rounded-md p-1 transition-colors ${
+                        hunkMode
+                          ? 'bg-muted text-foreground dark:bg-accent'
+                          : 'text-muted-foreground hover:bg-muted hover:text-foreground dark:hover:bg-accent'
+                      }`}
+                      title="Stage hunks and lines"
+                      aria-label="Stage hunks and lines"
+                      aria-pressed={hunkMode}
+                    >
+                      <ListChecks className="h-4 w-4" />
+                    </button>
+                  )}
+                  {!hunkMode && (isDirty || isSaving) && !fileData?.error && (
                     <button
                       onClick={handleSave}
                       disabled={!isDirty || isSaving}
@@ -732,7 +750,14 @@ export const ChangesDiffModal: React.FC<ChangesDiffModalProps> = ({
               </div>
 
               <div className="relative flex-1 overflow-hidden">
-                {fileData?.loading ? (
+                {hunkMode && selected && safeTaskPath ? (
+                  <HunkStagingView
+                    key={selected}
+                    taskPath={safeTaskPath}
+                    filePath={selected}
+                    onChanged={() => void onRefreshChanges?.()}
+                  />
+                ) : fileData?.loading ? (
                   <div className="text-muted-foreground flex h-full items-center justify-center">
                     <div className="flex items-center gap-2">
                       <div className="border-border dark:border-border h-4 w-4 animate-spin rounded-full border-2 border-t-gray-600 dark:border-t-gray-400"></div>
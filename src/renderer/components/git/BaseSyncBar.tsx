@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ArrowDownToLine, Bot, FileWarning, Play, X } from 'lucide-react';
+import {
+  formatConflictsForAgent,
+  type BaseSyncStatus,
+  type UpdateFromBaseResult,
+  type UpdateStrategy,
+} from '@shared/conflicts';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/spinner';
+import { useToast } from '@/hooks/use-toast';
+import { sendPromptToChat } from '@/lib/chatAttachmentStore';
+import { abortUpdate, continueUpdate, updateFromBase } from '@/services/gitService';
+
+interface BaseSyncBarProps {
+  taskPath: string;
+  taskId?: string;
+  status: BaseSyncStatus | null;
+  selectedFile?: string | null;
+  onSelectConflict: (filePath: string) => void;
+  /** Called after the task's branch or worktree changed. */
+  onChanged: () => void;
+}
+
+/**
+ * Offers to update a task that fell behind its base branch and, while an
+ * update is stopped on conflicts, lists them with continue, abort and
+ * ask-the-agent actions.
+ */
+export function BaseSyncBar({
+  taskPath,
+  taskId,
+  status,
+  selectedFile,
+  onSelectConflict,
+  onChanged,
+}: BaseSyncBarProps) {
+  const { toast } = useToast();
+  const [pending, setPending] = useState<string | null>(null);
+
+  if (!status || (!status.operation && status.behind === 0)) return null;
+
+  const run = async (action: string, fn: () => Promise<UpdateFromBaseResult | void>) => {
+    setPending(action);
+    try {
+      const result = await fn();
+      if (result && !result.success) {
+        toast({
+          title: result.status?.conflicts.length ? 'Resolve the conflicts' : 'Update failed',
+          description: result.error,
+          variant: result.status?.conflicts.length ? undefined : 'destructive',
+        });
+      } else if (result?.upToDate) {
+        toast({ title: `Already up to date with ${status.base}` });
+      }
+    } catch (error) {
+      toast({
+        title: 'Update failed',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    } finally {
+      setPending(null);
+      onChanged();
+    }
+  };
+
+  const update = (strategy: UpdateStrategy) =>
+    run(strategy, () => updateFromBase({ taskPath, strategy }));
+
+  const askAgent = () => {
+    if (!taskId || !sendPromptToChat(taskId, formatConflictsForAgent(status))) {
+      toast({
+        title: 'No agent chat open',
+        description: "Open this task's agent chat to hand it the conflicts.",
+      });
+      return;
+    }
+    toast({ title: 'Sent the conflicts to the agent' });
+  };
+
+  if (!status.operation) {
+    return (
+      <div className="border-border bg-muted/20 flex items-center justify-between gap-2 border-b px-3 py-1.5">
+        <span className="text-muted-foreground flex min-w-0 items-center gap-1.5 text-[11px]">
+          <ArrowDownToLine className="h-3 w-3 shrink-0" />
+          <span className="truncate">
+            {status.behind} commit{status.behind === 1 ? '' : 's'} behind {status.base}
+          </span>
+        </span>
+        <div className="flex shrink-0 items-center gap-0.5">
+          {(['rebase', 'merge'] as const).map((strategy) => (
+            <Button
+              key={strategy}
+              variant="ghost"
+              size="sm"
+              className="h-5 px-1.5 text-[10px]"
+              disabled={pending !== null}
+              title={
+                strategy === 'rebase'
+                  ? `Replay this task's commits on top of ${status.base}`
+                  : `Merge ${status.base} into this task`
+              }
+              onClick={() => void update(strategy)}
+            >
+              {pending === strategy ? <Spinner size="sm" /> : null}
+              {strategy === 'rebase' ? 'Rebase' : 'Merge'}
+            </Button>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const resolved = status.conflicts.length === 0;
+  return (
+    <div className="border-border border-b bg-amber-500/10 px-3 py-2">
+      <div className="flex items-center gap-1.5 text-[11px] font-medium text-amber-700 dark:text-amber-300">
+        <AlertTriangle className="h-3 w-3 shrink-0" />
+        <span className="truncate">
+          {status.operation === 'rebase' ? 'Rebase onto' : 'Merge of'} {status.base}
+          {resolved
+            ? ': all conflicts resolved'
+            : `: ${status.conflicts.length} conflict${status.conflicts.length === 1 ? '' : 's'}`}
+        </span>
+      </div>
+      {!resolved && (
+        <div className="mt-1.5 space-y-0.5">
+          {status.conflicts.map((file) => (
+            <button
+              key={file}
+              type="button"
+              className={cn(
+                'hover:bg-accent flex w-full items-center gap-1.5 rounded px-1.5 py-0.5 text-left font-mono text-[11px]',
+                selectedFile === file && 'bg-accent'
+              )}
+              onClick={() => onSelectConflict(file)}
+            >
+              <FileWarning className="h-3 w-3 shrink-0 text-amber-600" />
+              <span className="truncate">{file}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="mt-2 flex items-center gap-1">
+        {!resolved && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-6 gap-1 px-2 text-[11px]"
+            disabled={pending !== null}
+            onClick={askAgent}
+          >
+            <Bot className="h-3 w-3" />
+            Ask agent
+          </Button>
+        )}
+        <Button
+          size="sm"
+          className="h-6 gap-1 px-2 text-[11px]"
+          disabled={pending !== null || !resolved}
+          title={resolved ? undefined : 'Resolve all conflicts first'}
+          onClick={() => void run('continue', () => continueUpdate({ taskPath }))}
+        >
+          {pending === 'continue' ? <Spinner size="sm" /> : <Play className="h-3 w-3" />}
+          Continue
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 gap-1 px-2 text-[11px]"
+          disabled={pending !== null}
+          onClick={() => {
+            if (!confirm(`Abort the ${status.operation} and restore the task branch?`)) return;
+            void run('abort', async () => {
+              const res = await abortUpdate({ taskPath });
+              if (!res?.success) throw new Error(res?.error || 'Failed to abort');
+            });
+          }}
+        >
+          {pending === 'abort' ? <Spinner size="sm" /> : <X className="h-3 w-3" />}
+          Abort
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import * as React from 'react';
-import { GitCommit, Send, ArrowUpRight } from 'lucide-react';
+import { GitCommit, Send, ArrowUpRight, ShieldCheck, ShieldAlert } from 'lucide-react';
+import type { VerifyGate, VerifyRun } from '@shared/verify';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
@@ -13,9 +14,70 @@ export interface CommitPanelProps {
   isCommitting: boolean;
   hasStagedChanges: boolean;
   prUrl?: string;
+  /** Latest verify run and its gate; the badge is hidden when verification is off. */
+  verifyRun?: VerifyRun | null;
+  verifyGate?: VerifyGate | null;
+  isVerifying?: boolean;
+  onVerify?: () => void;
   className?: string;
 }
 
+function describeVerifyRun(run: VerifyRun | null | undefined, gate: VerifyGate): string {
+  const lines = [gate.message ?? 'Verification passed for the current changes'];
+  if (run && run.summary.tests > 0) {
+    const { passed, failed, skipped } = run.summary;
+    lines.push(`${passed} passed, ${failed} failed, ${skipped} skipped`);
+  }
+  for (const failure of run?.summary.failures.slice(0, 5) ?? []) {
+    lines.push(`✗ ${failure.suite ? `${failure.suite} › ` : ''}${failure.name}`);
+  }
+  lines.push('Click to run verification');
+  return lines.join('\n');
+}
+
+function VerifyBadge({
+  run,
+  gate,
+  isVerifying,
+  onVerify,
+}: {
+  run?: VerifyRun | null;
+  gate: VerifyGate;
+  isVerifying?: boolean;
+  onVerify?: () => void;
+}) {
+  const label = isVerifying
+    ? 'Verifying…'
+    : gate.state === 'ok'
+      ? 'Verified'
+      : gate.state === 'failed'
+        ? 'Verify failed'
+        : gate.state === 'stale'
+          ? 'Verify outdated'
+          : 'Not verified';
+  const Icon = gate.state === 'ok' ? ShieldCheck : ShieldAlert;
+
+  return (
+    <button
+      type="button"
+      onClick={onVerify}
+      disabled={isVerifying || !onVerify}
+      title={describeVerifyRun(run, gate)}
+      className={cn(
+        'inline-flex items-center gap-1 rounded border px-1.5 py-0.5 text-[10px] font-medium transition-colors disabled:opacity-70',
+        gate.state === 'ok'
+          ? 'border-emerald-500/30 bg-emerald-500/10 text-emerald-600 dark:text-emerald-400'
+          : gate.state === 'failed'
+            ? 'border-red-500/30 bg-red-500/10 text-red-600 dark:text-red-400'
+            : 'border-amber-500/30 bg-amber-500/10 text-amber-600 dark:text-amber-400'
+      )}
+    >
+      {isVerifying ? <Spinner size="sm" /> : <Icon className="h-3 w-3" />}
+      {label}
+    </button>
+  );
+}
+
 export function CommitPanel({
   commitMessage,
   onCommitMessageChange,
@@ -24,23 +86,38 @@ export function CommitPanel({
   isCommitting,
   hasStagedChanges,
   prUrl,
+  verifyRun,
+  verifyGate,
+  isVerifying,
+  onVerify,
   className,
 }: CommitPanelProps) {
   const canCommit = hasStagedChanges && commitMessage.trim().length > 0;
+  const showVerify = !!verifyGate && verifyGate.mode !== 'off';
 
   return (
     <div className={cn('border-border bg-muted/30 border-t p-3', className)}>
-      {/* PR Link */}
-      {prUrl && (
-        <div className="mb-2 flex justify-end">
-          <button
-            type="button"
-            onClick={() => window.electronAPI?.openExternal?.(prUrl)}
-            className="border-border bg-muted text-muted-foreground hover:bg-accent hover:text-accent-foreground inline-flex items-center gap-1 rounded border px-1.5 py-0.5 text-[10px] font-medium transition-colors"
-          >
-            View PR
-            <ArrowUpRight className="h-3 w-3" />
-          </button>
+      {/* Verify status and PR Link */}
+      {(prUrl || showVerify) && (
+        <div className="mb-2 flex justify-end gap-1.5">
+          {showVerify && (
+            <VerifyBadge
+              run={verifyRun}
+              gate={verifyGate}
+              isVerifying={isVerifying}
+              onVerify={onVerify}
+            />
+          )}
+          {prUrl && (
+            <button
+              type="button"
+              onClick={() => window.electronAPI?.openExternal?.(prUrl)}
+              className="border-border bg-muted text-muted-foreground hover:bg-accent hover:text-accent-foreground inline-flex items-center gap-1 rounded border px-1.5 py-0.5 text-[10px] font-medium transition-colors"
+            >
+              View PR
+              <ArrowUpRight className="h-3 w-3" />
+            </button>
+          )}
         </div>
       )}
 
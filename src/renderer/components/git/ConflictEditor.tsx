@@ -0,0 +1,246 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import Editor, { DiffEditor } from '@monaco-editor/react';
+import { Check, RotateCcw, Trash2 } from 'lucide-react';
+import type { ConflictFile } from '@shared/conflicts';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/spinner';
+import { useToast } from '@/hooks/use-toast';
+import { getMonacoLanguageId } from '@/lib/diffUtils';
+import { getConflictFile, resolveConflict } from '@/services/gitService';
+import { DiffEditorErrorBoundary, getMonacoDiffTheme, initializeMonacoThemes } from './DiffViewer';
+
+const CONFLICT_MARKER = /^(<{7}|>{7})( |$)/m;
+
+interface ConflictEditorProps {
+  taskPath: string;
+  filePath: string;
+  theme: 'light' | 'dark' | 'dark-black';
+  /** Called after the file was saved and staged as resolved. */
+  onResolved?: () => void;
+}
+
+const SIDE_OPTIONS = {
+  readOnly: true,
+  originalEditable: false,
+  renderSideBySide: false,
+  fontSize: 12,
+  lineHeight: 18,
+  minimap: { enabled: false },
+  scrollBeyondLastLine: false,
+  lineNumbersMinChars: 3,
+  automaticLayout: true,
+  renderOverviewRuler: false,
+  hideUnchangedRegions: { enabled: true },
+  glyphMargin: false,
+  folding: false,
+} as const;
+
+/**
+ * Three-way view of a conflicted file: what each side changed relative to the
+ * common ancestor on top, and the editable result below. Saving stages the
+ * result as the resolution.
+ */
+export function ConflictEditor({ taskPath, filePath, theme, onResolved }: ConflictEditorProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<ConflictFile | null>(null);
+  const [result, setResult] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    void getConflictFile({ taskPath, filePath })
+      .then((res) => {
+        if (cancelled) return;
+        if (!res?.success || !res.file) {
+          throw new Error(res?.error || 'Failed to load conflict');
+        }
+        setFile(res.file);
+        setResult(res.file.merged ?? '');
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [taskPath, filePath]);
+
+  const language = useMemo(() => getMonacoLanguageId(filePath), [filePath]);
+  const monacoTheme = getMonacoDiffTheme(theme);
+  const hasMarkers = CONFLICT_MARKER.test(result);
+
+  const save = useCallback(
+    async (content: string | null) => {
+      if (
+        content !== null &&
+        CONFLICT_MARKER.test(content) &&
+        !confirm('The result still contains conflict markers. Mark it as resolved anyway?')
+      ) {
+        return;
+      }
+      setSaving(true);
+      try {
+        const res = await resolveConflict({ taskPath, filePath, content });
+        if (!res?.success) {
+          throw new Error(res?.error || 'Failed to resolve conflict');
+        }
+        onResolved?.();
+      } catch (err) {
+        toast({
+          title: 'Could not resolve conflict',
+          description: err instanceof Error ? err.message : String(err),
+          variant: 'destructive',
+        });
+      } finally {
+        setSaving(false);
+      }
+    },
+    [taskPath, filePath, onResolved, toast]
+  );
+
+  if (loading) {
+    return (
+      <div className="text-muted-foreground flex h-full items-center justify-center gap-2 text-sm">
+        <Spinner size="sm" />
+        <span>Loading conflict...</span>
+      </div>
+    );
+  }
+
+  if (error || !file) {
+    return (
+      <div className="text-destructive flex h-full items-center justify-center p-4 text-sm">
+        {error || 'Conflict not found'}
+      </div>
+    );
+  }
+
+  const sides = [
+    { label: file.oursLabel, content: file.ours },
+    { label: file.theirsLabel, content: file.theirs },
+  ];
+
+  return (
+    <div className="flex h-full min-h-0 flex-col">
+      <div className="border-border bg-muted/20 flex items-center justify-between gap-2 border-b px-3 py-1.5">
+        <span className="text-muted-foreground truncate text-xs">
+          {hasMarkers ? 'Edit the result below to remove all conflict markers' : 'No markers left'}
+        </span>
+        <div className="flex shrink-0 items-center gap-1">
+          {sides.map(({ label, content }) => (
+            <Button
+              key={label}
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              disabled={saving || content === null}
+              onClick={() => setResult(content ?? '')}
+            >
+              Use {label}
+            </Button>
+          ))}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            title="Reset to the file with conflict markers"
+            disabled={saving}
+            onClick={() => setResult(file.merged ?? '')}
+          >
+            <RotateCcw className="h-3 w-3" />
+          </Button>
+          {(file.ours === null || file.theirs === null) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 gap-1 px-2 text-xs"
+              disabled={saving}
+              onClick={() => void save(null)}
+            >
+              <Trash2 className="h-3 w-3" />
+              Delete file
+            </Button>
+          )}
+          <Button
+            size="sm"
+            className="h-6 gap-1 px-2 text-xs"
+            disabled={saving}
+            onClick={() => void save(result)}
+          >
+            {saving ? <Spinner size="sm" /> : <Check className="h-3 w-3" />}
+            Mark resolved
+          </Button>
+        </div>
+      </div>
+
+      <DiffEditorErrorBoundary>
+        <div className="border-border grid min-h-0 flex-1 grid-cols-2 border-b">
+          {sides.map(({ label, content }, index) => (
+            <div
+              key={label}
+              className={
+                index === 0
+                  ? 'border-border flex min-h-0 flex-col border-r'
+                  : 'flex min-h-0 flex-col'
+              }
+            >
+              <div className="text-muted-foreground bg-muted/30 px-3 py-1 text-[10px] font-medium tracking-wide uppercase">
+                Base → {label}
+              </div>
+              <div className="min-h-0 flex-1">
+                {content === null ? (
+                  <div className="text-muted-foreground flex h-full items-center justify-center text-xs">
+                    Deleted on this side
+                  </div>
+                ) : (
+                  <DiffEditor
+                    height="100%"
+                    language={language}
+                    original={file.base ?? ''}
+                    modified={content}
+                    theme={monacoTheme}
+                    beforeMount={initializeMonacoThemes}
+                    options={SIDE_OPTIONS}
+                  />
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="flex min-h-0 flex-1 flex-col">
+          <div className="text-muted-foreground bg-muted/30 px-3 py-1 text-[10px] font-medium tracking-wide uppercase">
+            Result
+          </div>
+          <div className="min-h-0 flex-1">
+            <Editor
+              height="100%"
+              language={language}
+              value={result}
+              onChange={(value) => setResult(value ?? '')}
+              theme={monacoTheme}
+              beforeMount={initializeMonacoThemes}
+              options={{
+                fontSize: 12,
+                lineHeight: 18,
+                minimap: { enabled: false },
+                scrollBeyondLastLine: false,
+                lineNumbersMinChars: 3,
+                automaticLayout: true,
+                readOnly: saving,
+              }}
+            />
+          </div>
+        </div>
+      </DiffEditorErrorBoundary>
+    </div>
+  );
+}
+
+export default ConflictEditor;
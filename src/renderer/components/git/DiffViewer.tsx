@@ -68,7 +68,7 @@ function parseUnifiedDiff(patch: string): { original: string; modified: string }
  * We use the `monaco` instance passed by beforeMount instead of `loader.init()`.
  */
 let themesInitialized = false;
-function initializeMonacoThemes(
+export function initializeMonacoThemes(
   m: Parameters<Exclude<React.ComponentProps<typeof DiffEditor>['beforeMount'], undefined>>[0]
 ) {
   if (themesInitialized) return;
@@ -125,10 +125,23 @@ function initializeMonacoThemes(
   themesInitialized = true;
 }
 
+/** Map the app theme to the Monaco theme defined by `initializeMonacoThemes`. */
+export function getMonacoDiffTheme(theme: DiffViewerProps['theme']): string {
+  switch (theme) {
+    case 'light':
+      return 'valkyr-diff-light';
+    case 'dark-black':
+      return 'valkyr-diff-black';
+    case 'dark':
+    default:
+      return 'valkyr-diff-dark';
+  }
+}
+
 /**
  * Error boundary for Monaco DiffEditor crashes
  */
-class DiffEditorErrorBoundary extends Component<
+export class DiffEditorErrorBoundary extends Component<
   { children: ReactNode },
   { hasError: boolean; error: Error | null }
 > {
@@ -174,18 +187,7 @@ export function DiffViewer({ filePath, diff, isLoading, theme, sideBySide }: Dif
   // Get Monaco language ID from file path
   const language = useMemo(() => getMonacoLanguageId(filePath), [filePath]);
 
-  // Map theme prop to Monaco theme name
-  const monacoTheme = useMemo(() => {
-    switch (theme) {
-      case 'light':
-        return 'valkyr-diff-light';
-      case 'dark-black':
-        return 'valkyr-diff-black';
-      case 'dark':
-      default:
-        return 'valkyr-diff-dark';
-    }
-  }, [theme]);
+  const monacoTheme = getMonacoDiffTheme(theme);
 
   // Dispose editor on unmount to prevent stale TextModel references
   useEffect(() => {
@@ -0,0 +1,483 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, Cherry, MoreHorizontal, RefreshCw, RotateCcw, Undo2 } from 'lucide-react';
+import type {
+  CommitDetail,
+  CommitFile,
+  CommitInfo,
+  CommitLog,
+  HistoryAction,
+  ResetMode,
+} from '@shared/gitHistory';
+import { cn } from '@/lib/utils';
+import { layoutCommitGraph, parentLane, type GraphRow } from '@/lib/commitGraph';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/spinner';
+import { RelativeTime } from '@/components/ui/relative-time';
+import { FileIcon } from '@/components/FileExplorer/FileIcons';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { getCommit, getCommitFileDiff, getGitLog, runHistoryAction } from '@/services/gitService';
+const DiffViewer = React.lazy(() =>
+  import('./DiffViewer').then((m) => ({ default: m.DiffViewer }))
+);
+
+type Theme = 'light' | 'dark' | 'dark-black';
+
+interface HistoryPanelProps {
+  taskPath: string;
+  theme: Theme;
+  className?: string;
+  /** Back to the worktree changes. */
+  onBack: () => void;
+  /** Called after an action changed the task branch or its worktree. */
+  onChanged?: () => void;
+}
+
+const ROW_HEIGHT = 28;
+const LANE_WIDTH = 12;
+const LANE_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ec4899', '#8b5cf6', '#06b6d4'];
+
+const RESET_OPTIONS: Array<{ mode: ResetMode; label: string }> = [
+  { mode: 'soft', label: 'Reset to here, keep changes staged' },
+  { mode: 'mixed', label: 'Reset to here, keep changes unstaged' },
+  { mode: 'hard', label: 'Reset to here and discard changes' },
+];
+
+const STATUS_LETTERS: Record<CommitFile['status'], { letter: string; className: string }> = {
+  modified: { letter: 'M', className: 'text-amber-600 dark:text-amber-400' },
+  added: { letter: 'A', className: 'text-emerald-600 dark:text-emerald-400' },
+  deleted: { letter: 'D', className: 'text-rose-600 dark:text-rose-400' },
+  renamed: { letter: 'R', className: 'text-purple-600 dark:text-purple-400' },
+};
+
+const laneX = (lane: number) => lane * LANE_WIDTH + LANE_WIDTH / 2;
+const laneColor = (lane: number) => LANE_COLORS[lane % LANE_COLORS.length];
+
+function GraphCell({ row, commit, width }: { row: GraphRow; commit: CommitInfo; width: number }) {
+  const mid = ROW_HEIGHT / 2;
+  return (
+    <svg width={width} height={ROW_HEIGHT} className="shrink-0">
+      {row.before.map((target, lane) =>
+        target === null ? null : (
+          <line
+            key={`in-${lane}`}
+            x1={laneX(lane)}
+            y1={0}
+            x2={target === commit.sha ? laneX(row.column) : laneX(lane)}
+            y2={target === commit.sha ? mid : ROW_HEIGHT}
+            stroke={laneColor(lane)}
+            strokeWidth={1.5}
+          />
+        )
+      )}
+      {commit.parents.map((parent, index) => {
+        const lane = parentLane(row, commit.parents, index);
+        return lane === -1 ? null : (
+          <line
+            key={`out-${parent}`}
+            x1={laneX(row.column)}
+            y1={mid}
+            x2={laneX(lane)}
+            y2={ROW_HEIGHT}
+            stroke={laneColor(lane)}
+            strokeWidth={1.5}
+          />
+        );
+      })}
+      <circle
+        cx={laneX(row.column)}
+        cy={mid}
+        r={3.5}
+        className={commit.side === 'base' ? 'fill-background' : undefined}
+        fill={commit.side === 'base' ? undefined : laneColor(row.column)}
+        stroke={laneColor(row.column)}
+        strokeWidth={1.5}
+      />
+    </svg>
+  );
+}
+
+/**
+ * Log of the task branch drawn against its base branch, with each commit's
+ * diff and revert, cherry-pick and reset actions.
+ */
+export function HistoryPanel({ taskPath, theme, className, onBack, onChanged }: HistoryPanelProps) {
+  const { toast } = useToast();
+  const [log, setLog] = useState<CommitLog | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedSha, setSelectedSha] = useState<string | null>(null);
+  const [pendingSha, setPendingSha] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await getGitLog({ taskPath });
+      if (!res?.success || !res.log) {
+        throw new Error(res?.error || 'Failed to load history');
+      }
+      setLog(res.log);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [taskPath]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const commits = useMemo(() => log?.commits ?? [], [log]);
+  const rows = useMemo(() => layoutCommitGraph(commits), [commits]);
+  const graphWidth = useMemo(
+    () =>
+      Math.max(1, ...rows.map((r) => Math.max(r.before.length, r.after.length, r.column + 1))) *
+      LANE_WIDTH,
+    [rows]
+  );
+  const selected = commits.find((c) => c.sha === selectedSha) ?? null;
+
+  const runAction = useCallback(
+    async (action: HistoryAction) => {
+      const short = action.sha.slice(0, 7);
+      if (action.type === 'reset') {
+        const message =
+          action.mode === 'hard'
+            ? `Reset the task branch to ${short} and discard all later commits and uncommitted changes? This cannot be undone.`
+            : `Reset the task branch to ${short}? Later commits are removed from the branch and their changes are kept ${action.mode === 'soft' ? 'staged' : 'unstaged'}.`;
+        if (!confirm(message)) return;
+      }
+      setPendingSha(action.sha);
+      try {
+        const res = await runHistoryAction({ taskPath, action });
+        if (!res?.success) {
+          throw new Error(res?.error || `git ${action.type} failed`);
+        }
+        toast({
+          title:
+            action.type === 'revert'
+              ? `Reverted ${short}`
+              : action.type === 'cherry-pick'
+                ? `Cherry-picked ${short}`
+                : `Reset to ${short}`,
+        });
+        onChanged?.();
+        await load();
+      } catch (err) {
+        toast({
+          title: 'History action failed',
+          description: err instanceof Error ? err.message : String(err),
+          variant: 'destructive',
+        });
+      } finally {
+        setPendingSha(null);
+      }
+    },
+    [taskPath, toast, onChanged, load]
+  );
+
+  return (
+    <div className={cn('bg-background flex h-full', className)}>
+      <div className="border-border flex h-full w-[420px] min-w-[280px] flex-col border-r">
+        <div className="border-border bg-muted/30 flex items-center justify-between border-b px-3 py-2">
+          <div className="flex min-w-0 items-center gap-1.5">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              title="Back to changes"
+              onClick={onBack}
+            >
+              <ArrowLeft className="h-3 w-3" />
+            </Button>
+            <span className="text-foreground text-xs font-medium">History</span>
+            {log?.base && (
+              <span className="text-muted-foreground truncate text-[10px]">vs {log.base}</span>
+            )}
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            title="Refresh"
+            onClick={() => void load()}
+            disabled={loading}
+          >
+            {loading ? <Spinner size="sm" /> : <RefreshCw className="h-3 w-3" />}
+          </Button>
+        </div>
+
+        <div className="min-h-0 flex-1 overflow-y-auto">
+          {error ? (
+            <p className="text-destructive p-3 text-xs">{error}</p>
+          ) : loading && !log ? (
+            <div className="text-muted-foreground flex items-center justify-center gap-2 py-8 text-xs">
+              <Spinner size="sm" />
+              <span>Loading history...</span>
+            </div>
+          ) : commits.length === 0 ? (
+            <p className="text-muted-foreground py-8 text-center text-xs">No commits yet</p>
+          ) : (
+            <>
+              {commits.map((commit, index) => (
+                <div
+                  key={commit.sha}
+                  style={{ height: ROW_HEIGHT }}
+                  className={cn(
+                    'group hover:bg-muted/50 flex cursor-pointer items-center gap-1.5 pr-1 pl-2',
+                    selectedSha === commit.sha && 'bg-muted/60',
+                    commit.side === 'base' && 'opacity-60'
+                  )}
+                  title={commit.side === 'base' ? `Only on ${log?.base}` : undefined}
+                  onClick={() => setSelectedSha(commit.sha)}
+                >
+                  <GraphCell row={rows[index]} commit={commit} width={graphWidth} />
+                  <span className="min-w-0 flex-1 truncate text-xs">
+                    {commit.refs.map((ref) => (
+                      <span
+                        key={ref}
+                        className="bg-muted text-muted-foreground mr-1 rounded px-1 py-0.5 text-[10px]"
+                      >
+                        {ref}
+                      </span>
+                    ))}
+                    {commit.subject}
+                  </span>
+                  <RelativeTime
+                    value={commit.date}
+                    className="text-muted-foreground shrink-0 text-[10px]"
+                  />
+                  {pendingSha === commit.sha ? (
+                    <Spinner size="sm" />
+                  ) : (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-5 w-5 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+                          disabled={pendingSha !== null}
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <MoreHorizontal className="h-3 w-3" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                        {commit.side === 'base' ? (
+                          <DropdownMenuItem
+                            className="gap-2 text-xs"
+                            onClick={() => void runAction({ type: 'cherry-pick', sha: commit.sha })}
+                          >
+                            <Cherry className="h-3.5 w-3.5" />
+                            Cherry-pick onto task
+                          </DropdownMenuItem>
+                        ) : (
+                          <>
+                            <DropdownMenuItem
+                              className="gap-2 text-xs"
+                              onClick={() => void runAction({ type: 'revert', sha: commit.sha })}
+                            >
+                              <Undo2 className="h-3.5 w-3.5" />
+                              Revert commit
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            {RESET_OPTIONS.map(({ mode, label }) => (
+                              <DropdownMenuItem
+                                key={mode}
+                                className={cn(
+                                  'gap-2 text-xs',
+                                  mode === 'hard' && 'text-destructive'
+                                )}
+                                onClick={() =>
+                                  void runAction({ type: 'reset', sha: commit.sha, mode })
+                                }
+                              >
+                                <RotateCcw className="h-3.5 w-3.5" />
+                                {label}
+                              </DropdownMenuItem>
+                            ))}
+                          </>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                </div>
+              ))}
+              {log?.hasMore && (
+                <p className="text-muted-foreground py-2 text-center text-[10px]">
+                  Showing the latest {commits.length} commits
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="flex min-h-0 min-w-0 flex-1 flex-col">
+        {selected ? (
+          <CommitDetailView
+            key={selected.sha}
+            taskPath={taskPath}
+            commit={selected}
+            theme={theme}
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center">
+            <p className="text-muted-foreground text-sm">Select a commit to view its changes</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CommitDetailView({
+  taskPath,
+  commit,
+  theme,
+}: {
+  taskPath: string;
+  commit: CommitInfo;
+  theme: Theme;
+}) {
+  const [detail, setDetail] = useState<CommitDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedFile, setSelectedFile] = useState<CommitFile | null>(null);
+  const [diff, setDiff] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    void getCommit({ taskPath, sha: commit.sha })
+      .then((res) => {
+        if (cancelled) return;
+        if (!res?.success || !res.commit) {
+          throw new Error(res?.error || 'Failed to load commit');
+        }
+        setDetail(res.commit);
+        setSelectedFile(res.commit.files[0] ?? null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [taskPath, commit.sha]);
+
+  useEffect(() => {
+    if (!selectedFile) return;
+    let cancelled = false;
+    setDiff(null);
+    void getCommitFileDiff({
+      taskPath,
+      sha: commit.sha,
+      filePath: selectedFile.path,
+      oldPath: selectedFile.oldPath,
+    })
+      .then((res) => {
+        if (!cancelled) setDiff(res?.success ? (res.diff ?? '') : '');
+      })
+      .catch(() => {
+        if (!cancelled) setDiff('');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [taskPath, commit.sha, selectedFile]);
+
+  if (error) {
+    return <p className="text-destructive p-4 text-sm">{error}</p>;
+  }
+
+  return (
+    <>
+      <div className="border-border bg-muted/20 border-b px-4 py-2">
+        <div className="text-sm font-medium">{commit.subject}</div>
+        {detail?.body && (
+          <pre className="text-muted-foreground mt-1 max-h-32 overflow-y-auto font-sans text-xs whitespace-pre-wrap">
+            {detail.body}
+          </pre>
+        )}
+        <div className="text-muted-foreground mt-1 flex items-center gap-2 text-[11px]">
+          <span className="font-mono">{commit.sha.slice(0, 7)}</span>
+          <span>{commit.author}</span>
+          <span>{new Date(commit.date).toLocaleString()}</span>
+        </div>
+      </div>
+
+      <div className="flex min-h-0 flex-1">
+        <div className="border-border w-60 shrink-0 overflow-y-auto border-r">
+          {!detail ? (
+            <div className="flex justify-center py-6">
+              <Spinner size="sm" />
+            </div>
+          ) : detail.files.length === 0 ? (
+            <p className="text-muted-foreground p-3 text-xs">No file changes</p>
+          ) : (
+            detail.files.map((file) => {
+              const fileName = file.path.split('/').pop() || file.path;
+              const status = STATUS_LETTERS[file.status];
+              return (
+                <div
+                  key={file.path}
+                  className={cn(
+                    'hover:bg-muted/50 flex h-7 cursor-pointer items-center gap-1.5 px-2',
+                    selectedFile?.path === file.path && 'border-l-primary bg-muted/60 border-l-2'
+                  )}
+                  title={file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}
+                  onClick={() => setSelectedFile(file)}
+                >
+                  <span className="shrink-0 [&>svg]:h-3.5 [&>svg]:w-3.5">
+                    <FileIcon filename={fileName} isDirectory={false} />
+                  </span>
+                  <span className={cn('min-w-0 flex-1 truncate text-xs', status.className)}>
+                    {fileName}
+                  </span>
+                  <span className="shrink-0 text-[10px] text-emerald-600 dark:text-emerald-400">
+                    +{file.additions}
+                  </span>
+                  <span className="shrink-0 text-[10px] text-rose-600 dark:text-rose-400">
+                    -{file.deletions}
+                  </span>
+                  <span className={cn('w-3 shrink-0 text-[10px] font-medium', status.className)}>
+                    {status.letter}
+                  </span>
+                </div>
+              );
+            })
+          )}
+        </div>
+        <div className="min-h-0 min-w-0 flex-1">
+          {selectedFile && (
+            <React.Suspense
+              fallback={
+                <div className="flex h-full items-center justify-center">
+                  <Spinner size="sm" />
+                </div>
+              }
+            >
+              <DiffViewer
+                key={`${commit.sha}:${selectedFile.path}`}
+                filePath={selectedFile.path}
+                diff={diff}
+                isLoading={diff === null}
+                theme={theme}
+                sideBySide={false}
+              />
+            </React.Suspense>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default HistoryPanel;
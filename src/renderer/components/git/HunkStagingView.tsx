@@ -0,0 +1,294 @@
+import * as React from 'react';
+import { Minus, Plus, Undo2 } from 'lucide-react';
+import type { DiffHunk, FileHunks, HunkAction, HunkSelection } from '@shared/diffHunks';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/spinner';
+import { useToast } from '@/hooks/use-toast';
+import { applyHunks, getFileHunks } from '@/services/gitService';
+
+export interface HunkStagingViewProps {
+  taskPath: string;
+  filePath: string;
+  repoCwd?: string;
+  /** Called after hunks were staged, unstaged or discarded. */
+  onChanged?: () => void;
+  className?: string;
+}
+
+type Area = 'unstaged' | 'staged';
+
+/** Selected `+`/`-` line indices, per area and hunk header. */
+type LineSelection = Record<Area, Map<string, Set<number>>>;
+
+const emptySelection = (): LineSelection => ({ unstaged: new Map(), staged: new Map() });
+
+const ACTION_LABELS: Record<HunkAction, string> = {
+  stage: 'Stage',
+  unstage: 'Unstage',
+  discard: 'Discard',
+};
+
+/**
+ * Unstaged and staged hunks of a file. Hunks can be staged, unstaged or
+ * discarded whole, or limited to lines selected by clicking them.
+ */
+export function HunkStagingView({
+  taskPath,
+  filePath,
+  repoCwd,
+  onChanged,
+  className,
+}: HunkStagingViewProps) {
+  const { toast } = useToast();
+  const [hunks, setHunks] = React.useState<FileHunks | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [selection, setSelection] = React.useState<LineSelection>(emptySelection);
+  const [pending, setPending] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async () => {
+    try {
+      const res = await getFileHunks({ taskPath, filePath, repoCwd });
+      if (!res?.success || !res.hunks) {
+        throw new Error(res?.error || 'Failed to load hunks');
+      }
+      setHunks(res.hunks);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSelection(emptySelection());
+      setLoading(false);
+    }
+  }, [taskPath, filePath, repoCwd]);
+
+  React.useEffect(() => {
+    setLoading(true);
+    setHunks(null);
+    void load();
+  }, [load]);
+
+  const toggleLine = React.useCallback((area: Area, header: string, index: number) => {
+    setSelection((prev) => {
+      const lines = new Set(prev[area].get(header));
+      if (lines.has(index)) lines.delete(index);
+      else lines.add(index);
+      const byHunk = new Map(prev[area]);
+      if (lines.size > 0) byHunk.set(header, lines);
+      else byHunk.delete(header);
+      return { ...prev, [area]: byHunk };
+    });
+  }, []);
+
+  const run = React.useCallback(
+    async (action: HunkAction, selections: HunkSelection[]) => {
+      if (
+        action === 'discard' &&
+        !confirm('Discard the selected changes? This cannot be undone.')
+      ) {
+        return;
+      }
+      setPending(`${action}:${selections.map((s) => s.header).join('|')}`);
+      try {
+        const res = await applyHunks({ taskPath, filePath, repoCwd, action, selections });
+        if (!res?.success) {
+          toast({
+            title: `${ACTION_LABELS[action]} failed`,
+            description: res?.error || 'git apply failed',
+            variant: 'destructive',
+          });
+        } else {
+          onChanged?.();
+        }
+      } finally {
+        setPending(null);
+        await load();
+      }
+    },
+    [taskPath, filePath, repoCwd, toast, onChanged, load]
+  );
+
+  if (loading) {
+    return (
+      <div className="text-muted-foreground flex h-full items-center justify-center gap-2 text-sm">
+        <Spinner size="sm" />
+        <span>Loading hunks...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-destructive flex h-full items-center justify-center p-4 text-sm">
+        {error}
+      </div>
+    );
+  }
+
+  const sections: Array<{ area: Area; title: string; actions: HunkAction[] }> = [
+    { area: 'unstaged', title: 'Unstaged changes', actions: ['discard', 'stage'] },
+    { area: 'staged', title: 'Staged changes', actions: ['unstage'] },
+  ];
+  const visible = sections.filter(({ area }) => (hunks?.[area]?.hunks.length ?? 0) > 0);
+
+  if (visible.length === 0) {
+    return (
+      <div className="text-muted-foreground flex h-full items-center justify-center text-sm">
+        No hunks to stage in this file
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('h-full overflow-auto p-3', className)}>
+      {visible.map(({ area, title, actions }) => {
+        const fileHunks = hunks![area]!.hunks;
+        return (
+          <section key={area} className="mb-4 last:mb-0">
+            <div className="mb-2 flex items-center justify-between">
+              <h3 className="text-muted-foreground text-xs font-medium tracking-wide uppercase">
+                {title}
+              </h3>
+              <div className="flex items-center gap-1">
+                {actions.map((action) => (
+                  <Button
+                    key={action}
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    disabled={pending !== null}
+                    onClick={() =>
+                      void run(
+                        action,
+                        fileHunks.map((h) => ({ header: h.header }))
+                      )
+                    }
+                  >
+                    {ACTION_LABELS[action]} all
+                  </Button>
+                ))}
+              </div>
+            </div>
+            {fileHunks.map((hunk) => (
+              <HunkBlock
+                key={hunk.header}
+                hunk={hunk}
+                actions={actions}
+                selected={selection[area].get(hunk.header)}
+                pending={pending}
+                onToggleLine={(index) => toggleLine(area, hunk.header, index)}
+                onAction={(action, lines) =>
+                  void run(action, [{ header: hunk.header, lines: lines ?? undefined }])
+                }
+              />
+            ))}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
+
+const ACTION_ICONS: Record<HunkAction, React.ComponentType<{ className?: string }>> = {
+  stage: Plus,
+  unstage: Minus,
+  discard: Undo2,
+};
+
+function HunkBlock({
+  hunk,
+  actions,
+  selected,
+  pending,
+  onToggleLine,
+  onAction,
+}: {
+  hunk: DiffHunk;
+  actions: HunkAction[];
+  selected?: Set<number>;
+  pending: string | null;
+  onToggleLine: (index: number) => void;
+  onAction: (action: HunkAction, lines: number[] | null) => void;
+}) {
+  const selectedLines = selected && selected.size > 0 ? [...selected] : null;
+  const numbered = React.useMemo(() => numberLines(hunk), [hunk]);
+
+  return (
+    <div className="border-border mb-2 overflow-hidden rounded-md border">
+      <div className="bg-muted/50 flex items-center justify-between gap-2 px-2 py-1">
+        <span className="text-muted-foreground truncate font-mono text-[11px]">{hunk.header}</span>
+        <div className="flex shrink-0 items-center gap-1">
+          {actions.map((action) => {
+            const Icon = ACTION_ICONS[action];
+            return (
+              <Button
+                key={action}
+                variant="ghost"
+                size="sm"
+                className="h-6 gap-1 px-2 text-xs"
+                disabled={pending !== null}
+                onClick={() => onAction(action, selectedLines)}
+              >
+                {pending?.startsWith(`${action}:`) && pending.includes(hunk.header) ? (
+                  <Spinner size="sm" />
+                ) : (
+                  <Icon className="h-3 w-3" />
+                )}
+                {ACTION_LABELS[action]} {selectedLines ? 'lines' : 'hunk'}
+              </Button>
+            );
+          })}
+        </div>
+      </div>
+      <div className="font-mono text-xs leading-5">
+        {numbered.map(({ line, index, oldNo, newNo }) => {
+          const prefix = line[0];
+          const changed = prefix === '+' || prefix === '-';
+          const isSelected = changed && selected?.has(index);
+          return (
+            <div
+              key={index}
+              className={cn(
+                'flex whitespace-pre',
+                prefix === '+' && 'bg-emerald-500/10 text-emerald-700 dark:text-emerald-300',
+                prefix === '-' && 'bg-rose-500/10 text-rose-700 dark:text-rose-300',
+                prefix === '\\' && 'text-muted-foreground italic',
+                changed && 'hover:bg-accent cursor-pointer',
+                isSelected && 'ring-primary ring-1 ring-inset'
+              )}
+              onClick={changed ? () => onToggleLine(index) : undefined}
+              title={changed ? 'Click to select this line' : undefined}
+            >
+              <span className="text-muted-foreground w-10 shrink-0 pr-1 text-right select-none">
+                {oldNo ?? ''}
+              </span>
+              <span className="text-muted-foreground w-10 shrink-0 pr-2 text-right select-none">
+                {newNo ?? ''}
+              </span>
+              <span className="pr-2">{line}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function numberLines(hunk: DiffHunk) {
+  let oldNo = hunk.oldStart;
+  let newNo = hunk.newStart;
+  return hunk.lines.map((line, index) => {
+    const prefix = line[0];
+    if (prefix === '\\') return { line, index, oldNo: null, newNo: null };
+    const entry = {
+      line,
+      index,
+      oldNo: prefix === '+' ? null : oldNo,
+      newNo: prefix === '-' ? null : newNo,
+    };
+    if (prefix !== '+') oldNo++;
+    if (prefix !== '-') newNo++;
+    return entry;
+  });
+}
@@ -0,0 +1,371 @@
+import * as React from 'react';
+import { GitMerge } from 'lucide-react';
+import {
+  defaultMergeMessage,
+  type MergePreview,
+  type MergeResult,
+  type MergeStrategy,
+} from '@shared/merge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Spinner } from '@/components/ui/spinner';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { mergePreview, mergeToMain, updateFromBase } from '@/services/gitService';
+
+export const MERGE_STRATEGY_OPTIONS: Array<{
+  value: MergeStrategy;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: 'pull-request',
+    label: 'Pull request',
+    description: 'Push the branch, open a GitHub pull request and merge it.',
+  },
+  {
+    value: 'merge',
+    label: 'Merge commit',
+    description: 'Merge the branch locally, keeping its commits.',
+  },
+  {
+    value: 'squash',
+    label: 'Squash',
+    description: 'Combine the branch into a single commit locally.',
+  },
+  {
+    value: 'rebase',
+    label: 'Rebase',
+    description: 'Replay the branch on top of the base branch and fast-forward it.',
+  },
+];
+
+export interface MergeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  taskPath: string;
+  /** Called after the task landed on its base branch. */
+  onMerged?: (result: MergeResult) => void;
+  /** Called after the task was updated from its base to resolve merge conflicts. */
+  onUpdated?: () => void;
+}
+
+/**
+ * Lands a task on the project's base branch: pick a strategy, edit the commit
+ * message and choose whether to push. A dirty base checkout can be stashed
+ * around the merge; conflicts are listed and nothing is changed.
+ */
+export function MergeDialog({
+  open,
+  onOpenChange,
+  taskPath,
+  onMerged,
+  onUpdated,
+}: MergeDialogProps) {
+  const { toast } = useToast();
+  const [preview, setPreview] = React.useState<MergePreview | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [strategy, setStrategy] = React.useState<MergeStrategy>('merge');
+  const [message, setMessage] = React.useState('');
+  const [messageEdited, setMessageEdited] = React.useState(false);
+  const [push, setPush] = React.useState(false);
+  const [stashTargetChanges, setStashTargetChanges] = React.useState(false);
+  const [targetDirty, setTargetDirty] = React.useState(false);
+  const [conflicts, setConflicts] = React.useState<string[]>([]);
+  const [merging, setMerging] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLoading(true);
+    setPreview(null);
+    setError(null);
+    setConflicts([]);
+    setMessageEdited(false);
+    setStashTargetChanges(false);
+    void (async () => {
+      try {
+        const res = await mergePreview({ taskPath });
+        if (cancelled) return;
+        if (!res?.success || !res.preview) {
+          throw new Error(res?.error || 'Failed to load merge details');
+        }
+        const next = res.preview;
+        const initial = next.isRemoteProject ? 'pull-request' : next.strategy;
+        setPreview(next);
+        setStrategy(initial);
+        setMessage(defaultMergeMessage(initial, next.branch, next.target, next.commits));
+        setPush(!!next.remote);
+        setTargetDirty(next.targetDirty);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, taskPath]);
+
+  const selectStrategy = (value: MergeStrategy) => {
+    setStrategy(value);
+    setConflicts([]);
+    if (preview && !messageEdited) {
+      setMessage(defaultMergeMessage(value, preview.branch, preview.target, preview.commits));
+    }
+  };
+
+  const isLocal = strategy !== 'pull-request';
+  const messageLabel =
+    strategy === 'merge' || strategy === 'squash'
+      ? 'Commit message'
+      : 'Message for uncommitted changes';
+  const showMessage =
+    strategy === 'merge' ||
+    strategy === 'squash' ||
+    (strategy === 'pull-request' && preview?.hasUncommittedChanges);
+  // Local merges only land commits; the pull request flow commits pending changes itself
+  const taskDirty = isLocal && !!preview?.hasUncommittedChanges;
+
+  const merge = async () => {
+    if (!preview) return;
+    setMerging(true);
+    setError(null);
+    setConflicts([]);
+    try {
+      const result = await mergeToMain({
+        taskPath,
+        strategy,
+        message: message.trim() || undefined,
+        push: isLocal ? push : undefined,
+        stashTargetChanges: isLocal ? stashTargetChanges : undefined,
+      });
+      if (!result.success) {
+        if (result.targetDirty) setTargetDirty(true);
+        setConflicts(result.conflicts ?? []);
+        setError(result.error || 'Merge failed');
+        return;
+      }
+
+      toast({
+        title: `Merged into ${preview.target}`,
+        description: result.prUrl || result.sha?.slice(0, 7),
+      });
+      if (result.pushError) {
+        toast({
+          title: `Could not push ${preview.target}`,
+          description: result.pushError,
+          variant: 'destructive',
+        });
+      }
+      if (result.stashWarning) {
+        toast({ title: 'Stashed changes not restored', description: result.stashWarning });
+      }
+      if (result.verifyWarning) {
+        toast({ title: 'Verification has not passed', description: result.verifyWarning });
+      }
+      onMerged?.(result);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  // Conflicts are resolved in the task: bring the base into it, then merge again
+  const resolveInTask = async () => {
+    if (!preview) return;
+    setMerging(true);
+    try {
+      const res = await updateFromBase({
+        taskPath,
+        strategy: strategy === 'rebase' ? 'rebase' : 'merge',
+      });
+      if (!res.success && !res.status?.conflicts.length) {
+        throw new Error(res.error || 'Failed to update the task');
+      }
+      toast({
+        title: res.success ? `Updated from ${preview.target}` : 'Resolve the conflicts',
+        description: res.success
+          ? 'Review the task and merge again.'
+          : 'They are listed in the Changes panel.',
+      });
+      onUpdated?.();
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !merging && onOpenChange(next)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {preview ? `Merge ${preview.branch} into ${preview.target}` : 'Merge task'}
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-muted-foreground flex items-center gap-2 py-6 text-sm">
+            <Spinner size="sm" />
+            <span>Loading branch details...</span>
+          </div>
+        ) : preview ? (
+          <div className="space-y-4">
+            <p className="text-muted-foreground text-xs">
+              {preview.commits.length === 0
+                ? 'No commits yet'
+                : `${preview.commits.length} commit${preview.commits.length === 1 ? '' : 's'}`}
+              {preview.hasUncommittedChanges && ' plus uncommitted changes'}
+            </p>
+
+            <RadioGroup
+              value={strategy}
+              onValueChange={(value) => selectStrategy(value as MergeStrategy)}
+              className="space-y-2"
+            >
+              {MERGE_STRATEGY_OPTIONS.map(({ value, label, description }) => {
+                const disabled = value !== 'pull-request' && preview.isRemoteProject;
+                return (
+                  <div key={value} className="flex items-start gap-2">
+                    <RadioGroupItem
+                      value={value}
+                      id={`merge-strategy-${value}`}
+                      className="mt-0.5"
+                      disabled={disabled || merging}
+                    />
+                    <Label htmlFor={`merge-strategy-${value}`} className="space-y-0.5 font-normal">
+                      <div className="text-sm">{label}</div>
+                      <div className="text-muted-foreground text-xs">
+                        {disabled ? 'Not available for remote projects.' : description}
+                      </div>
+                    </Label>
+                  </div>
+                );
+              })}
+            </RadioGroup>
+
+            {showMessage && (
+              <div>
+                <Label htmlFor="merge-message" className="mb-2 block">
+                  {messageLabel}
+                </Label>
+                <Textarea
+                  id="merge-message"
+                  value={message}
+                  onChange={(e) => {
+                    setMessage(e.target.value);
+                    setMessageEdited(true);
+                  }}
+                  rows={4}
+                  className="font-mono text-xs"
+                  disabled={merging}
+                />
+              </div>
+            )}
+
+            {isLocal && preview.remote && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="merge-push"
+                  checked={push}
+                  onCheckedChange={(checked) => setPush(checked === true)}
+                  disabled={merging}
+                />
+                <Label htmlFor="merge-push" className="text-sm font-normal">
+                  Push {preview.target} to {preview.remote} afterwards
+                </Label>
+              </div>
+            )}
+
+            {taskDirty && (
+              <p className="rounded-md bg-amber-500/10 p-3 text-xs text-amber-700 dark:text-amber-300">
+                The task has uncommitted changes. Commit or discard them before merging into{' '}
+                {preview.target}.
+              </p>
+            )}
+
+            {isLocal && targetDirty && (
+              <div className="space-y-2 rounded-md bg-amber-500/10 p-3 text-xs text-amber-700 dark:text-amber-300">
+                <p>
+                  The checkout of {preview.target} has uncommitted changes or untracked files. They
+                  can be stashed while it is updated and restored afterwards.
+                </p>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="merge-stash"
+                    checked={stashTargetChanges}
+                    onCheckedChange={(checked) => setStashTargetChanges(checked === true)}
+                    disabled={merging}
+                  />
+                  <Label htmlFor="merge-stash" className="text-xs font-normal">
+                    Stash and restore them
+                  </Label>
+                </div>
+              </div>
+            )}
+          </div>
+        ) : null}
+
+        {error && (
+          <div className="bg-destructive/10 text-destructive rounded-md p-3 text-sm">
+            <p>{error}</p>
+            {conflicts.length > 0 && (
+              <ul className="mt-2 list-inside list-disc font-mono text-xs">
+                {conflicts.map((file) => (
+                  <li key={file}>{file}</li>
+                ))}
+              </ul>
+            )}
+            {conflicts.length > 0 && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="mt-3"
+                onClick={() => void resolveInTask()}
+                disabled={merging}
+              >
+                Update task from {preview?.target} to resolve them
+              </Button>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={merging}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() => void merge()}
+            disabled={
+              !preview || merging || taskDirty || (isLocal && targetDirty && !stashTargetChanges)
+            }
+          >
+            {merging ? (
+              <Spinner size="sm" className="mr-2" />
+            ) : (
+              <GitMerge className="mr-2 h-4 w-4" />
+            )}
+            Merge
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import type { MergeStrategy } from '@shared/merge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useToast } from '../../hooks/use-toast';
+import { MERGE_STRATEGY_OPTIONS } from './MergeDialog';
+
+const AUTO = 'auto';
+
+interface MergeStrategySelectProps {
+  projectId: string;
+}
+
+/**
+ * The project's default strategy for landing tasks. "Automatic" uses a pull
+ * request when the project is connected to GitHub and a local merge otherwise.
+ */
+const MergeStrategySelect: React.FC<MergeStrategySelectProps> = ({ projectId }) => {
+  const { toast } = useToast();
+  const [value, setValue] = useState<string>(AUTO);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    void window.electronAPI.getProjectSettings(projectId).then((res) => {
+      if (!cancelled && res?.success) {
+        setValue(res.settings?.mergeStrategy ?? AUTO);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const handleChange = async (next: string) => {
+    const previous = value;
+    setValue(next);
+    setSaving(true);
+    try {
+      const res = await window.electronAPI.updateProjectSettings({
+        projectId,
+        mergeStrategy: next === AUTO ? null : (next as MergeStrategy),
+      });
+      if (!res?.success) {
+        throw new Error(res?.error || 'Failed to update merge strategy');
+      }
+    } catch (error) {
+      setValue(previous);
+      toast({
+        variant: 'destructive',
+        title: 'Failed to update merge strategy',
+        description: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <p className="text-muted-foreground text-xs">Land tasks with</p>
+      <Select value={value} onValueChange={(next) => void handleChange(next)} disabled={saving}>
+        <SelectTrigger className="h-7 w-40 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={AUTO}>Automatic</SelectItem>
+          {MERGE_STRATEGY_OPTIONS.map(({ value: strategy, label }) => (
+            <SelectItem key={strategy} value={strategy}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default MergeStrategySelect;
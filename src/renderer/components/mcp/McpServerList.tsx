@@ -1,16 +1,29 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from '../ui/button';
 import { Switch } from '../ui/switch';
 import { Badge } from '../ui/badge';
-import { Pencil, Trash2, Plus, Server } from 'lucide-react';
-import type { McpServerConfig } from '@shared/mcp/types';
+import {
+  Pencil,
+  Trash2,
+  Plus,
+  Server,
+  Activity,
+  Loader2,
+  ChevronRight,
+  ChevronDown,
+} from 'lucide-react';
+import type { McpServerConfig, McpServerHealth } from '@shared/mcp/types';
 
 interface Props {
   servers: McpServerConfig[];
   isLoading: boolean;
+  health: Record<string, McpServerHealth>;
+  testingIds: Set<string>;
   onEdit: (server: McpServerConfig) => void;
   onDelete: (server: McpServerConfig) => void;
   onToggle: (server: McpServerConfig, enabled: boolean) => void;
+  onTest: (server: McpServerConfig) => void;
+  onToggleTool: (server: McpServerConfig, tool: string, enabled: boolean) => void;
   onAddNew: () => void;
 }
 
@@ -22,6 +35,10 @@ function getConfigSummary(server: McpServerConfig): string {
   return server.url;
 }
 
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
 const transportColors: Record<string, string> = {
   stdio: 'bg-blue-500/10 text-blue-500 border-blue-500/20',
   http: 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20',
@@ -31,11 +48,26 @@ const transportColors: Record<string, string> = {
 export const McpServerList: React.FC<Props> = ({
   servers,
   isLoading,
+  health,
+  testingIds,
   onEdit,
   onDelete,
   onToggle,
+  onTest,
+  onToggleTool,
   onAddNew,
 }) => {
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
   if (isLoading) {
     return (
       <div className="text-muted-foreground flex items-center justify-center py-8 text-sm">
@@ -59,39 +91,122 @@ export const McpServerList: React.FC<Props> = ({
 
   return (
     <div className="flex flex-col gap-2">
-      {servers.map((server) => (
-        <div
-          key={server.id}
-          className="border-border/50 flex items-center gap-3 rounded-md border px-3 py-2"
-        >
-          <Switch
-            checked={server.enabled}
-            onCheckedChange={(checked) => onToggle(server, checked)}
-          />
-          <div className="flex min-w-0 flex-1 flex-col gap-0.5">
-            <div className="flex items-center gap-2">
-              <span className="text-sm font-medium">{server.name}</span>
-              <Badge
-                variant="outline"
-                className={`px-1.5 py-0 text-[10px] ${transportColors[server.transport] || ''}`}
-              >
-                {server.transport}
-              </Badge>
+      {servers.map((server) => {
+        const result = health[server.id];
+        const isTesting = testingIds.has(server.id);
+        const isExpanded = expandedIds.has(server.id) && !!result?.ok;
+        const disabledTools = new Set(server.disabledTools ?? []);
+        return (
+          <div key={server.id} className="border-border/50 rounded-md border">
+            <div className="flex items-center gap-3 px-3 py-2">
+              <Switch
+                checked={server.enabled}
+                onCheckedChange={(checked) => onToggle(server, checked)}
+              />
+              <div className="flex min-w-0 flex-1 flex-col gap-0.5">
+                <div className="flex items-center gap-2">
+                  {result && (
+                    <span
+                      className={`h-2 w-2 shrink-0 rounded-full ${result.ok ? 'bg-emerald-500' : 'bg-destructive'}`}
+                      title={result.ok ? 'Connected' : result.error}
+                    />
+                  )}
+                  <span className="text-sm font-medium">{server.name}</span>
+                  <Badge
+                    variant="outline"
+                    className={`px-1.5 py-0 text-[10px] ${transportColors[server.transport] || ''}`}
+                  >
+                    {server.transport}
+                  </Badge>
+                </div>
+                <span className="text-muted-foreground truncate text-xs">
+                  {getConfigSummary(server)}
+                </span>
+                {result?.ok && (
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-foreground flex items-center gap-1 text-left text-xs"
+                    onClick={() => toggleExpanded(server.id)}
+                  >
+                    {isExpanded ? (
+                      <ChevronDown className="h-3 w-3" />
+                    ) : (
+                      <ChevronRight className="h-3 w-3" />
+                    )}
+                    {plural(result.tools.length, 'tool')} ·{' '}
+                    {plural(result.resources.length, 'resource')} ·{' '}
+                    {plural(result.prompts.length, 'prompt')}
+                    {disabledTools.size > 0 && ` · ${disabledTools.size} disabled`}
+                  </button>
+                )}
+                {result && !result.ok && (
+                  <span className="text-destructive line-clamp-2 text-xs">{result.error}</span>
+                )}
+                {!result?.ok && disabledTools.size > 0 && (
+                  <span className="text-muted-foreground text-xs">
+                    {plural(disabledTools.size, 'tool')} disabled
+                  </span>
+                )}
+                {disabledTools.size > 0 && (
+                  <span className="text-xs text-amber-600 dark:text-amber-400">
+                    Not available in remote (SSH) sessions while tools are disabled
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => onTest(server)}
+                  disabled={isTesting}
+                  title="Test connection"
+                >
+                  {isTesting ? (
+                    <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                  ) : (
+                    <Activity className="h-3.5 w-3.5" />
+                  )}
+                </Button>
+                <Button type="button" variant="ghost" size="icon-sm" onClick={() => onEdit(server)}>
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => onDelete(server)}
+                >
+                  <Trash2 className="text-destructive h-3.5 w-3.5" />
+                </Button>
+              </div>
             </div>
-            <span className="text-muted-foreground truncate text-xs">
-              {getConfigSummary(server)}
-            </span>
-          </div>
-          <div className="flex items-center gap-1">
-            <Button type="button" variant="ghost" size="icon-sm" onClick={() => onEdit(server)}>
-              <Pencil className="h-3.5 w-3.5" />
-            </Button>
-            <Button type="button" variant="ghost" size="icon-sm" onClick={() => onDelete(server)}>
-              <Trash2 className="text-destructive h-3.5 w-3.5" />
-            </Button>
+            {isExpanded && (
+              <div className="border-border/50 flex flex-col gap-1 border-t px-3 py-2">
+                {result.tools.length === 0 && (
+                  <span className="text-muted-foreground text-xs">This server has no tools.</span>
+                )}
+                {result.tools.map((tool) => (
+                  <div key={tool.name} className="flex items-center gap-3 py-0.5">
+                    <Switch
+                      checked={!disabledTools.has(tool.name)}
+                      onCheckedChange={(checked) => onToggleTool(server, tool.name, checked)}
+                    />
+                    <div className="flex min-w-0 flex-1 flex-col">
+                      <span className="truncate font-mono text-xs">{tool.name}</span>
+                      {tool.description && (
+                        <span className="text-muted-foreground truncate text-xs">
+                          {tool.description}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
-        </div>
-      ))}
+        );
+      })}
     </div>
   );
 };
@@ -6,6 +6,7 @@ import { Separator } from '../ui/separator';
 import { McpServerList } from './McpServerList';
 import { McpServerForm } from './McpServerForm';
 import { McpRegistrySearch } from './McpRegistrySearch';
+import { ValkyrMcpSection } from './ValkyrMcpSection';
 import { useMcpServers } from '../../hooks/useMcpServers';
 import type { McpServerConfig, McpServerInput } from '@shared/mcp/types';
 import type { AgentMcpDiscovery } from '../../types/electron-api';
@@ -263,6 +264,15 @@ export const McpView: React.FC<McpViewProps> = ({ projectPath }) => {
 
       <Separator className="border-border/60" />
 
+      {/* Built-in Server */}
+      <section className="space-y-3">
+        <h3 className="text-sm font-semibold">Built-in Server</h3>
+        <p className="text-muted-foreground text-xs">Injected into every local agent session.</p>
+        <ValkyrMcpSection projectPath={projectPath} />
+      </section>
+
+      <Separator className="border-border/60" />
+
       {/* Global Servers */}
       <section className="space-y-3">
         <div className="flex items-center justify-between">
@@ -283,9 +293,15 @@ export const McpView: React.FC<McpViewProps> = ({ projectPath }) => {
         <McpServerList
           servers={globalServers.servers}
           isLoading={globalServers.isLoading}
+          health={globalServers.health}
+          testingIds={globalServers.testingIds}
           onEdit={(server) => handleEdit(server, 'global')}
           onDelete={(server) => void handleDelete(server, 'global')}
           onToggle={(server, enabled) => void handleToggle(server, enabled, 'global')}
+          onTest={(server) => void globalServers.testServer(server)}
+          onToggleTool={(server, tool, enabled) =>
+            void globalServers.setToolEnabled(server.id, tool, enabled)
+          }
           onAddNew={() => handleAddManual('global')}
         />
       </section>
@@ -313,9 +329,15 @@ export const McpView: React.FC<McpViewProps> = ({ projectPath }) => {
             <McpServerList
               servers={projectServers.servers}
               isLoading={projectServers.isLoading}
+              health={projectServers.health}
+              testingIds={projectServers.testingIds}
               onEdit={(server) => handleEdit(server, 'project')}
               onDelete={(server) => void handleDelete(server, 'project')}
               onToggle={(server, enabled) => void handleToggle(server, enabled, 'project')}
+              onTest={(server) => void projectServers.testServer(server)}
+              onToggleTool={(server, tool, enabled) =>
+                void projectServers.setToolEnabled(server.id, tool, enabled)
+              }
               onAddNew={() => handleAddManual('project')}
             />
           </section>
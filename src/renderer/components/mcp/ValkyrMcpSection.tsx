@@ -0,0 +1,93 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Switch } from '../ui/switch';
+import { getSettings, updateSettings } from '../../services/settingsService';
+import {
+  VALKYR_MCP_TOOLS,
+  allowedValkyrMcpTools,
+  type ValkyrMcpSettings,
+  type ValkyrMcpToolName,
+} from '@shared/mcp/valkyr';
+
+interface Props {
+  projectPath?: string;
+}
+
+/** Enables the built-in Valkyr server and picks the tools each project allows. */
+export const ValkyrMcpSection: React.FC<Props> = ({ projectPath }) => {
+  const [settings, setSettings] = useState<ValkyrMcpSettings | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      const next = await getSettings();
+      setSettings(next?.mcp?.valkyr ?? { enabled: true, projects: {} });
+    } catch {}
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const save = async (update: Partial<ValkyrMcpSettings>) => {
+    setBusy(true);
+    try {
+      await updateSettings({ mcp: { valkyr: update } });
+      await refresh();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!settings) return null;
+  const allowed = projectPath ? allowedValkyrMcpTools(settings, projectPath) : [];
+
+  const onToggleTool = (tool: ValkyrMcpToolName, enabled: boolean) => {
+    if (!projectPath) return;
+    const tools = enabled ? [...allowed, tool] : allowed.filter((t) => t !== tool);
+    void save({ projects: { [projectPath]: tools } });
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="border-border/50 flex items-center gap-3 rounded-md border px-3 py-2">
+        <Switch
+          checked={settings.enabled}
+          onCheckedChange={(checked) => void save({ enabled: checked })}
+          disabled={busy}
+          aria-label="Enable the Valkyr MCP server"
+        />
+        <div className="flex min-w-0 flex-1 flex-col gap-0.5">
+          <span className="text-sm font-medium">valkyr</span>
+          <span className="text-muted-foreground text-xs">
+            Lets agents see the other tasks of their project and coordinate with them. Not available
+            in remote projects.
+          </span>
+        </div>
+      </div>
+
+      {settings.enabled &&
+        (projectPath ? (
+          <div className="flex flex-col gap-1">
+            <p className="text-muted-foreground text-xs">Tools allowed in this project:</p>
+            {VALKYR_MCP_TOOLS.map((tool) => (
+              <div key={tool.name} className="flex items-center gap-3 px-3 py-1">
+                <Switch
+                  checked={allowed.includes(tool.name)}
+                  onCheckedChange={(checked) => onToggleTool(tool.name, checked)}
+                  disabled={busy}
+                />
+                <div className="flex min-w-0 flex-1 flex-col">
+                  <span className="text-xs font-medium">{tool.title}</span>
+                  <span className="text-muted-foreground truncate text-xs">{tool.description}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-xs">
+            Open a project to choose the tools its agents may use.
+          </p>
+        ))}
+    </div>
+  );
+};
@@ -13,9 +13,11 @@ import { classifyActivity } from '@/lib/activityClassifier';
 import { activityStore } from '@/lib/activityStore';
 import { Spinner } from '../ui/spinner';
 import { BUSY_HOLD_MS, CLEAR_BUSY_MS } from '@/lib/activityConstants';
-import { CornerDownLeft } from 'lucide-react';
+import { Columns, CornerDownLeft } from 'lucide-react';
 import { TooltipProvider, Tooltip, TooltipTrigger, TooltipContent } from '../ui/tooltip';
 import { useAutoScrollOnTaskSwitch } from '@/hooks/useAutoScrollOnTaskSwitch';
+import VariantComparisonView from './VariantComparisonView';
+import type { Issue } from '@shared/issues';
 
 interface Props {
   task: Task;
@@ -25,6 +27,7 @@ interface Props {
   projectRemoteConnectionId?: string | null;
   projectRemotePath?: string | null;
   defaultBranch?: string | null;
+  onTaskUpdated?: (task: Task) => void;
 }
 
 type Variant = {
@@ -38,14 +41,17 @@ type Variant = {
 
 const MultiAgentTask: React.FC<Props> = ({
   task,
+  projectId,
   projectPath,
   projectRemoteConnectionId,
   projectRemotePath: _projectRemotePath,
   defaultBranch: _defaultBranch,
+  onTaskUpdated,
 }) => {
   const { effectiveTheme } = useTheme();
   const [prompt, setPrompt] = useState('');
   const [activeTabIndex, setActiveTabIndex] = useState(0);
+  const [comparing, setComparing] = useState(false);
   const [variantBusy, setVariantBusy] = useState<Record<string, boolean>>({});
   const acpAppendRefs = useRef<
     Record<string, ((msg: { content: string }) => Promise<void>) | null>
@@ -156,6 +162,25 @@ const MultiAgentTask: React.FC<Props> = ({
       }
       return parts.join('\n');
     }
+    // GitLab
+    const gl = md.gitlabIssue as Issue | undefined;
+    if (gl) {
+      const parts: string[] = [];
+      parts.push(`Linked GitLab issue: ${gl.key}${gl.title ? ` — ${gl.title}` : ''}`);
+      const details: string[] = [];
+      if (gl.state) details.push(`State: ${gl.state}`);
+      if (gl.assignees?.length) details.push(`Assignees: ${gl.assignees.join(', ')}`);
+      if (gl.labels?.length) details.push(`Labels: ${gl.labels.join(', ')}`);
+      if (details.length) parts.push(`Details: ${details.join(' • ')}`);
+      if (gl.url) parts.push(`URL: ${gl.url}`);
+      const body = typeof gl.body === 'string' ? gl.body.trim() : '';
+      if (body) {
+        const max = 1500;
+        const clipped = body.length > max ? body.slice(0, max) + '\n…' : body;
+        parts.push('', 'Issue Description:', clipped);
+      }
+      return parts.join('\n');
+    }
     // Jira
     const j = md.jiraIssue as Record<string, unknown> | undefined;
     if (j) {
@@ -369,6 +394,31 @@ const MultiAgentTask: React.FC<Props> = ({
     );
   }
 
+  // Comparison needs separate worktrees; remote projects can't be compared yet
+  const canCompare =
+    variants.length > 1 &&
+    !!projectPath &&
+    !projectRemoteConnectionId &&
+    task.useWorktree !== false &&
+    !multi.winner;
+
+  if (comparing && canCompare && projectPath) {
+    return (
+      <VariantComparisonView
+        task={task}
+        projectId={projectId}
+        projectPath={projectPath}
+        variants={variants}
+        getVariantLabel={(variant) => getVariantDisplayLabel(variant as Variant)}
+        onClose={() => setComparing(false)}
+        onTaskUpdated={(updated) => {
+          setActiveTabIndex(0);
+          onTaskUpdated?.(updated);
+        }}
+      />
+    );
+  }
+
   return (
     <div className="relative flex h-full flex-col">
       {variants.map((v, idx) => {
@@ -381,6 +431,17 @@ const MultiAgentTask: React.FC<Props> = ({
           >
             <div className="flex h-full flex-col">
               <div className="flex items-center justify-end gap-2 px-3 py-1.5">
+                {canCompare ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 gap-1.5 px-2 text-xs"
+                    onClick={() => setComparing(true)}
+                  >
+                    <Columns className="h-3.5 w-3.5" />
+                    Compare
+                  </Button>
+                ) : null}
                 <OpenInMenu
                   path={v.path}
                   isRemote={!!projectRemoteConnectionId}
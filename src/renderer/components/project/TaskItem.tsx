@@ -11,6 +11,7 @@ import {
 } from 'lucide-react';
 import { usePrStatus } from '../../hooks/usePrStatus';
 import { useUnifiedStatus } from '../../hooks/useUnifiedStatus';
+import { useTaskProgress } from '../../hooks/useTaskProgress';
 import { normalizeTaskName, MAX_TASK_NAME_LENGTH } from '../../lib/taskNames';
 import { openExternal } from '../../services/shellService';
 import {
@@ -74,6 +75,7 @@ export const TaskItem: React.FC<TaskItemProps> = ({
 }) => {
   const { pr } = usePrStatus(task.path);
   const unifiedDot = useUnifiedStatus(task.id);
+  const progress = useTaskProgress(task.id);
 
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
@@ -208,7 +210,22 @@ export const TaskItem: React.FC<TaskItemProps> = ({
         ) : (
           <>
             {isPinned && <Pin className="text-muted-foreground h-3 w-3 flex-shrink-0" />}
-            <span className="text-foreground block truncate text-xs font-medium">{task.name}</span>
+            <span className="flex min-w-0 flex-col">
+              <span className="text-foreground block truncate text-xs font-medium">
+                {task.name}
+              </span>
+              {progress && (
+                <span
+                  className={`block truncate text-[10px] ${
+                    progress.state === 'blocked' ? 'text-red-500' : 'text-muted-foreground'
+                  }`}
+                  title={progress.message}
+                >
+                  {progress.percent !== null && `${Math.round(progress.percent)}% · `}
+                  {progress.message}
+                </span>
+              )}
+            </span>
             {task.useWorktree !== false && (
               <span title="Running in worktree">
                 <GitBranch className="text-muted-foreground h-3 w-3 flex-shrink-0" />
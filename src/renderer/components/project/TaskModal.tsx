@@ -13,6 +13,7 @@ import { agentMeta } from '../../providers/meta';
 import { isValidProviderId, getProvider } from '@shared/providers/registry';
 import type { ProviderId } from '@shared/providers/registry';
 import { getSettings } from '../../services/settingsService';
+import { loadCustomAgents } from '../../hooks/useCustomAgents';
 import {
   generateFriendlyTaskName,
   normalizeTaskName,
@@ -175,15 +176,17 @@ const TaskModal: React.FC<TaskModalProps> = ({
     setError(validate(suggested));
     autoNameInitializedRef.current = true;
 
-    // Load settings
+    // Load settings, and the custom agents the default provider may refer to
     let cancel = false;
-    getSettings().then((settings) => {
+    void Promise.all([getSettings(), loadCustomAgents(projectPath)]).then(([settings]) => {
       if (cancel) return;
 
       const settingsAgent = settings?.defaultProvider;
-      const agent: Agent = isValidProviderId(settingsAgent)
-        ? (settingsAgent as Agent)
-        : DEFAULT_AGENT;
+      // A custom default agent may not be defined for this project
+      const agent: Agent =
+        isValidProviderId(settingsAgent) && getProvider(settingsAgent)
+          ? (settingsAgent as Agent)
+          : DEFAULT_AGENT;
       setAgentRuns([{ agent, runs: 1 }]);
 
       const autoApproveByDefault = settings?.tasks?.autoApproveByDefault ?? false;
@@ -1,6 +1,6 @@
 import React, { useMemo, useState, useEffect, useCallback, useRef } from 'react';
 import { TerminalPane } from '../TerminalPane';
-import { Bot, Plus, Play, Square, X } from 'lucide-react';
+import { Bot, Plus, Play, RotateCw, Square, X } from 'lucide-react';
 import { useTheme } from '../../hooks/useTheme';
 import { useTaskTerminals } from '@/lib/taskTerminalsStore';
 import { cn } from '@/lib/utils';
@@ -40,9 +40,36 @@ interface Props {
 }
 
 type LifecyclePhaseStatus = 'idle' | 'running' | 'succeeded' | 'failed';
-type SelectedMode = 'task' | 'global' | 'lifecycle';
-type LifecyclePhase = 'setup' | 'run' | 'teardown';
+type SelectedMode = 'task' | 'global' | 'lifecycle' | 'service';
+type LifecyclePhase = 'setup' | 'run' | 'teardown' | 'verify';
 type LifecycleLogs = Record<LifecyclePhase, string[]>;
+type LifecycleService = {
+  name: string;
+  status: 'waiting' | 'starting' | 'ready' | 'stopped' | 'exited' | 'failed';
+  port: number;
+  error?: string | null;
+  restarts: number;
+};
+
+function formatServiceLogEntry(
+  name: string,
+  evt: { status?: string; line?: string; exitCode?: number; error?: string }
+): string | undefined {
+  switch (evt.status) {
+    case 'line':
+      return evt.line;
+    case 'starting':
+      return `$ ${name} started\n`;
+    case 'ready':
+      return `$ ${name} ready\n`;
+    case 'error':
+      return `$ ${name} failed${typeof evt.error === 'string' ? `: ${evt.error}` : ''}\n`;
+    case 'exit':
+      return `$ ${name} exited (${evt.exitCode ?? 'signal'})\n`;
+    default:
+      return undefined;
+  }
+}
 
 const TaskTerminalPanelComponent: React.FC<Props> = ({
   task,
@@ -75,16 +102,20 @@ const TaskTerminalPanelComponent: React.FC<Props> = ({
   const [runStatus, setRunStatus] = useState<LifecyclePhaseStatus>('idle');
   const [setupStatus, setSetupStatus] = useState<LifecyclePhaseStatus>('idle');
   const [teardownStatus, setTeardownStatus] = useState<LifecyclePhaseStatus>('idle');
+  const [verifyStatus, setVerifyStatus] = useState<LifecyclePhaseStatus>('idle');
   const [runActionBusy, setRunActionBusy] = useState(false);
   const activeTaskIdRef = useRef<string | null>(task?.id ?? null);
   const [lifecycleLogs, setLifecycleLogs] = useState<LifecycleLogs>({
     setup: [],
     run: [],
     teardown: [],
+    verify: [],
   });
+  const [services, setServices] = useState<LifecycleService[]>([]);
+  const [serviceLogs, setServiceLogs] = useState<Record<string, string[]>>({});
 
   const parseValue = (value: string): { mode: SelectedMode; id: string } | null => {
-    const match = value.match(/^(task|global|lifecycle)::(.+)$/);
+    const match = value.match(/^(task|global|lifecycle|service)::(.+)$/);
     if (!match) return null;
     return { mode: match[1] as SelectedMode, id: match[2] };
   };
@@ -92,6 +123,8 @@ const TaskTerminalPanelComponent: React.FC<Props> = ({
   const parsed = selectedValue ? parseValue(selectedValue) : null;
   const selectedLifecycle =
     parsed?.mode === 'lifecycle' ? (parsed.id as LifecyclePhase) : (null as LifecyclePhase | null);
+  const selectedService = parsed?.mode === 'service' ? parsed.id : null;
+  const selectedServiceState = services.find((service) => service.name === selectedService);
 
   const taskEnv = useMemo(() => {
     if (!task || !task.path || !projectPath) return undefined;
@@ -121,6 +154,8 @@ const TaskTerminalPanelComponent: React.FC<Props> = ({
       if (res.state.run?.status) setRunStatus(res.state.run.status);
       if (res.state.setup?.status) setSetupStatus(res.state.setup.status);
       if (res.state.teardown?.status) setTeardownStatus(res.state.teardown.status);
+      if (res.state.verify?.status) setVerifyStatus(res.state.verify.status);
+      setServices(res.state.services ?? []);
     } catch {}
   }, [task?.id]);
 
@@ -128,8 +163,11 @@ const TaskTerminalPanelComponent: React.FC<Props> = ({
     setRunStatus('idle');
     setSetupStatus('idle');
     setTeardownStatus('idle');
+    setVerifyStatus('idle');
     setRunActionBusy(false);
-    setLifecycleLogs({ setup: [], run: [], teardown: [] });
+    setLifecycleLogs({ setup: [], run: [], teardown: [], verify: [] });
+    setServices([]);
+    setServiceLogs({});
     if (!task) return;
 
     const api = window.electronAPI;
@@ -143,10 +181,25 @@ const TaskTerminalPanelComponent: React.FC<Props> = ({
       };
     }
 
-    const off = api.onLifecycleEvent((evt: { taskId?: string; phase?: string; status?: string; line?: string; exitCode?: number; error?: string }) => {
+    const off = api.onLifecycleEvent((evt: { taskId?: string; phase?: string; service?: string; status?: string; line?: string; exitCode?: number; error?: string }) => {
       if (!evt || evt.taskId !== task.id) return;
+      if (evt.service) {
+        const name = evt.service;
+        const entry = formatServiceLogEntry(name, evt);
+        if (typeof entry === 'string') {
+          setServiceLogs((prev) => ({
+            ...prev,
+            [name]: [...(prev[name] ?? []), entry].slice(-300),
+          }));
+        }
+        if (evt.status !== 'line') void refreshLifecycleState();
+        return;
+      }
       const phase =
-        evt.phase === 'setup' || evt.phase === 'run' || evt.phase === 'teardown'
+        evt.phase === 'setup' ||
+        evt.phase === 'run' ||
+        evt.phase === 'teardown' ||
+        evt.phase === 'verify'
           ? (evt.phase as LifecyclePhase)
           : null;
       if (phase) {
@@ -197,6 +250,12 @@ const TaskTerminalPanelComponent: React.FC<Props> = ({
         if (evt.status === 'error') setTeardownStatus('failed');
         return;
       }
+      if (evt.phase === 'verify') {
+        if (evt.status === 'starting') setVerifyStatus('running');
+        if (evt.status === 'done') setVerifyStatus('succeeded');
+        if (evt.status === 'error') setVerifyStatus('failed');
+        return;
+      }
       if (evt.phase !== 'run') return;
       if (evt.status === 'starting') {
         setRunStatus('running');
@@ -263,7 +322,7 @@ const TaskTerminalPanelComponent: React.FC<Props> = ({
     }
 
     const p = parseValue(selectedValue);
-    if (!p || p.mode === 'lifecycle') return;
+    if (!p || p.mode === 'lifecycle' || p.mode === 'service') return;
 
     const terminals = p.mode === 'task' ? taskTerminals.terminals : globalTerminals.terminals;
     const exists = terminals.some((t) => t.id === p.id);
@@ -292,7 +351,8 @@ const TaskTerminalPanelComponent: React.FC<Props> = ({
     }
   };
 
-  const activeTerminalId = parsed?.mode === 'lifecycle' ? null : (parsed?.id ?? null);
+  const activeTerminalId =
+    parsed?.mode === 'lifecycle' || parsed?.mode === 'service' ? null : (parsed?.id ?? null);
   const totalTerminals = taskTerminals.terminals.length + globalTerminals.terminals.length;
 
   const canStartRun =
@@ -319,6 +379,8 @@ const TaskTerminalPanelComponent: React.FC<Props> = ({
         await api.lifecycleSetup?.({ taskId: task.id, taskPath: task.path, projectPath });
       } else if (selectedLifecycle === 'teardown') {
         await api.lifecycleTeardown?.({ taskId: task.id, taskPath: task.path, projectPath });
+      } else if (selectedLifecycle === 'verify') {
+        await api.lifecycleVerify?.({ taskId: task.id, taskPath: task.path, projectPath });
       } else {
         await api.lifecycleRunStart?.({ taskId: task.id, taskPath: task.path, projectPath });
       }
@@ -344,6 +406,23 @@ const TaskTerminalPanelComponent: React.FC<Props> = ({
     }
   }, [task?.id, refreshLifecycleState]);
 
+  const handleRestartService = useCallback(async () => {
+    if (!task || !selectedService) return;
+    try {
+      const result = await window.electronAPI.lifecycleServiceRestart?.({
+        taskId: task.id,
+        service: selectedService,
+      });
+      if (result && !result.success) {
+        console.error('Failed to restart service:', result.error);
+      }
+    } catch (error) {
+      console.error('Failed to restart service:', error);
+    } finally {
+      void refreshLifecycleState();
+    }
+  }, [task?.id, selectedService, refreshLifecycleState]);
+
   const [nativeTheme, setNativeTheme] = useState<{
     background?: string;
     foreground?: string;
@@ -543,9 +622,21 @@ const TaskTerminalPanelComponent: React.FC<Props> = ({
                 <SelectItem value="lifecycle::run" className="text-xs">
                   Run
                 </SelectItem>
+                {services.map((service) => (
+                  <SelectItem
+                    key={`service::${service.name}`}
+                    value={`service::${service.name}`}
+                    className="pl-5 text-xs"
+                  >
+                    {service.name}
+                  </SelectItem>
+                ))}
                 <SelectItem value="lifecycle::teardown" className="text-xs">
                   Teardown
                 </SelectItem>
+                <SelectItem value="lifecycle::verify" className="text-xs">
+                  Verify
+                </SelectItem>
               </SelectGroup>
             )}
           </SelectContent>
@@ -595,11 +686,13 @@ const TaskTerminalPanelComponent: React.FC<Props> = ({
                       ? 'Run setup script'
                       : selectedLifecycle === 'teardown'
                         ? 'Run teardown script'
-                        : setupStatus === 'running'
-                          ? 'Setup is still running'
-                          : setupStatus === 'failed'
-                            ? 'Setup failed'
-                            : 'Start run script'}
+                        : selectedLifecycle === 'verify'
+                          ? 'Run verify script'
+                          : setupStatus === 'running'
+                            ? 'Setup is still running'
+                            : setupStatus === 'failed'
+                              ? 'Setup failed'
+                              : 'Start run script'}
                 </p>
               </TooltipContent>
             </Tooltip>
@@ -650,14 +743,51 @@ const TaskTerminalPanelComponent: React.FC<Props> = ({
         })()}
       </div>
 
-      {selectedLifecycle ? (
+      {selectedService ? (
+        <div className="flex h-full flex-1 flex-col overflow-hidden">
+          <div className="border-border text-muted-foreground flex items-center gap-2 border-b px-3 py-1 text-xs">
+            <span className="min-w-0 flex-1 truncate">
+              {selectedServiceState
+                ? `${selectedServiceState.name}: ${selectedServiceState.status} · port ${selectedServiceState.port}${
+                    selectedServiceState.restarts > 0
+                      ? ` · restarted ${selectedServiceState.restarts}×`
+                      : ''
+                  }${selectedServiceState.error ? ` · ${selectedServiceState.error}` : ''}`
+                : `${selectedService}: not running`}
+            </span>
+            <TooltipProvider delayDuration={200}>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={handleRestartService}
+                    disabled={runStatus !== 'running' || !selectedServiceState}
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    <RotateCw className="h-3.5 w-3.5" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent side="bottom">
+                  <p className="text-xs">Restart service</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          </div>
+          <pre className="text-foreground h-full overflow-auto p-3 text-xs leading-relaxed">
+            {(serviceLogs[selectedService] ?? []).join('') || 'No service output yet.'}
+          </pre>
+        </div>
+      ) : selectedLifecycle ? (
         <div className="flex h-full flex-1 flex-col overflow-hidden">
           <div className="border-border text-muted-foreground border-b px-3 py-2 text-xs">
             {selectedLifecycle === 'setup'
               ? `Setup status: ${setupStatus}`
               : selectedLifecycle === 'teardown'
                 ? `Teardown status: ${teardownStatus}`
-                : `Run status: ${runStatus}`}
+                : selectedLifecycle === 'verify'
+                  ? `Verify status: ${verifyStatus}`
+                  : `Run status: ${runStatus}`}
           </div>
           <pre className="text-foreground h-full overflow-auto p-3 text-xs leading-relaxed">
             {lifecycleLogs[selectedLifecycle].join('') || 'No lifecycle output yet.'}
@@ -0,0 +1,551 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Play, RefreshCw, Square, Trophy, X } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Spinner } from '../ui/spinner';
+import { RadioGroup, RadioGroupItem } from '../ui/radio-group';
+import { Label } from '../ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '../ui/alert-dialog';
+import { useTheme } from '@/hooks/useTheme';
+import { useToast } from '@/hooks/use-toast';
+import { saveTask } from '../../services/projectService';
+import type { Task } from '../../types/chat';
+import type { LifecyclePhaseStateStatus } from '@shared/lifecycle';
+import type { VariantComparison, VariantRef, WinnerStrategy } from '@shared/variants';
+
+const DiffViewer = React.lazy(() =>
+  import('@/components/git/DiffViewer').then((m) => ({ default: m.DiffViewer }))
+);
+
+type Variant = NonNullable<NonNullable<Task['metadata']>['multiAgent']>['variants'][number];
+
+interface RunState {
+  status: LifecyclePhaseStateStatus;
+  lastLine?: string;
+  exitCode?: number | null;
+}
+
+interface Props {
+  task: Task;
+  projectId: string;
+  projectPath: string;
+  variants: Variant[];
+  getVariantLabel: (variant: Variant) => string;
+  onClose: () => void;
+  onTaskUpdated?: (task: Task) => void;
+}
+
+const STRATEGIES: Array<{ value: WinnerStrategy; label: string; description: string }> = [
+  {
+    value: 'merge',
+    label: 'Merge',
+    description: "Keep the variant's history and add a merge commit on the task branch.",
+  },
+  {
+    value: 'cherry-pick',
+    label: 'Cherry-pick',
+    description: "Replay the variant's commits onto the task branch for a linear history.",
+  },
+];
+
+const toRef = (variant: Variant): VariantRef => ({
+  worktreeId: variant.worktreeId,
+  name: variant.name,
+  branch: variant.branch,
+  path: variant.path,
+});
+
+const RUN_STATUS_CLASS: Record<LifecyclePhaseStateStatus, string> = {
+  idle: 'text-muted-foreground',
+  running: 'text-blue-500',
+  succeeded: 'text-green-500',
+  failed: 'text-destructive',
+};
+
+const VariantComparisonView: React.FC<Props> = ({
+  task,
+  projectId,
+  projectPath,
+  variants,
+  getVariantLabel,
+  onClose,
+  onTaskUpdated,
+}) => {
+  const { effectiveTheme } = useTheme();
+  const { toast } = useToast();
+  const [comparison, setComparison] = useState<VariantComparison | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<{ worktreeId: string; path: string } | null>(null);
+  const [diff, setDiff] = useState<string | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
+  const [runs, setRuns] = useState<Record<string, RunState>>({});
+  const [pendingWinner, setPendingWinner] = useState<Variant | null>(null);
+  const [strategy, setStrategy] = useState<WinnerStrategy>('merge');
+  const [picking, setPicking] = useState(false);
+
+  const baseRef = task.metadata?.multiAgent?.baseRef ?? undefined;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.worktreeCompareVariants({
+        projectPath,
+        variants: variants.map(toRef),
+        baseRef,
+      });
+      if (result.success && result.baseSha && result.variants) {
+        setComparison({ baseSha: result.baseSha, variants: result.variants });
+      } else {
+        setError(result.error || 'Failed to compare variants.');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare variants.');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectPath, variants, baseRef]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  // Load the diff for the selected matrix cell
+  useEffect(() => {
+    if (!selected || !comparison) {
+      setDiff(null);
+      return;
+    }
+    const variant = variants.find((v) => v.worktreeId === selected.worktreeId);
+    if (!variant) return;
+    let cancelled = false;
+    setDiffLoading(true);
+    window.electronAPI
+      .worktreeVariantFileDiff({
+        variantPath: variant.path,
+        baseSha: comparison.baseSha,
+        filePath: selected.path,
+      })
+      .then((result) => {
+        if (!cancelled) setDiff(result.success ? (result.diff ?? '') : null);
+      })
+      .catch(() => {
+        if (!cancelled) setDiff(null);
+      })
+      .finally(() => {
+        if (!cancelled) setDiffLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selected, comparison, variants]);
+
+  // Lifecycle run state per variant; variant worktree ids double as lifecycle task ids
+  useEffect(() => {
+    const ids = new Set(variants.map((v) => v.worktreeId));
+    let cancelled = false;
+
+    const refresh = async (taskId: string) => {
+      try {
+        const res = await window.electronAPI.lifecycleGetState({ taskId });
+        if (cancelled || !res?.success || !res.state) return;
+        const run = res.state.run;
+        setRuns((prev) => ({
+          ...prev,
+          [taskId]: { ...prev[taskId], status: run.status, exitCode: run.exitCode },
+        }));
+      } catch {}
+    };
+    ids.forEach((id) => void refresh(id));
+
+    const off = window.electronAPI.onLifecycleEvent(
+      (evt: { taskId?: string; phase?: string; status?: string; line?: string }) => {
+        if (!evt?.taskId || !ids.has(evt.taskId) || evt.phase !== 'run') return;
+        const taskId = evt.taskId;
+        if (evt.status === 'line' && typeof evt.line === 'string' && evt.line.trim()) {
+          const lastLine = evt.line.trim();
+          setRuns((prev) => ({
+            ...prev,
+            [taskId]: { ...prev[taskId], status: prev[taskId]?.status ?? 'running', lastLine },
+          }));
+        } else if (evt.status === 'starting') {
+          setRuns((prev) => ({ ...prev, [taskId]: { status: 'running' } }));
+        } else {
+          void refresh(taskId);
+        }
+      }
+    );
+    return () => {
+      cancelled = true;
+      off?.();
+    };
+  }, [variants]);
+
+  const startRun = async (variant: Variant) => {
+    const api = window.electronAPI;
+    const args = { taskId: variant.worktreeId, taskPath: variant.path, projectPath };
+    setRuns((prev) => ({ ...prev, [variant.worktreeId]: { status: 'running' } }));
+    try {
+      const state = await api.lifecycleGetState({ taskId: variant.worktreeId });
+      if (state?.state?.setup.status !== 'succeeded') {
+        const setup = await api.lifecycleSetup(args);
+        if (!setup?.success) throw new Error(setup?.error || 'Setup failed');
+      }
+      const result = await api.lifecycleRunStart(args);
+      if (!result?.success) throw new Error(result?.error || 'Failed to start run');
+    } catch (err) {
+      setRuns((prev) => ({
+        ...prev,
+        [variant.worktreeId]: {
+          status: 'failed',
+          lastLine: err instanceof Error ? err.message : String(err),
+        },
+      }));
+    }
+  };
+
+  const stopRun = async (variant: Variant) => {
+    await window.electronAPI.lifecycleRunStop({ taskId: variant.worktreeId }).catch(() => {});
+  };
+
+  const pickWinner = async () => {
+    const winner = pendingWinner;
+    if (!winner || !comparison) return;
+    setPicking(true);
+    try {
+      const losers = variants.filter((v) => v.worktreeId !== winner.worktreeId);
+      await Promise.all(
+        losers.map((v) =>
+          window.electronAPI.lifecycleRunStop({ taskId: v.worktreeId }).catch(() => {})
+        )
+      );
+      const result = await window.electronAPI.worktreePickWinner({
+        projectPath,
+        projectId,
+        taskName: task.name,
+        baseSha: comparison.baseSha,
+        winner: toRef(winner),
+        losers: losers.map(toRef),
+        strategy,
+      });
+      if (!result.success || !result.branch) {
+        throw new Error(result.error || 'Failed to pick winner.');
+      }
+      await Promise.all(
+        losers.map((v) =>
+          window.electronAPI.lifecycleClearTask({ taskId: v.worktreeId }).catch(() => {})
+        )
+      );
+
+      const multi = task.metadata!.multiAgent!;
+      const updated: Task = {
+        ...task,
+        branch: result.branch,
+        path: winner.path,
+        agentId: winner.agent,
+        metadata: {
+          ...task.metadata,
+          multiAgent: {
+            ...multi,
+            variants: [{ ...winner, branch: result.branch }],
+            selectedAgent: winner.agent,
+            winner: { variantId: winner.id, strategy, pickedAt: new Date().toISOString() },
+          },
+        },
+      };
+      const saved = await saveTask(updated);
+      if (!saved?.success) {
+        throw new Error(saved?.error || 'Failed to save task.');
+      }
+      onTaskUpdated?.(updated);
+
+      const failures = result.cleanupFailures ?? [];
+      toast({
+        title: `Picked ${getVariantLabel(winner)}`,
+        description:
+          failures.length > 0
+            ? `Now on ${result.branch}. ${failures.length} other worktree(s) could not be removed.`
+            : `Now on ${result.branch}. Other variants were removed.`,
+      });
+      setPendingWinner(null);
+      onClose();
+    } catch (err) {
+      toast({
+        title: 'Could not pick winner',
+        description: err instanceof Error ? err.message : String(err),
+        variant: 'destructive',
+      });
+    } finally {
+      setPicking(false);
+    }
+  };
+
+  const changesByVariant = useMemo(() => {
+    const map = new Map<string, Map<string, { additions: number; deletions: number }>>();
+    comparison?.variants.forEach((entry) => {
+      map.set(entry.worktreeId, new Map(entry.changes.map((c) => [c.path, c])));
+    });
+    return map;
+  }, [comparison]);
+
+  const files = useMemo(() => {
+    const all = new Set<string>();
+    comparison?.variants.forEach((entry) => entry.changes.forEach((c) => all.add(c.path)));
+    return [...all].sort();
+  }, [comparison]);
+
+  return (
+    <div className="flex h-full min-h-0 flex-col">
+      <div className="border-border/60 flex items-center gap-2 border-b px-4 py-2">
+        <span className="text-sm font-medium">Compare variants</span>
+        {comparison ? (
+          <span className="text-muted-foreground font-mono text-xs">
+            vs {comparison.baseSha.slice(0, 7)}
+          </span>
+        ) : null}
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="ml-auto h-7 w-7"
+          onClick={() => void load()}
+          disabled={loading}
+          aria-label="Refresh comparison"
+        >
+          {loading ? <Spinner size="sm" /> : <RefreshCw className="h-4 w-4" />}
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={onClose}
+          aria-label="Close comparison"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="min-h-0 flex-1 space-y-4 overflow-y-auto px-4 py-4">
+        {error ? <p className="text-destructive text-xs">{error}</p> : null}
+
+        <div
+          className="grid gap-3"
+          style={{ gridTemplateColumns: `repeat(${variants.length}, 1fr)` }}
+        >
+          {variants.map((variant) => {
+            const entry = comparison?.variants.find((v) => v.worktreeId === variant.worktreeId);
+            const additions = entry?.changes.reduce((sum, c) => sum + c.additions, 0) ?? 0;
+            const deletions = entry?.changes.reduce((sum, c) => sum + c.deletions, 0) ?? 0;
+            const run = runs[variant.worktreeId] ?? { status: 'idle' };
+            return (
+              <div
+                key={variant.worktreeId}
+                className="border-border/60 bg-muted/10 space-y-2 rounded-xl border p-3"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate text-sm font-medium">{getVariantLabel(variant)}</span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 gap-1 px-2 text-xs"
+                    disabled={!comparison || picking}
+                    onClick={() => setPendingWinner(variant)}
+                  >
+                    <Trophy className="h-3.5 w-3.5" />
+                    Pick
+                  </Button>
+                </div>
+                {entry?.error ? (
+                  <p className="text-destructive text-xs">{entry.error}</p>
+                ) : (
+                  <div className="text-xs tabular-nums">
+                    <span className="text-muted-foreground">
+                      {entry?.changes.length ?? 0} {entry?.changes.length === 1 ? 'file' : 'files'}
+                    </span>{' '}
+                    <span className="text-green-500">+{additions}</span>{' '}
+                    <span className="text-red-500">−{deletions}</span>
+                  </div>
+                )}
+                <div className="flex items-center gap-2 text-xs">
+                  <span className={RUN_STATUS_CLASS[run.status]}>
+                    Run: {run.status}
+                    {run.status !== 'running' && typeof run.exitCode === 'number'
+                      ? ` (exit ${run.exitCode})`
+                      : ''}
+                  </span>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="ml-auto h-6 w-6"
+                    onClick={() =>
+                      void (run.status === 'running' ? stopRun(variant) : startRun(variant))
+                    }
+                    aria-label={run.status === 'running' ? 'Stop run' : 'Start run'}
+                  >
+                    {run.status === 'running' ? (
+                      <Square className="h-3.5 w-3.5" />
+                    ) : (
+                      <Play className="h-3.5 w-3.5" />
+                    )}
+                  </Button>
+                </div>
+                {run.lastLine ? (
+                  <p className="text-muted-foreground truncate font-mono text-[11px]">
+                    {run.lastLine}
+                  </p>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+
+        {!loading && comparison && files.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No variant has changed any files yet.</p>
+        ) : null}
+
+        {files.length > 0 ? (
+          <div className="border-border/60 overflow-x-auto rounded-xl border">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-border/60 border-b">
+                  <th className="px-3 py-2 text-left font-medium">File</th>
+                  {variants.map((variant) => (
+                    <th key={variant.worktreeId} className="px-3 py-2 text-right font-medium">
+                      {getVariantLabel(variant)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-border/60 divide-y">
+                {files.map((file) => (
+                  <tr key={file}>
+                    <td className="max-w-0 truncate px-3 py-1.5 font-mono" title={file}>
+                      {file}
+                    </td>
+                    {variants.map((variant) => {
+                      const change = changesByVariant.get(variant.worktreeId)?.get(file);
+                      const isSelected =
+                        selected?.worktreeId === variant.worktreeId && selected.path === file;
+                      return (
+                        <td key={variant.worktreeId} className="px-3 py-1.5 text-right">
+                          {change ? (
+                            <button
+                              type="button"
+                              className={`rounded px-1.5 py-0.5 tabular-nums transition-colors ${
+                                isSelected ? 'bg-accent' : 'hover:bg-accent/60'
+                              }`}
+                              onClick={() =>
+                                setSelected(
+                                  isSelected ? null : { worktreeId: variant.worktreeId, path: file }
+                                )
+                              }
+                            >
+                              <span className="text-green-500">+{change.additions}</span>{' '}
+                              <span className="text-red-500">−{change.deletions}</span>
+                            </button>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+
+        {selected ? (
+          <div className="border-border/60 h-80 overflow-hidden rounded-xl border">
+            <React.Suspense
+              fallback={
+                <div className="flex h-full items-center justify-center">
+                  <Spinner size="sm" />
+                </div>
+              }
+            >
+              <DiffViewer
+                key={`${selected.worktreeId}:${selected.path}`}
+                diff={diff}
+                isLoading={diffLoading}
+                filePath={selected.path}
+                sideBySide={false}
+                theme={effectiveTheme}
+              />
+            </React.Suspense>
+          </div>
+        ) : null}
+      </div>
+
+      <AlertDialog
+        open={pendingWinner !== null}
+        onOpenChange={(open) => {
+          if (!open && !picking) setPendingWinner(null);
+        }}
+      >
+        <AlertDialogContent className="max-w-md">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-lg">
+              Pick {pendingWinner ? getVariantLabel(pendingWinner) : ''}?
+            </AlertDialogTitle>
+          </AlertDialogHeader>
+          <div className="space-y-4">
+            <AlertDialogDescription className="text-sm">
+              Its changes move to a new task branch and the other variants' worktrees and branches
+              are deleted. This cannot be undone.
+            </AlertDialogDescription>
+            <RadioGroup
+              value={strategy}
+              onValueChange={(value) => setStrategy(value as WinnerStrategy)}
+              className="space-y-2"
+            >
+              {STRATEGIES.map(({ value, label, description }) => (
+                <div key={value} className="flex items-start gap-2">
+                  <RadioGroupItem
+                    value={value}
+                    id={`winner-strategy-${value}`}
+                    className="mt-0.5"
+                  />
+                  <Label htmlFor={`winner-strategy-${value}`} className="space-y-0.5 font-normal">
+                    <div className="text-sm">{label}</div>
+                    <div className="text-muted-foreground text-xs">{description}</div>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={picking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={picking}
+              onClick={(e) => {
+                e.preventDefault();
+                void pickWinner();
+              }}
+            >
+              {picking ? (
+                <Spinner size="sm" className="mr-2" />
+              ) : (
+                <Trophy className="mr-2 h-4 w-4" />
+              )}
+              Pick winner
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default VariantComparisonView;
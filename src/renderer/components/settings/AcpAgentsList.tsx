@@ -1,9 +1,17 @@
 import React, { useCallback, useEffect, useState } from 'react';
-import { Check, Download, Loader2, Trash2 } from 'lucide-react';
+import { ArrowUpCircle, Check, Download, Loader2, Trash2, Undo2 } from 'lucide-react';
 import { Button } from '../ui/button';
-import type { AcpRegistryEntry, InstalledAcpAgent } from '@shared/acpRegistry';
+import type { AcpAgentUpdate, AcpRegistryEntry, InstalledAcpAgent } from '@shared/acpRegistry';
 
-type AgentRow = AcpRegistryEntry & { installed: boolean; installing: boolean };
+type AgentRow = AcpRegistryEntry & {
+  installed: boolean;
+  installing: boolean;
+  installedVersion?: string;
+  /** Version the last upgrade replaced, available for rollback. */
+  previousVersion?: string;
+  /** Registry version when it differs from the installed one. */
+  update?: string;
+};
 
 export default function AcpAgentsList() {
   const [agents, setAgents] = useState<AgentRow[]>([]);
@@ -14,19 +22,27 @@ export default function AcpAgentsList() {
     setLoading(true);
     setError(null);
     try {
-      const [regResult, instResult] = await Promise.all([
+      const [regResult, instResult, updatesResult] = await Promise.all([
         window.electronAPI.acpRegistryFetch(),
         window.electronAPI.acpRegistryGetInstalled(),
+        window.electronAPI.acpRegistryCheckUpdates(),
       ]);
 
       const registry = regResult.data || [];
-      const installed = instResult.data || [];
-      const installedIds = new Set(installed.map((a: InstalledAcpAgent) => a.id));
+      const installed = new Map(
+        (instResult.data || []).map((a: InstalledAcpAgent) => [a.id, a] as const)
+      );
+      const updates = new Map(
+        (updatesResult.data || []).map((u: AcpAgentUpdate) => [u.id, u.latestVersion] as const)
+      );
 
       const rows: AgentRow[] = registry.map((entry: AcpRegistryEntry) => ({
         ...entry,
-        installed: installedIds.has(entry.id),
+        installed: installed.has(entry.id),
         installing: false,
+        installedVersion: installed.get(entry.id)?.version,
+        previousVersion: installed.get(entry.id)?.previous?.version,
+        update: updates.get(entry.id),
       }));
 
       // Sort: installed first, then alphabetical
@@ -79,6 +95,23 @@ export default function AcpAgentsList() {
     }
   }, []);
 
+  // Upgrade and rollback change versions; reload to show the new state
+  const handleVersionChange = useCallback(
+    async (agentId: string, action: 'upgrade' | 'rollback') => {
+      setAgents((prev) => prev.map((a) => (a.id === agentId ? { ...a, installing: true } : a)));
+      try {
+        const result =
+          action === 'upgrade'
+            ? await window.electronAPI.acpRegistryUpgrade({ agentId })
+            : await window.electronAPI.acpRegistryRollback({ agentId });
+        if (!result.success) setError(result.error || `Failed to ${action} ${agentId}`);
+      } finally {
+        await load();
+      }
+    },
+    [load]
+  );
+
   if (loading) {
     return (
       <div className="text-muted-foreground flex items-center gap-2 py-4 text-sm">
@@ -124,7 +157,9 @@ export default function AcpAgentsList() {
           <div className="min-w-0 flex-1 overflow-hidden">
             <div className="flex items-center gap-1.5">
               <span className="truncate text-sm font-medium">{agent.name}</span>
-              <span className="text-muted-foreground shrink-0 text-xs">v{agent.version}</span>
+              <span className="text-muted-foreground shrink-0 text-xs">
+                v{agent.installedVersion ?? agent.version}
+              </span>
               {agent.installed && (
                 <span className="inline-flex shrink-0 items-center gap-0.5 rounded-full bg-green-500/10 px-1.5 py-0.5 text-[10px] font-medium text-green-500">
                   <Check size={10} /> Installed
@@ -137,15 +172,39 @@ export default function AcpAgentsList() {
             {agent.installing ? (
               <Loader2 size={14} className="text-muted-foreground animate-spin" />
             ) : agent.installed ? (
-              <Button
-                variant="ghost"
-                size="icon"
-                className="text-muted-foreground hover:text-destructive h-7 w-7"
-                onClick={() => handleUninstall(agent.id)}
-                title="Uninstall"
-              >
-                <Trash2 size={14} />
-              </Button>
+              <div className="flex items-center gap-1">
+                {agent.update && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 gap-1 text-xs"
+                    onClick={() => handleVersionChange(agent.id, 'upgrade')}
+                    title={`Update to v${agent.update}`}
+                  >
+                    <ArrowUpCircle size={12} /> Update
+                  </Button>
+                )}
+                {agent.previousVersion && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-muted-foreground h-7 w-7"
+                    onClick={() => handleVersionChange(agent.id, 'rollback')}
+                    title={`Roll back to v${agent.previousVersion}`}
+                  >
+                    <Undo2 size={14} />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-muted-foreground hover:text-destructive h-7 w-7"
+                  onClick={() => handleUninstall(agent.id)}
+                  title="Uninstall"
+                >
+                  <Trash2 size={14} />
+                </Button>
+              </div>
             ) : (
               <Button
                 variant="outline"
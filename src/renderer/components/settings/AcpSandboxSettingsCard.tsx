@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { Switch } from '../ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { getSettings, updateSettings } from '../../services/settingsService';
+
+type SandboxMode = 'provider' | 'always' | 'off';
+
+const MODE_LABELS: Record<SandboxMode, string> = {
+  provider: 'Use agent defaults',
+  always: 'Always sandbox',
+  off: 'Never sandbox',
+};
+
+const AcpSandboxSettingsCard: React.FC = () => {
+  const [mode, setMode] = useState<SandboxMode>('provider');
+  const [allowNetwork, setAllowNetwork] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const settings = await getSettings();
+        if (cancelled) return;
+        if (settings) {
+          setMode(settings.acpSandbox?.mode ?? 'provider');
+          setAllowNetwork(settings.acpSandbox?.allowNetwork ?? true);
+        } else {
+          setError('Failed to load settings.');
+        }
+      } catch (err) {
+        if (!cancelled) {
+          const message = err instanceof Error ? err.message : 'Failed to load settings.';
+          setError(message);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const save = async (next: { mode: SandboxMode; allowNetwork: boolean }) => {
+    const previous = { mode, allowNetwork };
+    setMode(next.mode);
+    setAllowNetwork(next.allowNetwork);
+    setError(null);
+    setSaving(true);
+    try {
+      const success = await updateSettings({ acpSandbox: next });
+      if (!success) {
+        throw new Error('Failed to update settings.');
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update settings.';
+      setMode(previous.mode);
+      setAllowNetwork(previous.allowNetwork);
+      setError(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="border-border/60 bg-muted/10 rounded-xl border p-4">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <div className="text-sm">Sandbox agent commands</div>
+            <div className="text-muted-foreground text-xs">
+              Runs commands started by ACP agents with bubblewrap: the task worktree is writable,
+              the rest of the filesystem is read-only and secret env vars are removed. Linux only;
+              requires <code className="bg-muted/60 rounded px-1">bwrap</code>. Without it, agent
+              defaults run unsandboxed with a notice and &quot;Always sandbox&quot; refuses to run.
+            </div>
+          </div>
+          <Select
+            value={mode}
+            disabled={loading || saving}
+            onValueChange={(value) => save({ mode: value as SandboxMode, allowNetwork })}
+          >
+            <SelectTrigger className="w-44 shrink-0">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(MODE_LABELS) as SandboxMode[]).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {MODE_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-sm">Allow network access inside the sandbox</span>
+          <Switch
+            checked={allowNetwork}
+            disabled={loading || saving || mode === 'off'}
+            onCheckedChange={(checked) => save({ mode, allowNetwork: Boolean(checked) })}
+          />
+        </label>
+        {error ? <p className="text-destructive text-xs">{error}</p> : null}
+      </div>
+    </div>
+  );
+};
+
+export default AcpSandboxSettingsCard;
@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import { PlusIcon, Trash2Icon } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Switch } from '../ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { getSettings, updateSettings } from '../../services/settingsService';
+import {
+  normalizeApprovalRules,
+  type ApprovalDecision,
+  type ApprovalPathScope,
+  type ApprovalRule,
+} from '@shared/approvalPolicy';
+
+const DECISION_LABELS: Record<ApprovalDecision, string> = {
+  allow_once: 'Allow once',
+  allow_always: 'Allow always',
+  reject: 'Reject',
+};
+
+type RuleDraft = {
+  decision: ApprovalDecision;
+  toolKinds: string;
+  commandPrefixes: string;
+  pathGlobs: string;
+  pathScope: ApprovalPathScope | 'any';
+  providers: string;
+};
+
+const EMPTY_DRAFT: RuleDraft = {
+  decision: 'allow_once',
+  toolKinds: '',
+  commandPrefixes: '',
+  pathGlobs: '',
+  pathScope: 'any',
+  providers: '',
+};
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+function describeRule(rule: ApprovalRule): string {
+  const parts: string[] = [];
+  if (rule.toolKinds) parts.push(rule.toolKinds.join('/'));
+  if (rule.commandPrefixes) parts.push(`\`${rule.commandPrefixes.join('`, `')}\``);
+  if (rule.pathGlobs) parts.push(rule.pathGlobs.join(', '));
+  if (rule.pathScope) parts.push(rule.pathScope.replace('_', ' '));
+  if (rule.providers) parts.push(`on ${rule.providers.join(', ')}`);
+  return parts.length > 0 ? parts.join(' · ') : 'every request';
+}
+
+const ApprovalPolicySettingsCard: React.FC = () => {
+  const [enabled, setEnabled] = useState(true);
+  const [rules, setRules] = useState<ApprovalRule[]>([]);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const settings = await getSettings();
+        if (cancelled) return;
+        if (settings) {
+          setEnabled(settings.approvalPolicy?.enabled ?? true);
+          setRules(settings.approvalPolicy?.rules ?? []);
+        } else {
+          setError('Failed to load settings.');
+        }
+      } catch (err) {
+        if (!cancelled) {
+          const message = err instanceof Error ? err.message : 'Failed to load settings.';
+          setError(message);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const save = async (next: { enabled: boolean; rules: ApprovalRule[] }) => {
+    const previous = { enabled, rules };
+    setEnabled(next.enabled);
+    setRules(next.rules);
+    setError(null);
+    setSaving(true);
+    try {
+      const success = await updateSettings({ approvalPolicy: next });
+      if (!success) {
+        throw new Error('Failed to update settings.');
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update settings.';
+      setEnabled(previous.enabled);
+      setRules(previous.rules);
+      setError(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addRule = async () => {
+    const [rule] = normalizeApprovalRules([
+      {
+        decision: draft.decision,
+        toolKinds: splitList(draft.toolKinds),
+        commandPrefixes: splitList(draft.commandPrefixes),
+        pathGlobs: splitList(draft.pathGlobs),
+        pathScope: draft.pathScope === 'any' ? undefined : draft.pathScope,
+        providers: splitList(draft.providers),
+      },
+    ]);
+    if (!rule) return;
+    await save({ enabled, rules: [...rules, rule] });
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const removeRule = (index: number) =>
+    save({ enabled, rules: rules.filter((_, i) => i !== index) });
+
+  return (
+    <div className="border-border/60 bg-muted/10 rounded-xl border p-4">
+      <div className="space-y-3">
+        <label className="flex items-center justify-between gap-2">
+          <div className="space-y-1">
+            <div className="text-sm">Apply global approval rules</div>
+            <div className="text-muted-foreground text-xs">
+              The first matching rule decides a permission request. Rules in a project&apos;s{' '}
+              <code className="bg-muted/60 rounded px-1">.valkyr.json</code> are checked first.
+            </div>
+          </div>
+          <Switch
+            checked={enabled}
+            disabled={loading || saving}
+            onCheckedChange={(checked) => save({ enabled: Boolean(checked), rules })}
+          />
+        </label>
+
+        {rules.length > 0 && (
+          <ol className="space-y-1">
+            {rules.map((rule, i) => (
+              <li
+                key={`${rule.id ?? 'rule'}-${i}`}
+                className="border-border/50 flex items-center justify-between gap-2 rounded-md border px-2 py-1.5"
+              >
+                <div className="min-w-0 text-xs">
+                  <span className="font-medium">{DECISION_LABELS[rule.decision]}</span>{' '}
+                  <span className="text-muted-foreground">{describeRule(rule)}</span>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 shrink-0"
+                  onClick={() => removeRule(i)}
+                  disabled={saving}
+                  aria-label="Remove rule"
+                >
+                  <Trash2Icon className="h-3.5 w-3.5" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <Select
+            value={draft.decision}
+            onValueChange={(value) =>
+              setDraft((d) => ({ ...d, decision: value as ApprovalDecision }))
+            }
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DECISION_LABELS) as ApprovalDecision[]).map((decision) => (
+                <SelectItem key={decision} value={decision}>
+                  {DECISION_LABELS[decision]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={draft.pathScope}
+            onValueChange={(value) =>
+              setDraft((d) => ({ ...d, pathScope: value as RuleDraft['pathScope'] }))
+            }
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any location</SelectItem>
+              <SelectItem value="inside_worktree">Inside worktree</SelectItem>
+              <SelectItem value="outside_worktree">Outside worktree</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            value={draft.toolKinds}
+            onChange={(e) => setDraft((d) => ({ ...d, toolKinds: e.target.value }))}
+            placeholder="Tool kinds (read, edit, execute)"
+            aria-label="Tool kinds"
+          />
+          <Input
+            value={draft.commandPrefixes}
+            onChange={(e) => setDraft((d) => ({ ...d, commandPrefixes: e.target.value }))}
+            placeholder="Command prefixes (npm test, git status)"
+            aria-label="Command prefixes"
+          />
+          <Input
+            value={draft.pathGlobs}
+            onChange={(e) => setDraft((d) => ({ ...d, pathGlobs: e.target.value }))}
+            placeholder="Path globs (src/**, *.md)"
+            aria-label="Path globs"
+          />
+          <Input
+            value={draft.providers}
+            onChange={(e) => setDraft((d) => ({ ...d, providers: e.target.value }))}
+            placeholder="Providers (claude, codex)"
+            aria-label="Providers"
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={addRule}
+            disabled={loading || saving}
+          >
+            <PlusIcon className="h-3.5 w-3.5" />
+            Add rule
+          </Button>
+        </div>
+        {error ? <p className="text-destructive text-xs">{error}</p> : null}
+      </div>
+    </div>
+  );
+};
+
+export default ApprovalPolicySettingsCard;
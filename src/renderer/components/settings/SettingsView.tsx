@@ -11,6 +11,7 @@ import {
   Palette,
   Info,
   Blocks,
+  Coins,
 } from 'lucide-react';
 import { UpdateCard } from './UpdateCard';
 import CliAgentsList, { BASE_CLI_AGENTS } from './CliAgentsList';
@@ -26,8 +27,13 @@ import DefaultAgentSettingsCard from './DefaultAgentSettingsCard';
 import AcpAgentsList from './AcpAgentsList';
 import DefaultOpenInSettingsCard from './DefaultOpenInSettingsCard';
 import TaskSettingsCard from './TaskSettingsCard';
+import ApprovalPolicySettingsCard from './ApprovalPolicySettingsCard';
+import AcpSandboxSettingsCard from './AcpSandboxSettingsCard';
 import KeyboardSettingsCard from './KeyboardSettingsCard';
 import VoiceInputSettingsCard from './VoiceInputSettingsCard';
+import UsageDashboard from './UsageDashboard';
+import UsageBudgetSettingsCard from './UsageBudgetSettingsCard';
+import WorktreePoolSettingsCard from './WorktreePoolSettingsCard';
 import { SshSettingsCard } from '../ssh/SshSettingsCard';
 import { McpView } from '../mcp/McpView';
 import { type SettingsTab, ORDERED_TABS } from '../../hooks/useModalState';
@@ -202,6 +208,12 @@ const SettingsView: React.FC<SettingsViewProps> = ({ initialTab, onBack, project
         title: 'Agents & Tools',
         sections: [
           { title: 'Default agent', render: () => <DefaultAgentSettingsCard /> },
+          {
+            title: 'Approval rules',
+            description: 'Automatically allow or reject agent permission requests.',
+            render: () => <ApprovalPolicySettingsCard />,
+          },
+          { title: 'Command sandbox', render: () => <AcpSandboxSettingsCard /> },
           {
             title: 'ACP Agents',
             description: 'Browse and install ACP-compatible agents from the official registry.',
@@ -244,7 +256,23 @@ const SettingsView: React.FC<SettingsViewProps> = ({ initialTab, onBack, project
         icon: GitBranch,
         label: 'Repository',
         title: 'Repository',
-        sections: [{ title: 'Branch settings', render: () => <RepositorySettingsCard /> }],
+        sections: [
+          { title: 'Branch settings', render: () => <RepositorySettingsCard /> },
+          { title: 'Worktree pool', render: () => <WorktreePoolSettingsCard /> },
+        ],
+      },
+      usage: {
+        icon: Coins,
+        label: 'Usage',
+        title: 'Usage',
+        sections: [
+          {
+            title: 'Token usage and cost',
+            description: 'As reported by ACP agents, recorded per prompt turn.',
+            render: () => <UsageDashboard />,
+          },
+          { title: 'Budgets', render: () => <UsageBudgetSettingsCard /> },
+        ],
       },
       about: {
         icon: Info,
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { Input } from '../ui/input';
+import { Switch } from '../ui/switch';
+import { getSettings, updateSettings } from '../../services/settingsService';
+import type { UsageBudgets } from '@shared/usage';
+
+type LimitKey = 'perTaskUsd' | 'perProjectUsd' | 'dailyUsd';
+
+const LIMITS: Array<{ key: LimitKey; label: string; description: string }> = [
+  { key: 'perTaskUsd', label: 'Per task', description: 'All conversations in one task.' },
+  { key: 'perProjectUsd', label: 'Per project', description: 'All tasks in one project.' },
+  { key: 'dailyUsd', label: 'Per day', description: 'Everything since local midnight.' },
+];
+
+const DEFAULT_BUDGETS: UsageBudgets = {
+  enabled: false,
+  perTaskUsd: null,
+  perProjectUsd: null,
+  dailyUsd: null,
+};
+
+const toDraft = (value: number | null) => (value == null ? '' : String(value));
+
+const UsageBudgetSettingsCard: React.FC = () => {
+  const [budgets, setBudgets] = useState<UsageBudgets>(DEFAULT_BUDGETS);
+  const [drafts, setDrafts] = useState<Record<LimitKey, string>>({
+    perTaskUsd: '',
+    perProjectUsd: '',
+    dailyUsd: '',
+  });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyBudgets = (next: UsageBudgets) => {
+    setBudgets(next);
+    setDrafts({
+      perTaskUsd: toDraft(next.perTaskUsd),
+      perProjectUsd: toDraft(next.perProjectUsd),
+      dailyUsd: toDraft(next.dailyUsd),
+    });
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const settings = await getSettings();
+        if (cancelled) return;
+        if (settings) {
+          applyBudgets(settings.usageBudgets ?? DEFAULT_BUDGETS);
+        } else {
+          setError('Failed to load settings.');
+        }
+      } catch (err) {
+        if (!cancelled) {
+          const message = err instanceof Error ? err.message : 'Failed to load settings.';
+          setError(message);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const save = async (next: UsageBudgets) => {
+    const previous = budgets;
+    applyBudgets(next);
+    setError(null);
+    setSaving(true);
+    try {
+      const success = await updateSettings({ usageBudgets: next });
+      if (!success) {
+        throw new Error('Failed to update settings.');
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update settings.';
+      applyBudgets(previous);
+      setError(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const commitLimit = (key: LimitKey) => {
+    const raw = drafts[key].trim();
+    const value = raw === '' ? null : Number(raw);
+    if (value !== null && (!Number.isFinite(value) || value <= 0)) {
+      setDrafts((prev) => ({ ...prev, [key]: toDraft(budgets[key]) }));
+      setError('Limits must be positive dollar amounts.');
+      return;
+    }
+    if (value === budgets[key]) return;
+    void save({ ...budgets, [key]: value });
+  };
+
+  return (
+    <div className="border-border/60 bg-muted/10 rounded-xl border p-4">
+      <div className="space-y-3">
+        <label className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <div className="text-sm">Enforce budgets</div>
+            <div className="text-muted-foreground text-xs">
+              When a limit is reached the running turn is cancelled and new prompts are held until
+              the limit is raised. Only agents that report cost count towards a budget.
+            </div>
+          </div>
+          <Switch
+            checked={budgets.enabled}
+            disabled={loading || saving}
+            onCheckedChange={(checked) => save({ ...budgets, enabled: Boolean(checked) })}
+          />
+        </label>
+        {LIMITS.map(({ key, label, description }) => (
+          <div key={key} className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <div className="text-sm">{label}</div>
+              <div className="text-muted-foreground text-xs">{description}</div>
+            </div>
+            <div className="flex shrink-0 items-center gap-1.5">
+              <span className="text-muted-foreground text-sm">$</span>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                inputMode="decimal"
+                placeholder="No limit"
+                className="h-8 w-28"
+                value={drafts[key]}
+                disabled={loading || saving || !budgets.enabled}
+                onChange={(e) => setDrafts((prev) => ({ ...prev, [key]: e.target.value }))}
+                onBlur={() => commitLimit(key)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitLimit(key);
+                }}
+              />
+            </div>
+          </div>
+        ))}
+        {error ? <p className="text-destructive text-xs">{error}</p> : null}
+      </div>
+    </div>
+  );
+};
+
+export default UsageBudgetSettingsCard;
@@ -0,0 +1,182 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Spinner } from '../ui/spinner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { getProvider, type ProviderId } from '@shared/providers/registry';
+import type { UsageGroupBy, UsageSummaryRow } from '@shared/usage';
+
+const GROUP_LABELS: Record<UsageGroupBy, string> = {
+  task: 'By task',
+  project: 'By project',
+  provider: 'By agent',
+  day: 'By day',
+};
+
+const RANGES = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: 'all', label: 'All time' },
+] as const;
+
+type RangeValue = (typeof RANGES)[number]['value'];
+
+const currency = new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+const compact = new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 });
+
+function sinceForRange(range: RangeValue): string | undefined {
+  if (range === 'all') return undefined;
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - (Number(range) - 1));
+  return start.toISOString();
+}
+
+function rowLabel(groupBy: UsageGroupBy, row: UsageSummaryRow): string {
+  if (groupBy === 'provider') return getProvider(row.key as ProviderId)?.name ?? row.key;
+  return row.label;
+}
+
+const UsageDashboard: React.FC = () => {
+  const [groupBy, setGroupBy] = useState<UsageGroupBy>('task');
+  const [range, setRange] = useState<RangeValue>('30');
+  const [rows, setRows] = useState<UsageSummaryRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await window.electronAPI.acpGetUsageSummary({
+        groupBy,
+        since: sinceForRange(range),
+      });
+      if (result.success) {
+        setRows(result.rows ?? []);
+      } else {
+        setError(result.error || 'Failed to load usage.');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load usage.');
+    } finally {
+      setLoading(false);
+    }
+  }, [groupBy, range]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const totals = useMemo(
+    () =>
+      rows.reduce(
+        (acc, row) => ({
+          costUsd: acc.costUsd + row.costUsd,
+          totalTokens: acc.totalTokens + row.totalTokens,
+          turns: acc.turns + row.turns,
+        }),
+        { costUsd: 0, totalTokens: 0, turns: 0 }
+      ),
+    [rows]
+  );
+  const maxCost = Math.max(...rows.map((r) => r.costUsd), 0);
+  const maxTokens = Math.max(...rows.map((r) => r.totalTokens), 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Select value={groupBy} onValueChange={(value) => setGroupBy(value as UsageGroupBy)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(GROUP_LABELS) as UsageGroupBy[]).map((value) => (
+              <SelectItem key={value} value={value}>
+                {GROUP_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={range} onValueChange={(value) => setRange(value as RangeValue)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGES.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="ml-auto h-7 w-7"
+          onClick={() => void load()}
+          disabled={loading}
+          aria-label="Refresh usage"
+        >
+          {loading ? <Spinner size="sm" /> : <RefreshCw className="h-4 w-4" />}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {[
+          { label: 'Cost', value: currency.format(totals.costUsd) },
+          { label: 'Tokens', value: compact.format(totals.totalTokens) },
+          { label: 'Turns', value: totals.turns.toLocaleString() },
+        ].map(({ label, value }) => (
+          <div key={label} className="border-border/60 bg-muted/10 rounded-xl border p-3">
+            <div className="text-muted-foreground text-xs">{label}</div>
+            <div className="text-lg font-semibold tabular-nums">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      {error ? <p className="text-destructive text-xs">{error}</p> : null}
+
+      {!loading && !error && rows.length === 0 ? (
+        <p className="text-muted-foreground text-sm">No usage recorded in this period.</p>
+      ) : (
+        <div className="border-border/60 divide-border/60 divide-y rounded-xl border">
+          {rows.map((row) => {
+            // Agents that don't report cost still get a bar, scaled by tokens
+            const share =
+              maxCost > 0 ? row.costUsd / maxCost : maxTokens > 0 ? row.totalTokens / maxTokens : 0;
+            return (
+              <div key={row.key} className="space-y-1.5 px-3 py-2">
+                <div className="flex items-center justify-between gap-3 text-sm">
+                  <span className="min-w-0 truncate">{rowLabel(groupBy, row)}</span>
+                  <span className="text-muted-foreground shrink-0 text-xs tabular-nums">
+                    {compact.format(row.inputTokens)} in · {compact.format(row.outputTokens)} out ·{' '}
+                    {row.turns} {row.turns === 1 ? 'turn' : 'turns'}
+                  </span>
+                  <span className="w-20 shrink-0 text-right font-medium tabular-nums">
+                    {currency.format(row.costUsd)}
+                  </span>
+                </div>
+                <div className="bg-muted/40 h-1 overflow-hidden rounded-full">
+                  <div
+                    className="bg-primary/60 h-full rounded-full"
+                    style={{ width: `${Math.max(share * 100, 1)}%` }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { Input } from '../ui/input';
+import { Switch } from '../ui/switch';
+import { getSettings, updateSettings } from '../../services/settingsService';
+import {
+  WORKTREE_POOL_MAX_SIZE,
+  clampPoolSize,
+  type WorktreePoolConfig,
+  type WorktreePoolMetrics,
+} from '@shared/worktreePool';
+
+const DEFAULT_POOL: WorktreePoolConfig = { size: 1, runSetup: true };
+
+const WorktreePoolSettingsCard: React.FC = () => {
+  const [pool, setPool] = useState<WorktreePoolConfig>(DEFAULT_POOL);
+  const [sizeDraft, setSizeDraft] = useState(String(DEFAULT_POOL.size));
+  const [metrics, setMetrics] = useState<WorktreePoolMetrics[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyPool = (next: WorktreePoolConfig) => {
+    setPool(next);
+    setSizeDraft(String(next.size));
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const [settings, metricsResult] = await Promise.all([
+          getSettings(),
+          window.electronAPI.worktreePoolMetrics(),
+        ]);
+        if (cancelled) return;
+        if (settings) {
+          applyPool(settings.worktreePool ?? DEFAULT_POOL);
+        } else {
+          setError('Failed to load settings.');
+        }
+        if (metricsResult.success) setMetrics(metricsResult.metrics ?? []);
+      } catch (err) {
+        if (!cancelled) {
+          const message = err instanceof Error ? err.message : 'Failed to load settings.';
+          setError(message);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const save = async (next: WorktreePoolConfig) => {
+    const previous = pool;
+    applyPool(next);
+    setError(null);
+    setSaving(true);
+    try {
+      const success = await updateSettings({ worktreePool: next });
+      if (!success) {
+        throw new Error('Failed to update settings.');
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update settings.';
+      applyPool(previous);
+      setError(message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const commitSize = () => {
+    const size = clampPoolSize(sizeDraft.trim(), pool.size);
+    if (size === pool.size) {
+      setSizeDraft(String(pool.size));
+      return;
+    }
+    void save({ ...pool, size });
+  };
+
+  const totals = metrics.reduce(
+    (acc, m) => ({
+      hits: acc.hits + m.hits,
+      misses: acc.misses + m.misses,
+      claimMs: acc.claimMs + (m.avgClaimMs ?? 0) * m.hits,
+    }),
+    { hits: 0, misses: 0, claimMs: 0 }
+  );
+
+  return (
+    <div className="border-border/60 bg-muted/10 rounded-xl border p-4">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <div className="text-sm">Warm worktrees per project</div>
+            <div className="text-muted-foreground text-xs">
+              Pre-created worktrees make new tasks start instantly. Set 0 to disable. Projects can
+              override this with <code>worktreePool.size</code> in <code>.valkyr.json</code>.
+            </div>
+          </div>
+          <Input
+            type="number"
+            min={0}
+            max={WORKTREE_POOL_MAX_SIZE}
+            step={1}
+            className="h-8 w-20 shrink-0"
+            value={sizeDraft}
+            disabled={loading || saving}
+            onChange={(e) => setSizeDraft(e.target.value)}
+            onBlur={commitSize}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitSize();
+            }}
+          />
+        </div>
+        <label className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <div className="text-sm">Run setup in warm worktrees</div>
+            <div className="text-muted-foreground text-xs">
+              Runs the project's setup script (e.g. dependency installs) before a worktree is
+              claimed. Setup runs again for the task, reusing the warm installs and caches.
+            </div>
+          </div>
+          <Switch
+            checked={pool.runSetup}
+            disabled={loading || saving}
+            onCheckedChange={(checked) => save({ ...pool, runSetup: Boolean(checked) })}
+          />
+        </label>
+        {totals.hits + totals.misses > 0 ? (
+          <div className="text-muted-foreground text-xs tabular-nums">
+            This session: {totals.hits} instant {totals.hits === 1 ? 'start' : 'starts'},{' '}
+            {totals.misses} {totals.misses === 1 ? 'miss' : 'misses'}
+            {totals.hits > 0
+              ? `, ${Math.round(totals.claimMs / totals.hits)} ms average claim`
+              : ''}
+          </div>
+        ) : null}
+        {error ? <p className="text-destructive text-xs">{error}</p> : null}
+      </div>
+    </div>
+  );
+};
+
+export default WorktreePoolSettingsCard;
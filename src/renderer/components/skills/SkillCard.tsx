@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Plus, Pencil } from 'lucide-react';
+import { ArrowUpCircle, Plus, Pencil } from 'lucide-react';
 import type { CatalogSkill } from '@shared/skills/types';
 import { useIsMonochrome } from '../../hooks/useIsMonochrome';
 
@@ -62,7 +62,9 @@ const SkillCard: React.FC<SkillCardProps> = ({ skill, onSelect, onInstall }) =>
 
       {/* Action */}
       <div className="flex-shrink-0 self-center">
-        {skill.installed ? (
+        {skill.updateAvailable ? (
+          <ArrowUpCircle className="text-primary h-4 w-4" aria-label="Update available" />
+        ) : skill.installed ? (
           <Pencil className="text-muted-foreground h-4 w-4 opacity-0 transition-opacity group-hover:opacity-100" />
         ) : (
           <button
@@ -4,7 +4,7 @@ import remarkGfm from 'remark-gfm';
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
 import { Button } from '../ui/button';
 import { Separator } from '../ui/separator';
-import { Check, FolderOpen, Trash2 } from 'lucide-react';
+import { ArrowUpCircle, Check, FolderOpen, Trash2 } from 'lucide-react';
 import type { CatalogSkill } from '@shared/skills/types';
 import { parseFrontmatter } from '@shared/skills/validation';
 import { useIsMonochrome } from '../../hooks/useIsMonochrome';
@@ -38,6 +38,7 @@ interface SkillDetailModalProps {
   onClose: () => void;
   onInstall: (skillId: string) => Promise<boolean>;
   onUninstall: (skillId: string) => Promise<boolean>;
+  onUpdate?: (skillId: string) => Promise<boolean>;
   onOpenTerminal?: (skillPath: string) => void;
 }
 
@@ -47,6 +48,7 @@ const SkillDetailModal: React.FC<SkillDetailModalProps> = ({
   onClose,
   onInstall,
   onUninstall,
+  onUpdate,
   onOpenTerminal,
 }) => {
   const [isProcessing, setIsProcessing] = useState(false);
@@ -79,6 +81,16 @@ const SkillDetailModal: React.FC<SkillDetailModalProps> = ({
     }
   }, [skill, onUninstall, onClose]);
 
+  const handleUpdate = useCallback(async () => {
+    if (!skill || !onUpdate) return;
+    setIsProcessing(true);
+    try {
+      await onUpdate(skill.id);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [skill, onUpdate]);
+
   const handleOpen = useCallback(() => {
     if (skill?.localPath && onOpenTerminal) {
       onOpenTerminal(skill.localPath);
@@ -101,7 +113,15 @@ const SkillDetailModal: React.FC<SkillDetailModalProps> = ({
           </div>
         </DialogHeader>
 
-        {skill.source !== 'local' && (
+        {(skill.source === 'custom' || skill.source === 'project') && (
+          <div className="text-muted-foreground text-sm">
+            {skill.source === 'project'
+              ? 'Committed to this project under .agents/skills'
+              : `From the ${skill.sourceId} source`}
+          </div>
+        )}
+
+        {(skill.source === 'openai' || skill.source === 'anthropic') && (
           <div className="text-muted-foreground flex items-center gap-1.5 text-sm">
             <img
               src={
@@ -187,16 +207,24 @@ const SkillDetailModal: React.FC<SkillDetailModalProps> = ({
         <DialogFooter className="gap-2 sm:gap-2">
           {skill.installed && (
             <>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={handleUninstall}
-                disabled={isProcessing}
-                className="text-destructive hover:text-destructive"
-              >
-                <Trash2 className="mr-1.5 h-3.5 w-3.5" />
-                Uninstall
-              </Button>
+              {skill.source !== 'project' && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleUninstall}
+                  disabled={isProcessing}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="mr-1.5 h-3.5 w-3.5" />
+                  Uninstall
+                </Button>
+              )}
+              {skill.updateAvailable && onUpdate && (
+                <Button variant="outline" size="sm" onClick={handleUpdate} disabled={isProcessing}>
+                  <ArrowUpCircle className="mr-1.5 h-3.5 w-3.5" />
+                  {isProcessing ? 'Updating...' : 'Update'}
+                </Button>
+              )}
               {skill.localPath && onOpenTerminal && (
                 <Button variant="outline" size="sm" onClick={handleOpen}>
                   <FolderOpen className="mr-1.5 h-3.5 w-3.5" />
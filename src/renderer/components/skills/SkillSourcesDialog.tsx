@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { FolderGit2, Trash2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { Label } from '../ui/label';
+import { Separator } from '../ui/separator';
+import type { SkillSource } from '@shared/skills/types';
+import { normalizeSkillSources } from '@shared/skills/sources';
+
+interface SkillSourcesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sources: SkillSource[];
+  onSave: (sources: SkillSource[]) => Promise<boolean>;
+}
+
+const SkillSourcesDialog: React.FC<SkillSourcesDialogProps> = ({
+  isOpen,
+  onClose,
+  sources,
+  onSave,
+}) => {
+  const [location, setLocation] = useState('');
+  const [subdir, setSubdir] = useState('');
+  const [ref, setRef] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async (next: SkillSource[]) => {
+    setIsSaving(true);
+    try {
+      return await onSave(next);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    // Normalize with the existing sources so the new id is checked against theirs
+    const [added] = normalizeSkillSources([
+      ...sources,
+      { location, path: subdir, ref: ref || undefined },
+    ]).slice(sources.length);
+    if (!added) {
+      setError('Enter a git URL or an absolute directory that is not already a source.');
+      return;
+    }
+
+    if (await save([...sources, added])) {
+      setLocation('');
+      setSubdir('');
+      setRef('');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Skill Sources</DialogTitle>
+          <DialogDescription className="text-xs">
+            Git repositories and local directories offered next to the OpenAI and Anthropic
+            catalogs. Every subdirectory with a SKILL.md is listed as a skill.
+          </DialogDescription>
+        </DialogHeader>
+        <Separator />
+
+        {sources.length > 0 ? (
+          <ul className="space-y-2">
+            {sources.map((source) => (
+              <li
+                key={source.id}
+                className="border-border bg-muted/20 flex items-center gap-3 rounded-md border px-3 py-2"
+              >
+                <FolderGit2 className="text-muted-foreground h-4 w-4 flex-shrink-0" />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium">{source.name}</p>
+                  <p className="text-muted-foreground truncate text-xs">
+                    {source.location}
+                    {source.path && ` · ${source.path}`}
+                    {source.ref && ` @ ${source.ref}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-muted-foreground hover:text-destructive h-7 w-7"
+                  onClick={() => save(sources.filter((s) => s.id !== source.id))}
+                  disabled={isSaving}
+                  aria-label={`Remove ${source.name}`}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-muted-foreground text-xs">No sources added yet.</p>
+        )}
+
+        <form onSubmit={handleAdd} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="skill-source-location" className="text-xs">
+              Location
+            </Label>
+            <Input
+              id="skill-source-location"
+              placeholder="https://github.com/acme/skills.git or /path/to/skills"
+              value={location}
+              onChange={(e) => {
+                setLocation(e.target.value);
+                setError(null);
+              }}
+              className="text-sm"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="skill-source-path" className="text-xs">
+                Subdirectory
+              </Label>
+              <Input
+                id="skill-source-path"
+                placeholder="skills"
+                value={subdir}
+                onChange={(e) => setSubdir(e.target.value)}
+                className="text-sm"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="skill-source-ref" className="text-xs">
+                Branch or tag
+              </Label>
+              <Input
+                id="skill-source-ref"
+                placeholder="Default branch"
+                value={ref}
+                onChange={(e) => setRef(e.target.value)}
+                className="text-sm"
+              />
+            </div>
+          </div>
+          {error && <p className="text-destructive text-xs">{error}</p>}
+          <DialogFooter>
+            <Button type="submit" size="sm" disabled={isSaving || !location.trim()}>
+              {isSaving ? 'Saving...' : 'Add Source'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SkillSourcesDialog;
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { RefreshCw, Search, Plus, Loader2, Sparkles } from 'lucide-react';
+import { RefreshCw, Search, Plus, Loader2, Sparkles, FolderGit2 } from 'lucide-react';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import {
@@ -14,10 +14,17 @@ import { Label } from '../ui/label';
 import { Separator } from '../ui/separator';
 import SkillCard from './SkillCard';
 import SkillDetailModal from './SkillDetailModal';
+import SkillSourcesDialog from './SkillSourcesDialog';
 import { useSkills } from './useSkills';
 import { isValidSkillName } from '@shared/skills/validation';
 
-const SkillsView: React.FC = () => {
+interface SkillsViewProps {
+  /** Local project whose committed skills are listed */
+  projectPath?: string;
+  projectName?: string;
+}
+
+const SkillsView: React.FC<SkillsViewProps> = ({ projectPath, projectName }) => {
   const {
     isLoading,
     isRefreshing,
@@ -27,15 +34,20 @@ const SkillsView: React.FC = () => {
     showDetailModal,
     showCreateModal,
     setShowCreateModal,
+    projectSkills,
     installedSkills,
     recommendedSkills,
     refresh,
     install,
     uninstall,
+    update,
+    sources,
+    saveSources,
     openDetail,
     closeDetail,
     loadCatalog,
-  } = useSkills();
+  } = useSkills(projectPath);
+  const [showSourcesModal, setShowSourcesModal] = useState(false);
 
   // New Skill form state
   const [newName, setNewName] = useState('');
@@ -129,6 +141,10 @@ const SkillsView: React.FC = () => {
               className={`text-muted-foreground h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`}
             />
           </Button>
+          <Button variant="outline" size="sm" onClick={() => setShowSourcesModal(true)}>
+            <FolderGit2 className="mr-1.5 h-3.5 w-3.5" />
+            Sources
+          </Button>
           <Button variant="outline" size="sm" onClick={() => setShowCreateModal(true)}>
             <Plus className="mr-1.5 h-3.5 w-3.5" />
             New Skill
@@ -165,11 +181,24 @@ const SkillsView: React.FC = () => {
             >
               Agent Skills
             </a>{' '}
-            standard. If you want to use skills from another library, feel free to let us know
-            through the feedback modal.
+            standard. To use skills from another library, add it under Sources. Skills committed to
+            a project under .agents/skills are linked into every new task worktree.
           </p>
         </div>
 
+        {projectSkills.length > 0 && (
+          <div className="mb-6">
+            <h2 className="text-muted-foreground mb-3 text-xs font-medium tracking-wide">
+              {projectName ? `Project · ${projectName}` : 'Project'}
+            </h2>
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+              {projectSkills.map((skill) => (
+                <SkillCard key={skill.id} skill={skill} onSelect={openDetail} onInstall={install} />
+              ))}
+            </div>
+          </div>
+        )}
+
         {installedSkills.length > 0 && (
           <div className="mb-6">
             <h2 className="text-muted-foreground mb-3 text-xs font-medium tracking-wide">
@@ -211,9 +240,17 @@ const SkillsView: React.FC = () => {
         onClose={closeDetail}
         onInstall={install}
         onUninstall={uninstall}
+        onUpdate={update}
         onOpenTerminal={handleOpenTerminal}
       />
 
+      <SkillSourcesDialog
+        isOpen={showSourcesModal}
+        onClose={() => setShowSourcesModal(false)}
+        sources={sources}
+        onSave={saveSources}
+      />
+
       <Dialog
         open={showCreateModal}
         onOpenChange={(open) => !open && !isCreating && setShowCreateModal(false)}
@@ -1,10 +1,14 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import type { CatalogSkill, CatalogIndex } from '@shared/skills/types';
+import type { CatalogSkill, CatalogIndex, SkillSource } from '@shared/skills/types';
 import { useToast } from '@/hooks/use-toast';
+import { getSetting, updateSettings } from '../../services/settingsService';
 
-export function useSkills() {
+/** Skills catalog state; with a `projectPath`, also the skills committed to that project. */
+export function useSkills(projectPath?: string) {
   const { toast } = useToast();
   const [catalog, setCatalog] = useState<CatalogIndex | null>(null);
+  const [projectSkills, setProjectSkills] = useState<CatalogSkill[]>([]);
+  const [sources, setSources] = useState<SkillSource[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
@@ -25,10 +29,38 @@ export function useSkills() {
     }
   }, []);
 
-  useEffect(() => {
-    loadCatalog();
+  // Check installed skills against their sources once the catalog is shown
+  const checkUpdates = useCallback(async () => {
+    try {
+      const result = await window.electronAPI.skillsCheckUpdates();
+      if (result.success && result.data?.length) await loadCatalog();
+    } catch (error) {
+      console.error('Failed to check skill updates:', error);
+    }
   }, [loadCatalog]);
 
+  useEffect(() => {
+    loadCatalog().then(checkUpdates);
+    getSetting('skillSources').then((value) => setSources(value ?? []));
+  }, [loadCatalog, checkUpdates]);
+
+  useEffect(() => {
+    if (!projectPath) {
+      setProjectSkills([]);
+      return;
+    }
+    let cancelled = false;
+    window.electronAPI
+      .skillsGetProjectSkills({ projectPath })
+      .then((result) => {
+        if (!cancelled) setProjectSkills(result.success ? (result.data ?? []) : []);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [projectPath]);
+
   const refresh = useCallback(async () => {
     setIsRefreshing(true);
     try {
@@ -36,12 +68,58 @@ export function useSkills() {
       if (result.success && result.data) {
         setCatalog(result.data);
       }
+      await checkUpdates();
     } catch (error) {
       console.error('Failed to refresh catalog:', error);
     } finally {
       setIsRefreshing(false);
     }
-  }, []);
+  }, [checkUpdates]);
+
+  const saveSources = useCallback(
+    async (next: SkillSource[]) => {
+      if (!(await updateSettings({ skillSources: next }))) {
+        toast({
+          title: 'Could not save sources',
+          description: 'Check the source locations and try again',
+          variant: 'destructive',
+        });
+        return false;
+      }
+      setSources((await getSetting('skillSources')) ?? next);
+      await refresh();
+      return true;
+    },
+    [refresh, toast]
+  );
+
+  const update = useCallback(
+    async (skillId: string) => {
+      try {
+        const result = await window.electronAPI.skillsUpdate({ skillId });
+        if (!result.success) {
+          toast({
+            title: 'Update failed',
+            description: result.error || 'Could not update skill',
+            variant: 'destructive',
+          });
+        } else {
+          toast({ title: 'Skill updated', description: `${skillId} matches its source again` });
+          if (result.data) setSelectedSkill(result.data);
+          await loadCatalog();
+        }
+        return result.success;
+      } catch {
+        toast({
+          title: 'Update failed',
+          description: 'An unexpected error occurred',
+          variant: 'destructive',
+        });
+        return false;
+      }
+    },
+    [loadCatalog, toast]
+  );
 
   const install = useCallback(
     async (skillId: string) => {
@@ -133,6 +211,8 @@ export function useSkills() {
   const openDetail = useCallback(async (skill: CatalogSkill) => {
     setSelectedSkill(skill);
     setShowDetailModal(true);
+    // Project skills are not in the catalog; what was scanned is all there is
+    if (skill.source === 'project') return;
     // Load full detail
     try {
       const result = await window.electronAPI.skillsGetDetail({ skillId: skill.id });
@@ -149,17 +229,28 @@ export function useSkills() {
     setSelectedSkill(null);
   }, []);
 
-  const filteredSkills = useMemo(() => {
-    if (!catalog) return [];
-    const q = searchQuery.toLowerCase().trim();
-    if (!q) return catalog.skills;
-    return catalog.skills.filter(
-      (s) =>
+  const matchesQuery = useCallback(
+    (s: CatalogSkill) => {
+      const q = searchQuery.toLowerCase().trim();
+      return (
+        !q ||
         s.displayName.toLowerCase().includes(q) ||
         s.description.toLowerCase().includes(q) ||
         s.id.toLowerCase().includes(q)
-    );
-  }, [catalog, searchQuery]);
+      );
+    },
+    [searchQuery]
+  );
+
+  const filteredSkills = useMemo(
+    () => (catalog ? catalog.skills.filter(matchesQuery) : []),
+    [catalog, matchesQuery]
+  );
+
+  const filteredProjectSkills = useMemo(
+    () => projectSkills.filter(matchesQuery),
+    [projectSkills, matchesQuery]
+  );
 
   const installedSkills = useMemo(
     () => filteredSkills.filter((s) => s.installed),
@@ -182,11 +273,15 @@ export function useSkills() {
     showCreateModal,
     setShowCreateModal,
     filteredSkills,
+    projectSkills: filteredProjectSkills,
     installedSkills,
     recommendedSkills,
     refresh,
     install,
     uninstall,
+    update,
+    sources,
+    saveSources,
     openDetail,
     closeDetail,
     loadCatalog,
@@ -1,7 +1,8 @@
 import * as React from 'react';
-import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import Editor from '@monaco-editor/react';
-import { ChevronRight, ExternalLink, X, FolderOpen } from 'lucide-react';
+import type { editor as monacoEditor } from 'monaco-editor';
+import { ChevronRight, ExternalLink, X, FolderOpen, GitCommitHorizontal } from 'lucide-react';
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable';
 import { fsRead } from '@/services/fsService';
 import { Button } from '@/components/ui/button';
@@ -18,6 +19,7 @@ import { useFileManager } from '@/hooks/useFileManager';
 import { useFileChanges } from '@/hooks/useFileChanges';
 import { useOpenInApps } from '@/hooks/useOpenInApps';
 import { useEditorState } from '@/hooks/useEditorState';
+import { useInlineBlame } from '@/hooks/useInlineBlame';
 import { FileTree } from '@/components/FileExplorer/FileTree';
 import { FileIcon } from '@/components/FileExplorer/FileIcons';
 import { DEFAULT_EDITOR_OPTIONS } from '@/constants/file-explorer';
@@ -194,9 +196,18 @@ export function EditorTab({ taskPath, taskName, className }: EditorTabProps) {
     [activeFile, updateFileContent, managedFiles, taskPath, markUnsaved, markSaved]
   );
 
+  const [editorInstance, setEditorInstance] = useState<monacoEditor.IStandaloneCodeEditor | null>(
+    null
+  );
+  const [showBlame, setShowBlame] = useState(false);
+
   // Handle keyboard shortcut for save
   const handleEditorMount = useCallback(
-    (editor: { addCommand: (keybinding: number, handler: () => void) => void }, monaco: { KeyMod: { CtrlCmd: number }; KeyCode: { KeyS: number } }) => {
+    (
+      editor: monacoEditor.IStandaloneCodeEditor,
+      monaco: { KeyMod: { CtrlCmd: number }; KeyCode: { KeyS: number } }
+    ) => {
+      setEditorInstance(editor);
       editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => {
         saveFile();
       });
@@ -225,6 +236,15 @@ export function EditorTab({ taskPath, taskName, className }: EditorTabProps) {
   const fileContent = currentFile?.content || '';
   const isImageFile = currentFile?.content?.startsWith('data:image/');
 
+  useInlineBlame({
+    editor: activeFile && !isImageFile ? editorInstance : null,
+    taskPath,
+    filePath: isImageFile ? null : activeFile,
+    enabled: showBlame,
+    isDirty: currentFile?.isDirty ?? false,
+    savedContent: currentFile?.originalContent,
+  });
+
   // Breadcrumb path
   const breadcrumbPath = useMemo(() => {
     if (!activeFile) return [];
@@ -324,6 +344,19 @@ export function EditorTab({ taskPath, taskName, className }: EditorTabProps) {
                 <div className="flex items-center gap-2">
                   {hasUnsavedChanges && <span className="text-xs text-amber-500">Unsaved</span>}
 
+                  {!isImageFile && (
+                    <Button
+                      variant={showBlame ? 'secondary' : 'ghost'}
+                      size="sm"
+                      className="h-6 gap-1.5 px-2 text-xs"
+                      onClick={() => setShowBlame((v) => !v)}
+                      title="Show who last changed the current line"
+                    >
+                      <GitCommitHorizontal className="h-3 w-3" />
+                      Blame
+                    </Button>
+                  )}
+
                   {/* Open in IDE Dropdown */}
                   {ideApps.length > 0 && (
                     <DropdownMenu>
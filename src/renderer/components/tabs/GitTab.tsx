@@ -13,6 +13,9 @@ import {
   Check,
   ChevronsDownUp,
   ChevronsUpDown,
+  ListChecks,
+  GitMerge,
+  History,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -25,11 +28,20 @@ import { useFileChanges } from '@/hooks/useFileChanges';
 import { useTheme } from '@/hooks/useTheme';
 import { useGitState, type FileStatus } from '@/hooks/useGitState';
 import { useTabState } from '@/hooks/useTabState';
+import { useVerifyStatus } from '@/hooks/useVerifyStatus';
+import { useBaseSyncStatus } from '@/hooks/useBaseSyncStatus';
 import { FileChangeItem } from '@/components/git/FileChangeItem';
 import { CommitPanel } from '@/components/git/CommitPanel';
+import { HunkStagingView } from '@/components/git/HunkStagingView';
+import { MergeDialog } from '@/components/git/MergeDialog';
+import { BaseSyncBar } from '@/components/git/BaseSyncBar';
+import { HistoryPanel } from '@/components/git/HistoryPanel';
 const DiffViewer = React.lazy(
   () => import('@/components/git/DiffViewer').then((m) => ({ default: m.DiffViewer }))
 );
+const ConflictEditor = React.lazy(() =>
+  import('@/components/git/ConflictEditor').then((m) => ({ default: m.ConflictEditor }))
+);
 
 import type { FileChange } from '@/hooks/useGitState';
 import type { Task } from '@/types/app';
@@ -238,10 +250,36 @@ export function GitTab({
   const [discardingFiles, setDiscardingFiles] = useState<Set<string>>(new Set());
   const [isCreatingPR, setIsCreatingPR] = useState(false);
   const [prUrl, setPrUrl] = useState<string | undefined>();
+  const [mergeOpen, setMergeOpen] = useState(false);
+  const [view, setView] = useState<'changes' | 'history'>('changes');
+  const verify = useVerifyStatus(activeTask?.id ?? _taskId, taskPath, selectedProject?.path);
+  const refreshVerify = verify.refresh;
+
+  const baseSync = useBaseSyncStatus(taskPath);
+  const refreshBaseSync = baseSync.refresh;
+
+  // Edits since the last run make it stale, so re-check the gate as files change
+  useEffect(() => {
+    void refreshVerify();
+  }, [files, refreshVerify]);
+
+  useEffect(() => {
+    void refreshBaseSync();
+  }, [files, refreshBaseSync]);
+
+  const notifyVerifyWarning = useCallback(
+    (warning?: string) => {
+      if (!warning) return;
+      toast({ title: 'Verification has not passed', description: warning });
+    },
+    [toast]
+  );
 
   // Track right panel width for side-by-side availability (Monaco breakpoint = 900px)
   const diffPanelRef = useRef<HTMLDivElement>(null);
   const [canSideBySide, setCanSideBySide] = useState(false);
+  // Replace the diff with per-hunk staging controls
+  const [hunkMode, setHunkMode] = useState(false);
 
   useEffect(() => {
     const el = diffPanelRef.current;
@@ -253,7 +291,8 @@ export function GitTab({
     });
     observer.observe(el);
     return () => observer.disconnect();
-  }, []);
+    // The diff panel is remounted when coming back from the history view
+  }, [view]);
 
   // Cache for fetched diffs (path -> diff string)
   const [fileDiffs, setFileDiffs] = useState<Map<string, string>>(new Map());
@@ -279,6 +318,20 @@ export function GitTab({
     await refreshChanges();
   }, [refreshChanges, setSelectedFile]);
 
+  const selectedChange = useMemo(
+    () => files.find((f) => f.path === selectedFile),
+    [files, selectedFile]
+  );
+
+  // Hunk staging changed the selected file; keep it selected but reload its diff
+  const handleHunksChanged = useCallback(() => {
+    if (selectedFile) {
+      fileDiffsRef.current.delete(selectedFile);
+      setFileDiffs(new Map(fileDiffsRef.current));
+    }
+    void refreshChanges();
+  }, [selectedFile, refreshChanges]);
+
   // Sync file changes to local state
   useEffect(() => {
     if (fileChanges.length > 0) {
@@ -583,6 +636,7 @@ export function GitTab({
 
       if (result.success) {
         toast({ title: 'Committed', description: commitMessage.trim() });
+        notifyVerifyWarning(result.verifyWarning);
         setCommitMessage('');
         await refreshChangesAndClearCache();
       } else {
@@ -608,6 +662,7 @@ export function GitTab({
     setCommitMessage,
     refreshChangesAndClearCache,
     toast,
+    notifyVerifyWarning,
   ]);
 
   // Handle commit and push
@@ -625,6 +680,7 @@ export function GitTab({
 
       if (result.success) {
         toast({ title: 'Committed and Pushed', description: commitMessage.trim() });
+        notifyVerifyWarning(result.verifyWarning);
         setCommitMessage('');
         await refreshChangesAndClearCache();
       } else {
@@ -650,6 +706,7 @@ export function GitTab({
     setCommitMessage,
     refreshChangesAndClearCache,
     toast,
+    notifyVerifyWarning,
   ]);
 
   // Handle PR creation
@@ -666,6 +723,7 @@ export function GitTab({
               title: 'Merged to Main',
               description: 'Changes have been merged to main.',
             });
+            notifyVerifyWarning(result.verifyWarning);
             await refreshChangesAndClearCache();
           } else {
             toast({
@@ -685,6 +743,7 @@ export function GitTab({
               title: mode === 'draft' ? 'Draft PR Created' : 'PR Created',
               description: result.url || 'Pull request created successfully.',
             });
+            notifyVerifyWarning(result.verifyWarning);
             if (result.url) {
               setPrUrl(result.url);
             }
@@ -707,7 +766,7 @@ export function GitTab({
         setIsCreatingPR(false);
       }
     },
-    [taskPath, refreshChangesAndClearCache, toast]
+    [taskPath, refreshChangesAndClearCache, toast, notifyVerifyWarning]
   );
 
   // Calculate stats
@@ -845,6 +904,21 @@ export function GitTab({
     );
   }
 
+  if (view === 'history') {
+    return (
+      <HistoryPanel
+        className={className}
+        taskPath={taskPath}
+        theme={effectiveTheme}
+        onBack={() => setView('changes')}
+        onChanged={() => {
+          void refreshBaseSync();
+          void refreshChangesAndClearCache();
+        }}
+      />
+    );
+  }
+
   return (
     <div className={cn('bg-background flex h-full', className)}>
       {/* ===== LEFT SIDEBAR: File Tree + Commit Panel ===== */}
@@ -907,6 +981,24 @@ export function GitTab({
                 </Button>
               </>
             )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              title="Commit history"
+              onClick={() => setView('history')}
+            >
+              <History className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              title="Merge into base branch"
+              onClick={() => setMergeOpen(true)}
+            >
+              <GitMerge className="h-3 w-3" />
+            </Button>
             {/* Group By Popover */}
             <Popover>
               <PopoverTrigger asChild>
@@ -964,6 +1056,20 @@ export function GitTab({
           </div>
         </div>
 
+        {taskPath && (
+          <BaseSyncBar
+            taskPath={taskPath}
+            taskId={activeTask?.id ?? _taskId}
+            status={baseSync.status}
+            selectedFile={selectedFile}
+            onSelectConflict={handleSelectFile}
+            onChanged={() => {
+              void refreshBaseSync();
+              void refreshChangesAndClearCache();
+            }}
+          />
+        )}
+
         {/* File Tree */}
         <div className="min-h-0 flex-1 overflow-y-auto">
           {isLoadingChanges && files.length === 0 ? (
@@ -1140,6 +1246,10 @@ export function GitTab({
             isCommitting={isCommitting}
             hasStagedChanges={hasStagedChanges}
             prUrl={prUrl}
+            verifyRun={verify.run}
+            verifyGate={verify.gate}
+            isVerifying={verify.running}
+            onVerify={verify.runVerify}
           />
         )}
       </div>
@@ -1150,34 +1260,76 @@ export function GitTab({
         {selectedFile && (
           <div className="border-border bg-muted/20 flex items-center justify-between border-b px-3 py-1.5">
             <span className="text-muted-foreground truncate text-xs">{selectedFile}</span>
-            {canSideBySide && (
-              <div className="flex items-center gap-0.5">
-                <Button
-                  variant={diffViewMode === 'inline' ? 'secondary' : 'ghost'}
-                  size="icon"
-                  className="h-6 w-6"
-                  onClick={() => setDiffViewMode('inline')}
-                  title="Inline diff"
-                >
-                  <AlignJustify className="h-3.5 w-3.5" />
-                </Button>
-                <Button
-                  variant={diffViewMode === 'side-by-side' ? 'secondary' : 'ghost'}
-                  size="icon"
-                  className="h-6 w-6"
-                  onClick={() => setDiffViewMode('side-by-side')}
-                  title="Side-by-side diff"
-                >
-                  <Columns className="h-3.5 w-3.5" />
-                </Button>
-              </div>
-            )}
+            <div className="flex items-center gap-0.5">
+              <Button
+                variant={hunkMode ? 'secondary' : 'ghost'}
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => setHunkMode((v) => !v)}
+                title="Stage hunks and lines"
+              >
+                <ListChecks className="h-3.5 w-3.5" />
+              </Button>
+              {canSideBySide && !hunkMode && (
+                <>
+                  <Button
+                    variant={diffViewMode === 'inline' ? 'secondary' : 'ghost'}
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => setDiffViewMode('inline')}
+                    title="Inline diff"
+                  >
+                    <AlignJustify className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant={diffViewMode === 'side-by-side' ? 'secondary' : 'ghost'}
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => setDiffViewMode('side-by-side')}
+                    title="Side-by-side diff"
+                  >
+                    <Columns className="h-3.5 w-3.5" />
+                  </Button>
+                </>
+              )}
+            </div>
           </div>
         )}
 
         {/* Diff Content — fills entire right panel */}
         <div className="min-h-0 flex-1">
-          {selectedFile ? (
+          {selectedFile && taskPath && baseSync.status?.conflicts.includes(selectedFile) ? (
+            <React.Suspense
+              fallback={
+                <div className="flex h-full items-center justify-center">
+                  <Spinner size="sm" />
+                </div>
+              }
+            >
+              <ConflictEditor
+                key={selectedFile}
+                taskPath={taskPath}
+                filePath={selectedFile}
+                theme={effectiveTheme}
+                onResolved={() => {
+                  void refreshBaseSync();
+                  void refreshChangesAndClearCache();
+                }}
+              />
+            </React.Suspense>
+          ) : selectedFile && taskPath && hunkMode ? (
+            <HunkStagingView
+              key={selectedFile}
+              taskPath={taskPath}
+              filePath={
+                selectedChange?.repoCwd
+                  ? stripRepoPrefix(selectedFile, selectedChange.repoName)
+                  : selectedFile
+              }
+              repoCwd={selectedChange?.repoCwd}
+              onChanged={handleHunksChanged}
+            />
+          ) : selectedFile ? (
             loadingDiffs.has(selectedFile) ? (
               <div className="flex h-full items-center justify-center">
                 <div className="text-muted-foreground flex items-center gap-2">
@@ -1212,6 +1364,20 @@ export function GitTab({
           )}
         </div>
       </div>
+
+      <MergeDialog
+        open={mergeOpen}
+        onOpenChange={setMergeOpen}
+        taskPath={taskPath}
+        onMerged={(result) => {
+          if (result.prUrl) setPrUrl(result.prUrl);
+          void refreshChangesAndClearCache();
+        }}
+        onUpdated={() => {
+          void refreshBaseSync();
+          void refreshChangesAndClearCache();
+        }}
+      />
     </div>
   );
 }
@@ -1,5 +1,5 @@
 import * as React from 'react';
-import { RefreshCw, ExternalLink, ArrowLeft, ArrowRight } from 'lucide-react';
+import { RefreshCw, ExternalLink, ArrowLeft, ArrowRight, Camera, ScrollText } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,12 +7,16 @@ import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from '@/comp
 import { usePreviewState } from '@/hooks/usePreviewState';
 import { useTabState } from '@/hooks/useTabState';
 import { openExternal } from '@/services/shellService';
+import { useToast } from '@/hooks/use-toast';
+import { attachToChat } from '@/lib/chatAttachmentStore';
+import { formatPreviewLogs, type PreviewLogEntry } from '@shared/previewLogs';
 
 // Browser view IPC methods (not in typed interface)
 interface BrowserAPI {
   browserShow?: (
     bounds: { x: number; y: number; width: number; height: number },
-    url?: string
+    url?: string,
+    taskId?: string
   ) => Promise<void>;
   browserHide?: () => Promise<void>;
   browserSetBounds?: (bounds: {
@@ -25,7 +29,23 @@ interface BrowserAPI {
   browserGoBack?: () => Promise<void>;
   browserGoForward?: () => Promise<void>;
   browserReload?: () => Promise<void>;
+  browserGetLogs?: (args: { taskId: string }) => Promise<{
+    success: boolean;
+    entries?: PreviewLogEntry[];
+    url?: string | null;
+    error?: string;
+  }>;
+  browserClearLogs?: (args: { taskId: string }) => Promise<{ success: boolean }>;
+  browserCaptureScreenshot?: (args: {
+    taskId: string;
+  }) => Promise<{ success: boolean; dataUrl?: string; error?: string }>;
+  onBrowserViewEvent?: (
+    listener: (data: { type: string; taskId?: string; entry?: PreviewLogEntry }) => void
+  ) => () => void;
   openExternal?: (url: string) => void;
+  onHostPreviewEvent?: (
+    listener: (data: { type: string; taskId: string; url?: string }) => void
+  ) => () => void;
 }
 const browserAPI = () => window.electronAPI as unknown as BrowserAPI;
 
@@ -42,7 +62,10 @@ export function PreviewTab({ taskId, className }: PreviewTabProps) {
   const activeTab = useTabState((state) => state.activeTab);
   const isActive = activeTab === 'preview';
 
+  const { toast } = useToast();
   const [inputUrl, setInputUrl] = React.useState(url);
+  const [errorCount, setErrorCount] = React.useState(0);
+  const [capturing, setCapturing] = React.useState(false);
   const containerRef = React.useRef<HTMLDivElement>(null);
   const lastBoundsRef = React.useRef<{
     x: number;
@@ -56,6 +79,40 @@ export function PreviewTab({ taskId, className }: PreviewTabProps) {
     setInputUrl(url);
   }, [url]);
 
+  // Follow dev-server URLs announced for this task (e.g. forwarded remote ports)
+  React.useEffect(() => {
+    if (!taskId) return;
+    const off = browserAPI().onHostPreviewEvent?.((evt) => {
+      if (evt.type === 'url' && evt.taskId === taskId && evt.url) {
+        setUrl(evt.url);
+      }
+    });
+    return () => off?.();
+  }, [taskId, setUrl]);
+
+  // Count errors the preview page logged since its output was last attached
+  React.useEffect(() => {
+    setErrorCount(0);
+    if (!taskId) return;
+    let cancelled = false;
+    browserAPI()
+      .browserGetLogs?.({ taskId })
+      .then((res) => {
+        if (cancelled || !res?.success) return;
+        setErrorCount((res.entries ?? []).filter((e) => e.level === 'error').length);
+      })
+      .catch(() => {});
+    const off = browserAPI().onBrowserViewEvent?.((evt) => {
+      if (evt.type === 'log' && evt.taskId === taskId && evt.entry?.level === 'error') {
+        setErrorCount((count) => count + 1);
+      }
+    });
+    return () => {
+      cancelled = true;
+      off?.();
+    };
+  }, [taskId]);
+
   // Compute bounds for the native browser view
   const computeBounds = React.useCallback(() => {
     const el = containerRef.current;
@@ -131,7 +188,7 @@ export function PreviewTab({ taskId, className }: PreviewTabProps) {
         // Show/update view if bounds or URL changed
         if (boundsChanged || urlChanged) {
           try {
-            browserAPI().browserShow?.(bounds, url || undefined);
+            browserAPI().browserShow?.(bounds, url || undefined, taskId || undefined);
             lastLoadedUrlRef.current = url;
 
             // Update bounds after a short delay for layout stability
@@ -190,7 +247,7 @@ export function PreviewTab({ taskId, className }: PreviewTabProps) {
         resizeObserver.disconnect();
       } catch {}
     };
-  }, [isActive, url, overlayActive, computeBounds, hasBoundsChanged]);
+  }, [isActive, url, overlayActive, taskId, computeBounds, hasBoundsChanged]);
 
   // Handle refresh
   React.useEffect(() => {
@@ -246,6 +303,68 @@ export function PreviewTab({ taskId, className }: PreviewTabProps) {
     } catch {}
   }, []);
 
+  const attachFile = React.useCallback(
+    (file: File) => {
+      if (!taskId || !attachToChat(taskId, [file])) {
+        toast({
+          title: 'No chat to attach to',
+          description: 'Open an agent chat for this task first.',
+          variant: 'destructive',
+        });
+        return false;
+      }
+      return true;
+    },
+    [taskId, toast]
+  );
+
+  // Attach the page's console, exception and network log, then start a fresh one
+  const handleAttachLogs = React.useCallback(async () => {
+    if (!taskId) return;
+    const res = await browserAPI().browserGetLogs?.({ taskId });
+    if (!res?.success) {
+      toast({
+        title: 'Failed to read preview log',
+        description: res?.error,
+        variant: 'destructive',
+      });
+      return;
+    }
+    const entries = res.entries ?? [];
+    if (entries.length === 0) {
+      toast({ title: 'Nothing logged yet', description: 'The preview page has no output.' });
+      return;
+    }
+    const file = new File([formatPreviewLogs(entries, res.url)], 'preview-console.log', {
+      type: 'text/plain',
+    });
+    if (attachFile(file)) {
+      await browserAPI().browserClearLogs?.({ taskId });
+      setErrorCount(0);
+    }
+  }, [taskId, attachFile, toast]);
+
+  const handleAttachScreenshot = React.useCallback(async () => {
+    if (!taskId) return;
+    setCapturing(true);
+    try {
+      const res = await browserAPI().browserCaptureScreenshot?.({ taskId });
+      if (!res?.success || !res.dataUrl) {
+        throw new Error(res?.error || 'Screenshot failed');
+      }
+      const blob = await (await fetch(res.dataUrl)).blob();
+      attachFile(new File([blob], 'preview-screenshot.png', { type: 'image/png' }));
+    } catch (error) {
+      toast({
+        title: 'Failed to capture preview',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    } finally {
+      setCapturing(false);
+    }
+  }, [taskId, attachFile, toast]);
+
   return (
     <TooltipProvider>
       <div className={cn('bg-background flex h-full flex-col', className)}>
@@ -299,6 +418,46 @@ export function PreviewTab({ taskId, className }: PreviewTabProps) {
             />
           </form>
 
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                className="relative"
+                onClick={() => void handleAttachLogs()}
+                disabled={!taskId}
+                aria-label="Attach console log to chat"
+              >
+                <ScrollText className="h-4 w-4" />
+                {errorCount > 0 && (
+                  <span className="bg-destructive text-destructive-foreground absolute -top-0.5 -right-0.5 min-w-[14px] rounded-full px-0.5 text-[9px] leading-[14px]">
+                    {errorCount > 99 ? '99+' : errorCount}
+                  </span>
+                )}
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">
+              {errorCount > 0
+                ? `Attach console log to chat (${errorCount} error${errorCount === 1 ? '' : 's'})`
+                : 'Attach console log to chat'}
+            </TooltipContent>
+          </Tooltip>
+
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => void handleAttachScreenshot()}
+                disabled={!taskId || !url || capturing}
+                aria-label="Attach screenshot to chat"
+              >
+                <Camera className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">Attach screenshot to chat</TooltipContent>
+          </Tooltip>
+
           <Tooltip>
             <TooltipTrigger asChild>
               <Button
@@ -29,7 +29,7 @@ function parseTimestamp(input: string | number | Date): Date | null {
   return isNaN(fallback.getTime()) ? null : fallback;
 }
 
-function formatRelative(date: Date, nowMs: number): string {
+export function formatRelative(date: Date, nowMs: number): string {
   const diffMs = nowMs - date.getTime();
   const diffSeconds = Math.round(diffMs / 1000);
   const diffMinutes = Math.round(diffSeconds / 60);
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { AcpQueuedPrompt, AcpUpdateEvent } from '@/types/electron-api';
+
+/**
+ * Mirror of the main-process prompt queue for an ACP session.
+ * The queue lives in AcpSessionManager so it survives detach/reattach;
+ * this hook lists it on mount and follows `queue_update` events.
+ */
+export function useAcpPromptQueue(sessionKey: string | null) {
+  const [queue, setQueue] = useState<AcpQueuedPrompt[]>([]);
+
+  useEffect(() => {
+    if (!sessionKey) {
+      setQueue([]);
+      return;
+    }
+
+    let cancelled = false;
+    window.electronAPI
+      .acpListQueue({ sessionKey })
+      .then((res) => {
+        if (!cancelled && res.success && res.queue) setQueue(res.queue);
+      })
+      .catch(() => {
+        /* non-fatal */
+      });
+
+    const cleanup = window.electronAPI.onAcpUpdate(sessionKey, (event: AcpUpdateEvent) => {
+      if (event.type === 'queue_update') setQueue(event.queue);
+    });
+
+    return () => {
+      cancelled = true;
+      cleanup();
+    };
+  }, [sessionKey]);
+
+  const enqueue = useCallback(
+    (
+      message: string,
+      files?: Array<{ url: string; mediaType: string; filename?: string }>,
+      position?: number
+    ) => {
+      if (!sessionKey) return Promise.resolve({ success: false, error: 'No session' });
+      return window.electronAPI.acpQueuePrompt({ sessionKey, message, files, position });
+    },
+    [sessionKey]
+  );
+
+  const move = useCallback(
+    (itemId: string, toIndex: number) => {
+      if (!sessionKey) return;
+      window.electronAPI.acpReorderQueue({ sessionKey, itemId, toIndex }).catch(() => {});
+    },
+    [sessionKey]
+  );
+
+  const edit = useCallback(
+    (itemId: string, message: string) => {
+      if (!sessionKey || !message.trim()) return;
+      window.electronAPI.acpEditQueuedPrompt({ sessionKey, itemId, message }).catch(() => {});
+    },
+    [sessionKey]
+  );
+
+  const remove = useCallback(
+    (itemId: string) => {
+      if (!sessionKey) return;
+      window.electronAPI.acpRemoveQueuedPrompt({ sessionKey, itemId }).catch(() => {});
+    },
+    [sessionKey]
+  );
+
+  return { queue, enqueue, move, edit, remove };
+}
@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { BaseSyncStatus } from '@shared/conflicts';
+import { getBaseSyncStatus } from '@/services/gitService';
+
+/**
+ * How far a task is behind its base branch and whether an update from it
+ * stopped on conflicts. `refresh` re-reads it, e.g. after files changed.
+ */
+export function useBaseSyncStatus(taskPath?: string) {
+  const [status, setStatus] = useState<BaseSyncStatus | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!taskPath) return;
+    try {
+      const result = await getBaseSyncStatus({ taskPath });
+      setStatus(result?.success ? (result.status ?? null) : null);
+    } catch {
+      // Keep the last known status
+    }
+  }, [taskPath]);
+
+  useEffect(() => {
+    setStatus(null);
+    void refresh();
+  }, [refresh]);
+
+  return { status, refresh };
+}
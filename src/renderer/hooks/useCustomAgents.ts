@@ -0,0 +1,71 @@
+import { useSyncExternalStore } from 'react';
+import { setCustomProviders, type ProviderDefinition } from '@shared/providers/registry';
+import { agentConfig } from '../lib/agentConfig';
+import { agentMeta } from '../providers/meta';
+import { agentAssets } from '../providers/assets';
+import terminalLogo from '../../assets/images/terminal.png';
+
+type Listener = () => void;
+
+/**
+ * Custom agents of the current project. Their entries are added to the
+ * per-agent tables (`agentConfig`, `agentMeta`, `agentAssets`) so every view
+ * that lists or labels agents picks them up like built-in providers.
+ */
+class CustomAgentsStore {
+  private agents: ProviderDefinition[] = [];
+  private listeners = new Set<Listener>();
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getSnapshot = (): ProviderDefinition[] => this.agents;
+
+  apply(agents: ProviderDefinition[]): void {
+    for (const previous of this.agents) {
+      delete agentConfig[previous.id];
+      delete agentMeta[previous.id];
+      delete agentAssets[previous.id];
+    }
+    setCustomProviders(agents);
+    for (const agent of agents) {
+      const logo = agent.icon ?? terminalLogo;
+      agentConfig[agent.id] = { name: agent.name, logo, alt: agent.name };
+      agentMeta[agent.id] = {
+        label: agent.name,
+        icon: logo,
+        terminalOnly: agent.terminalOnly ?? true,
+        cli: agent.cli,
+        autoApproveFlag: agent.autoApproveFlag,
+        initialPromptFlag: agent.initialPromptFlag,
+      };
+      agentAssets[agent.id] = { name: 'Custom', logo, alt: agent.name };
+    }
+    this.agents = agents;
+    for (const listener of this.listeners) listener();
+  }
+}
+
+const customAgentsStore = new CustomAgentsStore();
+
+/**
+ * Load the custom agents from settings and the project's `.valkyr.json`.
+ * Failures keep the agents loaded before.
+ */
+export async function loadCustomAgents(projectPath?: string): Promise<void> {
+  try {
+    const res = await window.electronAPI.listCustomAgents({ projectPath });
+    if (res?.success) customAgentsStore.apply(res.agents ?? []);
+  } catch {}
+}
+
+/** Custom agents currently loaded; re-renders when they change. */
+export function useCustomAgents(): ProviderDefinition[] {
+  return useSyncExternalStore(
+    customAgentsStore.subscribe,
+    customAgentsStore.getSnapshot,
+    customAgentsStore.getSnapshot
+  );
+}
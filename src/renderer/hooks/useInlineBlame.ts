@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import type { editor as monacoEditor } from 'monaco-editor';
+import type { BlameCommit, FileBlame } from '@shared/gitHistory';
+import { formatRelative } from '@/components/ui/relative-time';
+import { getBlame } from '@/services/gitService';
+
+interface UseInlineBlameOptions {
+  editor: monacoEditor.IStandaloneCodeEditor | null;
+  taskPath: string;
+  filePath: string | null;
+  enabled: boolean;
+  /** Line numbers no longer match the blame while there are unsaved edits. */
+  isDirty: boolean;
+  /** Saved content of the file; the blame is re-read whenever it changes. */
+  savedContent?: string;
+}
+
+function describe(commit: BlameCommit): string {
+  if (commit.uncommitted) return 'You, uncommitted changes';
+  const when = commit.date ? formatRelative(new Date(commit.date), Date.now()) : '';
+  return `${commit.author}, ${when} • ${commit.summary}`;
+}
+
+/**
+ * Show who last changed the line under the cursor after the end of that line,
+ * with the full commit in its hover.
+ */
+export function useInlineBlame({
+  editor,
+  taskPath,
+  filePath,
+  enabled,
+  isDirty,
+  savedContent,
+}: UseInlineBlameOptions) {
+  const [blame, setBlame] = useState<FileBlame | null>(null);
+
+  useEffect(() => {
+    setBlame(null);
+    if (!enabled || !filePath) return;
+    let cancelled = false;
+    void getBlame({ taskPath, filePath })
+      .then((res) => {
+        // Untracked files and paths outside the repo have no blame
+        if (!cancelled) setBlame(res?.success ? (res.blame ?? null) : null);
+      })
+      .catch(() => {
+        if (!cancelled) setBlame(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, taskPath, filePath, savedContent]);
+
+  useEffect(() => {
+    if (!editor || !blame || isDirty) return;
+    const decorations = editor.createDecorationsCollection();
+
+    const update = () => {
+      const position = editor.getPosition();
+      const model = editor.getModel();
+      const sha = position ? blame.lines[position.lineNumber - 1] : undefined;
+      const commit = sha ? blame.commits[sha] : undefined;
+      if (!position || !model || !commit) {
+        decorations.clear();
+        return;
+      }
+      const column = model.getLineMaxColumn(position.lineNumber);
+      decorations.set([
+        {
+          range: {
+            startLineNumber: position.lineNumber,
+            startColumn: column,
+            endLineNumber: position.lineNumber,
+            endColumn: column,
+          },
+          options: {
+            after: { content: describe(commit), inlineClassName: 'valkyr-inline-blame' },
+            hoverMessage: commit.uncommitted
+              ? undefined
+              : {
+                  value: `**${commit.summary}**\n\n${commit.author} <${commit.email}>, ${new Date(
+                    commit.date
+                  ).toLocaleString()}\n\n\`${commit.sha.slice(0, 7)}\``,
+                },
+          },
+        },
+      ]);
+    };
+
+    update();
+    const listener = editor.onDidChangeCursorPosition(update);
+    return () => {
+      listener.dispose();
+      decorations.clear();
+    };
+  }, [editor, blame, isDirty]);
+}
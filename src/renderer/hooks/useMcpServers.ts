@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import type { McpServerConfig, McpServerInput } from '@shared/mcp/types';
+import type { McpServerConfig, McpServerHealth, McpServerInput } from '@shared/mcp/types';
 
 const api = () => window.electronAPI;
 
@@ -9,6 +9,8 @@ export function useMcpServers(scope: McpScope, projectPath?: string) {
   const [servers, setServers] = useState<McpServerConfig[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [health, setHealth] = useState<Record<string, McpServerHealth>>({});
+  const [testingIds, setTestingIds] = useState<Set<string>>(new Set());
 
   const refresh = useCallback(async () => {
     setIsLoading(true);
@@ -81,6 +83,43 @@ export function useMcpServers(scope: McpScope, projectPath?: string) {
     [updateServer]
   );
 
+  const testServer = useCallback(async (server: McpServerConfig) => {
+    setTestingIds((prev) => new Set(prev).add(server.id));
+    try {
+      const res = await api().mcpTestServer(server);
+      const result: McpServerHealth =
+        res.success && res.data
+          ? res.data
+          : {
+              ok: false,
+              error: res.error || 'Connection test failed',
+              tools: [],
+              resources: [],
+              prompts: [],
+              durationMs: 0,
+              checkedAt: new Date().toISOString(),
+            };
+      setHealth((prev) => ({ ...prev, [server.id]: result }));
+    } finally {
+      setTestingIds((prev) => {
+        const next = new Set(prev);
+        next.delete(server.id);
+        return next;
+      });
+    }
+  }, []);
+
+  const setToolEnabled = useCallback(
+    async (id: string, tool: string, enabled: boolean) => {
+      const current = servers.find((s) => s.id === id)?.disabledTools ?? [];
+      const disabledTools = enabled
+        ? current.filter((t) => t !== tool)
+        : Array.from(new Set([...current, tool]));
+      await updateServer(id, { disabledTools });
+    },
+    [servers, updateServer]
+  );
+
   useEffect(() => {
     if (scope === 'project' && !projectPath) return;
     void refresh();
@@ -95,5 +134,9 @@ export function useMcpServers(scope: McpScope, projectPath?: string) {
     updateServer,
     deleteServer,
     toggleServer,
+    health,
+    testingIds,
+    testServer,
+    setToolEnabled,
   };
 }
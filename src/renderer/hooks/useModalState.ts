@@ -7,6 +7,7 @@ export type SettingsTab =
   | 'agents'
   | 'mcp'
   | 'repository'
+  | 'usage'
   | 'about';
 
 export const ORDERED_TABS: SettingsTab[] = [
@@ -15,6 +16,7 @@ export const ORDERED_TABS: SettingsTab[] = [
   'agents',
   'mcp',
   'repository',
+  'usage',
   'about',
 ];
 
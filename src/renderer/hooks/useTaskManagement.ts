@@ -1,4 +1,4 @@
-import { useState, useMemo, useCallback, useRef } from 'react';
+import { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import { TERMINAL_PROVIDER_IDS } from '../constants/agents';
 import { saveActiveIds, getStoredActiveIds, saveProjectLastTaskId } from '../constants/layout';
 import { getAgentForTask } from '../lib/getAgentForTask';
@@ -108,6 +108,29 @@ export function useTaskManagement(options: UseTaskManagementOptions) {
   const selectedProjectRef = useRef(selectedProject);
   selectedProjectRef.current = selectedProject;
 
+  // Tasks spawned by agents through the Valkyr MCP server appear without switching to them
+  useEffect(() => {
+    return window.electronAPI.onTaskSpawned(async ({ projectId, taskId }) => {
+      try {
+        const refreshedTasks = await getTasks(projectId);
+        setProjects((prev) =>
+          prev.map((project) =>
+            project.id === projectId ? { ...project, tasks: refreshedTasks } : project
+          )
+        );
+        setSelectedProject((prev) =>
+          prev && prev.id === projectId ? { ...prev, tasks: refreshedTasks } : prev
+        );
+        const spawned = refreshedTasks.find((t) => t.id === taskId);
+        if (spawned) {
+          toast({ title: 'Agent created a task', description: spawned.name });
+        }
+      } catch (error) {
+        log.error('Failed to load spawned task:', error);
+      }
+    });
+  }, [setProjects, setSelectedProject, toast]);
+
   const handleSelectTask = useCallback((task: Task) => {
     log.debug('Task selected', { taskId: task.id, name: task.name });
     setActiveTask(task);
@@ -171,6 +194,24 @@ export function useTaskManagement(options: UseTaskManagementOptions) {
     [activateProjectView, projects]
   );
 
+  /** Replace a task in every place it is held, e.g. after its metadata changed. */
+  const handleTaskUpdated = useCallback(
+    (projectId: string, updated: Task) => {
+      const replace = (tasks: Task[] | undefined) =>
+        tasks?.map((t) => (t.id === updated.id ? updated : t));
+      setProjects((prev) =>
+        prev.map((project) =>
+          project.id === projectId ? { ...project, tasks: replace(project.tasks) } : project
+        )
+      );
+      setSelectedProject((prev) =>
+        prev && prev.id === projectId ? { ...prev, tasks: replace(prev.tasks) } : prev
+      );
+      setActiveTask((prev) => (prev?.id === updated.id ? updated : prev));
+    },
+    [setProjects, setSelectedProject]
+  );
+
   const removeTaskFromState = (projectId: string, taskId: string, wasActive: boolean) => {
     const filterTasks = (list?: Task[]) => (list || []).filter((w) => w.id !== taskId);
 
@@ -897,6 +938,7 @@ export function useTaskManagement(options: UseTaskManagementOptions) {
     handleNewTask,
     handleStartCreateTaskFromSidebar,
     removeTaskFromState,
+    handleTaskUpdated,
     handleDeleteTask,
     handleRenameTask,
     handleArchiveTask,
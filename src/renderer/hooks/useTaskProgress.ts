@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { taskProgressStore } from '../lib/taskProgressStore';
+import type { TaskProgress } from '@shared/mcp/valkyr';
+
+/**
+ * Subscribe to the progress the task's agent last reported, if any.
+ */
+export function useTaskProgress(taskId: string): TaskProgress | null {
+  const [progress, setProgress] = useState(() => taskProgressStore.get(taskId));
+
+  useEffect(() => {
+    setProgress(taskProgressStore.get(taskId));
+    return taskProgressStore.subscribe(taskId, setProgress);
+  }, [taskId]);
+
+  return progress;
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { VerifyGate, VerifyRun } from '@shared/verify';
+
+/**
+ * Latest verify run of a task and the gate it puts on commit, PR and merge
+ * actions. `refresh` re-checks staleness, e.g. after files changed.
+ */
+export function useVerifyStatus(taskId?: string, taskPath?: string, projectPath?: string) {
+  const [run, setRun] = useState<VerifyRun | null>(null);
+  const [gate, setGate] = useState<VerifyGate | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!taskId || !taskPath || !projectPath) return;
+    try {
+      const result = await window.electronAPI.lifecycleVerifyStatus({
+        taskId,
+        taskPath,
+        projectPath,
+      });
+      if (!result?.success) return;
+      setRun(result.run ?? null);
+      setGate(result.gate ?? null);
+    } catch {
+      // Keep the last known status
+    }
+  }, [taskId, taskPath, projectPath]);
+
+  const runVerify = useCallback(async () => {
+    if (!taskId || !taskPath || !projectPath) return;
+    setRunning(true);
+    try {
+      await window.electronAPI.lifecycleVerify({ taskId, taskPath, projectPath });
+    } finally {
+      setRunning(false);
+      void refresh();
+    }
+  }, [taskId, taskPath, projectPath, refresh]);
+
+  useEffect(() => {
+    setRun(null);
+    setGate(null);
+    setRunning(false);
+    if (!taskId) return;
+    void refresh();
+
+    return window.electronAPI.onLifecycleEvent(
+      (evt: { taskId?: string; phase?: string; status?: string }) => {
+        if (evt?.taskId !== taskId || evt.phase !== 'verify') return;
+        if (evt.status === 'starting') setRunning(true);
+        if (evt.status === 'done' || evt.status === 'error') setRunning(false);
+        if (evt.status === 'result') void refresh();
+      }
+    );
+  }, [taskId, refresh]);
+
+  return { run, gate, running, refresh, runVerify };
+}
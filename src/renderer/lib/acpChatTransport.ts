@@ -1,5 +1,12 @@
 import type { ChatTransport, UIMessage, UIMessageChunk } from 'ai';
-import type { AcpUpdateEvent } from '../types/electron-api';
+import type {
+  AcpCheckpoint,
+  AcpPathBlockedDetail,
+  AcpProposedWrite,
+  AcpQueuedPrompt,
+  AcpUpdateEvent,
+} from '../types/electron-api';
+import type { UsageBudgetBreach } from '@shared/usage';
 import { acpStatusStore } from './acpStatusStore';
 import { useToolOutputStore } from './toolOutputStore';
 import { createLogger } from './logger';
@@ -334,6 +341,22 @@ export type AcpSideChannelEvents = {
   onSessionInfoUpdate?: (info: { title?: string; timestamp?: string }) => void;
   /** Fired when the agent completes a compaction (manual or auto). */
   onCompactComplete?: () => void;
+  /**
+   * Fired when the main process dispatches a queued prompt. The UI should
+   * `sendMessage` it so the turn gets a user bubble; the transport then adopts
+   * the already-running prompt instead of sending it again.
+   */
+  onPromptDequeued?: (item: AcpQueuedPrompt) => void;
+  /** Fired when the main process blocks an agent file or terminal access outside the worktree. */
+  onPathBlocked?: (detail: AcpPathBlockedDetail) => void;
+  /** Fired when a file write is staged for review (review-writes mode). */
+  onWriteProposed?: (write: AcpProposedWrite) => void;
+  /** Fired when a staged write is accepted or rejected. */
+  onWriteResolved?: (writeId: string, accepted: boolean) => void;
+  /** Fired when the worktree has been checkpointed at the start of a turn. */
+  onCheckpointCreated?: (checkpoint: AcpCheckpoint) => void;
+  /** Fired when a usage budget stops a turn or keeps a prompt from being sent. */
+  onBudgetExceeded?: (breach: UsageBudgetBreach) => void;
 };
 
 export type AcpTransportOptions = {
@@ -382,6 +405,12 @@ export class AcpChatTransport implements ChatTransport<UIMessage> {
   /** When true, permission requests are auto-approved without UI confirmation. */
   autoApprove = false;
 
+  /** Queued prompts the main process already dispatched, awaiting a sendMessages call to adopt them. */
+  private adoptedPromptIds: string[] = [];
+
+  /** Events of an adopted turn that arrived before its stream listener was attached. */
+  private adoptBuffer: AcpUpdateEvent[] = [];
+
   /** Stored permission options keyed by toolCallId, for resolving optionId on approve/deny. */
   private permissionOptions = new Map<
     string,
@@ -436,6 +465,36 @@ export class AcpChatTransport implements ChatTransport<UIMessage> {
   private startSideChannelListener(): void {
     this.stopSideChannelListener();
     this.sideChannelCleanup = api().onAcpUpdate(this.sessionKey, (event: AcpUpdateEvent) => {
+      if (event.type === 'prompt_dequeued') {
+        this.adoptedPromptIds.push(event.item.id);
+        this._sideChannel.onPromptDequeued?.(event.item);
+        return;
+      }
+      if (event.type === 'session_error' && event.code === 'path_blocked' && event.detail) {
+        this._sideChannel.onPathBlocked?.(event.detail);
+        return;
+      }
+      if (event.type === 'write_proposed') {
+        this._sideChannel.onWriteProposed?.(event.write);
+        return;
+      }
+      if (event.type === 'write_resolved') {
+        this._sideChannel.onWriteResolved?.(event.writeId, event.accepted);
+        return;
+      }
+      if (event.type === 'checkpoint_created') {
+        this._sideChannel.onCheckpointCreated?.(event.checkpoint);
+        return;
+      }
+      if (event.type === 'budget_exceeded') {
+        this._sideChannel.onBudgetExceeded?.(event.breach);
+        return;
+      }
+      // A dequeued turn is running — hold its events until sendMessages adopts it
+      if (this.adoptedPromptIds.length > 0) {
+        this.adoptBuffer.push(event);
+        return;
+      }
       if (event.type !== 'session_update') return;
       const sc = this._sideChannel;
       const update = event.data?.update;
@@ -500,15 +559,24 @@ export class AcpChatTransport implements ChatTransport<UIMessage> {
       hasFiles: fileParts.length > 0,
     });
 
+    // A queued prompt dispatched by the main process is already running — adopt
+    // its turn instead of sending the prompt a second time.
+    const adoptedId = this.adoptedPromptIds.shift();
+    const replayEvents = adoptedId ? this.adoptBuffer : [];
+    if (adoptedId) this.adoptBuffer = [];
+
     // Send prompt to ACP (include files if present)
-    const result = await api().acpPrompt({
-      sessionKey,
-      message: messageText,
-      files:
-        fileParts.length > 0
-          ? fileParts.map((f) => ({ url: f.url, mediaType: f.mediaType, filename: f.filename }))
-          : undefined,
-    });
+    const result = adoptedId
+      ? { success: true as const, error: undefined }
+      : await api().acpPrompt({
+          sessionKey,
+          message: messageText,
+          files:
+            fileParts.length > 0
+              ? fileParts.map((f) => ({ url: f.url, mediaType: f.mediaType, filename: f.filename }))
+              : undefined,
+          messageId: lastUserMsg?.id,
+        });
     if (!result.success) {
       log.warn('Prompt send failed', { sessionKey, error: result.error });
       return new ReadableStream<UIMessageChunk>({
@@ -541,7 +609,7 @@ export class AcpChatTransport implements ChatTransport<UIMessage> {
         // to avoid emitting duplicates when permission_request arrives
         const emittedToolCalls = new Set<string>();
 
-        const rawCleanup = api().onAcpUpdate(sessionKey, (event: AcpUpdateEvent) => {
+        const handleEvent = (event: AcpUpdateEvent) => {
           switch (event.type) {
             case 'session_update': {
               // Route side-channel events before mapping to chunks
@@ -682,7 +750,32 @@ export class AcpChatTransport implements ChatTransport<UIMessage> {
               break;
             }
 
+            case 'write_proposed': {
+              sideChannel.onWriteProposed?.(event.write);
+              break;
+            }
+
+            case 'write_resolved': {
+              sideChannel.onWriteResolved?.(event.writeId, event.accepted);
+              break;
+            }
+
+            case 'checkpoint_created': {
+              sideChannel.onCheckpointCreated?.(event.checkpoint);
+              break;
+            }
+
+            case 'budget_exceeded': {
+              sideChannel.onBudgetExceeded?.(event.breach);
+              break;
+            }
+
             case 'session_error': {
+              // Blocked paths are reported to the agent as a failed tool call; the turn goes on
+              if (event.code === 'path_blocked') {
+                if (event.detail) sideChannel.onPathBlocked?.(event.detail);
+                break;
+              }
               log.warn('Session error', { sessionKey, error: event.error });
               for (const chunk of mapper.endAll()) {
                 controller.enqueue(chunk);
@@ -693,7 +786,8 @@ export class AcpChatTransport implements ChatTransport<UIMessage> {
               break;
             }
           }
-        });
+        };
+        const rawCleanup = api().onAcpUpdate(sessionKey, handleEvent);
 
         // Wrap cleanup to also clear the tracked reference and restart side-channel
         const cleanupUpdate = () => {
@@ -704,6 +798,11 @@ export class AcpChatTransport implements ChatTransport<UIMessage> {
         };
         setActiveCleanup(cleanupUpdate);
 
+        // Replay events of an adopted turn that arrived before this listener
+        for (const event of replayEvents) {
+          handleEvent(event);
+        }
+
         // Handle abort (user clicks stop)
         options.abortSignal?.addEventListener(
           'abort',
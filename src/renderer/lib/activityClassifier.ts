@@ -1,3 +1,6 @@
+import { isCustomProviderId } from '@shared/providers/customAgents';
+import { getProvider } from '@shared/providers/registry';
+
 export type ActivitySignal = 'busy' | 'idle' | 'neutral';
 
 function stripAnsi(s: string): string {
@@ -280,6 +283,13 @@ export function classifyActivity(
     if (/Task completed|Finished/i.test(text)) return 'idle';
   }
 
+  if (isCustomProviderId(p)) {
+    // Custom agents: their own `<cli> >` prompt, otherwise the generic signals
+    const cli = getProvider(p)?.cli;
+    const prompt = cli ? new RegExp(`${cli.replace(/[^\w-]/g, '\\$&')}\\s*>`, 'i') : null;
+    if (prompt?.test(text)) return 'idle';
+  }
+
   // Generic signals
   if (/esc\s*to\s*(cancel|interrupt)/i.test(text)) return 'busy';
   if (/(^|\b)(Generating|Working|Executing|Running|Applying|Thinking)(\b|\.)/i.test(text))
@@ -1,6 +1,6 @@
 import { classifyActivity } from './activityClassifier';
 import { CLEAR_BUSY_MS, BUSY_HOLD_MS } from './activityConstants';
-import { PROVIDER_IDS } from '@shared/providers/registry';
+import { listProviders } from '@shared/providers/registry';
 
 type Listener = (busy: boolean) => void;
 type IdleListener = (idle: boolean) => void;
@@ -121,7 +121,7 @@ class ActivityStore {
     const offDirect: Array<() => void> = [];
     try {
       const api = window.electronAPI;
-      for (const prov of PROVIDER_IDS) {
+      for (const { id: prov } of listProviders()) {
         const ptyId = `${prov}-main-${wsId}`;
         const off = api?.onPtyData?.(ptyId, (chunk: string) => {
           try {
@@ -0,0 +1,53 @@
+/**
+ * Lightweight pub/sub for handing things to the chat of a task: files for its
+ * input (browser preview logs and screenshots) and prompts to send right away
+ * (e.g. asking the agent to resolve merge conflicts). When several chats of a
+ * task are open, the most recently mounted one receives them.
+ */
+
+type ChatAttachListener = (files: File[]) => void;
+type ChatPromptListener = (text: string) => void;
+
+function createChannel<T>() {
+  const listeners = new Map<string, Array<(payload: T) => void>>();
+  return {
+    subscribe(taskId: string, listener: (payload: T) => void): () => void {
+      listeners.set(taskId, [...(listeners.get(taskId) ?? []), listener]);
+      return () => {
+        const remaining = (listeners.get(taskId) ?? []).filter((l) => l !== listener);
+        if (remaining.length > 0) listeners.set(taskId, remaining);
+        else listeners.delete(taskId);
+      };
+    },
+    deliver(taskId: string, payload: T): boolean {
+      const taskListeners = listeners.get(taskId);
+      if (!taskListeners?.length) return false;
+      taskListeners[taskListeners.length - 1](payload);
+      return true;
+    },
+  };
+}
+
+const attachments = createChannel<File[]>();
+const prompts = createChannel<string>();
+
+export function onChatAttach(taskId: string, listener: ChatAttachListener): () => void {
+  return attachments.subscribe(taskId, listener);
+}
+
+/** Add files to the task's chat input. Returns false when no chat is open for the task. */
+export function attachToChat(taskId: string, files: File[]): boolean {
+  return attachments.deliver(taskId, files);
+}
+
+export function onChatPrompt(taskId: string, listener: ChatPromptListener): () => void {
+  return prompts.subscribe(taskId, listener);
+}
+
+/**
+ * Send a prompt to the task's agent, queued behind any turn in progress.
+ * Returns false when no chat is open for the task.
+ */
+export function sendPromptToChat(taskId: string, text: string): boolean {
+  return prompts.deliver(taskId, text);
+}
@@ -0,0 +1,46 @@
+/**
+ * Lane layout for drawing a commit graph next to a log in topological order.
+ * Each lane holds the commit it is heading down to, so a row knows which
+ * lanes pass through it, which end in its commit and where its parents go.
+ */
+
+export interface GraphRow {
+  /** Lane of the commit's node. */
+  column: number;
+  /** Lanes entering the row from above; null where a lane is free. */
+  before: Array<string | null>;
+  /** Lanes leaving the row below. */
+  after: Array<string | null>;
+}
+
+export function layoutCommitGraph(commits: Array<{ sha: string; parents: string[] }>): GraphRow[] {
+  const lanes: Array<string | null> = [];
+
+  return commits.map(({ sha, parents }) => {
+    const before = [...lanes];
+    let column = lanes.indexOf(sha);
+    if (column === -1) {
+      column = lanes.indexOf(null);
+      if (column === -1) column = lanes.length;
+    }
+
+    // Every lane heading for this commit ends in it
+    for (let i = 0; i < lanes.length; i++) {
+      if (lanes[i] === sha) lanes[i] = null;
+    }
+    lanes[column] = parents[0] ?? null;
+    for (const parent of parents.slice(1)) {
+      if (lanes.includes(parent)) continue;
+      const free = lanes.indexOf(null);
+      lanes[free === -1 ? lanes.length : free] = parent;
+    }
+    while (lanes.length > 0 && lanes[lanes.length - 1] === null) lanes.pop();
+
+    return { column, before, after: [...lanes] };
+  });
+}
+
+/** Lane a parent's edge leaves the row in; the first parent continues the commit's own lane. */
+export function parentLane(row: GraphRow, parents: string[], index: number): number {
+  return index === 0 && parents[0] !== undefined ? row.column : row.after.indexOf(parents[index]);
+}
@@ -1,6 +1,7 @@
 import { type Agent } from '../types';
 import type { Project, Task } from '../types/app';
 import type { AgentRun, TaskMetadata } from '../types/chat';
+import { issueToTaskMetadata, type Issue } from '@shared/issues';
 import { saveActiveIds, saveProjectLastTaskId } from '../constants/layout';
 import { getAgentForTask } from './getAgentForTask';
 
@@ -12,6 +13,7 @@ export interface CreateTaskParams {
   useWorktree: boolean;
   baseRef?: string;
   selectedSubRepos?: string[];
+  linkedIssue?: Issue;
 }
 
 export interface CreateTaskCallbacks {
@@ -54,6 +56,7 @@ export async function createTask(params: CreateTaskParams, callbacks: CreateTask
     useWorktree,
     baseRef,
     selectedSubRepos,
+    linkedIssue,
   } = params;
   const {
     selectedProject,
@@ -67,10 +70,11 @@ export async function createTask(params: CreateTaskParams, callbacks: CreateTask
   try {
     const preparedPrompt = initialPrompt?.trim() || undefined;
     const taskMetadata: TaskMetadata | null =
-      preparedPrompt || autoApprove
+      preparedPrompt || autoApprove || linkedIssue
         ? {
             initialPrompt: preparedPrompt ?? null,
             autoApprove: autoApprove ?? null,
+            ...(linkedIssue ? issueToTaskMetadata(linkedIssue) : {}),
           }
         : null;
 
@@ -93,6 +97,7 @@ export async function createTask(params: CreateTaskParams, callbacks: CreateTask
           agentRuns,
           variants: [], // Empty initially - shows loading spinner
           selectedAgent: null,
+          baseRef: baseRef ?? null,
         },
       };
 
@@ -204,6 +209,7 @@ export async function createTask(params: CreateTaskParams, callbacks: CreateTask
               agentRuns,
               variants,
               selectedAgent: null,
+              baseRef: baseRef ?? null,
             },
           };
 
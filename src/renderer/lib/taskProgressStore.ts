@@ -0,0 +1,52 @@
+/**
+ * Latest progress agents reported for their tasks through the Valkyr MCP
+ * server. Primed from the main process once, then kept current by its events.
+ */
+
+import type { TaskProgress } from '@shared/mcp/valkyr';
+
+type Listener = (progress: TaskProgress | null) => void;
+
+const progressByTask = new Map<string, TaskProgress>();
+const listenersByTask = new Map<string, Set<Listener>>();
+
+function set(progress: TaskProgress) {
+  progressByTask.set(progress.taskId, progress);
+  for (const fn of listenersByTask.get(progress.taskId) ?? []) fn(progress);
+}
+
+let wired = false;
+function wireOnce() {
+  if (wired) return;
+  wired = true;
+  window.electronAPI.onTaskProgress(set);
+  void window.electronAPI
+    .mcpGetTaskProgress()
+    .then((res) => {
+      // Events that arrived meanwhile are newer
+      for (const progress of res.data ?? []) {
+        if (!progressByTask.has(progress.taskId)) set(progress);
+      }
+    })
+    .catch(() => {});
+}
+
+export const taskProgressStore = {
+  get(taskId: string): TaskProgress | null {
+    return progressByTask.get(taskId) ?? null;
+  },
+
+  subscribe(taskId: string, listener: Listener): () => void {
+    wireOnce();
+    let listeners = listenersByTask.get(taskId);
+    if (!listeners) {
+      listeners = new Set();
+      listenersByTask.set(taskId, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) listenersByTask.delete(taskId);
+    };
+  },
+};
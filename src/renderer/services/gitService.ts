@@ -2,6 +2,11 @@
  * Service abstraction for git-related IPC calls.
  */
 
+import type { HunkAction, HunkSelection } from '@shared/diffHunks';
+import type { MergeRequest } from '@shared/merge';
+import type { UpdateStrategy } from '@shared/conflicts';
+import type { HistoryAction } from '@shared/gitHistory';
+
 export type GetGitInfoResult = Awaited<ReturnType<typeof window.electronAPI.getGitInfo>>;
 export type DetectSubReposResult = Awaited<ReturnType<typeof window.electronAPI.detectSubRepos>>;
 export type GetFileDiffResult = Awaited<ReturnType<typeof window.electronAPI.getFileDiff>>;
@@ -22,11 +27,7 @@ export function getFileDiff(args: {
   return window.electronAPI.getFileDiff(args);
 }
 
-export function stageFile(args: {
-  taskPath: string;
-  filePath: string;
-  repoCwd?: string;
-}) {
+export function stageFile(args: { taskPath: string; filePath: string; repoCwd?: string }) {
   return window.electronAPI.stageFile(args);
 }
 
@@ -34,20 +35,26 @@ export function stageAllFiles(args: { taskPath: string; repoCwds?: string[] }) {
   return window.electronAPI.stageAllFiles(args);
 }
 
-export function unstageFile(args: {
-  taskPath: string;
-  filePath: string;
-  repoCwd?: string;
-}) {
+export function unstageFile(args: { taskPath: string; filePath: string; repoCwd?: string }) {
   return window.electronAPI.unstageFile(args);
 }
 
-export function revertFile(args: {
+export function revertFile(args: { taskPath: string; filePath: string; repoCwd?: string }) {
+  return window.electronAPI.revertFile(args);
+}
+
+export function getFileHunks(args: { taskPath: string; filePath: string; repoCwd?: string }) {
+  return window.electronAPI.getFileHunks(args);
+}
+
+export function applyHunks(args: {
   taskPath: string;
   filePath: string;
   repoCwd?: string;
+  action: HunkAction;
+  selections: HunkSelection[];
 }) {
-  return window.electronAPI.revertFile(args);
+  return window.electronAPI.applyHunks(args);
 }
 
 export function gitCommitAndPush(args: {
@@ -68,14 +75,71 @@ export function switchRepoBranch(args: {
   return window.electronAPI.switchRepoBranch(args);
 }
 
-export function renameBranch(args: {
-  repoPath: string;
-  oldBranch: string;
-  newBranch: string;
-}) {
+export function renameBranch(args: { repoPath: string; oldBranch: string; newBranch: string }) {
   return window.electronAPI.renameBranch(args);
 }
 
+export function mergePreview(args: { taskPath: string }) {
+  return window.electronAPI.mergePreview(args);
+}
+
+export function mergeToMain(args: MergeRequest) {
+  return window.electronAPI.mergeToMain(args);
+}
+
+export function getBaseSyncStatus(args: { taskPath: string }) {
+  return window.electronAPI.getBaseSyncStatus(args);
+}
+
+export function updateFromBase(args: { taskPath: string; strategy: UpdateStrategy }) {
+  return window.electronAPI.updateFromBase(args);
+}
+
+export function getConflictFile(args: { taskPath: string; filePath: string }) {
+  return window.electronAPI.getConflictFile(args);
+}
+
+export function resolveConflict(args: {
+  taskPath: string;
+  filePath: string;
+  content: string | null;
+}) {
+  return window.electronAPI.resolveConflict(args);
+}
+
+export function continueUpdate(args: { taskPath: string }) {
+  return window.electronAPI.continueUpdate(args);
+}
+
+export function abortUpdate(args: { taskPath: string }) {
+  return window.electronAPI.abortUpdate(args);
+}
+
+export function getGitLog(args: { taskPath: string; limit?: number }) {
+  return window.electronAPI.getGitLog(args);
+}
+
+export function getCommit(args: { taskPath: string; sha: string }) {
+  return window.electronAPI.getCommit(args);
+}
+
+export function getCommitFileDiff(args: {
+  taskPath: string;
+  sha: string;
+  filePath: string;
+  oldPath?: string;
+}) {
+  return window.electronAPI.getCommitFileDiff(args);
+}
+
+export function getBlame(args: { taskPath: string; filePath: string }) {
+  return window.electronAPI.getBlame(args);
+}
+
+export function runHistoryAction(args: { taskPath: string; action: HistoryAction }) {
+  return window.electronAPI.runHistoryAction(args);
+}
+
 export function getGitStatus(
   arg:
     | string
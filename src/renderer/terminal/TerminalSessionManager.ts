@@ -525,6 +525,9 @@ export class TerminalSessionManager {
    *
    * For CLIs without resume:
    * - Always restore snapshot for visual context
+   *
+   * A PTY that kept running in the host daemon while the app was closed is
+   * reused, and the output the snapshot missed is replayed on top of it.
    */
   private async initializeTerminal(): Promise<void> {
     // Check if snapshot exists (indicates previous session)
@@ -541,6 +544,9 @@ export class TerminalSessionManager {
         if (snapshot) {
           this.applySnapshot(snapshot);
         }
+        if (result.replay) {
+          this.terminal.write(result.replay);
+        }
       } else if (!this.providerHasResume()) {
         // Full restart with non-resume CLI - show snapshot for context
         if (snapshot) {
@@ -560,7 +566,12 @@ export class TerminalSessionManager {
     return !!provider?.resumeFlag;
   }
 
-  private async fetchSnapshot(): Promise<{ data?: string; cols?: number; rows?: number; version?: number } | null> {
+  private async fetchSnapshot(): Promise<{
+    data?: string;
+    cols?: number;
+    rows?: number;
+    version?: number;
+  } | null> {
     if (this.options.disableSnapshots) return null;
     if (!window.electronAPI.ptyGetSnapshot) return null;
 
@@ -588,7 +599,7 @@ export class TerminalSessionManager {
 
   private async connectPty(
     hasExistingSession: boolean = false
-  ): Promise<{ ok: boolean; reused?: boolean; error?: string }> {
+  ): Promise<{ ok: boolean; reused?: boolean; replay?: string; error?: string }> {
     this.ptyConnectStartTime = performance.now();
     const { taskId, cwd, providerId, shell, env, initialSize, autoApprove, initialPrompt } =
       this.options;
@@ -1,4 +1,6 @@
 import type { ProviderId } from '@shared/providers/registry';
+import type { WinnerStrategy } from '@shared/variants';
+import type { LinkedIssue } from '@shared/issues';
 
 /** Per-agent run configuration for task creation */
 export interface AgentRun {
@@ -20,6 +22,10 @@ export interface TaskMetadata {
   autoApprove?: boolean | null;
   /** Set to true after the initial injection (prompt/issue) has been sent to the agent */
   initialInjectionSent?: boolean | null;
+  /** Issue the task works on; its tracker is updated when the task's PR is opened or merged */
+  linkedIssue?: LinkedIssue | null;
+  /** Task whose agent created this one through the Valkyr MCP server */
+  parentTaskId?: string | null;
   // When present, this task is a multi-agent task orchestrating multiple worktrees
   multiAgent?: {
     enabled: boolean;
@@ -38,6 +44,14 @@ export interface TaskMetadata {
       worktreeId: string; // WorktreeService id (stable hash of path)
     }>;
     selectedAgent?: ProviderId | null;
+    // Base ref the variant worktrees were created from, when one was chosen
+    baseRef?: string | null;
+    // Set once a variant has been picked and the others cleaned up
+    winner?: {
+      variantId: string;
+      strategy: WinnerStrategy;
+      pickedAt: string;
+    } | null;
   } | null;
   // When present, this task is for a multi-repo project with composite worktree
   multiRepo?: {
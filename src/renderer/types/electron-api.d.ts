@@ -135,6 +135,9 @@ export type AcpUpdateEvent =
   | {
       type: 'session_error';
       error: string;
+      /** Set for recoverable errors that don't end the session. */
+      code?: 'path_blocked';
+      detail?: AcpPathBlockedDetail;
     }
   | {
       type: 'prompt_error';
@@ -143,8 +146,64 @@ export type AcpUpdateEvent =
   | {
       type: 'prompt_complete';
       stopReason: string;
+    }
+  | {
+      type: 'queue_update';
+      queue: AcpQueuedPrompt[];
+    }
+  | {
+      type: 'prompt_dequeued';
+      item: AcpQueuedPrompt;
+    }
+  | {
+      type: 'write_proposed';
+      write: AcpProposedWrite;
+    }
+  | {
+      type: 'write_resolved';
+      writeId: string;
+      accepted: boolean;
+    }
+  | {
+      type: 'checkpoint_created';
+      checkpoint: AcpCheckpoint;
+    }
+  | {
+      type: 'budget_exceeded';
+      breach: import('@shared/usage').UsageBudgetBreach;
     };
 
+/** Worktree snapshot taken when the turn started by `messageId` was dispatched. */
+export type AcpCheckpoint = {
+  id: string;
+  messageId: string;
+  createdAt: string;
+};
+
+/** An agent file write held for review before it reaches the worktree. */
+export type AcpProposedWrite = {
+  id: string;
+  /** Path relative to the session worktree. */
+  path: string;
+  /** Unified diff from the current file contents to the proposed contents. */
+  diff: string;
+  isNewFile: boolean;
+  proposedAt: string;
+};
+
+export type AcpPathBlockedDetail = {
+  operation: 'read' | 'write' | 'terminal';
+  path: string;
+  resolvedPath: string;
+};
+
+export type AcpQueuedPrompt = {
+  id: string;
+  message: string;
+  files?: Array<{ url: string; mediaType: string; filename?: string }>;
+  queuedAt: string;
+};
+
 type ProjectSettingsPayload = {
   projectId: string;
   name: string;
@@ -152,6 +211,7 @@ type ProjectSettingsPayload = {
   gitRemote?: string;
   gitBranch?: string;
   baseRef?: string;
+  mergeStrategy?: import('@shared/merge').MergeStrategy | null;
 };
 
 // Update Project feature types
@@ -288,6 +348,7 @@ declare global {
               enabled: boolean;
               installHintsDismissed?: Record<string, boolean>;
             };
+            valkyr?: import('@shared/mcp/valkyr').ValkyrMcpSettings;
           };
           defaultProvider?: string;
           tasks?: {
@@ -359,6 +420,19 @@ declare global {
           providerOverrides?: Partial<
             Record<string, { defaultChatMode?: 'acp' | 'cli'; cliCommand?: string }>
           >;
+          acpSandbox?: {
+            mode: 'provider' | 'always' | 'off';
+            allowNetwork: boolean;
+          };
+          approvalPolicy?: {
+            enabled: boolean;
+            rules: import('@shared/approvalPolicy').ApprovalRule[];
+          };
+          usageBudgets?: import('@shared/usage').UsageBudgets;
+          worktreePool?: import('@shared/worktreePool').WorktreePoolConfig;
+          issueUpdates?: import('@shared/issues').IssueUpdateSettings;
+          customAgents?: import('@shared/providers/customAgents').CustomAgentConfig[];
+          skillSources?: import('@shared/skills/types').SkillSource[];
         };
         error?: string;
       }>;
@@ -373,6 +447,7 @@ declare global {
               enabled?: boolean;
               installHintsDismissed?: Record<string, boolean>;
             };
+            valkyr?: Partial<import('@shared/mcp/valkyr').ValkyrMcpSettings>;
           };
           defaultProvider?: string;
           tasks?: {
@@ -444,6 +519,19 @@ declare global {
           providerOverrides?: Partial<
             Record<string, { defaultChatMode?: 'acp' | 'cli'; cliCommand?: string }>
           >;
+          acpSandbox?: {
+            mode?: 'provider' | 'always' | 'off';
+            allowNetwork?: boolean;
+          };
+          approvalPolicy?: {
+            enabled?: boolean;
+            rules?: import('@shared/approvalPolicy').ApprovalRule[];
+          };
+          usageBudgets?: Partial<import('@shared/usage').UsageBudgets>;
+          worktreePool?: Partial<import('@shared/worktreePool').WorktreePoolConfig>;
+          issueUpdates?: Partial<import('@shared/issues').IssueUpdateSettings>;
+          customAgents?: import('@shared/providers/customAgents').CustomAgentConfig[];
+          skillSources?: import('@shared/skills/types').SkillSource[];
         }>
       ) => Promise<{
         success: boolean;
@@ -457,6 +545,7 @@ declare global {
               enabled: boolean;
               installHintsDismissed?: Record<string, boolean>;
             };
+            valkyr?: import('@shared/mcp/valkyr').ValkyrMcpSettings;
           };
           defaultProvider?: string;
           tasks?: {
@@ -528,6 +617,19 @@ declare global {
           providerOverrides?: Partial<
             Record<string, { defaultChatMode?: 'acp' | 'cli'; cliCommand?: string }>
           >;
+          acpSandbox?: {
+            mode: 'provider' | 'always' | 'off';
+            allowNetwork: boolean;
+          };
+          approvalPolicy?: {
+            enabled: boolean;
+            rules: import('@shared/approvalPolicy').ApprovalRule[];
+          };
+          usageBudgets?: import('@shared/usage').UsageBudgets;
+          worktreePool?: import('@shared/worktreePool').WorktreePoolConfig;
+          issueUpdates?: import('@shared/issues').IssueUpdateSettings;
+          customAgents?: import('@shared/providers/customAgents').CustomAgentConfig[];
+          skillSources?: import('@shared/skills/types').SkillSource[];
         };
         error?: string;
       }>;
@@ -581,7 +683,7 @@ declare global {
         autoApprove?: boolean;
         initialPrompt?: string;
         skipResume?: boolean;
-      }) => Promise<{ ok: boolean; error?: string }>;
+      }) => Promise<{ ok: boolean; reused?: boolean; replay?: string; error?: string }>;
       ptyStartDirect: (opts: {
         id: string;
         providerId: string;
@@ -593,7 +695,7 @@ declare global {
         initialPrompt?: string;
         env?: Record<string, string>;
         resume?: boolean;
-      }) => Promise<{ ok: boolean; reused?: boolean; error?: string }>;
+      }) => Promise<{ ok: boolean; reused?: boolean; replay?: string; error?: string }>;
       ptyInput: (args: { id: string; data: string }) => void;
       ptyResize: (args: { id: string; cols: number; rows?: number }) => void;
       ptyKill: (id: string) => void;
@@ -670,6 +772,25 @@ declare global {
         projectPath: string;
         worktreeId: string;
       }) => Promise<{ success: boolean; error?: string }>;
+      worktreeCompareVariants: (args: {
+        projectPath: string;
+        variants: VariantRef[];
+        baseRef?: string;
+      }) => Promise<{ success: boolean; error?: string } & Partial<VariantComparison>>;
+      worktreeVariantFileDiff: (args: {
+        variantPath: string;
+        baseSha: string;
+        filePath: string;
+      }) => Promise<{ success: boolean; diff?: string; error?: string }>;
+      worktreePickWinner: (args: {
+        projectPath: string;
+        projectId: string;
+        taskName: string;
+        baseSha: string;
+        winner: VariantRef;
+        losers: VariantRef[];
+        strategy: WinnerStrategy;
+      }) => Promise<{ success: boolean; error?: string } & Partial<PickWinnerResult>>;
       worktreeGet: (args: {
         worktreeId: string;
       }) => Promise<{ success: boolean; worktree?: any; error?: string }>;
@@ -702,6 +823,9 @@ declare global {
       worktreeRemoveReserve: (args: {
         projectId: string;
       }) => Promise<{ success: boolean; error?: string }>;
+      worktreePoolMetrics: (args?: {
+        projectId?: string;
+      }) => Promise<{ success: boolean; metrics?: WorktreePoolMetrics[]; error?: string }>;
 
       // Multi-repo worktree management
       worktreeCreateMultiRepo: (args: {
@@ -741,7 +865,7 @@ declare global {
       // Lifecycle scripts
       lifecycleGetScript: (args: {
         projectPath: string;
-        phase: 'setup' | 'run' | 'teardown';
+        phase: 'setup' | 'run' | 'teardown' | 'verify';
       }) => Promise<{ success: boolean; script?: string | null; error?: string }>;
       lifecycleSetup: (args: {
         taskId: string;
@@ -756,11 +880,30 @@ declare global {
       lifecycleRunStop: (args: {
         taskId: string;
       }) => Promise<{ success: boolean; skipped?: boolean; error?: string }>;
+      lifecycleServiceRestart: (args: {
+        taskId: string;
+        service: string;
+      }) => Promise<{ success: boolean; error?: string }>;
       lifecycleTeardown: (args: {
         taskId: string;
         taskPath: string;
         projectPath: string;
       }) => Promise<{ success: boolean; skipped?: boolean; error?: string }>;
+      lifecycleVerify: (args: {
+        taskId: string;
+        taskPath: string;
+        projectPath: string;
+      }) => Promise<{ success: boolean; skipped?: boolean; error?: string }>;
+      lifecycleVerifyStatus: (args: {
+        taskId: string;
+        taskPath: string;
+        projectPath: string;
+      }) => Promise<{
+        success: boolean;
+        run?: import('@shared/verify').VerifyRun | null;
+        gate?: import('@shared/verify').VerifyGate;
+        error?: string;
+      }>;
       lifecycleGetState: (args: { taskId: string }) => Promise<{
         success: boolean;
         state?: {
@@ -787,6 +930,25 @@ declare global {
             exitCode?: number | null;
             error?: string | null;
           };
+          verify: {
+            status: 'idle' | 'running' | 'succeeded' | 'failed';
+            startedAt?: string;
+            finishedAt?: string;
+            exitCode?: number | null;
+            error?: string | null;
+          };
+          services?: Array<{
+            name: string;
+            status: 'waiting' | 'starting' | 'ready' | 'stopped' | 'exited' | 'failed';
+            port: number;
+            pid?: number | null;
+            startedAt?: string;
+            readyAt?: string;
+            finishedAt?: string;
+            exitCode?: number | null;
+            error?: string | null;
+            restarts: number;
+          }>;
         };
         error?: string;
       }>;
@@ -806,7 +968,11 @@ declare global {
         settings?: ProjectSettingsPayload;
         error?: string;
       }>;
-      updateProjectSettings: (args: { projectId: string; baseRef: string }) => Promise<{
+      updateProjectSettings: (args: {
+        projectId: string;
+        baseRef?: string;
+        mergeStrategy?: import('@shared/merge').MergeStrategy | null;
+      }) => Promise<{
         success: boolean;
         settings?: ProjectSettingsPayload;
         error?: string;
@@ -939,6 +1105,18 @@ declare global {
         action?: 'unstaged' | 'reverted';
         error?: string;
       }>;
+      getFileHunks: (args: { taskPath: string; filePath: string; repoCwd?: string }) => Promise<{
+        success: boolean;
+        hunks?: import('@shared/diffHunks').FileHunks;
+        error?: string;
+      }>;
+      applyHunks: (args: {
+        taskPath: string;
+        filePath: string;
+        repoCwd?: string;
+        action: import('@shared/diffHunks').HunkAction;
+        selections: import('@shared/diffHunks').HunkSelection[];
+      }) => Promise<{ success: boolean; error?: string }>;
       gitCommitAndPush: (args: {
         taskPath: string;
         commitMessage?: string;
@@ -949,6 +1127,8 @@ declare global {
         branch?: string;
         output?: string;
         error?: string;
+        verifyGate?: import('@shared/verify').VerifyGate;
+        verifyWarning?: string;
       }>;
       gitPush: (args: { repoPath: string }) => Promise<{
         success: boolean;
@@ -975,13 +1155,65 @@ declare global {
         url?: string;
         output?: string;
         error?: string;
+        verifyGate?: import('@shared/verify').VerifyGate;
+        verifyWarning?: string;
       }>;
-      mergeToMain: (args: { taskPath: string }) => Promise<{
+      mergePreview: (args: { taskPath: string }) => Promise<{
         success: boolean;
-        output?: string;
-        prUrl?: string;
+        preview?: import('@shared/merge').MergePreview;
         error?: string;
       }>;
+      mergeToMain: (
+        args: import('@shared/merge').MergeRequest
+      ) => Promise<import('@shared/merge').MergeResult>;
+      getBaseSyncStatus: (args: { taskPath: string }) => Promise<{
+        success: boolean;
+        status?: import('@shared/conflicts').BaseSyncStatus;
+        error?: string;
+      }>;
+      updateFromBase: (args: {
+        taskPath: string;
+        strategy: import('@shared/conflicts').UpdateStrategy;
+      }) => Promise<import('@shared/conflicts').UpdateFromBaseResult>;
+      getConflictFile: (args: { taskPath: string; filePath: string }) => Promise<{
+        success: boolean;
+        file?: import('@shared/conflicts').ConflictFile;
+        error?: string;
+      }>;
+      resolveConflict: (args: {
+        taskPath: string;
+        filePath: string;
+        content: string | null;
+      }) => Promise<{ success: boolean; error?: string }>;
+      continueUpdate: (args: {
+        taskPath: string;
+      }) => Promise<import('@shared/conflicts').UpdateFromBaseResult>;
+      abortUpdate: (args: { taskPath: string }) => Promise<{ success: boolean; error?: string }>;
+      getGitLog: (args: { taskPath: string; limit?: number }) => Promise<{
+        success: boolean;
+        log?: import('@shared/gitHistory').CommitLog;
+        error?: string;
+      }>;
+      getCommit: (args: { taskPath: string; sha: string }) => Promise<{
+        success: boolean;
+        commit?: import('@shared/gitHistory').CommitDetail;
+        error?: string;
+      }>;
+      getCommitFileDiff: (args: {
+        taskPath: string;
+        sha: string;
+        filePath: string;
+        oldPath?: string;
+      }) => Promise<{ success: boolean; diff?: string; error?: string }>;
+      getBlame: (args: { taskPath: string; filePath: string }) => Promise<{
+        success: boolean;
+        blame?: import('@shared/gitHistory').FileBlame;
+        error?: string;
+      }>;
+      runHistoryAction: (args: {
+        taskPath: string;
+        action: import('@shared/gitHistory').HistoryAction;
+      }) => Promise<{ success: boolean; error?: string }>;
       getPrStatus: (args: { taskPath: string }) => Promise<{
         success: boolean;
         pr?: {
@@ -1297,6 +1529,20 @@ declare global {
         error?: string;
       }>;
       githubLogout: () => Promise<void>;
+      // GitHub issues
+      githubIssuesList?: (
+        projectPath: string,
+        limit?: number
+      ) => Promise<{ success: boolean; issues?: Issue[]; error?: string }>;
+      githubIssuesSearch?: (
+        projectPath: string,
+        searchTerm: string,
+        limit?: number
+      ) => Promise<{ success: boolean; issues?: Issue[]; error?: string }>;
+      githubIssueGet?: (
+        projectPath: string,
+        number: number
+      ) => Promise<{ success: boolean; issue?: Issue; error?: string }>;
       // Linear integration
       linearCheckConnection?: () => Promise<{
         connected: boolean;
@@ -1340,13 +1586,34 @@ declare global {
       }>;
       jiraInitialFetch?: (limit?: number) => Promise<{
         success: boolean;
-        issues?: any[];
+        issues?: Issue[];
         error?: string;
       }>;
       jiraSearchIssues?: (
         searchTerm: string,
         limit?: number
-      ) => Promise<{ success: boolean; issues?: any[]; error?: string }>;
+      ) => Promise<{ success: boolean; issues?: Issue[]; error?: string }>;
+      // Issue trackers
+      issuesGetProviders: (args: {
+        projectPath: string;
+      }) => Promise<{ success: boolean; providers?: IssueProviderId[]; error?: string }>;
+      issuesSearch: (args: {
+        provider: IssueProviderId;
+        projectPath: string;
+        searchTerm?: string;
+        limit?: number;
+      }) => Promise<{ success: boolean; issues?: Issue[]; error?: string }>;
+      issuesGet: (args: {
+        provider: IssueProviderId;
+        projectPath: string;
+        key: string;
+      }) => Promise<{ success: boolean; issue?: Issue; error?: string }>;
+      issuesLink: (args: {
+        taskId: string;
+        provider: IssueProviderId;
+        projectPath: string;
+        key: string;
+      }) => Promise<{ success: boolean; issue?: Issue; error?: string }>;
       getProviderStatuses?: (opts?: {
         refresh?: boolean;
         providers?: string[];
@@ -1362,6 +1629,11 @@ declare global {
       onProviderStatusUpdated?: (
         listener: (data: { providerId: string; status: any }) => void
       ) => () => void;
+      listCustomAgents: (args?: { projectPath?: string }) => Promise<{
+        success: boolean;
+        agents?: import('@shared/providers/registry').ProviderDefinition[];
+        error?: string;
+      }>;
 
       // Database operations
       getProjects: () => Promise<any[]>;
@@ -1767,6 +2039,22 @@ declare global {
         data?: AgentMcpDiscovery[];
         error?: string;
       }>;
+      mcpTestServer: (server: import('@shared/mcp/types').McpServerConfig) => Promise<{
+        success: boolean;
+        data?: import('@shared/mcp/types').McpServerHealth;
+        error?: string;
+      }>;
+      mcpGetTaskProgress: () => Promise<{
+        success: boolean;
+        data?: import('@shared/mcp/valkyr').TaskProgress[];
+        error?: string;
+      }>;
+      onTaskProgress: (
+        listener: (data: import('@shared/mcp/valkyr').TaskProgress) => void
+      ) => () => void;
+      onTaskSpawned: (
+        listener: (data: { projectId: string; taskId: string }) => void
+      ) => () => void;
       mcpSearchRegistry: (args: { query: string; limit?: number; cursor?: string }) => Promise<{
         success: boolean;
         data?: {
@@ -1796,6 +2084,21 @@ declare global {
         success: boolean;
         error?: string;
       }>;
+      skillsUpdate: (args: { skillId: string }) => Promise<{
+        success: boolean;
+        data?: import('@shared/skills/types').CatalogSkill;
+        error?: string;
+      }>;
+      skillsCheckUpdates: () => Promise<{
+        success: boolean;
+        data?: import('@shared/skills/types').SkillUpdate[];
+        error?: string;
+      }>;
+      skillsGetProjectSkills: (args: { projectPath: string }) => Promise<{
+        success: boolean;
+        data?: import('@shared/skills/types').CatalogSkill[];
+        error?: string;
+      }>;
       skillsGetDetail: (args: { skillId: string }) => Promise<{
         success: boolean;
         data?: import('@shared/skills/types').CatalogSkill;
@@ -1864,6 +2167,17 @@ declare global {
       acpRegistryUninstall: (args: {
         agentId: string;
       }) => Promise<{ success: boolean; error?: string }>;
+      acpRegistryCheckUpdates: () => Promise<{
+        success: boolean;
+        data?: import('@shared/acpRegistry').AcpAgentUpdate[];
+        error?: string;
+      }>;
+      acpRegistryUpgrade: (args: {
+        agentId: string;
+      }) => Promise<{ success: boolean; error?: string }>;
+      acpRegistryRollback: (args: {
+        agentId: string;
+      }) => Promise<{ success: boolean; error?: string }>;
 
       // ACP (Agent Communication Protocol) session management
       acpStart: (args: {
@@ -1887,7 +2201,41 @@ declare global {
         sessionKey: string;
         message: string;
         files?: Array<{ url: string; mediaType: string; filename?: string }>;
-      }) => Promise<{ success: boolean; error?: string }>;
+        messageId?: string;
+      }) => Promise<{
+        success: boolean;
+        queued?: boolean;
+        queueItemId?: string;
+        error?: string;
+      }>;
+      acpQueuePrompt: (args: {
+        sessionKey: string;
+        message: string;
+        files?: Array<{ url: string; mediaType: string; filename?: string }>;
+        position?: number;
+      }) => Promise<{
+        success: boolean;
+        queued?: boolean;
+        queueItemId?: string;
+        error?: string;
+      }>;
+      acpListQueue: (args: {
+        sessionKey: string;
+      }) => Promise<{ success: boolean; queue?: AcpQueuedPrompt[]; error?: string }>;
+      acpReorderQueue: (args: {
+        sessionKey: string;
+        itemId: string;
+        toIndex: number;
+      }) => Promise<{ success: boolean; queue?: AcpQueuedPrompt[]; error?: string }>;
+      acpEditQueuedPrompt: (args: {
+        sessionKey: string;
+        itemId: string;
+        message: string;
+      }) => Promise<{ success: boolean; queue?: AcpQueuedPrompt[]; error?: string }>;
+      acpRemoveQueuedPrompt: (args: {
+        sessionKey: string;
+        itemId: string;
+      }) => Promise<{ success: boolean; queue?: AcpQueuedPrompt[]; error?: string }>;
       acpCancel: (args: { sessionKey: string }) => Promise<{ success: boolean; error?: string }>;
       acpKill: (args: { sessionKey: string }) => Promise<{ success: boolean; error?: string }>;
       acpDetach: (args: { sessionKey: string }) => Promise<{ success: boolean; error?: string }>;
@@ -1896,6 +2244,29 @@ declare global {
         toolCallId: string;
         optionId: string | null;
       }) => Promise<{ success: boolean; error?: string }>;
+      acpListCheckpoints: (args: { conversationId: string }) => Promise<{
+        success: boolean;
+        checkpoints?: AcpCheckpoint[];
+        error?: string;
+      }>;
+      acpRestoreCheckpoint: (args: {
+        checkpointId: string;
+        sessionKey?: string;
+      }) => Promise<{ success: boolean; error?: string }>;
+      acpSetReviewWrites: (args: {
+        sessionKey: string;
+        enabled: boolean;
+      }) => Promise<{ success: boolean; error?: string }>;
+      acpResolveWrite: (args: {
+        sessionKey: string;
+        writeId: string;
+        accept: boolean;
+      }) => Promise<{ success: boolean; error?: string }>;
+      acpListPermissionAudit: (args: { taskId: string }) => Promise<{
+        success: boolean;
+        entries?: import('@shared/approvalPolicy').ApprovalAuditEntry[];
+        error?: string;
+      }>;
       acpSetMode: (args: {
         sessionKey: string;
         mode: string;
@@ -1925,6 +2296,14 @@ declare global {
         data?: ClaudeUsageLimits | null;
         error?: string;
       }>;
+      acpGetUsageSummary: (args: {
+        groupBy: import('@shared/usage').UsageGroupBy;
+        since?: string;
+      }) => Promise<{
+        success: boolean;
+        rows?: import('@shared/usage').UsageSummaryRow[];
+        error?: string;
+      }>;
       onAcpUpdate: (sessionKey: string, listener: (event: AcpUpdateEvent) => void) => () => void;
       onAcpStatus: (sessionKey: string, listener: (status: AcpSessionStatus) => void) => () => void;
 
@@ -1975,7 +2354,7 @@ export interface ElectronAPI {
     autoApprove?: boolean;
     initialPrompt?: string;
     skipResume?: boolean;
-  }) => Promise<{ ok: boolean; error?: string }>;
+  }) => Promise<{ ok: boolean; reused?: boolean; replay?: string; error?: string }>;
   ptyStartDirect: (opts: {
     id: string;
     providerId: string;
@@ -1986,7 +2365,7 @@ export interface ElectronAPI {
     initialPrompt?: string;
     env?: Record<string, string>;
     resume?: boolean;
-  }) => Promise<{ ok: boolean; reused?: boolean; error?: string }>;
+  }) => Promise<{ ok: boolean; reused?: boolean; replay?: string; error?: string }>;
   ptyInput: (args: { id: string; data: string }) => void;
   ptyResize: (args: { id: string; cols: number; rows?: number }) => void;
   ptyKill: (id: string) => void;
@@ -2031,6 +2410,25 @@ export interface ElectronAPI {
     projectPath: string;
     worktreeId: string;
   }) => Promise<{ success: boolean; error?: string }>;
+  worktreeCompareVariants: (args: {
+    projectPath: string;
+    variants: VariantRef[];
+    baseRef?: string;
+  }) => Promise<{ success: boolean; error?: string } & Partial<VariantComparison>>;
+  worktreeVariantFileDiff: (args: {
+    variantPath: string;
+    baseSha: string;
+    filePath: string;
+  }) => Promise<{ success: boolean; diff?: string; error?: string }>;
+  worktreePickWinner: (args: {
+    projectPath: string;
+    projectId: string;
+    taskName: string;
+    baseSha: string;
+    winner: VariantRef;
+    losers: VariantRef[];
+    strategy: WinnerStrategy;
+  }) => Promise<{ success: boolean; error?: string } & Partial<PickWinnerResult>>;
   worktreeGet: (args: {
     worktreeId: string;
   }) => Promise<{ success: boolean; worktree?: any; error?: string }>;
@@ -2063,6 +2461,9 @@ export interface ElectronAPI {
   worktreeRemoveReserve: (args: {
     projectId: string;
   }) => Promise<{ success: boolean; error?: string }>;
+  worktreePoolMetrics: (args?: {
+    projectId?: string;
+  }) => Promise<{ success: boolean; metrics?: WorktreePoolMetrics[]; error?: string }>;
 
   // Multi-repo worktree management
   worktreeCreateMultiRepo: (args: {
@@ -2102,7 +2503,7 @@ export interface ElectronAPI {
   // Lifecycle scripts
   lifecycleGetScript: (args: {
     projectPath: string;
-    phase: 'setup' | 'run' | 'teardown';
+    phase: 'setup' | 'run' | 'teardown' | 'verify';
   }) => Promise<{ success: boolean; script?: string | null; error?: string }>;
   lifecycleSetup: (args: {
     taskId: string;
@@ -2117,11 +2518,30 @@ export interface ElectronAPI {
   lifecycleRunStop: (args: {
     taskId: string;
   }) => Promise<{ success: boolean; skipped?: boolean; error?: string }>;
+  lifecycleServiceRestart: (args: {
+    taskId: string;
+    service: string;
+  }) => Promise<{ success: boolean; error?: string }>;
   lifecycleTeardown: (args: {
     taskId: string;
     taskPath: string;
     projectPath: string;
   }) => Promise<{ success: boolean; skipped?: boolean; error?: string }>;
+  lifecycleVerify: (args: {
+    taskId: string;
+    taskPath: string;
+    projectPath: string;
+  }) => Promise<{ success: boolean; skipped?: boolean; error?: string }>;
+  lifecycleVerifyStatus: (args: {
+    taskId: string;
+    taskPath: string;
+    projectPath: string;
+  }) => Promise<{
+    success: boolean;
+    run?: import('@shared/verify').VerifyRun | null;
+    gate?: import('@shared/verify').VerifyGate;
+    error?: string;
+  }>;
   lifecycleGetState: (args: { taskId: string }) => Promise<{
     success: boolean;
     state?: {
@@ -2148,6 +2568,25 @@ export interface ElectronAPI {
         exitCode?: number | null;
         error?: string | null;
       };
+      verify: {
+        status: 'idle' | 'running' | 'succeeded' | 'failed';
+        startedAt?: string;
+        finishedAt?: string;
+        exitCode?: number | null;
+        error?: string | null;
+      };
+      services?: Array<{
+        name: string;
+        status: 'waiting' | 'starting' | 'ready' | 'stopped' | 'exited' | 'failed';
+        port: number;
+        pid?: number | null;
+        startedAt?: string;
+        readyAt?: string;
+        finishedAt?: string;
+        exitCode?: number | null;
+        error?: string | null;
+        restarts: number;
+      }>;
     };
     error?: string;
   }>;
@@ -2165,7 +2604,11 @@ export interface ElectronAPI {
     settings?: ProjectSettingsPayload;
     error?: string;
   }>;
-  updateProjectSettings: (args: { projectId: string; baseRef: string }) => Promise<{
+  updateProjectSettings: (args: {
+    projectId: string;
+    baseRef?: string;
+    mergeStrategy?: import('@shared/merge').MergeStrategy | null;
+  }) => Promise<{
     success: boolean;
     settings?: ProjectSettingsPayload;
     error?: string;
@@ -2221,13 +2664,65 @@ export interface ElectronAPI {
     url?: string;
     output?: string;
     error?: string;
+    verifyGate?: import('@shared/verify').VerifyGate;
+    verifyWarning?: string;
   }>;
-  mergeToMain: (args: { taskPath: string }) => Promise<{
+  mergePreview: (args: { taskPath: string }) => Promise<{
     success: boolean;
-    output?: string;
-    prUrl?: string;
+    preview?: import('@shared/merge').MergePreview;
+    error?: string;
+  }>;
+  mergeToMain: (
+    args: import('@shared/merge').MergeRequest
+  ) => Promise<import('@shared/merge').MergeResult>;
+  getBaseSyncStatus: (args: { taskPath: string }) => Promise<{
+    success: boolean;
+    status?: import('@shared/conflicts').BaseSyncStatus;
+    error?: string;
+  }>;
+  updateFromBase: (args: {
+    taskPath: string;
+    strategy: import('@shared/conflicts').UpdateStrategy;
+  }) => Promise<import('@shared/conflicts').UpdateFromBaseResult>;
+  getConflictFile: (args: { taskPath: string; filePath: string }) => Promise<{
+    success: boolean;
+    file?: import('@shared/conflicts').ConflictFile;
+    error?: string;
+  }>;
+  resolveConflict: (args: {
+    taskPath: string;
+    filePath: string;
+    content: string | null;
+  }) => Promise<{ success: boolean; error?: string }>;
+  continueUpdate: (args: {
+    taskPath: string;
+  }) => Promise<import('@shared/conflicts').UpdateFromBaseResult>;
+  abortUpdate: (args: { taskPath: string }) => Promise<{ success: boolean; error?: string }>;
+  getGitLog: (args: { taskPath: string; limit?: number }) => Promise<{
+    success: boolean;
+    log?: import('@shared/gitHistory').CommitLog;
     error?: string;
   }>;
+  getCommit: (args: { taskPath: string; sha: string }) => Promise<{
+    success: boolean;
+    commit?: import('@shared/gitHistory').CommitDetail;
+    error?: string;
+  }>;
+  getCommitFileDiff: (args: {
+    taskPath: string;
+    sha: string;
+    filePath: string;
+    oldPath?: string;
+  }) => Promise<{ success: boolean; diff?: string; error?: string }>;
+  getBlame: (args: { taskPath: string; filePath: string }) => Promise<{
+    success: boolean;
+    blame?: import('@shared/gitHistory').FileBlame;
+    error?: string;
+  }>;
+  runHistoryAction: (args: {
+    taskPath: string;
+    action: import('@shared/gitHistory').HistoryAction;
+  }) => Promise<{ success: boolean; error?: string }>;
   connectToGitHub: (projectPath: string) => Promise<{
     success: boolean;
     repository?: string;
@@ -2249,6 +2744,11 @@ export interface ElectronAPI {
   onProviderStatusUpdated?: (
     listener: (data: { providerId: string; status: any }) => void
   ) => () => void;
+  listCustomAgents: (args?: { projectPath?: string }) => Promise<{
+    success: boolean;
+    agents?: import('@shared/providers/registry').ProviderDefinition[];
+    error?: string;
+  }>;
   // Telemetry
   captureTelemetry: (
     event: string,
@@ -2396,16 +2896,57 @@ export interface ElectronAPI {
   githubIssuesList?: (
     projectPath: string,
     limit?: number
-  ) => Promise<{ success: boolean; issues?: any[]; error?: string }>;
+  ) => Promise<{ success: boolean; issues?: Issue[]; error?: string }>;
   githubIssuesSearch?: (
     projectPath: string,
     searchTerm: string,
     limit?: number
-  ) => Promise<{ success: boolean; issues?: any[]; error?: string }>;
+  ) => Promise<{ success: boolean; issues?: Issue[]; error?: string }>;
   githubIssueGet?: (
     projectPath: string,
     number: number
-  ) => Promise<{ success: boolean; issue?: any; error?: string }>;
+  ) => Promise<{ success: boolean; issue?: Issue; error?: string }>;
+  // Issue trackers
+  issuesGetProviders: (args: {
+    projectPath: string;
+  }) => Promise<{ success: boolean; providers?: IssueProviderId[]; error?: string }>;
+  issuesSearch: (args: {
+    provider: IssueProviderId;
+    projectPath: string;
+    searchTerm?: string;
+    limit?: number;
+  }) => Promise<{ success: boolean; issues?: Issue[]; error?: string }>;
+  issuesGet: (args: {
+    provider: IssueProviderId;
+    projectPath: string;
+    key: string;
+  }) => Promise<{ success: boolean; issue?: Issue; error?: string }>;
+  issuesLink: (args: {
+    taskId: string;
+    provider: IssueProviderId;
+    projectPath: string;
+    key: string;
+  }) => Promise<{ success: boolean; issue?: Issue; error?: string }>;
+  // Jira integration
+  jiraSaveCredentials?: (args: {
+    siteUrl: string;
+    email: string;
+    token: string;
+  }) => Promise<{ success: boolean; displayName?: string; error?: string }>;
+  jiraClearCredentials?: () => Promise<{ success: boolean; error?: string }>;
+  jiraCheckConnection?: () => Promise<{
+    connected: boolean;
+    displayName?: string;
+    siteUrl?: string;
+    error?: string;
+  }>;
+  jiraInitialFetch?: (
+    limit?: number
+  ) => Promise<{ success: boolean; issues?: Issue[]; error?: string }>;
+  jiraSearchIssues?: (
+    searchTerm: string,
+    limit?: number
+  ) => Promise<{ success: boolean; issues?: Issue[]; error?: string }>;
 
   // Linear integration
   linearCheckConnection?: () => Promise<{
@@ -2695,6 +3236,20 @@ export interface ElectronAPI {
     data?: AgentMcpDiscovery[];
     error?: string;
   }>;
+  mcpTestServer: (server: import('@shared/mcp/types').McpServerConfig) => Promise<{
+    success: boolean;
+    data?: import('@shared/mcp/types').McpServerHealth;
+    error?: string;
+  }>;
+  mcpGetTaskProgress: () => Promise<{
+    success: boolean;
+    data?: import('@shared/mcp/valkyr').TaskProgress[];
+    error?: string;
+  }>;
+  onTaskProgress: (
+    listener: (data: import('@shared/mcp/valkyr').TaskProgress) => void
+  ) => () => void;
+  onTaskSpawned: (listener: (data: { projectId: string; taskId: string }) => void) => () => void;
   mcpSearchRegistry: (args: { query: string; limit?: number; cursor?: string }) => Promise<{
     success: boolean;
     data?: {
@@ -2724,6 +3279,21 @@ export interface ElectronAPI {
     success: boolean;
     error?: string;
   }>;
+  skillsUpdate: (args: { skillId: string }) => Promise<{
+    success: boolean;
+    data?: import('@shared/skills/types').CatalogSkill;
+    error?: string;
+  }>;
+  skillsCheckUpdates: () => Promise<{
+    success: boolean;
+    data?: import('@shared/skills/types').SkillUpdate[];
+    error?: string;
+  }>;
+  skillsGetProjectSkills: (args: { projectPath: string }) => Promise<{
+    success: boolean;
+    data?: import('@shared/skills/types').CatalogSkill[];
+    error?: string;
+  }>;
   skillsGetDetail: (args: { skillId: string }) => Promise<{
     success: boolean;
     data?: import('@shared/skills/types').CatalogSkill;
@@ -2792,6 +3362,13 @@ export interface ElectronAPI {
   acpRegistryUninstall: (args: {
     agentId: string;
   }) => Promise<{ success: boolean; error?: string }>;
+  acpRegistryCheckUpdates: () => Promise<{
+    success: boolean;
+    data?: import('@shared/acpRegistry').AcpAgentUpdate[];
+    error?: string;
+  }>;
+  acpRegistryUpgrade: (args: { agentId: string }) => Promise<{ success: boolean; error?: string }>;
+  acpRegistryRollback: (args: { agentId: string }) => Promise<{ success: boolean; error?: string }>;
 
   // ACP (Agent Communication Protocol) session management
   acpStart: (args: {
@@ -2811,10 +3388,40 @@ export interface ElectronAPI {
     resumed?: boolean;
     error?: string;
   }>;
-  acpPrompt: (args: {
+  acpPrompt: (args: { sessionKey: string; message: string; messageId?: string }) => Promise<{
+    success: boolean;
+    queued?: boolean;
+    queueItemId?: string;
+    error?: string;
+  }>;
+  acpQueuePrompt: (args: {
     sessionKey: string;
     message: string;
-  }) => Promise<{ success: boolean; error?: string }>;
+    files?: Array<{ url: string; mediaType: string; filename?: string }>;
+    position?: number;
+  }) => Promise<{
+    success: boolean;
+    queued?: boolean;
+    queueItemId?: string;
+    error?: string;
+  }>;
+  acpListQueue: (args: {
+    sessionKey: string;
+  }) => Promise<{ success: boolean; queue?: AcpQueuedPrompt[]; error?: string }>;
+  acpReorderQueue: (args: {
+    sessionKey: string;
+    itemId: string;
+    toIndex: number;
+  }) => Promise<{ success: boolean; queue?: AcpQueuedPrompt[]; error?: string }>;
+  acpEditQueuedPrompt: (args: {
+    sessionKey: string;
+    itemId: string;
+    message: string;
+  }) => Promise<{ success: boolean; queue?: AcpQueuedPrompt[]; error?: string }>;
+  acpRemoveQueuedPrompt: (args: {
+    sessionKey: string;
+    itemId: string;
+  }) => Promise<{ success: boolean; queue?: AcpQueuedPrompt[]; error?: string }>;
   acpCancel: (args: { sessionKey: string }) => Promise<{ success: boolean; error?: string }>;
   acpKill: (args: { sessionKey: string }) => Promise<{ success: boolean; error?: string }>;
   acpDetach: (args: { sessionKey: string }) => Promise<{ success: boolean; error?: string }>;
@@ -2823,6 +3430,29 @@ export interface ElectronAPI {
     toolCallId: string;
     optionId: string | null;
   }) => Promise<{ success: boolean; error?: string }>;
+  acpListCheckpoints: (args: { conversationId: string }) => Promise<{
+    success: boolean;
+    checkpoints?: AcpCheckpoint[];
+    error?: string;
+  }>;
+  acpRestoreCheckpoint: (args: {
+    checkpointId: string;
+    sessionKey?: string;
+  }) => Promise<{ success: boolean; error?: string }>;
+  acpSetReviewWrites: (args: {
+    sessionKey: string;
+    enabled: boolean;
+  }) => Promise<{ success: boolean; error?: string }>;
+  acpResolveWrite: (args: {
+    sessionKey: string;
+    writeId: string;
+    accept: boolean;
+  }) => Promise<{ success: boolean; error?: string }>;
+  acpListPermissionAudit: (args: { taskId: string }) => Promise<{
+    success: boolean;
+    entries?: import('@shared/approvalPolicy').ApprovalAuditEntry[];
+    error?: string;
+  }>;
   acpSetMode: (args: {
     sessionKey: string;
     mode: string;
@@ -2852,6 +3482,14 @@ export interface ElectronAPI {
     data?: ClaudeUsageLimits | null;
     error?: string;
   }>;
+  acpGetUsageSummary: (args: {
+    groupBy: import('@shared/usage').UsageGroupBy;
+    since?: string;
+  }) => Promise<{
+    success: boolean;
+    rows?: import('@shared/usage').UsageSummaryRow[];
+    error?: string;
+  }>;
   onAcpUpdate: (sessionKey: string, listener: (event: AcpUpdateEvent) => void) => () => void;
   onAcpStatus: (sessionKey: string, listener: (status: AcpSessionStatus) => void) => () => void;
 
@@ -2869,3 +3507,11 @@ export interface ElectronAPI {
 }
 import type { TerminalSnapshotPayload } from '#types/terminalSnapshot';
 import type { OpenInAppId } from '#shared/openInApps';
+import type {
+  PickWinnerResult,
+  VariantComparison,
+  VariantRef,
+  WinnerStrategy,
+} from '#shared/variants';
+import type { WorktreePoolMetrics } from '#shared/worktreePool';
+import type { Issue, IssueProviderId } from '#shared/issues';
@@ -7,6 +7,7 @@ type ProjectSettingsPayload = {
   gitRemote?: string;
   gitBranch?: string;
   baseRef?: string;
+  mergeStrategy?: import('@shared/merge').MergeStrategy | null;
 };
 
 // Global type declarations for Electron API
@@ -27,7 +28,7 @@ declare global {
         autoApprove?: boolean;
         initialPrompt?: string;
         skipResume?: boolean;
-      }) => Promise<{ ok: boolean; error?: string }>;
+      }) => Promise<{ ok: boolean; reused?: boolean; replay?: string; error?: string }>;
       ptyStartDirect: (opts: {
         id: string;
         providerId: string;
@@ -39,7 +40,7 @@ declare global {
         initialPrompt?: string;
         env?: Record<string, string>;
         resume?: boolean;
-      }) => Promise<{ ok: boolean; reused?: boolean; error?: string }>;
+      }) => Promise<{ ok: boolean; reused?: boolean; replay?: string; error?: string }>;
       ptyInput: (args: { id: string; data: string }) => void;
       ptyResize: (args: { id: string; cols: number; rows: number }) => void;
       ptyKill: (id: string) => void;
@@ -113,7 +114,7 @@ declare global {
       // Lifecycle scripts
       lifecycleGetScript: (args: {
         projectPath: string;
-        phase: 'setup' | 'run' | 'teardown';
+        phase: 'setup' | 'run' | 'teardown' | 'verify';
       }) => Promise<{ success: boolean; script?: string | null; error?: string }>;
       lifecycleSetup: (args: {
         taskId: string;
@@ -128,11 +129,30 @@ declare global {
       lifecycleRunStop: (args: {
         taskId: string;
       }) => Promise<{ success: boolean; skipped?: boolean; error?: string }>;
+      lifecycleServiceRestart: (args: {
+        taskId: string;
+        service: string;
+      }) => Promise<{ success: boolean; error?: string }>;
       lifecycleTeardown: (args: {
         taskId: string;
         taskPath: string;
         projectPath: string;
       }) => Promise<{ success: boolean; skipped?: boolean; error?: string }>;
+      lifecycleVerify: (args: {
+        taskId: string;
+        taskPath: string;
+        projectPath: string;
+      }) => Promise<{ success: boolean; skipped?: boolean; error?: string }>;
+      lifecycleVerifyStatus: (args: {
+        taskId: string;
+        taskPath: string;
+        projectPath: string;
+      }) => Promise<{
+        success: boolean;
+        run?: import('@shared/verify').VerifyRun | null;
+        gate?: import('@shared/verify').VerifyGate;
+        error?: string;
+      }>;
       lifecycleGetState: (args: { taskId: string }) => Promise<{
         success: boolean;
         state?: {
@@ -159,6 +179,25 @@ declare global {
             exitCode?: number | null;
             error?: string | null;
           };
+          verify: {
+            status: 'idle' | 'running' | 'succeeded' | 'failed';
+            startedAt?: string;
+            finishedAt?: string;
+            exitCode?: number | null;
+            error?: string | null;
+          };
+          services?: Array<{
+            name: string;
+            status: 'waiting' | 'starting' | 'ready' | 'stopped' | 'exited' | 'failed';
+            port: number;
+            pid?: number | null;
+            startedAt?: string;
+            readyAt?: string;
+            finishedAt?: string;
+            exitCode?: number | null;
+            error?: string | null;
+            restarts: number;
+          }>;
         };
         error?: string;
       }>;
@@ -173,7 +212,11 @@ declare global {
         settings?: ProjectSettingsPayload;
         error?: string;
       }>;
-      updateProjectSettings: (args: { projectId: string; baseRef: string }) => Promise<{
+      updateProjectSettings: (args: {
+        projectId: string;
+        baseRef?: string;
+        mergeStrategy?: import('@shared/merge').MergeStrategy | null;
+      }) => Promise<{
         success: boolean;
         settings?: ProjectSettingsPayload;
         error?: string;
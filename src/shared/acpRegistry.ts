@@ -8,6 +8,8 @@ export type AcpDistributionBinaryTarget = {
   archive: string;
   cmd: string;
   args?: string[];
+  /** Hex SHA-256 of the archive, when the registry publishes one. */
+  sha256?: string;
 };
 
 export type AcpDistribution = {
@@ -29,17 +31,60 @@ export type AcpRegistryEntry = {
 
 export type AcpRegistry = { version: string; agents: AcpRegistryEntry[] };
 
-export type InstalledAcpAgent = {
-  id: string;
+export type InstalledAcpVersion = {
   version: string;
   method: 'npx' | 'binary';
   binaryPath?: string;
+  /** Binary command and args, relative to `binaryPath`; older installs look them up in the registry. */
+  cmd?: string;
+  args?: string[];
+  /** SHA-256 of the verified archive. */
+  sha256?: string;
   npxPackage?: string;
   npxArgs?: string[];
   npxEnv?: Record<string, string>;
   installedAt: string;
 };
 
+export type InstalledAcpAgent = InstalledAcpVersion & {
+  id: string;
+  /** Version replaced by the last upgrade, kept for rollback. */
+  previous?: InstalledAcpVersion;
+};
+
+/** An installed agent whose registry version differs from the one installed. */
+export type AcpAgentUpdate = {
+  id: string;
+  name: string;
+  installedVersion: string;
+  latestVersion: string;
+};
+
+/**
+ * Version pin for a registry agent, from `.valkyr.json` `acpAgents`. Sessions
+ * in the project refuse to start with any other version, or with an archive
+ * whose hash differs from `sha256`.
+ */
+export type AcpAgentPin = {
+  version: string;
+  sha256?: string;
+};
+
+/** Coerce `.valkyr.json` `acpAgents` into pins keyed by registry agent id, dropping invalid entries. */
+export function normalizeAcpAgentPins(input: unknown): Record<string, AcpAgentPin> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return {};
+  const pins: Record<string, AcpAgentPin> = {};
+  for (const [id, raw] of Object.entries(input)) {
+    const pin = typeof raw === 'string' ? { version: raw } : (raw as Record<string, unknown>);
+    if (!pin || typeof pin.version !== 'string' || !pin.version.trim()) continue;
+    pins[id] = { version: pin.version.trim() };
+    if (typeof pin.sha256 === 'string' && /^[0-9a-f]{64}$/i.test(pin.sha256)) {
+      pins[id].sha256 = pin.sha256.toLowerCase();
+    }
+  }
+  return pins;
+}
+
 // Valkyr ProviderId <-> ACP registry agent ID mapping
 export const PROVIDER_TO_ACP_ID: Record<string, string> = {
   claude: 'claude-acp',
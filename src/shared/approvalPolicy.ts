@@ -0,0 +1,107 @@
+export const APPROVAL_DECISIONS = ['allow_once', 'allow_always', 'reject'] as const;
+export type ApprovalDecision = (typeof APPROVAL_DECISIONS)[number];
+
+export const APPROVAL_PATH_SCOPES = ['inside_worktree', 'outside_worktree'] as const;
+export type ApprovalPathScope = (typeof APPROVAL_PATH_SCOPES)[number];
+
+/** ACP ToolKind values a rule can match on. */
+export const APPROVAL_TOOL_KINDS = [
+  'read',
+  'edit',
+  'delete',
+  'move',
+  'search',
+  'execute',
+  'think',
+  'fetch',
+  'switch_mode',
+  'other',
+] as const;
+export type ApprovalToolKind = (typeof APPROVAL_TOOL_KINDS)[number];
+
+/**
+ * A single auto-approval rule. Every criterion that is set must match;
+ * list criteria match when any entry matches. Rules are evaluated in order
+ * and the first match decides.
+ */
+export interface ApprovalRule {
+  id?: string;
+  description?: string;
+  decision: ApprovalDecision;
+  toolKinds?: ApprovalToolKind[];
+  /** Matches `execute` requests whose command starts with one of these prefixes. */
+  commandPrefixes?: string[];
+  /** Minimatch globs, tested against worktree-relative paths (or absolute paths outside it). */
+  pathGlobs?: string[];
+  pathScope?: ApprovalPathScope;
+  providers?: string[];
+}
+
+export interface ApprovalPolicyConfig {
+  enabled?: boolean;
+  rules?: ApprovalRule[];
+}
+
+/** Who made a permission decision recorded in the audit trail. */
+export type ApprovalAuditSource = 'project_policy' | 'global_policy' | 'user';
+
+export interface ApprovalAuditEntry {
+  id: string;
+  conversationId: string;
+  provider: string;
+  toolCallId: string;
+  toolKind: string | null;
+  title: string | null;
+  command: string | null;
+  paths: string[];
+  decision: ApprovalDecision | 'cancelled';
+  optionId: string | null;
+  source: ApprovalAuditSource;
+  ruleId: string | null;
+  createdAt: string;
+}
+
+function stringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const out = value
+    .filter((v): v is string => typeof v === 'string')
+    .map((v) => v.trim())
+    .filter(Boolean);
+  return out.length > 0 ? out : undefined;
+}
+
+/**
+ * Coerce untrusted rule input (settings.json / .valkyr.json) into valid rules.
+ * Invalid entries are dropped rather than rejected so one typo doesn't
+ * disable the whole policy.
+ */
+export function normalizeApprovalRules(input: unknown): ApprovalRule[] {
+  if (!Array.isArray(input)) return [];
+  const rules: ApprovalRule[] = [];
+  for (const raw of input) {
+    if (!raw || typeof raw !== 'object') continue;
+    const r = raw as Record<string, unknown>;
+    if (!APPROVAL_DECISIONS.includes(r.decision as ApprovalDecision)) continue;
+
+    const rule: ApprovalRule = { decision: r.decision as ApprovalDecision };
+    if (typeof r.id === 'string' && r.id.trim()) rule.id = r.id.trim();
+    if (typeof r.description === 'string' && r.description.trim()) {
+      rule.description = r.description.trim();
+    }
+    const kinds = stringList(r.toolKinds)?.filter((k): k is ApprovalToolKind =>
+      APPROVAL_TOOL_KINDS.includes(k as ApprovalToolKind)
+    );
+    if (kinds && kinds.length > 0) rule.toolKinds = kinds;
+    const prefixes = stringList(r.commandPrefixes);
+    if (prefixes) rule.commandPrefixes = prefixes;
+    const globs = stringList(r.pathGlobs);
+    if (globs) rule.pathGlobs = globs;
+    if (APPROVAL_PATH_SCOPES.includes(r.pathScope as ApprovalPathScope)) {
+      rule.pathScope = r.pathScope as ApprovalPathScope;
+    }
+    const providers = stringList(r.providers);
+    if (providers) rule.providers = providers;
+    rules.push(rule);
+  }
+  return rules;
+}
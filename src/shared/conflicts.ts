@@ -0,0 +1,59 @@
+/** How a task branch takes in new commits from its base branch. */
+export type UpdateStrategy = 'rebase' | 'merge';
+
+/** How far a task has fallen behind its base, and any update stopped on conflicts. */
+export interface BaseSyncStatus {
+  /** Ref the task is updated from, e.g. `origin/main`. */
+  base: string;
+  behind: number;
+  /** Rebase or merge in progress in the task's worktree. */
+  operation: UpdateStrategy | null;
+  /** Files with unresolved conflicts. */
+  conflicts: string[];
+}
+
+/** The three sides of a conflicted file and its current content with markers. */
+export interface ConflictFile {
+  path: string;
+  /** Common ancestor; null when the file did not exist there. */
+  base: string | null;
+  /** Side the operation is applied onto: the task for a merge, the base for a rebase. */
+  ours: string | null;
+  /** Side being applied: the base for a merge, the task's commit for a rebase. */
+  theirs: string | null;
+  /** Working tree content; null when the file was deleted. */
+  merged: string | null;
+  oursLabel: string;
+  theirsLabel: string;
+}
+
+export interface UpdateFromBaseResult {
+  success: boolean;
+  error?: string;
+  /** The task already contained the base. */
+  upToDate?: boolean;
+  status?: BaseSyncStatus;
+}
+
+/** Labels for the two sides of a conflict, depending on the operation. */
+export function conflictSideLabels(
+  operation: UpdateStrategy,
+  base: string
+): { oursLabel: string; theirsLabel: string } {
+  return operation === 'rebase'
+    ? { oursLabel: base, theirsLabel: 'Task commit' }
+    : { oursLabel: 'Task branch', theirsLabel: base };
+}
+
+/** Prompt asking the task's agent to resolve the conflicts of an update. */
+export function formatConflictsForAgent(status: BaseSyncStatus): string {
+  const action = status.operation === 'rebase' ? 'rebasing' : 'merging';
+  return [
+    `Updating this branch from ${status.base} stopped with conflicts while ${action}. Resolve them in these files:`,
+    '',
+    ...status.conflicts.map((file) => `- ${file}`),
+    '',
+    'Edit each file to keep the intent of both sides and remove all conflict markers, then stage it with `git add`.',
+    `Do not run \`git ${status.operation ?? 'merge'} --continue\` or \`--abort\`; I will continue the ${status.operation ?? 'merge'} once you are done.`,
+  ].join('\n');
+}
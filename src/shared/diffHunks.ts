@@ -0,0 +1,36 @@
+/** One `@@` section of a unified diff. */
+export interface DiffHunk {
+  /** The `@@ -a,b +c,d @@` line, also used to identify the hunk when applying it. */
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Body lines with their ` `, `+`, `-` or `\` prefix. */
+  lines: string[];
+}
+
+/** Unified diff of a single file, split into hunks. */
+export interface FilePatch {
+  /** `diff --git`, mode, `index`, `---` and `+++` lines before the first hunk. */
+  headers: string[];
+  hunks: DiffHunk[];
+}
+
+/** Changes of a file not yet staged (index → worktree) and staged (HEAD → index). */
+export interface FileHunks {
+  unstaged: FilePatch | null;
+  staged: FilePatch | null;
+}
+
+/**
+ * `stage` and `discard` take hunks from the unstaged patch, `unstage` from the
+ * staged one.
+ */
+export type HunkAction = 'stage' | 'unstage' | 'discard';
+
+export interface HunkSelection {
+  header: string;
+  /** Indices into `DiffHunk.lines` of the `+`/`-` lines to include; all when omitted. */
+  lines?: number[];
+}
@@ -0,0 +1,67 @@
+/**
+ * Where a commit in the task's history lives: only on the task branch, only on
+ * its base branch (e.g. merged there since the task started), or on both.
+ */
+export type CommitSide = 'task' | 'base' | 'shared';
+
+export interface CommitInfo {
+  sha: string;
+  parents: string[];
+  author: string;
+  email: string;
+  /** Author date, ISO 8601. */
+  date: string;
+  subject: string;
+  /** Branch and tag names pointing at the commit, e.g. `origin/main`, `tag: v1.0`. */
+  refs: string[];
+  side: CommitSide;
+}
+
+/** Task branch and base branch commits, newest first in topological order. */
+export interface CommitLog {
+  /** Base ref the log is drawn against; null when it could not be found. */
+  base: string | null;
+  commits: CommitInfo[];
+  /** More commits exist beyond `limit`. */
+  hasMore: boolean;
+}
+
+export interface CommitFile {
+  path: string;
+  /** Path before a rename. */
+  oldPath?: string;
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  additions: number;
+  deletions: number;
+}
+
+/** A commit with its full message and the files it changed relative to its first parent. */
+export interface CommitDetail {
+  commit: Omit<CommitInfo, 'side'>;
+  body: string;
+  files: CommitFile[];
+}
+
+export interface BlameCommit {
+  sha: string;
+  author: string;
+  email: string;
+  date: string;
+  summary: string;
+  /** Lines changed in the worktree but not committed yet. */
+  uncommitted: boolean;
+}
+
+/** `git blame` of a file: the commit of every line, by index. */
+export interface FileBlame {
+  commits: Record<string, BlameCommit>;
+  lines: string[];
+}
+
+export const RESET_MODES = ['soft', 'mixed', 'hard'] as const;
+export type ResetMode = (typeof RESET_MODES)[number];
+
+export type HistoryAction =
+  | { type: 'revert'; sha: string }
+  | { type: 'cherry-pick'; sha: string }
+  | { type: 'reset'; sha: string; mode: ResetMode };
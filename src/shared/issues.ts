@@ -0,0 +1,107 @@
+export const ISSUE_PROVIDER_IDS = ['github', 'gitlab', 'jira'] as const;
+export type IssueProviderId = (typeof ISSUE_PROVIDER_IDS)[number];
+
+export function isIssueProviderId(value: unknown): value is IssueProviderId {
+  return typeof value === 'string' && (ISSUE_PROVIDER_IDS as readonly string[]).includes(value);
+}
+
+/** An issue from any tracker, normalized for search results and task metadata. */
+export interface Issue {
+  provider: IssueProviderId;
+  /** `#12` for GitHub and GitLab, `PROJ-12` for Jira. */
+  key: string;
+  /** Issue number (GitHub/GitLab iid); absent for Jira. */
+  number?: number;
+  title: string;
+  url: string;
+  /** Tracker-native state or status name, e.g. `OPEN`, `opened`, `In Progress`. */
+  state: string;
+  assignees: string[];
+  labels: string[];
+  body?: string;
+  /** Jira project key. */
+  project?: string;
+  updatedAt?: string;
+}
+
+/** Reference stored on a task so PR events can find their way back to the issue. */
+export interface LinkedIssue {
+  provider: IssueProviderId;
+  key: string;
+  url: string;
+  title: string;
+}
+
+export type IssuePrEvent = 'opened' | 'merged';
+
+/** What happens to a linked issue when the task's pull request is opened or merged. */
+export interface IssueUpdateSettings {
+  commentOnPrOpened: boolean;
+  commentOnPrMerged: boolean;
+  /** Close the issue (GitHub/GitLab) or move it to a done status (Jira) on merge. */
+  closeOnPrMerged: boolean;
+}
+
+export const DEFAULT_ISSUE_UPDATES: IssueUpdateSettings = {
+  commentOnPrOpened: true,
+  commentOnPrMerged: true,
+  closeOnPrMerged: false,
+};
+
+/** Task metadata keys that describe a linked issue. */
+export const ISSUE_METADATA_FIELDS = [
+  'linkedIssue',
+  'githubIssue',
+  'gitlabIssue',
+  'jiraIssue',
+  'linearIssue',
+] as const;
+
+export function toLinkedIssue(issue: Issue): LinkedIssue {
+  return { provider: issue.provider, key: issue.key, url: issue.url, title: issue.title };
+}
+
+/**
+ * Task metadata fields for a linked issue: the normalized reference plus the
+ * provider-specific shape the agent prompt injection already understands.
+ */
+export function issueToTaskMetadata(
+  issue: Issue
+): { linkedIssue: LinkedIssue } & Record<string, unknown> {
+  const linkedIssue = toLinkedIssue(issue);
+  if (issue.provider === 'jira') {
+    return {
+      linkedIssue,
+      jiraIssue: {
+        key: issue.key,
+        summary: issue.title,
+        url: issue.url,
+        status: { name: issue.state },
+        assignee: issue.assignees[0] ? { displayName: issue.assignees[0] } : null,
+        project: issue.project ? { key: issue.project } : null,
+      },
+    };
+  }
+  if (issue.provider === 'github') {
+    return {
+      linkedIssue,
+      githubIssue: {
+        number: issue.number,
+        title: issue.title,
+        url: issue.url,
+        state: issue.state,
+        assignees: issue.assignees.map((login) => ({ login })),
+        labels: issue.labels.map((name) => ({ name })),
+        body: issue.body,
+      },
+    };
+  }
+  return { linkedIssue, gitlabIssue: issue };
+}
+
+export function formatPrComment(event: IssuePrEvent, prUrl: string | null): string {
+  const link = prUrl ? ` ${prUrl}` : '';
+  return event === 'opened'
+    ? `A pull request for this issue was opened:${link}`
+    : `The pull request for this issue was merged:${link}`;
+}
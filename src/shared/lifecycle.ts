@@ -1,18 +1,63 @@
 export const LIFECYCLE_EVENT_CHANNEL = 'lifecycle:event' as const;
 
-export const LIFECYCLE_PHASES = ['setup', 'run', 'teardown'] as const;
+export const LIFECYCLE_PHASES = ['setup', 'run', 'teardown', 'verify'] as const;
 export type LifecyclePhase = (typeof LIFECYCLE_PHASES)[number];
 
-export const LIFECYCLE_EVENT_STATUSES = ['starting', 'line', 'done', 'error', 'exit'] as const;
+export const LIFECYCLE_EVENT_STATUSES = [
+  'starting',
+  'line',
+  'ready',
+  'done',
+  'error',
+  'exit',
+  // Verify only: the outcome of the run has been recorded
+  'result',
+] as const;
 export type LifecycleEventStatus = (typeof LIFECYCLE_EVENT_STATUSES)[number];
 
 export const LIFECYCLE_PHASE_STATES = ['idle', 'running', 'succeeded', 'failed'] as const;
 export type LifecyclePhaseStateStatus = (typeof LIFECYCLE_PHASE_STATES)[number];
 
+export const LIFECYCLE_SERVICE_STATES = [
+  'waiting',
+  'starting',
+  'ready',
+  'stopped',
+  'exited',
+  'failed',
+] as const;
+export type LifecycleServiceStatus = (typeof LIFECYCLE_SERVICE_STATES)[number];
+
 export interface LifecycleScriptConfig {
   setup?: string;
   run?: string;
   teardown?: string;
+  /** Tests and checks whose outcome gates commit, PR and merge actions. */
+  verify?: string;
+}
+
+/**
+ * How to tell that a service is up. `port` and `http` probe the service port
+ * (its allocated port unless given); `log` waits for a line matching `pattern`.
+ */
+export type LifecycleServiceReadiness =
+  | { type: 'port'; port?: number; timeoutMs?: number }
+  | { type: 'http'; port?: number; path?: string; timeoutMs?: number }
+  | { type: 'log'; pattern: string; timeoutMs?: number };
+
+/** A long-running process from the `services` map in `.valkyr.json`. */
+export interface LifecycleServiceConfig {
+  command: string;
+  /** Working directory relative to the task worktree. */
+  cwd?: string;
+  env?: Record<string, string>;
+  /** Services that must be ready before this one starts. */
+  dependsOn?: string[];
+  readiness?: LifecycleServiceReadiness;
+}
+
+export interface LifecycleServiceDefinition extends LifecycleServiceConfig {
+  name: string;
 }
 
 export interface LifecyclePhaseState {
@@ -27,16 +72,34 @@ export interface LifecycleRunState extends LifecyclePhaseState {
   pid?: number | null;
 }
 
+export interface LifecycleServiceState {
+  name: string;
+  status: LifecycleServiceStatus;
+  port: number;
+  pid?: number | null;
+  startedAt?: string;
+  readyAt?: string;
+  finishedAt?: string;
+  exitCode?: number | null;
+  error?: string | null;
+  restarts: number;
+}
+
 export interface TaskLifecycleState {
   taskId: string;
   setup: LifecyclePhaseState;
   run: LifecycleRunState;
   teardown: LifecyclePhaseState;
+  verify: LifecyclePhaseState;
+  /** Services of the current or last run, in start order. Empty for a plain `run` script. */
+  services: LifecycleServiceState[];
 }
 
 export interface LifecycleEvent {
   taskId: string;
   phase: LifecyclePhase;
+  /** Set for run events that belong to one service. */
+  service?: string;
   status: LifecycleEventStatus;
   line?: string;
   error?: string;
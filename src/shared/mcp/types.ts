@@ -5,6 +5,8 @@ export interface McpServerStdioConfig {
   name: string;
   transport: 'stdio';
   enabled: boolean;
+  /** Names of tools hidden from agents */
+  disabledTools?: string[];
   command: string;
   args: string[];
   env: Record<string, string>;
@@ -15,6 +17,8 @@ export interface McpServerHttpConfig {
   name: string;
   transport: 'http';
   enabled: boolean;
+  /** Names of tools hidden from agents */
+  disabledTools?: string[];
   url: string;
   headers: Record<string, string>;
 }
@@ -24,6 +28,8 @@ export interface McpServerSseConfig {
   name: string;
   transport: 'sse';
   enabled: boolean;
+  /** Names of tools hidden from agents */
+  disabledTools?: string[];
   url: string;
   headers: Record<string, string>;
 }
@@ -35,3 +41,36 @@ export type McpServerInput =
   | Omit<McpServerStdioConfig, 'id'>
   | Omit<McpServerHttpConfig, 'id'>
   | Omit<McpServerSseConfig, 'id'>;
+
+export interface McpToolInfo {
+  name: string;
+  title?: string;
+  description?: string;
+}
+
+export interface McpResourceInfo {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpPromptInfo {
+  name: string;
+  title?: string;
+  description?: string;
+}
+
+/** Result of connecting to a server and listing what it offers. */
+export interface McpServerHealth {
+  ok: boolean;
+  /** Why the connection or handshake failed */
+  error?: string;
+  serverInfo?: { name: string; version?: string };
+  protocolVersion?: string;
+  tools: McpToolInfo[];
+  resources: McpResourceInfo[];
+  prompts: McpPromptInfo[];
+  durationMs: number;
+  checkedAt: string;
+}
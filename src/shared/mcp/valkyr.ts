@@ -0,0 +1,92 @@
+/** Name of the built-in server in agent sessions */
+export const VALKYR_MCP_SERVER_NAME = 'valkyr';
+
+export const VALKYR_MCP_TOOLS = [
+  {
+    name: 'list_tasks',
+    title: 'List tasks',
+    description: 'List the tasks of this project with their branch, worktree and latest progress.',
+  },
+  {
+    name: 'get_task_diff',
+    title: 'Read task diffs',
+    description: 'Read the changes of this or another task since it branched, committed or not.',
+  },
+  {
+    name: 'add_line_comment',
+    title: 'Comment on lines',
+    description: 'Leave a line comment on the changes of this or another task.',
+  },
+  {
+    name: 'run_lifecycle',
+    title: 'Run lifecycle scripts',
+    description: 'Run the verify script or start the run script of this task.',
+  },
+  {
+    name: 'spawn_task',
+    title: 'Spawn sub-tasks',
+    description: 'Create a task with its own worktree and an initial prompt.',
+  },
+  {
+    name: 'report_progress',
+    title: 'Report progress',
+    description: "Show a progress message on this task's status.",
+  },
+] as const;
+
+export type ValkyrMcpToolName = (typeof VALKYR_MCP_TOOLS)[number]['name'];
+
+/** Tools a project gets until the user picks its own */
+export const DEFAULT_VALKYR_MCP_TOOLS: ValkyrMcpToolName[] = [
+  'list_tasks',
+  'get_task_diff',
+  'report_progress',
+];
+
+export interface ValkyrMcpSettings {
+  enabled: boolean;
+  /** Tools allowed per project path */
+  projects: Record<string, ValkyrMcpToolName[]>;
+}
+
+const TOOL_NAMES = new Set<string>(VALKYR_MCP_TOOLS.map((t) => t.name));
+
+export function isValkyrMcpToolName(value: unknown): value is ValkyrMcpToolName {
+  return typeof value === 'string' && TOOL_NAMES.has(value);
+}
+
+/** Coerce untrusted settings; unknown tool names are dropped. */
+export function normalizeValkyrMcpSettings(input: unknown): ValkyrMcpSettings {
+  const raw = input && typeof input === 'object' ? (input as Record<string, unknown>) : {};
+  const projects: Record<string, ValkyrMcpToolName[]> = {};
+  if (raw.projects && typeof raw.projects === 'object') {
+    for (const [projectPath, tools] of Object.entries(raw.projects)) {
+      if (!Array.isArray(tools)) continue;
+      projects[projectPath] = Array.from(new Set(tools.filter(isValkyrMcpToolName)));
+    }
+  }
+  return { enabled: typeof raw.enabled === 'boolean' ? raw.enabled : true, projects };
+}
+
+export function allowedValkyrMcpTools(
+  settings: ValkyrMcpSettings | undefined,
+  projectPath: string
+): ValkyrMcpToolName[] {
+  return settings?.projects[projectPath] ?? DEFAULT_VALKYR_MCP_TOOLS;
+}
+
+export const TASK_PROGRESS_STATES = ['working', 'blocked', 'done'] as const;
+export type TaskProgressState = (typeof TASK_PROGRESS_STATES)[number];
+
+/** Latest progress an agent reported for its task. */
+export interface TaskProgress {
+  taskId: string;
+  message: string;
+  state: TaskProgressState;
+  /** 0-100 */
+  percent: number | null;
+  updatedAt: string;
+}
+
+export const TASK_PROGRESS_CHANNEL = 'valkyrMcp:progress';
+export const TASK_SPAWNED_CHANNEL = 'valkyrMcp:taskSpawned';
@@ -0,0 +1,79 @@
+import type { VerifyGate } from './verify';
+
+/**
+ * How a task lands on the project's base branch. `pull-request` pushes and
+ * merges through GitHub; the others integrate locally in the main repo.
+ */
+export const MERGE_STRATEGIES = ['pull-request', 'merge', 'squash', 'rebase'] as const;
+export type MergeStrategy = (typeof MERGE_STRATEGIES)[number];
+
+export function isMergeStrategy(value: unknown): value is MergeStrategy {
+  return typeof value === 'string' && (MERGE_STRATEGIES as readonly string[]).includes(value);
+}
+
+/** What the merge dialog needs to know before landing a task. */
+export interface MergePreview {
+  branch: string;
+  /** Local branch the task lands on, from the project's base ref. */
+  target: string;
+  /** Remote a local merge can be pushed to, if the repo has one. */
+  remote: string | null;
+  /** The project's default strategy. */
+  strategy: MergeStrategy;
+  /** Subjects of the task's commits not yet on the target, oldest first. */
+  commits: string[];
+  hasUncommittedChanges: boolean;
+  /** The checkout that has the target branch has uncommitted changes or untracked files. */
+  targetDirty: boolean;
+  isRemoteProject: boolean;
+}
+
+export interface MergeRequest {
+  taskPath: string;
+  strategy?: MergeStrategy;
+  /**
+   * Message for the merge or squash commit. Under `pull-request` it is used
+   * for committing pending task changes instead.
+   */
+  message?: string;
+  /** Push the target branch after a local merge. */
+  push?: boolean;
+  /** Stash uncommitted changes of the target checkout while it is fast-forwarded. */
+  stashTargetChanges?: boolean;
+}
+
+export interface MergeResult {
+  success: boolean;
+  error?: string;
+  strategy?: MergeStrategy;
+  /** Commit the target branch now points at. */
+  sha?: string;
+  prUrl?: string;
+  pushed?: boolean;
+  /** The merge landed locally but pushing it failed. */
+  pushError?: string;
+  /** The merge stopped because the target checkout has uncommitted changes. */
+  targetDirty?: boolean;
+  /** The merge stopped because the task has uncommitted changes; local merges only land commits. */
+  taskDirty?: boolean;
+  /** Files that conflicted; the merge was aborted and nothing changed. */
+  conflicts?: string[];
+  /** Stashed target changes could not be reapplied and were left in the stash. */
+  stashWarning?: string;
+  verifyGate?: VerifyGate;
+  verifyWarning?: string;
+}
+
+/** Commit message the merge dialog starts from. */
+export function defaultMergeMessage(
+  strategy: MergeStrategy,
+  branch: string,
+  target: string,
+  commits: string[]
+): string {
+  if (strategy === 'merge') return `Merge branch '${branch}' into ${target}`;
+  if (strategy === 'squash' && commits.length > 0) {
+    return [branch, '', ...commits.map((subject) => `* ${subject}`)].join('\n');
+  }
+  return commits.length === 1 ? commits[0] : branch;
+}
@@ -0,0 +1,26 @@
+export const PREVIEW_LOG_KINDS = ['console', 'exception', 'network', 'navigation'] as const;
+export type PreviewLogKind = (typeof PREVIEW_LOG_KINDS)[number];
+
+export const PREVIEW_LOG_LEVELS = ['debug', 'info', 'warning', 'error'] as const;
+export type PreviewLogLevel = (typeof PREVIEW_LOG_LEVELS)[number];
+
+/** Something the browser preview page logged, threw or failed to load. */
+export interface PreviewLogEntry {
+  kind: PreviewLogKind;
+  level: PreviewLogLevel;
+  message: string;
+  /** Script location for console output, request URL for network failures. */
+  source: string | null;
+  timestamp: string;
+}
+
+/** Plain-text log an agent can read, oldest entry first. */
+export function formatPreviewLogs(entries: PreviewLogEntry[], url?: string | null): string {
+  const lines = [`Browser preview log${url ? ` for ${url}` : ''} (${entries.length} entries)`, ''];
+  for (const entry of entries) {
+    const time = entry.timestamp.slice(11, 23);
+    const source = entry.source && entry.kind !== 'network' ? ` (${entry.source})` : '';
+    lines.push(`[${time}] ${entry.kind} ${entry.level}: ${entry.message}${source}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,126 @@
+import type { ProviderDefinition } from './registry';
+
+/** User-defined agents get ids of the form `custom-<id>` so they never clash with built-ins. */
+export const CUSTOM_PROVIDER_PREFIX = 'custom-';
+export type CustomProviderId = `custom-${string}`;
+
+/**
+ * An agent defined in settings (`customAgents`) or in a project's
+ * `.valkyr.json` (`agents`). Project entries with the id of a global one are ignored.
+ */
+export interface CustomAgentConfig {
+  /** Lowercase slug, unique among custom agents. */
+  id: string;
+  name: string;
+  /** Image URL (https: or data:); a generic icon is used when unset. */
+  icon?: string;
+  /** Command line that starts the agent in a terminal, split on whitespace. */
+  cli: string;
+  /** Command speaking ACP over stdio; without it the agent only runs in a terminal. */
+  acp?: { command: string; args?: string[] };
+  /** Variables set for both the terminal and the ACP process. */
+  env?: Record<string, string>;
+  autoApproveFlag?: string;
+  resumeFlag?: string;
+  /** Flag placed before the initial prompt; '' passes it as a positional argument. */
+  initialPromptFlag?: string;
+  contextWindow?: number;
+}
+
+const SLUG_RE = /^[a-z0-9][a-z0-9_-]*$/;
+const ENV_KEY_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function isCustomProviderId(value: unknown): value is CustomProviderId {
+  return (
+    typeof value === 'string' &&
+    value.startsWith(CUSTOM_PROVIDER_PREFIX) &&
+    SLUG_RE.test(value.slice(CUSTOM_PROVIDER_PREFIX.length))
+  );
+}
+
+function trimmed(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function normalizeAcp(value: unknown): CustomAgentConfig['acp'] {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  const command = trimmed(raw.command);
+  if (!command) return undefined;
+  const args = Array.isArray(raw.args)
+    ? raw.args.filter((a): a is string => typeof a === 'string')
+    : [];
+  return args.length > 0 ? { command, args } : { command };
+}
+
+function normalizeEnv(value: unknown): Record<string, string> | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const env: Record<string, string> = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (ENV_KEY_RE.test(key) && typeof v === 'string') env[key] = v;
+  }
+  return Object.keys(env).length > 0 ? env : undefined;
+}
+
+/**
+ * Coerce untrusted agent definitions (settings.json / .valkyr.json) into valid
+ * ones. Entries without an id, name or CLI command are dropped, as are
+ * repeated ids; the first definition of an id wins.
+ */
+export function normalizeCustomAgents(input: unknown): CustomAgentConfig[] {
+  if (!Array.isArray(input)) return [];
+  const agents: CustomAgentConfig[] = [];
+  const seen = new Set<string>();
+  for (const raw of input) {
+    if (!raw || typeof raw !== 'object') continue;
+    const r = raw as Record<string, unknown>;
+    const id = trimmed(r.id)?.toLowerCase();
+    const name = trimmed(r.name);
+    const cli = trimmed(r.cli);
+    if (!id || !SLUG_RE.test(id) || seen.has(id) || !name || !cli) continue;
+    seen.add(id);
+
+    const agent: CustomAgentConfig = { id, name, cli };
+    const icon = trimmed(r.icon);
+    if (icon && /^(https:|data:image\/)/.test(icon)) agent.icon = icon;
+    const acp = normalizeAcp(r.acp);
+    if (acp) agent.acp = acp;
+    const env = normalizeEnv(r.env);
+    if (env) agent.env = env;
+    const autoApproveFlag = trimmed(r.autoApproveFlag);
+    if (autoApproveFlag) agent.autoApproveFlag = autoApproveFlag;
+    const resumeFlag = trimmed(r.resumeFlag);
+    if (resumeFlag) agent.resumeFlag = resumeFlag;
+    if (typeof r.initialPromptFlag === 'string') {
+      agent.initialPromptFlag = r.initialPromptFlag.trim();
+    }
+    if (typeof r.contextWindow === 'number' && r.contextWindow > 0) {
+      agent.contextWindow = Math.floor(r.contextWindow);
+    }
+    agents.push(agent);
+  }
+  return agents;
+}
+
+/** Provider definition for a validated custom agent. */
+export function customAgentProvider(agent: CustomAgentConfig): ProviderDefinition {
+  const [command, ...defaultArgs] = agent.cli.split(/\s+/);
+  return {
+    id: `${CUSTOM_PROVIDER_PREFIX}${agent.id}`,
+    name: agent.name,
+    commands: [command],
+    versionArgs: ['--version'],
+    cli: command,
+    ...(defaultArgs.length > 0 && { defaultArgs }),
+    autoApproveFlag: agent.autoApproveFlag,
+    initialPromptFlag: agent.initialPromptFlag,
+    resumeFlag: agent.resumeFlag,
+    icon: agent.icon,
+    terminalOnly: true,
+    acpSupport: agent.acp,
+    env: agent.env,
+    description: `Custom agent (${agent.cli})`,
+    contextWindow: agent.contextWindow,
+    custom: true,
+  };
+}
@@ -1,3 +1,5 @@
+import { isCustomProviderId, type CustomProviderId } from './customAgents';
+
 export const PROVIDER_IDS = [
   'codex',
   'claude',
@@ -21,13 +23,19 @@ export const PROVIDER_IDS = [
   'mistral',
 ] as const;
 
-export type ProviderId = (typeof PROVIDER_IDS)[number];
+export type BuiltinProviderId = (typeof PROVIDER_IDS)[number];
+export type ProviderId = BuiltinProviderId | CustomProviderId;
 
 export type AcpSupport = {
   command: string; // ACP binary (e.g., 'claude-code-acp')
   args?: string[];
 };
 
+export type AcpSandboxDefaults = {
+  enabled: boolean; // Run agent-spawned ACP terminals inside the Linux sandbox
+  network?: boolean; // Allow network access inside the sandbox (falls back to the app setting)
+};
+
 export type ProviderDefinition = {
   id: ProviderId;
   name: string;
@@ -47,9 +55,12 @@ export type ProviderDefinition = {
   terminalOnly?: boolean;
   acpSupport?: AcpSupport;
   acpMultiSession?: boolean; // Agent supports multiple ACP sessions on one connection
+  acpSandbox?: AcpSandboxDefaults; // Default terminal sandbox when the app setting is 'provider'
   envVars?: string[]; // Provider-specific env vars (scoped keys)
+  env?: Record<string, string>; // Fixed env values set when spawning the agent
   description?: string;
   contextWindow?: number;
+  custom?: boolean; // User-defined in settings or .valkyr.json
 };
 
 export const PROVIDERS: ProviderDefinition[] = [
@@ -67,6 +78,7 @@ export const PROVIDERS: ProviderDefinition[] = [
     icon: 'openai.png',
     terminalOnly: true,
     acpSupport: { command: 'codex', args: ['--acp'] },
+    acpSandbox: { enabled: true },
     envVars: ['OPENAI_API_KEY'],
     description: 'OpenAI Codex CLI agent',
     contextWindow: 128000,
@@ -87,6 +99,7 @@ export const PROVIDERS: ProviderDefinition[] = [
     terminalOnly: true,
     acpSupport: { command: 'claude-code-acp' },
     acpMultiSession: true,
+    acpSandbox: { enabled: true },
     envVars: ['ANTHROPIC_API_KEY'],
     description: 'Anthropic Claude Code agent',
     contextWindow: 200000,
@@ -118,6 +131,7 @@ export const PROVIDERS: ProviderDefinition[] = [
     icon: 'gemini.png',
     terminalOnly: true,
     acpSupport: { command: 'gemini', args: ['--experimental-acp'] },
+    acpSandbox: { enabled: true },
     envVars: ['GEMINI_API_KEY', 'GOOGLE_API_KEY'],
     description: 'Google Gemini CLI agent',
     contextWindow: 1000000,
@@ -185,6 +199,7 @@ export const PROVIDERS: ProviderDefinition[] = [
     icon: 'ghcopilot.png',
     terminalOnly: true,
     acpSupport: { command: 'copilot-acp' },
+    acpSandbox: { enabled: true },
     envVars: ['GITHUB_TOKEN'],
     description: 'GitHub Copilot CLI agent',
   },
@@ -334,27 +349,68 @@ const PROVIDER_MAP = new Map<string, ProviderDefinition>(
   PROVIDERS.map((provider) => [provider.id, provider])
 );
 
-export function getProvider(id: ProviderId): ProviderDefinition | undefined {
-  return PROVIDER_MAP.get(id);
+// User-defined agents from settings, available in every project
+const customProviders = new Map<string, ProviderDefinition>();
+// Agents from each project's .valkyr.json, keyed by the path they were read for
+const projectProviders = new Map<string, Map<string, ProviderDefinition>>();
+
+/**
+ * Replace the registered custom agents: the shared ones, or with
+ * `projectPath` only those of that project.
+ */
+export function setCustomProviders(providers: ProviderDefinition[], projectPath?: string): void {
+  const target = projectPath ? new Map<string, ProviderDefinition>() : customProviders;
+  target.clear();
+  for (const provider of providers) {
+    target.set(provider.id, provider);
+  }
+  if (projectPath) projectProviders.set(projectPath, target);
+}
+
+/**
+ * Built-in providers followed by the registered custom agents, including
+ * those of `projectPath` when given.
+ */
+export function listProviders(projectPath?: string): ProviderDefinition[] {
+  const project = projectPath ? projectProviders.get(projectPath)?.values() : undefined;
+  return [...PROVIDERS, ...customProviders.values(), ...(project ?? [])];
+}
+
+/**
+ * Definition of a provider. Project agents are only found under the
+ * `projectPath` they were registered for, and never shadow shared ones.
+ */
+export function getProvider(id: ProviderId, projectPath?: string): ProviderDefinition | undefined {
+  return (
+    PROVIDER_MAP.get(id) ??
+    customProviders.get(id) ??
+    (projectPath ? projectProviders.get(projectPath)?.get(id) : undefined)
+  );
 }
 
 export function getInstallCommandForProvider(id: ProviderId): string | null {
-  return PROVIDER_MAP.get(id)?.installCommand ?? null;
+  return getProvider(id)?.installCommand ?? null;
 }
 
 /**
- * Validates if a string is a valid provider ID.
+ * Validates if a string is a valid provider ID. Custom agent ids are accepted
+ * by shape, since their definition may not be loaded yet.
  * @param value - The value to validate
  * @returns true if the value is a valid provider ID, false otherwise
  */
 export function isValidProviderId(value: unknown): value is ProviderId {
-  return typeof value === 'string' && PROVIDER_IDS.includes(value as ProviderId);
+  return (
+    typeof value === 'string' &&
+    (PROVIDER_IDS.includes(value as BuiltinProviderId) || isCustomProviderId(value))
+  );
 }
 
 export function getDocUrlForProvider(id: ProviderId): string | null {
-  return PROVIDER_MAP.get(id)?.docUrl ?? null;
+  return getProvider(id)?.docUrl ?? null;
 }
 
 export function listDetectableProviders(): ProviderDefinition[] {
-  return PROVIDERS.filter((provider) => provider.detectable !== false && provider.commands?.length);
+  return listProviders().filter(
+    (provider) => provider.detectable !== false && provider.commands?.length
+  );
 }
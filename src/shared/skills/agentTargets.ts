@@ -8,8 +8,13 @@ export interface AgentSyncTarget {
   getSkillDir: (skillId: string) => string;
   /** Top-level config dir to check if agent is installed */
   configDir: string;
+  /** Skills directory relative to a project or worktree root */
+  projectSkillDir: string;
 }
 
+/** Where a repository keeps the skills it shares with every agent */
+export const PROJECT_SKILLS_DIR = path.join('.agents', 'skills');
+
 const home = os.homedir();
 
 /**
@@ -22,42 +27,49 @@ export const agentTargets: AgentSyncTarget[] = [
     name: 'Claude Code',
     configDir: path.join(home, '.claude'),
     getSkillDir: (skillId: string) => path.join(home, '.claude', 'commands', skillId),
+    projectSkillDir: path.join('.claude', 'skills'),
   },
   {
     id: 'codex',
     name: 'Codex',
     configDir: path.join(home, '.codex'),
     getSkillDir: (skillId: string) => path.join(home, '.codex', 'skills', skillId),
+    projectSkillDir: path.join('.codex', 'skills'),
   },
   {
     id: 'opencode',
     name: 'OpenCode',
     configDir: path.join(home, '.config', 'opencode'),
     getSkillDir: (skillId: string) => path.join(home, '.config', 'opencode', 'skills', skillId),
+    projectSkillDir: path.join('.opencode', 'skills'),
   },
   {
     id: 'cursor',
     name: 'Cursor',
     configDir: path.join(home, '.cursor'),
     getSkillDir: (skillId: string) => path.join(home, '.cursor', 'skills', skillId),
+    projectSkillDir: path.join('.cursor', 'skills'),
   },
   {
     id: 'gemini',
     name: 'Gemini CLI',
     configDir: path.join(home, '.gemini'),
     getSkillDir: (skillId: string) => path.join(home, '.gemini', 'skills', skillId),
+    projectSkillDir: path.join('.gemini', 'skills'),
   },
   {
     id: 'roo-code',
     name: 'Roo Code',
     configDir: path.join(home, '.roo'),
     getSkillDir: (skillId: string) => path.join(home, '.roo', 'skills', skillId),
+    projectSkillDir: path.join('.roo', 'skills'),
   },
   {
     id: 'mistral-vibe',
     name: 'Mistral Vibe',
     configDir: path.join(home, '.vibe'),
     getSkillDir: (skillId: string) => path.join(home, '.vibe', 'skills', skillId),
+    projectSkillDir: path.join('.vibe', 'skills'),
   },
 ];
 
@@ -0,0 +1,56 @@
+import type { SkillSource } from './types';
+
+const GIT_LOCATION_RE = /^(https?:\/\/|ssh:\/\/|git:\/\/|[\w.-]+@[\w.-]+:)/;
+
+/** Whether a source location is a git remote rather than a local directory */
+export function isGitLocation(location: string): boolean {
+  return GIT_LOCATION_RE.test(location) || location.endsWith('.git');
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\.git$/, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+function trimmed(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Coerce untrusted source definitions (settings.json) into valid ones.
+ * Entries need a git URL or an absolute directory; the id defaults to a slug
+ * of the name or location. Repeated ids are dropped, the first one wins.
+ */
+export function normalizeSkillSources(input: unknown): SkillSource[] {
+  if (!Array.isArray(input)) return [];
+  const sources: SkillSource[] = [];
+  const seen = new Set<string>();
+  for (const raw of input) {
+    if (!raw || typeof raw !== 'object') continue;
+    const r = raw as Record<string, unknown>;
+    const location = trimmed(r.location);
+    if (!location || (!isGitLocation(location) && !/^(\/|[A-Za-z]:[\\/])/.test(location))) {
+      continue;
+    }
+    const lastSegment = location
+      .split(/[/:\\]/)
+      .filter(Boolean)
+      .pop();
+    const name = trimmed(r.name) ?? lastSegment?.replace(/\.git$/, '') ?? location;
+    const id = slugify(trimmed(r.id) ?? name);
+    if (!id || seen.has(id)) continue;
+    seen.add(id);
+
+    const source: SkillSource = { id, name, location };
+    // Keep the subdirectory inside the source
+    const subdir = trimmed(r.path)?.replace(/^[/\\]+|[/\\]+$/g, '');
+    if (subdir && !subdir.split(/[/\\]/).includes('..')) source.path = subdir;
+    const ref = trimmed(r.ref);
+    if (ref && /^[\w./-]+$/.test(ref) && !ref.startsWith('-')) source.ref = ref;
+    sources.push(source);
+  }
+  return sources;
+}
@@ -14,8 +14,12 @@ export interface CatalogSkill {
   displayName: string;
   /** Short description */
   description: string;
-  /** Catalog source */
-  source: 'openai' | 'anthropic' | 'local';
+  /** Catalog source; `custom` skills come from a user-configured source, `project` ones from the repo */
+  source: 'openai' | 'anthropic' | 'local' | 'custom' | 'project';
+  /** Id of the user-configured source (`custom` skills) */
+  sourceId?: string;
+  /** Skill directory inside the checked-out source (`custom` skills) */
+  sourcePath?: string;
   /** GitHub URL */
   sourceUrl?: string;
   /** Icon URL (OpenAI skills have SVG/PNG) */
@@ -32,6 +36,34 @@ export interface CatalogSkill {
   installed: boolean;
   /** Filesystem path if installed */
   localPath?: string;
+  /** Content hash of the skill at its source, when known */
+  version?: string;
+  /** Content hash of the skill when it was installed through Valkyr */
+  installedVersion?: string;
+  /** The source has changed since the skill was installed */
+  updateAvailable?: boolean;
+}
+
+/**
+ * A user-configured catalog: a git repository or a local directory whose
+ * subdirectories holding a SKILL.md are offered as skills.
+ */
+export interface SkillSource {
+  /** Lowercase slug, unique among sources */
+  id: string;
+  name: string;
+  /** Git URL (https, ssh or git@host:path) or absolute local directory */
+  location: string;
+  /** Directory inside the source that holds the skills */
+  path?: string;
+  /** Branch or tag to check out (git sources) */
+  ref?: string;
+}
+
+export interface SkillUpdate {
+  skillId: string;
+  installedVersion: string;
+  latestVersion: string;
 }
 
 export interface CatalogIndex {
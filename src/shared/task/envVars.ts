@@ -20,6 +20,30 @@ export function getTaskEnvVars(ctx: TaskEnvContext): Record<string, string> {
   };
 }
 
+/** Ports reserved for each task, starting at `VALKYR_PORT`. */
+export const TASK_PORT_BLOCK_SIZE = 10;
+
+/**
+ * Give each service a port from the task's block, in order. Throws when there
+ * are more services than ports in the block.
+ */
+export function allocateServicePorts(basePort: number, names: string[]): Record<string, number> {
+  if (names.length > TASK_PORT_BLOCK_SIZE) {
+    throw new Error(`At most ${TASK_PORT_BLOCK_SIZE} services can run per task`);
+  }
+  return Object.fromEntries(names.map((name, index) => [name, basePort + index]));
+}
+
+/** `VALKYR_SERVICE_<NAME>_PORT` for every service, so services can find each other. */
+export function getServicePortEnvVars(ports: Record<string, number>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(ports).map(([name, port]) => [
+      `VALKYR_SERVICE_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_PORT`,
+      String(port),
+    ])
+  );
+}
+
 function slugify(value: string): string {
   return value
     .toLowerCase()
@@ -0,0 +1,81 @@
+export const USAGE_GROUP_BYS = ['task', 'project', 'provider', 'day'] as const;
+export type UsageGroupBy = (typeof USAGE_GROUP_BYS)[number];
+
+/** One prompt turn's token usage and cost, as reported by the agent. */
+export interface UsageEntry {
+  id: string;
+  conversationId: string;
+  /** User message that started the turn, when known. */
+  messageId: string | null;
+  providerId: string;
+  modelId: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  cachedReadTokens: number;
+  cachedWriteTokens: number;
+  totalTokens: number;
+  /** Cost in USD; 0 when the agent doesn't report cost. */
+  costUsd: number;
+  createdAt: string;
+}
+
+/** Aggregated usage for one group (a task, project, provider or local calendar day). */
+export interface UsageSummaryRow {
+  key: string;
+  label: string;
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export const USAGE_BUDGET_SCOPES = ['task', 'project', 'day'] as const;
+export type UsageBudgetScope = (typeof USAGE_BUDGET_SCOPES)[number];
+
+/** Spending limits in USD; null means no limit for that scope. */
+export interface UsageBudgets {
+  enabled: boolean;
+  perTaskUsd: number | null;
+  perProjectUsd: number | null;
+  dailyUsd: number | null;
+}
+
+/** Spend so far for the scopes a session belongs to. */
+export type UsageSpend = Record<UsageBudgetScope, number>;
+
+export interface UsageBudgetBreach {
+  scope: UsageBudgetScope;
+  limitUsd: number;
+  spentUsd: number;
+}
+
+/** Returns the first budget that `spend` has reached, or null when all are within limits. */
+export function findExceededBudget(
+  budgets: UsageBudgets | undefined,
+  spend: UsageSpend
+): UsageBudgetBreach | null {
+  if (!budgets?.enabled) return null;
+  const limits: Record<UsageBudgetScope, number | null> = {
+    task: budgets.perTaskUsd,
+    project: budgets.perProjectUsd,
+    day: budgets.dailyUsd,
+  };
+  for (const scope of USAGE_BUDGET_SCOPES) {
+    const limitUsd = limits[scope];
+    if (limitUsd != null && limitUsd > 0 && spend[scope] >= limitUsd) {
+      return { scope, limitUsd, spentUsd: spend[scope] };
+    }
+  }
+  return null;
+}
+
+const BUDGET_SCOPE_LABELS: Record<UsageBudgetScope, string> = {
+  task: 'Task',
+  project: 'Project',
+  day: 'Daily',
+};
+
+export function formatBudgetBreach(breach: UsageBudgetBreach): string {
+  return `${BUDGET_SCOPE_LABELS[breach.scope]} budget of $${breach.limitUsd.toFixed(2)} reached ($${breach.spentUsd.toFixed(2)} spent)`;
+}
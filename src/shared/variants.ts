@@ -0,0 +1,29 @@
+export type WinnerStrategy = 'merge' | 'cherry-pick';
+
+/** One multi-agent variant's worktree, as stored in the task metadata. */
+export interface VariantRef {
+  worktreeId: string;
+  name: string;
+  branch: string;
+  path: string;
+}
+
+export interface VariantFileChange {
+  path: string;
+  status: string;
+  additions: number;
+  deletions: number;
+}
+
+export interface VariantComparison {
+  /** Commit every variant forked from; diffs are taken against it. */
+  baseSha: string;
+  variants: Array<{ worktreeId: string; changes: VariantFileChange[]; error?: string }>;
+}
+
+export interface PickWinnerResult {
+  branch: string;
+  path: string;
+  /** Losing worktrees that could not be removed; the winner is still in place. */
+  cleanupFailures: Array<{ worktreeId: string; error: string }>;
+}
@@ -0,0 +1,60 @@
+export const VERIFY_GATE_MODES = ['off', 'warn', 'block'] as const;
+export type VerifyGateMode = (typeof VERIFY_GATE_MODES)[number];
+
+/** The `verify` block of `.valkyr.json`; the command itself is `scripts.verify`. */
+export interface VerifyConfig {
+  /** JUnit XML files written by the verify command, relative to the worktree. */
+  reports?: string[];
+  /** What commit, PR and merge actions do when the latest run failed or is stale. */
+  gate?: VerifyGateMode;
+}
+
+export const VERIFY_RUN_STATUSES = ['passed', 'failed', 'error'] as const;
+/** `error` means the command could not run at all. */
+export type VerifyRunStatus = (typeof VERIFY_RUN_STATUSES)[number];
+
+export interface VerifyTestFailure {
+  suite: string | null;
+  name: string;
+  message: string | null;
+}
+
+export interface VerifySummary {
+  tests: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  /** First failing tests across all reports. */
+  failures: VerifyTestFailure[];
+  /** Where results came from, e.g. `junit:reports/junit.xml` or `tap:output`. */
+  sources: string[];
+}
+
+export interface VerifyRun {
+  id: string;
+  taskId: string;
+  status: VerifyRunStatus;
+  exitCode: number | null;
+  headSha: string | null;
+  /** Tree of the worktree (tracked and untracked files) the run saw. */
+  treeSha: string | null;
+  summary: VerifySummary;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string;
+}
+
+export const VERIFY_GATE_STATES = ['ok', 'missing', 'failed', 'stale'] as const;
+export type VerifyGateState = (typeof VERIFY_GATE_STATES)[number];
+
+/** Whether git actions may proceed for a task, given its latest verify run. */
+export interface VerifyGate {
+  state: VerifyGateState;
+  mode: VerifyGateMode;
+  /** Explains a state other than `ok`. */
+  message: string | null;
+}
+
+export function emptyVerifySummary(): VerifySummary {
+  return { tests: 0, passed: 0, failed: 0, skipped: 0, failures: [], sources: [] };
+}
@@ -0,0 +1,32 @@
+export const WORKTREE_POOL_MAX_SIZE = 8;
+
+/** How many warm reserve worktrees to keep per project; 0 disables the pool. */
+export interface WorktreePoolConfig {
+  size: number;
+  /** Run the `.valkyr.json` setup script inside reserves before they are claimed. */
+  runSetup: boolean;
+}
+
+export function clampPoolSize(value: unknown, fallback: number): number {
+  const n = typeof value === 'number' ? value : Number(value);
+  if (value == null || value === '' || !Number.isFinite(n)) return fallback;
+  return Math.min(WORKTREE_POOL_MAX_SIZE, Math.max(0, Math.floor(n)));
+}
+
+export interface WorktreePoolMetrics {
+  projectId: string;
+  /** Target depth after project overrides. */
+  size: number;
+  /** Reserves ready to claim (setup finished or not configured). */
+  ready: number;
+  /** Reserves still running their setup script. */
+  warming: number;
+  /** Reserves being created right now. */
+  creating: number;
+  hits: number;
+  misses: number;
+  /** Reserves discarded because their base ref moved. */
+  refreshed: number;
+  lastClaimMs: number | null;
+  avgClaimMs: number | null;
+}
@@ -0,0 +1,48 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+
+/** Run git in `cwd` and return its trimmed output. */
+export const git = (cwd: string, ...args: string[]) =>
+  execFileSync('git', args, { cwd, encoding: 'utf8', stdio: 'pipe' }).trim();
+
+export const write = (cwd: string, file: string, content: string) =>
+  fs.writeFileSync(path.join(cwd, file), content);
+
+/** Write and commit a single file; returns the new HEAD sha. */
+export const commit = (cwd: string, file: string, content: string, message: string) => {
+  write(cwd, file, content);
+  git(cwd, 'add', file);
+  git(cwd, 'commit', '-q', '-m', message);
+  return git(cwd, 'rev-parse', 'HEAD');
+};
+
+export interface TestRepo {
+  /** Temp directory holding the repository and its worktrees; remove it after the test. */
+  tempDir: string;
+  repo: string;
+}
+
+/** A repository on `main` whose only commit, `init`, adds `app.txt`. */
+export function createRepo(prefix: string, appContent = 'one\ntwo\nthree\n'): TestRepo {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+  const repo = path.join(tempDir, 'repo');
+  fs.mkdirSync(repo);
+  git(repo, 'init', '-q', '-b', 'main');
+  git(repo, 'config', 'user.email', 'test@test.com');
+  git(repo, 'config', 'user.name', 'Test');
+  commit(repo, 'app.txt', appContent, 'init');
+  return { tempDir, repo };
+}
+
+/** `createRepo` plus a task worktree at `taskPath` on the branch `feature`. */
+export function createTaskRepo(
+  prefix: string,
+  appContent?: string
+): TestRepo & { taskPath: string } {
+  const { tempDir, repo } = createRepo(prefix, appContent);
+  const taskPath = path.join(tempDir, 'task');
+  git(repo, 'worktree', 'add', '-q', '-b', 'feature', taskPath);
+  return { tempDir, repo, taskPath };
+}
@@ -0,0 +1,204 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { execFileSync } from 'child_process';
+import type { AddressInfo } from 'net';
+import type { AcpRegistry } from '../../shared/acpRegistry';
+
+vi.mock('electron', () => ({
+  app: { getPath: () => os.tmpdir() },
+}));
+
+vi.mock('../../main/lib/logger', () => ({
+  log: { info: vi.fn(), debug: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import { AcpRegistryService } from '../../main/services/AcpRegistryService';
+
+describe('AcpRegistryService', () => {
+  let fixtureDir: string;
+  let baseDir: string;
+  let server: http.Server;
+  let origin: string;
+  let registry: AcpRegistry;
+  const archives = new Map<string, Buffer>();
+
+  const platformKey = new AcpRegistryService().getPlatformKey();
+
+  /** Build a tar.gz holding an `agent` script that prints `version`. */
+  const makeArchive = (version: string): Buffer => {
+    const src = path.join(fixtureDir, `src-${version}`);
+    fs.mkdirSync(src, { recursive: true });
+    fs.writeFileSync(path.join(src, 'agent'), `#!/bin/sh\necho ${version}\n`);
+    const out = path.join(fixtureDir, `agent-${version}.tar.gz`);
+    execFileSync('tar', ['czf', out, '-C', src, 'agent']);
+    return fs.readFileSync(out);
+  };
+
+  const sha256 = (buffer: Buffer) => createHash('sha256').update(buffer).digest('hex');
+
+  /** Publish `version` in the fixture registry, optionally with the archive's hash. */
+  const publish = (version: string, options: { sha256?: string } = {}) => {
+    const archive = makeArchive(version);
+    archives.set(`/agent-${version}.tar.gz`, archive);
+    registry = {
+      version: '1',
+      agents: [
+        {
+          id: 'fixture-agent',
+          name: 'Fixture Agent',
+          version,
+          description: 'Test agent',
+          authors: [],
+          license: 'MIT',
+          distribution: {
+            binary: {
+              [platformKey]: {
+                archive: `${origin}/agent-${version}.tar.gz`,
+                cmd: 'agent',
+                args: ['--acp'],
+                ...options,
+              },
+            },
+          },
+        },
+      ],
+    };
+    return archive;
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/registry.json') {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(registry));
+        return;
+      }
+      const archive = archives.get(req.url ?? '');
+      res.statusCode = archive ? 200 : 404;
+      res.end(archive);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'acp-registry-test-'));
+    baseDir = path.join(fixtureDir, 'agents');
+    archives.clear();
+  });
+
+  afterEach(() => {
+    fs.rmSync(fixtureDir, { recursive: true, force: true });
+  });
+
+  const createService = () =>
+    new AcpRegistryService({ registryUrl: `${origin}/registry.json`, baseDir });
+
+  it('installs an archive matching the published hash and records it in the lock', async () => {
+    const archive = makeArchive('1.0.0');
+    publish('1.0.0', { sha256: sha256(archive) });
+    const service = createService();
+
+    expect(await service.installAgent('fixture-agent')).toEqual({ success: true });
+
+    const command = await service.resolveCommand('fixture-agent');
+    expect(command?.args).toEqual(['--acp']);
+    expect(execFileSync(command!.command, { encoding: 'utf8' }).trim()).toBe('1.0.0');
+    const lock = JSON.parse(fs.readFileSync(path.join(baseDir, 'lock.json'), 'utf8'));
+    expect(lock[`fixture-agent@1.0.0/${platformKey}`]).toBe(sha256(archive));
+  });
+
+  it('rejects an archive whose hash differs from the registry or the lock', async () => {
+    publish('1.0.0', { sha256: 'a'.repeat(64) });
+    const service = createService();
+
+    const result = await service.installAgent('fixture-agent');
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Checksum mismatch');
+    expect(await service.isInstalled('fixture-agent')).toBe(false);
+
+    // Without a published hash, the one locked on first install is enforced
+    publish('1.0.0');
+    await service.fetchRegistry({ refresh: true });
+    await service.installAgent('fixture-agent');
+    archives.set('/agent-1.0.0.tar.gz', makeArchive('tampered'));
+    const reinstall = await service.installAgent('fixture-agent');
+    expect(reinstall.error).toContain('Checksum mismatch');
+    const command = await service.resolveCommand('fixture-agent');
+    expect(execFileSync(command!.command, { encoding: 'utf8' }).trim()).toBe('1.0.0');
+  });
+
+  it('keeps the locked hash when the registry publishes a different one', async () => {
+    publish('1.0.0');
+    const service = createService();
+    expect(await service.installAgent('fixture-agent')).toEqual({ success: true });
+
+    // Same version re-published with a new archive and a hash that matches it
+    const replaced = makeArchive('replaced');
+    archives.set('/agent-1.0.0.tar.gz', replaced);
+    const entry = registry.agents[0];
+    entry.distribution.binary![platformKey].sha256 = sha256(replaced);
+    await service.fetchRegistry({ refresh: true });
+
+    const reinstall = await service.installAgent('fixture-agent');
+    expect(reinstall.success).toBe(false);
+    expect(reinstall.error).toContain('Checksum mismatch');
+    const command = await service.resolveCommand('fixture-agent');
+    expect(execFileSync(command!.command, { encoding: 'utf8' }).trim()).toBe('1.0.0');
+  });
+
+  it('upgrades to the registry version and rolls back to the previous one', async () => {
+    publish('1.0.0');
+    const service = createService();
+    await service.installAgent('fixture-agent');
+    expect(await service.checkUpdates()).toEqual([]);
+
+    publish('2.0.0');
+    expect(await service.checkUpdates()).toEqual([
+      {
+        id: 'fixture-agent',
+        name: 'Fixture Agent',
+        installedVersion: '1.0.0',
+        latestVersion: '2.0.0',
+      },
+    ]);
+
+    expect(await service.upgradeAgent('fixture-agent')).toEqual({ success: true });
+    const [upgraded] = await service.getInstalledAgents();
+    expect([upgraded.version, upgraded.previous?.version]).toEqual(['2.0.0', '1.0.0']);
+
+    expect(await service.rollbackAgent('fixture-agent')).toEqual({ success: true });
+    const command = await service.resolveCommand('fixture-agent');
+    expect(execFileSync(command!.command, { encoding: 'utf8' }).trim()).toBe('1.0.0');
+  });
+
+  it('refuses to resolve a version other than the pinned one', async () => {
+    const archive = publish('1.0.0');
+    const service = createService();
+    await service.installAgent('fixture-agent');
+    publish('2.0.0');
+    await service.upgradeAgent('fixture-agent');
+
+    // The previous version still satisfies the pin
+    const pinned = await service.resolveCommand('fixture-agent', {
+      version: '1.0.0',
+      sha256: sha256(archive),
+    });
+    expect(execFileSync(pinned!.command, { encoding: 'utf8' }).trim()).toBe('1.0.0');
+
+    await expect(service.resolveCommand('fixture-agent', { version: '3.0.0' })).rejects.toThrow(
+      'pinned to 3.0.0'
+    );
+    await expect(
+      service.resolveCommand('fixture-agent', { version: '2.0.0', sha256: 'b'.repeat(64) })
+    ).rejects.toThrow('does not match the hash');
+  });
+});
@@ -0,0 +1,476 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import path from 'path';
+import { EventEmitter } from 'events';
+
+const getAppSettingsMock = vi.fn();
+const saveMessageMock = vi.fn();
+const getUsageSpendMock = vi.fn();
+const evaluatePolicyMock = vi.fn();
+const findBwrapMock = vi.fn<() => string | null>(() => '/usr/bin/bwrap');
+
+vi.mock('electron', () => ({
+  app: { getPath: () => '/tmp', getVersion: () => '0.0.0-test' },
+  BrowserWindow: { getAllWindows: () => [] },
+  Notification: { isSupported: () => false },
+}));
+
+vi.mock('../../main/settings', () => ({
+  getAppSettings: () => getAppSettingsMock(),
+}));
+
+vi.mock('../../main/lib/logger', () => ({
+  log: { info: vi.fn(), debug: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../../main/ipc/settingsIpc', () => ({
+  getStoredProviderKeys: () => ({}),
+}));
+
+vi.mock('../../main/services/AcpRegistryService', () => ({
+  acpRegistryService: {},
+}));
+
+vi.mock('../../main/services/CustomAgentService', () => ({
+  customAgentService: {},
+}));
+
+vi.mock('../../main/services/LifecycleScriptsService', () => ({
+  lifecycleScriptsService: {},
+}));
+
+vi.mock('../../main/services/ssh/SshService', () => ({
+  sshService: {},
+}));
+
+vi.mock('../../main/services/ApprovalPolicyService', () => ({
+  approvalPolicyService: { evaluate: (...args: unknown[]) => evaluatePolicyMock(...args) },
+}));
+
+vi.mock('../../main/services/CheckpointService', () => ({
+  checkpointService: { create: async () => null },
+}));
+
+vi.mock('../../main/utils/terminalSandbox', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../main/utils/terminalSandbox')>()),
+  findBwrap: () => findBwrapMock(),
+}));
+
+vi.mock('../../main/services/DatabaseService', () => ({
+  databaseService: {
+    saveMessage: (...args: unknown[]) => saveMessageMock(...args),
+    getUsageSpend: (...args: unknown[]) => getUsageSpendMock(...args),
+    saveUsageEntry: async () => {},
+  },
+}));
+
+import type { Client } from '@agentclientprotocol/sdk';
+import { AcpSessionManager, type AcpUpdateEvent } from '../../main/services/AcpSessionManager';
+
+/** Private state the tests seed sessions into. */
+type Internals = {
+  connections: Map<string, unknown>;
+  sessions: Map<string, unknown>;
+  acpSessionIdToSessionKey: Map<string, string>;
+  createConnectionScopedClient(connectionKey: string): Client;
+  setStatus(sessionKey: string, status: string): void;
+};
+
+type Deferred = { resolve: (value: unknown) => void; reject: (err: Error) => void };
+
+/** Fake agent connection; each prompt stays open until the test settles it. */
+function createConnection() {
+  const prompts: Array<{ text: string; blocks: unknown[] } & Deferred> = [];
+  const connection = {
+    prompt: vi.fn(
+      (req: { prompt: Array<{ type: string; text?: string }> }) =>
+        new Promise((resolve, reject) => {
+          const text = req.prompt.find((b) => b.type === 'text')?.text ?? '';
+          prompts.push({ text, blocks: req.prompt, resolve, reject });
+        })
+    ),
+  };
+  return { connection, prompts };
+}
+
+/** Local host whose file system is an in-memory map. */
+function createHost() {
+  const files = new Map<string, string>();
+  return {
+    files,
+    connectionId: null,
+    path,
+    resolvePath: async (requested: string, opts: { root: string }) =>
+      path.resolve(opts.root, requested),
+    readTextFile: async (filePath: string) => {
+      const content = files.get(filePath);
+      if (content === undefined) throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+      return content;
+    },
+    writeTextFile: vi.fn(async (filePath: string, content: string) => {
+      files.set(filePath, content);
+    }),
+    spawn: vi.fn(() =>
+      Object.assign(new EventEmitter(), { stdout: new EventEmitter(), stderr: new EventEmitter() })
+    ),
+  };
+}
+
+function setup(status: 'ready' | 'streaming' = 'ready') {
+  const manager = new AcpSessionManager();
+  const events: AcpUpdateEvent[] = [];
+  manager.setEventSender((_key, batch) => events.push(...batch));
+
+  const { connection, prompts } = createConnection();
+  const internals = manager as unknown as Internals;
+  const host = createHost();
+  internals.acpSessionIdToSessionKey.set('acp-1', 's1');
+  internals.connections.set('conn-1', { connectionKey: 'conn-1', connection, dead: false });
+  internals.sessions.set('s1', {
+    sessionKey: 's1',
+    conversationId: 'conv-1',
+    providerId: 'claude',
+    cwd: '/work/task',
+    host,
+    status,
+    connectionKey: 'conn-1',
+    acpSessionId: 'acp-1',
+    modes: null,
+    models: null,
+    pendingPermissions: new Map(),
+    promptQueue: [],
+    reviewWrites: false,
+    pendingWrites: new Map(),
+    terminals: new Map(),
+    reportedCostUsd: 0,
+    usageTurn: null,
+  });
+
+  const queueOf = () => manager.getQueue('s1').queue!.map((q) => q.message);
+  return { manager, internals, host, events, prompts, queueOf };
+}
+
+beforeEach(() => {
+  getAppSettingsMock.mockReturnValue({});
+  saveMessageMock.mockReset().mockResolvedValue(undefined);
+  getUsageSpendMock.mockReset();
+  evaluatePolicyMock.mockReset().mockReturnValue(null);
+});
+
+describe('AcpSessionManager prompt queue', () => {
+  it('queues prompts while the agent is busy and edits them in place', async () => {
+    const { manager, prompts, queueOf } = setup('streaming');
+
+    const first = await manager.sendPrompt('s1', 'first');
+    manager.queuePrompt('s1', 'second');
+    manager.queuePrompt('s1', 'urgent', undefined, 0);
+    expect(first).toMatchObject({ success: true, queued: true });
+    expect(queueOf()).toEqual(['urgent', 'first', 'second']);
+
+    manager.reorderQueue('s1', first.queueItemId!, 5);
+    expect(queueOf()).toEqual(['urgent', 'second', 'first']);
+    manager.editQueuedPrompt('s1', first.queueItemId!, 'first, reworded');
+    expect(queueOf()).toEqual(['urgent', 'second', 'first, reworded']);
+    const [urgent] = manager.getQueue('s1').queue!;
+    manager.removeQueuedPrompt('s1', urgent.id);
+    expect(queueOf()).toEqual(['second', 'first, reworded']);
+    expect(manager.removeQueuedPrompt('s1', urgent.id)).toEqual({
+      success: false,
+      error: 'Queued prompt not found',
+    });
+    expect(prompts).toHaveLength(0);
+  });
+
+  it('caps the queue', () => {
+    const { manager, queueOf } = setup('streaming');
+    for (let i = 0; i < 50; i++) manager.queuePrompt('s1', `prompt ${i}`);
+
+    expect(manager.queuePrompt('s1', 'one too many')).toEqual({
+      success: false,
+      error: 'Queue is full (max 50 prompts)',
+    });
+    expect(queueOf()).toHaveLength(50);
+  });
+
+  it('drains the queue head-first as each turn ends', async () => {
+    const { manager, events, prompts, queueOf } = setup();
+
+    await manager.sendPrompt('s1', 'first');
+    await manager.sendPrompt('s1', 'second');
+    await manager.sendPrompt('s1', 'third');
+    expect(prompts.map((p) => p.text)).toEqual(['first']);
+    expect(queueOf()).toEqual(['second', 'third']);
+
+    prompts[0].resolve({ stopReason: 'end_turn' });
+    await vi.waitFor(() => expect(prompts).toHaveLength(2));
+    expect(prompts[1].text).toBe('second');
+    expect(queueOf()).toEqual(['third']);
+
+    prompts[1].reject(new Error('agent crashed'));
+    await vi.waitFor(() => expect(prompts).toHaveLength(3));
+    expect(prompts[2].text).toBe('third');
+    expect(queueOf()).toEqual([]);
+
+    await vi.waitFor(() =>
+      expect(events.filter((e) => e.type === 'prompt_dequeued')).toHaveLength(2)
+    );
+  });
+
+  it('puts the item back when the session is claimed before it drains', async () => {
+    const { manager, internals, prompts, queueOf } = setup('streaming');
+    manager.queuePrompt('s1', 'queued');
+
+    internals.setStatus('s1', 'ready');
+    internals.setStatus('s1', 'submitted');
+    await new Promise((resolve) => process.nextTick(resolve));
+
+    expect(queueOf()).toEqual(['queued']);
+    expect(prompts).toHaveLength(0);
+  });
+
+  it('persists the user message of a drained prompt when no renderer is attached', async () => {
+    const { manager, internals, prompts } = setup('streaming');
+    const { queueItemId } = manager.queuePrompt('s1', 'while away');
+    manager.detachSession('s1');
+
+    internals.setStatus('s1', 'ready');
+    await vi.waitFor(() => expect(prompts).toHaveLength(1));
+
+    expect(saveMessageMock).toHaveBeenCalledWith({
+      id: queueItemId,
+      conversationId: 'conv-1',
+      content: 'while away',
+      sender: 'user',
+      parts: JSON.stringify([{ type: 'text', text: 'while away' }]),
+    });
+  });
+
+  it('keeps a queued prompt and reports it when the connection has died', async () => {
+    const { manager, internals, events, prompts, queueOf } = setup('streaming');
+    manager.queuePrompt('s1', 'follow-up');
+    (internals.connections.get('conn-1') as { dead: boolean }).dead = true;
+
+    internals.setStatus('s1', 'ready');
+    await vi.waitFor(() =>
+      expect(events.find((e) => e.type === 'prompt_error')).toMatchObject({
+        error: 'The agent connection closed; the queued prompt was kept',
+      })
+    );
+
+    expect(queueOf()).toEqual(['follow-up']);
+    expect(prompts).toHaveLength(0);
+    expect(events.some((e) => e.type === 'prompt_dequeued')).toBe(false);
+  });
+
+  it('keeps the queue paused once a budget is used up', async () => {
+    const { manager, internals, events, prompts, queueOf } = setup('streaming');
+    manager.queuePrompt('s1', 'expensive');
+    getAppSettingsMock.mockReturnValue({
+      usageBudgets: { enabled: true, perTaskUsd: 5, perProjectUsd: null, dailyUsd: null },
+    });
+    getUsageSpendMock.mockResolvedValue({ task: 5.5, project: 5.5, day: 5.5 });
+
+    internals.setStatus('s1', 'ready');
+    await vi.waitFor(() =>
+      expect(events.find((e) => e.type === 'budget_exceeded')).toMatchObject({
+        breach: { scope: 'task', limitUsd: 5, spentUsd: 5.5 },
+      })
+    );
+
+    expect(queueOf()).toEqual(['expensive']);
+    expect(prompts).toHaveLength(0);
+  });
+});
+
+describe('AcpSessionManager prompt attachments', () => {
+  const dataUrl = (mediaType: string, content: string) =>
+    `data:${mediaType};base64,${Buffer.from(content).toString('base64')}`;
+
+  it('sends text files as readable text and other files as blobs', async () => {
+    const { manager, prompts } = setup();
+
+    await manager.sendPrompt('s1', 'what broke?', [
+      {
+        url: dataUrl('text/plain', 'TypeError: x is undefined'),
+        mediaType: 'text/plain',
+        filename: 'preview-logs.txt',
+      },
+      { url: dataUrl('image/png', 'png'), mediaType: 'image/png' },
+      {
+        url: dataUrl('application/pdf', 'pdf'),
+        mediaType: 'application/pdf',
+        filename: 'spec.pdf',
+      },
+      { url: 'https://example.com/not-inline.txt', mediaType: 'text/plain' },
+    ]);
+    await vi.waitFor(() => expect(prompts).toHaveLength(1));
+
+    expect(prompts[0].blocks).toEqual([
+      {
+        type: 'resource',
+        resource: {
+          uri: 'file:///preview-logs.txt',
+          mimeType: 'text/plain',
+          text: 'TypeError: x is undefined',
+        },
+      },
+      { type: 'image', data: Buffer.from('png').toString('base64'), mimeType: 'image/png' },
+      {
+        type: 'resource',
+        resource: {
+          uri: 'file:///spec.pdf',
+          mimeType: 'application/pdf',
+          blob: Buffer.from('pdf').toString('base64'),
+        },
+      },
+      { type: 'text', text: 'what broke?' },
+    ]);
+  });
+});
+
+describe('AcpSessionManager review writes', () => {
+  const setupReview = () => {
+    const ctx = setup();
+    ctx.manager.setReviewWrites('s1', true);
+    ctx.host.files.set('/work/task/app.ts', 'const a = 1;\n');
+    const client = ctx.internals.createConnectionScopedClient('conn-1');
+    const write = (content: string) =>
+      client.writeTextFile!({ sessionId: 'acp-1', path: 'app.ts', content });
+    const proposed = () =>
+      ctx.events.flatMap((e) => (e.type === 'write_proposed' ? [e.write] : []));
+    return { ...ctx, write, proposed };
+  };
+
+  it('writes the file once the user accepts', async () => {
+    const { manager, host, write, proposed } = setupReview();
+
+    const call = write('const a = 2;\n');
+    await vi.waitFor(() => expect(proposed()).toHaveLength(1));
+    const [staged] = proposed();
+    expect(staged).toMatchObject({ path: 'app.ts', isNewFile: false });
+    expect(staged.diff).toContain('-const a = 1;\n+const a = 2;');
+    expect(host.files.get('/work/task/app.ts')).toBe('const a = 1;\n');
+
+    expect(await manager.resolveWrite('s1', staged.id, true)).toEqual({ success: true });
+    await expect(call).resolves.toEqual({});
+    expect(host.files.get('/work/task/app.ts')).toBe('const a = 2;\n');
+  });
+
+  it('fails the agent call when the user rejects', async () => {
+    const { manager, host, write, proposed } = setupReview();
+
+    const call = write('const a = 2;\n');
+    await vi.waitFor(() => expect(proposed()).toHaveLength(1));
+    await manager.resolveWrite('s1', proposed()[0].id, false);
+
+    await expect(call).rejects.toThrow('The user rejected this file write');
+    expect(host.writeTextFile).not.toHaveBeenCalled();
+  });
+
+  it('writes straight through when an approval rule allows edits', async () => {
+    evaluatePolicyMock.mockReturnValue({ decision: 'allow', source: 'project', ruleId: 'r1' });
+    const { host, write, proposed } = setupReview();
+
+    await expect(write('const a = 2;\n')).resolves.toEqual({});
+    expect(host.files.get('/work/task/app.ts')).toBe('const a = 2;\n');
+    expect(proposed()).toEqual([]);
+  });
+
+  it('replaces a staged write to the same file', async () => {
+    const { manager, host, events, write, proposed } = setupReview();
+
+    const first = write('const a = 2;\n');
+    await vi.waitFor(() => expect(proposed()).toHaveLength(1));
+    const second = write('const a = 2;\nconst b = 3;\n');
+    await vi.waitFor(() => expect(proposed()).toHaveLength(2));
+
+    const [replaced, latest] = proposed();
+    expect(events).toContainEqual({
+      type: 'write_resolved',
+      writeId: replaced.id,
+      accepted: false,
+    });
+    expect(latest.diff).toContain('-const a = 1;\n+const a = 2;\n+const b = 3;');
+    expect(await manager.resolveWrite('s1', replaced.id, true)).toMatchObject({ success: false });
+
+    await manager.resolveWrite('s1', latest.id, true);
+    await expect(first).resolves.toEqual({});
+    await expect(second).resolves.toEqual({});
+    expect(host.writeTextFile).toHaveBeenCalledTimes(1);
+    expect(host.files.get('/work/task/app.ts')).toBe('const a = 2;\nconst b = 3;\n');
+  });
+});
+
+describe('AcpSessionManager terminal sandbox', () => {
+  const platform = process.platform;
+  beforeEach(() => {
+    Object.defineProperty(process, 'platform', { value: 'linux' });
+    return () => Object.defineProperty(process, 'platform', { value: platform });
+  });
+
+  const startTerminal = async (settings: object) => {
+    getAppSettingsMock.mockReturnValue(settings);
+    const { internals, host } = setup();
+    const client = internals.createConnectionScopedClient('conn-1');
+    const { terminalId } = await client.createTerminal!({
+      sessionId: 'acp-1',
+      command: 'npm',
+      args: ['test'],
+      cwd: 'packages/app',
+    });
+    return { client, host, terminalId };
+  };
+
+  const createTerminal = async (settings: object) => {
+    const { host } = await startTerminal(settings);
+    return host.spawn.mock.calls[0] as unknown as [string, string[], { cwd: string }];
+  };
+
+  it('sandboxes providers that default to it', async () => {
+    const [command, args] = await createTerminal({ acpSandbox: { mode: 'provider' } });
+
+    expect(command).toBe('/usr/bin/bwrap');
+    expect(args).toEqual(expect.arrayContaining(['--bind', '/work/task', '/work/task']));
+    expect(args.slice(-5)).toEqual(['--chdir', '/work/task/packages/app', '--', 'npm', 'test']);
+    expect(args).not.toContain('--unshare-net');
+  });
+
+  it('runs commands directly when the sandbox is turned off', async () => {
+    const [command, args, opts] = await createTerminal({ acpSandbox: { mode: 'off' } });
+
+    expect(command).toBe('npm');
+    expect(args).toEqual(['test']);
+    expect(opts.cwd).toBe('/work/task/packages/app');
+  });
+
+  it('falls back to a direct run with a notice when a provider default needs missing bwrap', async () => {
+    findBwrapMock.mockReturnValueOnce(null);
+    const { client, host, terminalId } = await startTerminal({ acpSandbox: { mode: 'provider' } });
+
+    expect(host.spawn.mock.calls[0]).toEqual(expect.arrayContaining(['npm', ['test']]));
+    const { output } = await client.terminalOutput!({ sessionId: 'acp-1', terminalId });
+    expect(output).toContain('bubblewrap (bwrap) is not installed');
+  });
+
+  it('refuses to run when the user requires the sandbox and bwrap is missing', async () => {
+    findBwrapMock.mockReturnValueOnce(null);
+
+    await expect(createTerminal({ acpSandbox: { mode: 'always' } })).rejects.toThrow(
+      'bubblewrap (bwrap) is not installed'
+    );
+  });
+});
+
+describe('AcpSessionManager teardown', () => {
+  it('reports a killed session as ended once', () => {
+    const { manager } = setup();
+    const ended = vi.fn();
+    manager.setSessionEndedListener(ended);
+
+    manager.killSession('s1');
+    manager.killSession('s1');
+
+    expect(ended).toHaveBeenCalledTimes(1);
+    expect(ended).toHaveBeenCalledWith('s1');
+    expect(manager.hasSession('s1')).toBe(false);
+  });
+});
@@ -0,0 +1,156 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const readConfigMock = vi.fn();
+const getAppSettingsMock = vi.fn();
+
+vi.mock('../../main/services/LifecycleScriptsService', () => ({
+  lifecycleScriptsService: {
+    readConfig: (...args: any[]) => readConfigMock(...args),
+  },
+}));
+
+vi.mock('../../main/settings', () => ({
+  getAppSettings: () => getAppSettingsMock(),
+}));
+
+vi.mock('../../main/services/DatabaseService', () => ({
+  databaseService: {
+    savePermissionAudit: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock('../../main/lib/logger', () => ({
+  log: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import {
+  approvalPolicyService,
+  matchesRule,
+  type PermissionRequestContext,
+} from '../../main/services/ApprovalPolicyService';
+
+const WORKTREE = '/repo/worktrees/task-1';
+
+function ctx(overrides: Partial<PermissionRequestContext> = {}): PermissionRequestContext {
+  return {
+    providerId: 'claude',
+    worktreePath: WORKTREE,
+    toolKind: 'edit',
+    title: null,
+    command: null,
+    paths: [],
+    ...overrides,
+  };
+}
+
+describe('matchesRule', () => {
+  it('matches command prefixes on word boundaries', () => {
+    const rule = { decision: 'allow_once' as const, commandPrefixes: ['npm test'] };
+    expect(matchesRule(rule, ctx({ toolKind: 'execute', command: 'npm test' }))).toBe(true);
+    expect(matchesRule(rule, ctx({ toolKind: 'execute', command: 'npm test -- foo' }))).toBe(true);
+    expect(matchesRule(rule, ctx({ toolKind: 'execute', command: 'npm testing' }))).toBe(false);
+  });
+
+  it('refuses to allow chained shell commands', () => {
+    const allow = { decision: 'allow_once' as const, commandPrefixes: ['git status'] };
+    const reject = { decision: 'reject' as const, commandPrefixes: ['rm'] };
+    expect(matchesRule(allow, ctx({ command: 'git status && rm -rf /' }))).toBe(false);
+    expect(matchesRule(reject, ctx({ command: 'rm -rf / ; echo hi' }))).toBe(true);
+  });
+
+  it('requires every path to qualify for allow rules but any path for reject rules', () => {
+    const paths = [`${WORKTREE}/src/a.ts`, '/etc/hosts'];
+    expect(
+      matchesRule({ decision: 'allow_always', pathScope: 'inside_worktree' }, ctx({ paths }))
+    ).toBe(false);
+    expect(matchesRule({ decision: 'reject', pathScope: 'outside_worktree' }, ctx({ paths }))).toBe(
+      true
+    );
+  });
+
+  it('matches globs against worktree-relative paths', () => {
+    const rule = { decision: 'allow_once' as const, pathGlobs: ['src/**'] };
+    expect(matchesRule(rule, ctx({ paths: [`${WORKTREE}/src/deep/file.ts`] }))).toBe(true);
+    expect(matchesRule(rule, ctx({ paths: [`${WORKTREE}/scripts/x.sh`] }))).toBe(false);
+    expect(
+      matchesRule(
+        { decision: 'reject', pathGlobs: ['.env*'] },
+        ctx({ paths: [`${WORKTREE}/a/.env.local`] })
+      )
+    ).toBe(true);
+  });
+
+  it('filters on tool kind and provider', () => {
+    const rule = {
+      decision: 'allow_once' as const,
+      toolKinds: ['read' as const],
+      providers: ['codex'],
+    };
+    expect(matchesRule(rule, ctx({ toolKind: 'read', providerId: 'codex' }))).toBe(true);
+    expect(matchesRule(rule, ctx({ toolKind: 'read', providerId: 'claude' }))).toBe(false);
+    expect(matchesRule(rule, ctx({ toolKind: 'edit', providerId: 'codex' }))).toBe(false);
+  });
+});
+
+describe('ApprovalPolicyService.evaluate', () => {
+  beforeEach(() => {
+    readConfigMock.mockReset();
+    getAppSettingsMock.mockReset();
+    getAppSettingsMock.mockReturnValue({
+      approvalPolicy: { enabled: true, rules: [{ decision: 'allow_always', toolKinds: ['read'] }] },
+    });
+  });
+
+  it('prefers project rules over global rules', () => {
+    readConfigMock.mockReturnValue({
+      approvalPolicy: { rules: [{ id: 'no-reads', decision: 'reject', toolKinds: ['read'] }] },
+    });
+    const match = approvalPolicyService.evaluate(ctx({ toolKind: 'read' }), '/repo');
+    expect(match).toMatchObject({
+      decision: 'reject',
+      source: 'project_policy',
+      ruleId: 'no-reads',
+    });
+  });
+
+  it('falls back to global rules and labels unnamed rules by position', () => {
+    readConfigMock.mockReturnValue(null);
+    const match = approvalPolicyService.evaluate(ctx({ toolKind: 'read' }), '/repo');
+    expect(match).toMatchObject({ decision: 'allow_always', ruleId: 'global_policy#1' });
+  });
+
+  it('never auto-allows edits to the project .valkyr.json', () => {
+    readConfigMock.mockReturnValue({
+      approvalPolicy: { rules: [{ decision: 'allow_always' }] },
+    });
+    const match = approvalPolicyService.evaluate(ctx({ paths: ['/repo/.valkyr.json'] }), '/repo');
+    expect(match).toBeNull();
+  });
+
+  it('returns null when no rule matches', () => {
+    readConfigMock.mockReturnValue(null);
+    expect(approvalPolicyService.evaluate(ctx({ toolKind: 'execute' }), '/repo')).toBeNull();
+  });
+});
+
+describe('ApprovalPolicyService.describeRequest', () => {
+  it('extracts command and resolves paths against the worktree', () => {
+    const described = approvalPolicyService.describeRequest(
+      {
+        kind: 'execute',
+        title: 'Run tests',
+        rawInput: { command: ['npm', 'test'], path: 'src/index.ts' },
+        locations: [{ path: `${WORKTREE}/src/index.ts` }],
+      },
+      'claude',
+      WORKTREE
+    );
+    expect(described.command).toBe('npm test');
+    expect(described.paths).toEqual([`${WORKTREE}/src/index.ts`]);
+  });
+});
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Checkpoint } from '../../main/services/DatabaseService';
+
+const stored: Checkpoint[] = [];
+const deleteMessagesFromMock = vi.fn(async () => 0);
+
+vi.mock('../../main/lib/logger', () => ({
+  log: { info: vi.fn(), debug: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+// Every checkpoint gets the same createdAt, as turns started within one second do
+vi.mock('../../main/services/DatabaseService', () => ({
+  databaseService: {
+    saveCheckpoint: async (checkpoint: Omit<Checkpoint, 'sequence' | 'createdAt'>) => {
+      const saved = {
+        ...checkpoint,
+        sequence: stored.length + 1,
+        createdAt: '2026-01-01 00:00:00',
+      };
+      stored.push(saved);
+      return saved;
+    },
+    getCheckpoint: async (id: string) => stored.find((c) => c.id === id) ?? null,
+    getCheckpoints: async (conversationId: string) =>
+      stored
+        .filter((c) => c.conversationId === conversationId)
+        .sort((a, b) => a.sequence - b.sequence),
+    deleteCheckpoints: async (ids: string[]) => {
+      for (const id of ids)
+        stored.splice(
+          stored.findIndex((c) => c.id === id),
+          1
+        );
+    },
+    deleteMessagesFrom: (...args: unknown[]) => deleteMessagesFromMock(...(args as [])),
+  },
+}));
+
+import { checkpointService } from '../../main/services/CheckpointService';
+
+let repo: string;
+
+const git = (...args: string[]) =>
+  execFileSync('git', ['-c', 'user.name=t', '-c', 'user.email=t@t', ...args], {
+    cwd: repo,
+    stdio: 'pipe',
+  })
+    .toString()
+    .trimEnd();
+const write = (file: string, content: string) => fs.writeFileSync(path.join(repo, file), content);
+const read = (file: string) => fs.readFileSync(path.join(repo, file), 'utf8');
+const exists = (file: string) => fs.existsSync(path.join(repo, file));
+const checkpointRefs = () =>
+  git('for-each-ref', '--format=%(refname)', 'refs/valkyr/checkpoints/')
+    .split('\n')
+    .filter(Boolean);
+
+beforeEach(() => {
+  repo = fs.mkdtempSync(path.join(os.tmpdir(), 'checkpoint-test-'));
+  git('init', '-q');
+  write('.gitignore', 'build.log\n');
+  write('app.ts', 'v1\n');
+  write('keep.ts', 'keep\n');
+  git('add', '.');
+  git('commit', '-qm', 'init');
+  write('build.log', 'first build\n');
+  stored.length = 0;
+  deleteMessagesFromMock.mockClear();
+});
+
+afterEach(() => {
+  fs.rmSync(repo, { recursive: true, force: true });
+});
+
+describe('CheckpointService', () => {
+  it('restores files, HEAD and the conversation to the start of a turn', async () => {
+    const startSha = git('rev-parse', 'HEAD');
+    write('app.ts', 'v1 with local edits\n');
+    write('draft.ts', 'untracked draft\n');
+    const checkpoint = await checkpointService.create('conv-1', 'msg-1', repo);
+    expect(checkpoint).toMatchObject({ messageId: 'msg-1', headSha: startSha, sequence: 1 });
+    expect(git('status', '--porcelain')).toBe(' M app.ts\n?? draft.ts');
+
+    // The agent's turn: edits, deletes, adds and commits
+    write('app.ts', 'v2\n');
+    fs.rmSync(path.join(repo, 'keep.ts'));
+    write('added.ts', 'new file\n');
+    git('add', '-A');
+    git('commit', '-qm', 'agent commit');
+    write('build.log', 'second build\n');
+    write('scratch.ts', 'uncommitted\n');
+
+    await checkpointService.restore(checkpoint!.id);
+
+    expect(git('rev-parse', 'HEAD')).toBe(startSha);
+    expect(read('app.ts')).toBe('v1 with local edits\n');
+    expect(read('keep.ts')).toBe('keep\n');
+    expect(read('draft.ts')).toBe('untracked draft\n');
+    expect(exists('added.ts')).toBe(false);
+    expect(exists('scratch.ts')).toBe(false);
+    expect(read('build.log')).toBe('second build\n');
+    expect(git('status', '--porcelain')).toBe(' M app.ts\n?? draft.ts');
+    expect(deleteMessagesFromMock).toHaveBeenCalledWith('conv-1', 'msg-1');
+    expect(stored).toEqual([]);
+    expect(checkpointRefs()).toEqual([]);
+  });
+
+  it('drops only the restored checkpoint and later ones', async () => {
+    const first = await checkpointService.create('conv-1', 'msg-1', repo);
+    write('app.ts', 'v2\n');
+    const second = await checkpointService.create('conv-1', 'msg-2', repo);
+    write('app.ts', 'v3\n');
+    await checkpointService.create('conv-1', 'msg-3', repo);
+    const other = await checkpointService.create('conv-2', 'msg-9', repo);
+
+    await checkpointService.restore(second!.id);
+
+    expect(read('app.ts')).toBe('v2\n');
+    expect(stored.map((c) => c.id)).toEqual([first!.id, other!.id]);
+    expect(checkpointRefs().sort()).toEqual(
+      [first!.id, other!.id].map((id) => `refs/valkyr/checkpoints/${id}`).sort()
+    );
+  });
+
+  it('restores a repository that had no commits yet', async () => {
+    fs.rmSync(path.join(repo, '.git'), { recursive: true, force: true });
+    git('init', '-q');
+    const checkpoint = await checkpointService.create('conv-1', 'msg-1', repo);
+    expect(checkpoint!.headSha).toBeNull();
+    write('app.ts', 'changed\n');
+    git('add', 'app.ts');
+
+    await checkpointService.restore(checkpoint!.id);
+
+    expect(read('app.ts')).toBe('v1\n');
+    expect(git('status', '--porcelain')).toBe('?? .gitignore\n?? app.ts\n?? keep.ts');
+  });
+
+  it('returns null outside a git repository', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'checkpoint-nogit-'));
+    try {
+      expect(await checkpointService.create('conv-1', 'msg-1', dir)).toBeNull();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
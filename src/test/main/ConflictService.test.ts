@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { commit, createTaskRepo, git } from '../helpers/gitRepo';
+
+const dbMocks = vi.hoisted(() => ({
+  getTaskByPath: vi.fn(),
+  getProjectById: vi.fn(),
+}));
+
+vi.mock('../../main/services/DatabaseService', () => ({
+  databaseService: dbMocks,
+}));
+
+vi.mock('../../main/lib/logger', () => ({
+  log: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import { ConflictService } from '../../main/services/ConflictService';
+
+describe('ConflictService', () => {
+  let tempDir: string;
+  let repo: string;
+  let taskPath: string;
+  let service: ConflictService;
+
+  beforeEach(() => {
+    ({ tempDir, repo, taskPath } = createTaskRepo('conflict-test-'));
+
+    dbMocks.getTaskByPath.mockResolvedValue({ id: 't1', projectId: 'p1' });
+    dbMocks.getProjectById.mockResolvedValue({
+      id: 'p1',
+      path: repo,
+      isRemote: false,
+      gitInfo: { isGitRepo: true, baseRef: 'main' },
+    });
+    service = new ConflictService();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('reports how far the task is behind its base', async () => {
+    commit(repo, 'other.txt', 'other\n', 'Other change');
+
+    expect(await service.status(taskPath)).toEqual({
+      base: 'main',
+      behind: 1,
+      operation: null,
+      conflicts: [],
+    });
+  });
+
+  it('stops a rebase on conflicts and continues once they are resolved', async () => {
+    commit(repo, 'app.txt', 'one\nTWO\nthree\n', 'Change on main');
+    commit(taskPath, 'app.txt', 'one\n2\nthree\n', 'Change on feature');
+
+    const result = await service.updateFromBase(taskPath, 'rebase');
+    expect(result.success).toBe(false);
+    expect(result.status).toMatchObject({ operation: 'rebase', conflicts: ['app.txt'] });
+
+    const file = await service.getFile(taskPath, 'app.txt');
+    expect(file).toMatchObject({
+      base: 'one\ntwo\nthree\n',
+      ours: 'one\nTWO\nthree\n',
+      theirs: 'one\n2\nthree\n',
+      oursLabel: 'main',
+      theirsLabel: 'Task commit',
+    });
+    expect(file.merged).toContain('<<<<<<<');
+
+    await service.resolveFile(taskPath, 'app.txt', 'one\nTWO and 2\nthree\n');
+    const continued = await service.continue(taskPath);
+
+    expect(continued.success).toBe(true);
+    expect(continued.status).toMatchObject({ behind: 0, operation: null, conflicts: [] });
+    expect(git(taskPath, 'log', '--format=%s')).toBe('Change on feature\nChange on main\ninit');
+  });
+
+  it('aborts a conflicted merge and restores the task branch', async () => {
+    commit(repo, 'app.txt', 'one\nTWO\nthree\n', 'Change on main');
+    commit(taskPath, 'app.txt', 'one\n2\nthree\n', 'Change on feature');
+    const before = git(taskPath, 'rev-parse', 'HEAD');
+
+    const result = await service.updateFromBase(taskPath, 'merge');
+    expect(result.status?.operation).toBe('merge');
+
+    await service.abort(taskPath);
+    expect((await service.status(taskPath)).operation).toBeNull();
+    expect(git(taskPath, 'rev-parse', 'HEAD')).toBe(before);
+  });
+
+  it('refuses conflict paths that reach outside the task through a symlink', async () => {
+    const outside = path.join(tempDir, 'outside');
+    fs.mkdirSync(outside);
+    fs.writeFileSync(path.join(outside, 'secret.txt'), 'secret\n');
+    fs.symlinkSync(outside, path.join(taskPath, 'linked'));
+
+    await expect(service.getFile(taskPath, 'linked/secret.txt')).rejects.toThrow(
+      'Path outside allowed roots'
+    );
+    await expect(service.resolveFile(taskPath, 'linked/app.txt', 'planted\n')).rejects.toThrow(
+      'Path outside allowed roots'
+    );
+    expect(fs.existsSync(path.join(outside, 'app.txt'))).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const readConfigMock = vi.fn();
+const getAppSettingsMock = vi.fn();
+
+vi.mock('../../main/services/LifecycleScriptsService', () => ({
+  lifecycleScriptsService: {
+    readConfig: (...args: any[]) => readConfigMock(...args),
+    readRemoteConfig: vi.fn(),
+  },
+}));
+
+vi.mock('../../main/services/ssh/remoteProject', () => ({
+  resolveRemoteConnectionId: vi.fn(async () => undefined),
+}));
+
+vi.mock('../../main/settings', () => ({
+  getAppSettings: () => getAppSettingsMock(),
+}));
+
+vi.mock('../../main/lib/logger', () => ({
+  log: { info: vi.fn(), debug: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import { customAgentService } from '../../main/services/CustomAgentService';
+import { normalizeCustomAgents } from '../../shared/providers/customAgents';
+import { getProvider, isValidProviderId, listProviders } from '../../shared/providers/registry';
+
+describe('normalizeCustomAgents', () => {
+  it('drops invalid entries and repeated ids', () => {
+    const agents = normalizeCustomAgents([
+      { id: 'Acme', name: 'Acme', cli: 'acme --fast', env: { ACME_MODE: 'dev', 'BAD KEY': 'x' } },
+      { id: 'acme', name: 'Duplicate', cli: 'other' },
+      { id: 'no cli', name: 'Broken', cli: 'x' },
+      { id: 'nameless', cli: 'x' },
+      { id: 'remote', name: 'Remote', cli: 'remote', icon: 'http://insecure/icon.png', acp: {} },
+      'not an object',
+    ]);
+
+    expect(agents).toEqual([
+      { id: 'acme', name: 'Acme', cli: 'acme --fast', env: { ACME_MODE: 'dev' } },
+      { id: 'remote', name: 'Remote', cli: 'remote' },
+    ]);
+  });
+});
+
+describe('CustomAgentService', () => {
+  beforeEach(() => {
+    readConfigMock.mockReset();
+    getAppSettingsMock.mockReturnValue({
+      customAgents: [
+        { id: 'acme', name: 'Acme', cli: 'acme --fast', autoApproveFlag: '--yes' },
+        { id: 'fork', name: 'Fork', cli: 'fork' },
+      ],
+    });
+  });
+
+  it('registers global agents as providers', async () => {
+    readConfigMock.mockReturnValue(null);
+
+    const agents = await customAgentService.refresh();
+
+    expect(agents.map((a) => a.id)).toEqual(['custom-acme', 'custom-fork']);
+    expect(getProvider('custom-acme')).toMatchObject({
+      cli: 'acme',
+      defaultArgs: ['--fast'],
+      autoApproveFlag: '--yes',
+      custom: true,
+    });
+    expect(listProviders().at(-1)?.id).toBe('custom-fork');
+    expect(isValidProviderId('custom-acme')).toBe(true);
+    expect(isValidProviderId('acme')).toBe(false);
+  });
+
+  it('adds project agents under their project without replacing global ones', async () => {
+    readConfigMock.mockReturnValue({
+      agents: [
+        { id: 'fork', name: 'Team Fork', cli: 'team-fork', acp: { command: 'team-fork-acp' } },
+        { id: 'inhouse', name: 'In-house', cli: 'inhouse', env: { INHOUSE_URL: 'http://x' } },
+      ],
+    });
+
+    const agents = await customAgentService.refresh('/repo');
+
+    expect(readConfigMock).toHaveBeenCalledWith('/repo');
+    expect(agents.map((a) => [a.id, a.name])).toEqual([
+      ['custom-acme', 'Acme'],
+      ['custom-fork', 'Fork'],
+      ['custom-inhouse', 'In-house'],
+    ]);
+    expect(getProvider('custom-fork', '/repo')?.cli).toBe('fork');
+    expect(getProvider('custom-inhouse', '/repo')?.env).toEqual({ INHOUSE_URL: 'http://x' });
+    expect(getProvider('custom-inhouse')).toBeUndefined();
+  });
+
+  it('resolves a project agent from the project it is spawned in', async () => {
+    readConfigMock.mockImplementation((projectPath: string) => ({
+      agents: [{ id: 'inhouse', name: 'In-house', cli: `inhouse-${projectPath.slice(1)}` }],
+    }));
+
+    await customAgentService.refresh('/a');
+    await customAgentService.refresh('/b');
+
+    expect(getProvider('custom-inhouse', '/a')?.cli).toBe('inhouse-a');
+    expect(getProvider('custom-inhouse', '/b')?.cli).toBe('inhouse-b');
+    expect(listProviders('/a').filter((p) => p.id === 'custom-inhouse')).toHaveLength(1);
+    expect(getProvider('custom-inhouse', '/c')).toBeUndefined();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { commit, createTaskRepo, git } from '../helpers/gitRepo';
+import {
+  getBlame,
+  getCommitDetail,
+  getCommitFileDiff,
+  getLog,
+  runHistoryAction,
+} from '../../main/services/GitService';
+
+describe('GitService history', () => {
+  let tempDir: string;
+  let repo: string;
+  let taskPath: string;
+
+  beforeEach(() => {
+    ({ tempDir, repo, taskPath } = createTaskRepo('history-test-', 'one\ntwo\n'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('logs task and base commits and tells them apart', async () => {
+    const onBase = commit(repo, 'base.txt', 'base\n', 'Base change');
+    const onTask = commit(taskPath, 'task.txt', 'task\n', 'Task change');
+
+    const log = await getLog(taskPath, ['origin/main', 'main']);
+
+    expect(log.base).toBe('main');
+    expect(log.hasMore).toBe(false);
+    const sides = Object.fromEntries(log.commits.map((c) => [c.subject, c.side]));
+    expect(sides).toEqual({ 'Task change': 'task', 'Base change': 'base', init: 'shared' });
+    expect(log.commits.find((c) => c.sha === onTask)?.refs).toEqual(['feature']);
+    expect(log.commits.find((c) => c.sha === onBase)?.refs).toEqual(['main']);
+  });
+
+  it('reads the files and diff of a commit', async () => {
+    const sha = commit(taskPath, 'app.txt', 'one\n2\n', 'Change app');
+
+    const detail = await getCommitDetail(taskPath, sha);
+    expect(detail.commit.subject).toBe('Change app');
+    expect(detail.files).toEqual([
+      { path: 'app.txt', status: 'modified', additions: 1, deletions: 1 },
+    ]);
+
+    const diff = await getCommitFileDiff(taskPath, sha, 'app.txt');
+    expect(diff).toContain('-two');
+    expect(diff).toContain('+2');
+  });
+
+  it('blames committed and uncommitted lines', async () => {
+    commit(taskPath, 'app.txt', 'one\n2\n', 'Change app');
+    fs.appendFileSync(path.join(taskPath, 'app.txt'), 'three\n');
+
+    const blame = await getBlame(taskPath, 'app.txt');
+    const summaries = blame.lines.map((sha) => blame.commits[sha].summary);
+    expect(summaries.slice(0, 2)).toEqual(['init', 'Change app']);
+    expect(blame.commits[blame.lines[2]].uncommitted).toBe(true);
+  });
+
+  it('undoes a revert that conflicts and resets the branch', async () => {
+    const first = commit(taskPath, 'app.txt', 'one\n2\n', 'First');
+    commit(taskPath, 'app.txt', 'one\nII\n', 'Second');
+    const head = git(taskPath, 'rev-parse', 'HEAD');
+
+    await expect(runHistoryAction(taskPath, { type: 'revert', sha: first })).rejects.toThrow(
+      'nothing was changed'
+    );
+    expect(git(taskPath, 'rev-parse', 'HEAD')).toBe(head);
+    expect(git(taskPath, 'status', '--porcelain')).toBe('');
+
+    await runHistoryAction(taskPath, { type: 'reset', sha: first, mode: 'hard' });
+    expect(git(taskPath, 'rev-parse', 'HEAD')).toBe(first);
+  });
+});
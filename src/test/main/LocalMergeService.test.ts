@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { commit, createTaskRepo, git, write } from '../helpers/gitRepo';
+
+const dbMocks = vi.hoisted(() => ({
+  getTaskByPath: vi.fn(),
+  getProjectById: vi.fn(),
+}));
+
+vi.mock('../../main/services/DatabaseService', () => ({
+  databaseService: dbMocks,
+}));
+
+vi.mock('../../main/lib/logger', () => ({
+  log: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import { LocalMergeService } from '../../main/services/LocalMergeService';
+
+describe('LocalMergeService', () => {
+  let tempDir: string;
+  let repo: string;
+  let taskPath: string;
+  let service: LocalMergeService;
+
+  beforeEach(() => {
+    ({ tempDir, repo, taskPath } = createTaskRepo('local-merge-test-'));
+
+    dbMocks.getTaskByPath.mockResolvedValue({ id: 't1', projectId: 'p1' });
+    dbMocks.getProjectById.mockResolvedValue({
+      id: 'p1',
+      path: repo,
+      isRemote: false,
+      gitInfo: { isGitRepo: true, baseRef: 'main' },
+    });
+    service = new LocalMergeService();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('previews the target, commits and local default strategy', async () => {
+    commit(taskPath, 'feature.txt', 'feature\n', 'Add feature');
+    write(taskPath, 'wip.txt', 'wip\n');
+
+    const preview = await service.preview(taskPath);
+
+    expect(preview).toMatchObject({
+      branch: 'feature',
+      target: 'main',
+      remote: null,
+      strategy: 'merge',
+      commits: ['Add feature'],
+      hasUncommittedChanges: true,
+      targetDirty: false,
+    });
+  });
+
+  it('squashes the branch into one commit on the target', async () => {
+    commit(taskPath, 'feature.txt', 'feature\n', 'Add feature');
+    commit(taskPath, 'wip.txt', 'wip\n', 'Add wip');
+
+    const result = await service.merge({ taskPath, strategy: 'squash', message: 'Feature' });
+
+    expect(result.success).toBe(true);
+    expect(git(repo, 'log', '--format=%s', 'main')).toBe('Feature\ninit');
+    expect(git(repo, 'rev-parse', 'main')).toBe(result.sha);
+    // The main checkout was fast-forwarded, not just its ref
+    expect(fs.readFileSync(path.join(repo, 'wip.txt'), 'utf8')).toBe('wip\n');
+    expect(git(repo, 'status', '--porcelain')).toBe('');
+  });
+
+  it('rebases the branch and fast-forwards the target to it', async () => {
+    commit(repo, 'other.txt', 'other\n', 'Other change');
+    commit(taskPath, 'feature.txt', 'feature\n', 'Add feature');
+
+    const result = await service.merge({ taskPath, strategy: 'rebase' });
+
+    expect(result.success).toBe(true);
+    expect(git(repo, 'log', '--format=%s', 'main')).toBe('Add feature\nOther change\ninit');
+    expect(git(taskPath, 'rev-parse', 'HEAD')).toBe(git(repo, 'rev-parse', 'main'));
+  });
+
+  it('stops on a dirty target checkout unless asked to stash', async () => {
+    commit(taskPath, 'feature.txt', 'feature\n', 'Add feature');
+    write(repo, 'app.txt', 'one\ntwo\nthree\nlocal\n');
+    const before = git(repo, 'rev-parse', 'main');
+
+    const blocked = await service.merge({ taskPath, strategy: 'merge' });
+    expect(blocked).toMatchObject({ success: false, targetDirty: true });
+    expect(git(repo, 'rev-parse', 'main')).toBe(before);
+
+    const result = await service.merge({ taskPath, strategy: 'merge', stashTargetChanges: true });
+    expect(result.success).toBe(true);
+    expect(result.stashWarning).toBeUndefined();
+    expect(git(repo, 'log', '-1', '--format=%s', 'main')).toBe("Merge branch 'feature' into main");
+    expect(fs.readFileSync(path.join(repo, 'app.txt'), 'utf8')).toBe('one\ntwo\nthree\nlocal\n');
+  });
+
+  it('refuses a task with uncommitted changes and leaves its branch alone', async () => {
+    const head = commit(taskPath, 'feature.txt', 'feature\n', 'Add feature');
+    write(taskPath, 'wip.txt', 'wip\n');
+    const before = git(repo, 'rev-parse', 'main');
+
+    const result = await service.merge({ taskPath, strategy: 'merge', message: 'Land feature' });
+
+    expect(result).toMatchObject({ success: false, taskDirty: true });
+    expect(git(repo, 'rev-parse', 'main')).toBe(before);
+    expect(git(taskPath, 'rev-parse', 'HEAD')).toBe(head);
+    expect(git(taskPath, 'status', '--porcelain')).toBe('?? wip.txt');
+  });
+
+  it('treats untracked files in the target checkout as changes to stash', async () => {
+    commit(taskPath, 'feature.txt', 'feature\n', 'Add feature');
+    write(repo, 'notes.txt', 'notes\n');
+
+    expect((await service.preview(taskPath)).targetDirty).toBe(true);
+    const blocked = await service.merge({ taskPath, strategy: 'squash' });
+    expect(blocked).toMatchObject({ success: false, targetDirty: true });
+
+    const result = await service.merge({ taskPath, strategy: 'squash', stashTargetChanges: true });
+    expect(result).toMatchObject({ success: true, stashWarning: undefined });
+    expect(fs.readFileSync(path.join(repo, 'feature.txt'), 'utf8')).toBe('feature\n');
+    expect(git(repo, 'status', '--porcelain')).toBe('?? notes.txt');
+    expect(git(repo, 'stash', 'list')).toBe('');
+  });
+
+  it('keeps an untracked file the merge would overwrite in the stash', async () => {
+    commit(taskPath, 'feature.txt', 'feature\n', 'Add feature');
+    write(repo, 'feature.txt', 'mine\n');
+
+    const result = await service.merge({ taskPath, strategy: 'squash', stashTargetChanges: true });
+
+    expect(result.success).toBe(true);
+    expect(result.stashWarning).toContain('conflict with the merge');
+    expect(fs.readFileSync(path.join(repo, 'feature.txt'), 'utf8')).toBe('feature\n');
+    expect(git(repo, 'stash', 'list')).toContain('valkyr: before landing on main');
+  });
+
+  it('reports conflicts and leaves the target untouched', async () => {
+    commit(repo, 'app.txt', 'one\nTWO\nthree\n', 'Change on main');
+    commit(taskPath, 'app.txt', 'one\n2\nthree\n', 'Change on feature');
+    const before = git(repo, 'rev-parse', 'main');
+
+    const result = await service.merge({ taskPath, strategy: 'merge' });
+
+    expect(result).toMatchObject({ success: false, conflicts: ['app.txt'] });
+    expect(git(repo, 'rev-parse', 'main')).toBe(before);
+    expect(git(repo, 'worktree', 'list').split('\n')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,272 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+
+const getAppSettingsMock = vi.fn();
+
+vi.mock('electron', () => ({
+  app: { getVersion: () => '0.0.0-test' },
+}));
+
+vi.mock('../../main/settings', () => ({
+  getAppSettings: () => getAppSettingsMock(),
+  updateAppSettings: vi.fn(),
+}));
+
+vi.mock('../../main/lib/logger', () => ({
+  log: { info: vi.fn(), debug: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../../main/services/mcp/ValkyrMcpServer', () => ({
+  valkyrMcpServer: {
+    getSessionServer: async (_projectPath: string, _taskPath: string, sessionKey: string) => ({
+      id: 'valkyr',
+      name: 'valkyr',
+      transport: 'http',
+      enabled: true,
+      url: 'http://127.0.0.1:1/mcp',
+      headers: { Authorization: `Bearer ${sessionKey}` },
+    }),
+  },
+}));
+
+import { mcpConfigService } from '../../main/services/McpConfigService';
+import { StdioTransport, type JsonRpcMessage } from '../../main/services/mcp/McpClient';
+import { McpToolFilter } from '../../main/services/mcp/McpToolFilter';
+import type { McpServerConfig } from '../../shared/mcp/types';
+
+// Answers like an MCP server; tools/list is split over two pages
+const FIXTURE_HANDLER = `
+function handle(msg) {
+  switch (msg.method) {
+    case 'initialize':
+      return {
+        protocolVersion: msg.params.protocolVersion,
+        capabilities: { tools: {}, resources: {}, prompts: {} },
+        serverInfo: { name: 'fixture', version: '1.2.3' },
+      };
+    case 'tools/list':
+      return msg.params && msg.params.cursor === 'page2'
+        ? { tools: [{ name: 'delete_all', description: 'Dangerous' }] }
+        : { tools: [{ name: 'echo', description: 'Echo input', inputSchema: {} }], nextCursor: 'page2' };
+    case 'resources/list':
+      return { resources: [{ uri: 'file:///readme', name: 'readme', mimeType: 'text/plain' }] };
+    case 'prompts/list':
+      return { prompts: [{ name: 'review' }] };
+    case 'tools/call':
+      return { content: [{ type: 'text', text: 'called ' + msg.params.name }] };
+  }
+}
+`;
+
+const STDIO_FIXTURE = `${FIXTURE_HANDLER}
+let buffer = '';
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', (chunk) => {
+  buffer += chunk;
+  let i;
+  while ((i = buffer.indexOf('\\n')) >= 0) {
+    const msg = JSON.parse(buffer.slice(0, i));
+    buffer = buffer.slice(i + 1);
+    if (msg.id === undefined) continue;
+    process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id: msg.id, result: handle(msg) }) + '\\n');
+  }
+});
+`;
+
+let tmpDir: string;
+let fixturePath: string;
+
+function stdioServer(overrides: Partial<McpServerConfig> = {}): McpServerConfig {
+  return {
+    id: 'fixture',
+    name: 'fixture',
+    transport: 'stdio',
+    enabled: true,
+    command: process.execPath,
+    args: [fixturePath],
+    env: {},
+    ...overrides,
+  } as McpServerConfig;
+}
+
+beforeAll(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-config-test-'));
+  fixturePath = path.join(tmpDir, 'server.js');
+  fs.writeFileSync(fixturePath, STDIO_FIXTURE);
+});
+
+afterAll(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('McpConfigService.testServer', () => {
+  it('handshakes with a stdio server and lists every page', async () => {
+    const health = await mcpConfigService.testServer(stdioServer());
+
+    expect(health).toMatchObject({
+      ok: true,
+      serverInfo: { name: 'fixture', version: '1.2.3' },
+      protocolVersion: '2025-03-26',
+      tools: [
+        { name: 'echo', description: 'Echo input' },
+        { name: 'delete_all', description: 'Dangerous' },
+      ],
+      resources: [{ uri: 'file:///readme', name: 'readme', mimeType: 'text/plain' }],
+      prompts: [{ name: 'review' }],
+    });
+  });
+
+  it('reports a server that exits during the handshake', async () => {
+    const health = await mcpConfigService.testServer(
+      stdioServer({ args: ['-e', 'console.error("missing API key"); process.exit(3)'] })
+    );
+
+    expect(health.ok).toBe(false);
+    expect(health.error).toContain('code 3');
+    expect(health.error).toContain('missing API key');
+    expect(health.tools).toEqual([]);
+  });
+
+  it('speaks streamable HTTP with JSON and SSE replies', async () => {
+    // eslint-disable-next-line no-new-func
+    const handle = new Function(`${FIXTURE_HANDLER}; return handle;`)() as (msg: any) => unknown;
+    const sessions: Array<string | undefined> = [];
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        if (req.method === 'DELETE') return res.writeHead(204).end();
+        sessions.push(req.headers['mcp-session-id'] as string | undefined);
+        const msg = JSON.parse(body);
+        if (msg.id === undefined) return res.writeHead(202).end();
+        const reply = JSON.stringify({ jsonrpc: '2.0', id: msg.id, result: handle(msg) });
+        if (msg.method === 'tools/list') {
+          res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+          res.end(`event: message\ndata: ${reply}\n\n`);
+        } else {
+          res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'abc' });
+          res.end(reply);
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const health = await mcpConfigService.testServer({
+        id: 'remote',
+        name: 'remote',
+        transport: 'http',
+        enabled: true,
+        url: `http://127.0.0.1:${port}/mcp`,
+        headers: {},
+      });
+
+      expect(health.ok).toBe(true);
+      expect(health.tools.map((t) => t.name)).toEqual(['echo', 'delete_all']);
+      expect(sessions[0]).toBeUndefined();
+      expect(sessions.slice(1).every((id) => id === 'abc')).toBe(true);
+    } finally {
+      server.close();
+    }
+  });
+});
+
+describe('disabled tools', () => {
+  it('hides disabled tools and refuses calls to them', async () => {
+    const replies: JsonRpcMessage[] = [];
+    const filter = new McpToolFilter(
+      new StdioTransport({ command: process.execPath, args: [fixturePath], env: {} }),
+      ['delete_all'],
+      (message) => replies.push(message)
+    );
+    await filter.start(() => {});
+    const waitFor = (id: number) =>
+      vi.waitFor(() => {
+        const reply = replies.find((r) => r.id === id);
+        if (!reply) throw new Error(`no reply to ${id}`);
+        return reply;
+      });
+
+    try {
+      await filter.fromAgent({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} });
+      await filter.fromAgent({
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/list',
+        params: { cursor: 'page2' },
+      });
+      await filter.fromAgent({
+        jsonrpc: '2.0',
+        id: 3,
+        method: 'tools/call',
+        params: { name: 'delete_all', arguments: {} },
+      });
+      await filter.fromAgent({
+        jsonrpc: '2.0',
+        id: 4,
+        method: 'tools/call',
+        params: { name: 'echo', arguments: {} },
+      });
+
+      expect((await waitFor(1)).result).toEqual({
+        tools: [{ name: 'echo', description: 'Echo input', inputSchema: {} }],
+        nextCursor: 'page2',
+      });
+      expect((await waitFor(2)).result.tools).toEqual([]);
+      expect((await waitFor(3)).error).toMatchObject({ code: -32602 });
+      expect((await waitFor(4)).result.content[0].text).toBe('called echo');
+    } finally {
+      await filter.close();
+    }
+  });
+
+  it('filters disabled tools in local sessions and leaves such servers out of remote ones', async () => {
+    const server = stdioServer({ disabledTools: ['delete_all'] });
+    getAppSettingsMock.mockReturnValue({
+      mcp: { servers: [server, stdioServer({ id: 'plain', name: 'plain' })] },
+    });
+
+    const [filtered, plain] = await mcpConfigService.getMergedServersForSession();
+    expect(filtered).toMatchObject({ name: 'fixture', command: process.execPath });
+    expect((filtered as { args: string[] }).args[0]).toMatch(/workers[\\/]mcpToolFilter\.js$/);
+    expect((filtered as { env: Array<{ name: string; value: string }> }).env).toContainEqual({
+      name: 'VALKYR_MCP_SERVER',
+      value: JSON.stringify(server),
+    });
+    expect(plain).toMatchObject({ name: 'plain', args: [fixturePath] });
+
+    const remote = await mcpConfigService.getMergedServersForSession(undefined, { remote: true });
+    expect(remote).toEqual([expect.objectContaining({ name: 'plain', args: [fixturePath] })]);
+  });
+
+  it('adds the built-in server to local sessions of a project', async () => {
+    getAppSettingsMock.mockReturnValue({ mcp: { servers: [] } });
+
+    const [builtin] = await mcpConfigService.getMergedServersForSession('/repo', {
+      taskPath: '/worktrees/login',
+      sessionKey: 'claude-acp-c1',
+    });
+    expect(builtin).toMatchObject({ name: 'valkyr', command: process.execPath });
+    const env = (builtin as { env: Array<{ name: string; value: string }> }).env;
+    expect(JSON.parse(env.find((e) => e.name === 'VALKYR_MCP_SERVER')!.value)).toMatchObject({
+      transport: 'http',
+      headers: { Authorization: 'Bearer claude-acp-c1' },
+    });
+
+    expect(
+      await mcpConfigService.getMergedServersForSession('/repo', {
+        remote: true,
+        sessionKey: 'claude-acp-c1',
+      })
+    ).toEqual([]);
+    getAppSettingsMock.mockReturnValue({ mcp: { servers: [], valkyr: { enabled: false } } });
+    expect(
+      await mcpConfigService.getMergedServersForSession('/repo', { sessionKey: 'claude-acp-c1' })
+    ).toEqual([]);
+  });
+});
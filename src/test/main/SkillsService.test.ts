@@ -1,7 +1,18 @@
-import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import { execFileSync } from 'child_process';
+import type { SkillSource } from '../../shared/skills/types';
+
+// Point the home directory (~/.agentskills, agent config dirs) at a temp dir
+vi.mock('os', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('os')>();
+  const { mkdtempSync } = await import('fs');
+  const { join } = await import('path');
+  const home = mkdtempSync(join(actual.tmpdir(), 'skills-home-'));
+  return { ...actual, default: { ...actual, homedir: () => home }, homedir: () => home };
+});
 
 // Mock electron app
 vi.mock('electron', () => ({
@@ -12,6 +23,11 @@ vi.mock('electron', () => ({
   },
 }));
 
+const skillSources: SkillSource[] = [];
+vi.mock('../../main/settings', () => ({
+  getAppSettings: () => ({ skillSources }),
+}));
+
 // Mock logger
 vi.mock('../../main/lib/logger', () => ({
   log: {
@@ -27,6 +43,7 @@ import {
   isValidSkillName,
   generateSkillMd,
 } from '../../shared/skills/validation';
+import { SkillsService } from '../../main/services/SkillsService';
 
 describe('Skills validation', () => {
   describe('isValidSkillName', () => {
@@ -142,3 +159,95 @@ describe('SkillsService', () => {
     expect(skills.map((s) => s.name).sort()).toEqual(['skill-a', 'skill-b']);
   });
 });
+
+describe('SkillsService sources and project skills', () => {
+  let tmpDir: string;
+  let service: SkillsService;
+
+  const writeSkill = (dir: string, name: string, description: string) => {
+    fs.mkdirSync(path.join(dir, name), { recursive: true });
+    fs.writeFileSync(path.join(dir, name, 'SKILL.md'), generateSkillMd(name, description));
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'skills-test-'));
+    service = new SkillsService();
+    // Keep the built-in catalogs off the network
+    vi.spyOn(service as any, 'fetchOpenAICatalog').mockResolvedValue([]);
+    vi.spyOn(service as any, 'fetchAnthropicCatalog').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    skillSources.length = 0;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    fs.rmSync(path.join(os.homedir(), '.agentskills'), { recursive: true, force: true });
+    fs.rmSync(path.join(os.homedir(), '.claude'), { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(os.homedir(), { recursive: true, force: true });
+  });
+
+  it('installs skills from a local source and detects changes to them', async () => {
+    const sourceDir = path.join(tmpDir, 'team-skills');
+    writeSkill(path.join(sourceDir, 'skills'), 'review', 'Review code');
+    fs.writeFileSync(path.join(sourceDir, 'skills', 'review', 'checklist.md'), '- tests\n');
+    skillSources.push({ id: 'team', name: 'Team', location: sourceDir, path: 'skills' });
+
+    const catalog = await service.refreshCatalog();
+    expect(catalog.skills.map((s) => [s.id, s.source, s.sourceId])).toEqual([
+      ['review', 'custom', 'team'],
+    ]);
+
+    const installed = await service.installSkill('review');
+    expect(fs.readFileSync(path.join(installed.localPath!, 'checklist.md'), 'utf-8')).toBe(
+      '- tests\n'
+    );
+    expect(await service.checkUpdates()).toEqual([]);
+
+    fs.writeFileSync(path.join(sourceDir, 'skills', 'review', 'checklist.md'), '- lint\n');
+    const [update] = await service.checkUpdates();
+    expect(update.skillId).toBe('review');
+    expect((await service.getCatalogIndex()).skills[0].updateAvailable).toBe(true);
+
+    const updated = await service.updateSkill('review');
+    expect(updated.installedVersion).toBe(update.latestVersion);
+    expect(fs.readFileSync(path.join(updated.localPath!, 'checklist.md'), 'utf-8')).toBe(
+      '- lint\n'
+    );
+    expect((await service.getCatalogIndex()).skills[0].updateAvailable).toBe(false);
+  });
+
+  it('links project skills into the worktree agent dirs without dirtying git', async () => {
+    const git = (...args: string[]) =>
+      execFileSync('git', args, { cwd: tmpDir, encoding: 'utf8', stdio: 'pipe' }).trim();
+    git('init', '-q');
+    git('config', 'user.email', 'test@test.com');
+    git('config', 'user.name', 'Test');
+    writeSkill(path.join(tmpDir, '.agents', 'skills'), 'deploy', 'Deploy the app');
+    git('add', '.');
+    git('commit', '-q', '-m', 'init');
+    // Only Claude Code is installed
+    fs.mkdirSync(path.join(os.homedir(), '.claude'));
+
+    const linked = await service.syncProjectSkills(tmpDir);
+
+    expect(linked).toEqual([path.join('.claude', 'skills', 'deploy')]);
+    const linkPath = path.join(tmpDir, '.claude', 'skills', 'deploy');
+    expect(fs.readFileSync(path.join(linkPath, 'SKILL.md'), 'utf-8')).toContain('Deploy the app');
+    expect(git('status', '--porcelain')).toBe('');
+    expect(await service.syncProjectSkills(tmpDir)).toEqual([]);
+
+    // Worktrees share the exclude file; a real skill dir at the linked path still shows
+    const other = `${tmpDir}-other`;
+    git('worktree', 'add', '-q', other);
+    writeSkill(path.join(other, '.claude', 'skills'), 'deploy', 'Real skill');
+    expect(
+      execFileSync('git', ['status', '--porcelain', '--untracked-files=all'], {
+        cwd: other,
+        encoding: 'utf8',
+      }).trim()
+    ).toBe('?? .claude/skills/deploy/SKILL.md');
+    fs.rmSync(other, { recursive: true, force: true });
+  });
+});
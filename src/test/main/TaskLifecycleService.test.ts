@@ -13,6 +13,7 @@ type MockChild = EventEmitter & {
 const spawnMock = vi.fn();
 const execFileMock = vi.fn();
 const getScriptMock = vi.fn();
+const getServicesMock = vi.fn();
 
 vi.mock('node:child_process', () => ({
   spawn: (...args: any[]) => spawnMock(...args),
@@ -22,9 +23,22 @@ vi.mock('node:child_process', () => ({
 vi.mock('../../main/services/LifecycleScriptsService', () => ({
   lifecycleScriptsService: {
     getScript: (...args: any[]) => getScriptMock(...args),
+    getServices: (...args: any[]) => getServicesMock(...args),
   },
 }));
 
+vi.mock('../../main/services/ssh/remoteProject', () => ({
+  resolveRemoteConnectionId: async () => undefined,
+}));
+
+vi.mock('../../main/services/ssh/SshService', () => ({
+  sshService: {},
+}));
+
+vi.mock('../../main/services/verify/VerifyService', () => ({
+  verifyService: { recordRun: vi.fn() },
+}));
+
 vi.mock('../../main/lib/logger', () => ({
   log: {
     info: vi.fn(),
@@ -62,6 +76,7 @@ describe('TaskLifecycleService', () => {
       if (phase === 'run') return 'npm run dev';
       return null;
     });
+    getServicesMock.mockReturnValue([]);
   });
 
   it('dedupes concurrent startRun calls so only one process spawns', async () => {
@@ -316,4 +331,120 @@ describe('TaskLifecycleService', () => {
     expect(setupChild.killed).toBe(true);
     expect(serviceAny.finiteProcesses.has(taskId)).toBe(false);
   });
+
+  it('starts services in dependency order with ports from the task block', async () => {
+    vi.resetModules();
+
+    const api = createChild(3001);
+    const web = createChild(3002);
+    spawnMock.mockReturnValueOnce(api).mockReturnValueOnce(web);
+    getServicesMock.mockReturnValue([
+      {
+        name: 'api',
+        command: 'npm run api',
+        readiness: { type: 'log', pattern: 'listening on \\d+' },
+      },
+      { name: 'web', command: 'npm run web', cwd: 'web', dependsOn: ['api'] },
+    ]);
+
+    const { taskLifecycleService } = await import('../../main/services/TaskLifecycleService');
+
+    const taskId = 'wt-10';
+    const taskPath = '/tmp/wt-10';
+    const started = await taskLifecycleService.startRun(taskId, taskPath, '/tmp/project');
+    expect(started.ok).toBe(true);
+    expect(spawnMock).toHaveBeenCalledTimes(1);
+
+    const apiEnv = spawnMock.mock.calls[0][1].env;
+    const basePort = Number(apiEnv.VALKYR_PORT);
+    expect(apiEnv.PORT).toBe(String(basePort));
+    expect(apiEnv.VALKYR_SERVICE_WEB_PORT).toBe(String(basePort + 1));
+
+    // Readiness matches across output chunks
+    api.stdout.emit('data', Buffer.from('listening on '));
+    api.stdout.emit('data', Buffer.from('4000\n'));
+
+    expect(spawnMock).toHaveBeenCalledTimes(2);
+    expect(spawnMock.mock.calls[1][0]).toBe('npm run web');
+    expect(spawnMock.mock.calls[1][1].cwd).toBe('/tmp/wt-10/web');
+    expect(spawnMock.mock.calls[1][1].env.PORT).toBe(String(basePort + 1));
+
+    const state = taskLifecycleService.getState(taskId);
+    expect(state.run.status).toBe('running');
+    expect(state.services.map((s) => [s.name, s.status])).toEqual([
+      ['api', 'ready'],
+      ['web', 'ready'],
+    ]);
+  });
+
+  it('fails dependents when a service exits before it is ready', async () => {
+    vi.resetModules();
+
+    const db = createChild(3101);
+    spawnMock.mockReturnValueOnce(db);
+    getServicesMock.mockReturnValue([
+      { name: 'db', command: 'start-db', readiness: { type: 'log', pattern: 'ready' } },
+      { name: 'api', command: 'npm run api', dependsOn: ['db'] },
+    ]);
+
+    const { taskLifecycleService } = await import('../../main/services/TaskLifecycleService');
+
+    const taskId = 'wt-11';
+    await taskLifecycleService.startRun(taskId, '/tmp/wt-11', '/tmp/project');
+    db.emit('exit', 1);
+
+    const state = taskLifecycleService.getState(taskId);
+    expect(spawnMock).toHaveBeenCalledTimes(1);
+    expect(state.services).toEqual([
+      expect.objectContaining({ name: 'db', status: 'failed', error: 'Exited with code 1' }),
+      expect.objectContaining({
+        name: 'api',
+        status: 'failed',
+        error: 'Dependency db is not running',
+      }),
+    ]);
+    expect(state.run.status).toBe('failed');
+    expect(state.run.error).toBe('Service db failed');
+  });
+
+  it('restarts a single service and stops all services with the run', async () => {
+    vi.resetModules();
+
+    const api = createChild(3201);
+    const worker = createChild(3202);
+    const restarted = createChild(3203);
+    spawnMock.mockReturnValueOnce(api).mockReturnValueOnce(worker).mockReturnValueOnce(restarted);
+    getServicesMock.mockReturnValue([
+      { name: 'api', command: 'npm run api' },
+      { name: 'worker', command: 'npm run worker' },
+    ]);
+    const killSpy = vi.spyOn(process, 'kill').mockImplementation(() => true);
+
+    const { taskLifecycleService } = await import('../../main/services/TaskLifecycleService');
+
+    const taskId = 'wt-12';
+    await taskLifecycleService.startRun(taskId, '/tmp/wt-12', '/tmp/project');
+
+    expect(taskLifecycleService.restartService(taskId, 'worker').ok).toBe(true);
+    expect(killSpy).toHaveBeenCalledWith(-3202, 'SIGTERM');
+    worker.emit('exit', null);
+
+    let state = taskLifecycleService.getState(taskId);
+    expect(spawnMock).toHaveBeenCalledTimes(3);
+    expect(state.services[1]).toMatchObject({ name: 'worker', status: 'ready', restarts: 1 });
+    expect(state.services[1].pid).toBe(3203);
+
+    taskLifecycleService.stopRun(taskId);
+    api.emit('exit', null);
+    restarted.emit('exit', null);
+
+    state = taskLifecycleService.getState(taskId);
+    expect(state.run.status).toBe('idle');
+    expect(state.services.map((s) => s.status)).toEqual(['stopped', 'stopped']);
+    expect(taskLifecycleService.restartService(taskId, 'api')).toEqual({
+      ok: false,
+      error: 'Services are not running',
+    });
+    killSpy.mockRestore();
+  });
 });
@@ -0,0 +1,232 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { drizzle } from 'drizzle-orm/sqlite-proxy';
+import * as schema from '../../main/db/schema';
+import { findExceededBudget, type UsageBudgets } from '../../shared/usage';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../../drizzle');
+
+/** In-memory database with every migration applied, behind the app's sqlite-proxy driver. */
+function createTestDb() {
+  const sqlite = new Database(':memory:');
+  const journal = JSON.parse(
+    fs.readFileSync(path.join(MIGRATIONS_DIR, 'meta', '_journal.json'), 'utf8')
+  ) as { entries: Array<{ tag: string }> };
+  for (const { tag } of journal.entries) {
+    const migration = fs.readFileSync(path.join(MIGRATIONS_DIR, `${tag}.sql`), 'utf8');
+    for (const statement of migration.split('--> statement-breakpoint')) {
+      if (statement.trim()) sqlite.exec(statement);
+    }
+  }
+  const db = drizzle(
+    async (query, params, method) => {
+      const statement = sqlite.prepare(query);
+      if (!statement.reader) {
+        statement.run(...params);
+        return { rows: [] };
+      }
+      statement.raw(true);
+      const rows = method === 'get' ? statement.get(...params) : statement.all(...params);
+      return { rows: rows as unknown[] };
+    },
+    { schema }
+  );
+  return { sqlite, db };
+}
+
+let testDb: ReturnType<typeof createTestDb>;
+
+vi.mock('electron', () => ({
+  app: { getPath: () => '/tmp', getVersion: () => '0.0.0-test' },
+}));
+
+vi.mock('../../main/db/path', () => ({
+  resolveDatabasePath: () => ':memory:',
+  resolveMigrationsPath: () => MIGRATIONS_DIR,
+}));
+
+vi.mock('../../main/db/drizzleClient', () => ({
+  getDrizzleClient: async () => ({ db: testDb.db }),
+  resetDrizzleClient: () => {},
+}));
+
+vi.mock('../../main/errorTracking', () => ({
+  errorTracking: { captureDatabaseError: vi.fn() },
+}));
+
+vi.mock('../../main/lib/logger', () => ({
+  log: { info: vi.fn(), debug: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+let databaseService: typeof import('../../main/services/DatabaseService').databaseService;
+
+beforeAll(async () => {
+  ({ databaseService } = await import('../../main/services/DatabaseService'));
+});
+
+function seed() {
+  const { sqlite } = testDb;
+  const insert = (sql: string, ...rows: unknown[][]) => {
+    const statement = sqlite.prepare(sql);
+    for (const row of rows) statement.run(...row);
+  };
+  insert(
+    'INSERT INTO projects (id, name, path) VALUES (?, ?, ?)',
+    ['p1', 'Web', '/repos/web'],
+    ['p2', 'API', '/repos/api']
+  );
+  insert(
+    'INSERT INTO tasks (id, project_id, name, branch, path) VALUES (?, ?, ?, ?, ?)',
+    ['t1', 'p1', 'login', 'valkyr/login', '/wt/login'],
+    ['t2', 'p1', 'docs', 'valkyr/docs', '/wt/docs'],
+    ['t3', 'p2', 'auth', 'valkyr/auth', '/wt/auth']
+  );
+  insert(
+    'INSERT INTO conversations (id, task_id, title) VALUES (?, ?, ?)',
+    ['c1', 't1', 'Chat'],
+    ['c2', 't2', 'Chat'],
+    ['c3', 't3', 'Chat']
+  );
+}
+
+/** Record a turn as if it finished at `at` (midday, so the local day is the UTC day). */
+async function recordTurn(
+  at: string,
+  conversationId: string,
+  providerId: string,
+  tokens: number,
+  costUsd: number
+) {
+  vi.setSystemTime(new Date(at));
+  await databaseService.saveUsageEntry({
+    conversationId,
+    messageId: null,
+    providerId,
+    modelId: null,
+    inputTokens: tokens / 2,
+    outputTokens: tokens / 2,
+    cachedReadTokens: 0,
+    cachedWriteTokens: 0,
+    totalTokens: tokens,
+    costUsd,
+  });
+}
+
+beforeEach(async () => {
+  testDb = createTestDb();
+  seed();
+  vi.useFakeTimers({ toFake: ['Date'] });
+  await recordTurn('2026-03-01T12:00:00Z', 'c1', 'claude', 1000, 0.5);
+  await recordTurn('2026-03-01T12:30:00Z', 'c1', 'codex', 200, 0.25);
+  await recordTurn('2026-03-02T12:00:00Z', 'c2', 'claude', 400, 1);
+  await recordTurn('2026-03-02T13:00:00Z', 'c3', 'claude', 3000, 2);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  testDb.sqlite.close();
+});
+
+describe('DatabaseService usage ledger', () => {
+  it('sums turns, tokens and cost per task, most expensive first', async () => {
+    expect(await databaseService.getUsageSummary('task')).toEqual([
+      {
+        key: 't3',
+        label: 'auth',
+        turns: 1,
+        inputTokens: 1500,
+        outputTokens: 1500,
+        totalTokens: 3000,
+        costUsd: 2,
+      },
+      {
+        key: 't2',
+        label: 'docs',
+        turns: 1,
+        inputTokens: 200,
+        outputTokens: 200,
+        totalTokens: 400,
+        costUsd: 1,
+      },
+      {
+        key: 't1',
+        label: 'login',
+        turns: 2,
+        inputTokens: 600,
+        outputTokens: 600,
+        totalTokens: 1200,
+        costUsd: 0.75,
+      },
+    ]);
+  });
+
+  it('groups by project, provider and day', async () => {
+    const summarize = async (groupBy: 'project' | 'provider' | 'day', since?: string) =>
+      (await databaseService.getUsageSummary(groupBy, since)).map((row) => [
+        row.label,
+        row.turns,
+        row.costUsd,
+      ]);
+
+    expect(await summarize('project')).toEqual([
+      ['API', 1, 2],
+      ['Web', 3, 1.75],
+    ]);
+    expect(await summarize('provider')).toEqual([
+      ['claude', 3, 3.5],
+      ['codex', 1, 0.25],
+    ]);
+    expect(await summarize('day')).toEqual([
+      ['2026-03-02', 2, 3],
+      ['2026-03-01', 2, 0.75],
+    ]);
+    expect(await summarize('provider', '2026-03-02T00:00:00Z')).toEqual([['claude', 2, 3]]);
+  });
+
+  it('reports the spend a conversation counts against', async () => {
+    expect(await databaseService.getUsageSpend('c1', '2026-03-02T00:00:00.000Z')).toEqual({
+      task: 0.75,
+      project: 1.75,
+      day: 3,
+    });
+    expect(await databaseService.getUsageSpend('missing', '2026-03-02T00:00:00.000Z')).toEqual({
+      task: 0,
+      project: 0,
+      day: 0,
+    });
+  });
+});
+
+describe('findExceededBudget', () => {
+  const budgets: UsageBudgets = {
+    enabled: true,
+    perTaskUsd: 1,
+    perProjectUsd: 5,
+    dailyUsd: null,
+  };
+
+  it('breaches a budget once the spend reaches the limit', () => {
+    expect(findExceededBudget(budgets, { task: 0.99, project: 4.99, day: 100 })).toBeNull();
+    expect(findExceededBudget(budgets, { task: 1, project: 2, day: 2 })).toEqual({
+      scope: 'task',
+      limitUsd: 1,
+      spentUsd: 1,
+    });
+    expect(findExceededBudget(budgets, { task: 0.5, project: 6, day: 6 })).toEqual({
+      scope: 'project',
+      limitUsd: 5,
+      spentUsd: 6,
+    });
+  });
+
+  it('ignores disabled budgets and empty limits', () => {
+    const spend = { task: 10, project: 10, day: 10 };
+    expect(findExceededBudget({ ...budgets, enabled: false }, spend)).toBeNull();
+    expect(findExceededBudget(undefined, spend)).toBeNull();
+    expect(
+      findExceededBudget({ ...budgets, perTaskUsd: 0, perProjectUsd: null, dailyUsd: null }, spend)
+    ).toBeNull();
+  });
+});
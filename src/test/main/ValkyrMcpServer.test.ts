@@ -0,0 +1,273 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const getAppSettingsMock = vi.fn();
+const sendMock = vi.fn();
+const saveLineCommentMock = vi.fn(async () => 'comment-1');
+const saveTaskMock = vi.fn(async () => {});
+const createWorktreeMock = vi.fn();
+const runSetupMock = vi.fn(async () => ({ ok: true }));
+let projectPath: string;
+let taskPath: string;
+
+vi.mock('electron', () => ({
+  app: { getVersion: () => '0.0.0-test' },
+  BrowserWindow: { getAllWindows: () => [{ webContents: { send: sendMock } }] },
+}));
+
+vi.mock('../../main/settings', () => ({
+  getAppSettings: () => getAppSettingsMock(),
+}));
+
+vi.mock('../../main/lib/logger', () => ({
+  log: { info: vi.fn(), debug: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../../main/services/DatabaseService', () => ({
+  databaseService: {
+    getProjects: async () => [
+      { id: 'p1', name: 'repo', path: projectPath, gitInfo: { baseRef: 'origin/main' } },
+    ],
+    getTasks: async () => [
+      { id: 't1', name: 'login', branch: 'valkyr/login', path: taskPath, agentId: 'claude' },
+      { id: 't2', name: 'docs', branch: 'valkyr/docs', path: '/elsewhere', agentId: 'codex' },
+    ],
+    getTaskByPath: async (p: string) =>
+      p === taskPath ? { id: 't1', path: taskPath, agentId: 'claude' } : null,
+    saveLineComment: (...args: unknown[]) => saveLineCommentMock(...(args as [])),
+    saveTask: (...args: unknown[]) => saveTaskMock(...(args as [])),
+  },
+}));
+
+vi.mock('../../main/services/TaskLifecycleService', () => ({
+  taskLifecycleService: {
+    runSetup: (...args: unknown[]) => runSetupMock(...(args as [])),
+    runVerify: vi.fn(),
+    startRun: vi.fn(),
+  },
+}));
+
+vi.mock('../../main/services/verify/VerifyService', () => ({
+  verifyService: { getLatestRun: vi.fn() },
+}));
+
+vi.mock('../../main/services/WorktreeService', () => ({
+  worktreeService: {
+    createWorktree: (...args: unknown[]) => createWorktreeMock(...args),
+  },
+}));
+
+import { ValkyrMcpServer } from '../../main/services/mcp/ValkyrMcpServer';
+import { McpClient, StreamableHttpTransport } from '../../main/services/mcp/McpClient';
+
+const git = (cwd: string, ...args: string[]) => execFileSync('git', args, { cwd, stdio: 'pipe' });
+
+let tmpDir: string;
+let server: ValkyrMcpServer;
+
+async function connect(sessionKey = 'claude-acp-c1'): Promise<McpClient> {
+  const config = await server.getSessionServer(projectPath, taskPath, sessionKey);
+  const client = new McpClient(new StreamableHttpTransport(config), {
+    clientInfo: { name: 'test', version: '1' },
+    timeoutMs: 5_000,
+  });
+  await client.connect();
+  return client;
+}
+
+async function callTool(client: McpClient, name: string, args: object = {}) {
+  const result = await client.request('tools/call', { name, arguments: args });
+  return { text: result.content[0].text as string, isError: !!result.isError };
+}
+
+beforeAll(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'valkyr-mcp-test-'));
+  projectPath = path.join(tmpDir, 'repo');
+  taskPath = path.join(tmpDir, 'worktree');
+  fs.mkdirSync(projectPath);
+  fs.mkdirSync(taskPath);
+  git(taskPath, 'init', '-q', '-b', 'main');
+  fs.writeFileSync(path.join(taskPath, 'app.ts'), 'export const a = 1;\n');
+  git(taskPath, 'add', '.');
+  git(taskPath, '-c', 'user.name=t', '-c', 'user.email=t@t', 'commit', '-qm', 'init');
+  git(taskPath, 'switch', '-q', '-c', 'valkyr/login');
+  fs.writeFileSync(path.join(taskPath, 'committed.ts'), 'export const c = 1;\n');
+  git(taskPath, 'add', '.');
+  git(taskPath, '-c', 'user.name=t', '-c', 'user.email=t@t', 'commit', '-qm', 'agent commit');
+  fs.symlinkSync(projectPath, path.join(taskPath, 'outside'));
+  fs.writeFileSync(path.join(projectPath, 'secret.ts'), 'export const secret = 1;\n');
+  fs.writeFileSync(path.join(taskPath, 'app.ts'), 'export const a = 2;\n');
+  fs.writeFileSync(path.join(taskPath, 'new.ts'), 'export const b = 1;\n');
+  server = new ValkyrMcpServer();
+});
+
+afterAll(() => {
+  server.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  getAppSettingsMock.mockReturnValue({ mcp: { valkyr: { enabled: true, projects: {} } } });
+  sendMock.mockClear();
+});
+
+describe('ValkyrMcpServer', () => {
+  it('offers the default tools and scopes them to the session task', async () => {
+    const client = await connect();
+    try {
+      expect(client.serverInfo).toEqual({ name: 'valkyr', version: '0.0.0-test' });
+      const { tools } = await client.request('tools/list');
+      expect(tools.map((t: { name: string }) => t.name)).toEqual([
+        'list_tasks',
+        'get_task_diff',
+        'report_progress',
+      ]);
+
+      const tasks = JSON.parse((await callTool(client, 'list_tasks')).text);
+      expect(tasks.map((t: { id: string; isCurrent: boolean }) => [t.id, t.isCurrent])).toEqual([
+        ['t1', true],
+        ['t2', false],
+      ]);
+
+      const diff = await callTool(client, 'get_task_diff');
+      expect(diff.text).toContain('Changes in login (valkyr/login) since main:');
+      expect(diff.text).toContain('+export const a = 2;');
+      expect(diff.text).toContain('+export const b = 1;');
+      expect(diff.text).toContain('+export const c = 1;');
+
+      const progress = await callTool(client, 'report_progress', {
+        message: 'Writing tests',
+        percent: 40,
+      });
+      expect(progress.isError).toBe(false);
+      expect(sendMock).toHaveBeenCalledWith(
+        'valkyrMcp:progress',
+        expect.objectContaining({ taskId: 't1', message: 'Writing tests', state: 'working' })
+      );
+      expect(server.getProgress()).toHaveLength(1);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('refuses tools the project has not allowed', async () => {
+    const client = await connect();
+    try {
+      await expect(
+        callTool(client, 'add_line_comment', { filePath: 'app.ts', lineNumber: 1, content: 'x' })
+      ).rejects.toThrow('not allowed in this project');
+
+      getAppSettingsMock.mockReturnValue({
+        mcp: { valkyr: { enabled: true, projects: { [projectPath]: ['add_line_comment'] } } },
+      });
+      const comment = await callTool(client, 'add_line_comment', {
+        filePath: 'app.ts',
+        lineNumber: 1,
+        content: 'Why 2?',
+      });
+      expect(comment.isError).toBe(false);
+      expect(saveLineCommentMock).toHaveBeenCalledWith({
+        taskId: 't1',
+        filePath: 'app.ts',
+        lineNumber: 1,
+        lineContent: 'export const a = 2;',
+        content: 'Why 2?',
+      });
+
+      const escape = await callTool(client, 'add_line_comment', {
+        filePath: '../repo/x.ts',
+        lineNumber: 1,
+        content: 'x',
+      });
+      expect(escape).toEqual({ text: 'filePath must be inside the task worktree', isError: true });
+
+      const viaSymlink = await callTool(client, 'add_line_comment', {
+        filePath: 'outside/secret.ts',
+        lineNumber: 1,
+        content: 'x',
+      });
+      expect(viaSymlink).toEqual({
+        text: 'filePath must be inside the task worktree',
+        isError: true,
+      });
+      expect(saveLineCommentMock).toHaveBeenCalledTimes(1);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('spawns a sub-task with its own worktree', async () => {
+    getAppSettingsMock.mockReturnValue({
+      defaultProvider: 'claude',
+      mcp: { valkyr: { enabled: true, projects: { [projectPath]: ['spawn_task'] } } },
+    });
+    createWorktreeMock.mockResolvedValue({
+      id: 'wt-9',
+      branch: 'valkyr/api-tests-abc',
+      path: path.join(tmpDir, 'api-tests'),
+    });
+    const client = await connect();
+    try {
+      const result = await callTool(client, 'spawn_task', {
+        name: 'api tests',
+        prompt: 'Cover the login API',
+      });
+
+      expect(result.isError).toBe(false);
+      expect(createWorktreeMock).toHaveBeenCalledWith(projectPath, 'api tests', 'p1', undefined);
+      expect(saveTaskMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'wt-9',
+          projectId: 'p1',
+          agentId: 'claude',
+          metadata: { initialPrompt: 'Cover the login API', parentTaskId: 't1' },
+        })
+      );
+      expect(runSetupMock).toHaveBeenCalledWith(
+        'wt-9',
+        path.join(tmpDir, 'api-tests'),
+        projectPath
+      );
+      expect(sendMock).toHaveBeenCalledWith('valkyrMcp:taskSpawned', {
+        projectId: 'p1',
+        taskId: 'wt-9',
+      });
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('rejects requests without a valid session token', async () => {
+    const { url, headers } = await server.getSessionServer(projectPath, taskPath, 'codex-acp-c2');
+    const listTools = (authorization: string) =>
+      fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      });
+    expect((await listTools('Bearer nope')).status).toBe(401);
+    expect((await listTools(headers.Authorization)).status).not.toBe(401);
+
+    server.revokeSession('codex-acp-c2');
+    expect((await listTools(headers.Authorization)).status).toBe(401);
+  });
+
+  it('answers malformed bodies with 400', async () => {
+    const { url, headers } = await server.getSessionServer(projectPath, taskPath, 'codex-acp-c3');
+    const post = (body: string) =>
+      fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: headers.Authorization },
+        body,
+      });
+
+    for (const body of ['null', '[1]', '[]', '"tools/list"', '[{"jsonrpc":"2.0"}, null]']) {
+      expect((await post(body)).status).toBe(400);
+    }
+    const batch = await post(JSON.stringify([{ jsonrpc: '2.0', id: 1, method: 'ping' }]));
+    expect(await batch.json()).toEqual([{ jsonrpc: '2.0', id: 1, result: {} }]);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import type { VariantRef } from '../../shared/variants';
+import { commit, createRepo, git, write } from '../helpers/gitRepo';
+
+const worktreeMocks = vi.hoisted(() => ({
+  generateBranchName: vi.fn(async () => 'valkyr/task'),
+  getWorktree: vi.fn(() => undefined),
+  registerWorktree: vi.fn(),
+  removeWorktree: vi.fn(async () => {}),
+}));
+
+vi.mock('../../main/services/WorktreeService', () => ({
+  worktreeService: worktreeMocks,
+}));
+
+vi.mock('../../main/lib/logger', () => ({
+  log: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import { VariantService } from '../../main/services/VariantService';
+
+describe('VariantService', () => {
+  let tempDir: string;
+  let repo: string;
+  let baseSha: string;
+  let variantA: VariantRef;
+  let variantB: VariantRef;
+  let service: VariantService;
+
+  const addVariant = (name: string): VariantRef => {
+    const variantPath = path.join(tempDir, name);
+    git(repo, 'worktree', 'add', '-q', '-b', `variant-${name}`, variantPath, baseSha);
+    return { worktreeId: `wt-${name}`, name, branch: `variant-${name}`, path: variantPath };
+  };
+  const currentBranch = (cwd: string) => git(cwd, 'branch', '--show-current');
+  const branchExists = (name: string) => git(repo, 'branch', '--list', name) !== '';
+  const subjects = (cwd: string) => git(cwd, 'log', '--format=%s', `${baseSha}..HEAD`).split('\n');
+
+  beforeEach(() => {
+    ({ tempDir, repo } = createRepo('variant-test-'));
+    baseSha = git(repo, 'rev-parse', 'HEAD');
+    variantA = addVariant('a');
+    variantB = addVariant('b');
+    commit(variantA.path, 'a.txt', 'a\n', 'Add a');
+    write(variantA.path, 'wip.txt', 'wip\n');
+    commit(variantB.path, 'b.txt', 'b\n', 'Add b');
+    vi.clearAllMocks();
+    service = new VariantService();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const pick = (strategy: 'merge' | 'cherry-pick', base = baseSha) =>
+    service.pickWinner({
+      projectPath: repo,
+      projectId: 'p1',
+      taskName: 'task',
+      baseSha: base,
+      winner: variantA,
+      losers: [variantB],
+      strategy,
+    });
+
+  it('resolves the base from the variants, narrowed by baseRef', async () => {
+    const tip = commit(repo, 'app.txt', 'main moved on\n', 'Main change');
+    git(repo, 'branch', 'release', tip);
+
+    expect(await service.resolveBase(repo, [variantA, variantB])).toBe(baseSha);
+    expect(await service.resolveBase(repo, [variantA])).toBe(
+      git(repo, 'rev-parse', variantA.branch)
+    );
+    expect(await service.resolveBase(repo, [variantA], 'release')).toBe(baseSha);
+    expect(await service.resolveBase(repo, [], 'release')).toBe(tip);
+  });
+
+  it('merges the winner into a fresh task branch and removes the losers', async () => {
+    const result = await pick('merge');
+
+    expect(result).toEqual({ branch: 'valkyr/task', path: variantA.path, cleanupFailures: [] });
+    expect(currentBranch(variantA.path)).toBe('valkyr/task');
+    expect(subjects(variantA.path)).toEqual([
+      'Merge a into valkyr/task',
+      'task: changes from a',
+      'Add a',
+    ]);
+    expect(git(variantA.path, 'status', '--porcelain')).toBe('');
+    expect(fs.readFileSync(path.join(variantA.path, 'wip.txt'), 'utf8')).toBe('wip\n');
+    expect(branchExists('variant-a')).toBe(false);
+    expect(worktreeMocks.registerWorktree).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'wt-a', name: 'task', branch: 'valkyr/task', projectId: 'p1' })
+    );
+    expect(worktreeMocks.removeWorktree).toHaveBeenCalledWith(
+      repo,
+      'wt-b',
+      variantB.path,
+      'variant-b'
+    );
+  });
+
+  it('cherry-picks the winner commits onto the task branch', async () => {
+    worktreeMocks.removeWorktree.mockRejectedValueOnce(new Error('busy'));
+
+    const result = await pick('cherry-pick');
+
+    expect(result.cleanupFailures).toEqual([{ worktreeId: 'wt-b', error: 'busy' }]);
+    expect(currentBranch(variantA.path)).toBe('valkyr/task');
+    expect(subjects(variantA.path)).toEqual(['task: changes from a', 'Add a']);
+    expect(git(variantA.path, 'rev-list', '--merges', '--count', 'HEAD')).toBe('0');
+    expect(branchExists('variant-a')).toBe(false);
+  });
+
+  it('refuses to cherry-pick a variant with merge commits', async () => {
+    git(variantA.path, 'switch', '-q', '-c', 'side', baseSha);
+    commit(variantA.path, 'side.txt', 'side\n', 'Side change');
+    git(variantA.path, 'switch', '-q', 'variant-a');
+    git(variantA.path, 'merge', '-q', '--no-ff', '-m', 'Merge side', 'side');
+
+    await expect(pick('cherry-pick')).rejects.toThrow(
+      'Cannot cherry-pick a: it contains merge commits'
+    );
+    expect(currentBranch(variantA.path)).toBe('variant-a');
+    expect(git(variantA.path, 'status', '--porcelain')).toBe('?? wip.txt');
+    expect(branchExists('valkyr/task')).toBe(false);
+    expect(worktreeMocks.registerWorktree).not.toHaveBeenCalled();
+    expect(worktreeMocks.removeWorktree).not.toHaveBeenCalled();
+  });
+
+  it('leaves the winner on its variant branch when integration fails', async () => {
+    commit(variantA.path, 'app.txt', 'variant a\n', 'Change app in a');
+    const conflicting = commit(repo, 'app.txt', 'main\n', 'Change app on main');
+
+    await expect(pick('merge', conflicting)).rejects.toThrow('Failed to merge a');
+
+    expect(currentBranch(variantA.path)).toBe('variant-a');
+    expect(git(variantA.path, 'status', '--porcelain')).toBe('');
+    expect(git(variantA.path, 'log', '-1', '--format=%s')).toBe('task: changes from a');
+    expect(branchExists('valkyr/task')).toBe(false);
+    expect(worktreeMocks.registerWorktree).not.toHaveBeenCalled();
+    expect(worktreeMocks.removeWorktree).not.toHaveBeenCalled();
+  });
+});
@@ -4,6 +4,8 @@ import path from 'path';
 import os from 'os';
 import { execSync } from 'child_process';
 import { WorktreePoolService } from '../../main/services/WorktreePoolService';
+import { getAppSettings } from '../../main/settings';
+import { taskLifecycleService } from '../../main/services/TaskLifecycleService';
 
 vi.mock('electron', () => ({
   app: {
@@ -29,6 +31,14 @@ vi.mock('../../main/services/ProjectSettingsService', () => ({
   },
 }));
 
+vi.mock('../../main/services/ssh/remoteProject', () => ({
+  resolveRemoteConnectionId: async () => undefined,
+}));
+
+vi.mock('../../main/services/ssh/SshService', () => ({
+  sshService: {},
+}));
+
 vi.mock('../../main/lib/logger', () => ({
   log: {
     info: vi.fn(),
@@ -108,4 +118,68 @@ describe('WorktreePoolService', () => {
     expect(fs.existsSync(settingsPath)).toBe(true);
     expect(fs.readFileSync(settingsPath, 'utf8')).toContain('workspace-write');
   });
+
+  it('keeps the configured number of reserves per project', async () => {
+    vi.mocked(getAppSettings).mockReturnValueOnce({
+      repository: { branchPrefix: 'valkyr', pushOnCreate: false },
+      worktreePool: { size: 2, runSetup: false },
+    } as any);
+
+    await pool.ensureReserve('project-1', projectPath, 'HEAD');
+
+    const [metrics] = pool.getMetrics('project-1');
+    expect(metrics).toMatchObject({ size: 2, ready: 2, warming: 0, creating: 0 });
+  });
+
+  it('lets .valkyr.json override the pool size', async () => {
+    fs.writeFileSync(
+      path.join(projectPath, '.valkyr.json'),
+      JSON.stringify({ worktreePool: { size: 0 } })
+    );
+
+    await pool.ensureReserve('project-1', projectPath, 'HEAD');
+
+    expect(pool.hasReserve('project-1')).toBe(false);
+    expect(pool.getMetrics('project-1')[0].size).toBe(0);
+  });
+
+  it('discards reserves once their base ref has moved', async () => {
+    await pool.ensureReserve('project-1', projectPath, 'HEAD');
+    fs.writeFileSync(path.join(projectPath, 'NEW.md'), 'moved');
+    execSync('git add NEW.md && git commit -m "move"', { cwd: projectPath, stdio: 'pipe' });
+
+    const claimed = await pool.claimReserve('project-1', projectPath, 'after-move');
+
+    expect(claimed).toBeNull();
+    expect(pool.getMetrics('project-1')[0]).toMatchObject({ refreshed: 1, hits: 0, misses: 1 });
+  });
+
+  it('records hits and claim latency', async () => {
+    await pool.ensureReserve('project-1', projectPath, 'HEAD');
+
+    const claimed = await pool.claimReserve('project-1', projectPath, 'first');
+    const missed = await pool.claimReserve('project-1', projectPath, 'second');
+
+    expect(claimed).not.toBeNull();
+    expect(missed).toBeNull();
+    const [metrics] = pool.getMetrics('project-1');
+    expect(metrics).toMatchObject({ hits: 1, misses: 1 });
+    expect(metrics.lastClaimMs).toBeGreaterThanOrEqual(0);
+    expect(metrics.avgClaimMs).toBe(metrics.lastClaimMs);
+  });
+
+  it('warms reserves with the setup script but leaves the task setup to run again', async () => {
+    fs.writeFileSync(
+      path.join(projectPath, '.valkyr.json'),
+      JSON.stringify({ scripts: { setup: 'echo "$VALKYR_TASK_PATH" > setup-ran.txt' } })
+    );
+
+    await pool.ensureReserve('project-1', projectPath, 'HEAD');
+    const claimed = await pool.claimReserve('project-1', projectPath, 'prewarmed');
+
+    // The warm run saw the reserve path, so the moved task must not count it as its setup
+    const warmed = fs.readFileSync(path.join(claimed!.worktree.path, 'setup-ran.txt'), 'utf8');
+    expect(warmed).toContain('_reserve');
+    expect(taskLifecycleService.getState(claimed!.worktree.id).setup.status).toBe('idle');
+  });
 });
@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { EventEmitter } from 'events';
+
+type FakeView = {
+  url: string;
+  webContents: EventEmitter & { capturePage: ReturnType<typeof vi.fn> };
+};
+
+const views = vi.hoisted(() => ({ last: null as FakeView | null }));
+
+vi.mock('electron', async () => {
+  const { EventEmitter } = await import('events');
+  /** Stand-in for the preview's WebContentsView. */
+  class WebContentsView {
+    url = 'http://localhost:3000/';
+    readonly webContents = Object.assign(new EventEmitter(), {
+      id: 7,
+      getURL: () => this.url,
+      capturePage: vi.fn(async () => ({
+        isEmpty: () => false,
+        toDataURL: () => 'data:image/png;base64,AA==',
+      })),
+      setWindowOpenHandler: vi.fn(),
+      session: { webRequest: { onCompleted: vi.fn(), onErrorOccurred: vi.fn() } },
+    });
+
+    constructor() {
+      views.last = this as unknown as FakeView;
+    }
+  }
+  return { BrowserWindow: { getAllWindows: () => [] }, WebContentsView };
+});
+
+vi.mock('../../main/app/window', () => ({
+  getMainWindow: () => null,
+}));
+
+import { browserViewService } from '../../main/services/browserViewService';
+
+const fakeWindow = { contentView: { addChildView: vi.fn() } } as unknown as Electron.BrowserWindow;
+
+function consoleMessage(message: string, level = 1) {
+  views.last!.webContents.emit(
+    'console-message',
+    {},
+    level,
+    message,
+    12,
+    'http://localhost:3000/app.js'
+  );
+}
+
+describe('browserViewService preview logs', () => {
+  beforeEach(() => {
+    browserViewService.ensureView(fakeWindow);
+    for (const taskId of ['task-a', 'task-b']) browserViewService.clearLogs(taskId);
+    browserViewService.setTask(null);
+  });
+
+  it('logs page output under the task whose preview is showing', () => {
+    consoleMessage('before any task');
+    browserViewService.setTask('task-a');
+    consoleMessage('Uncaught TypeError: x is undefined', 3);
+    browserViewService.setTask('task-b');
+    consoleMessage('hello from b');
+
+    expect(browserViewService.getLogs('task-a')).toEqual([
+      expect.objectContaining({
+        kind: 'exception',
+        level: 'error',
+        message: 'Uncaught TypeError: x is undefined',
+        source: 'http://localhost:3000/app.js:12',
+      }),
+    ]);
+    expect(browserViewService.getLogs('task-b').map((e) => e.message)).toEqual(['hello from b']);
+  });
+
+  it('keeps the newest entries and truncates long messages', () => {
+    browserViewService.setTask('task-a');
+    for (let i = 0; i < 505; i++) consoleMessage(`line ${i}`);
+    consoleMessage('x'.repeat(3_000));
+
+    const logs = browserViewService.getLogs('task-a');
+    expect(logs).toHaveLength(500);
+    expect(logs[0].message).toBe('line 6');
+    expect(logs[499].message).toBe(`${'x'.repeat(2_000)}…`);
+  });
+
+  it('forgets a task once its logs are cleared', () => {
+    browserViewService.setTask('task-a');
+    consoleMessage('stale');
+
+    browserViewService.clearLogs('task-a');
+    expect(browserViewService.getLogs('task-a')).toEqual([]);
+  });
+});
+
+describe('browserViewService screenshots', () => {
+  beforeEach(() => {
+    browserViewService.ensureView(fakeWindow);
+    views.last!.url = 'http://localhost:3000/';
+    views.last!.webContents.capturePage.mockClear();
+  });
+
+  it('captures the preview of the task asking for it', async () => {
+    browserViewService.setTask('task-a');
+
+    await expect(browserViewService.captureScreenshot('task-a')).resolves.toBe(
+      'data:image/png;base64,AA=='
+    );
+  });
+
+  it('refuses to capture the preview of another task', async () => {
+    browserViewService.setTask('task-b');
+
+    await expect(browserViewService.captureScreenshot('task-a')).rejects.toThrow(
+      'The preview is showing another task'
+    );
+    expect(views.last!.webContents.capturePage).not.toHaveBeenCalled();
+  });
+
+  it('refuses when no page is open', async () => {
+    browserViewService.setTask('task-a');
+    views.last!.url = 'about:blank';
+
+    await expect(browserViewService.captureScreenshot('task-a')).rejects.toThrow(
+      'Open a page in the preview to take a screenshot'
+    );
+  });
+});
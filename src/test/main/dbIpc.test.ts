@@ -72,6 +72,16 @@ vi.mock('../../main/services/DatabaseService', () => ({
   databaseService: dbMock,
 }));
 
+const clearPreviewLogsMock = vi.fn();
+
+vi.mock('../../main/services/browserViewService', () => ({
+  browserViewService: { clearLogs: (...args: unknown[]) => clearPreviewLogsMock(...args) },
+}));
+
+vi.mock('../../main/services/ptyManager', () => ({
+  collectTaskPtys: vi.fn(async () => []),
+}));
+
 vi.mock('fs', () => ({
   default: {
     existsSync: vi.fn(),
@@ -193,6 +203,7 @@ describe('dbIpc', () => {
       dbMock.deleteTask.mockResolvedValue(undefined);
       const result = await callHandler('db:deleteTask', 't1');
       expect(result).toEqual({ success: true });
+      expect(clearPreviewLogsMock).toHaveBeenCalledWith('t1');
     });
   });
 
@@ -201,6 +212,7 @@ describe('dbIpc', () => {
       dbMock.archiveTask.mockResolvedValue(undefined);
       const result = await callHandler('db:archiveTask', 't1');
       expect(result).toEqual({ success: true });
+      expect(clearPreviewLogsMock).toHaveBeenCalledWith('t1');
     });
   });
 
@@ -13,6 +13,7 @@ const gitStageFileMock = vi.fn();
 const gitStageAllFilesMock = vi.fn();
 const gitUnstageFileMock = vi.fn();
 const gitRevertFileMock = vi.fn();
+const verifyCheckGateMock = vi.fn();
 
 vi.mock('electron', () => ({
   app: {
@@ -54,6 +55,24 @@ vi.mock('../../main/services/GitQueue', () => ({
   gitQueue: { run: vi.fn((_: string, op: () => Promise<any>) => op()) },
 }));
 
+vi.mock('../../main/services/issues', () => ({
+  issueService: { notifyPrEvent: vi.fn().mockResolvedValue(undefined) },
+}));
+
+vi.mock('../../main/services/verify/VerifyService', () => ({
+  verifyService: {
+    checkGate: verifyCheckGateMock,
+  },
+}));
+
+vi.mock('../../main/services/ssh/SshService', () => ({
+  sshService: {},
+}));
+
+vi.mock('../../main/services/ssh/remoteProject', () => ({
+  resolveRemoteConnectionId: vi.fn().mockResolvedValue(undefined),
+}));
+
 vi.mock('../../main/services/DatabaseService', () => ({
   databaseService: {
     getTaskByPath: vi.fn(),
@@ -79,6 +98,7 @@ async function callHandler(channel: string, ...args: any[]) {
 beforeEach(async () => {
   vi.clearAllMocks();
   ipcHandlers.clear();
+  verifyCheckGateMock.mockResolvedValue({ state: 'ok', mode: 'off', message: null });
   vi.resetModules();
 
   // Re-apply electron mock
@@ -236,4 +256,27 @@ describe('gitIpc', () => {
       expect(result).toEqual({ success: true, action: 'unstaged' });
     });
   });
+
+  describe('git:commit-and-push', () => {
+    it('refuses to commit when a blocking verify gate has not passed', async () => {
+      const gate = { state: 'failed', mode: 'block', message: 'Verification failed' };
+      verifyCheckGateMock.mockResolvedValue(gate);
+
+      const result = await callHandler('git:commit-and-push', { taskPath: '/tmp/repo' });
+      expect(result).toEqual({ success: false, error: 'Verification failed', verifyGate: gate });
+      expect(execFileMock).not.toHaveBeenCalled();
+    });
+
+    it('refuses to commit when the verify gate cannot be checked', async () => {
+      verifyCheckGateMock.mockRejectedValue(new Error('ssh down'));
+
+      const result = await callHandler('git:commit-and-push', { taskPath: '/tmp/repo' });
+      expect(result).toMatchObject({
+        success: false,
+        error: 'Could not check verification for this task',
+        verifyGate: { mode: 'block' },
+      });
+      expect(execFileMock).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -96,6 +96,9 @@ vi.mock('../../main/services/ptyManager', () => ({
   getPty: getPtyMock,
   startDirectPty: vi.fn(),
   setOnDirectCliExit: vi.fn(),
+  attachPty: vi.fn(async () => null),
+  releasePty: vi.fn(),
+  getPtyOutputOffset: vi.fn(),
 }));
 
 vi.mock('../../main/lib/logger', () => ({
@@ -120,6 +123,12 @@ vi.mock('../../main/telemetry', () => ({
 vi.mock('../../shared/providers/registry', () => ({
   PROVIDER_IDS: ['codex', 'claude'],
   getProvider: vi.fn((id: string) => ({ name: id === 'codex' ? 'Codex' : 'Claude Code' })),
+  isValidProviderId: vi.fn((id: string) => ['codex', 'claude'].includes(id)),
+  listProviders: vi.fn(() => []),
+}));
+
+vi.mock('../../main/services/CustomAgentService', () => ({
+  customAgentService: { refresh: vi.fn(async () => []) },
 }));
 
 vi.mock('../../main/errorTracking', () => ({
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { layoutCommitGraph, parentLane } from '../../renderer/lib/commitGraph';
+
+describe('layoutCommitGraph', () => {
+  it('keeps a linear history in one lane', () => {
+    const rows = layoutCommitGraph([
+      { sha: 'c', parents: ['b'] },
+      { sha: 'b', parents: ['a'] },
+      { sha: 'a', parents: [] },
+    ]);
+
+    expect(rows.map((row) => row.column)).toEqual([0, 0, 0]);
+    expect(rows[1]).toEqual({ column: 0, before: ['b'], after: ['a'] });
+    expect(rows[2].after).toEqual([]);
+  });
+
+  it('opens a lane for a merged branch and closes it at the fork point', () => {
+    // m merges feature (f2, f1) into main (b), both forked from a
+    const commits = [
+      { sha: 'm', parents: ['b', 'f2'] },
+      { sha: 'f2', parents: ['f1'] },
+      { sha: 'f1', parents: ['a'] },
+      { sha: 'b', parents: ['a'] },
+      { sha: 'a', parents: [] },
+    ];
+    const rows = layoutCommitGraph(commits);
+
+    expect(rows.map((row) => row.column)).toEqual([0, 1, 1, 0, 0]);
+    expect(rows[0].after).toEqual(['b', 'f2']);
+    expect(parentLane(rows[0], commits[0].parents, 1)).toBe(1);
+    // Both lanes head for `a` and end there
+    expect(rows[4].before).toEqual(['a', 'a']);
+    expect(rows[4].after).toEqual([]);
+  });
+
+  it('places unrelated tips side by side', () => {
+    const rows = layoutCommitGraph([
+      { sha: 'task', parents: ['a'] },
+      { sha: 'base', parents: ['a'] },
+      { sha: 'a', parents: [] },
+    ]);
+
+    expect(rows.map((row) => row.column)).toEqual([0, 1, 0]);
+    expect(rows[1].before).toEqual(['a']);
+    expect(rows[1].after).toEqual(['a', 'a']);
+  });
+});